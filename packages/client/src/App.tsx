@@ -2,6 +2,8 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import LoginPage from "./components/auth/LoginPage";
 import RegisterPage from "./components/auth/RegisterPage";
 import ForgotPasswordPage from "./components/auth/ForgotPasswordPage";
+import ResetPasswordPage from "./components/auth/ResetPasswordPage";
+import VerifyEmailPage from "./components/auth/VerifyEmailPage";
 import ProfilePage from "./components/auth/ProfilePage";
 import OAuthCallback from "./components/auth/OAuthCallback";
 import { ProtectedRoute } from "./components/auth/ProtectedRoute";
@@ -17,6 +19,8 @@ export function App() {
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
         <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email/:token" element={<VerifyEmailPage />} />
         <Route path="/auth/callback" element={<OAuthCallback />} />
 
         {/* Protected routes */}
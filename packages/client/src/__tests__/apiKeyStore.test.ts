@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useApiKeyStore } from "../stores/apiKeyStore";
+import type { ApiKeyInfo } from "../stores/apiKeyStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    getAll: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  getAll: ReturnType<typeof vi.fn>;
+  post: ReturnType<typeof vi.fn>;
+  patch: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+function apiKey(overrides: Partial<ApiKeyInfo> = {}): ApiKeyInfo {
+  return {
+    id: "key-1",
+    name: "CI",
+    prefix: "gs_abcdef12",
+    lastUsedAt: null,
+    expiresAt: null,
+    rateLimit: 60,
+    scopes: ["spreadsheets:read"],
+    spreadsheetIds: [],
+    createdAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("apiKeyStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useApiKeyStore.setState({
+      keys: [],
+      spreadsheets: [],
+      usage: {},
+      error: null,
+    });
+  });
+
+  it("loads keys and the spreadsheets they can be pinned to", async () => {
+    mockApi.get.mockResolvedValue([apiKey()]);
+    mockApi.getAll.mockResolvedValue({
+      data: [{ id: "ss-1", title: "Budget", isStarred: false }],
+    });
+
+    await useApiKeyStore.getState().fetchKeys();
+    await useApiKeyStore.getState().fetchSpreadsheets();
+
+    const state = useApiKeyStore.getState();
+    expect(state.keys).toHaveLength(1);
+    expect(state.spreadsheets).toEqual([{ id: "ss-1", title: "Budget" }]);
+  });
+
+  it("creates a scoped key and returns the raw key once", async () => {
+    mockApi.post.mockResolvedValue({
+      key: "gs_secret",
+      apiKey: apiKey({ id: "key-2", spreadsheetIds: ["ss-1"] }),
+    });
+
+    const raw = await useApiKeyStore.getState().createKey("CI", {
+      scopes: ["spreadsheets:read"],
+      spreadsheetIds: ["ss-1"],
+    });
+
+    expect(raw).toBe("gs_secret");
+    expect(mockApi.post).toHaveBeenCalledWith("/users/me/api-keys", {
+      name: "CI",
+      expiresAt: undefined,
+      scopes: ["spreadsheets:read"],
+      spreadsheetIds: ["ss-1"],
+    });
+    expect(useApiKeyStore.getState().keys[0].id).toBe("key-2");
+  });
+
+  it("updates scopes in place and reports failures", async () => {
+    useApiKeyStore.setState({ keys: [apiKey()] });
+    mockApi.patch.mockResolvedValue(
+      apiKey({ scopes: ["spreadsheets:read", "export"] }),
+    );
+
+    expect(
+      await useApiKeyStore
+        .getState()
+        .updateKey("key-1", { scopes: ["spreadsheets:read", "export"] }),
+    ).toBe(true);
+    expect(useApiKeyStore.getState().keys[0].scopes).toEqual([
+      "spreadsheets:read",
+      "export",
+    ]);
+
+    mockApi.patch.mockRejectedValue(new Error("Forbidden"));
+    expect(
+      await useApiKeyStore.getState().updateKey("key-1", { scopes: [] }),
+    ).toBe(false);
+    expect(useApiKeyStore.getState().error).toBe("Forbidden");
+  });
+
+  it("loads a key's daily usage", async () => {
+    mockApi.get.mockResolvedValue({
+      keyId: "key-1",
+      rateLimit: 60,
+      totals: { requests: 5, errors: 1 },
+      daily: [{ date: "2026-10-19", requests: 5, errors: 1 }],
+    });
+
+    await useApiKeyStore.getState().fetchUsage("key-1", 7);
+
+    expect(mockApi.get).toHaveBeenCalledWith(
+      "/users/me/api-keys/key-1/usage?days=7",
+    );
+    expect(useApiKeyStore.getState().usage["key-1"].totals.requests).toBe(5);
+  });
+
+  it("removes a revoked key", async () => {
+    useApiKeyStore.setState({ keys: [apiKey(), apiKey({ id: "key-2" })] });
+    mockApi.delete.mockResolvedValue(undefined);
+
+    await useApiKeyStore.getState().revokeKey("key-1");
+
+    expect(useApiKeyStore.getState().keys.map((k) => k.id)).toEqual(["key-2"]);
+  });
+});
@@ -14,6 +14,7 @@ describe("authStore", () => {
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      twoFactorChallenge: null,
     });
   });
 
@@ -71,6 +72,58 @@ describe("authStore", () => {
     expect(state.error).toBe("Invalid email or password");
   });
 
+  it("login stops at the 2FA step when the account requires a code", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { twoFactorRequired: true, challengeToken: "challenge-1" },
+      }),
+    });
+
+    const signedIn = await useAuthStore
+      .getState()
+      .login("test@example.com", "password123");
+
+    const state = useAuthStore.getState();
+    expect(signedIn).toBe(false);
+    expect(state.isAuthenticated).toBe(false);
+    expect(state.twoFactorChallenge).toBe("challenge-1");
+  });
+
+  it("verifyTwoFactor completes sign-in with the challenge and code", async () => {
+    useAuthStore.setState({ twoFactorChallenge: "challenge-1" });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: {
+          user: {
+            id: "user-1",
+            email: "test@example.com",
+            name: "Test",
+            avatarUrl: null,
+            emailVerified: true,
+            createdAt: "2026-01-01",
+          },
+          accessToken: "access-token-123",
+        },
+      }),
+    });
+
+    await useAuthStore.getState().verifyTwoFactor("123456");
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toContain("/auth/login/2fa");
+    expect(JSON.parse(init.body)).toEqual({
+      challengeToken: "challenge-1",
+      code: "123456",
+    });
+    const state = useAuthStore.getState();
+    expect(state.isAuthenticated).toBe(true);
+    expect(state.twoFactorChallenge).toBeNull();
+  });
+
   it("register sets user and isAuthenticated on success", async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
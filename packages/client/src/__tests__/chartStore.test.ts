@@ -5,7 +5,17 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { useChartStore } from "../stores/chartStore";
 import { useCellStore } from "../stores/cellStore";
-import { extractChartData, DEFAULT_COLORS } from "../utils/chartData";
+import {
+  extractChartData,
+  extractBubbles,
+  extractCandles,
+  extractValues,
+  gaugeReading,
+  histogramBins,
+  treemapLayout,
+  waterfallSteps,
+  DEFAULT_COLORS,
+} from "../utils/chartData";
 import type { ChartType, SelectionRange } from "../types/grid";
 
 function resetStores() {
@@ -319,3 +329,109 @@ describe("extractChartData", () => {
     expect(DEFAULT_COLORS.length).toBeGreaterThanOrEqual(8);
   });
 });
+
+describe("chart data shaping", () => {
+  const grid =
+    (rows: (string | number)[][], format?: string[]) =>
+    (row: number, col: number) => {
+      const value = rows[row]?.[col];
+      if (value === undefined) return undefined;
+      const numberFormat = format?.[col];
+      return numberFormat ? { value, format: { numberFormat } } : { value };
+    };
+
+  it("counts numbers into histogram bins", () => {
+    const values = extractValues(
+      { start: { row: 0, col: 0 }, end: { row: 5, col: 0 } },
+      grid([["Score"], [1], [2], [4], [9], [10]]),
+    );
+    expect(values).toEqual([1, 2, 4, 9, 10]);
+
+    expect(histogramBins(values, { count: 3 })).toEqual({
+      labels: ["1–4", "4–7", "7–10"],
+      counts: [2, 1, 2],
+    });
+    // A width starts the bins on a multiple of it
+    expect(histogramBins(values, { width: 5 })).toEqual({
+      labels: ["0–5", "5–10", "10–15"],
+      counts: [3, 1, 1],
+    });
+  });
+
+  it("stacks waterfall steps on the running total", () => {
+    const steps = waterfallSteps(
+      ["Start", "Costs", "Sales"],
+      [100, -30, 50],
+      true,
+    );
+    expect(steps.labels).toEqual(["Start", "Costs", "Sales", "Total"]);
+    expect(steps.ranges).toEqual([
+      [0, 100],
+      [100, 70],
+      [70, 120],
+      [0, 120],
+    ]);
+    expect(steps.kinds).toEqual(["increase", "decrease", "increase", "total"]);
+  });
+
+  it("reads candles with dates as labels", () => {
+    const data = extractChartData(
+      { start: { row: 0, col: 0 }, end: { row: 2, col: 4 } },
+      grid(
+        [
+          ["Date", "Open", "High", "Low", "Close"],
+          [45292, 10, 12, 9, 11],
+          [45293, 11, 11.5, 8, 8.5],
+        ],
+        ["yyyy-mm-dd"],
+      ),
+    );
+    expect(data.labels).toEqual(["2024-01-01", "2024-01-02"]);
+    expect(extractCandles(data)).toEqual([
+      { open: 10, high: 12, low: 9, close: 11 },
+      { open: 11, high: 11.5, low: 8, close: 8.5 },
+    ]);
+    expect(
+      extractCandles({ labels: [], datasets: data.datasets.slice(0, 3) }),
+    ).toBeNull();
+  });
+
+  it("places a gauge reading on its scale", () => {
+    const data = { labels: ["Row 1"], datasets: [{ label: "", data: [75] }] };
+    expect(gaugeReading(data)).toEqual({ value: 75, fraction: 0.75 });
+    expect(gaugeReading(data, 50, 150).fraction).toBe(0.25);
+    expect(gaugeReading(data, 0, 50).fraction).toBe(1);
+  });
+
+  it("lays out treemap tiles in proportion to their values", () => {
+    const tiles = treemapLayout(
+      [
+        { label: "B", value: 20 },
+        { label: "A", value: 60 },
+        { label: "C", value: 20 },
+        { label: "None", value: 0 },
+      ],
+      200,
+      100,
+    );
+    expect(tiles.map((t) => t.label)).toEqual(["A", "B", "C"]);
+    for (const tile of tiles) {
+      expect(tile.width * tile.height).toBeCloseTo(tile.value * 200);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(200.0001);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(100.0001);
+    }
+  });
+
+  it("sizes bubbles by area", () => {
+    const bubbles = extractBubbles({
+      labels: ["a", "b"],
+      datasets: [
+        { label: "X", data: [1, 2] },
+        { label: "Y", data: [3, 4] },
+        { label: "Size", data: [100, 25] },
+      ],
+    });
+    expect(bubbles[0]).toEqual({ label: "a", x: 1, y: 3, r: 24 });
+    expect(bubbles[1].r).toBe(12);
+  });
+});
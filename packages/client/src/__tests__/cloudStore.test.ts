@@ -1,10 +1,38 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { useCloudStore } from "../stores/cloudStore";
+import { useNamedRangeStore } from "../stores/namedRangeStore";
+import { useFormatStore } from "../stores/formatStore";
+import { useCellStore } from "../stores/cellStore";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+const detail = {
+  id: "ss-1",
+  title: "Budget",
+  isStarred: false,
+  createdAt: "2026-01-01",
+  updatedAt: "2026-01-01",
+  owner: { id: "u-1", name: "T", email: "t@t.com", avatarUrl: null },
+  sheets: [
+    {
+      id: "sheet-1",
+      name: "Sheet 1",
+      index: 0,
+      color: null,
+      isHidden: false,
+      cellData: {},
+      columnMeta: {},
+      rowMeta: {},
+      frozenRows: 0,
+      frozenCols: 0,
+      filterState: null,
+      sortState: null,
+    },
+  ],
+};
+
 describe("cloudStore", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -18,6 +46,9 @@ describe("cloudStore", () => {
       saveStatus: "idle",
       error: null,
       filter: "all",
+      teamId: null,
+      folderId: null,
+      tagId: null,
       search: "",
       sortBy: "updatedAt",
       sortDir: "desc",
@@ -189,6 +220,36 @@ describe("cloudStore", () => {
     expect(useCloudStore.getState().spreadsheets[0].id).toBe("ss-new");
   });
 
+  it("setTeam shows one team's folder and setFilter leaves it", async () => {
+    useCloudStore.setState({ page: 2 });
+    useCloudStore.getState().setTeam("team-1", "folder-1");
+    expect(useCloudStore.getState()).toMatchObject({
+      filter: "team",
+      teamId: "team-1",
+      folderId: "folder-1",
+      page: 1,
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: [],
+        pagination: { page: 1, limit: 20, total: 0, totalPages: 0 },
+      }),
+    });
+    await useCloudStore.getState().fetchSpreadsheets();
+    const url = new URL(mockFetch.mock.calls[0][0], "http://localhost");
+    expect(url.searchParams.get("filter")).toBe("team");
+    expect(url.searchParams.get("teamId")).toBe("team-1");
+    expect(url.searchParams.get("folderId")).toBe("folder-1");
+
+    useCloudStore.getState().setFilter("owned");
+    expect(useCloudStore.getState().teamId).toBeNull();
+    expect(useCloudStore.getState().folderId).toBeNull();
+  });
+
   it("deleteSpreadsheet removes from list", async () => {
     useCloudStore.setState({
       spreadsheets: [
@@ -216,13 +277,86 @@ describe("cloudStore", () => {
     expect(useCloudStore.getState().total).toBe(0);
   });
 
+  it("bulkUpdate reports failures after reloading the list", async () => {
+    useCloudStore.setState({ filter: "trash" });
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          success: true,
+          data: {
+            succeeded: ["ss-1"],
+            failed: [{ id: "ss-2", error: "Spreadsheet not found" }],
+          },
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          success: true,
+          data: [],
+          pagination: { page: 1, limit: 20, total: 0, totalPages: 0 },
+        }),
+      });
+
+    const result = await useCloudStore
+      .getState()
+      .bulkUpdate(["ss-1", "ss-2"], { action: "restore" });
+
+    expect(result.succeeded).toEqual(["ss-1"]);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      ids: ["ss-1", "ss-2"],
+      action: "restore",
+    });
+    const url = new URL(mockFetch.mock.calls[1][0], "http://localhost");
+    expect(url.searchParams.get("filter")).toBe("trash");
+    expect(useCloudStore.getState().error).toBe(
+      "1 of 2 spreadsheets could not be updated: Spreadsheet not found",
+    );
+  });
+
+  it("removeTag drops the spreadsheet from a view of that tag", async () => {
+    const tag = { id: "tag-1", name: "Q3", color: "#1a73e8" };
+    useCloudStore.setState({
+      tagId: "tag-1",
+      spreadsheets: [
+        {
+          id: "ss-1",
+          title: "Budget",
+          isStarred: false,
+          isTemplate: false,
+          tags: [tag],
+          createdAt: "2026-01-01",
+          updatedAt: "2026-01-01",
+          owner: { id: "u-1", name: "Test", avatarUrl: null },
+          role: "owner",
+        },
+      ],
+      total: 1,
+    });
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+    await useCloudStore.getState().removeTag("ss-1", "tag-1");
+
+    expect(mockFetch.mock.calls[0][0]).toContain(
+      "/spreadsheets/ss-1/tags/tag-1",
+    );
+    expect(useCloudStore.getState().spreadsheets).toHaveLength(0);
+  });
+
   it("saveSheetData sets save status", async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
       status: 200,
       json: async () => ({
         success: true,
-        data: { updatedAt: "2026-01-01" },
+        data: {
+          revision: 1,
+          objectsVersion: 1,
+          remote: { upserts: {}, deletes: [] },
+        },
       }),
     });
 
@@ -231,4 +365,225 @@ describe("cloudStore", () => {
       .saveSheetData("ss-1", "sheet-1", { A1: { value: "test" } });
     expect(useCloudStore.getState().saveStatus).toBe("saved");
   });
+
+  it("saveSheetData sends sheet objects with the cell data", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: {
+          revision: 1,
+          objectsVersion: 3,
+          remote: { upserts: {}, deletes: [] },
+        },
+      }),
+    });
+
+    await useCloudStore
+      .getState()
+      .saveSheetData("ss-1", "sheet-1", { A1: { value: "test" } });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.upserts).toEqual({ A1: { value: "test" } });
+    expect(body.objects.schemaVersion).toBe(1);
+    expect(body.objects.charts).toEqual([]);
+  });
+
+  it("saveSheetData sends only the cells that changed", async () => {
+    useCloudStore.setState({
+      currentSpreadsheet: {
+        ...detail,
+        sheets: [
+          {
+            ...detail.sheets[0],
+            cellData: { "0,0": { value: 1 }, "0,1": { value: 2 } },
+            revision: 4,
+          },
+        ],
+      },
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: {
+          revision: 5,
+          objectsVersion: 1,
+          remote: { upserts: {}, deletes: [] },
+        },
+      }),
+    });
+
+    await useCloudStore.getState().saveSheetData("ss-1", "sheet-1", {
+      "0,0": { value: 1 },
+      "1,0": { value: 3 },
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("/api/spreadsheets/ss-1/sheets/sheet-1/save");
+    expect(init.method).toBe("PATCH");
+    const body = JSON.parse(init.body);
+    expect(body.baseRevision).toBe(4);
+    expect(body.upserts).toEqual({ "1,0": { value: 3 } });
+    expect(body.deletes).toEqual(["0,1"]);
+
+    const sheet = useCloudStore.getState().currentSpreadsheet!.sheets[0];
+    expect(sheet.revision).toBe(5);
+    expect(sheet.cellData).toEqual({
+      "0,0": { value: 1 },
+      "1,0": { value: 3 },
+    });
+  });
+
+  it("saveCellPatch applies cells changed by others", async () => {
+    useCellStore.setState({ cells: new Map() });
+    useCloudStore.setState({
+      currentSpreadsheet: {
+        ...detail,
+        sheets: [{ ...detail.sheets[0], cellData: {}, revision: 1 }],
+      },
+    });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: {
+          revision: 3,
+          objectsVersion: 0,
+          remote: { upserts: { "2,2": { value: "theirs" } }, deletes: [] },
+        },
+      }),
+    });
+
+    await useCloudStore.getState().saveCellPatch("ss-1", "sheet-1", {
+      upserts: { "0,0": { value: "mine" } },
+      deletes: [],
+    });
+
+    expect(useCellStore.getState().getCell("sheet-1", 2, 2)?.value).toBe(
+      "theirs",
+    );
+    const sheet = useCloudStore.getState().currentSpreadsheet!.sheets[0];
+    expect(sheet.revision).toBe(3);
+    expect(Object.keys(sheet.cellData).sort()).toEqual(["0,0", "2,2"]);
+  });
+
+  it("saveCellPatch rejects and flags a conflicting save", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      json: async () => ({
+        success: false,
+        error: { code: 409, message: "1 cell(s) were changed by someone else" },
+      }),
+    });
+
+    await expect(
+      useCloudStore.getState().saveCellPatch("ss-1", "sheet-1", {
+        upserts: { "0,0": { value: 1 } },
+        deletes: [],
+      }),
+    ).rejects.toThrow("changed by someone else");
+    expect(useCloudStore.getState().saveStatus).toBe("error");
+  });
+
+  it("fetchSpreadsheet hydrates sheet objects and named ranges", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: {
+          id: "ss-1",
+          title: "Budget",
+          isStarred: false,
+          createdAt: "2026-01-01",
+          updatedAt: "2026-01-01",
+          owner: { id: "u-1", name: "T", email: "t@t.com", avatarUrl: null },
+          namedRanges: [
+            {
+              name: "Revenue",
+              sheetId: "sheet-1",
+              startRow: 0,
+              startCol: 0,
+              endRow: 9,
+              endCol: 0,
+            },
+          ],
+          sheets: [
+            {
+              id: "sheet-1",
+              name: "Sheet 1",
+              objects: {
+                schemaVersion: 1,
+                mergedRegions: [
+                  { startRow: 0, startCol: 0, endRow: 0, endCol: 2 },
+                ],
+              },
+              objectsVersion: 1,
+            },
+          ],
+        },
+      }),
+    });
+
+    await useCloudStore.getState().fetchSpreadsheet("ss-1");
+
+    expect(useNamedRangeStore.getState().getRange("Revenue")).toBeDefined();
+    expect(useFormatStore.getState().getMergedRegions("sheet-1")).toHaveLength(
+      1,
+    );
+  });
+
+  it("saves named ranges after they change and loads them back", async () => {
+    vi.useFakeTimers();
+    try {
+      useNamedRangeStore.setState({ ranges: new Map(), functions: new Map() });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, data: {} }),
+      });
+      const stop = useCloudStore.getState().watchNamedRanges("ss-1");
+
+      const range = {
+        name: "Costs",
+        sheetId: "sheet-1",
+        startRow: 0,
+        startCol: 1,
+        endRow: 4,
+        endCol: 1,
+      };
+      useNamedRangeStore.getState().addRange(range);
+      useNamedRangeStore.getState().updateRange("Costs", { endRow: 9 });
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.runAllTimersAsync();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("/api/spreadsheets/ss-1/named-ranges");
+      expect(init.method).toBe("PUT");
+      const { namedRanges } = JSON.parse(init.body);
+      expect(namedRanges).toEqual([{ ...range, endRow: 9 }]);
+
+      stop();
+      useNamedRangeStore.getState().removeRange("Costs");
+      await vi.runAllTimersAsync();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      // What was saved is what the next load hydrates
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, data: { ...detail, namedRanges } }),
+      });
+      await useCloudStore.getState().fetchSpreadsheet("ss-1");
+      expect(useNamedRangeStore.getState().getRange("Costs")?.endRow).toBe(9);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -0,0 +1,115 @@
+/**
+ * Tests for the shared Yjs document helpers used by real-time co-editing.
+ */
+import { describe, it, expect } from "vitest";
+import * as Y from "yjs";
+import {
+  getSheetsMap,
+  patchesFromEvents,
+  readSheetCells,
+  readSheetMeta,
+  writeCellPatch,
+  writeSheetMeta,
+} from "../utils/collabDoc";
+import type { CellPatch } from "../utils/cellPatch";
+
+const REMOTE = "remote";
+
+/** Two replicas that start from the same state */
+function replicas(): [Y.Doc, Y.Doc] {
+  const a = new Y.Doc();
+  writeSheetMeta(a, "s1", { name: "Sheet 1", index: 0 });
+  writeCellPatch(a, "s1", {
+    upserts: { "0,0": { value: 1, format: { bold: true } } },
+    deletes: [],
+  });
+  const b = new Y.Doc();
+  Y.applyUpdate(b, Y.encodeStateAsUpdate(a));
+  return [a, b];
+}
+
+function sync(a: Y.Doc, b: Y.Doc) {
+  const fromA = Y.encodeStateAsUpdate(a, Y.encodeStateVector(b));
+  const fromB = Y.encodeStateAsUpdate(b, Y.encodeStateVector(a));
+  Y.applyUpdate(b, fromA, REMOTE);
+  Y.applyUpdate(a, fromB, REMOTE);
+}
+
+describe("collabDoc", () => {
+  it("writes and reads cells and sheet metadata", () => {
+    const [doc] = replicas();
+    expect(readSheetCells(doc, "s1")["0,0"]).toEqual({
+      value: 1,
+      format: { bold: true },
+    });
+    expect(readSheetMeta(doc).s1.name).toBe("Sheet 1");
+  });
+
+  it("keeps concurrent edits to different fields of a cell", () => {
+    const [a, b] = replicas();
+    writeCellPatch(a, "s1", {
+      upserts: { "0,0": { value: 2, format: { bold: true } } },
+      deletes: [],
+    });
+    writeCellPatch(b, "s1", {
+      upserts: { "0,0": { value: 1, format: { italic: true } } },
+      deletes: [],
+    });
+
+    sync(a, b);
+
+    const expected = { value: 2, format: { italic: true } };
+    expect(readSheetCells(a, "s1")["0,0"]).toEqual(expected);
+    expect(readSheetCells(b, "s1")["0,0"]).toEqual(expected);
+  });
+
+  it("resolves concurrent writes to the same field identically", () => {
+    const [a, b] = replicas();
+    writeCellPatch(a, "s1", {
+      upserts: { "1,1": { value: "a" } },
+      deletes: [],
+    });
+    writeCellPatch(b, "s1", {
+      upserts: { "1,1": { value: "b" } },
+      deletes: [],
+    });
+
+    sync(a, b);
+
+    expect(readSheetCells(a, "s1")).toEqual(readSheetCells(b, "s1"));
+  });
+
+  it("reports remote changes as cell patches", () => {
+    const [a, b] = replicas();
+    const patches: Array<Map<string, CellPatch>> = [];
+    getSheetsMap(b).observeDeep((events, tx) => {
+      if (tx.origin !== REMOTE) return;
+      patches.push(patchesFromEvents(b, events).cells);
+    });
+
+    writeCellPatch(a, "s1", {
+      upserts: { "2,0": { value: "new" } },
+      deletes: ["0,0"],
+    });
+    sync(a, b);
+
+    expect(patches).toHaveLength(1);
+    const patch = patches[0].get("s1")!;
+    expect(patch.upserts).toEqual({ "2,0": { value: "new" } });
+    expect(patch.deletes).toEqual(["0,0"]);
+  });
+
+  it("flags sheet structure changes", () => {
+    const [a, b] = replicas();
+    let structureChanged = false;
+    getSheetsMap(b).observeDeep((events) => {
+      structureChanged ||= patchesFromEvents(b, events).structureChanged;
+    });
+
+    writeSheetMeta(a, "s1", { name: "Renamed" });
+    sync(a, b);
+
+    expect(structureChanged).toBe(true);
+    expect(readSheetMeta(b).s1.name).toBe("Renamed");
+  });
+});
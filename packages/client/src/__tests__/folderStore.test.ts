@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  folderPath,
+  sortFoldersAsTree,
+  useFolderStore,
+} from "../stores/folderStore";
+import type { Folder } from "../stores/folderStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  post: ReturnType<typeof vi.fn>;
+  put: ReturnType<typeof vi.fn>;
+  patch: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+function folder(
+  id: string,
+  parentId: string | null,
+  overrides: Partial<Folder> = {},
+): Folder {
+  return {
+    id,
+    name: id,
+    teamId: null,
+    ownerId: "user-1",
+    parentId,
+    createdAt: "2026-10-19T00:00:00.000Z",
+    access: [],
+    ...overrides,
+  };
+}
+
+describe("folder helpers", () => {
+  // As the server lists them: by name
+  const folders = [
+    folder("a", null),
+    folder("b", "a"),
+    folder("c", "z"),
+    folder("z", null),
+  ];
+
+  it("folderPath walks from the top level down to the folder", () => {
+    expect(folderPath(folders, "c").map((f) => f.id)).toEqual(["z", "c"]);
+    expect(folderPath(folders, null)).toEqual([]);
+  });
+
+  it("sortFoldersAsTree puts subfolders right after their parent", () => {
+    expect(sortFoldersAsTree(folders).map((f) => f.id)).toEqual([
+      "a",
+      "b",
+      "z",
+      "c",
+    ]);
+  });
+});
+
+describe("folderStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useFolderStore.setState({ foldersByScope: {}, error: null });
+  });
+
+  it("keeps personal and team folders apart", async () => {
+    mockApi.get
+      .mockResolvedValueOnce([folder("mine", null)])
+      .mockResolvedValueOnce([folder("shared", null, { teamId: "team-1" })]);
+
+    await useFolderStore.getState().fetchFolders(null);
+    await useFolderStore.getState().fetchFolders("team-1");
+
+    expect(mockApi.get).toHaveBeenNthCalledWith(1, "/folders");
+    expect(mockApi.get).toHaveBeenNthCalledWith(2, "/folders?teamId=team-1");
+    const { foldersByScope } = useFolderStore.getState();
+    expect(foldersByScope.personal.map((f) => f.id)).toEqual(["mine"]);
+    expect(foldersByScope["team-1"].map((f) => f.id)).toEqual(["shared"]);
+  });
+
+  it("reloads the tree after moving a folder, and reports refusals", async () => {
+    const a = folder("a", null);
+    mockApi.patch.mockResolvedValueOnce({});
+    mockApi.get.mockResolvedValueOnce([a, folder("b", "a")]);
+
+    expect(await useFolderStore.getState().moveFolder(a, "b")).toBe(true);
+    expect(mockApi.patch).toHaveBeenCalledWith("/folders/a", {
+      parentId: "b",
+    });
+    expect(mockApi.get).toHaveBeenCalledWith("/folders");
+
+    mockApi.patch.mockRejectedValueOnce(
+      new Error("A folder can't be moved into itself or one of its subfolders"),
+    );
+    expect(await useFolderStore.getState().moveFolder(a, "b")).toBe(false);
+    expect(useFolderStore.getState().error).toBe(
+      "A folder can't be moved into itself or one of its subfolders",
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { evaluationSteps, parseFormula } from "@gridspace/formula";
+import { useAuditStore } from "../stores/auditStore";
+import { useCellStore } from "../stores/cellStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import {
+  getAllDependents,
+  getDirectDependents,
+  getPrecedentRanges,
+  storeValueGetter,
+} from "../utils/formulaAudit";
+
+function sheet(id: string, name: string) {
+  return {
+    id,
+    name,
+    cells: new Map(),
+    columnWidths: new Map(),
+    rowHeights: new Map(),
+    frozenRows: 0,
+    frozenCols: 0,
+    hiddenRows: new Set<number>(),
+    hiddenCols: new Set<number>(),
+  };
+}
+
+function set(
+  sheetId: string,
+  row: number,
+  col: number,
+  input: string | number,
+) {
+  useCellStore
+    .getState()
+    .setCell(
+      sheetId,
+      row,
+      col,
+      typeof input === "string" && input.startsWith("=")
+        ? { value: null, formula: input }
+        : { value: input },
+    );
+}
+
+describe("formula auditing", () => {
+  beforeEach(() => {
+    useSpreadsheetStore.setState({
+      sheets: [sheet("s1", "Main"), sheet("s2", "Data")],
+      activeSheetId: "s1",
+    });
+    useCellStore.setState({ cells: new Map() });
+    useAuditStore.getState().clearArrows();
+
+    // Main: A1=1, A2=2, B1=SUM(A1:A2), C1=B1*2; Data!A1 = Main!C1
+    set("s1", 0, 0, 1);
+    set("s1", 1, 0, 2);
+    set("s1", 0, 1, "=SUM(A1:A2)");
+    set("s1", 0, 2, "=B1*2");
+    set("s2", 0, 0, "=Main!C1+1");
+  });
+
+  it("lists a formula's references as ranges", () => {
+    expect(getPrecedentRanges({ sheetId: "s1", row: 0, col: 1 })).toEqual([
+      {
+        sheetId: "s1",
+        start: { row: 0, col: 0 },
+        end: { row: 1, col: 0 },
+      },
+    ]);
+    expect(getPrecedentRanges({ sheetId: "s2", row: 0, col: 0 })).toEqual([
+      { sheetId: "s1", start: { row: 0, col: 2 }, end: { row: 0, col: 2 } },
+    ]);
+  });
+
+  it("finds direct and indirect dependents across sheets", () => {
+    const a2 = { sheetId: "s1", row: 1, col: 0 };
+    expect(getDirectDependents(a2)).toEqual([
+      { sheetId: "s1", row: 0, col: 1 },
+    ]);
+    expect(getAllDependents(a2)).toEqual(
+      expect.arrayContaining([
+        { sheetId: "s1", row: 0, col: 1 },
+        { sheetId: "s1", row: 0, col: 2 },
+        { sheetId: "s2", row: 0, col: 0 },
+      ]),
+    );
+    expect(getAllDependents(a2)).toHaveLength(3);
+  });
+
+  it("traces precedents one level per call", () => {
+    const audit = useAuditStore.getState();
+    audit.tracePrecedents("s1", { row: 0, col: 2 });
+    expect(useAuditStore.getState().arrows).toEqual([
+      {
+        kind: "precedent",
+        sheetId: "s1",
+        from: { start: { row: 0, col: 1 }, end: { row: 0, col: 1 } },
+        to: { row: 0, col: 2 },
+      },
+    ]);
+
+    audit.tracePrecedents("s1", { row: 0, col: 2 });
+    expect(useAuditStore.getState().arrows).toHaveLength(2);
+    expect(useAuditStore.getState().arrows[1].from).toEqual({
+      start: { row: 0, col: 0 },
+      end: { row: 1, col: 0 },
+    });
+
+    // A1:A2 are values, so there is nothing further to trace
+    audit.tracePrecedents("s1", { row: 0, col: 2 });
+    expect(useAuditStore.getState().arrows).toHaveLength(2);
+  });
+
+  it("marks dependents on other sheets as external", () => {
+    useAuditStore.getState().traceDependents("s1", { row: 0, col: 2 });
+    expect(useAuditStore.getState().arrows).toEqual([
+      {
+        kind: "dependent",
+        sheetId: "s1",
+        from: { start: { row: 0, col: 2 }, end: { row: 0, col: 2 } },
+        to: { row: 0, col: 0 },
+        external: "Data",
+      },
+    ]);
+
+    useAuditStore.getState().clearArrows();
+    expect(useAuditStore.getState().arrows).toEqual([]);
+  });
+
+  it("evaluates a formula step by step against the cell store", () => {
+    const steps = evaluationSteps(
+      parseFormula("SUM(A1:A2)*2"),
+      storeValueGetter("s1"),
+    );
+    expect(steps.map((s) => [s.expression, s.value])).toEqual([
+      ["A1:A2", [[1], [2]]],
+      ["SUM(A1:A2)", 3],
+      ["SUM(A1:A2)*2", 6],
+    ]);
+  });
+});
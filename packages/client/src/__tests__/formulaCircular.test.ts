@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useFormulaStore } from "../stores/formulaStore";
+import { DependencyGraph, DEFAULT_CALC_SETTINGS } from "@gridspace/formula";
+import type { CellValueGetter, FormulaValue } from "@gridspace/formula";
+
+describe("formulaStore circular references", () => {
+  let cells: Map<string, { value: FormulaValue; formula?: string }>;
+
+  const getCellValue: CellValueGetter = (_sheet, col, row) =>
+    cells.get(`${String.fromCharCode(65 + col)}${row + 1}`)?.value ?? null;
+
+  const getFormula = (key: string) => cells.get(key)?.formula;
+
+  /** Write a cell the way the grid does and apply the recalculated values */
+  function commit(key: string, input: string | number) {
+    const store = useFormulaStore.getState();
+    if (typeof input === "string" && input.startsWith("=")) {
+      const valid = store.updateDependencies(key, input);
+      const value =
+        valid || store.calcSettings.iterative
+          ? store.evaluateFormula(input, getCellValue, key)
+          : "#REF!";
+      cells.set(key, { value, formula: input });
+    } else {
+      if (cells.get(key)?.formula) store.updateDependencies(key, "");
+      cells.set(key, { value: input });
+    }
+    for (const [cell, value] of store.recalculate(
+      key,
+      getFormula,
+      getCellValue,
+    )) {
+      cells.set(cell, { ...cells.get(cell)!, value });
+    }
+  }
+
+  beforeEach(() => {
+    cells = new Map();
+    useFormulaStore.setState({
+      dependencyGraph: new DependencyGraph(),
+      formulaCache: new Map(),
+      astCache: new Map(),
+      circularRefs: new Map(),
+      calcSettings: { ...DEFAULT_CALC_SETTINGS },
+    });
+  });
+
+  it("reads values computed earlier in the same recalculation", () => {
+    commit("A1", 1);
+    commit("B1", "=A1+1");
+    commit("C1", "=B1+1");
+
+    commit("A1", 10);
+    expect(cells.get("C1")?.value).toBe(12);
+  });
+
+  it("reports the loop path of every cell on a loop as #REF!", () => {
+    commit("A1", "=C1+1");
+    commit("B1", "=A1+1");
+    commit("C1", "=B1+1");
+
+    const store = useFormulaStore.getState();
+    expect(store.getCircularPath("C1")).toEqual(["C1", "B1", "A1", "C1"]);
+    expect(store.getCircularPath("A1")).toEqual(["A1", "C1", "B1", "A1"]);
+    expect(cells.get("A1")?.value).toBe("#REF!");
+    expect(cells.get("B1")?.value).toBe("#REF!");
+    expect(cells.get("C1")?.value).toBe("#REF!");
+  });
+
+  it("clears the report once the loop is broken", () => {
+    commit("A1", "=B1");
+    commit("B1", "=A1");
+    expect(useFormulaStore.getState().circularRefs.size).toBe(2);
+
+    commit("B1", 5);
+    expect(useFormulaStore.getState().circularRefs.size).toBe(0);
+    expect(cells.get("A1")?.value).toBe(5);
+  });
+
+  it("iterates a loop to convergence when iterative calculation is on", () => {
+    useFormulaStore.getState().setCalcSettings({
+      iterative: true,
+      maxIterations: 100,
+      maxChange: 0.0001,
+    });
+    commit("A1", 1000);
+    commit("C1", "=A1+B1");
+    commit("B1", "=(A1+C1)/2*0.1");
+    commit("D1", "=C1*2");
+
+    expect(cells.get("B1")?.value).toBeCloseTo(2000 / 19, 3);
+    expect(cells.get("D1")?.value).toBeCloseTo(2 * (1000 + 2000 / 19), 2);
+    expect(useFormulaStore.getState().getCircularPath("B1")).toBeDefined();
+  });
+
+  it("stops at the iteration limit", () => {
+    useFormulaStore.getState().setCalcSettings({
+      iterative: true,
+      maxIterations: 5,
+      maxChange: 0.001,
+    });
+    commit("A1", "=A1+1");
+
+    expect(cells.get("A1")?.value).toBe(6);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useFormulaStore } from "../stores/formulaStore";
+import { DependencyGraph, parseCellId } from "@gridspace/formula";
+import type { CellValueGetter, FormulaValue } from "@gridspace/formula";
+
+const SHEET = "sheet-1";
+
+describe("formulaStore spills", () => {
+  let cells: Map<string, { value: FormulaValue; formula?: string }>;
+
+  const hasContent = (row: number, col: number) =>
+    Array.from(cells.entries()).some(([key, cell]) => {
+      const pos = parseCellId(key);
+      return pos.row === row && pos.col === col && cell.value !== null;
+    });
+
+  const getCellValue: CellValueGetter = (_sheet, col, row) => {
+    const key = `${String.fromCharCode(65 + col)}${row + 1}`;
+    const cell = cells.get(key);
+    if (cell) return cell.value;
+    return useFormulaStore.getState().getSpillValue(SHEET, row, col) ?? null;
+  };
+  getCellValue.spillRange = (_sheet, col, row) =>
+    useFormulaStore.getState().getSpillRange(SHEET, row, col);
+
+  const getFormula = (key: string) => cells.get(key)?.formula;
+
+  const resolveSpill = (key: string, result: FormulaValue) => {
+    const { row, col } = parseCellId(key);
+    return useFormulaStore
+      .getState()
+      .handleSpill(SHEET, row, col, result, hasContent);
+  };
+
+  /** Write (or with null, delete) a cell the way the grid does */
+  function commit(key: string, input: string | number | null) {
+    const store = useFormulaStore.getState();
+    if (input === null) {
+      cells.delete(key);
+    } else if (typeof input === "string" && input.startsWith("=")) {
+      store.updateDependencies(key, input);
+      const result = store.evaluateFormula(input, getCellValue, key);
+      cells.set(key, {
+        value: Array.isArray(result) ? null : result,
+        formula: input,
+      });
+    } else {
+      cells.set(key, { value: input });
+    }
+    const results = store.recalculate(
+      key,
+      getFormula,
+      getCellValue,
+      resolveSpill,
+    );
+    for (const [cell, value] of results) {
+      cells.set(cell, { ...cells.get(cell)!, value });
+    }
+  }
+
+  beforeEach(() => {
+    cells = new Map();
+    useFormulaStore.setState({
+      dependencyGraph: new DependencyGraph(),
+      formulaCache: new Map(),
+      astCache: new Map(),
+      spillRanges: new Map(),
+      spillTargets: new Map(),
+    });
+  });
+
+  it("lays out an array result from its anchor", () => {
+    const grid = [
+      [1, 2],
+      [3, 4],
+    ] as unknown as FormulaValue;
+    const store = useFormulaStore.getState();
+
+    expect(store.handleSpill(SHEET, 0, 0, grid, hasContent)).toBe(1);
+    expect(store.getSpillValue(SHEET, 1, 1)).toBe(4);
+    expect(store.isSpillTarget(SHEET, 0, 1)).toBe(true);
+    expect(store.getSpillSource(SHEET, 1, 0)).toEqual({ row: 0, col: 0 });
+    expect(store.getSpillRange(SHEET, 0, 0)).toEqual({ rows: 2, cols: 2 });
+  });
+
+  it("returns #SPILL! when the area is blocked and watches the blocker", () => {
+    cells.set("A3", { value: "x" });
+    const store = useFormulaStore.getState();
+
+    const shown = store.handleSpill(
+      SHEET,
+      0,
+      0,
+      [1, 2, 3] as unknown as FormulaValue,
+      hasContent,
+    );
+
+    expect(shown).toBe("#SPILL!");
+    expect(store.getSpillValue(SHEET, 1, 0)).toBeUndefined();
+    expect(store.dependencyGraph.getAllDependents("A3")).toContain("A1");
+  });
+
+  it("does not let two spills overlap", () => {
+    const store = useFormulaStore.getState();
+    store.handleSpill(
+      SHEET,
+      0,
+      1,
+      [1, 2] as unknown as FormulaValue,
+      hasContent,
+    );
+
+    const shown = store.handleSpill(
+      SHEET,
+      1,
+      0,
+      [[5, 6]] as unknown as FormulaValue,
+      hasContent,
+    );
+
+    expect(shown).toBe("#SPILL!");
+    expect(store.getSpillValue(SHEET, 1, 1)).toBe(2);
+  });
+
+  it("spills formula results and recalculates A1# readers", () => {
+    commit("C1", 2);
+    commit("A1", "=SEQUENCE(C1)");
+    commit("B1", "=SUM(A1#)");
+    expect(cells.get("A1")?.value).toBe(1);
+    expect(cells.get("B1")?.value).toBe(3);
+
+    commit("C1", 4);
+    expect(cells.get("B1")?.value).toBe(10);
+    expect(useFormulaStore.getState().getSpillValue(SHEET, 3, 0)).toBe(4);
+  });
+
+  it("recalculates readers of cells a spill no longer covers", () => {
+    commit("C1", 3);
+    commit("A1", "=SEQUENCE(C1)");
+    commit("D1", "=A3*10");
+    expect(cells.get("D1")?.value).toBe(30);
+
+    commit("C1", 2);
+    expect(cells.get("D1")?.value).toBe(0);
+  });
+
+  it("blocks and unblocks when a covered cell is written", () => {
+    commit("A1", "=SEQUENCE(3)");
+    commit("A2", "typed");
+    expect(cells.get("A1")?.value).toBe("#SPILL!");
+
+    commit("A2", null);
+    expect(cells.get("A1")?.value).toBe(1);
+    expect(useFormulaStore.getState().getSpillValue(SHEET, 1, 0)).toBe(2);
+  });
+
+  it("keeps caching evaluations after spill state changes", () => {
+    const store = useFormulaStore.getState();
+    store.handleSpill(
+      SHEET,
+      0,
+      0,
+      [1, 2] as unknown as FormulaValue,
+      hasContent,
+    );
+
+    expect(store.evaluateFormula("=2*3", getCellValue, "E1")).toBe(6);
+    expect(useFormulaStore.getState().formulaCache.get("E1")).toBe(6);
+  });
+});
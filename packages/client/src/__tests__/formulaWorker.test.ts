@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../services/formulaWorkerService", () => ({
+  isFormulaWorkerSupported: vi.fn(() => false),
+  recalculateInWorker: vi.fn(),
+}));
+
+import { RecalcEngine } from "../workers/recalcEngine";
+import type { CellChange } from "../workers/recalcEngine";
+import {
+  useFormulaStore,
+  WORKER_RECALC_THRESHOLD,
+} from "../stores/formulaStore";
+import {
+  isFormulaWorkerSupported,
+  recalculateInWorker,
+} from "../services/formulaWorkerService";
+import { DependencyGraph } from "@gridspace/formula";
+import type { FormulaValue } from "@gridspace/formula";
+
+const sheets = [
+  { id: "s1", name: "Sheet1" },
+  { id: "s2", name: "Data" },
+];
+
+function cell(
+  sheetId: string,
+  row: number,
+  col: number,
+  value: string | number | null,
+  formula?: string,
+): CellChange {
+  return { sheetId, row, col, cell: { value, formula } };
+}
+
+describe("RecalcEngine", () => {
+  let engine: RecalcEngine;
+
+  beforeEach(() => {
+    engine = new RecalcEngine();
+    engine.load(sheets, [
+      cell("s1", 0, 0, 1),
+      cell("s1", 1, 0, 2),
+      cell("s1", 2, 0, 3, "=SUM(A1:A2)"),
+      cell("s1", 0, 1, 6, "=IF(A3>2,A3*2,0)"),
+      cell("s2", 0, 0, 10),
+      cell("s1", 0, 2, 16, "=Data!A1+B1"),
+    ]);
+  });
+
+  it("recalculates nested and cross-sheet dependents of a change", () => {
+    engine.applyChanges([cell("s1", 0, 0, 5)]);
+    const results = engine.recalculate([{ sheetId: "s1", row: 0, col: 0 }]);
+
+    expect(results).toEqual(
+      expect.arrayContaining([
+        { sheetId: "s1", row: 2, col: 0, value: 7 },
+        { sheetId: "s1", row: 0, col: 1, value: 14 },
+        { sheetId: "s1", row: 0, col: 2, value: 24 },
+      ]),
+    );
+    expect(results).toHaveLength(3);
+  });
+
+  it("follows references into other sheets by name", () => {
+    engine.applyChanges([cell("s2", 0, 0, 20)]);
+    const results = engine.recalculate([{ sheetId: "s2", row: 0, col: 0 }]);
+
+    expect(results).toEqual([{ sheetId: "s1", row: 0, col: 2, value: 26 }]);
+  });
+
+  it("returns only cells whose value changed", () => {
+    engine.applyChanges([cell("s1", 0, 0, 1)]);
+    expect(engine.recalculate([{ sheetId: "s1", row: 0, col: 0 }])).toEqual([]);
+  });
+
+  it("evaluates a newly written formula and treats deletes as blanks", () => {
+    engine.applyChanges([
+      { sheetId: "s1", row: 1, col: 0, cell: null },
+      cell("s1", 5, 5, null, '=COUNTA(A1:A2)&"-"&UPPER("x")'),
+    ]);
+    const results = engine.recalculate([
+      { sheetId: "s1", row: 1, col: 0 },
+      { sheetId: "s1", row: 5, col: 5 },
+    ]);
+
+    expect(results).toContainEqual({
+      sheetId: "s1",
+      row: 5,
+      col: 5,
+      value: "1-X",
+    });
+    expect(results).toContainEqual({ sheetId: "s1", row: 2, col: 0, value: 1 });
+  });
+
+  it("resolves circular references to #REF!", () => {
+    engine.applyChanges([
+      cell("s1", 4, 0, null, "=A6+1"),
+      cell("s1", 5, 0, null, "=A5+1"),
+    ]);
+    const results = engine.recalculate([{ sheetId: "s1", row: 4, col: 0 }]);
+
+    expect(results.map((r) => r.value)).toContain("#REF!");
+  });
+
+  it("iterates circular references when iterative calculation is on", () => {
+    engine.setCalcSettings({
+      iterative: true,
+      maxIterations: 100,
+      maxChange: 0.0001,
+    });
+    // A5 is interest on the average of A1 and A6; A6 = A1 + A5
+    engine.applyChanges([
+      cell("s1", 4, 0, null, "=(A1+A6)/2*0.1"),
+      cell("s1", 5, 0, null, "=A1+A5"),
+    ]);
+    const results = engine.recalculate([
+      { sheetId: "s1", row: 4, col: 0 },
+      { sheetId: "s1", row: 5, col: 0 },
+    ]);
+
+    const interest = results.find((r) => r.row === 4)?.value as number;
+    expect(interest).toBeCloseTo(2 / 19, 4);
+  });
+
+  it("relinks formulas when a referenced sheet is renamed", () => {
+    engine.setSheets([
+      { id: "s1", name: "Sheet1" },
+      { id: "s2", name: "Inputs" },
+    ]);
+    engine.applyChanges([cell("s1", 0, 3, null, "=Inputs!A1*3")]);
+
+    engine.applyChanges([cell("s2", 0, 0, 4)]);
+    const results = engine.recalculate([{ sheetId: "s2", row: 0, col: 0 }]);
+
+    expect(results).toContainEqual({
+      sheetId: "s1",
+      row: 0,
+      col: 3,
+      value: 12,
+    });
+  });
+
+  it("spills array results and feeds them to readers", () => {
+    engine.applyChanges([
+      cell("s1", 9, 0, null, "=SEQUENCE(3)"),
+      cell("s1", 9, 1, null, "=SUM(A10#)"),
+      cell("s1", 9, 2, null, "=A12*2"),
+    ]);
+    const results = engine.recalculate([
+      { sheetId: "s1", row: 9, col: 0 },
+      { sheetId: "s1", row: 9, col: 1 },
+      { sheetId: "s1", row: 9, col: 2 },
+    ]);
+
+    expect(results).toContainEqual({
+      sheetId: "s1",
+      row: 9,
+      col: 0,
+      value: [[1], [2], [3]] as unknown as FormulaValue,
+    });
+    expect(results).toContainEqual({ sheetId: "s1", row: 9, col: 1, value: 6 });
+    expect(results).toContainEqual({ sheetId: "s1", row: 9, col: 2, value: 6 });
+  });
+
+  it("re-evaluates an anchor when a cell in its spill area is written", () => {
+    engine.applyChanges([cell("s1", 9, 0, null, "=SEQUENCE(3)")]);
+    engine.recalculate([{ sheetId: "s1", row: 9, col: 0 }]);
+
+    engine.applyChanges([cell("s1", 10, 0, "blocker")]);
+    const results = engine.recalculate([{ sheetId: "s1", row: 10, col: 0 }]);
+
+    expect(results).toContainEqual({
+      sheetId: "s1",
+      row: 9,
+      col: 0,
+      value: [[1], [2], [3]] as unknown as FormulaValue,
+    });
+  });
+
+  it("calls named LAMBDA functions", () => {
+    engine.setNamedFunctions({ DOUBLE: "=LAMBDA(x, x*2)" });
+    engine.applyChanges([cell("s1", 7, 0, null, "=DOUBLE(A3)")]);
+
+    expect(engine.recalculate([{ sheetId: "s1", row: 7, col: 0 }])).toEqual([
+      { sheetId: "s1", row: 7, col: 0, value: 6 },
+    ]);
+  });
+
+  it("binds structured references to the current table layout", () => {
+    engine.setTables([
+      {
+        name: "Nums",
+        sheet: "Sheet1",
+        startRow: 0,
+        startCol: 0,
+        endRow: 1,
+        endCol: 0,
+        columns: ["N"],
+        hasHeaderRow: false,
+        hasTotalsRow: false,
+      },
+    ]);
+    engine.applyChanges([cell("s2", 5, 0, null, "=SUM(Nums[N])")]);
+    expect(engine.recalculate([{ sheetId: "s2", row: 5, col: 0 }])).toEqual([
+      { sheetId: "s2", row: 5, col: 0, value: 3 },
+    ]);
+
+    engine.applyChanges([cell("s1", 0, 0, 5)]);
+    expect(
+      engine.recalculate([{ sheetId: "s1", row: 0, col: 0 }]),
+    ).toContainEqual({ sheetId: "s2", row: 5, col: 0, value: 7 });
+  });
+});
+
+describe("formulaStore.scheduleRecalculation", () => {
+  const getFormula = () => undefined;
+  const getCellValue = () => null;
+
+  function graphWithFanOut(count: number): DependencyGraph {
+    const graph = new DependencyGraph();
+    for (let i = 0; i < count; i++) graph.addDependency(`B${i + 1}`, "A1");
+    return graph;
+  }
+
+  beforeEach(() => {
+    vi.mocked(isFormulaWorkerSupported).mockReturnValue(true);
+    vi.mocked(recalculateInWorker).mockReset();
+  });
+
+  it("recalculates small fan-outs synchronously", () => {
+    useFormulaStore.setState({ dependencyGraph: graphWithFanOut(3) });
+    const apply = vi.fn();
+
+    useFormulaStore
+      .getState()
+      .scheduleRecalculation("s1", "A1", getFormula, getCellValue, apply);
+
+    expect(apply).toHaveBeenCalledTimes(1);
+    expect(recalculateInWorker).not.toHaveBeenCalled();
+  });
+
+  it("sends large fan-outs to the worker and maps its results", async () => {
+    useFormulaStore.setState({
+      dependencyGraph: graphWithFanOut(WORKER_RECALC_THRESHOLD),
+    });
+    vi.mocked(recalculateInWorker).mockResolvedValue([
+      { sheetId: "s1", row: 0, col: 1, value: 42 },
+      { sheetId: "s2", row: 2, col: 0, value: "#REF!" },
+    ]);
+
+    const applied = new Promise<Map<string, FormulaValue>>((resolve) => {
+      useFormulaStore
+        .getState()
+        .scheduleRecalculation("s1", "A1", getFormula, getCellValue, resolve);
+    });
+
+    expect(recalculateInWorker).toHaveBeenCalledWith(
+      [{ sheetId: "s1", row: 0, col: 0 }],
+      useFormulaStore.getState().calcSettings,
+    );
+    const results = await applied;
+    expect(Array.from(results)).toEqual([
+      ["B1", 42],
+      ["s2!A3", "#REF!"],
+    ]);
+  });
+
+  it("falls back to the main thread when the worker fails", async () => {
+    useFormulaStore.setState({
+      dependencyGraph: graphWithFanOut(WORKER_RECALC_THRESHOLD),
+    });
+    vi.mocked(recalculateInWorker).mockRejectedValue(new Error("stopped"));
+
+    const applied = new Promise<Map<string, FormulaValue>>((resolve) => {
+      useFormulaStore
+        .getState()
+        .scheduleRecalculation("s1", "A1", getFormula, getCellValue, resolve);
+    });
+
+    expect(await applied).toBeInstanceOf(Map);
+  });
+
+  it("drops worker results a newer recalculation already replaced", async () => {
+    useFormulaStore.setState({
+      dependencyGraph: graphWithFanOut(WORKER_RECALC_THRESHOLD),
+    });
+    let finishWorker!: (
+      results: { sheetId: string; row: number; col: number; value: number }[],
+    ) => void;
+    vi.mocked(recalculateInWorker).mockReturnValue(
+      new Promise((resolve) => (finishWorker = resolve)),
+    );
+    const late = vi.fn();
+    useFormulaStore
+      .getState()
+      .scheduleRecalculation("s1", "A1", getFormula, getCellValue, late);
+
+    // A smaller edit is recalculated here before the worker answers
+    useFormulaStore.setState({ dependencyGraph: graphWithFanOut(3) });
+    const current = vi.fn();
+    useFormulaStore.getState().scheduleRecalculation(
+      "s1",
+      "A1",
+      (key) => (key.startsWith("B") ? "=A1*2" : undefined),
+      () => 5,
+      current,
+    );
+    expect(current.mock.calls[0][0].get("B1")).toBe(10);
+
+    finishWorker([
+      { sheetId: "s1", row: 0, col: 1, value: 2 },
+      { sheetId: "s1", row: 299, col: 1, value: 7 },
+    ]);
+    await vi.waitFor(() => expect(late).toHaveBeenCalled());
+
+    expect(Array.from(late.mock.calls[0][0])).toEqual([["B300", 7]]);
+  });
+});
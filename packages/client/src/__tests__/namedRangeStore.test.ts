@@ -3,7 +3,7 @@ import { useNamedRangeStore } from "../stores/namedRangeStore";
 
 describe("namedRangeStore", () => {
   beforeEach(() => {
-    useNamedRangeStore.setState({ ranges: new Map() });
+    useNamedRangeStore.setState({ ranges: new Map(), functions: new Map() });
   });
 
   it("adds and retrieves a range", () => {
@@ -117,4 +117,41 @@ describe("namedRangeStore", () => {
       useNamedRangeStore.getState().resolveRange("NoSuchRange"),
     ).toBeNull();
   });
+
+  it("adds a named function under its upper-case name", () => {
+    const ok = useNamedRangeStore
+      .getState()
+      .addFunction({ name: "double", formula: "LAMBDA(x, x*2)" });
+
+    expect(ok).toBe(true);
+    expect(useNamedRangeStore.getState().getFunction("DOUBLE")).toEqual({
+      name: "DOUBLE",
+      formula: "=LAMBDA(x, x*2)",
+    });
+    expect(useNamedRangeStore.getState().resolveFunction("Double")).toBe(
+      "=LAMBDA(x, x*2)",
+    );
+  });
+
+  it("rejects invalid function names and formulas", () => {
+    const { addFunction } = useNamedRangeStore.getState();
+
+    expect(addFunction({ name: "SUM", formula: "=LAMBDA(x, x)" })).toBe(false);
+    expect(addFunction({ name: "A1", formula: "=LAMBDA(x, x)" })).toBe(false);
+    expect(addFunction({ name: "my fn", formula: "=LAMBDA(x, x)" })).toBe(
+      false,
+    );
+    expect(addFunction({ name: "BROKEN", formula: "=LAMBDA(x," })).toBe(false);
+    expect(useNamedRangeStore.getState().getAllFunctions()).toEqual([]);
+  });
+
+  it("removes a named function", () => {
+    const store = useNamedRangeStore.getState();
+    store.addFunction({ name: "TAXRATE", formula: "=0.2" });
+    store.removeFunction("taxrate");
+
+    expect(useNamedRangeStore.getState().resolveFunction("TAXRATE")).toBe(
+      undefined,
+    );
+  });
 });
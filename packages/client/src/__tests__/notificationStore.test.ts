@@ -1,9 +1,20 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   useNotificationStore,
   type AppNotification,
 } from "../stores/notificationStore";
 
+vi.mock("../services/api", () => ({
+  api: { get: vi.fn(), put: vi.fn() },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  put: ReturnType<typeof vi.fn>;
+};
+
 describe("notificationStore", () => {
   beforeEach(() => {
     useNotificationStore.setState({
@@ -17,6 +28,7 @@ describe("notificationStore", () => {
         inAppSharing: true,
         inAppComments: true,
         inAppMentions: true,
+        emailDigest: "off",
       },
     });
   });
@@ -116,6 +128,40 @@ describe("notificationStore", () => {
     expect(prefs.emailComments).toBe(false); // not changed
   });
 
+  it("savePreferences stores the server's copy", async () => {
+    mockApi.put.mockResolvedValueOnce({
+      ...useNotificationStore.getState().preferences,
+      emailMentions: true,
+      emailDigest: "daily",
+    });
+
+    const ok = await useNotificationStore
+      .getState()
+      .savePreferences({ emailMentions: true, emailDigest: "daily" });
+
+    expect(ok).toBe(true);
+    expect(mockApi.put).toHaveBeenCalledWith("/notifications/preferences", {
+      emailMentions: true,
+      emailDigest: "daily",
+    });
+    expect(useNotificationStore.getState().preferences.emailDigest).toBe(
+      "daily",
+    );
+  });
+
+  it("savePreferences rolls back when the server rejects the change", async () => {
+    mockApi.put.mockRejectedValueOnce(new Error("Validation failed"));
+
+    const ok = await useNotificationStore
+      .getState()
+      .savePreferences({ emailSharing: true });
+
+    expect(ok).toBe(false);
+    expect(useNotificationStore.getState().preferences.emailSharing).toBe(
+      false,
+    );
+  });
+
   // S15-014: Mark notification as read/unread
   it("markAsRead marks a notification as read", () => {
     const notif = makeNotification({ id: "n-read" });
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { useOfflineStore } from "../stores/offlineStore";
 import type { OfflineEdit } from "../utils/offlineQueue";
+import { applyPatchToCellData } from "../utils/cellPatch";
+import type { CellPatch } from "../utils/cellPatch";
 
 // Mock IndexedDB
 import "fake-indexeddb/auto";
@@ -118,12 +120,94 @@ describe("offlineStore", () => {
 
     await useOfflineStore.getState().syncEdits(sender);
 
-    expect(sender).toHaveBeenCalledTimes(2);
+    expect(sender).toHaveBeenCalledTimes(1);
+    expect(sender).toHaveBeenCalledWith("sp-1", "sheet-1", {
+      upserts: {
+        A1: { value: "test1", formula: null },
+        A2: { value: "test2", formula: null },
+      },
+      deletes: [],
+      merge: true,
+    });
     expect(useOfflineStore.getState().pendingEditsCount).toBe(0);
     expect(useOfflineStore.getState().syncStatus).toBe("idle");
     expect(useOfflineStore.getState().lastSyncedAt).not.toBeNull();
   });
 
+  it("syncEdits sends one patch per sheet with the last edit winning", async () => {
+    const store = useOfflineStore.getState();
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-1",
+      cell: "0,0",
+      value: 1,
+    });
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-2",
+      cell: "0,0",
+      value: "=A1",
+      formula: "=A1",
+    });
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-1",
+      cell: "0,0",
+      value: null,
+    });
+
+    const sender = vi.fn(async () => {});
+    await useOfflineStore.getState().syncEdits(sender);
+
+    expect(sender).toHaveBeenCalledTimes(2);
+    expect(sender).toHaveBeenCalledWith("sp-1", "sheet-1", {
+      upserts: { "0,0": { value: null, formula: null } },
+      deletes: [],
+      merge: true,
+    });
+    expect(sender).toHaveBeenCalledWith("sp-1", "sheet-2", {
+      upserts: { "0,0": { value: "=A1", formula: "=A1" } },
+      deletes: [],
+      merge: true,
+    });
+  });
+
+  it("syncEdits keeps the fields an edit did not touch", async () => {
+    const store = useOfflineStore.getState();
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-1",
+      cell: "0,0",
+      value: 2,
+    });
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-1",
+      cell: "0,1",
+      value: null,
+    });
+    await store.addOfflineEdit({
+      spreadsheetId: "sp-1",
+      sheetId: "sheet-1",
+      cell: "0,2",
+      value: null,
+    });
+
+    const sender = vi.fn(async () => {});
+    await useOfflineStore.getState().syncEdits(sender);
+
+    const stored = {
+      "0,0": { value: 1, formula: "=1", format: { bold: true } },
+      "0,1": { value: "x", note: "keep me" },
+      "0,2": { value: "y" },
+    };
+    const patch = (sender.mock.calls[0] as unknown[])[2] as CellPatch;
+    expect(applyPatchToCellData(stored, patch)).toEqual({
+      "0,0": { value: 2, format: { bold: true } },
+      "0,1": { value: null, note: "keep me" },
+    });
+  });
+
   it("syncEdits sets error status on failure", async () => {
     const store = useOfflineStore.getState();
     await store.addOfflineEdit({
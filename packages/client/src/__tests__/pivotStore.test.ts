@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { usePivotStore, aggregate } from "../stores/pivotStore";
+import { useCellStore } from "../stores/cellStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { validateCalculatedField } from "../utils/pivot";
 import { getCellKey } from "../utils/coordinates";
 import type { CellData, PivotConfig } from "../types/grid";
 
@@ -27,6 +30,12 @@ describe("aggregate", () => {
   it("returns 0 for empty array", () => {
     expect(aggregate([], "SUM")).toBe(0);
   });
+
+  it("COUNTUNIQUE, MEDIAN and STDEV", () => {
+    expect(aggregate([1, 2, 2, 3], "COUNTUNIQUE")).toBe(3);
+    expect(aggregate([5, 1, 3, 2], "MEDIAN")).toBe(2.5);
+    expect(aggregate([2, 4, 4, 4, 5, 5, 7, 9], "STDEV")).toBeCloseTo(2.138, 3);
+  });
 });
 
 describe("pivotStore", () => {
@@ -171,3 +180,300 @@ describe("pivotStore", () => {
     expect(result.get(getCellKey(2, 0))).toBeUndefined();
   });
 });
+
+describe("pivot options", () => {
+  // Row 0 (header): Date, Region, Revenue, Cost
+  // Dates are serial numbers: 45292 = 2024-01-01
+  const rows: [number | string, string, number, number][] = [
+    [45292, "North", 100, 60], // Jan 2024
+    [45310, "South", 200, 150], // Jan 2024
+    [45352, "North", 300, 100], // Mar 2024
+    [45420, "North", 400, 300], // May 2024
+    [45700, "South", 500, 200], // Feb 2025
+  ];
+
+  const sourceCells = () => {
+    const cells = new Map<string, CellData>();
+    ["Date", "Region", "Revenue", "Cost"].forEach((value, c) =>
+      cells.set(getCellKey(0, c), { value }),
+    );
+    rows.forEach((row, r) =>
+      row.forEach((value, c) => cells.set(getCellKey(r + 1, c), { value })),
+    );
+    return cells;
+  };
+
+  const config = (overrides: Partial<PivotConfig>): PivotConfig => ({
+    id: "pivot-1",
+    sourceSheetId: "sheet-1",
+    sourceRange: { start: { row: 0, col: 0 }, end: { row: 5, col: 3 } },
+    rowFields: [],
+    colFields: [],
+    valueFields: [{ col: 2, label: "Revenue", aggregation: "SUM" }],
+    filters: [],
+    targetSheetId: "sheet-2",
+    targetCell: { row: 0, col: 0 },
+    ...overrides,
+  });
+
+  const compute = (overrides: Partial<PivotConfig>) => {
+    const result = usePivotStore
+      .getState()
+      .computePivot(config(overrides), sourceCells());
+    return (row: number, col: number) => result.get(getCellKey(row, col));
+  };
+
+  it("summarises a calculated field", () => {
+    const at = compute({
+      rowFields: [{ col: 1, label: "Region" }],
+      calculatedFields: [{ name: "Profit", formula: "=Revenue - Cost" }],
+      valueFields: [
+        {
+          col: -1,
+          label: "Profit",
+          aggregation: "SUM",
+          calculatedField: "Profit",
+        },
+      ],
+    });
+    expect(at(1, 0)?.value).toBe("North");
+    expect(at(1, 1)?.value).toBe(340);
+    expect(at(2, 1)?.value).toBe(350);
+  });
+
+  it("validates calculated fields", () => {
+    const fields = ["Revenue", "Unit Price"];
+    expect(
+      validateCalculatedField(
+        { name: "Total", formula: "'Unit Price' * 2" },
+        fields,
+      ),
+    ).toBeNull();
+    expect(
+      validateCalculatedField({ name: "revenue", formula: "1" }, fields),
+    ).toBe("A field named revenue already exists");
+    expect(
+      validateCalculatedField(
+        { name: "Margin", formula: "Revenue - Tax" },
+        fields,
+      ),
+    ).toBe("Unknown field TAX");
+  });
+
+  it("groups dates by quarter in order", () => {
+    const at = compute({
+      rowFields: [
+        { col: 0, label: "Date", grouping: { type: "date", by: "quarter" } },
+      ],
+    });
+    expect(at(1, 0)?.value).toBe("Q1 2024");
+    expect(at(1, 1)?.value).toBe(600);
+    expect(at(2, 0)?.value).toBe("Q2 2024");
+    expect(at(3, 0)?.value).toBe("Q1 2025");
+  });
+
+  it("groups numbers into buckets", () => {
+    const at = compute({
+      rowFields: [
+        { col: 3, label: "Cost", grouping: { type: "number", size: 100 } },
+      ],
+      valueFields: [{ col: 2, label: "Revenue", aggregation: "COUNT" }],
+    });
+    expect(at(1, 0)?.value).toBe("0-99");
+    expect(at(1, 1)?.value).toBe(1);
+    expect(at(2, 0)?.value).toBe("100-199");
+    expect(at(2, 1)?.value).toBe(2);
+  });
+
+  it("shows values as a share of the grand total and of each row", () => {
+    const at = compute({
+      rowFields: [{ col: 1, label: "Region" }],
+      colFields: [
+        { col: 0, label: "Date", grouping: { type: "date", by: "year" } },
+      ],
+      valueFields: [
+        {
+          col: 2,
+          label: "Revenue",
+          aggregation: "SUM",
+          showAs: "percentOfGrandTotal",
+        },
+        {
+          col: 2,
+          label: "Share",
+          aggregation: "SUM",
+          showAs: "percentOfRow",
+        },
+      ],
+    });
+    expect(at(0, 1)?.value).toBe("2024 - Revenue");
+    // North 2024: 800 of 1500
+    expect(at(1, 1)?.value).toBeCloseTo(800 / 1500);
+    expect(at(1, 1)?.format?.numberFormat).toBe("0.00%");
+    expect(at(1, 2)?.value).toBe(1);
+    // South: 200 in 2024, 500 in 2025
+    expect(at(2, 2)?.value).toBeCloseTo(200 / 700);
+    expect(at(2, 4)?.value).toBeCloseTo(500 / 700);
+  });
+
+  it("keeps a running total", () => {
+    const at = compute({
+      rowFields: [
+        { col: 0, label: "Date", grouping: { type: "date", by: "month" } },
+      ],
+      valueFields: [
+        {
+          col: 2,
+          label: "Revenue",
+          aggregation: "SUM",
+          showAs: "runningTotal",
+        },
+      ],
+    });
+    expect(at(1, 0)?.value).toBe("Jan 2024");
+    expect(at(1, 1)?.value).toBe(300);
+    expect(at(2, 1)?.value).toBe(600);
+    expect(at(4, 1)?.value).toBe(1500);
+  });
+
+  it("adds subtotals per level and a grand total", () => {
+    const at = compute({
+      rowFields: [
+        { col: 1, label: "Region" },
+        { col: 0, label: "Year", grouping: { type: "date", by: "year" } },
+      ],
+      showSubtotals: true,
+      showGrandTotals: true,
+    });
+    expect(at(1, 0)?.value).toBe("North");
+    expect(at(1, 1)?.value).toBe("2024");
+    expect(at(2, 0)?.value).toBe("North Total");
+    expect(at(2, 2)).toEqual({ value: 800, format: { bold: true } });
+    expect(at(3, 1)?.value).toBe("2024");
+    expect(at(4, 1)?.value).toBe("2025");
+    expect(at(5, 0)?.value).toBe("South Total");
+    expect(at(6, 0)?.value).toBe("Grand Total");
+    expect(at(6, 2)?.value).toBe(1500);
+  });
+
+  it("drills down into the rows behind a value", () => {
+    usePivotStore.setState({ pivots: new Map() });
+    useCellStore.setState({ cells: new Map([["sheet-1", sourceCells()]]) });
+    usePivotStore.getState().createPivot(
+      config({
+        rowFields: [{ col: 1, label: "Region" }],
+        targetCell: { row: 2, col: 1 },
+      }),
+    );
+
+    // Pivot header at B3, "South" at B5 and its revenue at C5
+    expect(usePivotStore.getState().drillDown("sheet-2", 4, 1)).toBeNull();
+    const detailsId = usePivotStore.getState().drillDown("sheet-2", 4, 2)!;
+
+    const sheet = useSpreadsheetStore
+      .getState()
+      .sheets.find((s) => s.id === detailsId);
+    expect(sheet?.name).toBe("Details");
+    const details = useCellStore.getState();
+    expect(details.getCell(detailsId, 0, 2)?.value).toBe("Revenue");
+    expect(details.getCell(detailsId, 1, 2)?.value).toBe(200);
+    expect(details.getCell(detailsId, 2, 2)?.value).toBe(500);
+    expect(details.getCell(detailsId, 3, 0)).toBeUndefined();
+  });
+});
+
+describe("live pivots", () => {
+  const region = (cells: Map<string, CellData>, row: number, name: string) =>
+    cells.set(getCellKey(row, 0), { value: name });
+
+  beforeEach(() => {
+    usePivotStore.setState({ pivots: new Map(), conflicts: new Map() });
+    const cells = new Map<string, CellData>();
+    cells.set(getCellKey(0, 0), { value: "Region" });
+    cells.set(getCellKey(0, 1), { value: "Sales" });
+    region(cells, 1, "North");
+    cells.set(getCellKey(1, 1), { value: 100 });
+    region(cells, 2, "South");
+    cells.set(getCellKey(2, 1), { value: 200 });
+    useCellStore.setState({ cells: new Map([["sheet-1", cells]]) });
+    usePivotStore.getState().createPivot({
+      id: "pivot-1",
+      sourceSheetId: "sheet-1",
+      sourceRange: { start: { row: 0, col: 0 }, end: { row: 2, col: 1 } },
+      rowFields: [{ col: 0, label: "Region" }],
+      colFields: [],
+      valueFields: [{ col: 1, label: "Sales", aggregation: "SUM" }],
+      filters: [],
+      targetSheetId: "sheet-2",
+      targetCell: { row: 0, col: 0 },
+    });
+  });
+
+  const output = (row: number, col: number) =>
+    useCellStore.getState().getCell("sheet-2", row, col)?.value;
+
+  it("writes its output and recomputes when a source cell changes", () => {
+    expect(output(1, 1)).toBe(100);
+    expect(usePivotStore.getState().getPivot("pivot-1")?.outputSize).toEqual({
+      rows: 3,
+      cols: 2,
+    });
+
+    useCellStore.getState().setCell("sheet-1", 1, 1, { value: 150 });
+    usePivotStore.getState().refreshDependents("sheet-1", "B2");
+    expect(output(1, 1)).toBe(150);
+
+    // Cells outside the source leave it alone
+    useCellStore.getState().setCell("sheet-1", 2, 1, { value: 999 });
+    usePivotStore.getState().refreshDependents("sheet-1", "D9");
+    expect(output(2, 1)).toBe(200);
+  });
+
+  it("grows the source when a row is typed just below it", () => {
+    const cellStore = useCellStore.getState();
+    cellStore.setCell("sheet-1", 3, 0, { value: "East" });
+    cellStore.setCell("sheet-1", 3, 1, { value: 50 });
+    expect(usePivotStore.getState().handleCellEdit("sheet-1", 3, 0)).toBe(true);
+    expect(
+      usePivotStore.getState().getPivot("pivot-1")?.sourceRange.end,
+    ).toEqual({ row: 3, col: 1 });
+    expect(output(3, 0)).toBe("East");
+    expect(output(3, 1)).toBe(50);
+
+    // Further away is not part of the data
+    cellStore.setCell("sheet-1", 6, 0, { value: "West" });
+    expect(usePivotStore.getState().handleCellEdit("sheet-1", 6, 0)).toBe(
+      false,
+    );
+  });
+
+  it("clears cells its previous output no longer covers", () => {
+    usePivotStore.getState().setRowFields("pivot-1", []);
+    expect(output(1, 0)).toBe(300);
+    expect(output(2, 0)).toBeUndefined();
+    expect(output(1, 1)).toBeUndefined();
+  });
+
+  it("shows #REF! instead of overwriting other data", () => {
+    useCellStore.getState().setCell("sheet-2", 4, 0, { value: "keep" });
+    const cellStore = useCellStore.getState();
+    cellStore.setCell("sheet-1", 3, 0, { value: "East" });
+    cellStore.setCell("sheet-1", 4, 0, { value: "West" });
+    cellStore.setCell("sheet-1", 4, 1, { value: 10 });
+    usePivotStore.getState().updatePivot("pivot-1", {
+      sourceRange: { start: { row: 0, col: 0 }, end: { row: 4, col: 1 } },
+    });
+
+    expect(output(0, 0)).toBe("#REF!");
+    expect(output(1, 0)).toBeUndefined();
+    expect(output(4, 0)).toBe("keep");
+    expect(usePivotStore.getState().conflicts.get("pivot-1")).toBe(
+      "The pivot table would overwrite data in A5",
+    );
+
+    useCellStore.getState().clearRange("sheet-2", 4, 0, 4, 0);
+    expect(usePivotStore.getState().refreshPivot("pivot-1")).toBe(true);
+    expect(output(4, 0)).toBe("West");
+    expect(usePivotStore.getState().conflicts.has("pivot-1")).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useProtectionStore } from "../stores/protectionStore";
+import type { Protection } from "../stores/protectionStore";
+import { useDataStore } from "../stores/dataStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+type Mock = ReturnType<typeof vi.fn>;
+
+const mockApi = api as unknown as {
+  get: Mock;
+  post: Mock;
+  patch: Mock;
+  delete: Mock;
+};
+
+function protection(overrides: Partial<Protection> = {}): Protection {
+  return {
+    id: "prot-1",
+    sheetId: "s1",
+    range: { startRow: 0, startCol: 0, endRow: 2, endCol: 2 },
+    description: "Totals",
+    editors: [],
+    canEdit: false,
+    ...overrides,
+  };
+}
+
+describe("protectionStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useProtectionStore.getState().clear();
+  });
+
+  it("loads protections into the data store", async () => {
+    mockApi.get.mockResolvedValueOnce({
+      canManage: false,
+      protections: [
+        protection(),
+        protection({ id: "prot-2", sheetId: "s2", range: null }),
+        protection({
+          id: "prot-3",
+          range: { startRow: 5, startCol: 5, endRow: 5, endCol: 5 },
+          canEdit: true,
+        }),
+      ],
+    });
+
+    await useProtectionStore.getState().fetchProtections("ss-1");
+
+    expect(mockApi.get).toHaveBeenCalledWith("/spreadsheets/ss-1/protections");
+    const data = useDataStore.getState();
+    expect(data.isCellProtected("s1", 1, 1)).toBe(true);
+    expect(data.isCellProtected("s1", 3, 3)).toBe(false);
+    // Listed editors are not blocked
+    expect(data.isCellProtected("s1", 5, 5)).toBe(false);
+    // A protected sheet blocks every cell
+    expect(data.isCellProtected("s2", 400, 20)).toBe(true);
+    expect(useProtectionStore.getState().canManage).toBe(false);
+  });
+
+  it("creates a protection and reloads", async () => {
+    mockApi.get.mockResolvedValue({ canManage: true, protections: [] });
+    await useProtectionStore.getState().fetchProtections("ss-1");
+    mockApi.post.mockResolvedValueOnce(protection());
+    mockApi.get.mockResolvedValueOnce({
+      canManage: true,
+      protections: [protection({ canEdit: true })],
+    });
+
+    const ok = await useProtectionStore.getState().createProtection("s1", {
+      range: null,
+      description: "Rates",
+      editorEmails: ["bob@example.com"],
+    });
+
+    expect(ok).toBe(true);
+    expect(mockApi.post).toHaveBeenCalledWith(
+      "/spreadsheets/ss-1/protections",
+      {
+        sheetId: "s1",
+        range: null,
+        description: "Rates",
+        editorEmails: ["bob@example.com"],
+      },
+    );
+    expect(useDataStore.getState().getProtectedRanges("s1")).toHaveLength(1);
+  });
+
+  it("keeps the server's reason when a change is refused", async () => {
+    mockApi.get.mockResolvedValue({ canManage: true, protections: [] });
+    await useProtectionStore.getState().fetchProtections("ss-1");
+    mockApi.delete.mockRejectedValueOnce(
+      new Error("Only the owner can manage protected ranges"),
+    );
+
+    const ok = await useProtectionStore.getState().removeProtection("prot-1");
+
+    expect(ok).toBe(false);
+    expect(useProtectionStore.getState().error).toBe(
+      "Only the owner can manage protected ranges",
+    );
+  });
+});
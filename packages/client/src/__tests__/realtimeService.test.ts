@@ -0,0 +1,97 @@
+/**
+ * Tests for the co-editing binding between the cell store and the shared
+ * Yjs document, with the socket replaced by a fake.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as Y from "yjs";
+import { useCellStore } from "../stores/cellStore";
+import { readSheetCells, writeCellPatch } from "../utils/collabDoc";
+
+const fakeSocket = vi.hoisted(() => ({
+  connected: false,
+  handlers: new Map<string, (...args: unknown[]) => void>(),
+  emit: vi.fn(),
+  on(event: string, handler: (...args: unknown[]) => void) {
+    this.handlers.set(event, handler);
+    return this;
+  },
+  disconnect: vi.fn(),
+}));
+
+vi.mock("socket.io-client", () => ({ io: () => fakeSocket }));
+
+import {
+  bindCellStore,
+  connectSocket,
+  disconnectSocket,
+  getCollabDoc,
+  joinSpreadsheet,
+} from "../services/realtimeService";
+
+/** Updates the client sent to the server, merged into one server replica */
+function serverReplica(): Y.Doc {
+  const server = new Y.Doc();
+  for (const [event, update] of fakeSocket.emit.mock.calls) {
+    if (event === "yjs-update") Y.applyUpdate(server, update as Uint8Array);
+  }
+  return server;
+}
+
+describe("realtimeService co-editing", () => {
+  let unbind: () => void;
+
+  beforeEach(() => {
+    fakeSocket.handlers.clear();
+    fakeSocket.emit.mockClear();
+    useCellStore.setState({ cells: new Map() });
+    connectSocket();
+    joinSpreadsheet("ss-1", "sheet-1");
+    unbind = bindCellStore();
+  });
+
+  afterEach(() => {
+    unbind();
+    disconnectSocket();
+  });
+
+  it("joins the spreadsheet's room", () => {
+    expect(fakeSocket.emit).toHaveBeenCalledWith(
+      "join-spreadsheet",
+      expect.objectContaining({ spreadsheetId: "ss-1", sheetId: "sheet-1" }),
+    );
+  });
+
+  it("sends local cell edits through the shared document", () => {
+    const cells = useCellStore.getState();
+    cells.setCell("sheet-1", 0, 0, { value: 1 });
+    cells.setCell("sheet-1", 0, 1, { value: 2 });
+    cells.deleteCell("sheet-1", 0, 0);
+
+    expect(readSheetCells(getCollabDoc()!, "sheet-1")).toEqual({
+      "0,1": { value: 2 },
+    });
+    expect(readSheetCells(serverReplica(), "sheet-1")).toEqual({
+      "0,1": { value: 2 },
+    });
+  });
+
+  it("merges a concurrent remote edit without sending it back", () => {
+    useCellStore.getState().setCell("sheet-1", 0, 0, { value: "base" });
+    // Another client edits B1 from the same starting state while we edit A1
+    const other = new Y.Doc();
+    Y.applyUpdate(other, Y.encodeStateAsUpdate(getCollabDoc()!));
+    writeCellPatch(other, "sheet-1", {
+      upserts: { "0,1": { value: "theirs" } },
+      deletes: [],
+    });
+    useCellStore.getState().setCell("sheet-1", 0, 0, { value: "mine" });
+    const sent = fakeSocket.emit.mock.calls.length;
+
+    fakeSocket.handlers.get("yjs-update")!(Y.encodeStateAsUpdate(other));
+
+    const store = useCellStore.getState();
+    expect(store.getCell("sheet-1", 0, 0)?.value).toBe("mine");
+    expect(store.getCell("sheet-1", 0, 1)?.value).toBe("theirs");
+    expect(fakeSocket.emit.mock.calls.length).toBe(sent);
+  });
+});
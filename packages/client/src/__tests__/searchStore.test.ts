@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { searchHitPath, useSearchStore } from "../stores/searchStore";
+import type { SearchHit } from "../stores/searchStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as { get: ReturnType<typeof vi.fn> };
+
+function hit(overrides: Partial<SearchHit> = {}): SearchHit {
+  return {
+    kind: "cell",
+    spreadsheetId: "ss-1",
+    spreadsheetTitle: "Accounts",
+    sheetId: "sh-1",
+    sheetName: "March",
+    cell: "B4",
+    commentId: null,
+    snippet: "Invoice 4471",
+    ...overrides,
+  };
+}
+
+describe("searchStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useSearchStore.getState().clear();
+  });
+
+  it("links hits to their sheet and cell", () => {
+    expect(searchHitPath(hit())).toBe(
+      "/spreadsheet/ss-1?sheet=sh-1&sheetName=March&cell=B4",
+    );
+    expect(
+      searchHitPath(
+        hit({ kind: "title", sheetId: null, sheetName: null, cell: null }),
+      ),
+    ).toBe("/spreadsheet/ss-1");
+  });
+
+  it("encodes the query", async () => {
+    mockApi.get.mockResolvedValueOnce([hit()]);
+
+    await useSearchStore.getState().search("invoice #4471");
+
+    expect(mockApi.get).toHaveBeenCalledWith("/search?q=invoice%20%234471");
+    expect(useSearchStore.getState().hits).toHaveLength(1);
+    expect(useSearchStore.getState().isLoading).toBe(false);
+  });
+
+  it("ignores responses to an older query", async () => {
+    let resolveOld: (hits: SearchHit[]) => void = () => {};
+    mockApi.get
+      .mockReturnValueOnce(new Promise((r) => (resolveOld = r)))
+      .mockResolvedValueOnce([hit({ snippet: "Invoice 4471" })]);
+
+    const old = useSearchStore.getState().search("inv");
+    await useSearchStore.getState().search("invoice");
+    resolveOld([hit({ snippet: "Inventory" })]);
+    await old;
+
+    const { query, hits } = useSearchStore.getState();
+    expect(query).toBe("invoice");
+    expect(hits.map((h) => h.snippet)).toEqual(["Invoice 4471"]);
+  });
+});
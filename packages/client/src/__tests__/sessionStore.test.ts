@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useSessionStore } from "../stores/sessionStore";
+import type { SessionInfo } from "../stores/sessionStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+function session(overrides: Partial<SessionInfo> = {}): SessionInfo {
+  return {
+    id: "session-1",
+    device: "Chrome on macOS",
+    userAgent: "Mozilla/5.0",
+    ip: "203.0.113.5",
+    createdAt: "2026-10-01T00:00:00.000Z",
+    lastSeenAt: "2026-10-19T00:00:00.000Z",
+    current: true,
+    ...overrides,
+  };
+}
+
+describe("sessionStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useSessionStore.setState({ sessions: [], isLoading: false, error: null });
+  });
+
+  it("loads the user's sessions", async () => {
+    mockApi.get.mockResolvedValueOnce([
+      session(),
+      session({ id: "session-2", current: false }),
+    ]);
+
+    await useSessionStore.getState().fetchSessions();
+
+    expect(mockApi.get).toHaveBeenCalledWith("/users/me/sessions");
+    expect(useSessionStore.getState().sessions.map((s) => s.id)).toEqual([
+      "session-1",
+      "session-2",
+    ]);
+  });
+
+  it("removes a revoked session from the list", async () => {
+    useSessionStore.setState({
+      sessions: [session(), session({ id: "session-2", current: false })],
+    });
+    mockApi.delete.mockResolvedValueOnce(undefined);
+
+    const ok = await useSessionStore.getState().revokeSession("session-2");
+
+    expect(ok).toBe(true);
+    expect(mockApi.delete).toHaveBeenCalledWith("/users/me/sessions/session-2");
+    expect(useSessionStore.getState().sessions).toHaveLength(1);
+  });
+
+  it("keeps the session and reports the error when revoking fails", async () => {
+    useSessionStore.setState({
+      sessions: [session({ id: "session-2", current: false })],
+    });
+    mockApi.delete.mockRejectedValueOnce(new Error("Session not found"));
+
+    const ok = await useSessionStore.getState().revokeSession("session-2");
+
+    expect(ok).toBe(false);
+    expect(useSessionStore.getState().sessions).toHaveLength(1);
+    expect(useSessionStore.getState().error).toBe("Session not found");
+  });
+});
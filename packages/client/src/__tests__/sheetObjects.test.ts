@@ -0,0 +1,230 @@
+/**
+ * Tests for sheet object persistence: collecting store state into a JSON
+ * payload and hydrating the stores back from it.
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { useFormatStore } from "../stores/formatStore";
+import { useChartStore } from "../stores/chartStore";
+import { usePivotStore } from "../stores/pivotStore";
+import { useValidationStore } from "../stores/validationStore";
+import { useDataStore } from "../stores/dataStore";
+import { useNamedRangeStore } from "../stores/namedRangeStore";
+import { useTableStore } from "../stores/tableStore";
+import { useWhatIfStore } from "../stores/whatIfStore";
+import {
+  collectSheetObjects,
+  applySheetObjects,
+  collectNamedRanges,
+  hydrateSpreadsheetObjects,
+  normalizeSheetObjects,
+  SHEET_OBJECTS_SCHEMA_VERSION,
+} from "../utils/sheetObjects";
+import type { PivotConfig } from "../types/grid";
+
+function resetStores() {
+  useFormatStore.setState({
+    mergedRegions: new Map(),
+    conditionalRules: new Map(),
+    alternatingColors: new Map(),
+  });
+  useChartStore.setState({ charts: new Map() });
+  usePivotStore.setState({ pivots: new Map() });
+  useValidationStore.setState({ rules: new Map() });
+  useDataStore.setState({ protectedRanges: new Map() });
+  useNamedRangeStore.setState({ ranges: new Map(), functions: new Map() });
+  useTableStore.setState({ tables: new Map() });
+  useWhatIfStore.setState({ scenarios: new Map(), dataTables: new Map() });
+}
+
+const pivot: PivotConfig = {
+  id: "pivot-1",
+  sourceSheetId: "s1",
+  sourceRange: { start: { row: 0, col: 0 }, end: { row: 5, col: 2 } },
+  rowFields: [{ col: 0, label: "Region" }],
+  colFields: [],
+  valueFields: [{ col: 2, label: "Sales", aggregation: "SUM" }],
+  filters: [{ col: 1, allowedValues: new Set(["A", "B"]) }],
+  targetSheetId: "s1",
+  targetCell: { row: 0, col: 5 },
+};
+
+function populateSheet(sheetId: string) {
+  const format = useFormatStore.getState();
+  format.addConditionalRule(sheetId, {
+    id: "rule-1",
+    range: { startRow: 0, startCol: 0, endRow: 9, endCol: 0 },
+    type: "value",
+    condition: "greater-than",
+    values: ["10"],
+    format: { backgroundColor: "#ff0000" },
+    priority: 0,
+  });
+  format.setAlternatingColors(sheetId, ["#ffffff", "#eeeeee"]);
+  useFormatStore.setState((state) => {
+    state.mergedRegions.set(sheetId, [
+      { startRow: 0, startCol: 0, endRow: 1, endCol: 1 },
+    ]);
+  });
+  useChartStore.getState().createChartFromSelection(sheetId, "line", {
+    start: { row: 0, col: 0 },
+    end: { row: 3, col: 1 },
+  });
+  usePivotStore.getState().createPivot(pivot);
+  useValidationStore
+    .getState()
+    .setRule(sheetId, 2, 3, { type: "number-range", min: 0, max: 5 });
+  useTableStore.setState((state) => {
+    state.tables.set("table-1", {
+      id: "table-1",
+      name: "Table1",
+      sheetId,
+      startRow: 10,
+      startCol: 0,
+      endRow: 13,
+      endCol: 1,
+      columns: ["Region", "Amount"],
+      showTotalsRow: false,
+      showBandedRows: true,
+      color: "#1a73e8",
+    });
+  });
+  useWhatIfStore.setState((state) => {
+    state.scenarios.set("scenario-1", {
+      id: "scenario-1",
+      sheetId,
+      name: "Best case",
+      cells: [{ row: 0, col: 1, value: 12 }],
+    });
+    state.dataTables.set("datatable-1", {
+      id: "datatable-1",
+      sheetId,
+      startRow: 20,
+      startCol: 0,
+      endRow: 24,
+      endCol: 1,
+      rowInput: null,
+      colInput: { row: 0, col: 1 },
+    });
+  });
+}
+
+describe("sheetObjects", () => {
+  beforeEach(resetStores);
+
+  it("collects every object type for a sheet", () => {
+    populateSheet("s1");
+    const objects = collectSheetObjects("s1");
+
+    expect(objects.schemaVersion).toBe(SHEET_OBJECTS_SCHEMA_VERSION);
+    expect(objects.conditionalRules).toHaveLength(1);
+    expect(objects.mergedRegions).toHaveLength(1);
+    expect(objects.alternatingColors).toEqual(["#ffffff", "#eeeeee"]);
+    expect(objects.charts).toHaveLength(1);
+    expect(objects.pivots[0].filters[0].allowedValues).toEqual(["A", "B"]);
+    expect(objects.validation["2,3"].type).toBe("number-range");
+    // Protected ranges are kept by the server, not in the objects payload
+    expect(objects).not.toHaveProperty("protectedRanges");
+    expect(objects.tables[0].columns).toEqual(["Region", "Amount"]);
+    expect(objects.scenarios[0].name).toBe("Best case");
+    expect(objects.dataTables[0].colInput).toEqual({ row: 0, col: 1 });
+  });
+
+  it("produces a JSON-safe payload", () => {
+    populateSheet("s1");
+    const objects = collectSheetObjects("s1");
+    expect(JSON.parse(JSON.stringify(objects))).toEqual(objects);
+  });
+
+  it("round-trips through apply", () => {
+    populateSheet("s1");
+    const payload = JSON.parse(JSON.stringify(collectSheetObjects("s1")));
+    resetStores();
+
+    applySheetObjects("s1", payload);
+
+    expect(useFormatStore.getState().getConditionalRules("s1")).toHaveLength(1);
+    expect(useFormatStore.getState().getMergedRegion("s1", 1, 1)).toBeDefined();
+    expect(useChartStore.getState().getCharts("s1")[0].type).toBe("line");
+    const restored = usePivotStore.getState().getPivot("pivot-1");
+    expect(restored?.filters[0].allowedValues.has("B")).toBe(true);
+    expect(useValidationStore.getState().getRule("s1", 2, 3)?.max).toBe(5);
+    expect(useTableStore.getState().getTableByName("Table1")?.endRow).toBe(13);
+    expect(useWhatIfStore.getState().getScenariosForSheet("s1")).toHaveLength(
+      1,
+    );
+    expect(useWhatIfStore.getState().getDataTableAt("s1", 22, 1)?.id).toBe(
+      "datatable-1",
+    );
+  });
+
+  it("re-targets objects to the sheet they are applied to", () => {
+    populateSheet("old-sheet");
+    const payload = collectSheetObjects("old-sheet");
+
+    applySheetObjects("new-sheet", payload);
+
+    expect(useChartStore.getState().getCharts("new-sheet")[0].sheetId).toBe(
+      "new-sheet",
+    );
+    expect(useTableStore.getState().getTable("table-1")?.sheetId).toBe(
+      "new-sheet",
+    );
+  });
+
+  it("clears stale objects when applying an empty payload", () => {
+    populateSheet("s1");
+    applySheetObjects("s1", {});
+
+    expect(useFormatStore.getState().getConditionalRules("s1")).toEqual([]);
+    expect(useChartStore.getState().getCharts("s1")).toEqual([]);
+    expect(usePivotStore.getState().getAllPivots()).toEqual([]);
+    expect(useTableStore.getState().getTablesForSheet("s1")).toEqual([]);
+  });
+
+  it("normalizes missing or malformed payloads", () => {
+    const objects = normalizeSheetObjects(null);
+    expect(objects.charts).toEqual([]);
+    expect(objects.alternatingColors).toBeNull();
+    expect(objects.validation).toEqual({});
+  });
+
+  it("ignores protected ranges left in older payloads", () => {
+    applySheetObjects("s1", {
+      schemaVersion: 1,
+      protectedRanges: [
+        { id: "p", startRow: 0, startCol: 0, endRow: 1, endCol: 1 },
+      ],
+    });
+
+    expect(useDataStore.getState().getProtectedRanges("s1")).toEqual([]);
+  });
+
+  it("hydrates named ranges and every sheet of a spreadsheet", () => {
+    populateSheet("s1");
+    const payload = collectSheetObjects("s1");
+    resetStores();
+
+    hydrateSpreadsheetObjects({
+      namedRanges: [
+        {
+          name: "Totals",
+          sheetId: "s1",
+          startRow: 0,
+          startCol: 0,
+          endRow: 4,
+          endCol: 0,
+        },
+        { name: "DOUBLE", formula: "=LAMBDA(x, x*2)" },
+      ],
+      sheets: [{ id: "s1", objects: payload }, { id: "s2" }],
+    });
+
+    expect(useNamedRangeStore.getState().getRange("Totals")).toBeDefined();
+    expect(useNamedRangeStore.getState().resolveFunction("DOUBLE")).toBe(
+      "=LAMBDA(x, x*2)",
+    );
+    expect(collectNamedRanges()).toHaveLength(2);
+    expect(useChartStore.getState().getCharts("s1")).toHaveLength(1);
+    expect(useChartStore.getState().getCharts("s2")).toEqual([]);
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DependencyGraph, DEFAULT_CALC_SETTINGS } from "@gridspace/formula";
+import { solve } from "../utils/solver";
+import type { SolverProblem, SolverEvaluator } from "../utils/solver";
+import { runSolver, applySolverSolution } from "../utils/solverModel";
+import { parseCellList } from "../utils/whatIf";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useHistoryStore } from "../stores/historyStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { cellRefToPosition } from "../utils/coordinates";
+
+function problem(overrides: Partial<SolverProblem> = {}): SolverProblem {
+  return {
+    start: [0, 0],
+    goal: "max",
+    constraints: [],
+    integers: [],
+    nonNegative: true,
+    method: "simplex",
+    ...overrides,
+  };
+}
+
+describe("solve — simplex", () => {
+  // max 3x + 2y  s.t.  x + y <= 4,  x + 3y <= 6
+  const evaluate: SolverEvaluator = ([x, y]) => ({
+    objective: 3 * x + 2 * y,
+    constraints: [x + y - 4, x + 3 * y - 6],
+  });
+
+  it("finds the optimum of a linear program", () => {
+    const result = solve(problem({ constraints: ["<=", "<="] }), evaluate);
+    expect(result.status).toBe("solved");
+    expect(result.x[0]).toBeCloseTo(4);
+    expect(result.x[1]).toBeCloseTo(0);
+    expect(result.objective).toBeCloseTo(12);
+  });
+
+  it("minimises with >= and = constraints", () => {
+    // min 2x + 3y  s.t.  x + y >= 5,  x - y = 1
+    const result = solve(
+      problem({ goal: "min", constraints: [">=", "="] }),
+      ([x, y]) => ({
+        objective: 2 * x + 3 * y,
+        constraints: [x + y - 5, x - y - 1],
+      }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.x[0]).toBeCloseTo(3);
+    expect(result.x[1]).toBeCloseTo(2);
+    expect(result.objective).toBeCloseTo(12);
+  });
+
+  it("reports infeasible and unbounded models", () => {
+    const infeasible = solve(
+      problem({ constraints: ["<=", ">="] }),
+      ([x, y]) => ({ objective: x + y, constraints: [x + y - 2, x + y - 3] }),
+    );
+    expect(infeasible.status).toBe("infeasible");
+    expect(infeasible.x).toEqual([0, 0]);
+
+    const unbounded = solve(problem({ constraints: [">="] }), ([x, y]) => ({
+      objective: x + y,
+      constraints: [x - 1],
+    }));
+    expect(unbounded.status).toBe("unbounded");
+  });
+
+  it("restricts integer variables with branch and bound", () => {
+    // max 5x + 4y  s.t.  6x + 4y <= 24,  x + 2y <= 6 → LP optimum (3, 1.5)
+    const result = solve(
+      problem({ constraints: ["<=", "<="], integers: [0, 1] }),
+      ([x, y]) => ({
+        objective: 5 * x + 4 * y,
+        constraints: [6 * x + 4 * y - 24, x + 2 * y - 6],
+      }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.x).toEqual([4, 0]);
+    expect(result.objective).toBe(20);
+  });
+
+  it("allows negative values when variables are free", () => {
+    const result = solve(
+      problem({ goal: "min", nonNegative: false, constraints: [">="] }),
+      ([x, y]) => ({ objective: x + y, constraints: [x + y + 3] }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.objective).toBeCloseTo(-3);
+  });
+
+  it("refuses a nonlinear model", () => {
+    const result = solve(problem({ constraints: ["<="] }), ([x, y]) => ({
+      objective: x * x + y,
+      constraints: [x + y - 4],
+    }));
+    expect(result.status).toBe("not-linear");
+  });
+});
+
+describe("solve — Nelder–Mead", () => {
+  it("minimises a nonlinear objective", () => {
+    const result = solve(
+      problem({ goal: "min", method: "nelder-mead", nonNegative: false }),
+      ([x, y]) => ({
+        objective: (x - 3) ** 2 + (y + 1) ** 2 + 2,
+        constraints: [],
+      }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.x[0]).toBeCloseTo(3, 4);
+    expect(result.x[1]).toBeCloseTo(-1, 4);
+    expect(result.objective).toBeCloseTo(2, 6);
+  });
+
+  it("keeps to the constraints", () => {
+    // Nearest point to (3, 2) with x + y <= 3 is (2, 1)
+    const result = solve(
+      problem({
+        goal: "min",
+        method: "nelder-mead",
+        constraints: ["<="],
+        start: [0, 0],
+      }),
+      ([x, y]) => ({
+        objective: (x - 3) ** 2 + (y - 2) ** 2,
+        constraints: [x + y - 3],
+      }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.x[0]).toBeCloseTo(2, 3);
+    expect(result.x[1]).toBeCloseTo(1, 3);
+  });
+
+  it("hits a target value", () => {
+    const result = solve(
+      problem({ goal: "value", target: 50, method: "nelder-mead", start: [1] }),
+      ([x]) => ({ objective: x * x * 2, constraints: [] }),
+    );
+    expect(result.status).toBe("solved");
+    expect(result.x[0]).toBeCloseTo(5, 4);
+  });
+});
+
+describe("solverModel", () => {
+  const SHEET = "sheet-1";
+
+  /** Write a cell the way the grid does, recalculating its dependents */
+  function put(ref: string, input: string | number) {
+    const { row, col } = cellRefToPosition(ref);
+    const formulaStore = useFormulaStore.getState();
+    const cellStore = useCellStore.getState();
+    const getCellValue = (_s: string | undefined, c: number, r: number) =>
+      useCellStore.getState().getCell(SHEET, r, c)?.value ?? null;
+    const getFormula = (key: string) => {
+      const pos = cellRefToPosition(key);
+      return useCellStore.getState().getCell(SHEET, pos.row, pos.col)?.formula;
+    };
+    if (typeof input === "string" && input.startsWith("=")) {
+      formulaStore.updateDependencies(ref, input);
+      const value = formulaStore.evaluateFormula(input, getCellValue, ref);
+      cellStore.setCell(SHEET, row, col, { value, formula: input });
+    } else {
+      cellStore.setCell(SHEET, row, col, { value: input });
+    }
+    for (const [key, value] of formulaStore.recalculate(
+      ref,
+      getFormula,
+      getCellValue,
+    )) {
+      const pos = cellRefToPosition(key);
+      const cell = useCellStore.getState().getCell(SHEET, pos.row, pos.col);
+      cellStore.setCell(SHEET, pos.row, pos.col, { ...cell, value });
+    }
+  }
+
+  function valueOf(ref: string) {
+    const { row, col } = cellRefToPosition(ref);
+    return useCellStore.getState().getCell(SHEET, row, col)?.value;
+  }
+
+  beforeEach(() => {
+    useCellStore.setState({ cells: new Map() });
+    useHistoryStore.getState().clear();
+    useSpreadsheetStore.setState({ activeSheetId: SHEET });
+    useFormulaStore.setState({
+      dependencyGraph: new DependencyGraph(),
+      formulaCache: new Map(),
+      astCache: new Map(),
+      circularRefs: new Map(),
+      calcSettings: { ...DEFAULT_CALC_SETTINGS },
+    });
+    put("A1", 1);
+    put("A2", 1);
+    put("A3", "=A1*3+A2*2");
+    put("A4", "=A1+3*A2");
+  });
+
+  it("parses cell lists and ranges", () => {
+    expect(parseCellList("A1:B2, $D$5")).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 1, col: 0 },
+      { row: 1, col: 1 },
+      { row: 4, col: 3 },
+    ]);
+    expect(() => parseCellList("A1:nope")).toThrow();
+  });
+
+  it("solves through formula recalculation without touching the cells", () => {
+    const run = runSolver(SHEET, {
+      objective: "A3",
+      goal: "max",
+      changingCells: "A1:A2",
+      constraints: [
+        { cell: "A1", op: "<=", value: "A5" },
+        { cell: "A4", op: "<=", value: "6" },
+      ],
+      nonNegative: true,
+      method: "simplex",
+    });
+    // A5 is empty, so A1 <= 0 and everything goes into A2
+    expect(run.result.status).toBe("solved");
+    expect(run.result.x[0]).toBeCloseTo(0);
+    expect(run.result.x[1]).toBeCloseTo(2);
+    expect(run.result.objective).toBeCloseTo(4);
+    expect(run.original).toEqual([1, 1]);
+    expect(valueOf("A1")).toBe(1);
+    expect(valueOf("A3")).toBe(5);
+    expect(useFormulaStore.getState().formulaCache.get("A3")).toBe(5);
+  });
+
+  it("writes a kept solution back as one undoable change", () => {
+    put("A5", 10);
+    const run = runSolver(SHEET, {
+      objective: "A3",
+      goal: "max",
+      changingCells: "A1, A2",
+      constraints: [
+        { cell: "A1:A2", op: "<=", value: "A5" },
+        { cell: "A4", op: "<=", value: "6" },
+        { cell: "A1:A2", op: "int", value: "" },
+      ],
+      nonNegative: true,
+      method: "simplex",
+    });
+    expect(run.result.status).toBe("solved");
+    expect(run.result.x).toEqual([6, 0]);
+
+    applySolverSolution(SHEET, run.cells, run.result.x);
+    expect(valueOf("A1")).toBe(6);
+    expect(valueOf("A2")).toBe(0);
+    expect(valueOf("A3")).toBe(18);
+    expect(valueOf("A4")).toBe(6);
+
+    useHistoryStore.getState().undo();
+    expect(valueOf("A1")).toBe(1);
+    expect(valueOf("A3")).toBe(5);
+  });
+
+  it("explains what is wrong with a model", () => {
+    const model = {
+      objective: "A3",
+      goal: "max" as const,
+      changingCells: "A1",
+      constraints: [],
+      nonNegative: true,
+      method: "simplex" as const,
+    };
+    expect(() => runSolver(SHEET, { ...model, objective: "A1" })).toThrow(
+      "The objective cell must contain a formula",
+    );
+    expect(() => runSolver(SHEET, { ...model, changingCells: "A4" })).toThrow(
+      "Changing cell A4 contains a formula",
+    );
+    expect(() => runSolver(SHEET, { ...model, changingCells: "B1" })).toThrow(
+      "The objective cell does not depend on the changing cells",
+    );
+    expect(() =>
+      runSolver(SHEET, {
+        ...model,
+        constraints: [{ cell: "B1", op: "int", value: "" }],
+      }),
+    ).toThrow("Integer constraints apply only to changing cells");
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { useTableStore } from "../stores/tableStore";
+import { storeValueGetter } from "../utils/formulaAudit";
+import { refreshTableFormulas } from "../utils/tables";
+
+function sheet(id: string, name: string) {
+  return {
+    id,
+    name,
+    cells: new Map(),
+    columnWidths: new Map(),
+    rowHeights: new Map(),
+    frozenRows: 0,
+    frozenCols: 0,
+    hiddenRows: new Set<number>(),
+    hiddenCols: new Set<number>(),
+  };
+}
+
+function set(
+  sheetId: string,
+  row: number,
+  col: number,
+  input: string | number,
+) {
+  useCellStore
+    .getState()
+    .setCell(
+      sheetId,
+      row,
+      col,
+      typeof input === "string" && input.startsWith("=")
+        ? { value: null, formula: input }
+        : { value: input },
+    );
+}
+
+const cell = (row: number, col: number, sheetId = "s1") =>
+  useCellStore.getState().getCell(sheetId, row, col);
+
+const range = (
+  startRow: number,
+  startCol: number,
+  endRow: number,
+  endCol: number,
+) => ({
+  start: { row: startRow, col: startCol },
+  end: { row: endRow, col: endCol },
+});
+
+describe("tableStore", () => {
+  beforeEach(() => {
+    useSpreadsheetStore.setState({
+      sheets: [sheet("s1", "Main"), sheet("s2", "Summary")],
+      activeSheetId: "s1",
+    });
+    useCellStore.setState({ cells: new Map() });
+    useTableStore.setState({ tables: new Map() });
+
+    // Main A1:B4 — Region / Amount with three data rows
+    set("s1", 0, 0, "Region");
+    set("s1", 0, 1, "Amount");
+    set("s1", 1, 0, "North");
+    set("s1", 1, 1, 10);
+    set("s1", 2, 0, "South");
+    set("s1", 2, 1, 20);
+    set("s1", 3, 0, "East");
+    set("s1", 3, 1, 30);
+  });
+
+  it("creates a named table with columns from the header row", () => {
+    const table = useTableStore.getState().createTable("s1", range(3, 1, 0, 0));
+
+    expect(table).toMatchObject({
+      name: "Table1",
+      startRow: 0,
+      endRow: 3,
+      columns: ["Region", "Amount"],
+    });
+    expect(useTableStore.getState().getTableAt("s1", 2, 1)?.id).toBe(table!.id);
+    // Overlapping another table or lacking data rows is refused
+    expect(
+      useTableStore.getState().createTable("s1", range(2, 1, 5, 2)),
+    ).toBeNull();
+    expect(
+      useTableStore.getState().createTable("s1", range(8, 0, 8, 2)),
+    ).toBeNull();
+  });
+
+  it("fills in missing and duplicate header names", () => {
+    set("s1", 0, 1, "Region");
+    set("s1", 0, 2, "");
+    set("s1", 1, 2, 1);
+    const table = useTableStore.getState().createTable("s1", range(0, 0, 3, 2));
+
+    expect(table?.columns).toEqual(["Region", "Region2", "Column3"]);
+    expect(cell(0, 2)?.value).toBe("Column3");
+  });
+
+  it("evaluates structured references through the formula store", () => {
+    set("s1", 0, 2, "Double");
+    useTableStore.getState().createTable("s1", range(0, 0, 3, 2));
+    const formulas = useFormulaStore.getState();
+    const getCellValue = storeValueGetter("s1");
+
+    expect(
+      formulas.evaluateFormula("=SUM(Table1[Amount])", getCellValue, "E1"),
+    ).toBe(60);
+    expect(formulas.evaluateFormula("=[@Amount]*2", getCellValue, "C3")).toBe(
+      40,
+    );
+    expect(
+      formulas.evaluateFormula("=Table1[@Amount]", getCellValue, "C9"),
+    ).toBe("#VALUE!");
+  });
+
+  it("grows when typing directly below or to the right", () => {
+    const table = useTableStore
+      .getState()
+      .createTable("s1", range(0, 0, 3, 1))!;
+    set("s1", 0, 5, "=SUM(Table1[Amount])");
+    refreshTableFormulas();
+    expect(cell(0, 5)?.value).toBe(60);
+
+    set("s1", 4, 1, 40);
+    expect(useTableStore.getState().handleCellEdit("s1", 4, 1)).toBe(true);
+    refreshTableFormulas();
+    expect(useTableStore.getState().getTable(table.id)?.endRow).toBe(4);
+    expect(cell(0, 5)?.value).toBe(100);
+
+    set("s1", 2, 2, 5);
+    expect(useTableStore.getState().handleCellEdit("s1", 2, 2)).toBe(true);
+    expect(useTableStore.getState().getTable(table.id)?.columns).toEqual([
+      "Region",
+      "Amount",
+      "Column3",
+    ]);
+    expect(cell(0, 2)?.value).toBe("Column3");
+
+    // Cells further away are left alone
+    set("s1", 8, 0, "x");
+    expect(useTableStore.getState().handleCellEdit("s1", 8, 0)).toBe(false);
+  });
+
+  it("renames a column when its header is edited", () => {
+    set("s1", 0, 2, "Double");
+    useTableStore.getState().createTable("s1", range(0, 0, 3, 2));
+    set("s1", 0, 5, "=SUM(Table1[Amount])+Table1[@Region]");
+    set("s1", 1, 2, "=[@Amount]");
+
+    set("s1", 0, 1, "Sales");
+    expect(useTableStore.getState().handleCellEdit("s1", 0, 1)).toBe(true);
+
+    expect(useTableStore.getState().getTableByName("Table1")?.columns[1]).toBe(
+      "Sales",
+    );
+    expect(cell(0, 5)?.formula).toBe("=SUM(Table1[Sales])+Table1[@Region]");
+    expect(cell(1, 2)?.formula).toBe("=[@Sales]");
+  });
+
+  it("adds and removes a totals row", () => {
+    const table = useTableStore
+      .getState()
+      .createTable("s1", range(0, 0, 3, 1))!;
+    const tables = useTableStore.getState();
+
+    expect(tables.setTotalsRow(table.id, true)).toBe(true);
+    refreshTableFormulas();
+    expect(cell(4, 0)?.value).toBe("Total");
+    expect(cell(4, 1)).toMatchObject({
+      formula: "=SUM(Table1[Amount])",
+      value: 60,
+    });
+    expect(useTableStore.getState().getTable(table.id)).toMatchObject({
+      endRow: 4,
+      showTotalsRow: true,
+    });
+    expect(
+      useFormulaStore
+        .getState()
+        .evaluateFormula(
+          "=Table1[[#Totals],[Amount]]",
+          storeValueGetter("s1"),
+          "F1",
+        ),
+    ).toBe(60);
+
+    expect(tables.setTotalsRow(table.id, false)).toBe(true);
+    expect(cell(4, 1)).toBeUndefined();
+    expect(useTableStore.getState().getTable(table.id)?.endRow).toBe(3);
+
+    // The row below must be free
+    set("s1", 4, 1, 99);
+    expect(tables.setTotalsRow(table.id, true)).toBe(false);
+  });
+
+  it("rewrites formulas when a table is renamed", () => {
+    const table = useTableStore
+      .getState()
+      .createTable("s1", range(0, 0, 3, 1))!;
+    set("s2", 0, 0, "=SUM(Table1[Amount])+COUNTA(table1[#All])");
+
+    expect(useTableStore.getState().renameTable(table.id, "A1")).toBe(false);
+    expect(useTableStore.getState().renameTable(table.id, "Sales")).toBe(true);
+    expect(cell(0, 0, "s2")?.formula).toBe(
+      "=SUM(Sales[Amount])+COUNTA(Sales[#All])",
+    );
+  });
+
+  it("rewrites references to A1 form when converted to a range", () => {
+    set("s1", 0, 2, "Double");
+    const table = useTableStore
+      .getState()
+      .createTable("s1", range(0, 0, 3, 2))!;
+    set("s1", 0, 5, "=SUM(Table1[Amount])");
+    set("s1", 2, 2, "=[@Amount]*2");
+    set("s2", 0, 0, "=Table1[[#Headers],[Region]]");
+
+    useTableStore.getState().removeTable(table.id);
+
+    expect(useTableStore.getState().getTablesForSheet("s1")).toEqual([]);
+    expect(cell(0, 5)?.formula).toBe("=SUM($B$2:$B$4)");
+    expect(cell(2, 2)?.formula).toBe("=$B$3*2");
+    expect(cell(0, 0, "s2")?.formula).toBe("=Main!$A$1");
+  });
+});
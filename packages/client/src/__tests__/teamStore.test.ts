@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useTeamStore } from "../stores/teamStore";
+import type { TeamDetail } from "../stores/teamStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+import { api } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  post: ReturnType<typeof vi.fn>;
+  put: ReturnType<typeof vi.fn>;
+  patch: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+function team(overrides: Partial<TeamDetail> = {}): TeamDetail {
+  return {
+    id: "team-1",
+    name: "Finance",
+    role: "owner",
+    members: [],
+    createdAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("teamStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useTeamStore.setState({
+      teams: [],
+      currentTeam: null,
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it("adds a created team to the list", async () => {
+    mockApi.post.mockResolvedValueOnce({
+      id: "team-1",
+      name: "Finance",
+      role: "owner",
+      memberCount: 1,
+      createdAt: "2026-10-19T00:00:00.000Z",
+    });
+
+    const created = await useTeamStore.getState().createTeam("Finance");
+
+    expect(mockApi.post).toHaveBeenCalledWith("/teams", { name: "Finance" });
+    expect(created?.id).toBe("team-1");
+    expect(useTeamStore.getState().teams).toHaveLength(1);
+  });
+
+  it("reloads the open team after changing a member's role", async () => {
+    useTeamStore.setState({ currentTeam: team() });
+    mockApi.put.mockResolvedValueOnce({});
+    mockApi.get.mockResolvedValueOnce(
+      team({
+        members: [
+          {
+            userId: "user-2",
+            role: "admin",
+            createdAt: "2026-10-01T00:00:00.000Z",
+            user: {
+              id: "user-2",
+              name: "Sam",
+              email: "sam@example.com",
+              avatarUrl: null,
+            },
+          },
+        ],
+      }),
+    );
+
+    const ok = await useTeamStore
+      .getState()
+      .changeMemberRole("team-1", "user-2", "admin");
+
+    expect(ok).toBe(true);
+    expect(mockApi.put).toHaveBeenCalledWith("/teams/team-1/members/user-2", {
+      role: "admin",
+    });
+    expect(mockApi.get).toHaveBeenCalledWith("/teams/team-1");
+    expect(useTeamStore.getState().currentTeam?.members[0].role).toBe("admin");
+  });
+
+  it("drops the team after leaving and reports failures", async () => {
+    useTeamStore.setState({
+      teams: [
+        {
+          id: "team-1",
+          name: "Finance",
+          role: "owner",
+          memberCount: 1,
+          createdAt: "2026-10-01T00:00:00.000Z",
+        },
+      ],
+      currentTeam: team(),
+    });
+    mockApi.delete.mockRejectedValueOnce(
+      new Error("A team needs at least one owner"),
+    );
+
+    expect(await useTeamStore.getState().leaveTeam("team-1", "user-1")).toBe(
+      false,
+    );
+    expect(useTeamStore.getState().error).toBe(
+      "A team needs at least one owner",
+    );
+    expect(useTeamStore.getState().teams).toHaveLength(1);
+
+    mockApi.delete.mockResolvedValueOnce(undefined);
+    expect(await useTeamStore.getState().leaveTeam("team-1", "user-1")).toBe(
+      true,
+    );
+    expect(mockApi.delete).toHaveBeenLastCalledWith(
+      "/teams/team-1/members/user-1",
+    );
+    expect(useTeamStore.getState().teams).toEqual([]);
+    expect(useTeamStore.getState().currentTeam).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useTwoFactorStore } from "../stores/twoFactorStore";
+
+vi.mock("../services/api", () => ({
+  api: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+  setAccessToken: vi.fn(),
+}));
+
+import { api, setAccessToken } from "../services/api";
+
+const mockApi = api as unknown as {
+  get: ReturnType<typeof vi.fn>;
+  post: ReturnType<typeof vi.fn>;
+};
+
+describe("twoFactorStore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useTwoFactorStore.setState({
+      status: { enabled: false, recoveryCodesRemaining: 0, hasPassword: true },
+      setup: null,
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  it("enable returns recovery codes and switches to the reissued token", async () => {
+    useTwoFactorStore.setState({
+      setup: {
+        secret: "ABC",
+        otpauthUrl: "otpauth://totp/x",
+        qrCodeDataUrl: "data:image/png;base64,",
+      },
+    });
+    mockApi.post.mockResolvedValueOnce({
+      recoveryCodes: ["aaaaa-11111", "bbbbb-22222"],
+      accessToken: "new-token",
+    });
+
+    const codes = await useTwoFactorStore.getState().enable("123456");
+
+    expect(mockApi.post).toHaveBeenCalledWith("/users/me/2fa/enable", {
+      code: "123456",
+    });
+    expect(codes).toEqual(["aaaaa-11111", "bbbbb-22222"]);
+    expect(setAccessToken).toHaveBeenCalledWith("new-token");
+    const state = useTwoFactorStore.getState();
+    expect(state.setup).toBeNull();
+    expect(state.status).toMatchObject({
+      enabled: true,
+      recoveryCodesRemaining: 2,
+    });
+  });
+
+  it("keeps setup open and reports the error on a wrong code", async () => {
+    useTwoFactorStore.setState({
+      setup: {
+        secret: "ABC",
+        otpauthUrl: "otpauth://totp/x",
+        qrCodeDataUrl: "data:image/png;base64,",
+      },
+    });
+    mockApi.post.mockRejectedValueOnce(new Error("Invalid verification code"));
+
+    const codes = await useTwoFactorStore.getState().enable("000000");
+
+    expect(codes).toBeNull();
+    expect(setAccessToken).not.toHaveBeenCalled();
+    const state = useTwoFactorStore.getState();
+    expect(state.setup).not.toBeNull();
+    expect(state.error).toBe("Invalid verification code");
+  });
+
+  it("disable sends the password and updates the status", async () => {
+    useTwoFactorStore.setState({
+      status: { enabled: true, recoveryCodesRemaining: 8, hasPassword: true },
+    });
+    mockApi.post.mockResolvedValueOnce({ accessToken: "new-token" });
+
+    const ok = await useTwoFactorStore
+      .getState()
+      .disable({ password: "password123" });
+
+    expect(ok).toBe(true);
+    expect(mockApi.post).toHaveBeenCalledWith("/users/me/2fa/disable", {
+      password: "password123",
+    });
+    expect(setAccessToken).toHaveBeenCalledWith("new-token");
+    expect(useTwoFactorStore.getState().status).toMatchObject({
+      enabled: false,
+      recoveryCodesRemaining: 0,
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DependencyGraph, DEFAULT_CALC_SETTINGS } from "@gridspace/formula";
+import { useWhatIfStore } from "../stores/whatIfStore";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { validateDataTable } from "../utils/whatIf";
+import { cellRefToPosition } from "../utils/coordinates";
+
+const SHEET = "sheet-1";
+
+/** Write a cell the way the grid does, recalculating its dependents */
+function put(ref: string, input: string | number) {
+  const { row, col } = cellRefToPosition(ref);
+  const formulaStore = useFormulaStore.getState();
+  const cellStore = useCellStore.getState();
+  const getCellValue = (_s: string | undefined, c: number, r: number) =>
+    useCellStore.getState().getCell(SHEET, r, c)?.value ?? null;
+  const getFormula = (key: string) => {
+    const pos = cellRefToPosition(key);
+    return useCellStore.getState().getCell(SHEET, pos.row, pos.col)?.formula;
+  };
+  if (typeof input === "string" && input.startsWith("=")) {
+    formulaStore.updateDependencies(ref, input);
+    const value = formulaStore.evaluateFormula(input, getCellValue, ref);
+    cellStore.setCell(SHEET, row, col, { value, formula: input });
+  } else {
+    cellStore.setCell(SHEET, row, col, { value: input });
+  }
+  for (const [key, value] of formulaStore.recalculate(
+    ref,
+    getFormula,
+    getCellValue,
+  )) {
+    const pos = cellRefToPosition(key);
+    const cell = useCellStore.getState().getCell(SHEET, pos.row, pos.col);
+    cellStore.setCell(SHEET, pos.row, pos.col, { ...cell, value });
+  }
+}
+
+function valueOf(ref: string, sheetId = SHEET) {
+  const { row, col } = cellRefToPosition(ref);
+  return useCellStore.getState().getCell(sheetId, row, col)?.value;
+}
+
+function at(ref: string) {
+  return cellRefToPosition(ref);
+}
+
+describe("whatIfStore", () => {
+  beforeEach(() => {
+    useCellStore.setState({ cells: new Map() });
+    useWhatIfStore.setState({ scenarios: new Map(), dataTables: new Map() });
+    useSpreadsheetStore.setState({
+      activeSheetId: SHEET,
+      sheets: [
+        {
+          ...useSpreadsheetStore.getState().sheets[0],
+          id: SHEET,
+          name: "Plan",
+        },
+      ],
+    });
+    useFormulaStore.setState({
+      dependencyGraph: new DependencyGraph(),
+      formulaCache: new Map(),
+      astCache: new Map(),
+      circularRefs: new Map(),
+      calcSettings: { ...DEFAULT_CALC_SETTINGS },
+    });
+    // Price × units = revenue
+    put("B1", 10);
+    put("B2", 100);
+    put("B3", "=B1*B2");
+  });
+
+  describe("scenarios", () => {
+    it("saves current values and switches between scenarios", () => {
+      const store = useWhatIfStore.getState();
+      const base = store.addScenario(SHEET, "Base", [at("B1"), at("B2")]);
+      expect(base?.cells.map((c) => c.value)).toEqual([10, 100]);
+      expect(store.addScenario(SHEET, "base", [at("B1")])).toBeNull();
+
+      const high = store.addScenario(SHEET, "High", [at("B1"), at("B2")])!;
+      store.updateScenario(high.id, {
+        cells: [
+          { ...at("B1"), value: 12 },
+          { ...at("B2"), value: 150 },
+        ],
+      });
+
+      useWhatIfStore.getState().showScenario(high.id);
+      expect(valueOf("B1")).toBe(12);
+      expect(valueOf("B3")).toBe(1800);
+
+      useWhatIfStore.getState().showScenario(base!.id);
+      expect(valueOf("B3")).toBe(1000);
+    });
+
+    it("summarises scenarios on a new sheet", () => {
+      const store = useWhatIfStore.getState();
+      store.addScenario(SHEET, "Base", [at("B1")]);
+      const low = store.addScenario(SHEET, "Low", [at("B1")])!;
+      store.updateScenario(low.id, { cells: [{ ...at("B1"), value: 5 }] });
+
+      const summaryId = store.createScenarioSummary(SHEET, [at("B3")])!;
+
+      const sheets = useSpreadsheetStore.getState().sheets;
+      expect(sheets.find((s) => s.id === summaryId)?.name).toBe(
+        "Scenario Summary",
+      );
+      expect(valueOf("B2", summaryId)).toBe("Current Values");
+      expect(valueOf("D2", summaryId)).toBe("Low");
+      expect(valueOf("A4", summaryId)).toBe("B1");
+      expect(valueOf("D4", summaryId)).toBe(5);
+      expect(valueOf("A6", summaryId)).toBe("B3");
+      expect(valueOf("B6", summaryId)).toBe(1000);
+      expect(valueOf("D6", summaryId)).toBe(500);
+      // The source sheet and its formula cache are untouched
+      expect(valueOf("B1")).toBe(10);
+      expect(useFormulaStore.getState().formulaCache.get("B3")).toBe(1000);
+    });
+  });
+
+  describe("data tables", () => {
+    it("fills a one-variable table down a column", () => {
+      // D1 holds the output formula, C2:C4 the prices to try
+      put("D1", "=B3");
+      put("C2", 8);
+      put("C3", 9);
+      put("C4", 11);
+
+      useWhatIfStore.getState().addDataTable({
+        sheetId: SHEET,
+        startRow: 0,
+        startCol: 2,
+        endRow: 3,
+        endCol: 3,
+        rowInput: null,
+        colInput: at("B1"),
+      });
+
+      expect(valueOf("D2")).toBe(800);
+      expect(valueOf("D3")).toBe(900);
+      expect(valueOf("D4")).toBe(1100);
+      expect(valueOf("B3")).toBe(1000);
+    });
+
+    it("fills a two-variable table and recomputes it", () => {
+      // Corner formula in D6, units along the top, prices down the side
+      put("D6", "=B3");
+      put("E6", 100);
+      put("F6", 200);
+      put("D7", 1);
+      put("D8", 2);
+
+      useWhatIfStore.getState().addDataTable({
+        sheetId: SHEET,
+        startRow: 5,
+        startCol: 3,
+        endRow: 7,
+        endCol: 5,
+        rowInput: at("B2"),
+        colInput: at("B1"),
+      });
+      expect(valueOf("E7")).toBe(100);
+      expect(valueOf("F8")).toBe(400);
+
+      put("F6", 300);
+      useWhatIfStore.getState().refreshDataTables(SHEET);
+      expect(valueOf("F8")).toBe(600);
+      expect(valueOf("F7")).toBe(300);
+    });
+
+    it("explains a table that cannot be built", () => {
+      const table = {
+        sheetId: SHEET,
+        startRow: 0,
+        startCol: 2,
+        endRow: 3,
+        endCol: 3,
+        rowInput: null,
+        colInput: null,
+      };
+      expect(validateDataTable(table)).toBe(
+        "Enter a row input cell, a column input cell or both",
+      );
+      expect(validateDataTable({ ...table, colInput: at("C2") })).toBe(
+        "Input cells must be outside the data table",
+      );
+      expect(validateDataTable({ ...table, colInput: at("B3") })).toBe(
+        "Input cell B3 contains a formula",
+      );
+      expect(validateDataTable({ ...table, colInput: at("B1") })).toBe(
+        "Put the formulas in the top row of the table",
+      );
+    });
+  });
+});
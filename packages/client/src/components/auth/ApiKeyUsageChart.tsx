@@ -0,0 +1,73 @@
+/**
+ * ApiKeyUsageChart — daily requests and errors for one API key over the
+ * last 30 days, with totals and the key's rate limit.
+ */
+import { useEffect } from "react";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Bar } from "react-chartjs-2";
+import { useApiKeyStore } from "../../stores/apiKeyStore";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+export function ApiKeyUsageChart({ keyId }: { keyId: string }) {
+  const usage = useApiKeyStore((s) => s.usage[keyId]);
+
+  useEffect(() => {
+    useApiKeyStore.getState().fetchUsage(keyId);
+  }, [keyId]);
+
+  if (!usage) {
+    return (
+      <p style={{ fontSize: "13px", color: "#6b7280" }}>Loading usage...</p>
+    );
+  }
+
+  const labels = usage.daily.map((d) => d.date.slice(5));
+
+  return (
+    <div data-testid={`api-key-usage-${keyId}`}>
+      <p style={{ fontSize: "13px", color: "#374151", marginBottom: "8px" }}>
+        {usage.totals.requests} requests, {usage.totals.errors} errors in the
+        last {usage.daily.length} days · limit {usage.rateLimit}/minute
+      </p>
+      <div style={{ height: "160px" }}>
+        <Bar
+          data={{
+            labels,
+            datasets: [
+              {
+                label: "Successful",
+                data: usage.daily.map((d) => d.requests - d.errors),
+                backgroundColor: "#1a73e8",
+                stack: "requests",
+              },
+              {
+                label: "Errors",
+                data: usage.daily.map((d) => d.errors),
+                backgroundColor: "#dc2626",
+                stack: "requests",
+              },
+            ],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            plugins: { legend: { position: "bottom" } },
+            scales: {
+              x: { stacked: true, ticks: { maxTicksLimit: 10 } },
+              y: { stacked: true, beginAtZero: true, ticks: { precision: 0 } },
+            },
+          }}
+        />
+      </div>
+    </div>
+  );
+}
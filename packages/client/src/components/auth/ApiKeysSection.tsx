@@ -0,0 +1,382 @@
+/**
+ * ApiKeysSection — profile card listing the user's API keys with their
+ * scopes and pinned spreadsheets. Keys can be created (the raw key is shown
+ * once), re-scoped and revoked, and each key's daily usage can be charted.
+ */
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { API_KEY_SCOPES, useApiKeyStore } from "../../stores/apiKeyStore";
+import type { ApiKeyAccess, ApiKeyInfo } from "../../stores/apiKeyStore";
+import { ApiKeyUsageChart } from "./ApiKeyUsageChart";
+
+const ALL_SCOPES = API_KEY_SCOPES.map((s) => s.id);
+
+const defaultAccess = (): ApiKeyAccess => ({
+  scopes: [...ALL_SCOPES],
+  spreadsheetIds: [],
+});
+
+const cardStyle = {
+  marginBottom: "24px",
+  borderRadius: "12px",
+  backgroundColor: "#fff",
+  padding: "24px",
+  boxShadow: "0 1px 2px rgba(0,0,0,0.05)",
+} as const;
+
+const inputStyle = {
+  display: "block",
+  width: "100%",
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "8px 12px",
+  fontSize: "14px",
+  boxSizing: "border-box",
+} as const;
+
+const fieldLabelStyle = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#374151",
+} as const;
+
+const checkboxLabelStyle = {
+  display: "flex",
+  alignItems: "center",
+  gap: "8px",
+  fontSize: "14px",
+  color: "#374151",
+} as const;
+
+const primaryButtonStyle = {
+  borderRadius: "8px",
+  backgroundColor: "#1a73e8",
+  padding: "8px 16px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#fff",
+  border: "none",
+  cursor: "pointer",
+} as const;
+
+const secondaryButtonStyle = {
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "6px 12px",
+  fontSize: "13px",
+  fontWeight: 500,
+  color: "#374151",
+  backgroundColor: "#fff",
+  cursor: "pointer",
+} as const;
+
+function toggle<T>(list: T[], item: T, on: boolean): T[] {
+  return on ? [...list, item] : list.filter((x) => x !== item);
+}
+
+/** Scope checkboxes and spreadsheet pins, shared by create and edit */
+function AccessFields({
+  value,
+  onChange,
+  idPrefix,
+}: {
+  value: ApiKeyAccess;
+  onChange: (value: ApiKeyAccess) => void;
+  idPrefix: string;
+}) {
+  const spreadsheets = useApiKeyStore((s) => s.spreadsheets);
+  // Keep pins to spreadsheets missing from the list (e.g. no longer shared)
+  const options = [
+    ...spreadsheets,
+    ...value.spreadsheetIds
+      .filter((id) => !spreadsheets.some((s) => s.id === id))
+      .map((id) => ({ id, title: id })),
+  ];
+
+  return (
+    <div style={{ display: "flex", gap: "24px", flexWrap: "wrap" }}>
+      <fieldset style={{ border: "none", padding: 0, margin: 0 }}>
+        <legend style={fieldLabelStyle}>Scopes</legend>
+        {API_KEY_SCOPES.map((scope) => (
+          <label key={scope.id} style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={value.scopes.includes(scope.id)}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  scopes: toggle(value.scopes, scope.id, e.target.checked),
+                })
+              }
+              data-testid={`${idPrefix}-scope-${scope.id}`}
+            />
+            {scope.label}
+          </label>
+        ))}
+      </fieldset>
+      <fieldset style={{ border: "none", padding: 0, margin: 0, flex: 1 }}>
+        <legend style={fieldLabelStyle}>Spreadsheets</legend>
+        <p style={{ fontSize: "12px", color: "#6b7280", marginBottom: "4px" }}>
+          {value.spreadsheetIds.length === 0
+            ? "All spreadsheets you can access"
+            : `Only ${value.spreadsheetIds.length} selected`}
+        </p>
+        <div style={{ maxHeight: "120px", overflowY: "auto" }}>
+          {options.map((sheet) => (
+            <label key={sheet.id} style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={value.spreadsheetIds.includes(sheet.id)}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    spreadsheetIds: toggle(
+                      value.spreadsheetIds,
+                      sheet.id,
+                      e.target.checked,
+                    ),
+                  })
+                }
+                data-testid={`${idPrefix}-spreadsheet-${sheet.id}`}
+              />
+              {sheet.title}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
+
+function ApiKeyRow({ apiKey }: { apiKey: ApiKeyInfo }) {
+  const spreadsheets = useApiKeyStore((s) => s.spreadsheets);
+  const { updateKey, revokeKey } = useApiKeyStore.getState();
+  const [isEditing, setIsEditing] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [access, setAccess] = useState<ApiKeyAccess>({
+    scopes: apiKey.scopes,
+    spreadsheetIds: apiKey.spreadsheetIds,
+  });
+
+  const pinned = apiKey.spreadsheetIds.map(
+    (id) => spreadsheets.find((s) => s.id === id)?.title ?? id,
+  );
+
+  return (
+    <li
+      style={{ padding: "12px 0", borderTop: "1px solid #e5e7eb" }}
+      data-testid={`api-key-${apiKey.id}`}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <div style={{ flex: 1 }}>
+          <div style={{ fontSize: "14px", fontWeight: 500, color: "#111827" }}>
+            {apiKey.name}{" "}
+            <code style={{ fontSize: "12px", color: "#6b7280" }}>
+              {apiKey.prefix}…
+            </code>
+          </div>
+          <div style={{ fontSize: "12px", color: "#6b7280" }}>
+            {apiKey.scopes.join(", ")} ·{" "}
+            {pinned.length ? pinned.join(", ") : "All spreadsheets"}
+            {apiKey.lastUsedAt &&
+              ` · Last used ${new Date(apiKey.lastUsedAt).toLocaleDateString()}`}
+          </div>
+        </div>
+        <button
+          style={secondaryButtonStyle}
+          onClick={() => setShowUsage(!showUsage)}
+          data-testid={`api-key-usage-toggle-${apiKey.id}`}
+        >
+          {showUsage ? "Hide usage" : "Usage"}
+        </button>
+        <button
+          style={secondaryButtonStyle}
+          onClick={() => {
+            setAccess({
+              scopes: apiKey.scopes,
+              spreadsheetIds: apiKey.spreadsheetIds,
+            });
+            setIsEditing(!isEditing);
+          }}
+          data-testid={`api-key-edit-${apiKey.id}`}
+        >
+          {isEditing ? "Cancel" : "Edit"}
+        </button>
+        <button
+          style={{ ...secondaryButtonStyle, color: "#dc2626" }}
+          onClick={() => {
+            if (
+              window.confirm(
+                `Revoke "${apiKey.name}"? Apps using it will stop working.`,
+              )
+            ) {
+              revokeKey(apiKey.id);
+            }
+          }}
+          data-testid={`api-key-revoke-${apiKey.id}`}
+        >
+          Revoke
+        </button>
+      </div>
+      {showUsage && (
+        <div style={{ marginTop: "12px" }}>
+          <ApiKeyUsageChart keyId={apiKey.id} />
+        </div>
+      )}
+      {isEditing && (
+        <div style={{ marginTop: "12px" }}>
+          <AccessFields
+            value={access}
+            onChange={setAccess}
+            idPrefix={`api-key-${apiKey.id}`}
+          />
+          <button
+            style={{ ...primaryButtonStyle, marginTop: "12px" }}
+            disabled={access.scopes.length === 0}
+            onClick={async () => {
+              if (await updateKey(apiKey.id, access)) setIsEditing(false);
+            }}
+            data-testid={`api-key-save-${apiKey.id}`}
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function ApiKeysSection() {
+  const keys = useApiKeyStore((s) => s.keys);
+  const error = useApiKeyStore((s) => s.error);
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState(defaultAccess);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    const { fetchKeys, fetchSpreadsheets } = useApiKeyStore.getState();
+    fetchKeys();
+    fetchSpreadsheets();
+  }, []);
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setIsCreating(true);
+    const key = await useApiKeyStore.getState().createKey(name, access);
+    setIsCreating(false);
+    if (!key) return;
+    setNewKey(key);
+    setName("");
+    setAccess(defaultAccess());
+  }
+
+  return (
+    <div
+      className="mb-6 rounded-xl bg-white p-6 shadow-sm"
+      style={cardStyle}
+      data-testid="api-keys-section"
+    >
+      <h2
+        className="mb-2 text-lg font-semibold text-gray-900"
+        style={{
+          marginBottom: "8px",
+          fontSize: "18px",
+          fontWeight: 600,
+          color: "#111827",
+        }}
+      >
+        API Keys
+      </h2>
+      <p
+        className="mb-4 text-sm text-gray-500"
+        style={{ marginBottom: "16px", fontSize: "14px", color: "#6b7280" }}
+      >
+        Keys authenticate the public API with the X-API-Key header. Grant only
+        the scopes an integration needs, and pin it to specific spreadsheets
+        where you can.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: "16px",
+            borderRadius: "8px",
+            padding: "12px",
+            fontSize: "14px",
+            backgroundColor: "#fef2f2",
+            color: "#b91c1c",
+          }}
+          data-testid="api-keys-error"
+        >
+          {error}
+        </div>
+      )}
+
+      {newKey && (
+        <div
+          style={{
+            marginBottom: "16px",
+            borderRadius: "8px",
+            padding: "12px",
+            fontSize: "14px",
+            backgroundColor: "#f0fdf4",
+            color: "#15803d",
+          }}
+          data-testid="api-key-created"
+        >
+          Copy your new key now — it won't be shown again.
+          <code
+            style={{
+              display: "block",
+              marginTop: "8px",
+              wordBreak: "break-all",
+              color: "#111827",
+            }}
+          >
+            {newKey}
+          </code>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} style={{ marginBottom: "16px" }}>
+        <label htmlFor="api-key-name" style={fieldLabelStyle}>
+          New key name
+        </label>
+        <input
+          id="api-key-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={100}
+          style={{ ...inputStyle, marginBottom: "12px" }}
+          data-testid="api-key-name"
+        />
+        <AccessFields value={access} onChange={setAccess} idPrefix="new-key" />
+        <button
+          type="submit"
+          disabled={isCreating || access.scopes.length === 0}
+          style={{
+            ...primaryButtonStyle,
+            marginTop: "12px",
+            opacity: isCreating ? 0.5 : 1,
+          }}
+          data-testid="api-key-create"
+        >
+          {isCreating ? "Creating..." : "Create key"}
+        </button>
+      </form>
+
+      {keys.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {keys.map((key) => (
+            <ApiKeyRow key={key.id} apiKey={key} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import type { ReactNode } from "react";
+import { GridSpaceLogo } from "../ui/GridSpaceLogo";
+
+/** Centered logo card used by the reset-password and verify-email pages */
+export function AuthCard({
+  title,
+  subtitle,
+  titleTestId,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  titleTestId?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      className="flex min-h-screen flex-col items-center justify-center bg-gray-50 p-4"
+      style={{
+        display: "flex",
+        minHeight: "100vh",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        backgroundColor: "#f9fafb",
+        padding: "16px",
+      }}
+    >
+      <div
+        className="w-full max-w-md rounded-xl bg-white p-8 shadow-lg"
+        style={{
+          width: "100%",
+          maxWidth: "448px",
+          borderRadius: "12px",
+          backgroundColor: "#fff",
+          padding: "32px",
+          boxShadow:
+            "0 10px 15px -3px rgba(0,0,0,0.1), 0 4px 6px -4px rgba(0,0,0,0.1)",
+        }}
+      >
+        <div
+          className="mb-8 text-center"
+          style={{ marginBottom: "32px", textAlign: "center" }}
+        >
+          <div
+            className="mb-4 flex items-center justify-center gap-2"
+            style={{
+              marginBottom: "16px",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              gap: "8px",
+            }}
+          >
+            <GridSpaceLogo size={36} />
+            <span
+              className="text-2xl font-bold text-[#1a73e8]"
+              style={{ fontSize: "24px", fontWeight: 700, color: "#1a73e8" }}
+            >
+              GridSpace
+            </span>
+          </div>
+          <h1
+            className="text-2xl font-bold text-gray-900"
+            style={{ fontSize: "24px", fontWeight: 700, color: "#111827" }}
+            data-testid={titleTestId}
+          >
+            {title}
+          </h1>
+          {subtitle && (
+            <p
+              className="mt-2 text-sm text-gray-500"
+              style={{ marginTop: "8px", fontSize: "14px", color: "#6b7280" }}
+            >
+              {subtitle}
+            </p>
+          )}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export const authLinkButtonStyle = {
+  display: "inline-block",
+  borderRadius: "8px",
+  backgroundColor: "#1a73e8",
+  padding: "10px 24px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#fff",
+  textDecoration: "none",
+} as const;
+
+export const authErrorStyle = {
+  marginBottom: "16px",
+  borderRadius: "8px",
+  backgroundColor: "#fef2f2",
+  padding: "12px",
+  fontSize: "14px",
+  color: "#b91c1c",
+} as const;
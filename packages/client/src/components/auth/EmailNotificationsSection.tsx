@@ -0,0 +1,195 @@
+/**
+ * EmailNotificationsSection — profile card for email verification and
+ * which notifications are emailed, either one by one or as a digest.
+ */
+import { useEffect, useState } from "react";
+import { api } from "../../services/api";
+import { useAuthStore } from "../../stores/authStore";
+import { useNotificationStore } from "../../stores/notificationStore";
+import type {
+  EmailDigestMode,
+  NotificationPreferences,
+} from "../../stores/notificationStore";
+
+const EMAIL_TOGGLES: Array<{
+  key: "emailSharing" | "emailMentions" | "emailComments";
+  label: string;
+}> = [
+  { key: "emailSharing", label: "Someone shares a spreadsheet with me" },
+  { key: "emailMentions", label: "Someone @mentions me in a comment" },
+  { key: "emailComments", label: "Someone replies to a thread I'm in" },
+];
+
+const DIGEST_OPTIONS: Array<{ value: EmailDigestMode; label: string }> = [
+  { value: "off", label: "Send each email right away" },
+  { value: "hourly", label: "Hourly digest" },
+  { value: "daily", label: "Daily digest" },
+];
+
+const cardStyle = {
+  marginBottom: "24px",
+  borderRadius: "12px",
+  backgroundColor: "#fff",
+  padding: "24px",
+  boxShadow: "0 1px 2px rgba(0,0,0,0.05)",
+} as const;
+
+const checkboxLabelStyle = {
+  display: "flex",
+  alignItems: "center",
+  gap: "8px",
+  fontSize: "14px",
+  color: "#374151",
+} as const;
+
+const secondaryButtonStyle = {
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "6px 12px",
+  fontSize: "13px",
+  fontWeight: 500,
+  color: "#374151",
+  backgroundColor: "#fff",
+  cursor: "pointer",
+} as const;
+
+export function EmailNotificationsSection() {
+  const user = useAuthStore((s) => s.user);
+  const preferences = useNotificationStore((s) => s.preferences);
+  const savePreferences = useNotificationStore((s) => s.savePreferences);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    useNotificationStore.getState().fetchPreferences();
+  }, []);
+
+  async function save(changes: Partial<NotificationPreferences>) {
+    setMessage(null);
+    if (!(await savePreferences(changes))) {
+      setMessage("Failed to save notification settings");
+    }
+  }
+
+  async function resendVerification() {
+    setIsResending(true);
+    setMessage(null);
+    try {
+      await api.post("/users/me/verify-email");
+      setMessage(`Verification email sent to ${user?.email}`);
+    } catch (err) {
+      setMessage(
+        err instanceof Error ? err.message : "Failed to send verification",
+      );
+    } finally {
+      setIsResending(false);
+    }
+  }
+
+  const anyEmail = EMAIL_TOGGLES.some(({ key }) => preferences[key]);
+
+  return (
+    <div style={cardStyle} data-testid="email-notifications-section">
+      <h2
+        style={{
+          marginBottom: "8px",
+          fontSize: "18px",
+          fontWeight: 600,
+          color: "#111827",
+        }}
+      >
+        Email notifications
+      </h2>
+
+      {user && !user.emailVerified && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "12px",
+            marginBottom: "16px",
+            borderRadius: "8px",
+            backgroundColor: "#fffbeb",
+            padding: "12px",
+            fontSize: "14px",
+            color: "#92400e",
+          }}
+          data-testid="email-unverified"
+        >
+          <span style={{ flex: 1 }}>
+            Your email address hasn&apos;t been verified yet.
+          </span>
+          <button
+            style={secondaryButtonStyle}
+            disabled={isResending}
+            onClick={resendVerification}
+            data-testid="email-resend-verification"
+          >
+            {isResending ? "Sending..." : "Resend link"}
+          </button>
+        </div>
+      )}
+
+      <p style={{ marginBottom: "12px", fontSize: "14px", color: "#6b7280" }}>
+        Email me when:
+      </p>
+      <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+        {EMAIL_TOGGLES.map(({ key, label }) => (
+          <label key={key} style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={preferences[key]}
+              onChange={(e) => save({ [key]: e.target.checked })}
+              data-testid={`email-pref-${key}`}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <label
+        htmlFor="email-digest"
+        style={{
+          display: "block",
+          marginTop: "16px",
+          marginBottom: "4px",
+          fontSize: "14px",
+          fontWeight: 500,
+          color: "#374151",
+        }}
+      >
+        Delivery
+      </label>
+      <select
+        id="email-digest"
+        value={preferences.emailDigest}
+        disabled={!anyEmail}
+        onChange={(e) =>
+          save({ emailDigest: e.target.value as EmailDigestMode })
+        }
+        style={{
+          borderRadius: "8px",
+          border: "1px solid #d1d5db",
+          padding: "8px 12px",
+          fontSize: "14px",
+        }}
+        data-testid="email-digest"
+      >
+        {DIGEST_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {message && (
+        <p
+          style={{ marginTop: "12px", fontSize: "14px", color: "#374151" }}
+          data-testid="email-notifications-message"
+        >
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
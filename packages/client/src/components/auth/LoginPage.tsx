@@ -1,21 +1,38 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import type { FormEvent } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuthStore } from "../../stores/authStore";
 import { GridSpaceLogo } from "../ui/GridSpaceLogo";
+import { TwoFactorChallengeForm } from "./TwoFactorChallengeForm";
 
 export default function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
-  const { login, isLoading, error, clearError } = useAuthStore();
+  const {
+    login,
+    isLoading,
+    error,
+    clearError,
+    twoFactorChallenge,
+    setTwoFactorChallenge,
+  } = useAuthStore();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // OAuth sign-ins for 2FA accounts come back with ?challenge=<token>
+  useEffect(() => {
+    const challenge = searchParams.get("challenge");
+    if (challenge) {
+      setTwoFactorChallenge(challenge);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams, setTwoFactorChallenge]);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     try {
-      await login(email, password);
-      navigate("/dashboard");
+      if (await login(email, password)) navigate("/dashboard");
     } catch {
       // Error is set in the store
     }
@@ -224,314 +241,324 @@ export default function LoginPage() {
             </div>
           )}
 
-          <form
-            onSubmit={handleSubmit}
-            className="space-y-5"
-            style={{ display: "flex", flexDirection: "column", gap: "20px" }}
-          >
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700"
+          {twoFactorChallenge ? (
+            <TwoFactorChallengeForm onSuccess={() => navigate("/dashboard")} />
+          ) : (
+            <>
+              <form
+                onSubmit={handleSubmit}
+                className="space-y-5"
                 style={{
-                  display: "block",
-                  fontSize: "14px",
-                  fontWeight: 500,
-                  color: "#374151",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "20px",
                 }}
               >
-                Email address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                data-testid="login-email"
-                className="mt-1.5 block w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 transition-colors focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8] [&:-webkit-autofill]:shadow-[inset_0_0_0_9999px_white]"
-                style={{ padding: "12px 16px" }}
-                placeholder="you@example.com"
-              />
-            </div>
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-gray-700"
+                    style={{
+                      display: "block",
+                      fontSize: "14px",
+                      fontWeight: 500,
+                      color: "#374151",
+                    }}
+                  >
+                    Email address
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    data-testid="login-email"
+                    className="mt-1.5 block w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 transition-colors focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8] [&:-webkit-autofill]:shadow-[inset_0_0_0_9999px_white]"
+                    style={{ padding: "12px 16px" }}
+                    placeholder="you@example.com"
+                  />
+                </div>
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700"
-                style={{
-                  display: "block",
-                  fontSize: "14px",
-                  fontWeight: 500,
-                  color: "#374151",
-                }}
-              >
-                Password
-              </label>
-              <div className="relative mt-1.5">
-                <input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  minLength={8}
-                  data-testid="login-password"
-                  className="block w-full rounded-lg border border-gray-300 px-4 py-3 pr-12 text-gray-900 placeholder-gray-400 transition-colors focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8] [&:-webkit-autofill]:shadow-[inset_0_0_0_9999px_white]"
-                  style={{ padding: "12px 48px 12px 16px" }}
-                  placeholder="Enter your password"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                  tabIndex={-1}
-                >
-                  {showPassword ? (
-                    <svg
-                      width="20"
-                      height="20"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    >
-                      <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94" />
-                      <path d="M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19" />
-                      <line x1="1" y1="1" x2="23" y2="23" />
-                      <path d="M14.12 14.12a3 3 0 1 1-4.24-4.24" />
-                    </svg>
-                  ) : (
-                    <svg
-                      width="20"
-                      height="20"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700"
+                    style={{
+                      display: "block",
+                      fontSize: "14px",
+                      fontWeight: 500,
+                      color: "#374151",
+                    }}
+                  >
+                    Password
+                  </label>
+                  <div className="relative mt-1.5">
+                    <input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      minLength={8}
+                      data-testid="login-password"
+                      className="block w-full rounded-lg border border-gray-300 px-4 py-3 pr-12 text-gray-900 placeholder-gray-400 transition-colors focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8] [&:-webkit-autofill]:shadow-[inset_0_0_0_9999px_white]"
+                      style={{ padding: "12px 48px 12px 16px" }}
+                      placeholder="Enter your password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                      tabIndex={-1}
                     >
-                      <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
-                      <circle cx="12" cy="12" r="3" />
-                    </svg>
-                  )}
-                </button>
-              </div>
-            </div>
+                      {showPassword ? (
+                        <svg
+                          width="20"
+                          height="20"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94" />
+                          <path d="M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19" />
+                          <line x1="1" y1="1" x2="23" y2="23" />
+                          <path d="M14.12 14.12a3 3 0 1 1-4.24-4.24" />
+                        </svg>
+                      ) : (
+                        <svg
+                          width="20"
+                          height="20"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="2"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        >
+                          <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                          <circle cx="12" cy="12" r="3" />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
+                </div>
 
-            <div
-              className="flex items-center justify-between"
-              style={{
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "space-between",
-              }}
-            >
-              <label
-                className="flex items-center gap-2"
-                style={{
-                  display: "flex",
-                  alignItems: "center",
-                  gap: "8px",
-                }}
-              >
-                <input
-                  type="checkbox"
-                  className="h-4 w-4 rounded border-gray-300 text-[#1a73e8] focus:ring-[#1a73e8]"
+                <div
+                  className="flex items-center justify-between"
                   style={{
-                    width: "16px",
-                    height: "16px",
-                    borderRadius: "4px",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
                   }}
-                />
-                <span
-                  className="text-sm text-gray-600"
-                  style={{ fontSize: "14px", color: "#4b5563" }}
                 >
-                  Remember me
-                </span>
-              </label>
-              <Link
-                to="/forgot-password"
-                className="text-sm font-medium text-[#1a73e8] hover:text-[#1557b0] transition-colors"
-                style={{
-                  fontSize: "14px",
-                  fontWeight: 500,
-                  color: "#1a73e8",
-                  textDecoration: "none",
-                }}
-                data-testid="login-forgot-link"
-              >
-                Forgot password?
-              </Link>
-            </div>
+                  <label
+                    className="flex items-center gap-2"
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "8px",
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-gray-300 text-[#1a73e8] focus:ring-[#1a73e8]"
+                      style={{
+                        width: "16px",
+                        height: "16px",
+                        borderRadius: "4px",
+                      }}
+                    />
+                    <span
+                      className="text-sm text-gray-600"
+                      style={{ fontSize: "14px", color: "#4b5563" }}
+                    >
+                      Remember me
+                    </span>
+                  </label>
+                  <Link
+                    to="/forgot-password"
+                    className="text-sm font-medium text-[#1a73e8] hover:text-[#1557b0] transition-colors"
+                    style={{
+                      fontSize: "14px",
+                      fontWeight: 500,
+                      color: "#1a73e8",
+                      textDecoration: "none",
+                    }}
+                    data-testid="login-forgot-link"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              data-testid="login-submit"
-              className="w-full rounded-lg bg-[#1a73e8] px-4 py-3 text-white font-semibold transition-colors hover:bg-[#1557b0] focus:outline-none focus:ring-2 focus:ring-[#1a73e8] focus:ring-offset-2 disabled:opacity-50"
-              style={{
-                padding: "12px 16px",
-                borderRadius: "8px",
-                backgroundColor: "#1a73e8",
-                color: "#fff",
-                fontWeight: 600,
-                fontSize: "14px",
-                border: "none",
-                cursor: isLoading ? "not-allowed" : "pointer",
-                opacity: isLoading ? 0.5 : 1,
-              }}
-            >
-              {isLoading ? "Signing in..." : "Sign in"}
-            </button>
-          </form>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  data-testid="login-submit"
+                  className="w-full rounded-lg bg-[#1a73e8] px-4 py-3 text-white font-semibold transition-colors hover:bg-[#1557b0] focus:outline-none focus:ring-2 focus:ring-[#1a73e8] focus:ring-offset-2 disabled:opacity-50"
+                  style={{
+                    padding: "12px 16px",
+                    borderRadius: "8px",
+                    backgroundColor: "#1a73e8",
+                    color: "#fff",
+                    fontWeight: 600,
+                    fontSize: "14px",
+                    border: "none",
+                    cursor: isLoading ? "not-allowed" : "pointer",
+                    opacity: isLoading ? 0.5 : 1,
+                  }}
+                >
+                  {isLoading ? "Signing in..." : "Sign in"}
+                </button>
+              </form>
 
-          <div
-            className="mt-8 space-y-4"
-            style={{
-              marginTop: "32px",
-              display: "flex",
-              flexDirection: "column",
-              gap: "16px",
-            }}
-          >
-            <div className="relative" style={{ position: "relative" }}>
               <div
-                className="absolute inset-0 flex items-center"
+                className="mt-8 space-y-4"
                 style={{
-                  position: "absolute",
-                  inset: 0,
+                  marginTop: "32px",
                   display: "flex",
-                  alignItems: "center",
+                  flexDirection: "column",
+                  gap: "16px",
                 }}
               >
+                <div className="relative" style={{ position: "relative" }}>
+                  <div
+                    className="absolute inset-0 flex items-center"
+                    style={{
+                      position: "absolute",
+                      inset: 0,
+                      display: "flex",
+                      alignItems: "center",
+                    }}
+                  >
+                    <div
+                      className="w-full border-t border-gray-200"
+                      style={{ width: "100%", borderTop: "1px solid #e5e7eb" }}
+                    />
+                  </div>
+                  <div
+                    className="relative flex justify-center text-sm"
+                    style={{
+                      position: "relative",
+                      display: "flex",
+                      justifyContent: "center",
+                      fontSize: "14px",
+                    }}
+                  >
+                    <span
+                      className="bg-white px-4 text-gray-400"
+                      style={{
+                        backgroundColor: "#fff",
+                        padding: "0 16px",
+                        color: "#9ca3af",
+                      }}
+                    >
+                      Or continue with
+                    </span>
+                  </div>
+                </div>
+
                 <div
-                  className="w-full border-t border-gray-200"
-                  style={{ width: "100%", borderTop: "1px solid #e5e7eb" }}
-                />
-              </div>
-              <div
-                className="relative flex justify-center text-sm"
-                style={{
-                  position: "relative",
-                  display: "flex",
-                  justifyContent: "center",
-                  fontSize: "14px",
-                }}
-              >
-                <span
-                  className="bg-white px-4 text-gray-400"
+                  className="grid grid-cols-2 gap-3"
                   style={{
-                    backgroundColor: "#fff",
-                    padding: "0 16px",
-                    color: "#9ca3af",
+                    display: "grid",
+                    gridTemplateColumns: "1fr 1fr",
+                    gap: "12px",
                   }}
                 >
-                  Or continue with
-                </span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      window.location.href = "/api/auth/oauth/google";
+                    }}
+                    data-testid="login-google"
+                    className="flex items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1a73e8] focus:ring-offset-2"
+                    style={{
+                      padding: "12px 16px",
+                      borderRadius: "8px",
+                      border: "1px solid #d1d5db",
+                      fontSize: "14px",
+                      fontWeight: 500,
+                    }}
+                  >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none">
+                      <path
+                        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.1z"
+                        fill="#4285F4"
+                      />
+                      <path
+                        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                        fill="#34A853"
+                      />
+                      <path
+                        d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                        fill="#FBBC05"
+                      />
+                      <path
+                        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                        fill="#EA4335"
+                      />
+                    </svg>
+                    Google
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      window.location.href = "/api/auth/oauth/github";
+                    }}
+                    data-testid="login-github"
+                    className="flex items-center justify-center gap-2 rounded-lg bg-[#24292e] px-4 py-3 text-sm font-medium text-white transition-colors hover:bg-[#1b1f23] focus:outline-none focus:ring-2 focus:ring-[#24292e] focus:ring-offset-2"
+                    style={{
+                      padding: "12px 16px",
+                      borderRadius: "8px",
+                      backgroundColor: "#24292e",
+                      fontSize: "14px",
+                      fontWeight: 500,
+                      color: "#fff",
+                      border: "none",
+                    }}
+                  >
+                    <svg
+                      width="18"
+                      height="18"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                    >
+                      <path d="M12 0C5.37 0 0 5.37 0 12c0 5.31 3.435 9.795 8.205 11.385.6.105.825-.255.825-.57 0-.285-.015-1.23-.015-2.235-3.015.555-3.795-.735-4.035-1.41-.135-.345-.72-1.41-1.23-1.695-.42-.225-1.02-.78-.015-.795.945-.015 1.62.87 1.845 1.23 1.08 1.815 2.805 1.305 3.495.99.105-.78.42-1.305.765-1.605-2.67-.3-5.46-1.335-5.46-5.925 0-1.305.465-2.385 1.23-3.225-.12-.3-.54-1.53.12-3.18 0 0 1.005-.315 3.3 1.23.96-.27 1.98-.405 3-.405s2.04.135 3 .405c2.295-1.56 3.3-1.23 3.3-1.23.66 1.65.24 2.88.12 3.18.765.84 1.23 1.905 1.23 3.225 0 4.605-2.805 5.625-5.475 5.925.435.375.81 1.095.81 2.22 0 1.605-.015 2.895-.015 3.3 0 .315.225.69.825.57A12.02 12.02 0 0 0 24 12c0-6.63-5.37-12-12-12z" />
+                    </svg>
+                    GitHub
+                  </button>
+                </div>
               </div>
-            </div>
 
-            <div
-              className="grid grid-cols-2 gap-3"
-              style={{
-                display: "grid",
-                gridTemplateColumns: "1fr 1fr",
-                gap: "12px",
-              }}
-            >
-              <button
-                type="button"
-                onClick={() => {
-                  window.location.href = "/api/auth/oauth/google";
-                }}
-                data-testid="login-google"
-                className="flex items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1a73e8] focus:ring-offset-2"
+              <p
+                className="mt-8 text-center text-sm text-gray-500"
                 style={{
-                  padding: "12px 16px",
-                  borderRadius: "8px",
-                  border: "1px solid #d1d5db",
+                  marginTop: "32px",
+                  textAlign: "center",
                   fontSize: "14px",
-                  fontWeight: 500,
+                  color: "#6b7280",
                 }}
               >
-                <svg width="18" height="18" viewBox="0 0 24 24" fill="none">
-                  <path
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.1z"
-                    fill="#4285F4"
-                  />
-                  <path
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                    fill="#34A853"
-                  />
-                  <path
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                    fill="#FBBC05"
-                  />
-                  <path
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                    fill="#EA4335"
-                  />
-                </svg>
-                Google
-              </button>
-              <button
-                type="button"
-                onClick={() => {
-                  window.location.href = "/api/auth/oauth/github";
-                }}
-                data-testid="login-github"
-                className="flex items-center justify-center gap-2 rounded-lg bg-[#24292e] px-4 py-3 text-sm font-medium text-white transition-colors hover:bg-[#1b1f23] focus:outline-none focus:ring-2 focus:ring-[#24292e] focus:ring-offset-2"
-                style={{
-                  padding: "12px 16px",
-                  borderRadius: "8px",
-                  backgroundColor: "#24292e",
-                  fontSize: "14px",
-                  fontWeight: 500,
-                  color: "#fff",
-                  border: "none",
-                }}
-              >
-                <svg
-                  width="18"
-                  height="18"
-                  viewBox="0 0 24 24"
-                  fill="currentColor"
+                Don&apos;t have an account?{" "}
+                <Link
+                  to="/register"
+                  className="font-medium text-[#1a73e8] hover:text-[#1557b0] transition-colors"
+                  style={{
+                    fontWeight: 500,
+                    color: "#1a73e8",
+                    textDecoration: "none",
+                  }}
+                  data-testid="login-register-link"
                 >
-                  <path d="M12 0C5.37 0 0 5.37 0 12c0 5.31 3.435 9.795 8.205 11.385.6.105.825-.255.825-.57 0-.285-.015-1.23-.015-2.235-3.015.555-3.795-.735-4.035-1.41-.135-.345-.72-1.41-1.23-1.695-.42-.225-1.02-.78-.015-.795.945-.015 1.62.87 1.845 1.23 1.08 1.815 2.805 1.305 3.495.99.105-.78.42-1.305.765-1.605-2.67-.3-5.46-1.335-5.46-5.925 0-1.305.465-2.385 1.23-3.225-.12-.3-.54-1.53.12-3.18 0 0 1.005-.315 3.3 1.23.96-.27 1.98-.405 3-.405s2.04.135 3 .405c2.295-1.56 3.3-1.23 3.3-1.23.66 1.65.24 2.88.12 3.18.765.84 1.23 1.905 1.23 3.225 0 4.605-2.805 5.625-5.475 5.925.435.375.81 1.095.81 2.22 0 1.605-.015 2.895-.015 3.3 0 .315.225.69.825.57A12.02 12.02 0 0 0 24 12c0-6.63-5.37-12-12-12z" />
-                </svg>
-                GitHub
-              </button>
-            </div>
-          </div>
-
-          <p
-            className="mt-8 text-center text-sm text-gray-500"
-            style={{
-              marginTop: "32px",
-              textAlign: "center",
-              fontSize: "14px",
-              color: "#6b7280",
-            }}
-          >
-            Don&apos;t have an account?{" "}
-            <Link
-              to="/register"
-              className="font-medium text-[#1a73e8] hover:text-[#1557b0] transition-colors"
-              style={{
-                fontWeight: 500,
-                color: "#1a73e8",
-                textDecoration: "none",
-              }}
-              data-testid="login-register-link"
-            >
-              Sign up
-            </Link>
-          </p>
+                  Sign up
+                </Link>
+              </p>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -2,8 +2,13 @@ import { useState } from "react";
 import type { FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuthStore } from "../../stores/authStore";
-import { api } from "../../services/api";
+import { api, setAccessToken } from "../../services/api";
 import { GridSpaceLogo } from "../ui/GridSpaceLogo";
+import { ApiKeysSection } from "./ApiKeysSection";
+import { EmailNotificationsSection } from "./EmailNotificationsSection";
+import { TwoFactorSection } from "./TwoFactorSection";
+import { SessionsSection } from "./SessionsSection";
+import { useSessionStore } from "../../stores/sessionStore";
 
 interface UserProfile {
   id: string;
@@ -49,10 +54,16 @@ export default function ProfilePage() {
     setPasswordMessage(null);
 
     try {
-      await api.put("/users/me/password", {
-        currentPassword,
-        newPassword,
-      });
+      // Other sessions are signed out; this one continues on a new token
+      const { accessToken } = await api.put<{ accessToken: string }>(
+        "/users/me/password",
+        {
+          currentPassword,
+          newPassword,
+        },
+      );
+      setAccessToken(accessToken);
+      useSessionStore.getState().fetchSessions();
       setPasswordMessage("Password changed");
       setCurrentPassword("");
       setNewPassword("");
@@ -527,6 +538,14 @@ export default function ProfilePage() {
           </form>
         </div>
 
+        <TwoFactorSection />
+
+        <SessionsSection />
+
+        <EmailNotificationsSection />
+
+        <ApiKeysSection />
+
         {/* Account Card — Sign Out */}
         <div
           className="mb-6 rounded-xl bg-white p-6 shadow-sm"
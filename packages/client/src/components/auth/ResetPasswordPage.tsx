@@ -0,0 +1,147 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { api } from "../../services/api";
+import { AuthCard, authErrorStyle, authLinkButtonStyle } from "./AuthCard";
+
+const inputStyle = {
+  marginTop: "6px",
+  display: "block",
+  width: "100%",
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "12px 16px",
+  fontSize: "14px",
+  color: "#111827",
+  boxSizing: "border-box",
+} as const;
+
+const labelStyle = {
+  display: "block",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#374151",
+} as const;
+
+/** Landing page for the link in the password reset email */
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(
+    token ? null : "This reset link is missing its token",
+  );
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (password !== confirm) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await api.post("/auth/reset-password", { token, password });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (done) {
+    return (
+      <AuthCard title="Password updated" titleTestId="reset-title">
+        <div style={{ textAlign: "center" }} data-testid="reset-success">
+          <p
+            style={{ marginBottom: "24px", fontSize: "14px", color: "#4b5563" }}
+          >
+            Your password has been changed. Sign in with your new password.
+          </p>
+          <Link to="/login" style={authLinkButtonStyle}>
+            Sign in
+          </Link>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Choose a new password"
+      subtitle="Use at least 8 characters"
+      titleTestId="reset-title"
+    >
+      {error && (
+        <div style={authErrorStyle} data-testid="reset-error">
+          {error}{" "}
+          <Link to="/forgot-password" style={{ color: "#b91c1c" }}>
+            Request a new link
+          </Link>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div style={{ display: "flex", flexDirection: "column", gap: "20px" }}>
+          <div>
+            <label htmlFor="password" style={labelStyle}>
+              New password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={8}
+              autoComplete="new-password"
+              style={inputStyle}
+              data-testid="reset-password"
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm" style={labelStyle}>
+              Confirm password
+            </label>
+            <input
+              id="confirm"
+              type="password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              required
+              minLength={8}
+              autoComplete="new-password"
+              style={inputStyle}
+              data-testid="reset-confirm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading || !token}
+            data-testid="reset-submit"
+            style={{
+              width: "100%",
+              borderRadius: "8px",
+              backgroundColor: "#1a73e8",
+              padding: "12px 16px",
+              color: "#fff",
+              fontWeight: 600,
+              fontSize: "14px",
+              border: "none",
+              cursor: isLoading || !token ? "not-allowed" : "pointer",
+              opacity: isLoading || !token ? 0.5 : 1,
+            }}
+          >
+            {isLoading ? "Saving..." : "Set new password"}
+          </button>
+        </div>
+      </form>
+    </AuthCard>
+  );
+}
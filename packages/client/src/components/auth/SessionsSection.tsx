@@ -0,0 +1,150 @@
+/**
+ * SessionsSection — profile card listing the devices signed in to the
+ * account, with where and when each was last used. Any session other than
+ * this one can be signed out.
+ */
+import { useEffect } from "react";
+import { useSessionStore } from "../../stores/sessionStore";
+import type { SessionInfo } from "../../stores/sessionStore";
+
+const cardStyle = {
+  marginBottom: "24px",
+  borderRadius: "12px",
+  backgroundColor: "#fff",
+  padding: "24px",
+  boxShadow: "0 1px 2px rgba(0,0,0,0.05)",
+} as const;
+
+const secondaryButtonStyle = {
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "6px 12px",
+  fontSize: "13px",
+  fontWeight: 500,
+  color: "#dc2626",
+  backgroundColor: "#fff",
+  cursor: "pointer",
+} as const;
+
+function formatLastSeen(iso: string): string {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+function SessionRow({ session }: { session: SessionInfo }) {
+  return (
+    <li
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        padding: "12px 0",
+        borderTop: "1px solid #e5e7eb",
+      }}
+      data-testid={`session-${session.id}`}
+    >
+      <div style={{ flex: 1 }}>
+        <div style={{ fontSize: "14px", fontWeight: 500, color: "#111827" }}>
+          {session.device}
+          {session.current && (
+            <span
+              style={{
+                marginLeft: "8px",
+                borderRadius: "9999px",
+                padding: "2px 8px",
+                fontSize: "12px",
+                backgroundColor: "#e8f0fe",
+                color: "#1a73e8",
+              }}
+            >
+              This device
+            </span>
+          )}
+        </div>
+        <div style={{ fontSize: "12px", color: "#6b7280" }}>
+          {session.ip ?? "Unknown location"} ·{" "}
+          {session.current
+            ? "Active now"
+            : `Last active ${formatLastSeen(session.lastSeenAt)}`}{" "}
+          · Signed in {new Date(session.createdAt).toLocaleDateString()}
+        </div>
+      </div>
+      {!session.current && (
+        <button
+          style={secondaryButtonStyle}
+          onClick={() => useSessionStore.getState().revokeSession(session.id)}
+          data-testid={`session-revoke-${session.id}`}
+        >
+          Sign out
+        </button>
+      )}
+    </li>
+  );
+}
+
+export function SessionsSection() {
+  const sessions = useSessionStore((s) => s.sessions);
+  const isLoading = useSessionStore((s) => s.isLoading);
+  const error = useSessionStore((s) => s.error);
+
+  useEffect(() => {
+    useSessionStore.getState().fetchSessions();
+  }, []);
+
+  return (
+    <div
+      className="mb-6 rounded-xl bg-white p-6 shadow-sm"
+      style={cardStyle}
+      data-testid="sessions-section"
+    >
+      <h2
+        className="mb-2 text-lg font-semibold text-gray-900"
+        style={{
+          marginBottom: "8px",
+          fontSize: "18px",
+          fontWeight: 600,
+          color: "#111827",
+        }}
+      >
+        Sessions
+      </h2>
+      <p
+        className="mb-4 text-sm text-gray-500"
+        style={{ marginBottom: "16px", fontSize: "14px", color: "#6b7280" }}
+      >
+        Devices signed in to your account. Sign out any you don't recognize,
+        then change your password.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: "16px",
+            borderRadius: "8px",
+            padding: "12px",
+            fontSize: "14px",
+            backgroundColor: "#fef2f2",
+            color: "#b91c1c",
+          }}
+          data-testid="sessions-error"
+        >
+          {error}
+        </div>
+      )}
+
+      {isLoading && sessions.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#6b7280" }}>Loading...</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {sessions.map((session) => (
+            <SessionRow key={session.id} session={session} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * TwoFactorChallengeForm — second sign-in step for accounts with 2FA.
+ * Takes a 6-digit authenticator code, or a recovery code if the user has
+ * lost their device.
+ */
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAuthStore } from "../../stores/authStore";
+
+export function TwoFactorChallengeForm({
+  onSuccess,
+}: {
+  onSuccess: () => void;
+}) {
+  const { verifyTwoFactor, setTwoFactorChallenge, isLoading } = useAuthStore();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    try {
+      await verifyTwoFactor(code.trim());
+      onSuccess();
+    } catch {
+      // Error is set in the store
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ display: "flex", flexDirection: "column", gap: "20px" }}
+      data-testid="login-2fa-form"
+    >
+      <div>
+        <label
+          htmlFor="two-factor-code"
+          className="block text-sm font-medium text-gray-700"
+          style={{
+            display: "block",
+            fontSize: "14px",
+            fontWeight: 500,
+            color: "#374151",
+          }}
+        >
+          {useRecoveryCode ? "Recovery code" : "Authentication code"}
+        </label>
+        <p
+          className="mt-1 text-sm text-gray-500"
+          style={{ marginTop: "4px", fontSize: "14px", color: "#6b7280" }}
+        >
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+        <input
+          id="two-factor-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          maxLength={useRecoveryCode ? 20 : 6}
+          data-testid="login-2fa-code"
+          className="mt-1.5 block w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 transition-colors focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8]"
+          style={{ padding: "12px 16px", letterSpacing: "2px" }}
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        data-testid="login-2fa-submit"
+        className="w-full rounded-lg bg-[#1a73e8] px-4 py-3 text-white font-semibold transition-colors hover:bg-[#1557b0] disabled:opacity-50"
+        style={{
+          padding: "12px 16px",
+          borderRadius: "8px",
+          backgroundColor: "#1a73e8",
+          color: "#fff",
+          fontWeight: 600,
+          fontSize: "14px",
+          border: "none",
+          cursor: isLoading ? "not-allowed" : "pointer",
+          opacity: isLoading ? 0.5 : 1,
+        }}
+      >
+        {isLoading ? "Verifying..." : "Verify"}
+      </button>
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: "14px",
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+          style={{
+            background: "none",
+            border: "none",
+            padding: 0,
+            color: "#1a73e8",
+            fontWeight: 500,
+            cursor: "pointer",
+          }}
+          data-testid="login-2fa-toggle-recovery"
+        >
+          {useRecoveryCode
+            ? "Use authenticator app"
+            : "Use a recovery code instead"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setTwoFactorChallenge(null)}
+          style={{
+            background: "none",
+            border: "none",
+            padding: 0,
+            color: "#6b7280",
+            cursor: "pointer",
+          }}
+          data-testid="login-2fa-cancel"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
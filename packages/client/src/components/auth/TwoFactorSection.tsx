@@ -0,0 +1,364 @@
+/**
+ * TwoFactorSection — profile card for TOTP two-factor authentication.
+ * Enrolment shows a QR code (and the secret for manual entry), confirms a
+ * code from the app, then shows the recovery codes once. Turning 2FA off
+ * or replacing recovery codes asks for the password again.
+ */
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { useTwoFactorStore } from "../../stores/twoFactorStore";
+
+const cardStyle = {
+  marginBottom: "24px",
+  borderRadius: "12px",
+  backgroundColor: "#fff",
+  padding: "24px",
+  boxShadow: "0 1px 2px rgba(0,0,0,0.05)",
+} as const;
+
+const inputStyle = {
+  display: "block",
+  width: "100%",
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "8px 12px",
+  fontSize: "14px",
+  boxSizing: "border-box",
+} as const;
+
+const fieldLabelStyle = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#374151",
+} as const;
+
+const primaryButtonStyle = {
+  borderRadius: "8px",
+  backgroundColor: "#1a73e8",
+  padding: "8px 16px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#fff",
+  border: "none",
+  cursor: "pointer",
+} as const;
+
+const secondaryButtonStyle = {
+  borderRadius: "8px",
+  border: "1px solid #d1d5db",
+  padding: "8px 16px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#374151",
+  backgroundColor: "#fff",
+  cursor: "pointer",
+} as const;
+
+const mutedTextStyle = {
+  marginBottom: "16px",
+  fontSize: "14px",
+  color: "#6b7280",
+} as const;
+
+function RecoveryCodes({
+  codes,
+  onDone,
+}: {
+  codes: string[];
+  onDone: () => void;
+}) {
+  return (
+    <div
+      style={{
+        marginBottom: "16px",
+        borderRadius: "8px",
+        padding: "12px",
+        fontSize: "14px",
+        backgroundColor: "#f0fdf4",
+        color: "#15803d",
+      }}
+      data-testid="2fa-recovery-codes"
+    >
+      Save these recovery codes somewhere safe — they won't be shown again. Each
+      one signs you in once if you lose your authenticator.
+      <ul
+        style={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: "4px",
+          listStyle: "none",
+          padding: 0,
+          margin: "12px 0",
+          color: "#111827",
+        }}
+      >
+        {codes.map((code) => (
+          <li key={code}>
+            <code>{code}</code>
+          </li>
+        ))}
+      </ul>
+      <div style={{ display: "flex", gap: "8px" }}>
+        <button
+          style={secondaryButtonStyle}
+          onClick={() => navigator.clipboard?.writeText(codes.join("\n"))}
+        >
+          Copy
+        </button>
+        <button
+          style={primaryButtonStyle}
+          onClick={onDone}
+          data-testid="2fa-recovery-codes-done"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Password (or a 2FA code for OAuth-only accounts) to confirm a change */
+function ConfirmForm({
+  hasPassword,
+  submitLabel,
+  danger,
+  onSubmit,
+  onCancel,
+}: {
+  hasPassword: boolean;
+  submitLabel: string;
+  danger?: boolean;
+  onSubmit: (confirmation: { password?: string; code?: string }) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState("");
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    onSubmit(hasPassword ? { password: value } : { code: value.trim() });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginTop: "16px" }}>
+      <label htmlFor="2fa-confirm" style={fieldLabelStyle}>
+        {hasPassword ? "Current password" : "Authentication or recovery code"}
+      </label>
+      <input
+        id="2fa-confirm"
+        type={hasPassword ? "password" : "text"}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        required
+        autoFocus
+        style={{ ...inputStyle, marginBottom: "12px" }}
+        data-testid="2fa-confirm-input"
+      />
+      <div style={{ display: "flex", gap: "8px" }}>
+        <button
+          type="submit"
+          style={{
+            ...primaryButtonStyle,
+            backgroundColor: danger ? "#dc2626" : "#1a73e8",
+          }}
+          data-testid="2fa-confirm-submit"
+        >
+          {submitLabel}
+        </button>
+        <button type="button" style={secondaryButtonStyle} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function TwoFactorSection() {
+  const status = useTwoFactorStore((s) => s.status);
+  const setup = useTwoFactorStore((s) => s.setup);
+  const isLoading = useTwoFactorStore((s) => s.isLoading);
+  const error = useTwoFactorStore((s) => s.error);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirming, setConfirming] = useState<"disable" | "regenerate" | null>(
+    null,
+  );
+
+  useEffect(() => {
+    useTwoFactorStore.getState().fetchStatus();
+  }, []);
+
+  async function handleEnable(e: FormEvent) {
+    e.preventDefault();
+    const codes = await useTwoFactorStore.getState().enable(code.trim());
+    if (!codes) return;
+    setCode("");
+    setRecoveryCodes(codes);
+  }
+
+  async function handleConfirm(confirmation: {
+    password?: string;
+    code?: string;
+  }) {
+    const store = useTwoFactorStore.getState();
+    if (confirming === "disable") {
+      if (await store.disable(confirmation)) setConfirming(null);
+    } else {
+      const codes = await store.regenerateRecoveryCodes(confirmation);
+      if (!codes) return;
+      setConfirming(null);
+      setRecoveryCodes(codes);
+    }
+  }
+
+  return (
+    <div
+      className="mb-6 rounded-xl bg-white p-6 shadow-sm"
+      style={cardStyle}
+      data-testid="2fa-section"
+    >
+      <h2
+        className="mb-2 text-lg font-semibold text-gray-900"
+        style={{
+          marginBottom: "8px",
+          fontSize: "18px",
+          fontWeight: 600,
+          color: "#111827",
+        }}
+      >
+        Two-Factor Authentication
+      </h2>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: "16px",
+            borderRadius: "8px",
+            padding: "12px",
+            fontSize: "14px",
+            backgroundColor: "#fef2f2",
+            color: "#b91c1c",
+          }}
+          data-testid="2fa-error"
+        >
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <RecoveryCodes
+          codes={recoveryCodes}
+          onDone={() => setRecoveryCodes(null)}
+        />
+      )}
+
+      {status?.enabled ? (
+        <>
+          <p style={mutedTextStyle} data-testid="2fa-enabled">
+            Two-factor authentication is on. You have{" "}
+            {status.recoveryCodesRemaining} recovery code
+            {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+          </p>
+          {confirming ? (
+            <ConfirmForm
+              hasPassword={status.hasPassword}
+              submitLabel={
+                confirming === "disable" ? "Turn off 2FA" : "Generate new codes"
+              }
+              danger={confirming === "disable"}
+              onSubmit={handleConfirm}
+              onCancel={() => setConfirming(null)}
+            />
+          ) : (
+            <div style={{ display: "flex", gap: "8px" }}>
+              <button
+                style={secondaryButtonStyle}
+                onClick={() => setConfirming("regenerate")}
+                data-testid="2fa-regenerate"
+              >
+                New recovery codes
+              </button>
+              <button
+                style={{ ...secondaryButtonStyle, color: "#dc2626" }}
+                onClick={() => setConfirming("disable")}
+                data-testid="2fa-disable"
+              >
+                Turn off
+              </button>
+            </div>
+          )}
+        </>
+      ) : setup ? (
+        <form onSubmit={handleEnable}>
+          <p style={mutedTextStyle}>
+            Scan this QR code with an authenticator app, then enter the 6-digit
+            code it shows.
+          </p>
+          <img
+            src={setup.qrCodeDataUrl}
+            alt="QR code for your authenticator app"
+            width={180}
+            height={180}
+            style={{ display: "block", marginBottom: "8px" }}
+            data-testid="2fa-qr"
+          />
+          <p style={{ ...mutedTextStyle, fontSize: "12px" }}>
+            Can't scan it? Enter this key instead:{" "}
+            <code style={{ color: "#111827", wordBreak: "break-all" }}>
+              {setup.secret}
+            </code>
+          </p>
+          <label htmlFor="2fa-setup-code" style={fieldLabelStyle}>
+            Verification code
+          </label>
+          <input
+            id="2fa-setup-code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            minLength={6}
+            maxLength={6}
+            style={{ ...inputStyle, marginBottom: "12px", maxWidth: "160px" }}
+            data-testid="2fa-setup-code"
+          />
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button
+              type="submit"
+              disabled={isLoading}
+              style={{ ...primaryButtonStyle, opacity: isLoading ? 0.5 : 1 }}
+              data-testid="2fa-enable"
+            >
+              {isLoading ? "Verifying..." : "Turn on"}
+            </button>
+            <button
+              type="button"
+              style={secondaryButtonStyle}
+              onClick={() => useTwoFactorStore.getState().cancelSetup()}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <p style={mutedTextStyle}>
+            Ask for a code from an authenticator app as well as your password
+            when you sign in.
+          </p>
+          <button
+            style={{ ...primaryButtonStyle, opacity: isLoading ? 0.5 : 1 }}
+            disabled={isLoading || !status}
+            onClick={() => useTwoFactorStore.getState().startSetup()}
+            data-testid="2fa-setup"
+          >
+            Set up
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { api } from "../../services/api";
+import { useAuthStore } from "../../stores/authStore";
+import { AuthCard, authErrorStyle, authLinkButtonStyle } from "./AuthCard";
+
+/** Landing page for the link in the verification email */
+export default function VerifyEmailPage() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    "verifying",
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .get(`/auth/verify-email/${encodeURIComponent(token)}`)
+      .then(() => {
+        if (cancelled) return;
+        setStatus("verified");
+        // Reflect the change if this tab is signed in
+        const { user, setUser } = useAuthStore.getState();
+        if (user) setUser({ ...user, emailVerified: true });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setStatus("failed");
+        setError(err instanceof Error ? err.message : "Verification failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (status === "verifying") {
+    return (
+      <AuthCard title="Verifying your email..." titleTestId="verify-title">
+        <p style={{ textAlign: "center", fontSize: "14px", color: "#6b7280" }}>
+          One moment.
+        </p>
+      </AuthCard>
+    );
+  }
+
+  if (status === "failed") {
+    return (
+      <AuthCard title="Verification failed" titleTestId="verify-title">
+        <div style={authErrorStyle} data-testid="verify-error">
+          {error}
+        </div>
+        <p style={{ fontSize: "14px", color: "#4b5563" }}>
+          The link may have expired. You can send a new one from your{" "}
+          <Link to="/profile" style={{ color: "#1a73e8" }}>
+            profile settings
+          </Link>
+          .
+        </p>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Email verified" titleTestId="verify-title">
+      <div style={{ textAlign: "center" }} data-testid="verify-success">
+        <p style={{ marginBottom: "24px", fontSize: "14px", color: "#4b5563" }}>
+          Thanks for confirming your email address.
+        </p>
+        <Link to="/dashboard" style={authLinkButtonStyle}>
+          Go to dashboard
+        </Link>
+      </div>
+    </AuthCard>
+  );
+}
@@ -10,16 +10,37 @@ import {
   PointElement,
   LineElement,
   ArcElement,
+  RadialLinearScale,
   Title,
   Tooltip,
   Legend,
   Filler,
 } from "chart.js";
-import { Bar, Line, Pie, Scatter } from "react-chartjs-2";
+import type { Plugin } from "chart.js";
+import {
+  Bar,
+  Bubble,
+  Doughnut,
+  Line,
+  Pie,
+  Radar,
+  Scatter,
+} from "react-chartjs-2";
 import type { ChartConfig } from "../../types/grid";
 import { useChartStore } from "../../stores/chartStore";
 import { useCellStore } from "../../stores/cellStore";
-import { extractChartData } from "../../utils/chartData";
+import {
+  DEFAULT_COLORS,
+  extractBubbles,
+  extractCandles,
+  extractChartData,
+  extractValues,
+  gaugeReading,
+  histogramBins,
+  treemapLayout,
+  waterfallSteps,
+} from "../../utils/chartData";
+import type { Candle, ChartDataset } from "../../utils/chartData";
 
 ChartJS.register(
   CategoryScale,
@@ -28,12 +49,137 @@ ChartJS.register(
   PointElement,
   LineElement,
   ArcElement,
+  RadialLinearScale,
   Title,
   Tooltip,
   Legend,
   Filler,
 );
 
+const UP_COLOR = "#34a853";
+const DOWN_COLOR = "#ea4335";
+
+/** Types drawn without x and y axes */
+const AXISLESS_TYPES = new Set(["pie", "gauge", "treemap", "radar"]);
+/** Types whose single series makes a legend noise */
+const LEGENDLESS_TYPES = new Set([
+  "histogram",
+  "waterfall",
+  "candlestick",
+  "gauge",
+]);
+
+/** Open and close ticks either side of each OHLC bar */
+function ohlcTicks(candles: Candle[]): Plugin<"bar"> {
+  return {
+    id: "ohlcTicks",
+    afterDatasetsDraw(chart) {
+      const bars = chart.getDatasetMeta(0).data;
+      const y = chart.scales.y;
+      const tick = Math.max(
+        3,
+        (chart.chartArea.width / Math.max(1, candles.length)) * 0.2,
+      );
+      const ctx = chart.ctx;
+      ctx.save();
+      ctx.lineWidth = 2;
+      candles.forEach((candle, i) => {
+        const bar = bars[i];
+        if (!bar) return;
+        ctx.strokeStyle = candle.close >= candle.open ? UP_COLOR : DOWN_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(bar.x - tick, y.getPixelForValue(candle.open));
+        ctx.lineTo(bar.x, y.getPixelForValue(candle.open));
+        ctx.moveTo(bar.x, y.getPixelForValue(candle.close));
+        ctx.lineTo(bar.x + tick, y.getPixelForValue(candle.close));
+        ctx.stroke();
+      });
+      ctx.restore();
+    },
+  };
+}
+
+function EmptyChart({ text }: { text: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        height: "100%",
+        fontSize: 12,
+        color: "#6b7280",
+      }}
+    >
+      {text}
+    </div>
+  );
+}
+
+interface TreemapChartProps {
+  chart: ChartConfig;
+  chartData: ChartDataset;
+  colors: string[];
+}
+
+/** Chart.js has no treemap, so the tiles are laid out as plain boxes */
+function TreemapChart({ chart, chartData, colors }: TreemapChartProps) {
+  const titleHeight = chart.title ? 24 : 0;
+  const width = Math.max(0, chart.size.width - 16);
+  const height = Math.max(0, chart.size.height - 16 - titleHeight);
+  const tiles = treemapLayout(
+    chartData.labels.map((label, i) => ({
+      label,
+      value: chartData.datasets[0]?.data[i] ?? 0,
+    })),
+    width,
+    height,
+  );
+
+  return (
+    <div style={{ width: "100%", height: "100%" }}>
+      {chart.title && (
+        <div
+          style={{
+            height: titleHeight,
+            textAlign: "center",
+            fontSize: 12,
+            fontWeight: 600,
+            color: "#666",
+          }}
+        >
+          {chart.title}
+        </div>
+      )}
+      <div style={{ position: "relative", width, height }}>
+        {tiles.map((tile, i) => (
+          <div
+            key={tile.label + i}
+            data-testid={`chart-treemap-tile-${i}`}
+            title={`${tile.label}: ${tile.value}`}
+            style={{
+              position: "absolute",
+              left: tile.x,
+              top: tile.y,
+              width: tile.width,
+              height: tile.height,
+              background: colors[i % colors.length],
+              border: "1px solid white",
+              boxSizing: "border-box",
+              color: "white",
+              fontSize: 11,
+              padding: 4,
+              overflow: "hidden",
+            }}
+          >
+            {tile.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 interface ChartContainerProps {
   chart: ChartConfig;
   sheetId: string;
@@ -164,7 +310,8 @@ export function ChartContainer({ chart, sheetId }: ChartContainerProps) {
           text: chart.subtitle ?? "",
         },
         legend: {
-          display: chart.showLegend !== false,
+          display:
+            chart.showLegend !== false && !LEGENDLESS_TYPES.has(chart.type),
           position: (chart.legendPosition ?? "bottom") as
             | "top"
             | "bottom"
@@ -172,9 +319,8 @@ export function ChartContainer({ chart, sheetId }: ChartContainerProps) {
             | "right",
         },
       },
-      scales:
-        chart.type !== "pie"
-          ? {
+      scales: !AXISLESS_TYPES.has(chart.type)
+        ? {
               x: {
                 title: {
                   display: !!chart.xAxisLabel,
@@ -208,7 +354,7 @@ export function ChartContainer({ chart, sheetId }: ChartContainerProps) {
           fill: false,
         };
       }
-      if (chart.type === "area") {
+      if (chart.type === "area" || chart.type === "radar") {
         return {
           ...ds,
           backgroundColor: ds.borderColor ? ds.borderColor + "40" : undefined,
@@ -239,6 +385,58 @@ export function ChartContainer({ chart, sheetId }: ChartContainerProps) {
     };
   }, [chartData, chart.type, chart.colors]);
 
+  const palette = chart.colors?.length ? chart.colors : DEFAULT_COLORS;
+
+  // Histograms count every number in the range rather than a series
+  const histogram = useMemo(
+    () =>
+      chart.type === "histogram"
+        ? histogramBins(
+            extractValues(chart.dataRange, getCellValue),
+            chart.bins,
+          )
+        : null,
+    [chart.type, chart.dataRange, chart.bins, getCellValue],
+  );
+
+  const renderCandles = () => {
+    const candles = extractCandles(chartData);
+    if (!candles) {
+      return (
+        <EmptyChart text="Select label, open, high, low and close columns" />
+      );
+    }
+    const colors = candles.map((c) =>
+      c.close >= c.open ? UP_COLOR : DOWN_COLOR,
+    );
+    const ohlc = chart.candleStyle === "ohlc";
+    const datasets = [
+      {
+        label: "Low–High",
+        data: candles.map((c): [number, number] => [c.low, c.high]),
+        backgroundColor: colors,
+        barPercentage: ohlc ? 0.08 : 0.05,
+        grouped: false,
+      },
+    ];
+    if (!ohlc) {
+      datasets.push({
+        label: "Open–Close",
+        data: candles.map((c): [number, number] => [c.open, c.close]),
+        backgroundColor: colors,
+        barPercentage: 0.6,
+        grouped: false,
+      });
+    }
+    return (
+      <Bar
+        data={{ labels: chartData.labels, datasets }}
+        options={chartOptions}
+        plugins={ohlc ? [ohlcTicks(candles)] : []}
+      />
+    );
+  };
+
   const renderChart = () => {
     switch (chart.type) {
       case "column":
@@ -260,6 +458,130 @@ export function ChartContainer({ chart, sheetId }: ChartContainerProps) {
         return <Scatter data={dataConfig} options={chartOptions} />;
       case "combo":
         return <Bar data={dataConfig} options={chartOptions} />;
+      case "histogram":
+        return (
+          <Bar
+            data={{
+              labels: histogram?.labels ?? [],
+              datasets: [
+                {
+                  label: "Count",
+                  data: histogram?.counts ?? [],
+                  backgroundColor: palette[0],
+                  borderColor: "white",
+                  borderWidth: 1,
+                  barPercentage: 1,
+                  categoryPercentage: 1,
+                },
+              ],
+            }}
+            options={chartOptions}
+          />
+        );
+      case "waterfall": {
+        const steps = waterfallSteps(
+          chartData.labels,
+          chartData.datasets[0]?.data ?? [],
+          chart.showTotal,
+        );
+        return (
+          <Bar
+            data={{
+              labels: steps.labels,
+              datasets: [
+                {
+                  label: chartData.datasets[0]?.label ?? "",
+                  data: steps.ranges,
+                  backgroundColor: steps.kinds.map((kind) =>
+                    kind === "total"
+                      ? palette[0]
+                      : kind === "increase"
+                        ? UP_COLOR
+                        : DOWN_COLOR,
+                  ),
+                },
+              ],
+            }}
+            options={chartOptions}
+          />
+        );
+      }
+      case "candlestick":
+        return renderCandles();
+      case "gauge": {
+        const { value, fraction } = gaugeReading(
+          chartData,
+          chart.gaugeMin,
+          chart.gaugeMax,
+        );
+        return (
+          <div style={{ position: "relative", width: "100%", height: "100%" }}>
+            <Doughnut
+              data={{
+                labels: ["Value", ""],
+                datasets: [
+                  {
+                    data: [fraction, 1 - fraction],
+                    backgroundColor: [palette[0], "#e5e7eb"],
+                    borderWidth: 0,
+                  },
+                ],
+              }}
+              options={{
+                ...chartOptions,
+                rotation: -90,
+                circumference: 180,
+                cutout: "70%",
+                plugins: {
+                  ...chartOptions.plugins,
+                  tooltip: { enabled: false },
+                },
+              }}
+            />
+            <div
+              data-testid={`chart-gauge-value-${chart.id}`}
+              style={{
+                position: "absolute",
+                left: 0,
+                right: 0,
+                bottom: "20%",
+                textAlign: "center",
+                fontSize: 24,
+                fontWeight: 600,
+              }}
+            >
+              {Number(value.toPrecision(6))}
+            </div>
+          </div>
+        );
+      }
+      case "treemap":
+        return (
+          <TreemapChart chart={chart} chartData={chartData} colors={palette} />
+        );
+      case "radar":
+        return (
+          <Radar
+            data={dataConfig}
+            options={{ ...chartOptions, scales: undefined }}
+          />
+        );
+      case "bubble":
+        return (
+          <Bubble
+            data={{
+              datasets: [
+                {
+                  label: chartData.datasets[2]?.label ?? "Size",
+                  data: extractBubbles(chartData),
+                  backgroundColor: palette[0] + "99",
+                  borderColor: palette[0],
+                },
+              ],
+            }}
+            options={chartOptions}
+          />
+        );
       default:
         return <Bar data={dataConfig} options={chartOptions} />;
     }
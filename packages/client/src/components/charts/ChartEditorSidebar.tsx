@@ -1,5 +1,6 @@
 /**
- * ChartEditorSidebar — edit chart type, data range, title, legend, axis labels, colors.
+ * ChartEditorSidebar — edit chart type, data range, type-specific settings,
+ * title, legend, axis labels, colors.
  */
 import { useCallback } from "react";
 import { useChartStore } from "../../stores/chartStore";
@@ -16,8 +17,34 @@ const CHART_TYPES: { value: ChartType; label: string }[] = [
   { value: "pie", label: "Pie" },
   { value: "scatter", label: "Scatter" },
   { value: "combo", label: "Combo" },
+  { value: "histogram", label: "Histogram" },
+  { value: "waterfall", label: "Waterfall" },
+  { value: "candlestick", label: "Candlestick" },
+  { value: "gauge", label: "Gauge" },
+  { value: "treemap", label: "Treemap" },
+  { value: "radar", label: "Radar" },
+  { value: "bubble", label: "Bubble" },
 ];
 
+/** How the data range is read, for types that need a particular layout */
+const DATA_HINTS: Partial<Record<ChartType, string>> = {
+  histogram: "Every number in the range is counted into bins.",
+  waterfall: "Labels, then the change for each step.",
+  candlestick: "Labels or dates, then open, high, low and close columns.",
+  gauge: "The first value is shown on the gauge.",
+  treemap: "Labels, then one column of positive sizes.",
+  bubble: "Optional labels, then x, y and size columns.",
+};
+
+const AXISLESS_TYPES: ChartType[] = ["pie", "gauge", "treemap", "radar"];
+
+/** A typed number, or undefined when the field is cleared */
+function parseOptionalNumber(text: string): number | undefined {
+  if (text.trim() === "") return undefined;
+  const n = Number(text);
+  return isNaN(n) ? undefined : n;
+}
+
 const LEGEND_POSITIONS = [
   { value: "top", label: "Top" },
   { value: "bottom", label: "Bottom" },
@@ -124,6 +151,69 @@ export function ChartEditorSidebar() {
     [chart, sheetId, updateChart],
   );
 
+  const handleBinCountChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!chart) return;
+      const count = parseOptionalNumber(e.target.value);
+      updateChart(sheetId, chart.id, {
+        bins: {
+          ...chart.bins,
+          count: count !== undefined && count >= 1 ? count : undefined,
+        },
+      });
+    },
+    [chart, sheetId, updateChart],
+  );
+
+  const handleBinWidthChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!chart) return;
+      const width = parseOptionalNumber(e.target.value);
+      updateChart(sheetId, chart.id, {
+        bins: {
+          ...chart.bins,
+          width: width !== undefined && width > 0 ? width : undefined,
+        },
+      });
+    },
+    [chart, sheetId, updateChart],
+  );
+
+  const handleShowTotalToggle = useCallback(() => {
+    if (!chart) return;
+    updateChart(sheetId, chart.id, { showTotal: !chart.showTotal });
+  }, [chart, sheetId, updateChart]);
+
+  const handleCandleStyle = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (!chart) return;
+      updateChart(sheetId, chart.id, {
+        candleStyle: e.target.value as "candlestick" | "ohlc",
+      });
+    },
+    [chart, sheetId, updateChart],
+  );
+
+  const handleGaugeMin = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!chart) return;
+      updateChart(sheetId, chart.id, {
+        gaugeMin: parseOptionalNumber(e.target.value),
+      });
+    },
+    [chart, sheetId, updateChart],
+  );
+
+  const handleGaugeMax = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (!chart) return;
+      updateChart(sheetId, chart.id, {
+        gaugeMax: parseOptionalNumber(e.target.value),
+      });
+    },
+    [chart, sheetId, updateChart],
+  );
+
   const handleColorChange = useCallback(
     (index: number, color: string) => {
       if (!chart) return;
@@ -189,8 +279,107 @@ export function ChartEditorSidebar() {
             onBlur={handleDataRangeChange}
             className="w-full h-8 border border-gray-300 rounded text-sm px-2"
           />
+          {DATA_HINTS[chart.type] && (
+            <p
+              data-testid="chart-data-hint"
+              className="text-xs text-gray-500 mt-1"
+            >
+              {DATA_HINTS[chart.type]}
+            </p>
+          )}
         </div>
 
+        {/* Type-specific settings */}
+        {chart.type === "histogram" && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Bins
+              </label>
+              <input
+                data-testid="chart-bin-count"
+                type="number"
+                min={1}
+                value={chart.bins?.count ?? ""}
+                onChange={handleBinCountChange}
+                placeholder="Auto"
+                className="w-full h-8 border border-gray-300 rounded text-sm px-2"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Bin Width
+              </label>
+              <input
+                data-testid="chart-bin-width"
+                type="number"
+                min={0}
+                value={chart.bins?.width ?? ""}
+                onChange={handleBinWidthChange}
+                placeholder="Auto"
+                className="w-full h-8 border border-gray-300 rounded text-sm px-2"
+              />
+            </div>
+          </div>
+        )}
+        {chart.type === "waterfall" && (
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+            <input
+              data-testid="chart-show-total"
+              type="checkbox"
+              checked={!!chart.showTotal}
+              onChange={handleShowTotalToggle}
+            />
+            Show Total
+          </label>
+        )}
+        {chart.type === "candlestick" && (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Style
+            </label>
+            <select
+              data-testid="chart-candle-style"
+              value={chart.candleStyle ?? "candlestick"}
+              onChange={handleCandleStyle}
+              className="w-full h-8 border border-gray-300 rounded text-sm px-2"
+            >
+              <option value="candlestick">Candlestick</option>
+              <option value="ohlc">OHLC</option>
+            </select>
+          </div>
+        )}
+        {chart.type === "gauge" && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Minimum
+              </label>
+              <input
+                data-testid="chart-gauge-min"
+                type="number"
+                value={chart.gaugeMin ?? ""}
+                onChange={handleGaugeMin}
+                placeholder="0"
+                className="w-full h-8 border border-gray-300 rounded text-sm px-2"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Maximum
+              </label>
+              <input
+                data-testid="chart-gauge-max"
+                type="number"
+                value={chart.gaugeMax ?? ""}
+                onChange={handleGaugeMax}
+                placeholder="100"
+                className="w-full h-8 border border-gray-300 rounded text-sm px-2"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Title */}
         <div>
           <label className="block text-xs font-medium text-gray-600 mb-1">
@@ -249,7 +438,7 @@ export function ChartEditorSidebar() {
         </div>
 
         {/* Axis labels */}
-        {chart.type !== "pie" && (
+        {!AXISLESS_TYPES.includes(chart.type) && (
           <>
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
@@ -1,14 +1,30 @@
 import { useEffect, useState, useCallback } from "react";
+import type { FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 import { useCloudStore } from "../../stores/cloudStore";
 import { useAuthStore } from "../../stores/authStore";
+import { useTeamStore } from "../../stores/teamStore";
+import { useFolderStore } from "../../stores/folderStore";
+import { useTagStore } from "../../stores/tagStore";
+import { useSearchStore } from "../../stores/searchStore";
+import type { Tag } from "../../stores/tagStore";
 import { SpreadsheetCard } from "./SpreadsheetCard";
 import { SpreadsheetListItem } from "./SpreadsheetListItem";
 import { DashboardSkeleton } from "./DashboardSkeleton";
 import { TemplateGallery } from "./TemplateGallery";
+import { TeamPanel } from "./TeamPanel";
+import { FolderBar } from "./FolderBar";
+import { MoveDialog } from "./MoveDialog";
+import { SearchResults } from "./SearchResults";
 import { GridSpaceLogo } from "../ui/GridSpaceLogo";
 
-type FilterType = "all" | "owned" | "shared" | "starred";
+type FilterType = "all" | "owned" | "shared" | "starred" | "team" | "trash";
+
+/** Spreadsheets waiting for a destination in the move dialog */
+interface MoveTarget {
+  ids: string[];
+  teamId: string | null;
+}
 
 export default function DashboardPage() {
   const navigate = useNavigate();
@@ -18,6 +34,9 @@ export default function DashboardPage() {
   const isListLoading = useCloudStore((s) => s.isListLoading);
   const error = useCloudStore((s) => s.error);
   const filter = useCloudStore((s) => s.filter);
+  const teamId = useCloudStore((s) => s.teamId);
+  const folderId = useCloudStore((s) => s.folderId);
+  const tagId = useCloudStore((s) => s.tagId);
   const search = useCloudStore((s) => s.search);
   const sortBy = useCloudStore((s) => s.sortBy);
   const sortDir = useCloudStore((s) => s.sortDir);
@@ -30,15 +49,34 @@ export default function DashboardPage() {
   const duplicateSpreadsheet = useCloudStore((s) => s.duplicateSpreadsheet);
   const toggleStar = useCloudStore((s) => s.toggleStar);
   const updateSpreadsheet = useCloudStore((s) => s.updateSpreadsheet);
+  const moveSpreadsheet = useCloudStore((s) => s.moveSpreadsheet);
+  const restoreSpreadsheet = useCloudStore((s) => s.restoreSpreadsheet);
+  const deleteSpreadsheetForever = useCloudStore(
+    (s) => s.deleteSpreadsheetForever,
+  );
+  const emptyTrash = useCloudStore((s) => s.emptyTrash);
+  const bulkUpdate = useCloudStore((s) => s.bulkUpdate);
+  const addTag = useCloudStore((s) => s.addTag);
+  const removeTag = useCloudStore((s) => s.removeTag);
   const setFilter = useCloudStore((s) => s.setFilter);
+  const setTeam = useCloudStore((s) => s.setTeam);
+  const setTag = useCloudStore((s) => s.setTag);
   const setSearch = useCloudStore((s) => s.setSearch);
   const setSortBy = useCloudStore((s) => s.setSortBy);
   const toggleSortDir = useCloudStore((s) => s.toggleSortDir);
   const setViewMode = useCloudStore((s) => s.setViewMode);
   const setPage = useCloudStore((s) => s.setPage);
 
+  const teams = useTeamStore((s) => s.teams);
+  const currentTeam = useTeamStore((s) => s.currentTeam);
+  const tags = useTagStore((s) => s.tags);
+
   const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
   const [searchInput, setSearchInput] = useState(search);
+  const [newTeamName, setNewTeamName] = useState<string | null>(null);
+  const [isTeamPanelOpen, setTeamPanelOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -47,6 +85,9 @@ export default function DashboardPage() {
   }, [
     isAuthenticated,
     filter,
+    teamId,
+    folderId,
+    tagId,
     search,
     sortBy,
     sortDir,
@@ -54,6 +95,53 @@ export default function DashboardPage() {
     fetchSpreadsheets,
   ]);
 
+  // A selection only applies to the page it was made on
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [filter, teamId, folderId, tagId, search, page]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      useTeamStore.getState().fetchTeams();
+      useTagStore.getState().fetchTags();
+    }
+  }, [isAuthenticated]);
+
+  // Load members of the team being viewed
+  useEffect(() => {
+    if (filter === "team" && teamId) {
+      useTeamStore.getState().fetchTeam(teamId);
+    } else {
+      useTeamStore.getState().clearCurrentTeam();
+    }
+  }, [filter, teamId]);
+
+  // Load the folders to browse: the team's, or personal ones under "Owned by me"
+  useEffect(() => {
+    if (filter === "team" && teamId) {
+      useFolderStore.getState().fetchFolders(teamId);
+    } else if (filter === "owned") {
+      useFolderStore.getState().fetchFolders(null);
+    }
+  }, [filter, teamId]);
+
+  // The team was left or deleted from the panel
+  useEffect(() => {
+    if (filter === "team" && teamId && !teams.some((t) => t.id === teamId)) {
+      setFilter("all");
+    }
+  }, [filter, teamId, teams, setFilter]);
+
+  // Search inside spreadsheets too; the trash isn't searchable
+  const searchesContents = search.trim() !== "" && filter !== "trash";
+  useEffect(() => {
+    if (searchesContents) {
+      useSearchStore.getState().search(search.trim());
+    } else {
+      useSearchStore.getState().clear();
+    }
+  }, [search, searchesContents]);
+
   // Debounce search
   useEffect(() => {
     const timeout = setTimeout(() => {
@@ -64,12 +152,33 @@ export default function DashboardPage() {
 
   const handleCreate = useCallback(async () => {
     try {
-      const spreadsheet = await createSpreadsheet();
+      // New spreadsheets go in the team and folder being viewed
+      const location =
+        filter === "team" && teamId
+          ? { teamId, folderId }
+          : filter === "owned" && folderId
+            ? { teamId: null, folderId }
+            : undefined;
+      const spreadsheet = await createSpreadsheet(undefined, location);
       navigate(`/spreadsheet/${spreadsheet.id}`);
     } catch {
       // Error handled in store
     }
-  }, [createSpreadsheet, navigate]);
+  }, [createSpreadsheet, navigate, filter, teamId, folderId]);
+
+  const handleCreateTeam = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      const name = newTeamName?.trim();
+      if (!name) return;
+      const team = await useTeamStore.getState().createTeam(name);
+      if (team) {
+        setNewTeamName(null);
+        setTeam(team.id);
+      }
+    },
+    [newTeamName, setTeam],
+  );
 
   const handleOpen = useCallback(
     (id: string) => {
@@ -106,16 +215,107 @@ export default function DashboardPage() {
     [updateSpreadsheet],
   );
 
+  const handleSelect = useCallback((id: string, selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const handleMove = useCallback(
+    (id: string) => {
+      const spreadsheet = spreadsheets.find((s) => s.id === id);
+      setMoveTarget({ ids: [id], teamId: spreadsheet?.teamId ?? null });
+    },
+    [spreadsheets],
+  );
+
+  const handleMoveTo = useCallback(
+    async (location: { teamId: string | null; folderId: string | null }) => {
+      if (!moveTarget) return;
+      if (moveTarget.ids.length === 1) {
+        try {
+          await moveSpreadsheet(moveTarget.ids[0], location);
+        } catch {
+          // Error handled in store
+        }
+      } else {
+        await bulkUpdate(moveTarget.ids, { action: "move", ...location });
+        setSelectedIds(new Set());
+      }
+    },
+    [moveTarget, moveSpreadsheet, bulkUpdate],
+  );
+
+  const handleToggleTag = useCallback(
+    async (id: string, tag: Tag, on: boolean) => {
+      if (on) await addTag(id, tag);
+      else await removeTag(id, tag.id);
+    },
+    [addTag, removeTag],
+  );
+
+  const handleRestore = useCallback(
+    async (id: string) => {
+      await restoreSpreadsheet(id);
+    },
+    [restoreSpreadsheet],
+  );
+
+  const handleDeleteForever = useCallback(
+    async (id: string) => {
+      if (
+        window.confirm("Delete this spreadsheet forever? This can't be undone.")
+      ) {
+        await deleteSpreadsheetForever(id);
+      }
+    },
+    [deleteSpreadsheetForever],
+  );
+
+  const handleEmptyTrash = useCallback(async () => {
+    if (
+      window.confirm(
+        "Delete everything in the trash forever? This can't be undone.",
+      )
+    ) {
+      await emptyTrash();
+    }
+  }, [emptyTrash]);
+
+  const handleBulk = useCallback(
+    async (
+      op:
+        | { action: "trash" | "restore" | "delete" }
+        | { action: "tag"; tagId: string },
+    ) => {
+      if (
+        op.action === "delete" &&
+        !window.confirm(
+          `Delete ${selectedIds.size} spreadsheets forever? This can't be undone.`,
+        )
+      ) {
+        return;
+      }
+      await bulkUpdate([...selectedIds], op);
+      setSelectedIds(new Set());
+    },
+    [bulkUpdate, selectedIds],
+  );
+
   const handleLogout = useCallback(async () => {
     await logout();
     navigate("/login");
   }, [logout, navigate]);
 
-  const filters: { label: string; value: FilterType }[] = [
+  const filters: { label: string; value: Exclude<FilterType, "team"> }[] = [
     { label: "All", value: "all" },
     { label: "Owned by me", value: "owned" },
     { label: "Shared with me", value: "shared" },
     { label: "Starred", value: "starred" },
+    { label: "Trash", value: "trash" },
   ];
 
   const sortOptions: {
@@ -160,7 +360,7 @@ export default function DashboardPage() {
               </svg>
               <input
                 type="text"
-                placeholder="Search spreadsheets..."
+                placeholder="Search titles, cells and comments..."
                 value={searchInput}
                 onChange={(e) => setSearchInput(e.target.value)}
                 className="w-full rounded-full bg-gray-100 py-2.5 pl-12 pr-5 text-sm text-gray-700 placeholder-gray-400 transition-all focus:bg-white focus:outline-none focus:ring-2 focus:ring-[#1a73e8]/30 focus:border focus:border-[#1a73e8]"
@@ -282,9 +482,15 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {searchesContents && <SearchResults />}
+
         {/* Section heading */}
         <h2 className="mb-3 text-base font-medium text-gray-700">
-          Recent spreadsheets
+          {filter === "team" && currentTeam
+            ? currentTeam.name
+            : filter === "trash"
+              ? "Trash"
+              : "Recent spreadsheets"}
         </h2>
 
         {/* Filter Tabs */}
@@ -308,9 +514,126 @@ export default function DashboardPage() {
                 )}
               </button>
             ))}
+            {teams.length > 0 && (
+              <span className="mx-2 mb-2 h-4 w-px bg-gray-200" />
+            )}
+            {teams.map((t) => {
+              const active = filter === "team" && teamId === t.id;
+              return (
+                <button
+                  key={t.id}
+                  onClick={() => setTeam(t.id)}
+                  className={`relative px-4 pb-3 pt-1 text-sm font-medium transition-colors ${
+                    active
+                      ? "text-[#1a73e8]"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                  style={{ padding: "4px 16px 12px 16px" }}
+                  data-testid={`filter-team-${t.id}`}
+                >
+                  {t.name}
+                  {active && (
+                    <span className="absolute bottom-0 left-0 right-0 h-[3px] rounded-t-full bg-[#1a73e8]" />
+                  )}
+                </button>
+              );
+            })}
           </div>
+          <div className="flex-1" />
+          {newTeamName === null ? (
+            <button
+              onClick={() => setNewTeamName("")}
+              className="mb-2 rounded-md px-2 py-1 text-xs font-medium text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+              style={{ padding: "4px 8px" }}
+              data-testid="new-team-btn"
+            >
+              + New team
+            </button>
+          ) : (
+            <form
+              onSubmit={handleCreateTeam}
+              className="mb-2 flex items-center gap-2"
+            >
+              <input
+                autoFocus
+                placeholder="Team name"
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setNewTeamName(null)}
+                className="rounded-md border border-gray-200 px-2.5 py-1 text-xs focus:border-[#1a73e8] focus:outline-none"
+                style={{ padding: "4px 10px" }}
+                data-testid="new-team-input"
+              />
+              <button
+                type="submit"
+                className="rounded-md bg-[#1a73e8] px-2.5 py-1 text-xs font-medium text-white hover:bg-[#1765cc]"
+                style={{ padding: "4px 10px" }}
+              >
+                Create
+              </button>
+            </form>
+          )}
         </div>
 
+        {/* Folders */}
+        {filter === "owned" && (
+          <FolderBar teamId={null} rootLabel="My files" canEdit canManage />
+        )}
+        {filter === "team" && currentTeam && (
+          <FolderBar
+            teamId={currentTeam.id}
+            rootLabel={currentTeam.name}
+            canEdit={currentTeam.role !== "viewer"}
+            canManage={
+              currentTeam.role === "owner" || currentTeam.role === "admin"
+            }
+          >
+            <button
+              onClick={() => setTeamPanelOpen(true)}
+              className="rounded-md px-2 py-1 text-xs font-medium text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+              style={{ padding: "4px 8px" }}
+              data-testid="manage-team-btn"
+            >
+              {currentTeam.members.length} member
+              {currentTeam.members.length === 1 ? "" : "s"} · Manage
+            </button>
+          </FolderBar>
+        )}
+        {isTeamPanelOpen && (
+          <TeamPanel onClose={() => setTeamPanelOpen(false)} />
+        )}
+        {moveTarget && (
+          <MoveDialog
+            count={moveTarget.ids.length}
+            initialTeamId={moveTarget.teamId}
+            onMove={handleMoveTo}
+            onClose={() => setMoveTarget(null)}
+          />
+        )}
+
+        {/* Trash notice */}
+        {filter === "trash" && (
+          <div
+            className="mb-5 flex items-center gap-3 rounded-lg bg-gray-100 px-4 py-2.5 text-sm text-gray-600"
+            style={{ padding: "10px 16px" }}
+            data-testid="trash-notice"
+          >
+            <span className="flex-1">
+              Spreadsheets in the trash are deleted forever after 30 days.
+            </span>
+            {spreadsheets.length > 0 && (
+              <button
+                onClick={handleEmptyTrash}
+                className="rounded-md px-2 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50"
+                style={{ padding: "4px 8px" }}
+                data-testid="empty-trash-btn"
+              >
+                Empty trash
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Sort Controls */}
         <div className="mb-5 flex items-center gap-2">
           <span className="text-xs font-medium text-gray-400 uppercase tracking-wide">
@@ -355,8 +678,101 @@ export default function DashboardPage() {
               )}
             </svg>
           </button>
+          {tags.length > 0 && (
+            <select
+              value={tagId ?? ""}
+              onChange={(e) => setTag(e.target.value || null)}
+              className="ml-2 rounded-md border border-gray-200 bg-white px-2.5 py-1 text-xs text-gray-600 transition-colors hover:border-gray-300 focus:border-[#1a73e8] focus:outline-none focus:ring-1 focus:ring-[#1a73e8]/30"
+              style={{ padding: "4px 10px" }}
+              data-testid="tag-filter"
+            >
+              <option value="">All tags</option>
+              {tags.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
+        {/* Bulk actions */}
+        {selectedIds.size > 0 && (
+          <div
+            className="mb-4 flex items-center gap-2 rounded-lg bg-[#e8f0fe] px-4 py-2 text-sm text-[#1a73e8]"
+            style={{ padding: "8px 16px" }}
+            data-testid="bulk-bar"
+          >
+            <span className="font-medium">{selectedIds.size} selected</span>
+            <div className="flex-1" />
+            {filter === "trash" ? (
+              <>
+                <button
+                  onClick={() => handleBulk({ action: "restore" })}
+                  className="rounded-md px-2 py-1 text-xs font-medium hover:bg-white/60"
+                  data-testid="bulk-restore-btn"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => handleBulk({ action: "delete" })}
+                  className="rounded-md px-2 py-1 text-xs font-medium text-red-600 hover:bg-white/60"
+                  data-testid="bulk-delete-forever-btn"
+                >
+                  Delete forever
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() =>
+                    setMoveTarget({
+                      ids: [...selectedIds],
+                      teamId: filter === "team" ? teamId : null,
+                    })
+                  }
+                  className="rounded-md px-2 py-1 text-xs font-medium hover:bg-white/60"
+                  data-testid="bulk-move-btn"
+                >
+                  Move to…
+                </button>
+                {tags.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) =>
+                      e.target.value &&
+                      handleBulk({ action: "tag", tagId: e.target.value })
+                    }
+                    className="rounded-md border border-[#1a73e8]/30 bg-white px-2 py-1 text-xs text-gray-600"
+                    data-testid="bulk-tag-select"
+                  >
+                    <option value="">Add tag…</option>
+                    {tags.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => handleBulk({ action: "trash" })}
+                  className="rounded-md px-2 py-1 text-xs font-medium hover:bg-white/60"
+                  data-testid="bulk-trash-btn"
+                >
+                  Move to trash
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="rounded-md px-2 py-1 text-xs font-medium text-gray-500 hover:bg-white/60"
+              data-testid="bulk-clear-btn"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
         {/* Error */}
         {error && (
           <div
@@ -427,30 +843,36 @@ export default function DashboardPage() {
               />
             </svg>
             <p className="mb-2 text-xl font-semibold text-gray-800">
-              No spreadsheets yet
+              {filter === "trash"
+                ? "The trash is empty"
+                : "No spreadsheets yet"}
             </p>
             <p className="mb-8 text-sm text-gray-500">
-              Create your first spreadsheet to get started
+              {filter === "trash"
+                ? "Spreadsheets you delete show up here"
+                : "Create your first spreadsheet to get started"}
             </p>
-            <button
-              onClick={handleCreate}
-              className="inline-flex items-center gap-2 rounded-full bg-[#1a73e8] px-6 py-2.5 text-sm font-medium text-white shadow-md transition-all hover:bg-[#1765cc] hover:shadow-lg active:scale-[0.98]"
-              style={{ padding: "10px 24px" }}
-            >
-              <svg
-                width="18"
-                height="18"
-                viewBox="0 0 18 18"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
+            {filter !== "trash" && (
+              <button
+                onClick={handleCreate}
+                className="inline-flex items-center gap-2 rounded-full bg-[#1a73e8] px-6 py-2.5 text-sm font-medium text-white shadow-md transition-all hover:bg-[#1765cc] hover:shadow-lg active:scale-[0.98]"
+                style={{ padding: "10px 24px" }}
               >
-                <line x1="9" y1="3" x2="9" y2="15" />
-                <line x1="3" y1="9" x2="15" y2="9" />
-              </svg>
-              Create your first spreadsheet
-            </button>
+                <svg
+                  width="18"
+                  height="18"
+                  viewBox="0 0 18 18"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                >
+                  <line x1="9" y1="3" x2="9" y2="15" />
+                  <line x1="3" y1="9" x2="15" y2="9" />
+                </svg>
+                Create your first spreadsheet
+              </button>
+            )}
           </div>
         )}
 
@@ -466,11 +888,17 @@ export default function DashboardPage() {
                   <SpreadsheetCard
                     key={s.id}
                     spreadsheet={s}
+                    selected={selectedIds.has(s.id)}
+                    onSelect={handleSelect}
                     onOpen={handleOpen}
                     onDelete={handleDelete}
                     onDuplicate={handleDuplicate}
                     onToggleStar={handleToggleStar}
                     onRename={handleRename}
+                    onMove={handleMove}
+                    onToggleTag={handleToggleTag}
+                    onRestore={handleRestore}
+                    onDeleteForever={handleDeleteForever}
                   />
                 ))}
               </div>
@@ -484,6 +912,7 @@ export default function DashboardPage() {
                   className="flex items-center gap-4 border-b border-gray-100 bg-gray-50/80 px-5 py-2"
                   style={{ padding: "8px 20px" }}
                 >
+                  <span className="w-4 flex-shrink-0" />
                   <span className="w-4 flex-shrink-0" />
                   <span className="w-4 flex-shrink-0" />
                   <span className="min-w-0 flex-1 text-xs font-medium text-gray-400 uppercase tracking-wider">
@@ -493,7 +922,7 @@ export default function DashboardPage() {
                     Owner
                   </span>
                   <span className="flex-shrink-0 text-xs font-medium text-gray-400 uppercase tracking-wider">
-                    Modified
+                    {filter === "trash" ? "Trashed" : "Modified"}
                   </span>
                 </div>
                 <div className="divide-y divide-gray-100">
@@ -501,11 +930,17 @@ export default function DashboardPage() {
                     <SpreadsheetListItem
                       key={s.id}
                       spreadsheet={s}
+                      selected={selectedIds.has(s.id)}
+                      onSelect={handleSelect}
                       onOpen={handleOpen}
                       onDelete={handleDelete}
                       onDuplicate={handleDuplicate}
                       onToggleStar={handleToggleStar}
                       onRename={handleRename}
+                      onMove={handleMove}
+                      onToggleTag={handleToggleTag}
+                      onRestore={handleRestore}
+                      onDeleteForever={handleDeleteForever}
                     />
                   ))}
                 </div>
@@ -0,0 +1,196 @@
+/**
+ * FolderBar — folder navigation above the spreadsheet list: a breadcrumb to
+ * the open folder, chips for its subfolders, and controls to add a
+ * subfolder or rename, move up or delete the open one.
+ */
+import { useState } from "react";
+import type { FormEvent, ReactNode } from "react";
+import { useCloudStore } from "../../stores/cloudStore";
+import {
+  MAX_FOLDER_DEPTH,
+  folderPath,
+  folderScope,
+  useFolderStore,
+} from "../../stores/folderStore";
+
+interface FolderBarProps {
+  /** Team whose folders to show, or null for personal folders */
+  teamId: string | null;
+  rootLabel: string;
+  canEdit: boolean;
+  canManage: boolean;
+  /** Extra controls on the right, e.g. team management */
+  children?: ReactNode;
+}
+
+const chipClass =
+  "rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:border-gray-300";
+const linkClass =
+  "rounded-md px-2 py-1 text-xs font-medium text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700";
+
+export function FolderBar({
+  teamId,
+  rootLabel,
+  canEdit,
+  canManage,
+  children,
+}: FolderBarProps) {
+  const folderId = useCloudStore((s) => s.folderId);
+  const setFolder = useCloudStore((s) => s.setFolder);
+  const folders = useFolderStore(
+    (s) => s.foldersByScope[folderScope(teamId)] ?? [],
+  );
+  const [newName, setNewName] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState<string | null>(null);
+
+  const path = folderPath(folders, folderId);
+  const current = path[path.length - 1] ?? null;
+  const subfolders = folders.filter((f) => f.parentId === folderId);
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    const name = newName?.trim();
+    if (!name) return;
+    const folder = await useFolderStore
+      .getState()
+      .createFolder(teamId, name, folderId);
+    if (folder) {
+      setNewName(null);
+      setFolder(folder.id);
+    }
+  }
+
+  async function handleRename(e: FormEvent) {
+    e.preventDefault();
+    const name = renameTo?.trim();
+    if (current && name && name !== current.name) {
+      await useFolderStore.getState().renameFolder(current, name);
+    }
+    setRenameTo(null);
+  }
+
+  async function handleMoveUp() {
+    if (!current?.parentId) return;
+    const grandparent = path[path.length - 3]?.id ?? null;
+    await useFolderStore.getState().moveFolder(current, grandparent);
+  }
+
+  async function handleDelete() {
+    if (
+      current &&
+      window.confirm(
+        `Delete the folder "${current.name}"? Everything in it moves up a level.`,
+      ) &&
+      (await useFolderStore.getState().deleteFolder(current))
+    ) {
+      setFolder(current.parentId);
+    }
+  }
+
+  return (
+    <div className="mb-5" data-testid="folder-bar">
+      <div className="mb-2 flex items-center gap-1 text-sm text-gray-600">
+        {[{ id: null, name: rootLabel }, ...path].map((f, i) => (
+          <span key={f.id ?? "root"} className="flex items-center gap-1">
+            {i > 0 && <span className="text-gray-300">/</span>}
+            <button
+              onClick={() => setFolder(f.id)}
+              className={`rounded px-1.5 py-0.5 hover:bg-gray-100 ${
+                f.id === folderId ? "font-medium text-gray-900" : ""
+              }`}
+              data-testid={`folder-crumb-${f.id ?? "root"}`}
+            >
+              {f.name}
+            </button>
+          </span>
+        ))}
+        {current && renameTo !== null && (
+          <form onSubmit={handleRename} className="ml-2">
+            <input
+              autoFocus
+              value={renameTo}
+              onChange={(e) => setRenameTo(e.target.value)}
+              onBlur={handleRename}
+              onKeyDown={(e) => e.key === "Escape" && setRenameTo(null)}
+              className="rounded-md border border-gray-200 px-2 py-0.5 text-xs focus:border-[#1a73e8] focus:outline-none"
+              data-testid="folder-rename-input"
+            />
+          </form>
+        )}
+        {current && renameTo === null && (
+          <span className="ml-2 flex items-center gap-1">
+            {canEdit && (
+              <button
+                onClick={() => setRenameTo(current.name)}
+                className={linkClass}
+                data-testid="folder-rename-btn"
+              >
+                Rename
+              </button>
+            )}
+            {canEdit && current.parentId && (
+              <button
+                onClick={handleMoveUp}
+                className={linkClass}
+                data-testid="folder-move-up-btn"
+              >
+                Move up
+              </button>
+            )}
+            {canManage && (
+              <button
+                onClick={handleDelete}
+                className="rounded-md px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50"
+                data-testid="folder-delete-btn"
+              >
+                Delete folder
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {subfolders.map((f) => (
+          <button
+            key={f.id}
+            onClick={() => setFolder(f.id)}
+            className={chipClass}
+            style={{ padding: "4px 12px" }}
+            data-testid={`folder-${f.id}`}
+          >
+            {f.name}
+          </button>
+        ))}
+        {canEdit &&
+          path.length < MAX_FOLDER_DEPTH &&
+          (newName === null ? (
+            <button
+              onClick={() => setNewName("")}
+              className="rounded-full px-3 py-1 text-xs font-medium text-gray-500 hover:bg-gray-100"
+              style={{ padding: "4px 12px" }}
+              data-testid="new-folder-btn"
+            >
+              + Folder
+            </button>
+          ) : (
+            <form onSubmit={handleCreate}>
+              <input
+                autoFocus
+                placeholder="Folder name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setNewName(null)}
+                onBlur={() => !newName && setNewName(null)}
+                className="rounded-full border border-gray-200 px-3 py-1 text-xs focus:border-[#1a73e8] focus:outline-none"
+                style={{ padding: "4px 12px" }}
+                data-testid="new-folder-input"
+              />
+            </form>
+          ))}
+        <div className="flex-1" />
+        {children}
+      </div>
+    </div>
+  );
+}
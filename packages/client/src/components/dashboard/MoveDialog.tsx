@@ -0,0 +1,126 @@
+/**
+ * MoveDialog — pick where to file one or more spreadsheets: personal files
+ * or a team the user can edit in, and optionally a folder there.
+ */
+import { useEffect, useState } from "react";
+import { useTeamStore } from "../../stores/teamStore";
+import {
+  folderPath,
+  folderScope,
+  sortFoldersAsTree,
+  useFolderStore,
+} from "../../stores/folderStore";
+
+interface MoveDialogProps {
+  count: number;
+  /** Where the spreadsheets are now, to start the picker there */
+  initialTeamId: string | null;
+  onMove: (location: {
+    teamId: string | null;
+    folderId: string | null;
+  }) => Promise<void>;
+  onClose: () => void;
+}
+
+export function MoveDialog({
+  count,
+  initialTeamId,
+  onMove,
+  onClose,
+}: MoveDialogProps) {
+  const teams = useTeamStore((s) => s.teams);
+  const [teamId, setTeamId] = useState<string | null>(initialTeamId);
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const folders = useFolderStore((s) => s.foldersByScope[folderScope(teamId)]);
+
+  useEffect(() => {
+    useFolderStore.getState().fetchFolders(teamId);
+  }, [teamId]);
+
+  const editableTeams = teams.filter((t) => t.role !== "viewer");
+
+  async function handleMove() {
+    await onMove({ teamId, folderId });
+    onClose();
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      data-testid="move-dialog-overlay"
+      onClick={onClose}
+    >
+      <div
+        className="w-[400px] rounded-xl bg-white p-6 shadow-xl"
+        style={{ padding: "24px" }}
+        data-testid="move-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">
+          Move {count === 1 ? "spreadsheet" : `${count} spreadsheets`}
+        </h2>
+
+        <select
+          value={teamId ?? ""}
+          onChange={(e) => {
+            setTeamId(e.target.value || null);
+            setFolderId(null);
+          }}
+          className="mb-3 w-full rounded-md border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-700"
+          data-testid="move-destination"
+        >
+          <option value="">My files</option>
+          {editableTeams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+
+        <ul
+          className="max-h-64 overflow-y-auto rounded-md border border-gray-100"
+          data-testid="move-folders"
+        >
+          {[null, ...sortFoldersAsTree(folders ?? [])].map((folder) => {
+            const id = folder?.id ?? null;
+            const depth = folder
+              ? folderPath(folders ?? [], folder.id).length
+              : 0;
+            return (
+              <li key={id ?? "top"}>
+                <button
+                  onClick={() => setFolderId(id)}
+                  className={`w-full px-3 py-1.5 text-left text-sm ${
+                    folderId === id
+                      ? "bg-[#e8f0fe] text-[#1a73e8]"
+                      : "text-gray-700 hover:bg-gray-50"
+                  }`}
+                  style={{ paddingLeft: 12 + depth * 16 }}
+                  data-testid={`move-folder-${id ?? "top"}`}
+                >
+                  {folder ? folder.name : "No folder"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-md px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMove}
+            className="rounded-md bg-[#1a73e8] px-3 py-1.5 text-sm font-medium text-white hover:bg-[#1765cc]"
+            data-testid="move-confirm"
+          >
+            Move here
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
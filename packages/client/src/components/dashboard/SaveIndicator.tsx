@@ -2,12 +2,14 @@ import { useCloudStore } from "../../stores/cloudStore";
 
 export function SaveIndicator() {
   const saveStatus = useCloudStore((s) => s.saveStatus);
+  const saveError = useCloudStore((s) => s.saveError);
 
   const statusMap = {
     idle: { text: "", className: "text-transparent" },
     saving: { text: "Saving...", className: "text-gray-400" },
     saved: { text: "All changes saved", className: "text-green-600" },
-    error: { text: "Save failed", className: "text-red-500" },
+    // Refusals such as protected cells explain themselves
+    error: { text: saveError ?? "Save failed", className: "text-red-500" },
   };
 
   const status = statusMap[saveStatus];
@@ -17,6 +19,7 @@ export function SaveIndicator() {
       className={`text-xs ${status.className}`}
       data-testid="save-indicator"
       data-status={saveStatus}
+      title={saveStatus === "error" ? status.text : undefined}
     >
       {status.text}
     </span>
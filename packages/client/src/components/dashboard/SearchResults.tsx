@@ -0,0 +1,102 @@
+/**
+ * SearchResults — full-text matches for the dashboard search: spreadsheet
+ * titles, sheet names, cell values and comments. Each hit opens the
+ * spreadsheet at its sheet and cell.
+ */
+import { useNavigate } from "react-router-dom";
+import { searchHitPath, useSearchStore } from "../../stores/searchStore";
+import type { SearchHit } from "../../stores/searchStore";
+
+function hitLabel(hit: SearchHit): string {
+  switch (hit.kind) {
+    case "title":
+      return "Title";
+    case "sheet":
+      return "Sheet";
+    case "cell":
+      return `Cell ${hit.cell}`;
+    case "comment":
+      return `Comment on ${hit.cell}`;
+  }
+}
+
+/** The snippet with query words in bold */
+function Highlighted({ text, query }: { text: string; query: string }) {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (terms.length === 0) return <>{text}</>;
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const parts = text.split(new RegExp(`(${escaped.join("|")})`, "gi"));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-100 font-medium text-gray-900">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+export function SearchResults() {
+  const navigate = useNavigate();
+  const query = useSearchStore((s) => s.query);
+  const hits = useSearchStore((s) => s.hits);
+  const isLoading = useSearchStore((s) => s.isLoading);
+  const error = useSearchStore((s) => s.error);
+
+  return (
+    <section className="mb-6" data-testid="search-results">
+      <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-400">
+        Matches inside spreadsheets
+      </h3>
+
+      {error && (
+        <p className="text-sm text-red-600" data-testid="search-error">
+          {error}
+        </p>
+      )}
+
+      {!error && isLoading && hits.length === 0 && (
+        <p className="text-sm text-gray-500">Searching…</p>
+      )}
+
+      {!error && !isLoading && hits.length === 0 && (
+        <p className="text-sm text-gray-500" data-testid="search-no-results">
+          No matches for “{query}”
+        </p>
+      )}
+
+      {hits.length > 0 && (
+        <ul className="divide-y divide-gray-100 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+          {hits.map((hit, i) => (
+            <li key={`${hit.spreadsheetId}-${hit.kind}-${i}`}>
+              <button
+                onClick={() => navigate(searchHitPath(hit))}
+                className="flex w-full items-baseline gap-3 px-5 py-2.5 text-left transition-colors hover:bg-gray-50"
+                style={{ padding: "10px 20px" }}
+                data-testid={`search-hit-${i}`}
+              >
+                <span className="w-28 flex-shrink-0 text-xs font-medium text-gray-400">
+                  {hitLabel(hit)}
+                </span>
+                <span className="min-w-0 flex-1 truncate text-sm text-gray-700">
+                  <Highlighted text={hit.snippet} query={query} />
+                </span>
+                <span className="flex-shrink-0 truncate text-xs text-gray-500">
+                  {hit.spreadsheetTitle}
+                  {hit.sheetName && hit.kind !== "sheet"
+                    ? ` · ${hit.sheetName}`
+                    : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
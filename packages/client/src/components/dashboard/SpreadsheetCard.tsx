@@ -1,4 +1,6 @@
 import { useState } from "react";
+import type { Tag } from "../../stores/tagStore";
+import { TagChips, TagPicker } from "./TagPicker";
 
 interface SpreadsheetSummary {
   id: string;
@@ -7,15 +9,25 @@ interface SpreadsheetSummary {
   updatedAt: string;
   owner: { id: string; name: string | null; avatarUrl: string | null };
   role: string;
+  tags?: Tag[];
+  deletedAt?: string | null;
 }
 
 interface SpreadsheetCardProps {
   spreadsheet: SpreadsheetSummary;
+  selected: boolean;
+  onSelect: (id: string, selected: boolean) => void;
   onOpen: (id: string) => void;
+  /** Move to the trash */
   onDelete: (id: string) => Promise<void>;
   onDuplicate: (id: string) => Promise<void>;
   onToggleStar: (id: string) => Promise<void>;
   onRename: (id: string, title: string) => Promise<void>;
+  /** Open the folder picker for this spreadsheet */
+  onMove: (id: string) => void;
+  onToggleTag: (id: string, tag: Tag, on: boolean) => Promise<void>;
+  onRestore: (id: string) => Promise<void>;
+  onDeleteForever: (id: string) => Promise<void>;
 }
 
 const PREVIEW_PALETTES = [
@@ -37,13 +49,22 @@ function hashString(str: string): number {
 
 export function SpreadsheetCard({
   spreadsheet,
+  selected,
+  onSelect,
   onOpen,
   onDelete,
   onDuplicate,
   onToggleStar,
   onRename,
+  onMove,
+  onToggleTag,
+  onRestore,
+  onDeleteForever,
 }: SpreadsheetCardProps) {
   const [showMenu, setShowMenu] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const isTrashed = !!spreadsheet.deletedAt;
+  const isOwner = spreadsheet.role === "owner";
   const [isRenaming, setIsRenaming] = useState(false);
   const [newTitle, setNewTitle] = useState(spreadsheet.title);
 
@@ -54,20 +75,40 @@ export function SpreadsheetCard({
     setIsRenaming(false);
   };
 
-  const timeAgo = formatTimeAgo(spreadsheet.updatedAt);
+  const timeAgo = spreadsheet.deletedAt
+    ? `Trashed ${formatTimeAgo(spreadsheet.deletedAt).toLowerCase()}`
+    : formatTimeAgo(spreadsheet.updatedAt);
   const palette =
     PREVIEW_PALETTES[hashString(spreadsheet.id) % PREVIEW_PALETTES.length];
 
   return (
     <div
-      className="group relative rounded-xl border border-gray-200 bg-white transition-all hover:shadow-lg hover:border-gray-300"
+      className={`group relative rounded-xl border bg-white transition-all hover:shadow-lg ${
+        selected
+          ? "border-[#1a73e8] ring-1 ring-[#1a73e8]"
+          : "border-gray-200 hover:border-gray-300"
+      }`}
       data-testid={`spreadsheet-card-${spreadsheet.id}`}
     >
+      {/* Selection checkbox */}
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={(e) => onSelect(spreadsheet.id, e.target.checked)}
+        className={`absolute left-3 top-3 z-10 h-4 w-4 cursor-pointer transition-opacity ${
+          selected ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+        }`}
+        aria-label={`Select ${spreadsheet.title}`}
+        data-testid={`select-${spreadsheet.id}`}
+      />
+
       {/* Preview area — mini spreadsheet visualization */}
       <div
-        className="cursor-pointer overflow-hidden rounded-t-xl"
+        className={`overflow-hidden rounded-t-xl ${
+          isTrashed ? "opacity-60" : "cursor-pointer"
+        }`}
         style={{ height: 140, backgroundColor: palette.light }}
-        onClick={() => onOpen(spreadsheet.id)}
+        onClick={() => !isTrashed && onOpen(spreadsheet.id)}
         data-testid={`open-spreadsheet-${spreadsheet.id}`}
       >
         <svg
@@ -369,8 +410,10 @@ export function SpreadsheetCard({
               />
             ) : (
               <h3
-                className="cursor-pointer truncate text-sm font-medium text-gray-900"
-                onClick={() => onOpen(spreadsheet.id)}
+                className={`truncate text-sm font-medium text-gray-900 ${
+                  isTrashed ? "" : "cursor-pointer"
+                }`}
+                onClick={() => !isTrashed && onOpen(spreadsheet.id)}
                 title={spreadsheet.title}
               >
                 {spreadsheet.title}
@@ -385,40 +428,47 @@ export function SpreadsheetCard({
                 </span>
               )}
             </p>
+            {spreadsheet.tags && spreadsheet.tags.length > 0 && (
+              <div className="mt-1.5">
+                <TagChips tags={spreadsheet.tags} />
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Star button */}
-      <button
-        onClick={() => onToggleStar(spreadsheet.id)}
-        className="absolute right-10 top-2 rounded-full p-1.5 text-gray-400 transition-colors hover:bg-white/80 hover:text-yellow-500"
-        data-testid={`star-btn-${spreadsheet.id}`}
-      >
-        {spreadsheet.isStarred ? (
-          <svg
-            className="h-5 w-5 text-yellow-400"
-            fill="currentColor"
-            viewBox="0 0 20 20"
-          >
-            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-          </svg>
-        ) : (
-          <svg
-            className="h-5 w-5"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={1.5}
-              d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z"
-            />
-          </svg>
-        )}
-      </button>
+      {!isTrashed && (
+        <button
+          onClick={() => onToggleStar(spreadsheet.id)}
+          className="absolute right-10 top-2 rounded-full p-1.5 text-gray-400 transition-colors hover:bg-white/80 hover:text-yellow-500"
+          data-testid={`star-btn-${spreadsheet.id}`}
+        >
+          {spreadsheet.isStarred ? (
+            <svg
+              className="h-5 w-5 text-yellow-400"
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
+              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+            </svg>
+          ) : (
+            <svg
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={1.5}
+                d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z"
+              />
+            </svg>
+          )}
+        </button>
+      )}
 
       {/* Menu button */}
       <div className="absolute right-2 top-2">
@@ -437,52 +487,108 @@ export function SpreadsheetCard({
             className="absolute right-0 top-8 z-10 w-44 rounded-xl border border-gray-200 bg-white py-1 shadow-xl"
             data-testid={`menu-${spreadsheet.id}`}
           >
-            <button
-              onClick={() => {
-                setShowMenu(false);
-                onOpen(spreadsheet.id);
-              }}
-              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
-            >
-              Open
-            </button>
-            <button
-              onClick={() => {
-                setShowMenu(false);
-                setIsRenaming(true);
-              }}
-              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
-              data-testid={`rename-btn-${spreadsheet.id}`}
-            >
-              Rename
-            </button>
-            <button
-              onClick={() => {
-                setShowMenu(false);
-                onDuplicate(spreadsheet.id);
-              }}
-              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
-              data-testid={`duplicate-btn-${spreadsheet.id}`}
-            >
-              Make a copy
-            </button>
-            {spreadsheet.role === "owner" && (
+            {isTrashed ? (
               <>
-                <div className="my-1 border-t border-gray-100" />
                 <button
                   onClick={() => {
                     setShowMenu(false);
-                    onDelete(spreadsheet.id);
+                    onRestore(spreadsheet.id);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  data-testid={`restore-btn-${spreadsheet.id}`}
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    onDeleteForever(spreadsheet.id);
                   }}
                   className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50"
-                  data-testid={`delete-btn-${spreadsheet.id}`}
+                  data-testid={`delete-forever-btn-${spreadsheet.id}`}
+                >
+                  Delete forever
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    onOpen(spreadsheet.id);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
                 >
-                  Delete
+                  Open
                 </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    setIsRenaming(true);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  data-testid={`rename-btn-${spreadsheet.id}`}
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    onDuplicate(spreadsheet.id);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  data-testid={`duplicate-btn-${spreadsheet.id}`}
+                >
+                  Make a copy
+                </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    setShowTags(true);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                  data-testid={`tags-btn-${spreadsheet.id}`}
+                >
+                  Tags…
+                </button>
+                {isOwner && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setShowMenu(false);
+                        onMove(spreadsheet.id);
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                      data-testid={`move-btn-${spreadsheet.id}`}
+                    >
+                      Move to…
+                    </button>
+                    <div className="my-1 border-t border-gray-100" />
+                    <button
+                      onClick={() => {
+                        setShowMenu(false);
+                        onDelete(spreadsheet.id);
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+                      data-testid={`delete-btn-${spreadsheet.id}`}
+                    >
+                      Move to trash
+                    </button>
+                  </>
+                )}
               </>
             )}
           </div>
         )}
+
+        {showTags && (
+          <TagPicker
+            selected={spreadsheet.tags ?? []}
+            onToggle={(tag, on) => onToggleTag(spreadsheet.id, tag, on)}
+            onClose={() => setShowTags(false)}
+            testId={`tag-picker-${spreadsheet.id}`}
+          />
+        )}
       </div>
     </div>
   );
@@ -6,11 +6,20 @@ import {
   lazy,
   Suspense,
 } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useCloudStore } from "../../stores/cloudStore";
 import { useUIStore } from "../../stores/uiStore";
 import { useAuthStore } from "../../stores/authStore";
 import { useSharingStore } from "../../stores/sharingStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useProtectionStore } from "../../stores/protectionStore";
+import { cellRefToPosition } from "../../utils/coordinates";
+import {
+  bindCellStore,
+  connectSocket,
+  joinSpreadsheet,
+  leaveSpreadsheet,
+} from "../../services/realtimeService";
 import { Grid } from "../grid";
 import { MenuBar } from "../ui/MenuBar";
 import { FormulaBar } from "../formula-bar/FormulaBar";
@@ -36,6 +45,14 @@ import { ProtectionDialog } from "../data/ProtectionDialog";
 import { RemoveDuplicatesDialog } from "../data/RemoveDuplicatesDialog";
 import { TextToColumnsDialog } from "../data/TextToColumnsDialog";
 import { GoalSeekDialog } from "../data/GoalSeekDialog";
+import { SolverDialog } from "../data/SolverDialog";
+import { ScenarioManagerDialog } from "../data/ScenarioManagerDialog";
+import { DataTableDialog } from "../data/DataTableDialog";
+import { PivotEditor } from "../data/PivotEditor";
+import { CalculationSettingsDialog } from "../data/CalculationSettingsDialog";
+import { FormatAsTableDialog } from "../data/FormatAsTableDialog";
+import { EvaluateFormulaDialog } from "../data/EvaluateFormulaDialog";
+import { DependentsPanel } from "../data/DependentsPanel";
 import { SlicerControl } from "../data/SlicerControl";
 import { useViewStore } from "../../stores/viewStore";
 import { ViewSwitcher, KanbanView, TimelineView, CalendarView } from "../views";
@@ -65,6 +82,7 @@ function BandedRowsDialogWrapper() {
 export default function SpreadsheetEditorPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const currentSpreadsheet = useCloudStore((s) => s.currentSpreadsheet);
   const isLoading = useCloudStore((s) => s.isLoading);
   const error = useCloudStore((s) => s.error);
@@ -94,14 +112,59 @@ export default function SpreadsheetEditorPage() {
       fetchSpreadsheet(id).catch(() => {
         navigateRef.current("/not-found", { replace: true });
       });
+      useProtectionStore.getState().fetchProtections(id);
     }
 
     return () => {
       clearCurrent();
+      useProtectionStore.getState().clear();
       loadedRef.current = false;
     };
   }, [id, fetchSpreadsheet, clearCurrent]);
 
+  // Named ranges are saved separately from the sheets, whenever they change
+  const loadedId = currentSpreadsheet?.id;
+  useEffect(() => {
+    if (!loadedId) return;
+    return useCloudStore.getState().watchNamedRanges(loadedId);
+  }, [loadedId]);
+
+  // Co-editing: join the spreadsheet's room and share local cell edits
+  useEffect(() => {
+    if (!loadedId) return;
+    connectSocket();
+    joinSpreadsheet(loadedId, useSpreadsheetStore.getState().activeSheetId);
+    const unbind = bindCellStore();
+    return () => {
+      unbind();
+      leaveSpreadsheet();
+    };
+  }, [loadedId]);
+
+  // Deep links from search results: ?sheet=&sheetName=&cell=
+  useEffect(() => {
+    if (!currentSpreadsheet) return;
+    const sheetParam = searchParams.get("sheet");
+    const cellParam = searchParams.get("cell");
+    if (!sheetParam && !cellParam) return;
+
+    const { sheets, setActiveSheet } = useSpreadsheetStore.getState();
+    const sheetName = searchParams.get("sheetName");
+    const target =
+      sheets.find((s) => s.id === sheetParam) ??
+      sheets.find((s) => s.name === sheetName);
+    if (target) setActiveSheet(target.id);
+
+    if (cellParam) {
+      try {
+        useUIStore.getState().setSelectedCell(cellRefToPosition(cellParam));
+      } catch {
+        // Not a cell reference; stay at the current selection
+      }
+    }
+    setSearchParams({}, { replace: true });
+  }, [currentSpreadsheet, searchParams, setSearchParams]);
+
   const handleRename = useCallback(async () => {
     if (id && titleInput.trim() && titleInput !== currentSpreadsheet?.title) {
       await updateSpreadsheet(id, { title: titleInput.trim() });
@@ -257,6 +320,7 @@ export default function SpreadsheetEditorPage() {
         </Suspense>
         <CommentsSidebar currentUserId={user?.id} />
         <AIAnalysisPanel />
+        <DependentsPanel />
       </div>
 
       {/* Sheet tabs */}
@@ -287,6 +351,13 @@ export default function SpreadsheetEditorPage() {
       <RemoveDuplicatesDialog />
       <TextToColumnsDialog />
       <GoalSeekDialog />
+      <SolverDialog />
+      <ScenarioManagerDialog />
+      <DataTableDialog />
+      <PivotEditor />
+      <CalculationSettingsDialog />
+      <FormatAsTableDialog />
+      <EvaluateFormulaDialog />
       <SlicerControl />
       <MacroManagerDialog />
       <ScriptEditor />
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import type { Tag } from "../../stores/tagStore";
+import { TagChips, TagPicker } from "./TagPicker";
 
 interface SpreadsheetSummary {
   id: string;
@@ -7,25 +9,48 @@ interface SpreadsheetSummary {
   updatedAt: string;
   owner: { id: string; name: string | null; avatarUrl: string | null };
   role: string;
+  tags?: Tag[];
+  deletedAt?: string | null;
 }
 
 interface SpreadsheetListItemProps {
   spreadsheet: SpreadsheetSummary;
+  selected: boolean;
+  onSelect: (id: string, selected: boolean) => void;
   onOpen: (id: string) => void;
+  /** Move to the trash */
   onDelete: (id: string) => Promise<void>;
   onDuplicate: (id: string) => Promise<void>;
   onToggleStar: (id: string) => Promise<void>;
   onRename: (id: string, title: string) => Promise<void>;
+  /** Open the folder picker for this spreadsheet */
+  onMove: (id: string) => void;
+  onToggleTag: (id: string, tag: Tag, on: boolean) => Promise<void>;
+  onRestore: (id: string) => Promise<void>;
+  onDeleteForever: (id: string) => Promise<void>;
 }
 
+const actionButtonClass =
+  "rounded-full p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600";
+const textActionClass =
+  "rounded-md px-2 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100";
+
 export function SpreadsheetListItem({
   spreadsheet,
+  selected,
+  onSelect,
   onOpen,
   onDelete,
   onDuplicate,
   onToggleStar,
   onRename,
+  onMove,
+  onToggleTag,
+  onRestore,
+  onDeleteForever,
 }: SpreadsheetListItemProps) {
+  const [showTags, setShowTags] = useState(false);
+  const isTrashed = !!spreadsheet.deletedAt;
   const [isRenaming, setIsRenaming] = useState(false);
   const [newTitle, setNewTitle] = useState(spreadsheet.title);
 
@@ -38,10 +63,22 @@ export function SpreadsheetListItem({
 
   return (
     <div
-      className="group flex items-center gap-4 px-5 py-3 transition-colors hover:bg-gray-50"
+      className={`group flex items-center gap-4 px-5 py-3 transition-colors ${
+        selected ? "bg-[#e8f0fe]" : "hover:bg-gray-50"
+      }`}
       style={{ padding: "12px 20px" }}
       data-testid={`spreadsheet-list-item-${spreadsheet.id}`}
     >
+      {/* Selection checkbox */}
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={(e) => onSelect(spreadsheet.id, e.target.checked)}
+        className="h-4 w-4 flex-shrink-0 cursor-pointer"
+        aria-label={`Select ${spreadsheet.title}`}
+        data-testid={`list-select-${spreadsheet.id}`}
+      />
+
       {/* Spreadsheet icon */}
       <svg
         width="16"
@@ -87,7 +124,8 @@ export function SpreadsheetListItem({
       {/* Star */}
       <button
         onClick={() => onToggleStar(spreadsheet.id)}
-        className="flex-shrink-0 text-gray-300 transition-colors hover:text-yellow-500"
+        disabled={isTrashed}
+        className="flex-shrink-0 text-gray-300 transition-colors hover:text-yellow-500 disabled:pointer-events-none"
         data-testid={`list-star-btn-${spreadsheet.id}`}
       >
         {spreadsheet.isStarred ? (
@@ -117,8 +155,10 @@ export function SpreadsheetListItem({
 
       {/* Title */}
       <div
-        className="min-w-0 flex-1 cursor-pointer"
-        onClick={() => onOpen(spreadsheet.id)}
+        className={`flex min-w-0 flex-1 items-center gap-2 ${
+          isTrashed ? "" : "cursor-pointer"
+        }`}
+        onClick={() => !isTrashed && onOpen(spreadsheet.id)}
       >
         {isRenaming ? (
           <input
@@ -140,6 +180,7 @@ export function SpreadsheetListItem({
             {spreadsheet.title}
           </p>
         )}
+        {!isRenaming && <TagChips tags={spreadsheet.tags ?? []} />}
       </div>
 
       {/* Owner */}
@@ -149,7 +190,9 @@ export function SpreadsheetListItem({
 
       {/* Date */}
       <span className="flex-shrink-0 text-xs text-gray-500">
-        {new Date(spreadsheet.updatedAt).toLocaleDateString()}
+        {new Date(
+          spreadsheet.deletedAt ?? spreadsheet.updatedAt,
+        ).toLocaleDateString()}
       </span>
 
       {/* Role badge */}
@@ -160,62 +203,33 @@ export function SpreadsheetListItem({
       )}
 
       {/* Actions */}
-      <div className="flex flex-shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            setIsRenaming(true);
-          }}
-          className="rounded-full p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600"
-          title="Rename"
-          data-testid={`list-rename-btn-${spreadsheet.id}`}
-        >
-          <svg
-            className="h-4 w-4"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
+      {isTrashed ? (
+        <div className="flex flex-shrink-0 items-center gap-1">
+          <button
+            onClick={() => onRestore(spreadsheet.id)}
+            className={textActionClass}
+            data-testid={`list-restore-btn-${spreadsheet.id}`}
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
-            />
-          </svg>
-        </button>
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            onDuplicate(spreadsheet.id);
-          }}
-          className="rounded-full p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600"
-          title="Duplicate"
-          data-testid={`list-duplicate-btn-${spreadsheet.id}`}
-        >
-          <svg
-            className="h-4 w-4"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
+            Restore
+          </button>
+          <button
+            onClick={() => onDeleteForever(spreadsheet.id)}
+            className="rounded-md px-2 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50"
+            data-testid={`list-delete-forever-btn-${spreadsheet.id}`}
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-            />
-          </svg>
-        </button>
-        {spreadsheet.role === "owner" && (
+            Delete forever
+          </button>
+        </div>
+      ) : (
+        <div className="relative flex flex-shrink-0 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onDelete(spreadsheet.id);
+              setIsRenaming(true);
             }}
-            className="rounded-full p-1.5 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-500"
-            title="Delete"
-            data-testid={`list-delete-btn-${spreadsheet.id}`}
+            className={actionButtonClass}
+            title="Rename"
+            data-testid={`list-rename-btn-${spreadsheet.id}`}
           >
             <svg
               className="h-4 w-4"
@@ -227,12 +241,116 @@ export function SpreadsheetListItem({
                 strokeLinecap="round"
                 strokeLinejoin="round"
                 strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
               />
             </svg>
           </button>
-        )}
-      </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDuplicate(spreadsheet.id);
+            }}
+            className={actionButtonClass}
+            title="Duplicate"
+            data-testid={`list-duplicate-btn-${spreadsheet.id}`}
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowTags(true);
+            }}
+            className={actionButtonClass}
+            title="Tags"
+            data-testid={`list-tags-btn-${spreadsheet.id}`}
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 7h.01M7 3h5a1.99 1.99 0 011.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+              />
+            </svg>
+          </button>
+          {spreadsheet.role === "owner" && (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(spreadsheet.id);
+                }}
+                className={actionButtonClass}
+                title="Move to…"
+                data-testid={`list-move-btn-${spreadsheet.id}`}
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(spreadsheet.id);
+                }}
+                className="rounded-full p-1.5 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-500"
+                title="Move to trash"
+                data-testid={`list-delete-btn-${spreadsheet.id}`}
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </>
+          )}
+          {showTags && (
+            <TagPicker
+              selected={spreadsheet.tags ?? []}
+              onToggle={(tag, on) => onToggleTag(spreadsheet.id, tag, on)}
+              onClose={() => setShowTags(false)}
+              testId={`list-tag-picker-${spreadsheet.id}`}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+/**
+ * TagPicker — popover listing the user's tags with a checkbox for each, to
+ * tag or untag a spreadsheet, plus a field to create a tag and apply it.
+ */
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { TAG_COLORS, useTagStore } from "../../stores/tagStore";
+import type { Tag } from "../../stores/tagStore";
+
+interface TagPickerProps {
+  /** Tags currently on the spreadsheet */
+  selected: Tag[];
+  onToggle: (tag: Tag, on: boolean) => Promise<void>;
+  onClose: () => void;
+  testId: string;
+}
+
+export function TagPicker({
+  selected,
+  onToggle,
+  onClose,
+  testId,
+}: TagPickerProps) {
+  const tags = useTagStore((s) => s.tags);
+  const [name, setName] = useState("");
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = tags.find(
+      (t) => t.name.toLowerCase() === trimmed.toLowerCase(),
+    );
+    const tag =
+      existing ??
+      (await useTagStore
+        .getState()
+        .createTag(trimmed, TAG_COLORS[tags.length % TAG_COLORS.length]));
+    if (tag) {
+      setName("");
+      await onToggle(tag, true);
+    }
+  }
+
+  return (
+    <div
+      className="absolute right-0 top-8 z-20 w-52 rounded-xl border border-gray-200 bg-white py-1 shadow-xl"
+      data-testid={testId}
+      onClick={(e) => e.stopPropagation()}
+      onMouseLeave={onClose}
+    >
+      {tags.length === 0 && (
+        <p className="px-4 py-2 text-xs text-gray-400">No tags yet</p>
+      )}
+      {tags.map((tag) => {
+        const on = selected.some((t) => t.id === tag.id);
+        return (
+          <label
+            key={tag.id}
+            className="flex cursor-pointer items-center gap-2 px-4 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <input
+              type="checkbox"
+              checked={on}
+              onChange={() => onToggle(tag, !on)}
+              data-testid={`${testId}-${tag.id}`}
+            />
+            <span
+              className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+              style={{ backgroundColor: tag.color }}
+            />
+            <span className="truncate">{tag.name}</span>
+          </label>
+        );
+      })}
+      <form
+        onSubmit={handleCreate}
+        className="mt-1 border-t border-gray-100 px-3 pt-2 pb-1"
+      >
+        <input
+          placeholder="New tag"
+          value={name}
+          maxLength={50}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full rounded-md border border-gray-200 px-2 py-1 text-xs focus:border-[#1a73e8] focus:outline-none"
+          data-testid={`${testId}-new`}
+        />
+      </form>
+    </div>
+  );
+}
+
+/** Small coloured chips for a spreadsheet's tags */
+export function TagChips({ tags }: { tags: Tag[] }) {
+  if (tags.length === 0) return null;
+  return (
+    <span className="flex min-w-0 flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          className="truncate rounded-full px-2 py-0.5 text-[11px] font-medium"
+          style={{ backgroundColor: `${tag.color}1f`, color: tag.color }}
+        >
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
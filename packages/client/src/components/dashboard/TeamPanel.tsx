@@ -0,0 +1,368 @@
+/**
+ * TeamPanel — dialog for managing the team open in the dashboard: members
+ * and their roles, who else can see its folders, and renaming, leaving or
+ * deleting the team. Controls a member can't use are hidden.
+ */
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useTeamStore } from "../../stores/teamStore";
+import type { TeamRole } from "../../stores/teamStore";
+import {
+  folderPath,
+  folderScope,
+  sortFoldersAsTree,
+  useFolderStore,
+} from "../../stores/folderStore";
+import type { Folder, FolderRole } from "../../stores/folderStore";
+import { useAuthStore } from "../../stores/authStore";
+
+const TEAM_ROLES: { label: string; value: TeamRole }[] = [
+  { label: "Owner", value: "owner" },
+  { label: "Admin", value: "admin" },
+  { label: "Editor", value: "editor" },
+  { label: "Viewer", value: "viewer" },
+];
+
+const FOLDER_ROLES: { label: string; value: FolderRole }[] = [
+  { label: "Viewer", value: "viewer" },
+  { label: "Commenter", value: "commenter" },
+  { label: "Editor", value: "editor" },
+];
+
+const inputClass =
+  "rounded-md border border-gray-200 px-2.5 py-1.5 text-sm focus:border-[#1a73e8] focus:outline-none";
+const selectClass =
+  "rounded-md border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-600";
+const primaryButtonClass =
+  "rounded-md bg-[#1a73e8] px-3 py-1.5 text-sm font-medium text-white hover:bg-[#1765cc]";
+const linkButtonClass = "text-xs font-medium text-red-600 hover:text-red-700";
+
+function AddByEmailForm<R extends string>({
+  roles,
+  defaultRole,
+  submitLabel,
+  testId,
+  onSubmit,
+}: {
+  roles: { label: string; value: R }[];
+  defaultRole: R;
+  submitLabel: string;
+  testId: string;
+  onSubmit: (email: string, role: R) => Promise<boolean>;
+}) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<R>(defaultRole);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (await onSubmit(email.trim(), role)) setEmail("");
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-2 flex items-center gap-2"
+      data-testid={testId}
+    >
+      <input
+        type="email"
+        required
+        placeholder="name@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className={`${inputClass} flex-1`}
+      />
+      <select
+        value={role}
+        onChange={(e) => setRole(e.target.value as R)}
+        className={selectClass}
+      >
+        {roles.map((r) => (
+          <option key={r.value} value={r.value}>
+            {r.label}
+          </option>
+        ))}
+      </select>
+      <button type="submit" className={primaryButtonClass}>
+        {submitLabel}
+      </button>
+    </form>
+  );
+}
+
+function FolderRow({
+  folder,
+  depth,
+  canManage,
+}: {
+  folder: Folder;
+  depth: number;
+  canManage: boolean;
+}) {
+  const store = useFolderStore.getState();
+
+  return (
+    <li
+      className="py-2"
+      style={{ paddingLeft: depth * 16 }}
+      data-testid={`team-folder-${folder.id}`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-sm font-medium text-gray-800">
+          {folder.name}
+        </span>
+        {canManage && (
+          <button
+            className={linkButtonClass}
+            onClick={() => store.deleteFolder(folder)}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {folder.access.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {folder.access.map((grant) => (
+            <li
+              key={grant.userId}
+              className="flex items-center gap-2 text-xs text-gray-500"
+            >
+              <span className="flex-1">
+                {grant.user.name ?? grant.user.email} · {grant.role}
+              </span>
+              {canManage && (
+                <button
+                  className={linkButtonClass}
+                  onClick={() => store.revokeFolderAccess(folder, grant.userId)}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage && (
+        <AddByEmailForm
+          roles={FOLDER_ROLES}
+          defaultRole="viewer"
+          submitLabel="Share"
+          testId={`folder-share-${folder.id}`}
+          onSubmit={(email, role) =>
+            store.grantFolderAccess(folder, email, role)
+          }
+        />
+      )}
+    </li>
+  );
+}
+
+export function TeamPanel({ onClose }: { onClose: () => void }) {
+  const team = useTeamStore((s) => s.currentTeam);
+  const teamError = useTeamStore((s) => s.error);
+  const folderError = useFolderStore((s) => s.error);
+  const folders = useFolderStore((s) =>
+    team ? s.foldersByScope[folderScope(team.id)] : undefined,
+  );
+  const error = teamError ?? folderError;
+  const userId = useAuthStore((s) => s.user?.id);
+  const [name, setName] = useState(team?.name ?? "");
+
+  if (!team) return null;
+
+  const store = useTeamStore.getState();
+  const isOwner = team.role === "owner";
+  const isAdmin = isOwner || team.role === "admin";
+  // Admins manage everyone but owners; only owners hand out ownership
+  const assignableRoles = isOwner
+    ? TEAM_ROLES
+    : TEAM_ROLES.filter((r) => r.value !== "owner");
+
+  async function handleRename(e: FormEvent) {
+    e.preventDefault();
+    if (team && name.trim() && name.trim() !== team.name) {
+      await store.renameTeam(team.id, name.trim());
+    }
+  }
+
+  async function handleLeave() {
+    if (team && userId && (await store.leaveTeam(team.id, userId))) onClose();
+  }
+
+  async function handleDelete() {
+    if (
+      team &&
+      window.confirm(
+        `Delete "${team.name}"? Its spreadsheets go back to the people who created them.`,
+      ) &&
+      (await store.deleteTeam(team.id))
+    ) {
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      data-testid="team-panel-overlay"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-[85vh] w-[520px] overflow-y-auto rounded-xl bg-white p-6 shadow-xl"
+        style={{ padding: "24px" }}
+        data-testid="team-panel"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center">
+          {isAdmin ? (
+            <form onSubmit={handleRename} className="flex flex-1 gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={`${inputClass} flex-1 text-base font-semibold`}
+                data-testid="team-name-input"
+              />
+              {name.trim() !== team.name && (
+                <button type="submit" className={primaryButtonClass}>
+                  Rename
+                </button>
+              )}
+            </form>
+          ) : (
+            <h2 className="flex-1 text-lg font-semibold text-gray-900">
+              {team.name}
+            </h2>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-3 text-xl leading-none text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div
+            className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-600"
+            data-testid="team-error"
+          >
+            {error}
+          </div>
+        )}
+
+        <h3 className="mb-1 text-sm font-semibold text-gray-700">Members</h3>
+        <ul className="divide-y divide-gray-100" data-testid="team-members">
+          {team.members.map((member) => {
+            const canManage =
+              isAdmin &&
+              member.userId !== userId &&
+              (isOwner || member.role !== "owner");
+            return (
+              <li
+                key={member.userId}
+                className="flex items-center gap-2 py-2"
+                data-testid={`team-member-${member.userId}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm text-gray-800">
+                    {member.user.name ?? member.user.email}
+                    {member.userId === userId && (
+                      <span className="ml-1 text-xs text-gray-400">(you)</span>
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-gray-400">
+                    {member.user.email}
+                  </div>
+                </div>
+                {canManage ? (
+                  <>
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        store.changeMemberRole(
+                          team.id,
+                          member.userId,
+                          e.target.value as TeamRole,
+                        )
+                      }
+                      className={selectClass}
+                      data-testid={`team-member-role-${member.userId}`}
+                    >
+                      {assignableRoles.map((r) => (
+                        <option key={r.value} value={r.value}>
+                          {r.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      className={linkButtonClass}
+                      onClick={() => store.removeMember(team.id, member.userId)}
+                    >
+                      Remove
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs capitalize text-gray-500">
+                    {member.role}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {isAdmin && (
+          <AddByEmailForm
+            roles={assignableRoles}
+            defaultRole="editor"
+            submitLabel="Add"
+            testId="team-add-member"
+            onSubmit={(email, role) => store.addMember(team.id, email, role)}
+          />
+        )}
+
+        <h3 className="mb-1 mt-6 text-sm font-semibold text-gray-700">
+          Folders
+        </h3>
+        <p className="mb-1 text-xs text-gray-400">
+          Sharing a folder gives people outside the team (or with a lower team
+          role) access to every spreadsheet in it and its subfolders.
+        </p>
+        {!folders || folders.length === 0 ? (
+          <p className="py-2 text-sm text-gray-400">No folders yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sortFoldersAsTree(folders).map((folder) => (
+              <FolderRow
+                key={folder.id}
+                folder={folder}
+                depth={folderPath(folders, folder.id).length - 1}
+                canManage={isAdmin}
+              />
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-6 flex items-center gap-3 border-t border-gray-100 pt-4">
+          <button
+            className="text-sm font-medium text-gray-600 hover:text-gray-800"
+            onClick={handleLeave}
+            data-testid="team-leave"
+          >
+            Leave team
+          </button>
+          <div className="flex-1" />
+          {isOwner && (
+            <button
+              className="text-sm font-medium text-red-600 hover:text-red-700"
+              onClick={handleDelete}
+              data-testid="team-delete"
+            >
+              Delete team
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * CalculationSettingsDialog — spreadsheet-level iterative calculation
+ * settings. With iteration off, circular references evaluate to #REF!; with
+ * it on, loops are recalculated until they settle.
+ */
+import { useEffect, useState } from "react";
+import { MAX_ITERATIONS_LIMIT } from "@gridspace/formula";
+import { useUIStore } from "../../stores/uiStore";
+import { useFormulaStore } from "../../stores/formulaStore";
+import { useCloudStore } from "../../stores/cloudStore";
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 12px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  boxSizing: "border-box",
+} as const;
+
+const labelStyle = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: 500,
+  marginBottom: "4px",
+} as const;
+
+export function CalculationSettingsDialog() {
+  const isOpen = useUIStore((s) => s.isCalculationSettingsOpen);
+  const close = useUIStore((s) => s.setCalculationSettingsOpen);
+  const settings = useFormulaStore((s) => s.calcSettings);
+
+  const [iterative, setIterative] = useState(settings.iterative);
+  const [maxIterations, setMaxIterations] = useState(
+    String(settings.maxIterations),
+  );
+  const [maxChange, setMaxChange] = useState(String(settings.maxChange));
+  const [error, setError] = useState("");
+
+  // Start from the current settings each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setIterative(settings.iterative);
+    setMaxIterations(String(settings.maxIterations));
+    setMaxChange(String(settings.maxChange));
+    setError("");
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    const iterations = Number(maxIterations);
+    const change = Number(maxChange);
+    if (
+      !Number.isInteger(iterations) ||
+      iterations < 1 ||
+      iterations > MAX_ITERATIONS_LIMIT
+    ) {
+      setError(
+        `Max iterations must be a whole number from 1 to ${MAX_ITERATIONS_LIMIT}`,
+      );
+      return;
+    }
+    if (!Number.isFinite(change) || change < 0) {
+      setError("Threshold must be zero or a positive number");
+      return;
+    }
+
+    const next = { iterative, maxIterations: iterations, maxChange: change };
+    useFormulaStore.getState().setCalcSettings(next);
+
+    const spreadsheetId = useCloudStore.getState().currentSpreadsheet?.id;
+    if (spreadsheetId) {
+      useCloudStore
+        .getState()
+        .updateSpreadsheet(spreadsheetId, { calcSettings: next })
+        .catch(() => {
+          // Kept locally; the next successful save persists it
+        });
+    }
+    close(false);
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="calc-settings-overlay"
+      onClick={() => close(false)}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "384px",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="calc-settings-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          Calculation settings
+        </h2>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            fontSize: "13px",
+            marginBottom: "12px",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={iterative}
+            onChange={(e) => setIterative(e.target.checked)}
+            data-testid="calc-settings-iterative"
+          />
+          Iterative calculation
+        </label>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Max number of iterations</label>
+          <input
+            type="text"
+            value={maxIterations}
+            disabled={!iterative}
+            onChange={(e) => setMaxIterations(e.target.value)}
+            style={inputStyle}
+            data-testid="calc-settings-max-iterations"
+          />
+        </div>
+
+        <div style={{ marginBottom: "16px" }}>
+          <label style={labelStyle}>Convergence threshold</label>
+          <input
+            type="text"
+            value={maxChange}
+            disabled={!iterative}
+            onChange={(e) => setMaxChange(e.target.value)}
+            style={inputStyle}
+            data-testid="calc-settings-max-change"
+          />
+        </div>
+
+        {error && (
+          <p
+            style={{
+              fontSize: "12px",
+              color: "#ef4444",
+              marginBottom: "12px",
+            }}
+          >
+            {error}
+          </p>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          <button
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              border: "1px solid #d1d5db",
+              borderRadius: "4px",
+            }}
+            data-testid="calc-settings-cancel"
+            onClick={() => close(false)}
+          >
+            Cancel
+          </button>
+          <button
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              backgroundColor: "#2563eb",
+              color: "white",
+              borderRadius: "4px",
+            }}
+            data-testid="calc-settings-save"
+            onClick={handleSave}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * DataTableDialog — build a one- or two-variable data table over the
+ * selected range. The results are recomputed whenever the sheet changes.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { useUIStore } from "../../stores/uiStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useHistoryStore } from "../../stores/historyStore";
+import { useWhatIfStore } from "../../stores/whatIfStore";
+import { cellRefToPosition, positionToCellRef } from "../../utils/coordinates";
+import { parseCellList, validateDataTable } from "../../utils/whatIf";
+import type { CellPosition, DataTableConfig } from "../../types/grid";
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 12px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  boxSizing: "border-box",
+} as const;
+
+const labelStyle = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: 500,
+  marginBottom: "4px",
+} as const;
+
+const buttonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+} as const;
+
+const EMPTY_TABLES: DataTableConfig[] = [];
+
+function formatRange(table: DataTableConfig): string {
+  return `${positionToCellRef({ row: table.startRow, col: table.startCol })}:${positionToCellRef({ row: table.endRow, col: table.endCol })}`;
+}
+
+function describeInputs(table: DataTableConfig): string {
+  const parts: string[] = [];
+  if (table.rowInput)
+    parts.push(`row input ${positionToCellRef(table.rowInput)}`);
+  if (table.colInput) {
+    parts.push(`column input ${positionToCellRef(table.colInput)}`);
+  }
+  return parts.join(", ");
+}
+
+export function DataTableDialog() {
+  const isOpen = useUIStore((s) => s.isDataTableDialogOpen);
+  const close = useUIStore((s) => s.setDataTableDialogOpen);
+  const selections = useUIStore((s) => s.selections);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+  const tableMap = useWhatIfStore((s) => s.dataTables);
+  const tables = useMemo(
+    () =>
+      sheetId
+        ? Array.from(tableMap.values()).filter((t) => t.sheetId === sheetId)
+        : EMPTY_TABLES,
+    [sheetId, tableMap],
+  );
+
+  const [rangeInput, setRangeInput] = useState("");
+  const [rowInput, setRowInput] = useState("");
+  const [colInput, setColInput] = useState("");
+  const [error, setError] = useState("");
+
+  // Start from the selection each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const sel = useUIStore.getState().selections.at(-1);
+    setRangeInput(
+      sel
+        ? `${positionToCellRef({
+            row: Math.min(sel.start.row, sel.end.row),
+            col: Math.min(sel.start.col, sel.end.col),
+          })}:${positionToCellRef({
+            row: Math.max(sel.start.row, sel.end.row),
+            col: Math.max(sel.start.col, sel.end.col),
+          })}`
+        : "",
+    );
+    setRowInput("");
+    setColInput("");
+    setError("");
+  }, [isOpen, selections]);
+
+  if (!isOpen) return null;
+
+  const parseInput = (text: string): CellPosition | null | undefined => {
+    if (!text.trim()) return null;
+    try {
+      return cellRefToPosition(text.trim().replace(/\$/g, ""));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const handleCreate = () => {
+    if (!sheetId) return;
+    let cells: CellPosition[];
+    try {
+      cells = parseCellList(rangeInput);
+    } catch {
+      cells = [];
+    }
+    if (cells.length === 0) {
+      setError("Enter the table range, e.g. A1:D10");
+      return;
+    }
+    const row = parseInput(rowInput);
+    const col = parseInput(colInput);
+    if (row === undefined || col === undefined) {
+      setError("Invalid input cell reference");
+      return;
+    }
+
+    const config = {
+      sheetId,
+      startRow: Math.min(...cells.map((c) => c.row)),
+      startCol: Math.min(...cells.map((c) => c.col)),
+      endRow: Math.max(...cells.map((c) => c.row)),
+      endCol: Math.max(...cells.map((c) => c.col)),
+      rowInput: row,
+      colInput: col,
+    };
+    const problem = validateDataTable(config, tables);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    useHistoryStore.getState().pushUndo();
+    useWhatIfStore.getState().addDataTable(config);
+    close(false);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="data-table-overlay"
+      onClick={() => close(false)}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-96"
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "384px",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="data-table-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          Data Table
+        </h2>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Table range</label>
+          <input
+            type="text"
+            placeholder="e.g. A1:D10"
+            value={rangeInput}
+            onChange={(e) => setRangeInput(e.target.value)}
+            style={inputStyle}
+            data-testid="data-table-range"
+          />
+        </div>
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Row input cell</label>
+          <input
+            type="text"
+            placeholder="Values along the top row go here"
+            value={rowInput}
+            onChange={(e) => setRowInput(e.target.value)}
+            style={inputStyle}
+            data-testid="data-table-row-input"
+          />
+        </div>
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Column input cell</label>
+          <input
+            type="text"
+            placeholder="Values down the left column go here"
+            value={colInput}
+            onChange={(e) => setColInput(e.target.value)}
+            style={inputStyle}
+            data-testid="data-table-col-input"
+          />
+        </div>
+        <p style={{ fontSize: "11px", color: "#6b7280", marginBottom: "12px" }}>
+          With both inputs, put the formula in the top-left cell. With one, put
+          the formulas along the other edge.
+        </p>
+
+        {tables.length > 0 && (
+          <div style={{ marginBottom: "12px" }}>
+            <label style={labelStyle}>Data tables on this sheet</label>
+            {tables.map((table) => (
+              <div
+                key={table.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  padding: "4px 0",
+                  fontSize: "12px",
+                }}
+                data-testid={`data-table-${table.id}`}
+              >
+                <span>
+                  {formatRange(table)}{" "}
+                  <span style={{ color: "#6b7280" }}>
+                    ({describeInputs(table)})
+                  </span>
+                </span>
+                <button
+                  style={{ fontSize: "12px", color: "#ef4444" }}
+                  onClick={() =>
+                    useWhatIfStore.getState().removeDataTable(table.id)
+                  }
+                  data-testid={`remove-data-table-${table.id}`}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <p
+            style={{ fontSize: "12px", color: "#ef4444", marginBottom: "12px" }}
+            data-testid="data-table-error"
+          >
+            {error}
+          </p>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          <button
+            style={buttonStyle}
+            onClick={() => close(false)}
+            data-testid="data-table-close"
+          >
+            Close
+          </button>
+          <button
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              backgroundColor: "#2563eb",
+              color: "white",
+              borderRadius: "4px",
+            }}
+            onClick={handleCreate}
+            data-testid="data-table-create"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Dependents panel — every formula that depends on the selected cell,
+ * directly or through other formulas, grouped by sheet. Clicking an entry
+ * jumps to it.
+ */
+import { useMemo, useState } from "react";
+import { useUIStore } from "../../stores/uiStore";
+import { useCellStore } from "../../stores/cellStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import {
+  buildWorkbookGraph,
+  getAllDependents,
+  getDirectDependents,
+  auditNodeId,
+} from "../../utils/formulaAudit";
+import type { AuditCell } from "../../utils/formulaAudit";
+import { positionToCellRef } from "../../utils/coordinates";
+
+export function DependentsPanel() {
+  const isOpen = useUIStore((s) => s.isDependentsPanelOpen);
+  const close = useUIStore((s) => s.setDependentsPanelOpen);
+  const selectedCell = useUIStore((s) => s.selectedCell);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+  const sheets = useSpreadsheetStore((s) => s.sheets);
+  const cells = useCellStore((s) => s.cells);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const result = useMemo(() => {
+    if (!isOpen || !selectedCell) return null;
+    const graph = buildWorkbookGraph();
+    const cell = { sheetId, ...selectedCell };
+    const direct = new Set(
+      getDirectDependents(cell, graph).map((c) => auditNodeId(c)),
+    );
+    const bySheet = new Map<string, AuditCell[]>();
+    for (const dep of getAllDependents(cell, graph)) {
+      const list = bySheet.get(dep.sheetId) ?? [];
+      list.push(dep);
+      bySheet.set(dep.sheetId, list);
+    }
+    for (const list of bySheet.values()) {
+      list.sort((a, b) => a.row - b.row || a.col - b.col);
+    }
+    return { direct, bySheet };
+    // refreshKey forces recomputation on demand
+  }, [isOpen, selectedCell, sheetId, cells, refreshKey]);
+
+  if (!isOpen) return null;
+
+  const handleGoTo = (dep: AuditCell) => {
+    if (dep.sheetId !== sheetId) {
+      useSpreadsheetStore.getState().setActiveSheet(dep.sheetId);
+    }
+    useUIStore.getState().setSelectedCell({ row: dep.row, col: dep.col });
+  };
+
+  // Active sheet first, then in tab order
+  const groups = result
+    ? [...result.bySheet.entries()].sort(([a], [b]) => {
+        if (a === sheetId) return -1;
+        if (b === sheetId) return 1;
+        return (
+          sheets.findIndex((s) => s.id === a) -
+          sheets.findIndex((s) => s.id === b)
+        );
+      })
+    : [];
+
+  return (
+    <div
+      data-testid="dependents-panel"
+      className="fixed right-0 top-0 z-[200] flex h-screen w-[280px] flex-col border-l border-gray-300 bg-white shadow-lg"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <h3 className="text-sm font-semibold text-gray-800">
+          Dependents
+          {selectedCell && (
+            <span className="ml-1 font-normal text-gray-500">
+              of {positionToCellRef(selectedCell)}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            data-testid="dependents-refresh"
+            onClick={() => setRefreshKey((k) => k + 1)}
+            className="rounded p-1 text-xs text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            type="button"
+            title="Refresh"
+          >
+            &#8635;
+          </button>
+          <button
+            data-testid="dependents-close"
+            onClick={() => close(false)}
+            className="rounded p-1 text-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            type="button"
+          >
+            &#10005;
+          </button>
+        </div>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {groups.length === 0 ? (
+          <div
+            className="py-8 text-center text-xs text-gray-400"
+            data-testid="dependents-empty"
+          >
+            No formulas depend on this cell
+          </div>
+        ) : (
+          groups.map(([depSheetId, deps]) => (
+            <div key={depSheetId} className="mb-3">
+              <div className="mb-1 text-xs font-semibold text-gray-700">
+                {sheets.find((s) => s.id === depSheetId)?.name ?? depSheetId}
+              </div>
+              <ul>
+                {deps.map((dep) => {
+                  const formula = useCellStore
+                    .getState()
+                    .getCell(dep.sheetId, dep.row, dep.col)?.formula;
+                  return (
+                    <li key={auditNodeId(dep)}>
+                      <button
+                        type="button"
+                        data-testid={`dependent-${auditNodeId(dep)}`}
+                        onClick={() => handleGoTo(dep)}
+                        className="flex w-full items-baseline gap-2 rounded px-1 py-0.5 text-left text-xs hover:bg-gray-100"
+                      >
+                        <span className="w-10 flex-shrink-0 font-medium text-gray-800">
+                          {positionToCellRef(dep)}
+                        </span>
+                        <span className="truncate font-mono text-gray-500">
+                          {formula}
+                        </span>
+                        {!result?.direct.has(auditNodeId(dep)) && (
+                          <span
+                            className="ml-auto flex-shrink-0 text-[10px] text-gray-400"
+                            title="Depends on this cell through other formulas"
+                          >
+                            indirect
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * EvaluateFormulaDialog — step through the selected cell's formula one
+ * sub-expression at a time, showing the formula with each evaluated part
+ * replaced by its value.
+ */
+import { useEffect, useMemo, useState } from "react";
+import {
+  evaluationSteps,
+  formatFormula,
+  formatValue,
+  parseFormula,
+} from "@gridspace/formula";
+import type { ASTNode, FormulaValue } from "@gridspace/formula";
+import { useUIStore } from "../../stores/uiStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useCellStore } from "../../stores/cellStore";
+import { storeValueGetter } from "../../utils/formulaAudit";
+import { positionToCellRef } from "../../utils/coordinates";
+
+const buttonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+} as const;
+
+export function EvaluateFormulaDialog() {
+  const isOpen = useUIStore((s) => s.isEvaluateFormulaOpen);
+  const close = useUIStore((s) => s.setEvaluateFormulaOpen);
+  const selectedCell = useUIStore((s) => s.selectedCell);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+  const [done, setDone] = useState(0);
+
+  // Evaluate once when the dialog opens; stepping only reveals the results
+  const evaluation = useMemo(() => {
+    if (!isOpen || !selectedCell) return null;
+    const formula = useCellStore
+      .getState()
+      .getCell(sheetId, selectedCell.row, selectedCell.col)?.formula;
+    if (!formula?.startsWith("=")) return null;
+    try {
+      const ast = parseFormula(formula.slice(1));
+      return { ast, steps: evaluationSteps(ast, storeValueGetter(sheetId)) };
+    } catch {
+      return null;
+    }
+  }, [isOpen, selectedCell, sheetId]);
+
+  useEffect(() => {
+    setDone(0);
+  }, [evaluation]);
+
+  if (!isOpen) return null;
+
+  const steps = evaluation?.steps ?? [];
+  const reduced = new Map<ASTNode, FormulaValue>();
+  for (const step of steps.slice(0, done)) reduced.set(step.node, step.value);
+  const next = steps[done];
+  const finished = evaluation !== null && done >= steps.length;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="evaluate-formula-overlay"
+      onClick={() => close(false)}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "480px",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="evaluate-formula-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          Evaluate formula
+        </h2>
+
+        {!evaluation || !selectedCell ? (
+          <p
+            style={{ fontSize: "13px", color: "#6b7280", marginBottom: "16px" }}
+            data-testid="evaluate-formula-empty"
+          >
+            Select a cell that contains a formula
+          </p>
+        ) : (
+          <>
+            <p style={{ fontSize: "13px", fontWeight: 500 }}>
+              {positionToCellRef(selectedCell)}
+            </p>
+            <div
+              style={{
+                padding: "8px 12px",
+                margin: "4px 0 12px",
+                fontFamily: "monospace",
+                fontSize: "13px",
+                border: "1px solid #d1d5db",
+                borderRadius: "4px",
+                wordBreak: "break-all",
+              }}
+              data-testid="evaluate-formula-current"
+            >
+              {finished
+                ? formatValue(steps[steps.length - 1]?.value ?? null)
+                : "=" + formatFormula(evaluation.ast, reduced)}
+            </div>
+
+            <p
+              style={{
+                fontSize: "12px",
+                color: "#6b7280",
+                marginBottom: "4px",
+              }}
+            >
+              {next ? "Next to evaluate" : "Evaluation complete"}
+            </p>
+            {next && (
+              <p
+                style={{
+                  fontFamily: "monospace",
+                  fontSize: "13px",
+                  textDecoration: "underline",
+                  marginBottom: "12px",
+                }}
+                data-testid="evaluate-formula-next"
+              >
+                {next.expression}
+              </p>
+            )}
+
+            {done > 0 && (
+              <ol
+                style={{
+                  maxHeight: "160px",
+                  overflowY: "auto",
+                  fontFamily: "monospace",
+                  fontSize: "12px",
+                  color: "#374151",
+                  margin: "0 0 16px",
+                  paddingLeft: "20px",
+                  listStyle: "decimal",
+                }}
+                data-testid="evaluate-formula-steps"
+              >
+                {steps.slice(0, done).map((step, i) => (
+                  <li key={i}>
+                    {step.expression} → {formatValue(step.value)}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          <button
+            style={buttonStyle}
+            disabled={done === 0}
+            data-testid="evaluate-formula-restart"
+            onClick={() => setDone(0)}
+          >
+            Restart
+          </button>
+          <button
+            style={{
+              ...buttonStyle,
+              border: "none",
+              backgroundColor: next ? "#2563eb" : "#93c5fd",
+              color: "white",
+            }}
+            disabled={!next}
+            data-testid="evaluate-formula-step"
+            onClick={() => setDone((d) => d + 1)}
+          >
+            Evaluate
+          </button>
+          <button
+            style={buttonStyle}
+            data-testid="evaluate-formula-close"
+            onClick={() => close(false)}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
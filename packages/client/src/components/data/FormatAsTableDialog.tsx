@@ -0,0 +1,267 @@
+/**
+ * FormatAsTableDialog — turn the selection into a named table, or edit the
+ * table under the selected cell: rename it, toggle the totals row and
+ * banding, change its colour or convert it back to a plain range.
+ */
+import { useEffect, useState } from "react";
+import { useUIStore } from "../../stores/uiStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useHistoryStore } from "../../stores/historyStore";
+import { DEFAULT_TABLE_COLOR, useTableStore } from "../../stores/tableStore";
+import { colToLetter } from "../../utils/coordinates";
+import { refreshTableFormulas } from "../../utils/tables";
+
+const TABLE_COLORS = [
+  DEFAULT_TABLE_COLOR,
+  "#188038",
+  "#e37400",
+  "#d93025",
+  "#9334e6",
+  "#5f6368",
+];
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 12px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  boxSizing: "border-box",
+} as const;
+
+const labelStyle = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: 500,
+  marginBottom: "4px",
+} as const;
+
+const checkboxLabelStyle = {
+  display: "flex",
+  alignItems: "center",
+  gap: "8px",
+  fontSize: "13px",
+  marginBottom: "12px",
+} as const;
+
+const buttonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+} as const;
+
+export function FormatAsTableDialog() {
+  const isOpen = useUIStore((s) => s.isFormatAsTableOpen);
+  const close = useUIStore((s) => s.setFormatAsTableOpen);
+  const selectedCell = useUIStore((s) => s.selectedCell);
+  const selections = useUIStore((s) => s.selections);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+  const table = useTableStore((s) =>
+    selectedCell
+      ? s.getTableAt(sheetId, selectedCell.row, selectedCell.col)
+      : undefined,
+  );
+
+  const [name, setName] = useState("");
+  const [showTotalsRow, setShowTotalsRow] = useState(false);
+  const [showBandedRows, setShowBandedRows] = useState(true);
+  const [color, setColor] = useState(DEFAULT_TABLE_COLOR);
+  const [error, setError] = useState("");
+
+  // Start from the table's current settings each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(table?.name ?? "");
+    setShowTotalsRow(table?.showTotalsRow ?? false);
+    setShowBandedRows(table?.showBandedRows ?? true);
+    setColor(table?.color ?? DEFAULT_TABLE_COLOR);
+    setError("");
+  }, [isOpen, table]);
+
+  if (!isOpen) return null;
+
+  const sel = selections[selections.length - 1];
+  const rangeLabel = sel
+    ? `${colToLetter(Math.min(sel.start.col, sel.end.col))}${Math.min(sel.start.row, sel.end.row) + 1}:` +
+      `${colToLetter(Math.max(sel.start.col, sel.end.col))}${Math.max(sel.start.row, sel.end.row) + 1}`
+    : "";
+
+  const handleCreate = () => {
+    if (!sel) return;
+    useHistoryStore.getState().pushUndo();
+    const created = useTableStore.getState().createTable(sheetId, sel, color);
+    if (!created) {
+      setError(
+        "Select a header row and at least one data row that don't overlap another table",
+      );
+      return;
+    }
+    close(false);
+  };
+
+  const handleSave = () => {
+    if (!table) return;
+    const tables = useTableStore.getState();
+    useHistoryStore.getState().pushUndo();
+
+    if (name !== table.name && !tables.renameTable(table.id, name)) {
+      setError(
+        "Table names must start with a letter, contain only letters, digits and underscores, and be unique",
+      );
+      return;
+    }
+    if (!tables.setTotalsRow(table.id, showTotalsRow)) {
+      setError("The row below the table must be empty to add a totals row");
+      return;
+    }
+    tables.updateTable(table.id, { showBandedRows, color });
+    refreshTableFormulas();
+    close(false);
+  };
+
+  const handleConvert = () => {
+    if (!table) return;
+    useHistoryStore.getState().pushUndo();
+    useTableStore.getState().removeTable(table.id);
+    refreshTableFormulas();
+    close(false);
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="format-as-table-overlay"
+      onClick={() => close(false)}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "384px",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="format-as-table-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          {table ? "Table settings" : "Format as table"}
+        </h2>
+
+        {table ? (
+          <>
+            <div style={{ marginBottom: "12px" }}>
+              <label style={labelStyle}>Table name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                style={inputStyle}
+                data-testid="format-as-table-name"
+              />
+            </div>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showTotalsRow}
+                onChange={(e) => setShowTotalsRow(e.target.checked)}
+                data-testid="format-as-table-totals"
+              />
+              Totals row
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showBandedRows}
+                onChange={(e) => setShowBandedRows(e.target.checked)}
+                data-testid="format-as-table-banded"
+              />
+              Banded rows
+            </label>
+          </>
+        ) : (
+          <p style={{ fontSize: "13px", marginBottom: "12px" }}>
+            Range <strong>{rangeLabel}</strong>. The first row becomes the
+            header row.
+          </p>
+        )}
+
+        <div style={{ marginBottom: "16px" }}>
+          <label style={labelStyle}>Colour</label>
+          <div style={{ display: "flex", gap: "8px" }}>
+            {TABLE_COLORS.map((c) => (
+              <button
+                key={c}
+                aria-label={c}
+                style={{
+                  width: "24px",
+                  height: "24px",
+                  borderRadius: "4px",
+                  backgroundColor: c,
+                  border: c === color ? "2px solid #111827" : "none",
+                }}
+                data-testid={`format-as-table-color-${c.slice(1)}`}
+                onClick={() => setColor(c)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <p
+            style={{
+              fontSize: "12px",
+              color: "#ef4444",
+              marginBottom: "12px",
+            }}
+          >
+            {error}
+          </p>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          {table && (
+            <button
+              style={{ ...buttonStyle, marginRight: "auto" }}
+              data-testid="format-as-table-convert"
+              onClick={handleConvert}
+            >
+              Convert to range
+            </button>
+          )}
+          <button
+            style={buttonStyle}
+            data-testid="format-as-table-cancel"
+            onClick={() => close(false)}
+          >
+            Cancel
+          </button>
+          <button
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              backgroundColor: "#2563eb",
+              color: "white",
+              borderRadius: "4px",
+            }}
+            data-testid="format-as-table-save"
+            onClick={table ? handleSave : handleCreate}
+          >
+            {table ? "Save" : "Create"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
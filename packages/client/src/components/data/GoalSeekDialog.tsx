@@ -3,13 +3,13 @@
  * cell reach a target value.
  */
 import { useState } from "react";
+import type { CellValueGetter } from "@gridspace/formula";
 import { useUIStore } from "../../stores/uiStore";
 import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
 import { useCellStore } from "../../stores/cellStore";
 import { useFormulaStore } from "../../stores/formulaStore";
 import { useHistoryStore } from "../../stores/historyStore";
 import { cellRefToPosition, getCellKey } from "../../utils/coordinates";
-import type { CellValueGetter } from "../../types/formula";
 
 interface GoalSeekResult {
   found: boolean;
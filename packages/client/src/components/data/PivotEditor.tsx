@@ -1,6 +1,103 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { usePivotStore } from "../../stores/pivotStore";
-import type { PivotAggregation } from "../../types/grid";
+import { useCellStore } from "../../stores/cellStore";
+import { pivotFieldNames, validateCalculatedField } from "../../utils/pivot";
+import type {
+  PivotAggregation,
+  PivotFieldConfig,
+  PivotGrouping,
+  PivotShowAs,
+  PivotValueConfig,
+} from "../../types/grid";
+
+const AGGREGATIONS: PivotAggregation[] = [
+  "SUM",
+  "COUNT",
+  "AVERAGE",
+  "MIN",
+  "MAX",
+  "COUNTUNIQUE",
+  "MEDIAN",
+  "STDEV",
+];
+
+const SHOW_AS: { value: PivotShowAs; label: string }[] = [
+  { value: "value", label: "Value" },
+  { value: "percentOfRow", label: "% of row" },
+  { value: "percentOfColumn", label: "% of column" },
+  { value: "percentOfGrandTotal", label: "% of grand total" },
+  { value: "runningTotal", label: "Running total" },
+];
+
+const selectStyle = {
+  fontSize: "11px",
+  border: "1px solid #dadce0",
+  borderRadius: "4px",
+  padding: "1px 2px",
+} as const;
+
+const inputStyle = {
+  width: "100%",
+  padding: "4px 8px",
+  fontSize: "12px",
+  border: "1px solid #dadce0",
+  borderRadius: "4px",
+  marginBottom: "4px",
+  boxSizing: "border-box",
+} as const;
+
+/** Date or number grouping of a row or column field */
+function GroupingSelect({
+  grouping,
+  onChange,
+  testId,
+}: {
+  grouping: PivotGrouping | undefined;
+  onChange: (grouping: PivotGrouping | undefined) => void;
+  testId: string;
+}) {
+  const value =
+    grouping?.type === "date" ? grouping.by : (grouping?.type ?? "none");
+  return (
+    <span style={{ display: "flex", gap: "4px", alignItems: "center" }}>
+      <select
+        value={value}
+        onChange={(e) => {
+          const next = e.target.value;
+          if (next === "none") onChange(undefined);
+          else if (next === "number") onChange({ type: "number", size: 10 });
+          else {
+            onChange({
+              type: "date",
+              by: next as "year" | "quarter" | "month",
+            });
+          }
+        }}
+        style={selectStyle}
+        data-testid={testId}
+      >
+        <option value="none">No grouping</option>
+        <option value="year">By year</option>
+        <option value="quarter">By quarter</option>
+        <option value="month">By month</option>
+        <option value="number">Buckets</option>
+      </select>
+      {grouping?.type === "number" && (
+        <input
+          type="number"
+          min={0}
+          value={grouping.size}
+          onChange={(e) =>
+            onChange({ ...grouping, size: Number(e.target.value) })
+          }
+          style={{ ...selectStyle, width: "48px" }}
+          title="Bucket size"
+          data-testid={`${testId}-size`}
+        />
+      )}
+    </span>
+  );
+}
 
 export function PivotEditor() {
   const editorOpen = usePivotStore((s) => s.editorOpen);
@@ -9,10 +106,22 @@ export function PivotEditor() {
   const setRowFields = usePivotStore((s) => s.setRowFields);
   const setColFields = usePivotStore((s) => s.setColFields);
   const setValueFields = usePivotStore((s) => s.setValueFields);
+  const setCalculatedFields = usePivotStore((s) => s.setCalculatedFields);
+  const updatePivot = usePivotStore((s) => s.updatePivot);
+
+  const [calcName, setCalcName] = useState("");
+  const [calcFormula, setCalcFormula] = useState("");
+  const [calcError, setCalcError] = useState("");
 
   const pivot = usePivotStore((s) =>
     s.editingPivotId ? s.pivots.get(s.editingPivotId) : undefined,
   );
+  const conflict = usePivotStore((s) =>
+    s.editingPivotId ? s.conflicts.get(s.editingPivotId) : undefined,
+  );
+  const sourceCells = useCellStore((s) =>
+    pivot ? s.cells.get(pivot.sourceSheetId) : undefined,
+  );
 
   const handleAddRowField = useCallback(
     (col: number, label: string) => {
@@ -31,11 +140,18 @@ export function PivotEditor() {
   );
 
   const handleAddValueField = useCallback(
-    (col: number, label: string, aggregation: PivotAggregation) => {
+    (
+      col: number,
+      label: string,
+      aggregation: PivotAggregation,
+      calculatedField?: string,
+    ) => {
       if (!editingPivotId || !pivot) return;
       setValueFields(editingPivotId, [
         ...pivot.valueFields,
-        { col, label, aggregation },
+        calculatedField
+          ? { col, label, aggregation, calculatedField }
+          : { col, label, aggregation },
       ]);
     },
     [editingPivotId, pivot, setValueFields],
@@ -71,21 +187,77 @@ export function PivotEditor() {
     [editingPivotId, pivot, setValueFields],
   );
 
-  if (!editorOpen || !pivot) return null;
+  const handleUpdateField = useCallback(
+    (kind: "row" | "col", idx: number, updates: Partial<PivotFieldConfig>) => {
+      if (!editingPivotId || !pivot) return;
+      const fields = kind === "row" ? pivot.rowFields : pivot.colFields;
+      const next = fields.map((f, i) => (i === idx ? { ...f, ...updates } : f));
+      if (kind === "row") setRowFields(editingPivotId, next);
+      else setColFields(editingPivotId, next);
+    },
+    [editingPivotId, pivot, setRowFields, setColFields],
+  );
 
-  // Compute available columns from source range
-  const startCol = Math.min(
-    pivot.sourceRange.start.col,
-    pivot.sourceRange.end.col,
+  const handleUpdateValueField = useCallback(
+    (idx: number, updates: Partial<PivotValueConfig>) => {
+      if (!editingPivotId || !pivot) return;
+      setValueFields(
+        editingPivotId,
+        pivot.valueFields.map((f, i) => (i === idx ? { ...f, ...updates } : f)),
+      );
+    },
+    [editingPivotId, pivot, setValueFields],
   );
-  const endCol = Math.max(
-    pivot.sourceRange.start.col,
-    pivot.sourceRange.end.col,
+
+  const handleAddCalculatedField = useCallback(() => {
+    if (!editingPivotId || !pivot) return;
+    const existing = pivot.calculatedFields ?? [];
+    const field = { name: calcName.trim(), formula: calcFormula.trim() };
+    const error = validateCalculatedField(
+      field,
+      Array.from(pivotFieldNames(pivot, sourceCells ?? new Map()).values()),
+      existing,
+    );
+    if (error) {
+      setCalcError(error);
+      return;
+    }
+    setCalculatedFields(editingPivotId, [...existing, field]);
+    setCalcName("");
+    setCalcFormula("");
+    setCalcError("");
+  }, [
+    editingPivotId,
+    pivot,
+    sourceCells,
+    calcName,
+    calcFormula,
+    setCalculatedFields,
+  ]);
+
+  const handleRemoveCalculatedField = useCallback(
+    (name: string) => {
+      if (!editingPivotId || !pivot) return;
+      setCalculatedFields(
+        editingPivotId,
+        (pivot.calculatedFields ?? []).filter((f) => f.name !== name),
+      );
+      // Values summarising the field go with it
+      setValueFields(
+        editingPivotId,
+        pivot.valueFields.filter((f) => f.calculatedField !== name),
+      );
+    },
+    [editingPivotId, pivot, setCalculatedFields, setValueFields],
+  );
+
+  if (!editorOpen || !pivot) return null;
+
+  // Fields are the source range's columns, named by its header row
+  const availableCols = Array.from(
+    pivotFieldNames(pivot, sourceCells ?? new Map()),
+    ([col, label]) => ({ col, label }),
   );
-  const availableCols = [];
-  for (let c = startCol; c <= endCol; c++) {
-    availableCols.push({ col: c, label: `Column ${c + 1}` });
-  }
 
   return (
     <div
@@ -140,6 +312,21 @@ export function PivotEditor() {
       </div>
 
       <div className="p-4 flex-1" style={{ padding: "16px", flex: 1 }}>
+        {conflict && (
+          <div
+            data-testid="pivot-conflict"
+            style={{
+              fontSize: "12px",
+              color: "#d93025",
+              background: "#fce8e6",
+              borderRadius: "4px",
+              padding: "6px 8px",
+              marginBottom: "12px",
+            }}
+          >
+            {conflict}. Clear those cells or move the pivot table.
+          </div>
+        )}
         {/* Available columns */}
         <div className="mb-4" style={{ marginBottom: "16px" }}>
           <div
@@ -242,9 +429,18 @@ export function PivotEditor() {
                 marginBottom: "2px",
                 display: "flex",
                 justifyContent: "space-between",
+                alignItems: "center",
+                gap: "4px",
               }}
             >
-              {f.label}
+              <span style={{ flex: 1 }}>{f.label}</span>
+              <GroupingSelect
+                grouping={f.grouping}
+                onChange={(grouping) =>
+                  handleUpdateField("row", i, { grouping })
+                }
+                testId={`pivot-row-grouping-${i}`}
+              />
               <button
                 onClick={() => handleRemoveRowField(i)}
                 className="hover:text-red-500"
@@ -294,9 +490,18 @@ export function PivotEditor() {
                 marginBottom: "2px",
                 display: "flex",
                 justifyContent: "space-between",
+                alignItems: "center",
+                gap: "4px",
               }}
             >
-              {f.label}
+              <span style={{ flex: 1 }}>{f.label}</span>
+              <GroupingSelect
+                grouping={f.grouping}
+                onChange={(grouping) =>
+                  handleUpdateField("col", i, { grouping })
+                }
+                testId={`pivot-col-grouping-${i}`}
+              />
               <button
                 onClick={() => handleRemoveColField(i)}
                 className="hover:text-red-500"
@@ -347,11 +552,42 @@ export function PivotEditor() {
                 display: "flex",
                 justifyContent: "space-between",
                 alignItems: "center",
+                gap: "4px",
               }}
             >
-              <span>
-                {f.label} ({f.aggregation})
-              </span>
+              <span style={{ flex: 1 }}>{f.label}</span>
+              <select
+                value={f.aggregation}
+                onChange={(e) =>
+                  handleUpdateValueField(i, {
+                    aggregation: e.target.value as PivotAggregation,
+                  })
+                }
+                style={selectStyle}
+                data-testid={`pivot-value-aggregation-${i}`}
+              >
+                {AGGREGATIONS.map((agg) => (
+                  <option key={agg} value={agg}>
+                    {agg}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={f.showAs ?? "value"}
+                onChange={(e) =>
+                  handleUpdateValueField(i, {
+                    showAs: e.target.value as PivotShowAs,
+                  })
+                }
+                style={selectStyle}
+                data-testid={`pivot-value-show-as-${i}`}
+              >
+                {SHOW_AS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
               <button
                 onClick={() => handleRemoveValueField(i)}
                 className="hover:text-red-500"
@@ -375,6 +611,131 @@ export function PivotEditor() {
             </div>
           )}
         </div>
+
+        {/* Calculated fields */}
+        <div className="mb-4" style={{ marginBottom: "16px" }}>
+          <div
+            className="text-xs font-semibold mb-1 text-gray-600"
+            style={{
+              fontSize: "12px",
+              fontWeight: 600,
+              marginBottom: "4px",
+              color: "#444",
+            }}
+          >
+            Calculated Fields
+          </div>
+          {(pivot.calculatedFields ?? []).map((f) => (
+            <div
+              key={f.name}
+              data-testid={`pivot-calculated-${f.name}`}
+              style={{
+                padding: "4px 8px",
+                fontSize: "12px",
+                border: "1px solid #e2e2e2",
+                borderRadius: "4px",
+                marginBottom: "4px",
+                display: "flex",
+                gap: "4px",
+              }}
+            >
+              <span style={{ flex: 1 }} title={f.formula}>
+                {f.name} = {f.formula}
+              </span>
+              <button
+                onClick={() => handleAddValueField(-1, f.name, "SUM", f.name)}
+                style={{
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                  fontSize: "10px",
+                  color: "#1a73e8",
+                }}
+              >
+                +Val
+              </button>
+              <button
+                onClick={() => handleRemoveCalculatedField(f.name)}
+                style={{
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                  fontSize: "10px",
+                }}
+              >
+                &#10005;
+              </button>
+            </div>
+          ))}
+          <input
+            type="text"
+            placeholder="Name"
+            value={calcName}
+            onChange={(e) => setCalcName(e.target.value)}
+            style={inputStyle}
+            data-testid="pivot-calculated-name"
+          />
+          <input
+            type="text"
+            placeholder="Formula, e.g. Revenue - Cost"
+            value={calcFormula}
+            onChange={(e) => setCalcFormula(e.target.value)}
+            style={inputStyle}
+            data-testid="pivot-calculated-formula"
+          />
+          {calcError && (
+            <div
+              style={{
+                fontSize: "11px",
+                color: "#d93025",
+                marginBottom: "4px",
+              }}
+              data-testid="pivot-calculated-error"
+            >
+              {calcError}
+            </div>
+          )}
+          <button
+            onClick={handleAddCalculatedField}
+            data-testid="pivot-calculated-add"
+            style={{
+              fontSize: "12px",
+              padding: "4px 8px",
+              border: "1px solid #dadce0",
+              borderRadius: "4px",
+              background: "white",
+              cursor: "pointer",
+            }}
+          >
+            Add field
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div style={{ fontSize: "12px" }}>
+          <label style={{ display: "block", marginBottom: "4px" }}>
+            <input
+              type="checkbox"
+              checked={pivot.showSubtotals ?? false}
+              onChange={(e) =>
+                updatePivot(pivot.id, { showSubtotals: e.target.checked })
+              }
+              data-testid="pivot-subtotals"
+            />{" "}
+            Subtotals
+          </label>
+          <label style={{ display: "block" }}>
+            <input
+              type="checkbox"
+              checked={pivot.showGrandTotals ?? false}
+              onChange={(e) =>
+                updatePivot(pivot.id, { showGrandTotals: e.target.checked })
+              }
+              data-testid="pivot-grand-totals"
+            />{" "}
+            Grand totals
+          </label>
+        </div>
       </div>
     </div>
   );
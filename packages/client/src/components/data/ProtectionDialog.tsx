@@ -1,11 +1,14 @@
 /**
- * ProtectionDialog — manage protected ranges for the current sheet.
- * List existing ranges, add new ones by range reference, remove them.
+ * ProtectionDialog — protected ranges and sheets of the current sheet.
+ * The owner protects a range or the whole sheet and lists who else may edit
+ * it; the server rejects everyone else's writes. Others see what is
+ * protected and whether they can edit it.
  */
 import { useState, useMemo } from "react";
 import { useUIStore } from "../../stores/uiStore";
 import { useDataStore } from "../../stores/dataStore";
 import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useProtectionStore } from "../../stores/protectionStore";
 import { cellRefToPosition, positionToCellRef } from "../../utils/coordinates";
 import type { ProtectedRange } from "../../types/grid";
 
@@ -16,6 +19,8 @@ export function ProtectionDialog() {
   const close = useUIStore((s) => s.setProtectionDialogOpen);
   const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
   const protectedRangesMap = useDataStore((s) => s.protectedRanges);
+  const canManage = useProtectionStore((s) => s.canManage);
+  const storeError = useProtectionStore((s) => s.error);
   const ranges = useMemo(
     () =>
       sheetId
@@ -24,8 +29,11 @@ export function ProtectionDialog() {
     [sheetId, protectedRangesMap],
   );
 
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [wholeSheet, setWholeSheet] = useState(false);
   const [rangeInput, setRangeInput] = useState("");
   const [description, setDescription] = useState("");
+  const [editorsInput, setEditorsInput] = useState("");
   const [error, setError] = useState("");
 
   if (!isOpen) return null;
@@ -72,38 +80,77 @@ export function ProtectionDialog() {
     return null;
   };
 
-  const handleAdd = () => {
+  const resetForm = () => {
+    setEditingId(null);
+    setRangeInput("");
+    setDescription("");
+    setEditorsInput("");
+    setWholeSheet(false);
+    setError("");
+  };
+
+  const handleSubmit = async () => {
     if (!sheetId) return;
-    const parsed = parseRange(rangeInput);
-    if (!parsed) {
+    const parsed = wholeSheet ? null : parseRange(rangeInput);
+    if (!wholeSheet && !parsed) {
       setError("Invalid range. Use format like A1:C5");
       return;
     }
     setError("");
 
-    const newRange: ProtectedRange = {
-      id: `prot-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
-      sheetId,
-      ...parsed,
-      description: description.trim() || undefined,
+    const changes = {
+      range: parsed,
+      description: description.trim() || null,
+      editorEmails: editorsInput
+        .split(/[\s,;]+/)
+        .map((e) => e.trim())
+        .filter(Boolean),
     };
+    const store = useProtectionStore.getState();
+    const ok = editingId
+      ? await store.updateProtection(editingId, changes)
+      : await store.createProtection(sheetId, changes);
+    if (ok) resetForm();
+  };
 
-    useDataStore.getState().addProtectedRange(newRange);
-    setRangeInput("");
-    setDescription("");
+  const handleEdit = (r: ProtectedRange) => {
+    setEditingId(r.id);
+    setWholeSheet(!!r.wholeSheet);
+    setRangeInput(r.wholeSheet ? "" : formatRangeDisplay(r));
+    setDescription(r.description ?? "");
+    setEditorsInput((r.editors ?? []).map((e) => e.email).join(", "));
+    setError("");
   };
 
-  const handleRemove = (id: string) => {
-    if (!sheetId) return;
-    useDataStore.getState().removeProtectedRange(sheetId, id);
+  const handleRemove = async (id: string) => {
+    await useProtectionStore.getState().removeProtection(id);
+    if (editingId === id) resetForm();
   };
 
   const formatRangeDisplay = (r: ProtectedRange): string => {
+    if (r.wholeSheet) return "Entire sheet";
     const start = positionToCellRef({ row: r.startRow, col: r.startCol });
     const end = positionToCellRef({ row: r.endRow, col: r.endCol });
     return start === end ? start : `${start}:${end}`;
   };
 
+  const formatEditors = (r: ProtectedRange): string => {
+    const emails = (r.editors ?? []).map((e) => e.email);
+    return emails.length > 0
+      ? `Owner, ${emails.join(", ")}`
+      : "Only the owner can edit";
+  };
+
+  const inputStyle = {
+    width: "100%",
+    marginTop: "4px",
+    padding: "6px 12px",
+    fontSize: "13px",
+    border: "1px solid #d1d5db",
+    borderRadius: "4px",
+    boxSizing: "border-box" as const,
+  };
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
@@ -167,7 +214,7 @@ export function ProtectionDialog() {
                 }}
                 data-testid={`protected-range-${r.id}`}
               >
-                <div>
+                <div style={{ minWidth: 0 }}>
                   <span
                     className="text-sm font-medium"
                     style={{ fontSize: "13px", fontWeight: 500 }}
@@ -186,76 +233,139 @@ export function ProtectionDialog() {
                       {r.description}
                     </span>
                   )}
+                  <div
+                    className="text-xs text-gray-500 truncate"
+                    style={{ fontSize: "11px", color: "#6b7280" }}
+                  >
+                    {formatEditors(r)}
+                  </div>
                 </div>
-                <button
-                  className="text-xs text-red-500 hover:text-red-700"
-                  style={{ fontSize: "12px", color: "#ef4444" }}
-                  onClick={() => handleRemove(r.id)}
-                  data-testid={`remove-protection-${r.id}`}
-                >
-                  Remove
-                </button>
+                {canManage ? (
+                  <div style={{ display: "flex", gap: "8px", flexShrink: 0 }}>
+                    <button
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                      style={{ fontSize: "12px", color: "#2563eb" }}
+                      onClick={() => handleEdit(r)}
+                      data-testid={`edit-protection-${r.id}`}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="text-xs text-red-500 hover:text-red-700"
+                      style={{ fontSize: "12px", color: "#ef4444" }}
+                      onClick={() => handleRemove(r.id)}
+                      data-testid={`remove-protection-${r.id}`}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <span
+                    className={`text-xs ${r.canEdit ? "text-green-600" : "text-gray-400"}`}
+                    style={{ fontSize: "11px", flexShrink: 0 }}
+                  >
+                    {r.canEdit ? "You can edit" : "View only"}
+                  </span>
+                )}
               </div>
             ))
           )}
         </div>
 
-        {/* Add new range */}
-        <div style={{ marginBottom: "12px" }}>
-          <label
-            className="text-sm font-medium"
-            style={{ fontSize: "13px", fontWeight: 500 }}
-          >
-            Add protected range
-          </label>
-          <input
-            type="text"
-            placeholder="e.g. A1:C5"
-            value={rangeInput}
-            onChange={(e) => setRangeInput(e.target.value)}
-            className="w-full mt-1 px-3 py-1.5 text-sm border border-gray-300 rounded"
-            style={{
-              width: "100%",
-              marginTop: "4px",
-              padding: "6px 12px",
-              fontSize: "13px",
-              border: "1px solid #d1d5db",
-              borderRadius: "4px",
-              boxSizing: "border-box",
-            }}
-            data-testid="protection-range-input"
-          />
-          <input
-            type="text"
-            placeholder="Description (optional)"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            className="w-full mt-1 px-3 py-1.5 text-sm border border-gray-300 rounded"
-            style={{
-              width: "100%",
-              marginTop: "4px",
-              padding: "6px 12px",
-              fontSize: "13px",
-              border: "1px solid #d1d5db",
-              borderRadius: "4px",
-              boxSizing: "border-box",
-            }}
-            data-testid="protection-description-input"
-          />
-          {error && (
-            <p
-              className="text-xs text-red-500 mt-1"
-              style={{ fontSize: "11px", color: "#ef4444", marginTop: "4px" }}
+        {/* Add or change a protection (owner only) */}
+        {canManage ? (
+          <div style={{ marginBottom: "12px" }}>
+            <label
+              className="text-sm font-medium"
+              style={{ fontSize: "13px", fontWeight: 500 }}
             >
-              {error}
-            </p>
-          )}
-        </div>
+              {editingId ? "Edit protection" : "Add protected range"}
+            </label>
+            <label
+              className="flex items-center gap-2 text-sm mt-1"
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                fontSize: "13px",
+                marginTop: "4px",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={wholeSheet}
+                onChange={(e) => setWholeSheet(e.target.checked)}
+                data-testid="protection-whole-sheet"
+              />
+              Protect the entire sheet
+            </label>
+            {!wholeSheet && (
+              <input
+                type="text"
+                placeholder="e.g. A1:C5"
+                value={rangeInput}
+                onChange={(e) => setRangeInput(e.target.value)}
+                className="w-full mt-1 px-3 py-1.5 text-sm border border-gray-300 rounded"
+                style={inputStyle}
+                data-testid="protection-range-input"
+              />
+            )}
+            <input
+              type="text"
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full mt-1 px-3 py-1.5 text-sm border border-gray-300 rounded"
+              style={inputStyle}
+              data-testid="protection-description-input"
+            />
+            <input
+              type="text"
+              placeholder="Who else can edit: emails, comma separated"
+              value={editorsInput}
+              onChange={(e) => setEditorsInput(e.target.value)}
+              className="w-full mt-1 px-3 py-1.5 text-sm border border-gray-300 rounded"
+              style={inputStyle}
+              data-testid="protection-editors-input"
+            />
+            {(error || storeError) && (
+              <p
+                className="text-xs text-red-500 mt-1"
+                style={{ fontSize: "11px", color: "#ef4444", marginTop: "4px" }}
+                data-testid="protection-error"
+              >
+                {error || storeError}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p
+            className="text-xs text-gray-500"
+            style={{ fontSize: "12px", color: "#6b7280", marginBottom: "12px" }}
+          >
+            Only the owner can change protected ranges.
+          </p>
+        )}
 
         <div
           className="flex justify-end gap-2"
           style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
         >
+          {editingId && (
+            <button
+              className="px-4 py-2 text-sm border rounded hover:bg-gray-50"
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                border: "1px solid #d1d5db",
+                borderRadius: "4px",
+              }}
+              data-testid="protection-cancel-edit"
+              onClick={resetForm}
+            >
+              Cancel
+            </button>
+          )}
           <button
             className="px-4 py-2 text-sm border rounded hover:bg-gray-50"
             style={{
@@ -269,20 +379,22 @@ export function ProtectionDialog() {
           >
             Close
           </button>
-          <button
-            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
-            style={{
-              padding: "8px 16px",
-              fontSize: "14px",
-              backgroundColor: "#2563eb",
-              color: "white",
-              borderRadius: "4px",
-            }}
-            data-testid="protection-add"
-            onClick={handleAdd}
-          >
-            Add Range
-          </button>
+          {canManage && (
+            <button
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                backgroundColor: "#2563eb",
+                color: "white",
+                borderRadius: "4px",
+              }}
+              data-testid="protection-add"
+              onClick={handleSubmit}
+            >
+              {editingId ? "Save" : "Add Range"}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,406 @@
+/**
+ * ScenarioManagerDialog — save named sets of input values for the current
+ * sheet, switch between them, and summarise them on a new sheet.
+ */
+import { useMemo, useState } from "react";
+import { useUIStore } from "../../stores/uiStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { useCellStore } from "../../stores/cellStore";
+import { useHistoryStore } from "../../stores/historyStore";
+import { useWhatIfStore } from "../../stores/whatIfStore";
+import { positionToCellRef } from "../../utils/coordinates";
+import { parseCellList } from "../../utils/whatIf";
+import type { Scenario, ScenarioCell } from "../../types/grid";
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 12px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  boxSizing: "border-box",
+} as const;
+
+const labelStyle = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: 500,
+  marginBottom: "4px",
+} as const;
+
+const buttonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+} as const;
+
+const primaryButtonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  backgroundColor: "#2563eb",
+  color: "white",
+  borderRadius: "4px",
+} as const;
+
+const EMPTY_SCENARIOS: Scenario[] = [];
+
+/** Typed text as a cell value: numbers stay numbers, blank is empty */
+function parseValue(text: string): ScenarioCell["value"] {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  const num = Number(trimmed);
+  return isNaN(num) ? trimmed : num;
+}
+
+function formatCells(scenario: Scenario): string {
+  return scenario.cells.map((c) => positionToCellRef(c)).join(", ");
+}
+
+export function ScenarioManagerDialog() {
+  const isOpen = useUIStore((s) => s.isScenarioManagerOpen);
+  const close = useUIStore((s) => s.setScenarioManagerOpen);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+  const scenarioMap = useWhatIfStore((s) => s.scenarios);
+  const scenarios = useMemo(
+    () =>
+      sheetId
+        ? Array.from(scenarioMap.values()).filter((s) => s.sheetId === sheetId)
+        : EMPTY_SCENARIOS,
+    [sheetId, scenarioMap],
+  );
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [cellsInput, setCellsInput] = useState("");
+  const [comment, setComment] = useState("");
+  /** Values typed for the edited scenario's cells, keyed by A1 reference */
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [resultCells, setResultCells] = useState("");
+  const [error, setError] = useState("");
+
+  if (!isOpen) return null;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setCellsInput("");
+    setComment("");
+    setValues({});
+    setError("");
+  };
+
+  const parseCells = () => {
+    try {
+      const cells = parseCellList(cellsInput);
+      if (cells.length > 0) return cells;
+    } catch {
+      // Reported below
+    }
+    setError("Enter the changing cells, e.g. B2:B4, D2");
+    return null;
+  };
+
+  const handleSubmit = () => {
+    if (!sheetId) return;
+    if (!name.trim()) {
+      setError("Enter a scenario name");
+      return;
+    }
+    const cells = parseCells();
+    if (!cells) return;
+    const store = useWhatIfStore.getState();
+
+    if (!editingId) {
+      const created = store.addScenario(sheetId, name, cells, comment);
+      if (!created) {
+        setError("Scenario names must be unique on the sheet");
+        return;
+      }
+      resetForm();
+      return;
+    }
+
+    // Typed values win; cells new to the scenario start from the sheet
+    const cellStore = useCellStore.getState();
+    const updated: ScenarioCell[] = cells.map((pos) => {
+      const ref = positionToCellRef(pos);
+      return {
+        ...pos,
+        value:
+          ref in values
+            ? parseValue(values[ref])
+            : (cellStore.getCell(sheetId, pos.row, pos.col)?.value ?? null),
+      };
+    });
+    if (!store.updateScenario(editingId, { name, comment, cells: updated })) {
+      setError("Scenario names must be unique on the sheet");
+      return;
+    }
+    resetForm();
+  };
+
+  const handleEdit = (scenario: Scenario) => {
+    setEditingId(scenario.id);
+    setName(scenario.name);
+    setCellsInput(formatCells(scenario));
+    setComment(scenario.comment ?? "");
+    setValues(
+      Object.fromEntries(
+        scenario.cells.map((c) => [
+          positionToCellRef(c),
+          c.value === null ? "" : String(c.value),
+        ]),
+      ),
+    );
+    setError("");
+  };
+
+  const handleShow = (scenario: Scenario) => {
+    useHistoryStore.getState().pushUndo();
+    useWhatIfStore.getState().showScenario(scenario.id);
+  };
+
+  const handleRemove = (id: string) => {
+    useWhatIfStore.getState().removeScenario(id);
+    if (editingId === id) resetForm();
+  };
+
+  const handleSummary = () => {
+    if (!sheetId) return;
+    let cells: ReturnType<typeof parseCellList>;
+    try {
+      cells = parseCellList(resultCells);
+    } catch {
+      setError("Invalid result cells");
+      return;
+    }
+    const summaryId = useWhatIfStore
+      .getState()
+      .createScenarioSummary(sheetId, cells);
+    if (!summaryId) {
+      setError("Add a scenario first");
+      return;
+    }
+    useSpreadsheetStore.getState().setActiveSheet(summaryId);
+    resetForm();
+    close(false);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="scenario-overlay"
+      onClick={() => close(false)}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl p-6"
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "440px",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="scenario-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          Scenario Manager
+        </h2>
+
+        <div
+          style={{
+            maxHeight: "200px",
+            overflowY: "auto",
+            marginBottom: "16px",
+          }}
+        >
+          {scenarios.length === 0 ? (
+            <p style={{ fontSize: "13px", color: "#6b7280" }}>
+              No scenarios on this sheet.
+            </p>
+          ) : (
+            scenarios.map((scenario) => (
+              <div
+                key={scenario.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  padding: "6px 0",
+                  borderBottom: "1px solid #f3f4f6",
+                }}
+                data-testid={`scenario-${scenario.id}`}
+              >
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontSize: "13px", fontWeight: 500 }}>
+                    {scenario.name}
+                  </div>
+                  <div
+                    className="truncate"
+                    style={{ fontSize: "11px", color: "#6b7280" }}
+                  >
+                    {formatCells(scenario)}
+                    {scenario.comment ? ` — ${scenario.comment}` : ""}
+                  </div>
+                </div>
+                <div style={{ display: "flex", gap: "8px", flexShrink: 0 }}>
+                  <button
+                    style={{ fontSize: "12px", color: "#16a34a" }}
+                    onClick={() => handleShow(scenario)}
+                    data-testid={`show-scenario-${scenario.id}`}
+                  >
+                    Show
+                  </button>
+                  <button
+                    style={{ fontSize: "12px", color: "#2563eb" }}
+                    onClick={() => handleEdit(scenario)}
+                    data-testid={`edit-scenario-${scenario.id}`}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    style={{ fontSize: "12px", color: "#ef4444" }}
+                    onClick={() => handleRemove(scenario.id)}
+                    data-testid={`remove-scenario-${scenario.id}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>
+            {editingId ? "Edit scenario" : "Add scenario"}
+          </label>
+          <input
+            type="text"
+            placeholder="Scenario name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ ...inputStyle, marginBottom: "6px" }}
+            data-testid="scenario-name"
+          />
+          <input
+            type="text"
+            placeholder="Changing cells, e.g. B2:B4"
+            value={cellsInput}
+            onChange={(e) => setCellsInput(e.target.value)}
+            style={{ ...inputStyle, marginBottom: "6px" }}
+            data-testid="scenario-cells"
+          />
+          <input
+            type="text"
+            placeholder="Comment (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            style={inputStyle}
+            data-testid="scenario-comment"
+          />
+          {editingId &&
+            Object.keys(values).map((ref) => (
+              <div
+                key={ref}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "8px",
+                  marginTop: "6px",
+                  fontSize: "13px",
+                }}
+              >
+                <span style={{ width: "48px" }}>{ref}</span>
+                <input
+                  type="text"
+                  value={values[ref]}
+                  onChange={(e) =>
+                    setValues((v) => ({ ...v, [ref]: e.target.value }))
+                  }
+                  style={inputStyle}
+                  data-testid={`scenario-value-${ref}`}
+                />
+              </div>
+            ))}
+          {!editingId && (
+            <p style={{ fontSize: "11px", color: "#6b7280", marginTop: "4px" }}>
+              The cells' current values are saved with the scenario.
+            </p>
+          )}
+        </div>
+
+        <div style={{ marginBottom: "16px" }}>
+          <label style={labelStyle}>Summary result cells</label>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <input
+              type="text"
+              placeholder="e.g. D10, D12"
+              value={resultCells}
+              onChange={(e) => setResultCells(e.target.value)}
+              style={inputStyle}
+              data-testid="scenario-result-cells"
+            />
+            <button
+              style={{ ...buttonStyle, flexShrink: 0 }}
+              onClick={handleSummary}
+              data-testid="scenario-summary"
+            >
+              Summary
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p
+            style={{ fontSize: "12px", color: "#ef4444", marginBottom: "12px" }}
+            data-testid="scenario-error"
+          >
+            {error}
+          </p>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          {editingId && (
+            <button
+              style={buttonStyle}
+              onClick={resetForm}
+              data-testid="scenario-cancel-edit"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            style={buttonStyle}
+            onClick={() => close(false)}
+            data-testid="scenario-close"
+          >
+            Close
+          </button>
+          <button
+            style={primaryButtonStyle}
+            onClick={handleSubmit}
+            data-testid="scenario-save"
+          >
+            {editingId ? "Save" : "Add"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+/**
+ * SolverDialog — maximise, minimise or hit a value in an objective cell by
+ * changing several cells, subject to constraints. The sheet is left alone
+ * until the user keeps the solution.
+ */
+import { useState } from "react";
+import { useUIStore } from "../../stores/uiStore";
+import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
+import { positionToCellRef } from "../../utils/coordinates";
+import { runSolver, applySolverSolution } from "../../utils/solverModel";
+import type { SolverConstraint, SolverRun } from "../../utils/solverModel";
+import type { SolverGoal, SolverMethod } from "../../utils/solver";
+
+const inputStyle = {
+  width: "100%",
+  padding: "6px 12px",
+  fontSize: "13px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+  boxSizing: "border-box" as const,
+};
+
+const labelStyle = {
+  display: "block",
+  fontSize: "13px",
+  fontWeight: 500,
+  marginBottom: "4px",
+};
+
+const buttonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  border: "1px solid #d1d5db",
+  borderRadius: "4px",
+};
+
+const primaryButtonStyle = {
+  padding: "8px 16px",
+  fontSize: "14px",
+  backgroundColor: "#2563eb",
+  color: "white",
+  borderRadius: "4px",
+};
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+export function SolverDialog() {
+  const isOpen = useUIStore((s) => s.isSolverDialogOpen);
+  const close = useUIStore((s) => s.setSolverDialogOpen);
+  const sheetId = useSpreadsheetStore((s) => s.activeSheetId);
+
+  const [objective, setObjective] = useState("");
+  const [goal, setGoal] = useState<SolverGoal>("max");
+  const [targetValue, setTargetValue] = useState("");
+  const [changingCells, setChangingCells] = useState("");
+  const [constraints, setConstraints] = useState<SolverConstraint[]>([]);
+  const [nonNegative, setNonNegative] = useState(true);
+  const [method, setMethod] = useState<SolverMethod>("simplex");
+  const [run, setRun] = useState<SolverRun | null>(null);
+  const [error, setError] = useState("");
+
+  if (!isOpen) return null;
+
+  const updateConstraint = (
+    index: number,
+    changes: Partial<SolverConstraint>,
+  ) => {
+    setConstraints((list) =>
+      list.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    );
+  };
+
+  const handleSolve = () => {
+    setError("");
+    setRun(null);
+    if (!sheetId) return;
+
+    const target = Number(targetValue);
+    if (goal === "value" && (targetValue.trim() === "" || isNaN(target))) {
+      setError("Target value must be a number");
+      return;
+    }
+
+    try {
+      setRun(
+        runSolver(sheetId, {
+          objective,
+          goal,
+          target: goal === "value" ? target : undefined,
+          changingCells,
+          constraints,
+          nonNegative,
+          method,
+        }),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Solver failed");
+    }
+  };
+
+  // A solution exists when the solver moved to feasible values
+  const hasSolution =
+    run?.result.status === "solved" || run?.result.status === "iteration-limit";
+
+  const handleKeep = () => {
+    if (!sheetId || !run || !hasSolution) return;
+    applySolverSolution(sheetId, run.cells, run.result.x);
+    setRun(null);
+  };
+
+  const handleClose = () => {
+    setRun(null);
+    setError("");
+    close(false);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.3)",
+      }}
+      data-testid="solver-overlay"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl p-6"
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          width: "480px",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          boxShadow: "0 20px 25px -5px rgba(0,0,0,0.1)",
+        }}
+        data-testid="solver-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "16px" }}>
+          Solver
+        </h2>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Set objective (formula cell)</label>
+          <input
+            type="text"
+            placeholder="e.g. D10"
+            value={objective}
+            onChange={(e) => setObjective(e.target.value)}
+            style={inputStyle}
+            data-testid="solver-objective"
+          />
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "12px",
+            marginBottom: "12px",
+            fontSize: "13px",
+          }}
+        >
+          <span style={{ fontWeight: 500 }}>To</span>
+          {(
+            [
+              ["max", "Max"],
+              ["min", "Min"],
+              ["value", "Value of"],
+            ] as const
+          ).map(([value, label]) => (
+            <label
+              key={value}
+              style={{ display: "flex", alignItems: "center", gap: "4px" }}
+            >
+              <input
+                type="radio"
+                name="solver-goal"
+                checked={goal === value}
+                onChange={() => setGoal(value)}
+                data-testid={`solver-goal-${value}`}
+              />
+              {label}
+            </label>
+          ))}
+          <input
+            type="text"
+            placeholder="0"
+            value={targetValue}
+            disabled={goal !== "value"}
+            onChange={(e) => setTargetValue(e.target.value)}
+            style={{ ...inputStyle, width: "96px" }}
+            data-testid="solver-target-value"
+          />
+        </div>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>By changing cells</label>
+          <input
+            type="text"
+            placeholder="e.g. B2:B5, D2"
+            value={changingCells}
+            onChange={(e) => setChangingCells(e.target.value)}
+            style={inputStyle}
+            data-testid="solver-changing-cells"
+          />
+        </div>
+
+        <div style={{ marginBottom: "12px" }}>
+          <label style={labelStyle}>Subject to the constraints</label>
+          {constraints.length === 0 && (
+            <p style={{ fontSize: "12px", color: "#6b7280" }}>
+              No constraints.
+            </p>
+          )}
+          {constraints.map((constraint, index) => (
+            <div
+              key={index}
+              style={{
+                display: "flex",
+                gap: "6px",
+                alignItems: "center",
+                marginBottom: "6px",
+              }}
+              data-testid={`solver-constraint-${index}`}
+            >
+              <input
+                type="text"
+                placeholder="Cell"
+                value={constraint.cell}
+                onChange={(e) =>
+                  updateConstraint(index, { cell: e.target.value })
+                }
+                style={{ ...inputStyle, flex: 1 }}
+                data-testid={`solver-constraint-cell-${index}`}
+              />
+              <select
+                value={constraint.op}
+                onChange={(e) =>
+                  updateConstraint(index, {
+                    op: e.target.value as SolverConstraint["op"],
+                  })
+                }
+                style={{ ...inputStyle, width: "72px", padding: "6px" }}
+                data-testid={`solver-constraint-op-${index}`}
+              >
+                <option value="<=">&lt;=</option>
+                <option value=">=">&gt;=</option>
+                <option value="=">=</option>
+                <option value="int">int</option>
+              </select>
+              <input
+                type="text"
+                placeholder={
+                  constraint.op === "int" ? "integer" : "Value or cell"
+                }
+                value={constraint.op === "int" ? "" : constraint.value}
+                disabled={constraint.op === "int"}
+                onChange={(e) =>
+                  updateConstraint(index, { value: e.target.value })
+                }
+                style={{ ...inputStyle, flex: 1 }}
+                data-testid={`solver-constraint-value-${index}`}
+              />
+              <button
+                style={{ fontSize: "12px", color: "#ef4444" }}
+                onClick={() =>
+                  setConstraints((list) => list.filter((_, i) => i !== index))
+                }
+                data-testid={`solver-constraint-remove-${index}`}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            style={{ fontSize: "12px", color: "#2563eb" }}
+            onClick={() =>
+              setConstraints((list) => [
+                ...list,
+                { cell: "", op: "<=", value: "" },
+              ])
+            }
+            data-testid="solver-add-constraint"
+          >
+            Add constraint
+          </button>
+        </div>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            fontSize: "13px",
+            marginBottom: "12px",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={nonNegative}
+            onChange={(e) => setNonNegative(e.target.checked)}
+            data-testid="solver-non-negative"
+          />
+          Keep changing cells non-negative
+        </label>
+
+        <div style={{ marginBottom: "16px" }}>
+          <label style={labelStyle}>Solving method</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as SolverMethod)}
+            style={inputStyle}
+            data-testid="solver-method"
+          >
+            <option value="simplex">Simplex LP (linear models)</option>
+            <option value="nelder-mead">Nelder–Mead (nonlinear models)</option>
+          </select>
+        </div>
+
+        {error && (
+          <p
+            style={{
+              fontSize: "12px",
+              color: "#ef4444",
+              marginBottom: "12px",
+            }}
+            data-testid="solver-error"
+          >
+            {error}
+          </p>
+        )}
+
+        {run && (
+          <div
+            style={{
+              padding: "12px",
+              marginBottom: "12px",
+              backgroundColor: hasSolution ? "#f0fdf4" : "#fef2f2",
+              borderRadius: "6px",
+              fontSize: "13px",
+            }}
+            data-testid="solver-result"
+            data-status={run.result.status}
+          >
+            <p
+              style={{
+                fontWeight: 600,
+                color: hasSolution ? "#16a34a" : "#dc2626",
+              }}
+            >
+              {run.result.message}
+            </p>
+            {hasSolution && (
+              <>
+                <p>Objective: {formatNumber(run.result.objective)}</p>
+                {run.cells.map((pos, i) => (
+                  <p key={`${pos.row},${pos.col}`}>
+                    {positionToCellRef(pos)}: {formatNumber(run.original[i])} →{" "}
+                    {formatNumber(run.result.x[i])}
+                  </p>
+                ))}
+              </>
+            )}
+            <p>Iterations: {run.result.iterations}</p>
+          </div>
+        )}
+
+        <div
+          style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}
+        >
+          {run && hasSolution ? (
+            <>
+              <button
+                style={buttonStyle}
+                data-testid="solver-restore"
+                onClick={() => setRun(null)}
+              >
+                Restore original
+              </button>
+              <button
+                style={primaryButtonStyle}
+                data-testid="solver-keep"
+                onClick={handleKeep}
+              >
+                Keep solution
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                style={buttonStyle}
+                data-testid="solver-cancel"
+                onClick={handleClose}
+              >
+                Close
+              </button>
+              <button
+                style={primaryButtonStyle}
+                data-testid="solver-run"
+                onClick={handleSolve}
+              >
+                Solve
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
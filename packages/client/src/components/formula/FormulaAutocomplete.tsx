@@ -3,6 +3,7 @@
  * S2-002: Formula autocomplete dropdown
  */
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useNamedRangeStore } from "../../stores/namedRangeStore";
 
 const FORMULA_FUNCTIONS = [
   "ABS",
@@ -12,6 +13,8 @@ const FORMULA_FUNCTIONS = [
   "ATAN2",
   "AVERAGE",
   "AVERAGEIF",
+  "BYCOL",
+  "BYROW",
   "CEILING",
   "CHAR",
   "CHOOSE",
@@ -59,6 +62,8 @@ const FORMULA_FUNCTIONS = [
   "LOG",
   "LOG10",
   "LOWER",
+  "MAKEARRAY",
+  "MAP",
   "MATCH",
   "MAX",
   "MAXIFS",
@@ -92,6 +97,7 @@ const FORMULA_FUNCTIONS = [
   "ROWS",
   "SEARCH",
   "SECOND",
+  "SEQUENCE",
   "SIGN",
   "SIN",
   "SMALL",
@@ -144,10 +150,15 @@ export function FormulaAutocomplete({
     return match ? match[1].toUpperCase() : "";
   }, [input]);
 
+  // Named LAMBDAs from the name manager complete like built-ins
+  const namedFunctions = useNamedRangeStore((s) => s.functions);
+
   const prefix = getPrefix();
   const matches =
     prefix.length > 0
-      ? FORMULA_FUNCTIONS.filter((f) => f.startsWith(prefix))
+      ? [...FORMULA_FUNCTIONS, ...namedFunctions.keys()].filter((f) =>
+          f.startsWith(prefix),
+        )
       : [];
 
   useEffect(() => {
@@ -1,11 +0,0 @@
-export { tokenize, TokenizerError } from "./tokenizer";
-export { parseFormula, ParseError } from "./parser";
-export { evaluate, extractReferences, EvaluationError } from "./evaluator";
-export { getFunction, hasFunction, getFunctionNames } from "./functions";
-export { DependencyGraph } from "./dependencyGraph";
-export {
-  colLetterToIndex,
-  colIndexToLetter,
-  cellId,
-  parseCellId,
-} from "./cellUtils";
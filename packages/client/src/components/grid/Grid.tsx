@@ -1,4 +1,6 @@
 import { useEffect, useRef, useCallback, useState, useMemo } from "react";
+import { cellId, parseCellId } from "@gridspace/formula";
+import type { CellValueGetter, FormulaValue } from "@gridspace/formula";
 import { useGridStore } from "../../stores/gridStore";
 import { useUIStore } from "../../stores/uiStore";
 import { useCellStore } from "../../stores/cellStore";
@@ -6,13 +8,17 @@ import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
 import { useClipboardStore } from "../../stores/clipboardStore";
 import { useFormatStore, evaluateColorScale } from "../../stores/formatStore";
 import { useFormulaStore } from "../../stores/formulaStore";
+import { useNamedRangeStore } from "../../stores/namedRangeStore";
 import { useFindReplaceStore } from "../../stores/findReplaceStore";
 import { useValidationStore } from "../../stores/validationStore";
 import { useDataStore } from "../../stores/dataStore";
+import { useAuditStore } from "../../stores/auditStore";
+import { useTableStore } from "../../stores/tableStore";
+import { useWhatIfStore } from "../../stores/whatIfStore";
+import { usePivotStore } from "../../stores/pivotStore";
 import { colToLetter, getCellKey } from "../../utils/coordinates";
-import { cellId, parseCellId } from "../formula/cellUtils";
-import type { CellValueGetter } from "../../types/formula";
 import { generateFillValues } from "../../utils/fillHandle";
+import { refreshTableFormulas } from "../../utils/tables";
 import { CellEditor } from "./CellEditor";
 import { ContextMenu } from "./ContextMenu";
 import type { CellData, CellPosition } from "../../types/grid";
@@ -34,6 +40,49 @@ const RESIZE_HANDLE_WIDTH = 5;
 const CHECKBOX_SIZE = 14;
 const HYPERLINK_COLOR = "#1a73e8";
 const GROUP_BTN_SIZE = 12;
+const TRACE_ARROW_COLOR = "#3355cc";
+const TRACE_ARROWHEAD_SIZE = 7;
+const TRACE_SHEET_ICON_OFFSET = 28;
+
+/** Filled arrowhead at (toX, toY) pointing away from (fromX, fromY) */
+function drawArrowhead(
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+): void {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(
+    toX - TRACE_ARROWHEAD_SIZE * Math.cos(angle - Math.PI / 7),
+    toY - TRACE_ARROWHEAD_SIZE * Math.sin(angle - Math.PI / 7),
+  );
+  ctx.lineTo(
+    toX - TRACE_ARROWHEAD_SIZE * Math.cos(angle + Math.PI / 7),
+    toY - TRACE_ARROWHEAD_SIZE * Math.sin(angle + Math.PI / 7),
+  );
+  ctx.closePath();
+  ctx.fill();
+}
+
+/** Small worksheet icon marking the off-sheet end of a trace arrow */
+function drawSheetIcon(ctx: CanvasRenderingContext2D, x: number, y: number) {
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(x - 7, y - 5, 14, 10);
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x - 7, y - 5, 14, 10);
+  ctx.beginPath();
+  ctx.moveTo(x - 7, y);
+  ctx.lineTo(x + 7, y);
+  ctx.moveTo(x, y - 5);
+  ctx.lineTo(x, y + 5);
+  ctx.stroke();
+  ctx.restore();
+}
 
 type DragMode = "none" | "select" | "resize-col" | "resize-row" | "fill-handle";
 
@@ -193,6 +242,7 @@ export function Grid() {
     const cs = useCellStore.getState();
     const activeSheetId = getActiveSheetId();
     const sheetCells = cs.cells.get(activeSheetId);
+    const formulas = useFormulaStore.getState();
 
     const width = gs.viewportWidth;
     const height = gs.viewportHeight;
@@ -264,6 +314,7 @@ export function Grid() {
     const rowGroups = ds.getRowGroups(activeSheetId);
     const colGroups = ds.getColGroups(activeSheetId);
     const conditionalRules = fs.getConditionalRules(activeSheetId);
+    const tables = useTableStore.getState().getTablesForSheet(activeSheetId);
 
     // Build set of rows/cols hidden by collapsed groups
     const groupCollapsedRows = new Set<number>();
@@ -321,7 +372,41 @@ export function Grid() {
 
         const cellKey = `${r},${c}`;
         const cellData = sheetCells?.get(cellKey);
-        const cellValue = cellData?.value;
+        const cellValue =
+          cellData?.value ?? formulas.getSpillValue(activeSheetId, r, c);
+
+        // Table styling: coloured header, banded data rows, bold totals
+        const table = tables.find(
+          (t) =>
+            r >= t.startRow &&
+            r <= t.endRow &&
+            c >= t.startCol &&
+            c <= t.endCol,
+        );
+        const tableRow = !table
+          ? undefined
+          : r === table.startRow
+            ? "header"
+            : table.showTotalsRow && r === table.endRow
+              ? "totals"
+              : "data";
+        const tableFill =
+          tableRow === "header"
+            ? table!.color
+            : tableRow === "data" &&
+                table!.showBandedRows &&
+                (r - table!.startRow) % 2 === 0
+              ? `${table!.color}1f`
+              : undefined;
+        if (tableFill) {
+          ctx.fillStyle = tableFill;
+          ctx.fillRect(
+            Math.round(cellX),
+            Math.round(cellY),
+            Math.round(cellW),
+            Math.round(cellH),
+          );
+        }
 
         // Cell background
         if (cellData?.format?.backgroundColor) {
@@ -542,7 +627,9 @@ export function Grid() {
           // Build font string from format properties
           const fontParts: string[] = [];
           if (fmt?.italic) fontParts.push("italic");
-          if (fmt?.bold) fontParts.push("bold");
+          if (fmt?.bold || (tableRow && tableRow !== "data")) {
+            fontParts.push("bold");
+          }
           const fontSize = fmt?.fontSize ?? 13;
           const fontFamily = fmt?.fontFamily ?? "Arial, sans-serif";
           fontParts.push(`${fontSize}px`);
@@ -551,7 +638,10 @@ export function Grid() {
 
           ctx.fillStyle = isHyperlink
             ? HYPERLINK_COLOR
-            : (fmt?.textColor ?? "#000000");
+            : (fmt?.textColor ??
+              (tableRow === "header" && !fmt?.backgroundColor
+                ? "#ffffff"
+                : "#000000"));
 
           // Vertical alignment
           const vAlign = fmt?.verticalAlign ?? "middle";
@@ -784,6 +874,92 @@ export function Grid() {
       ctx.restore();
     }
 
+    // Formula auditing arrows
+    const arrows = useAuditStore
+      .getState()
+      .arrows.filter((a) => a.sheetId === activeSheetId);
+    if (arrows.length > 0) {
+      const rangeRect = (
+        start: CellPosition,
+        end: CellPosition,
+      ): { x: number; y: number; w: number; h: number } => {
+        let w = 0;
+        for (let c = start.col; c <= end.col; c++) {
+          if (!gs.hiddenCols.has(c)) {
+            w += gs.columnWidths.get(c) ?? gs.defaultColWidth;
+          }
+        }
+        let h = 0;
+        for (let r = start.row; r <= end.row; r++) {
+          if (!gs.hiddenRows.has(r)) {
+            h += gs.rowHeights.get(r) ?? gs.defaultRowHeight;
+          }
+        }
+        return {
+          x: gs.getColumnX(start.col) - gs.scrollLeft + rhw,
+          y: gs.getRowY(start.row) - gs.scrollTop + chh,
+          w,
+          h,
+        };
+      };
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(rhw, chh, width - rhw, height - chh);
+      ctx.clip();
+      ctx.strokeStyle = TRACE_ARROW_COLOR;
+      ctx.fillStyle = TRACE_ARROW_COLOR;
+      ctx.lineWidth = 1.5;
+
+      for (const arrow of arrows) {
+        const target = rangeRect(arrow.to, arrow.to);
+        const source = rangeRect(arrow.from.start, arrow.from.end);
+        const isRange =
+          arrow.from.start.row !== arrow.from.end.row ||
+          arrow.from.start.col !== arrow.from.end.col;
+
+        // Off-sheet ends are drawn as a sheet icon above-left of the local cell
+        let fromX = source.x + source.w / 2;
+        let fromY = source.y + source.h / 2;
+        let toX = target.x + target.w / 2;
+        let toY = target.y + target.h / 2;
+        if (arrow.external && arrow.kind === "precedent") {
+          fromX = toX - TRACE_SHEET_ICON_OFFSET;
+          fromY = toY - TRACE_SHEET_ICON_OFFSET;
+        } else if (arrow.external) {
+          toX = fromX + TRACE_SHEET_ICON_OFFSET;
+          toY = fromY - TRACE_SHEET_ICON_OFFSET;
+        } else if (isRange) {
+          ctx.strokeRect(
+            Math.round(source.x) + 0.5,
+            Math.round(source.y) + 0.5,
+            Math.round(source.w) - 1,
+            Math.round(source.h) - 1,
+          );
+        }
+
+        ctx.setLineDash(arrow.external ? [4, 3] : []);
+        ctx.beginPath();
+        ctx.moveTo(fromX, fromY);
+        ctx.lineTo(toX, toY);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.beginPath();
+        ctx.arc(fromX, fromY, 2.5, 0, Math.PI * 2);
+        ctx.fill();
+        drawArrowhead(ctx, fromX, fromY, toX, toY);
+        if (arrow.external) {
+          drawSheetIcon(
+            ctx,
+            arrow.kind === "precedent" ? fromX : toX,
+            arrow.kind === "precedent" ? fromY : toY,
+          );
+        }
+      }
+      ctx.restore();
+    }
+
     // Frozen pane lines
     if (gs.frozenRows > 0) {
       const frozenY = Math.round(gs.getRowY(gs.frozenRows) + chh) + 0.5;
@@ -965,6 +1141,9 @@ export function Grid() {
       useValidationStore.subscribe(scheduleRedraw),
       useDataStore.subscribe(scheduleRedraw),
       useFormatStore.subscribe(scheduleRedraw),
+      useFormulaStore.subscribe(scheduleRedraw),
+      useAuditStore.subscribe(scheduleRedraw),
+      useTableStore.subscribe(scheduleRedraw),
     ];
     scheduleRedraw();
     return () => {
@@ -1008,10 +1187,15 @@ export function Grid() {
 
       // Build a cell value resolver for the formula engine
       const buildGetCellValue = (): CellValueGetter => {
-        return (sheet, refCol, refRow) => {
+        const getCellValue: CellValueGetter = (sheet, refCol, refRow) => {
           const sid = sheet ?? activeSheetId;
           const cell = useCellStore.getState().getCell(sid, refRow, refCol);
-          if (!cell) return null;
+          if (!cell) {
+            return (
+              useFormulaStore.getState().getSpillValue(sid, refRow, refCol) ??
+              null
+            );
+          }
           if (typeof cell.value === "number" || typeof cell.value === "boolean")
             return cell.value;
           if (cell.value === null || cell.value === "") return null;
@@ -1019,23 +1203,52 @@ export function Grid() {
           if (!isNaN(num)) return num;
           return cell.value;
         };
+        getCellValue.spillRange = (sheet, refCol, refRow) =>
+          useFormulaStore
+            .getState()
+            .getSpillRange(sheet ?? activeSheetId, refRow, refCol);
+        getCellValue.namedFormula = (name) =>
+          useNamedRangeStore.getState().resolveFunction(name);
+        return getCellValue;
       };
 
-      if (value !== "") {
-        const formulaState = useFormulaStore.getState();
-        const key = cellId(undefined, col, row);
+      // Lay out array results; cells with content block a spill
+      const resolveSpill = (cellKey: string, result: FormulaValue) => {
+        try {
+          const parsed = parseCellId(cellKey);
+          const sid = parsed.sheet ?? activeSheetId;
+          return useFormulaStore
+            .getState()
+            .handleSpill(sid, parsed.row, parsed.col, result, (r, c) => {
+              const cell = useCellStore.getState().getCell(sid, r, c);
+              return (
+                !!cell?.formula || (cell?.value != null && cell.value !== "")
+              );
+            });
+        } catch {
+          return Array.isArray(result) ? "#VALUE!" : result;
+        }
+      };
+
+      const formulaState = useFormulaStore.getState();
+      const key = cellId(undefined, col, row);
 
+      if (value !== "") {
         if (value.startsWith("=")) {
-          // Formula: evaluate and store computed result
+          // Formula: evaluate and store computed result; an array result
+          // gets its anchor value once the spill is laid out below
           const getCellValue = buildGetCellValue();
+          // A circular formula is #REF! unless iterative calculation is on,
+          // in which case the recalculation below iterates its loop
           const isValid = formulaState.updateDependencies(key, value);
-          const result = isValid
-            ? formulaState.evaluateFormula(value, getCellValue, key)
-            : "#REF!";
+          const result =
+            isValid || formulaState.calcSettings.iterative
+              ? formulaState.evaluateFormula(value, getCellValue, key)
+              : "#REF!";
 
           cellStore.setCell(activeSheetId, row, col, {
             ...existing,
-            value: result,
+            value: Array.isArray(result) ? null : result,
             formula: value,
           });
         } else {
@@ -1050,38 +1263,62 @@ export function Grid() {
             formulaState.updateDependencies(key, "");
           }
         }
-
-        // Recalculate any cells that depend on this cell
-        const getCellValue = buildGetCellValue();
-        const getFormula = (cellKey: string) => {
-          try {
-            const parsed = parseCellId(cellKey);
-            const sid = parsed.sheet ?? activeSheetId;
-            return useCellStore.getState().getCell(sid, parsed.row, parsed.col)
-              ?.formula;
-          } catch {
-            return undefined;
-          }
-        };
-        const updates = formulaState.recalculate(key, getFormula, getCellValue);
-        for (const [depKey, depValue] of updates) {
-          try {
-            const parsed = parseCellId(depKey);
-            const sid = parsed.sheet ?? activeSheetId;
-            const depCell = useCellStore
-              .getState()
-              .getCell(sid, parsed.row, parsed.col);
-            useCellStore.getState().setCell(sid, parsed.row, parsed.col, {
-              ...depCell,
-              value: depValue,
-            });
-          } catch {
-            // Skip invalid cell keys
-          }
-        }
       } else {
         cellStore.deleteCell(activeSheetId, row, col);
+        if (existing?.formula) {
+          formulaState.updateDependencies(key, "");
+        }
+      }
+
+      // Recalculate any cells that depend on this cell, including spills
+      // it now blocks or unblocks
+      const getCellValue = buildGetCellValue();
+      const getFormula = (cellKey: string) => {
+        try {
+          const parsed = parseCellId(cellKey);
+          const sid = parsed.sheet ?? activeSheetId;
+          return useCellStore.getState().getCell(sid, parsed.row, parsed.col)
+            ?.formula;
+        } catch {
+          return undefined;
+        }
+      };
+      formulaState.scheduleRecalculation(
+        activeSheetId,
+        key,
+        getFormula,
+        getCellValue,
+        (updates) => {
+          for (const [depKey, depValue] of updates) {
+            try {
+              const parsed = parseCellId(depKey);
+              const sid = parsed.sheet ?? activeSheetId;
+              const depCell = useCellStore
+                .getState()
+                .getCell(sid, parsed.row, parsed.col);
+              useCellStore.getState().setCell(sid, parsed.row, parsed.col, {
+                ...depCell,
+                value: depValue,
+              });
+            } catch {
+              // Skip invalid cell keys
+            }
+          }
+          // Data tables re-run their formulas over the new values
+          useWhatIfStore.getState().refreshDataTables(activeSheetId);
+          // Pivots over the changed cells are recomputed
+          usePivotStore.getState().refreshDependents(activeSheetId, key);
+        },
+        resolveSpill,
+      );
+
+      // Typing next to a table grows it, and editing its header renames a
+      // column; either way its formulas now cover different cells
+      if (useTableStore.getState().handleCellEdit(activeSheetId, row, col)) {
+        refreshTableFormulas();
       }
+      // and typing next to a pivot's source brings it into the pivot
+      usePivotStore.getState().handleCellEdit(activeSheetId, row, col);
 
       const gs = useGridStore.getState();
       const nextPos = { ...ui.editingCell };
@@ -1622,6 +1859,16 @@ export function Grid() {
       if (!pos) return;
 
       const activeSheetId = getActiveSheetId();
+
+      // Double-click on a pivot value → list its source rows
+      const detailsId = usePivotStore
+        .getState()
+        .drillDown(activeSheetId, pos.row, pos.col);
+      if (detailsId) {
+        useSpreadsheetStore.getState().setActiveSheet(detailsId);
+        return;
+      }
+
       const cellData = useCellStore
         .getState()
         .getCell(activeSheetId, pos.row, pos.col);
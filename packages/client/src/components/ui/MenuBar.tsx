@@ -11,7 +11,9 @@ import { useGridStore } from "../../stores/gridStore";
 import { useFormatStore } from "../../stores/formatStore";
 import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
 import { useChartStore } from "../../stores/chartStore";
+import { usePivotStore } from "../../stores/pivotStore";
 import { useMacroStore } from "../../stores/macroStore";
+import { useAuditStore } from "../../stores/auditStore";
 import { exportXLSX, downloadFile } from "../../utils/fileOps";
 import { exportToPDF } from "../../utils/pdfExport";
 
@@ -406,6 +408,14 @@ export function MenuBar() {
             setOpenMenu(null);
           },
         },
+        {
+          label: "Format as table",
+          testId: "menu-format-as-table",
+          action: () => {
+            useUIStore.getState().setFormatAsTableOpen(true);
+            setOpenMenu(null);
+          },
+        },
       ],
     },
     {
@@ -430,7 +440,17 @@ export function MenuBar() {
         {
           label: "Pivot table",
           testId: "menu-data-pivot",
-          action: () => setOpenMenu(null),
+          action: () => {
+            const sel = useUIStore.getState().selections.at(-1);
+            const sid = useSpreadsheetStore.getState().activeSheetId;
+            if (sel && sid) {
+              const pivotSheetId = usePivotStore
+                .getState()
+                .createPivotFromSelection(sid, sel);
+              useSpreadsheetStore.getState().setActiveSheet(pivotSheetId);
+            }
+            setOpenMenu(null);
+          },
         },
         {
           label: "Named ranges",
@@ -479,6 +499,38 @@ export function MenuBar() {
             setOpenMenu(null);
           },
         },
+        {
+          label: "Solver",
+          testId: "menu-data-solver",
+          action: () => {
+            useUIStore.getState().setSolverDialogOpen(true);
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Scenario manager",
+          testId: "menu-data-scenarios",
+          action: () => {
+            useUIStore.getState().setScenarioManagerOpen(true);
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Data table",
+          testId: "menu-data-table",
+          action: () => {
+            useUIStore.getState().setDataTableDialogOpen(true);
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Calculation settings",
+          testId: "menu-data-calc-settings",
+          action: () => {
+            useUIStore.getState().setCalculationSettingsOpen(true);
+            setOpenMenu(null);
+          },
+        },
       ],
     },
     {
@@ -529,6 +581,63 @@ export function MenuBar() {
             setOpenMenu(null);
           },
         },
+        {
+          label: "Trace precedents",
+          testId: "menu-tools-trace-precedents",
+          separator: true,
+          action: () => {
+            const cell = useUIStore.getState().selectedCell;
+            if (cell) {
+              useAuditStore
+                .getState()
+                .tracePrecedents(
+                  useSpreadsheetStore.getState().activeSheetId,
+                  cell,
+                );
+            }
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Trace dependents",
+          testId: "menu-tools-trace-dependents",
+          action: () => {
+            const cell = useUIStore.getState().selectedCell;
+            if (cell) {
+              useAuditStore
+                .getState()
+                .traceDependents(
+                  useSpreadsheetStore.getState().activeSheetId,
+                  cell,
+                );
+            }
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Remove arrows",
+          testId: "menu-tools-remove-arrows",
+          action: () => {
+            useAuditStore.getState().clearArrows();
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Show dependents",
+          testId: "menu-tools-show-dependents",
+          action: () => {
+            useUIStore.getState().setDependentsPanelOpen(true);
+            setOpenMenu(null);
+          },
+        },
+        {
+          label: "Evaluate formula",
+          testId: "menu-tools-evaluate-formula",
+          action: () => {
+            useUIStore.getState().setEvaluateFormulaOpen(true);
+            setOpenMenu(null);
+          },
+        },
         {
           label: "Explore data",
           testId: "menu-tools-explore",
@@ -1,12 +1,47 @@
 /**
- * StatusBar — SUM/AVG/COUNT/MIN/MAX of current selection.
+ * StatusBar — SUM/AVG/COUNT/MIN/MAX of current selection, plus the loop
+ * path of any circular reference.
  * S7-016 to S7-017
  */
 import { useMemo } from "react";
 import { useUIStore } from "../../stores/uiStore";
 import { useCellStore } from "../../stores/cellStore";
 import { useSpreadsheetStore } from "../../stores/spreadsheetStore";
-import { getCellKey } from "../../utils/coordinates";
+import { useFormulaStore } from "../../stores/formulaStore";
+import { getCellKey, positionToCellRef } from "../../utils/coordinates";
+
+/**
+ * Loop to report: the selected cell's own loop, otherwise the first one
+ * found so a circular reference elsewhere is still flagged.
+ */
+function CircularWarning() {
+  const selectedCell = useUIStore((s) => s.selectedCell);
+  const circularRefs = useFormulaStore((s) => s.circularRefs);
+  const iterative = useFormulaStore((s) => s.calcSettings.iterative);
+
+  const selectedRef = selectedCell
+    ? positionToCellRef(selectedCell)
+    : undefined;
+  const loop =
+    (selectedRef && circularRefs.get(selectedRef)) ??
+    circularRefs.values().next().value;
+  if (!loop) return null;
+
+  return (
+    <span
+      data-testid="status-circular"
+      className="text-red-600"
+      style={{ color: "#dc2626" }}
+      title={
+        iterative
+          ? "Iterative calculation is on; this loop is iterated"
+          : "Circular references evaluate to #REF!"
+      }
+    >
+      Circular reference: {loop.join(" → ")}
+    </span>
+  );
+}
 
 export function StatusBar() {
   const selections = useUIStore((s) => s.selections);
@@ -67,9 +102,10 @@ export function StatusBar() {
     return (
       <div
         data-testid="status-bar"
-        className="flex items-center px-4 text-xs text-gray-500"
-        style={{ padding: "0 16px", fontSize: "12px" }}
+        className="flex items-center px-4 text-xs text-gray-500 gap-3"
+        style={{ padding: "0 16px", gap: "12px", fontSize: "12px" }}
       >
+        <CircularWarning />
         <span>Ready</span>
       </div>
     );
@@ -86,6 +122,7 @@ export function StatusBar() {
       className="flex items-center px-4 text-xs text-gray-600 gap-5"
       style={{ padding: "0 16px", gap: "20px", fontSize: "12px" }}
     >
+      <CircularWarning />
       <span
         data-testid="status-sum"
         className="font-medium"
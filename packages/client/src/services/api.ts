@@ -95,7 +95,18 @@ async function fetchWithAuth(
   return response;
 }
 
-async function tryRefresh(): Promise<boolean> {
+// Requests that get a 401 together share one refresh, since every refresh
+// rotates the refresh token
+let refreshInFlight: Promise<boolean> | null = null;
+
+function tryRefresh(): Promise<boolean> {
+  refreshInFlight ??= refreshAccessToken().finally(() => {
+    refreshInFlight = null;
+  });
+  return refreshInFlight;
+}
+
+async function refreshAccessToken(): Promise<boolean> {
   try {
     const res = await fetch(`${API_BASE}/auth/refresh`, {
       method: "POST",
@@ -143,6 +154,14 @@ export const api = {
     return handleResponse<T>(response);
   },
 
+  async patch<T>(url: string, body?: unknown): Promise<T> {
+    const response = await fetchWithAuth(url, {
+      method: "PATCH",
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return handleResponse<T>(response);
+  },
+
   async delete<T>(url: string): Promise<T> {
     const response = await fetchWithAuth(url, { method: "DELETE" });
     return handleResponse<T>(response);
@@ -0,0 +1,183 @@
+/**
+ * Main-thread side of the formula worker. Starts the worker on first use,
+ * seeds it with every sheet's cells and then streams cell edits to it, so a
+ * recalculation request only has to name the cells that changed.
+ */
+import { useCellStore } from "../stores/cellStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { useNamedRangeStore } from "../stores/namedRangeStore";
+import { useTableStore } from "../stores/tableStore";
+import type { CalcSettings } from "@gridspace/formula";
+import type { CellData } from "../types/grid";
+import type { WorkerMessage, WorkerResponse } from "../workers/formulaWorker";
+import type {
+  CellChange,
+  CellPosition,
+  RecalcResult,
+  SheetInfo,
+  WorkerCell,
+} from "../workers/recalcEngine";
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<
+  number,
+  { resolve: (results: RecalcResult[]) => void; reject: (err: Error) => void }
+>();
+const unsubscribers: Array<() => void> = [];
+
+export function isFormulaWorkerSupported(): boolean {
+  return typeof Worker !== "undefined";
+}
+
+function toWorkerCell(cell: CellData): WorkerCell {
+  return { value: cell.value, formula: cell.formula };
+}
+
+function parseKey(key: string): { row: number; col: number } | null {
+  const match = key.match(/^(\d+),(\d+)$/);
+  if (!match) return null;
+  return { row: Number(match[1]), col: Number(match[2]) };
+}
+
+function currentSheets(): SheetInfo[] {
+  return useSpreadsheetStore
+    .getState()
+    .sheets.map((s) => ({ id: s.id, name: s.name }));
+}
+
+function currentNamedFunctions(): Record<string, string> {
+  const functions: Record<string, string> = {};
+  for (const [name, fn] of useNamedRangeStore.getState().functions) {
+    functions[name] = fn.formula;
+  }
+  return functions;
+}
+
+function post(message: WorkerMessage): void {
+  worker?.postMessage(message);
+}
+
+/** Cell writes between two store snapshots; untouched sheets are skipped */
+function diffCells(
+  next: Map<string, Map<string, CellData>>,
+  prev: Map<string, Map<string, CellData>>,
+): CellChange[] {
+  const changes: CellChange[] = [];
+  const push = (sheetId: string, key: string, cell: CellData | undefined) => {
+    const pos = parseKey(key);
+    if (!pos) return;
+    changes.push({ sheetId, ...pos, cell: cell ? toWorkerCell(cell) : null });
+  };
+
+  for (const [sheetId, cells] of next) {
+    const before = prev.get(sheetId);
+    if (cells === before) continue;
+    for (const [key, cell] of cells) {
+      const old = before?.get(key);
+      // Format-only edits do not matter to the engine
+      if (
+        old === cell ||
+        (old && old.value === cell.value && old.formula === cell.formula)
+      ) {
+        continue;
+      }
+      push(sheetId, key, cell);
+    }
+    for (const key of before?.keys() ?? []) {
+      if (!cells.has(key)) push(sheetId, key, undefined);
+    }
+  }
+  for (const [sheetId, cells] of prev) {
+    if (next.has(sheetId)) continue;
+    for (const key of cells.keys()) push(sheetId, key, undefined);
+  }
+  return changes;
+}
+
+function startWorker(): void {
+  const instance = new Worker(
+    new URL("../workers/formulaWorker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  instance.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const request = pending.get(e.data.id);
+    if (!request) return;
+    pending.delete(e.data.id);
+    request.resolve(e.data.results);
+  };
+  instance.onerror = () => stopFormulaWorker();
+
+  worker = instance;
+
+  const cells: CellChange[] = [];
+  for (const [sheetId, sheetCells] of useCellStore.getState().cells) {
+    for (const [key, cell] of sheetCells) {
+      const pos = parseKey(key);
+      if (pos) cells.push({ sheetId, ...pos, cell: toWorkerCell(cell) });
+    }
+  }
+  post({ type: "names", functions: currentNamedFunctions() });
+  post({ type: "tables", tables: useTableStore.getState().getDefinitions() });
+  post({ type: "load", sheets: currentSheets(), cells });
+
+  unsubscribers.push(
+    useCellStore.subscribe((state, prev) => {
+      if (state.cells === prev.cells) return;
+      const changes = diffCells(state.cells, prev.cells);
+      if (changes.length > 0) post({ type: "sync", changes });
+    }),
+    useSpreadsheetStore.subscribe((state, prev) => {
+      if (state.sheets !== prev.sheets) {
+        post({ type: "sheets", sheets: currentSheets() });
+        // Tables are placed by sheet name
+        post({
+          type: "tables",
+          tables: useTableStore.getState().getDefinitions(),
+        });
+      }
+    }),
+    useTableStore.subscribe((state, prev) => {
+      if (state.tables !== prev.tables) {
+        post({
+          type: "tables",
+          tables: useTableStore.getState().getDefinitions(),
+        });
+      }
+    }),
+    useNamedRangeStore.subscribe((state, prev) => {
+      if (state.functions !== prev.functions) {
+        post({ type: "names", functions: currentNamedFunctions() });
+      }
+    }),
+  );
+}
+
+/**
+ * Recalculate everything downstream of the given cells in the worker,
+ * honouring the spreadsheet's iterative calculation `settings`.
+ * Resolves with the cells whose computed values changed.
+ */
+export function recalculateInWorker(
+  changed: CellPosition[],
+  settings?: CalcSettings,
+): Promise<RecalcResult[]> {
+  if (!worker) startWorker();
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    post({ type: "recalculate", id, changed, settings });
+  });
+}
+
+/** Terminate the worker, fail pending requests and stop mirroring the stores */
+export function stopFormulaWorker(): void {
+  for (const request of pending.values()) {
+    request.reject(new Error("Formula worker stopped"));
+  }
+  pending.clear();
+  for (const unsubscribe of unsubscribers.splice(0)) unsubscribe();
+  worker?.terminate();
+  worker = null;
+}
@@ -1,7 +1,18 @@
 import { io, Socket } from "socket.io-client";
+import * as Y from "yjs";
 import { getAccessToken } from "./api";
 import { useRealtimeStore, assignColor } from "../stores/realtimeStore";
+import { useCloudStore } from "../stores/cloudStore";
+import { useCellStore } from "../stores/cellStore";
 import type { PresenceUser, CursorPosition } from "../stores/realtimeStore";
+import {
+  getSheetsMap,
+  patchesFromEvents,
+  readSheetMeta,
+  writeCellPatch,
+} from "../utils/collabDoc";
+import { applyPatchToCellStore } from "../utils/cellPatch";
+import type { CellPatch } from "../utils/cellPatch";
 
 /** WebSocket event constants — must match server */
 const WS_EVENTS = {
@@ -18,6 +29,7 @@ const WS_EVENTS = {
   CELL_UNLOCKED: "cell-unlocked",
   CELL_UPDATE: "cell-update",
   CELL_REMOTE_UPDATE: "cell-remote-update",
+  CELL_UPDATE_REJECTED: "cell-update-rejected",
   SHEET_SWITCH: "sheet-switch",
   SHEET_SWITCH_BROADCAST: "sheet-switch-broadcast",
   SHEET_ADD: "sheet-add",
@@ -35,6 +47,8 @@ const WS_EVENTS = {
   CHART_SYNC: "chart-sync",
   YJS_SYNC: "yjs-sync",
   YJS_UPDATE: "yjs-update",
+  YJS_AWARENESS: "yjs-awareness",
+  YJS_RESET: "yjs-reset",
   CONNECTION_ERROR: "connection-error",
   TYPING_START: "typing-start",
   TYPING_END: "typing-end",
@@ -54,6 +68,70 @@ function getStore() {
   return useRealtimeStore.getState();
 }
 
+// ─── Yjs CO-EDITING ─────────────────────────────────────
+
+/** Transaction origin for changes that arrived from the server */
+const REMOTE_ORIGIN = "remote";
+
+/** An update that carries no changes encodes to two zero bytes */
+const EMPTY_UPDATE_LENGTH = 2;
+
+interface AwarenessEntry {
+  clientId: number;
+  userId: string;
+  state: {
+    sheetId: string;
+    cell: string;
+    range: string | null;
+    tabId: string;
+  } | null;
+}
+
+let ydoc: Y.Doc | null = null;
+
+/** Set while remote edits are written to the cell store, so they are not sent back */
+let applyingRemote = false;
+
+/** Last known tab of each remote awareness client, to clear its cursor */
+const awarenessTabs = new Map<number, { userId: string; tabId: string }>();
+
+function createDoc(): Y.Doc {
+  const doc = new Y.Doc();
+
+  // Local edits go to the server; remote ones are already there
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN) return;
+    socket?.emit(WS_EVENTS.YJS_UPDATE, update);
+  });
+
+  // Remote edits are applied to the cell store once merged
+  getSheetsMap(doc).observeDeep((events, transaction) => {
+    if (transaction.origin !== REMOTE_ORIGIN) return;
+    const { cells, structureChanged } = patchesFromEvents(doc, events);
+    for (const [sheetId, patch] of cells) {
+      applyingRemote = true;
+      try {
+        applyPatchToCellStore(sheetId, patch);
+      } finally {
+        applyingRemote = false;
+      }
+      collabCellListeners.forEach((cb) => cb(sheetId, patch));
+    }
+    if (structureChanged) {
+      const sheets = readSheetMeta(doc);
+      sheetSyncListeners.forEach((cb) => cb({ type: "structure", sheets }));
+    }
+  });
+
+  return doc;
+}
+
+function resetDoc(): void {
+  ydoc?.destroy();
+  ydoc = null;
+  awarenessTabs.clear();
+}
+
 export function connectSocket(): Socket {
   if (socket?.connected) return socket;
 
@@ -166,6 +244,14 @@ export function connectSocket(): Socket {
     },
   );
 
+  // Our own update was refused, e.g. the cell is protected
+  socket.on(
+    WS_EVENTS.CELL_UPDATE_REJECTED,
+    (data: { sheetId: string; cell: string; reason: string }) => {
+      useCloudStore.getState().reportSaveError(data.reason);
+    },
+  );
+
   // ─── TYPING INDICATORS ───────────────────────────────
   socket.on(
     WS_EVENTS.TYPING_INDICATOR,
@@ -214,6 +300,69 @@ export function connectSocket(): Socket {
     chartSyncListeners.forEach((cb) => cb(data));
   });
 
+  // ─── Yjs SYNC ─────────────────────────────────────────
+  socket.on(
+    WS_EVENTS.YJS_SYNC,
+    (data: { update: ArrayBuffer; stateVector: ArrayBuffer }) => {
+      if (!ydoc) return;
+      Y.applyUpdate(ydoc, new Uint8Array(data.update), REMOTE_ORIGIN);
+
+      // Send anything we have that the server has not seen (offline edits)
+      const missing = Y.encodeStateAsUpdate(
+        ydoc,
+        new Uint8Array(data.stateVector),
+      );
+      if (missing.length > EMPTY_UPDATE_LENGTH) {
+        socket?.emit(WS_EVENTS.YJS_UPDATE, missing);
+      }
+    },
+  );
+
+  socket.on(WS_EVENTS.YJS_UPDATE, (update: ArrayBuffer) => {
+    if (!ydoc) return;
+    Y.applyUpdate(ydoc, new Uint8Array(update), REMOTE_ORIGIN);
+  });
+
+  socket.on(WS_EVENTS.YJS_RESET, () => {
+    // The server document was rebuilt (e.g. version restore); start over
+    const spreadsheetId = currentSpreadsheetId;
+    resetDoc();
+    if (spreadsheetId) {
+      joinSpreadsheet(
+        spreadsheetId,
+        getStore().connectedUsers[0]?.activeSheet || "",
+      );
+    }
+  });
+
+  socket.on(WS_EVENTS.YJS_AWARENESS, (entries: AwarenessEntry[]) => {
+    for (const entry of entries) {
+      if (entry.clientId === ydoc?.clientID) continue;
+
+      if (!entry.state) {
+        const known = awarenessTabs.get(entry.clientId);
+        if (known) getStore().removeCursor(known.userId, known.tabId);
+        awarenessTabs.delete(entry.clientId);
+        continue;
+      }
+
+      const { sheetId, cell, range, tabId } = entry.state;
+      awarenessTabs.set(entry.clientId, { userId: entry.userId, tabId });
+      const user = getStore().connectedUsers.find(
+        (u) => u.userId === entry.userId && u.tabId === tabId,
+      );
+      getStore().updateCursor({
+        userId: entry.userId,
+        sheetId,
+        cell,
+        range,
+        color: user?.color ?? assignColor(entry.userId),
+        name: user?.name ?? "Unknown",
+        tabId,
+      });
+    }
+  });
+
   // ─── CONNECTION ERRORS ────────────────────────────────
   socket.on(WS_EVENTS.CONNECTION_ERROR, (message: string) => {
     errorListeners.forEach((cb) => cb(message));
@@ -228,6 +377,7 @@ export function disconnectSocket(): void {
     socket = null;
   }
   currentSpreadsheetId = null;
+  resetDoc();
   getStore().reset();
 }
 
@@ -239,6 +389,11 @@ export function getSocket(): Socket | null {
 
 export function joinSpreadsheet(spreadsheetId: string, sheetId: string): void {
   if (!socket) return;
+  // Keep the document across reconnects so offline edits are merged
+  if (!ydoc || currentSpreadsheetId !== spreadsheetId) {
+    resetDoc();
+    ydoc = createDoc();
+  }
   currentSpreadsheetId = spreadsheetId;
   getStore().setCurrentSpreadsheet(spreadsheetId);
   socket.emit(WS_EVENTS.JOIN_SPREADSHEET, {
@@ -252,9 +407,63 @@ export function leaveSpreadsheet(): void {
   if (!socket) return;
   socket.emit(WS_EVENTS.LEAVE_SPREADSHEET);
   currentSpreadsheetId = null;
+  resetDoc();
   getStore().reset();
 }
 
+/** The shared document of the joined spreadsheet, if any */
+export function getCollabDoc(): Y.Doc | null {
+  return ydoc;
+}
+
+/**
+ * Apply local cell edits through the shared document. Concurrent edits from
+ * other clients merge with these instead of overwriting them.
+ */
+export function applyLocalCellPatch(sheetId: string, patch: CellPatch): void {
+  if (!ydoc) return;
+  writeCellPatch(ydoc, sheetId, patch);
+}
+
+/**
+ * Send every local change to the cell store through the shared document,
+ * whichever path made it (typing, paste, fill, undo...). Returns the
+ * function that stops it.
+ */
+export function bindCellStore(): () => void {
+  return useCellStore.subscribe((state, prev) => {
+    if (applyingRemote || !ydoc || state.cells === prev.cells) return;
+    for (const [sheetId, cells] of state.cells) {
+      const before = prev.cells.get(sheetId);
+      if (cells === before) continue;
+      // Unchanged cells keep their identity across store updates
+      const patch: CellPatch = { upserts: {}, deletes: [] };
+      for (const [key, cell] of cells) {
+        if (before?.get(key) !== cell) patch.upserts[key] = cell;
+      }
+      for (const key of before?.keys() ?? []) {
+        if (!cells.has(key)) patch.deletes.push(key);
+      }
+      if (Object.keys(patch.upserts).length > 0 || patch.deletes.length > 0) {
+        applyLocalCellPatch(sheetId, patch);
+      }
+    }
+  });
+}
+
+/** Publish this tab's cursor to co-editors */
+export function setAwareness(
+  sheetId: string,
+  cell: string,
+  range: string | null,
+): void {
+  if (!ydoc) return;
+  socket?.emit(WS_EVENTS.YJS_AWARENESS, {
+    clientId: ydoc.clientID,
+    state: { sheetId, cell, range, tabId: getStore().tabId },
+  });
+}
+
 export function emitCursorMove(
   spreadsheetId: string,
   sheetId: string,
@@ -447,6 +656,7 @@ type CellUpdateCallback = (data: {
 }) => void;
 
 type SyncCallback = (data: Record<string, unknown>) => void;
+type CollabCellCallback = (sheetId: string, patch: CellPatch) => void;
 type ErrorCallback = (message: string) => void;
 
 const remoteCellUpdateListeners = new Set<CellUpdateCallback>();
@@ -455,6 +665,7 @@ const structureSyncListeners = new Set<SyncCallback>();
 const formatSyncListeners = new Set<SyncCallback>();
 const chartSyncListeners = new Set<SyncCallback>();
 const errorListeners = new Set<ErrorCallback>();
+const collabCellListeners = new Set<CollabCellCallback>();
 
 export function onRemoteCellUpdate(cb: CellUpdateCallback): () => void {
   remoteCellUpdateListeners.add(cb);
@@ -481,6 +692,12 @@ export function onChartSync(cb: SyncCallback): () => void {
   return () => chartSyncListeners.delete(cb);
 }
 
+/** Called after remote co-edits have been merged into the cell store */
+export function onCollabCellChange(cb: CollabCellCallback): () => void {
+  collabCellListeners.add(cb);
+  return () => collabCellListeners.delete(cb);
+}
+
 export function onConnectionError(cb: ErrorCallback): () => void {
   errorListeners.add(cb);
   return () => errorListeners.delete(cb);
@@ -0,0 +1,210 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+/** Permissions an API key can be granted */
+export const API_KEY_SCOPES = [
+  { id: "spreadsheets:read", label: "Read spreadsheets and cells" },
+  { id: "cells:write", label: "Write cells" },
+  { id: "export", label: "Export" },
+  { id: "webhooks:manage", label: "Manage webhooks" },
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]["id"];
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  rateLimit: number;
+  scopes: ApiKeyScope[];
+  /** Spreadsheets the key is pinned to; empty means all of them */
+  spreadsheetIds: string[];
+  createdAt: string;
+}
+
+export interface ApiKeyAccess {
+  scopes: ApiKeyScope[];
+  spreadsheetIds: string[];
+}
+
+export interface DailyUsage {
+  /** UTC day as YYYY-MM-DD */
+  date: string;
+  requests: number;
+  errors: number;
+}
+
+export interface ApiKeyUsage {
+  keyId: string;
+  /** Requests per minute */
+  rateLimit: number;
+  totals: { requests: number; errors: number };
+  daily: DailyUsage[];
+}
+
+interface SpreadsheetOption {
+  id: string;
+  title: string;
+}
+
+interface ApiKeyState {
+  keys: ApiKeyInfo[];
+  /** Spreadsheets a key can be pinned to */
+  spreadsheets: SpreadsheetOption[];
+  /** Daily usage by key ID, loaded on demand */
+  usage: Record<string, ApiKeyUsage>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface ApiKeyActions {
+  fetchKeys: () => Promise<void>;
+  fetchSpreadsheets: () => Promise<void>;
+  fetchUsage: (id: string, days?: number) => Promise<void>;
+  /** Create a key and return the raw key, which is only shown once */
+  createKey: (
+    name: string,
+    access: ApiKeyAccess,
+    expiresAt?: string,
+  ) => Promise<string | null>;
+  updateKey: (
+    id: string,
+    changes: Partial<ApiKeyAccess> & { name?: string },
+  ) => Promise<boolean>;
+  revokeKey: (id: string) => Promise<boolean>;
+}
+
+type ApiKeyStore = ApiKeyState & ApiKeyActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useApiKeyStore = create<ApiKeyStore>()(
+  immer((set) => ({
+    keys: [],
+    spreadsheets: [],
+    usage: {},
+    isLoading: false,
+    error: null,
+
+    fetchKeys: async () => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const keys = await api.get<ApiKeyInfo[]>("/users/me/api-keys");
+        set((state) => {
+          state.keys = keys;
+          state.isLoading = false;
+        });
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(err, "Failed to load API keys");
+        });
+      }
+    },
+
+    fetchSpreadsheets: async () => {
+      try {
+        const result = await api.getAll<{ data: SpreadsheetOption[] }>(
+          "/spreadsheets?filter=all&sortBy=title&sortDir=asc&limit=100",
+        );
+        set((state) => {
+          state.spreadsheets = result.data.map(({ id, title }) => ({
+            id,
+            title,
+          }));
+        });
+      } catch {
+        // Pinning falls back to the IDs already on the keys
+      }
+    },
+
+    fetchUsage: async (id, days = 30) => {
+      try {
+        const usage = await api.get<ApiKeyUsage>(
+          `/users/me/api-keys/${id}/usage?days=${days}`,
+        );
+        set((state) => {
+          state.usage[id] = usage;
+        });
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to load API key usage");
+        });
+      }
+    },
+
+    createKey: async (name, access, expiresAt) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const result = await api.post<{ key: string; apiKey: ApiKeyInfo }>(
+          "/users/me/api-keys",
+          { name, expiresAt, ...access },
+        );
+        set((state) => {
+          state.keys.unshift(result.apiKey);
+        });
+        return result.key;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to create API key");
+        });
+        return null;
+      }
+    },
+
+    updateKey: async (id, changes) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const updated = await api.patch<ApiKeyInfo>(
+          `/users/me/api-keys/${id}`,
+          changes,
+        );
+        set((state) => {
+          const index = state.keys.findIndex((k) => k.id === id);
+          if (index >= 0) state.keys[index] = updated;
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to update API key");
+        });
+        return false;
+      }
+    },
+
+    revokeKey: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        await api.delete(`/users/me/api-keys/${id}`);
+        set((state) => {
+          state.keys = state.keys.filter((k) => k.id !== id);
+          delete state.usage[id];
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to revoke API key");
+        });
+        return false;
+      }
+    },
+  })),
+);
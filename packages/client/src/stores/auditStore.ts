@@ -0,0 +1,164 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { useSpreadsheetStore } from "./spreadsheetStore";
+import {
+  auditNodeId,
+  buildWorkbookGraph,
+  getDirectDependents,
+  getPrecedentRanges,
+} from "../utils/formulaAudit";
+import type { AuditCell } from "../utils/formulaAudit";
+import type { CellPosition, SelectionRange } from "../types/grid";
+
+/**
+ * An arrow drawn on `sheetId` from a referenced cell or range to the formula
+ * that uses it. `external` names the other sheet when one end is off-sheet:
+ * for precedent arrows the `from` range is there, for dependent arrows `to`.
+ */
+export interface TraceArrow {
+  kind: "precedent" | "dependent";
+  sheetId: string;
+  from: SelectionRange;
+  to: CellPosition;
+  external?: string;
+}
+
+interface AuditState {
+  arrows: TraceArrow[];
+  /** Cells whose precedents / dependents already have arrows */
+  tracedPrecedents: Set<string>;
+  tracedDependents: Set<string>;
+
+  /**
+   * Draw arrows from the cells a formula refers to. Tracing the same cell
+   * again adds the next level of precedents.
+   */
+  tracePrecedents: (sheetId: string, cell: CellPosition) => void;
+  /**
+   * Draw arrows to the formulas that refer to a cell. Tracing the same cell
+   * again adds the next level of dependents.
+   */
+  traceDependents: (sheetId: string, cell: CellPosition) => void;
+  clearArrows: () => void;
+}
+
+function sheetName(sheetId: string): string {
+  return (
+    useSpreadsheetStore.getState().sheets.find((s) => s.id === sheetId)?.name ??
+    sheetId
+  );
+}
+
+function precedentArrows(cell: AuditCell): TraceArrow[] {
+  return getPrecedentRanges(cell).map((range) => ({
+    kind: "precedent",
+    sheetId: cell.sheetId,
+    from: { start: range.start, end: range.end },
+    to: { row: cell.row, col: cell.col },
+    ...(range.sheetId !== cell.sheetId && {
+      external: sheetName(range.sheetId),
+    }),
+  }));
+}
+
+function dependentArrows(
+  cell: AuditCell,
+  dependents: AuditCell[],
+): TraceArrow[] {
+  const pos = { row: cell.row, col: cell.col };
+  return dependents.map((dep) => ({
+    kind: "dependent",
+    sheetId: cell.sheetId,
+    from: { start: pos, end: pos },
+    to: { row: dep.row, col: dep.col },
+    ...(dep.sheetId !== cell.sheetId && { external: sheetName(dep.sheetId) }),
+  }));
+}
+
+/**
+ * Walk outward from `origin` through cells already traced and return the
+ * untraced cells on the frontier, which are the next level to trace.
+ */
+function nextLevel(
+  origin: AuditCell,
+  traced: Set<string>,
+  neighbours: (cell: AuditCell) => AuditCell[],
+): AuditCell[] {
+  if (!traced.has(auditNodeId(origin))) return [origin];
+
+  const frontier: AuditCell[] = [];
+  const seen = new Set([auditNodeId(origin)]);
+  const queue = [origin];
+  while (queue.length > 0) {
+    for (const next of neighbours(queue.shift()!)) {
+      const id = auditNodeId(next);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      if (traced.has(id)) queue.push(next);
+      else frontier.push(next);
+    }
+  }
+  return frontier;
+}
+
+export const useAuditStore = create<AuditState>()(
+  immer((set, get) => ({
+    arrows: [],
+    tracedPrecedents: new Set<string>(),
+    tracedDependents: new Set<string>(),
+
+    tracePrecedents: (sheetId: string, cell: CellPosition) => {
+      // Precedents that are formulas themselves; plain values end the chain
+      const neighbours = (c: AuditCell): AuditCell[] => {
+        const cells: AuditCell[] = [];
+        for (const range of getPrecedentRanges(c)) {
+          for (let row = range.start.row; row <= range.end.row; row++) {
+            for (let col = range.start.col; col <= range.end.col; col++) {
+              cells.push({ sheetId: range.sheetId, row, col });
+            }
+          }
+        }
+        return cells.filter((p) => getPrecedentRanges(p).length > 0);
+      };
+
+      const level = nextLevel(
+        { sheetId, ...cell },
+        get().tracedPrecedents,
+        neighbours,
+      );
+      if (level.length === 0) return;
+      set((state) => {
+        for (const c of level) {
+          state.tracedPrecedents.add(auditNodeId(c));
+          state.arrows.push(...precedentArrows(c));
+        }
+      });
+    },
+
+    traceDependents: (sheetId: string, cell: CellPosition) => {
+      const graph = buildWorkbookGraph();
+      const neighbours = (c: AuditCell) => getDirectDependents(c, graph);
+
+      const level = nextLevel(
+        { sheetId, ...cell },
+        get().tracedDependents,
+        neighbours,
+      );
+      if (level.length === 0) return;
+      set((state) => {
+        for (const c of level) {
+          state.tracedDependents.add(auditNodeId(c));
+          state.arrows.push(...dependentArrows(c, neighbours(c)));
+        }
+      });
+    },
+
+    clearArrows: () => {
+      set((state) => {
+        state.arrows = [];
+        state.tracedPrecedents = new Set();
+        state.tracedDependents = new Set();
+      });
+    },
+  })),
+);
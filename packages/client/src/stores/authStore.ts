@@ -16,10 +16,16 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  /** Set after the password step when the account has 2FA on */
+  twoFactorChallenge: string | null;
 }
 
 interface AuthActions {
-  login: (email: string, password: string) => Promise<void>;
+  /** Resolves true when signed in, false when a 2FA code is needed next */
+  login: (email: string, password: string) => Promise<boolean>;
+  /** Finish a 2FA sign-in with a TOTP or recovery code */
+  verifyTwoFactor: (code: string) => Promise<void>;
+  setTwoFactorChallenge: (challengeToken: string | null) => void;
   register: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<void>;
@@ -35,8 +41,13 @@ interface AuthResponse {
   accessToken: string;
 }
 
+interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
 export const useAuthStore = create<AuthStore>()(
-  immer((set) => {
+  immer((set, get) => {
     // Set up unauthorized handler
     setOnUnauthorized(() => {
       set((state) => {
@@ -51,6 +62,7 @@ export const useAuthStore = create<AuthStore>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      twoFactorChallenge: null,
 
       login: async (email: string, password: string) => {
         set((state) => {
@@ -59,11 +71,21 @@ export const useAuthStore = create<AuthStore>()(
         });
 
         try {
-          const data = await api.post<AuthResponse>("/auth/login", {
+          const data = await api.post<
+            AuthResponse | TwoFactorChallengeResponse
+          >("/auth/login", {
             email,
             password,
           });
 
+          if ("twoFactorRequired" in data) {
+            set((state) => {
+              state.twoFactorChallenge = data.challengeToken;
+              state.isLoading = false;
+            });
+            return false;
+          }
+
           setAccessToken(data.accessToken);
 
           set((state) => {
@@ -71,6 +93,7 @@ export const useAuthStore = create<AuthStore>()(
             state.isAuthenticated = true;
             state.isLoading = false;
           });
+          return true;
         } catch (err) {
           const message = err instanceof Error ? err.message : "Login failed";
           set((state) => {
@@ -81,6 +104,44 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      verifyTwoFactor: async (code: string) => {
+        set((state) => {
+          state.isLoading = true;
+          state.error = null;
+        });
+
+        try {
+          const data = await api.post<AuthResponse>("/auth/login/2fa", {
+            challengeToken: get().twoFactorChallenge,
+            code,
+          });
+
+          setAccessToken(data.accessToken);
+
+          set((state) => {
+            state.user = data.user;
+            state.isAuthenticated = true;
+            state.isLoading = false;
+            state.twoFactorChallenge = null;
+          });
+        } catch (err) {
+          const message =
+            err instanceof Error ? err.message : "Verification failed";
+          set((state) => {
+            state.isLoading = false;
+            state.error = message;
+          });
+          throw err;
+        }
+      },
+
+      setTwoFactorChallenge: (challengeToken: string | null) => {
+        set((state) => {
+          state.twoFactorChallenge = challengeToken;
+          state.error = null;
+        });
+      },
+
       register: async (email: string, password: string, name?: string) => {
         set((state) => {
           state.isLoading = true;
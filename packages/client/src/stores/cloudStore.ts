@@ -1,18 +1,60 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
+import type { CalcSettings } from "@gridspace/formula";
 import { api } from "../services/api";
+import {
+  collectSheetObjects,
+  collectNamedRanges,
+  hydrateSpreadsheetObjects,
+} from "../utils/sheetObjects";
+import {
+  diffCellData,
+  applyPatchToCellData,
+  applyPatchToCellStore,
+  emptyPatch,
+} from "../utils/cellPatch";
+import type { CellPatch } from "../utils/cellPatch";
+import type { Tag } from "./tagStore";
+import { useDataStore } from "./dataStore";
+import { useNamedRangeStore } from "./namedRangeStore";
+import { useProtectionStore } from "./protectionStore";
 
 interface SpreadsheetSummary {
   id: string;
   title: string;
   isStarred: boolean;
   isTemplate: boolean;
+  teamId?: string | null;
+  folderId?: string | null;
+  /** The current user's own tags on it */
+  tags?: Tag[];
+  /** Set while it is in the trash */
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   owner: { id: string; name: string | null; avatarUrl: string | null };
   role: string;
 }
 
+/**
+ * Where to file a spreadsheet: a team or personal files (teamId null), and
+ * optionally a folder there
+ */
+interface SpreadsheetLocation {
+  teamId: string | null;
+  folderId?: string | null;
+}
+
+type BulkAction =
+  | { action: "move"; teamId: string | null; folderId?: string | null }
+  | { action: "trash" | "restore" | "delete" }
+  | { action: "tag" | "untag"; tagId: string };
+
+interface BulkResult {
+  succeeded: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
 interface SheetData {
   id: string;
   name: string;
@@ -26,6 +68,22 @@ interface SheetData {
   frozenCols: number;
   filterState: unknown;
   sortState: unknown;
+  objects?: unknown;
+  objectsVersion?: number;
+  revision?: number;
+}
+
+interface CellSaveResult {
+  revision: number;
+  objectsVersion: number;
+  /** Cells others changed since our base revision */
+  remote: CellPatch;
+}
+
+interface SheetExtras {
+  columnMeta?: Record<string, unknown>;
+  rowMeta?: Record<string, unknown>;
+  objects?: unknown;
 }
 
 interface SpreadsheetDetail {
@@ -40,6 +98,8 @@ interface SpreadsheetDetail {
     email: string;
     avatarUrl: string | null;
   };
+  namedRanges?: unknown;
+  calcSettings?: unknown;
   sheets: SheetData[];
 }
 
@@ -53,7 +113,7 @@ interface PaginatedResponse {
   };
 }
 
-type FilterType = "all" | "owned" | "shared" | "starred";
+type FilterType = "all" | "owned" | "shared" | "starred" | "team" | "trash";
 type SortByType = "title" | "updatedAt" | "createdAt";
 type ViewMode = "grid" | "list";
 
@@ -64,8 +124,16 @@ interface CloudState {
   isListLoading: boolean;
   isSaving: boolean;
   saveStatus: "idle" | "saving" | "saved" | "error";
+  /** Why the last save or live edit was refused */
+  saveError: string | null;
   error: string | null;
   filter: FilterType;
+  /** Team shown by the "team" filter */
+  teamId: string | null;
+  /** Folder being browsed, in the team or in "owned" personal files */
+  folderId: string | null;
+  /** Only show spreadsheets with this tag */
+  tagId: string | null;
   search: string;
   sortBy: SortByType;
   sortDir: "asc" | "desc";
@@ -78,12 +146,24 @@ interface CloudState {
 interface CloudActions {
   fetchSpreadsheets: () => Promise<void>;
   fetchSpreadsheet: (id: string) => Promise<void>;
-  createSpreadsheet: (title?: string) => Promise<SpreadsheetDetail>;
+  createSpreadsheet: (
+    title?: string,
+    location?: SpreadsheetLocation,
+  ) => Promise<SpreadsheetDetail>;
   updateSpreadsheet: (
     id: string,
-    data: { title?: string; isStarred?: boolean },
+    data: { title?: string; isStarred?: boolean; calcSettings?: CalcSettings },
   ) => Promise<void>;
+  moveSpreadsheet: (id: string, location: SpreadsheetLocation) => Promise<void>;
+  /** Move a spreadsheet to the trash */
   deleteSpreadsheet: (id: string) => Promise<void>;
+  restoreSpreadsheet: (id: string) => Promise<void>;
+  deleteSpreadsheetForever: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  /** Apply an action to many spreadsheets, then reload the list */
+  bulkUpdate: (ids: string[], op: BulkAction) => Promise<BulkResult>;
+  addTag: (id: string, tag: Tag) => Promise<void>;
+  removeTag: (id: string, tagId: string) => Promise<void>;
   duplicateSpreadsheet: (id: string) => Promise<SpreadsheetDetail>;
   toggleStar: (id: string) => Promise<void>;
   saveSheetData: (
@@ -93,7 +173,26 @@ interface CloudActions {
     columnMeta?: Record<string, unknown>,
     rowMeta?: Record<string, unknown>,
   ) => Promise<void>;
+  saveCellPatch: (
+    spreadsheetId: string,
+    sheetId: string,
+    patch: CellPatch,
+    extras?: SheetExtras,
+  ) => Promise<void>;
+  saveNamedRanges: (spreadsheetId: string) => Promise<void>;
+  /**
+   * Save named ranges and functions shortly after each change, until the
+   * returned function is called.
+   */
+  watchNamedRanges: (spreadsheetId: string) => () => void;
+  /** Show a rejected change (e.g. a live edit to a protected cell) */
+  reportSaveError: (message: string) => void;
   setFilter: (filter: FilterType) => void;
+  /** Show a team's spreadsheets, optionally just one folder */
+  setTeam: (teamId: string, folderId?: string | null) => void;
+  /** Browse into a folder of the current team or personal files */
+  setFolder: (folderId: string | null) => void;
+  setTag: (tagId: string | null) => void;
   setSearch: (search: string) => void;
   setSortBy: (sortBy: SortByType) => void;
   toggleSortDir: () => void;
@@ -105,6 +204,29 @@ interface CloudActions {
 
 type CloudStore = CloudState & CloudActions;
 
+/** Edits in the name manager usually come in bursts */
+const NAMED_RANGE_SAVE_DELAY_MS = 1000;
+
+/**
+ * Put back the saved value of every cell in the patch the user may not edit,
+ * so a refused save is not retried with the same protected cells.
+ */
+function revertProtectedCells(
+  sheetId: string,
+  patch: CellPatch,
+  saved: Record<string, unknown>,
+): void {
+  const { isCellProtected } = useDataStore.getState();
+  const revert = emptyPatch();
+  for (const key of [...Object.keys(patch.upserts), ...patch.deletes]) {
+    const [row, col] = key.split(",").map(Number);
+    if (!isCellProtected(sheetId, row, col)) continue;
+    if (key in saved) revert.upserts[key] = saved[key];
+    else revert.deletes.push(key);
+  }
+  applyPatchToCellStore(sheetId, revert);
+}
+
 export const useCloudStore = create<CloudStore>()(
   immer((set, get) => ({
     spreadsheets: [],
@@ -113,8 +235,12 @@ export const useCloudStore = create<CloudStore>()(
     isListLoading: false,
     isSaving: false,
     saveStatus: "idle",
+    saveError: null,
     error: null,
     filter: "all",
+    teamId: null,
+    folderId: null,
+    tagId: null,
     search: "",
     sortBy: "updatedAt",
     sortDir: "desc",
@@ -130,9 +256,21 @@ export const useCloudStore = create<CloudStore>()(
       });
 
       try {
-        const { filter, search, sortBy, sortDir, page } = get();
+        const {
+          filter,
+          teamId,
+          folderId,
+          tagId,
+          search,
+          sortBy,
+          sortDir,
+          page,
+        } = get();
         const params = new URLSearchParams();
         params.set("filter", filter);
+        if (filter === "team" && teamId) params.set("teamId", teamId);
+        if (folderId) params.set("folderId", folderId);
+        if (tagId) params.set("tagId", tagId);
         params.set("sortBy", sortBy);
         params.set("sortDir", sortDir);
         params.set("page", String(page));
@@ -170,6 +308,8 @@ export const useCloudStore = create<CloudStore>()(
           `/spreadsheets/${id}`,
         );
 
+        hydrateSpreadsheetObjects(spreadsheet);
+
         set((state) => {
           state.currentSpreadsheet = spreadsheet;
           state.isLoading = false;
@@ -185,9 +325,14 @@ export const useCloudStore = create<CloudStore>()(
       }
     },
 
-    createSpreadsheet: async (title?: string) => {
+    createSpreadsheet: async (
+      title?: string,
+      location?: SpreadsheetLocation,
+    ) => {
       const spreadsheet = await api.post<SpreadsheetDetail>("/spreadsheets", {
         title,
+        teamId: location?.teamId ?? undefined,
+        folderId: location?.folderId ?? undefined,
       });
 
       set((state) => {
@@ -196,6 +341,9 @@ export const useCloudStore = create<CloudStore>()(
           title: spreadsheet.title,
           isStarred: spreadsheet.isStarred,
           isTemplate: false,
+          teamId: location?.teamId ?? null,
+          folderId: location?.folderId ?? null,
+          tags: [],
           createdAt: spreadsheet.createdAt,
           updatedAt: spreadsheet.updatedAt,
           owner: spreadsheet.owner,
@@ -209,7 +357,11 @@ export const useCloudStore = create<CloudStore>()(
 
     updateSpreadsheet: async (
       id: string,
-      data: { title?: string; isStarred?: boolean },
+      data: {
+        title?: string;
+        isStarred?: boolean;
+        calcSettings?: CalcSettings;
+      },
     ) => {
       await api.put(`/spreadsheets/${id}`, data);
 
@@ -226,10 +378,38 @@ export const useCloudStore = create<CloudStore>()(
             state.currentSpreadsheet.title = data.title;
           if (data.isStarred !== undefined)
             state.currentSpreadsheet.isStarred = data.isStarred;
+          if (data.calcSettings !== undefined)
+            state.currentSpreadsheet.calcSettings = data.calcSettings;
         }
       });
     },
 
+    moveSpreadsheet: async (id: string, location: SpreadsheetLocation) => {
+      const moved = await api.put<{
+        teamId: string | null;
+        folderId: string | null;
+      }>(`/spreadsheets/${id}/location`, {
+        teamId: location.teamId,
+        folderId: location.folderId ?? null,
+      });
+
+      set((state) => {
+        const idx = state.spreadsheets.findIndex((s) => s.id === id);
+        if (idx === -1) return;
+        // Drop it from a team or folder view it no longer belongs in
+        if (
+          (state.filter === "team" && moved.teamId !== state.teamId) ||
+          (state.folderId && moved.folderId !== state.folderId)
+        ) {
+          state.spreadsheets.splice(idx, 1);
+          state.total = Math.max(0, state.total - 1);
+          return;
+        }
+        state.spreadsheets[idx].teamId = moved.teamId;
+        state.spreadsheets[idx].folderId = moved.folderId;
+      });
+    },
+
     deleteSpreadsheet: async (id: string) => {
       await api.delete(`/spreadsheets/${id}`);
 
@@ -242,6 +422,85 @@ export const useCloudStore = create<CloudStore>()(
       });
     },
 
+    restoreSpreadsheet: async (id: string) => {
+      await api.post(`/spreadsheets/${id}/restore`);
+
+      set((state) => {
+        state.spreadsheets = state.spreadsheets.filter((s) => s.id !== id);
+        state.total = Math.max(0, state.total - 1);
+      });
+    },
+
+    deleteSpreadsheetForever: async (id: string) => {
+      await api.delete(`/spreadsheets/${id}/permanent`);
+
+      set((state) => {
+        state.spreadsheets = state.spreadsheets.filter((s) => s.id !== id);
+        state.total = Math.max(0, state.total - 1);
+      });
+    },
+
+    emptyTrash: async () => {
+      await api.delete("/spreadsheets/trash");
+
+      set((state) => {
+        if (state.filter === "trash") {
+          state.spreadsheets = [];
+          state.total = 0;
+          state.totalPages = 1;
+          state.page = 1;
+        }
+      });
+    },
+
+    bulkUpdate: async (ids: string[], op: BulkAction) => {
+      const result = await api.post<BulkResult>("/spreadsheets/bulk", {
+        ids,
+        ...op,
+      });
+
+      await get().fetchSpreadsheets();
+      // After the reload, which clears errors
+      if (result.failed.length > 0) {
+        set((state) => {
+          state.error =
+            result.failed.length === ids.length
+              ? result.failed[0].error
+              : `${result.failed.length} of ${ids.length} spreadsheets could not be updated: ${result.failed[0].error}`;
+        });
+      }
+
+      return result;
+    },
+
+    addTag: async (id: string, tag: Tag) => {
+      await api.post(`/spreadsheets/${id}/tags`, { tagId: tag.id });
+
+      set((state) => {
+        const item = state.spreadsheets.find((s) => s.id === id);
+        if (item && !item.tags?.some((t) => t.id === tag.id)) {
+          item.tags = [...(item.tags ?? []), tag];
+        }
+      });
+    },
+
+    removeTag: async (id: string, tagId: string) => {
+      await api.delete(`/spreadsheets/${id}/tags/${tagId}`);
+
+      set((state) => {
+        const idx = state.spreadsheets.findIndex((s) => s.id === id);
+        if (idx === -1) return;
+        // Drop it from a view filtered to that tag
+        if (state.tagId === tagId) {
+          state.spreadsheets.splice(idx, 1);
+          state.total = Math.max(0, state.total - 1);
+          return;
+        }
+        const item = state.spreadsheets[idx];
+        item.tags = item.tags?.filter((t) => t.id !== tagId);
+      });
+    },
+
     duplicateSpreadsheet: async (id: string) => {
       const copy = await api.post<SpreadsheetDetail>(
         `/spreadsheets/${id}/duplicate`,
@@ -253,6 +512,7 @@ export const useCloudStore = create<CloudStore>()(
           title: copy.title,
           isStarred: copy.isStarred,
           isTemplate: false,
+          tags: [],
           createdAt: copy.createdAt,
           updatedAt: copy.updatedAt,
           owner: copy.owner,
@@ -286,34 +546,150 @@ export const useCloudStore = create<CloudStore>()(
       cellData: Record<string, unknown>,
       columnMeta?: Record<string, unknown>,
       rowMeta?: Record<string, unknown>,
+    ) => {
+      // Only send what changed since the last state the server confirmed
+      const saved = get().currentSpreadsheet?.sheets.find(
+        (s) => s.id === sheetId,
+      );
+      const patch = diffCellData(saved?.cellData ?? {}, cellData);
+
+      try {
+        await get().saveCellPatch(spreadsheetId, sheetId, patch, {
+          columnMeta,
+          rowMeta,
+          objects: collectSheetObjects(sheetId),
+        });
+      } catch (err) {
+        // saveCellPatch already recorded the error status. A 403 means some
+        // cells are protected; retrying would fail forever, so undo them
+        if ((err as { status?: number }).status === 403) {
+          await useProtectionStore.getState().fetchProtections(spreadsheetId);
+          revertProtectedCells(sheetId, patch, saved?.cellData ?? {});
+        }
+      }
+    },
+
+    saveCellPatch: async (
+      spreadsheetId: string,
+      sheetId: string,
+      patch: CellPatch,
+      extras: SheetExtras = {},
     ) => {
       set((state) => {
         state.isSaving = true;
         state.saveStatus = "saving";
+        state.saveError = null;
       });
 
+      const baseRevision = get().currentSpreadsheet?.sheets.find(
+        (s) => s.id === sheetId,
+      )?.revision;
+
       try {
-        await api.put(`/spreadsheets/${spreadsheetId}/sheets/${sheetId}/save`, {
-          cellData,
-          columnMeta,
-          rowMeta,
-        });
+        const result = await api.patch<CellSaveResult>(
+          `/spreadsheets/${spreadsheetId}/sheets/${sheetId}/save`,
+          { ...patch, baseRevision, ...extras },
+        );
+
+        applyPatchToCellStore(sheetId, result.remote);
 
         set((state) => {
           state.isSaving = false;
           state.saveStatus = "saved";
+          const sheet = state.currentSpreadsheet?.sheets.find(
+            (s) => s.id === sheetId,
+          );
+          if (sheet) {
+            sheet.cellData = applyPatchToCellData(
+              applyPatchToCellData(sheet.cellData, patch),
+              result.remote,
+            );
+            sheet.revision = result.revision;
+            sheet.objectsVersion = result.objectsVersion;
+          }
         });
-      } catch {
+      } catch (err) {
         set((state) => {
           state.isSaving = false;
           state.saveStatus = "error";
+          state.saveError = err instanceof Error ? err.message : null;
+        });
+        throw err;
+      }
+    },
+
+    saveNamedRanges: async (spreadsheetId: string) => {
+      try {
+        await api.put(`/spreadsheets/${spreadsheetId}/named-ranges`, {
+          namedRanges: collectNamedRanges(),
+        });
+      } catch {
+        set((state) => {
+          state.saveStatus = "error";
         });
       }
     },
 
+    watchNamedRanges: (spreadsheetId: string) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const unsubscribe = useNamedRangeStore.subscribe((state, prev) => {
+        if (
+          state.ranges === prev.ranges &&
+          state.functions === prev.functions
+        ) {
+          return;
+        }
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = null;
+          get().saveNamedRanges(spreadsheetId);
+        }, NAMED_RANGE_SAVE_DELAY_MS);
+      });
+      return () => {
+        unsubscribe();
+        // Don't lose a change made just before leaving
+        if (timer) {
+          clearTimeout(timer);
+          get().saveNamedRanges(spreadsheetId);
+        }
+      };
+    },
+
+    reportSaveError: (message: string) => {
+      set((state) => {
+        state.saveStatus = "error";
+        state.saveError = message;
+      });
+    },
+
     setFilter: (filter: FilterType) => {
       set((state) => {
         state.filter = filter;
+        if (filter !== "team") state.teamId = null;
+        state.folderId = null;
+        state.page = 1;
+      });
+    },
+
+    setTeam: (teamId: string, folderId: string | null = null) => {
+      set((state) => {
+        state.filter = "team";
+        state.teamId = teamId;
+        state.folderId = folderId;
+        state.page = 1;
+      });
+    },
+
+    setFolder: (folderId: string | null) => {
+      set((state) => {
+        state.folderId = folderId;
+        state.page = 1;
+      });
+    },
+
+    setTag: (tagId: string | null) => {
+      set((state) => {
+        state.tagId = tagId;
         state.page = 1;
       });
     },
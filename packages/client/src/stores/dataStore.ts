@@ -29,6 +29,7 @@ interface DataState {
   addProtectedRange: (range: ProtectedRange) => void;
   removeProtectedRange: (sheetId: string, id: string) => void;
   getProtectedRanges: (sheetId: string) => ProtectedRange[];
+  /** Whether the current user is kept from editing the cell */
   isCellProtected: (sheetId: string, row: number, col: number) => boolean;
 
   // Slicers
@@ -138,10 +139,12 @@ export const useDataStore = create<DataState>()(
       if (!ranges) return false;
       return ranges.some(
         (r) =>
-          row >= r.startRow &&
-          row <= r.endRow &&
-          col >= r.startCol &&
-          col <= r.endCol,
+          !r.canEdit &&
+          (r.wholeSheet ||
+            (row >= r.startRow &&
+              row <= r.endRow &&
+              col >= r.startCol &&
+              col <= r.endCol)),
       );
     },
 
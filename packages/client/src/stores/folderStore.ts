@@ -0,0 +1,200 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+export type FolderRole = "viewer" | "commenter" | "editor";
+
+/** Folders nest at most this many levels deep (enforced by the server) */
+export const MAX_FOLDER_DEPTH = 5;
+
+export interface Folder {
+  id: string;
+  name: string;
+  /** Set for team folders; personal folders have an ownerId instead */
+  teamId: string | null;
+  ownerId: string | null;
+  parentId: string | null;
+  createdAt: string;
+  /** Users granted a role on everything in the folder and below */
+  access: Array<{
+    userId: string;
+    role: FolderRole;
+    user: {
+      id: string;
+      name: string | null;
+      email: string;
+      avatarUrl: string | null;
+    };
+  }>;
+}
+
+/** Key for a team's folders, or the user's personal ones */
+export function folderScope(teamId: string | null): string {
+  return teamId ?? "personal";
+}
+
+/** The folder and its ancestors, outermost first */
+export function folderPath(
+  folders: Folder[],
+  folderId: string | null,
+): Folder[] {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const path: Folder[] = [];
+  for (
+    let folder = folderId ? byId.get(folderId) : undefined;
+    folder && !path.includes(folder);
+    folder = folder.parentId ? byId.get(folder.parentId) : undefined
+  ) {
+    path.unshift(folder);
+  }
+  return path;
+}
+
+/** Folders in tree order: each one followed by its subfolders */
+export function sortFoldersAsTree(folders: Folder[]): Folder[] {
+  const ordered: Folder[] = [];
+  const visit = (parentId: string | null) => {
+    for (const folder of folders) {
+      if (folder.parentId === parentId) {
+        ordered.push(folder);
+        visit(folder.id);
+      }
+    }
+  };
+  visit(null);
+  return ordered;
+}
+
+interface FolderState {
+  /** Flat folder lists, by `folderScope` */
+  foldersByScope: Record<string, Folder[]>;
+  error: string | null;
+}
+
+interface FolderActions {
+  fetchFolders: (teamId: string | null) => Promise<void>;
+  createFolder: (
+    teamId: string | null,
+    name: string,
+    parentId: string | null,
+  ) => Promise<Folder | null>;
+  renameFolder: (folder: Folder, name: string) => Promise<boolean>;
+  moveFolder: (folder: Folder, parentId: string | null) => Promise<boolean>;
+  /** Delete a folder; its contents move up into its parent */
+  deleteFolder: (folder: Folder) => Promise<boolean>;
+  grantFolderAccess: (
+    folder: Folder,
+    email: string,
+    role: FolderRole,
+  ) => Promise<boolean>;
+  revokeFolderAccess: (folder: Folder, userId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+type FolderStore = FolderState & FolderActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useFolderStore = create<FolderStore>()(
+  immer((set, get) => {
+    /** Run a folder change, then reload that folder's scope */
+    async function mutate(
+      teamId: string | null,
+      fallback: string,
+      request: () => Promise<unknown>,
+    ): Promise<boolean> {
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        await request();
+        await get().fetchFolders(teamId);
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, fallback);
+        });
+        return false;
+      }
+    }
+
+    return {
+      foldersByScope: {},
+      error: null,
+
+      fetchFolders: async (teamId) => {
+        try {
+          const folders = await api.get<Folder[]>(
+            teamId ? `/folders?teamId=${teamId}` : "/folders",
+          );
+          set((state) => {
+            state.foldersByScope[folderScope(teamId)] = folders;
+          });
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to load folders");
+          });
+        }
+      },
+
+      createFolder: async (teamId, name, parentId) => {
+        set((state) => {
+          state.error = null;
+        });
+        try {
+          const folder = await api.post<Folder>("/folders", {
+            name,
+            teamId,
+            parentId,
+          });
+          set((state) => {
+            const scope = folderScope(teamId);
+            state.foldersByScope[scope] = [
+              ...(state.foldersByScope[scope] ?? []),
+              folder,
+            ].sort((a, b) => a.name.localeCompare(b.name));
+          });
+          return folder;
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to create folder");
+          });
+          return null;
+        }
+      },
+
+      renameFolder: (folder, name) =>
+        mutate(folder.teamId, "Failed to rename folder", () =>
+          api.patch(`/folders/${folder.id}`, { name }),
+        ),
+
+      moveFolder: (folder, parentId) =>
+        mutate(folder.teamId, "Failed to move folder", () =>
+          api.patch(`/folders/${folder.id}`, { parentId }),
+        ),
+
+      deleteFolder: (folder) =>
+        mutate(folder.teamId, "Failed to delete folder", () =>
+          api.delete(`/folders/${folder.id}`),
+        ),
+
+      grantFolderAccess: (folder, email, role) =>
+        mutate(folder.teamId, "Failed to share folder", () =>
+          api.put(`/folders/${folder.id}/access`, { email, role }),
+        ),
+
+      revokeFolderAccess: (folder, userId) =>
+        mutate(folder.teamId, "Failed to remove folder access", () =>
+          api.delete(`/folders/${folder.id}/access/${userId}`),
+        ),
+
+      clearError: () => {
+        set((state) => {
+          state.error = null;
+        });
+      },
+    };
+  }),
+);
@@ -4,32 +4,99 @@
  */
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import type { ASTNode, FormulaValue, CellValueGetter } from "../types/formula";
-import { parseFormula } from "../components/formula/parser";
 import {
+  parseFormula,
   evaluate,
   extractReferences,
   resetLambdaRegistry,
-} from "../components/formula/evaluator";
-import { DependencyGraph } from "../components/formula/dependencyGraph";
-import { cellId } from "../components/formula/cellUtils";
+  DependencyGraph,
+  cellId,
+  parseCellId,
+  spillResult,
+  spillCells,
+  iterateCalculation,
+  bindStructuredReferences,
+  hasStructuredReferences,
+  DEFAULT_CALC_SETTINGS,
+} from "@gridspace/formula";
+import type {
+  ASTNode,
+  FormulaValue,
+  CellValueGetter,
+  CalcSettings,
+} from "@gridspace/formula";
+import {
+  isFormulaWorkerSupported,
+  recalculateInWorker,
+} from "../services/formulaWorkerService";
+import { useSpreadsheetStore } from "./spreadsheetStore";
+import { useTableStore } from "./tableStore";
+
+/**
+ * Parse a formula of a cell on the active sheet, binding table references
+ * such as `Table1[Amount]` to the cells the table covers right now.
+ */
+function parseForCell(formula: string, cellKey?: string): ASTNode {
+  const ast = parseFormula(
+    formula.startsWith("=") ? formula.slice(1) : formula,
+  );
+  if (!hasStructuredReferences(ast)) return ast;
+
+  const { sheets, activeSheetId } = useSpreadsheetStore.getState();
+  let row = -1;
+  let col = -1;
+  if (cellKey) {
+    try {
+      ({ row, col } = parseCellId(cellKey));
+    } catch {
+      // Not a cell key; only table-qualified references can be bound
+    }
+  }
+  return bindStructuredReferences(
+    ast,
+    useTableStore.getState().getDefinitions(),
+    {
+      sheet: sheets.find((s) => s.id === activeSheetId)?.name ?? activeSheetId,
+      row,
+      col,
+    },
+  );
+}
+
+/** Fan-outs at least this large are recalculated in the formula worker */
+export const WORKER_RECALC_THRESHOLD = 200;
+
+/** Bumped for every scheduled recalculation */
+let recalcGeneration = 0;
+/** Generation of the recalculation whose result each cell last received */
+const appliedGeneration = new Map<string, number>();
 
 interface SpillRange {
+  sheetId: string;
   sourceRow: number;
   sourceCol: number;
   rows: number;
   cols: number;
-  targets: string[]; // cell keys of spill target cells
+  /** Row-major array values, anchor included */
+  values: FormulaValue[][];
+  targets: string[]; // spill keys of spill target cells
 }
 
+/** Resolves a formula result that may be an array into the anchor's value */
+type SpillResolver = (cellKey: string, result: FormulaValue) => FormulaValue;
+
 interface FormulaState {
   dependencyGraph: DependencyGraph;
   formulaCache: Map<string, FormulaValue>;
   astCache: Map<string, ASTNode>;
-  /** Maps source cell key → spill range metadata */
+  /** Maps source spill key ("sheetId!row,col") → spill range metadata */
   spillRanges: Map<string, SpillRange>;
-  /** Maps target cell key → source cell key (for quick lookup) */
+  /** Maps target spill key → source spill key (for quick lookup) */
   spillTargets: Map<string, string>;
+  /** Maps a cell on a circular reference → the loop path through it */
+  circularRefs: Map<string, string[]>;
+  /** Spreadsheet-level iterative calculation settings */
+  calcSettings: CalcSettings;
 }
 
 interface FormulaActions {
@@ -39,24 +106,71 @@ interface FormulaActions {
     getCellValue: CellValueGetter,
     cellKey?: string,
   ) => FormulaValue;
+  /**
+   * Recalculate everything downstream of `changedCell`. With `resolveSpill`,
+   * array results are laid out as they are computed so later cells read the
+   * spilled values; the changed cell's own spill is settled first, after the
+   * order is known, so readers of its previous spill area are included.
+   */
   recalculate: (
     changedCell: string,
     getFormula: (cellKey: string) => string | undefined,
     getCellValue: CellValueGetter,
+    resolveSpill?: SpillResolver,
   ) => Map<string, FormulaValue>;
+  /**
+   * Recalculate the dependents of a cell on sheet `sheetId` and hand the
+   * results to `apply` — synchronously for small fan-outs, from the formula
+   * worker for large ones so editing never blocks the grid. Worker results
+   * for other sheets are keyed "sheetId!A1". Results arriving after a later
+   * recalculation already set a cell are dropped for that cell.
+   */
+  scheduleRecalculation: (
+    sheetId: string,
+    changedCell: string,
+    getFormula: (cellKey: string) => string | undefined,
+    getCellValue: CellValueGetter,
+    apply: (results: Map<string, FormulaValue>) => void,
+    resolveSpill?: SpillResolver,
+  ) => void;
+  /**
+   * Re-link a cell's references. Returns false when the formula closes a
+   * loop; the references are kept so the loop can be reported and, with
+   * iterative calculation on, iterated.
+   */
   updateDependencies: (cellKey: string, formula: string) => boolean;
   clearCache: () => void;
-  /** Get spill values for a cell. Returns the spill value if this cell is a spill target. */
-  getSpillValue: (cellKey: string) => FormulaValue | undefined;
+  setCalcSettings: (settings: CalcSettings) => void;
+  /** Loop path ("A1" → "B1" → "A1") through a cell, if it is circular */
+  getCircularPath: (cellKey: string) => string[] | undefined;
+  /** Get the spilled value shown in a cell, if it is a spill target. */
+  getSpillValue: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => FormulaValue | undefined;
   /** Check if a cell is a spill target (read-only). */
-  isSpillTarget: (cellKey: string) => boolean;
-  /** Get the source cell key for a spill target. */
-  getSpillSource: (cellKey: string) => string | undefined;
-  /** Clear spill range for a source cell. */
-  clearSpill: (sourceCellKey: string) => void;
-  /** Process a formula result that may be an array — handle spill. */
+  isSpillTarget: (sheetId: string, row: number, col: number) => boolean;
+  /** Get the anchor cell of the spill covering a target cell. */
+  getSpillSource: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => { row: number; col: number } | undefined;
+  /** Size of the spill anchored at a cell, for `A1#` references. */
+  getSpillRange: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => { rows: number; cols: number } | null;
+  /** Clear the spill range of a source cell. */
+  clearSpill: (sheetId: string, row: number, col: number) => void;
+  /**
+   * Process a formula result that may be an array — lay out its spill and
+   * return the value shown in the source cell (#SPILL! when blocked).
+   */
   handleSpill: (
-    sourceCellKey: string,
+    sheetId: string,
     sourceRow: number,
     sourceCol: number,
     result: FormulaValue,
@@ -64,6 +178,84 @@ interface FormulaActions {
   ) => FormulaValue;
 }
 
+function spillKey(sheetId: string, row: number, col: number): string {
+  return `${sheetId}!${row},${col}`;
+}
+
+function removeSpill(
+  state: Pick<FormulaState, "spillRanges" | "spillTargets">,
+  sourceKey: string,
+): void {
+  const spill = state.spillRanges.get(sourceKey);
+  if (!spill) return;
+  for (const target of spill.targets) {
+    state.spillTargets.delete(target);
+  }
+  state.spillRanges.delete(sourceKey);
+}
+
+/**
+ * Lay out the edited cell's own result (or clear its spill if it no longer
+ * holds a formula) and record the value it shows.
+ */
+function settleChangedCell(
+  state: FormulaState,
+  changedCell: string,
+  getFormula: (cellKey: string) => string | undefined,
+  resolveSpill: SpillResolver,
+  results: Map<string, FormulaValue>,
+): void {
+  const isFormula = getFormula(changedCell)?.startsWith("=") ?? false;
+  const own = isFormula ? (state.formulaCache.get(changedCell) ?? null) : null;
+  const shown = resolveSpill(changedCell, own);
+  if (isFormula) results.set(changedCell, shown);
+}
+
+type LoopUpdate = [cellKey: string, loop: string[] | null];
+
+/** Loop paths that differ from the recorded ones */
+function loopUpdates(
+  recorded: Map<string, string[]>,
+  loops: Iterable<LoopUpdate>,
+): LoopUpdate[] {
+  const updates: LoopUpdate[] = [];
+  for (const [cell, loop] of loops) {
+    const prev = recorded.get(cell);
+    const same = loop
+      ? prev?.length === loop.length && prev.every((c, i) => c === loop[i])
+      : prev === undefined;
+    if (!same) updates.push([cell, loop]);
+  }
+  return updates;
+}
+
+function applyLoopUpdates(
+  state: Pick<FormulaState, "circularRefs">,
+  updates: LoopUpdate[],
+): void {
+  for (const [cell, loop] of updates) {
+    if (loop) state.circularRefs.set(cell, loop);
+    else state.circularRefs.delete(cell);
+  }
+}
+
+/**
+ * Wrap a getter so cells computed earlier in a recalculation pass are read
+ * from `overlay` rather than from the (not yet updated) grid.
+ */
+function withOverlay(
+  getCellValue: CellValueGetter,
+  overlay: Map<string, FormulaValue>,
+): CellValueGetter {
+  const read: CellValueGetter = (sheet, col, row) => {
+    const id = cellId(sheet, col, row);
+    return overlay.has(id) ? overlay.get(id)! : getCellValue(sheet, col, row);
+  };
+  read.spillRange = getCellValue.spillRange;
+  read.namedFormula = getCellValue.namedFormula;
+  return read;
+}
+
 export const useFormulaStore = create<FormulaState & FormulaActions>()(
   immer((set, get) => ({
     dependencyGraph: new DependencyGraph(),
@@ -71,6 +263,8 @@ export const useFormulaStore = create<FormulaState & FormulaActions>()(
     astCache: new Map(),
     spillRanges: new Map(),
     spillTargets: new Map(),
+    circularRefs: new Map(),
+    calcSettings: { ...DEFAULT_CALC_SETTINGS },
 
     parseFormula: (formula: string): ASTNode => {
       // Strip leading = if present
@@ -83,23 +277,20 @@ export const useFormulaStore = create<FormulaState & FormulaActions>()(
       getCellValue: CellValueGetter,
       cellKey?: string,
     ): FormulaValue => {
-      const state = get();
       const expr = formula.startsWith("=") ? formula.slice(1) : formula;
 
       // Reset lambda registry for each top-level evaluation
       resetLambdaRegistry();
 
       try {
-        const ast = parseFormula(expr);
-
-        if (cellKey) {
-          state.astCache.set(cellKey, ast);
-        }
-
+        const ast = parseForCell(expr, cellKey);
         const result = evaluate(ast, getCellValue);
 
         if (cellKey) {
-          state.formulaCache.set(cellKey, result);
+          set((state) => {
+            state.astCache.set(cellKey, ast);
+            state.formulaCache.set(cellKey, result);
+          });
         }
 
         return result;
@@ -118,7 +309,7 @@ export const useFormulaStore = create<FormulaState & FormulaActions>()(
       const expr = formula.startsWith("=") ? formula.slice(1) : formula;
 
       try {
-        const ast = parseFormula(expr);
+        const ast = parseForCell(expr, cellKey);
         const refs = extractReferences(ast);
 
         for (const ref of refs) {
@@ -141,57 +332,196 @@ export const useFormulaStore = create<FormulaState & FormulaActions>()(
             }
           }
         }
-
-        // Check for circular references
-        if (graph.detectCircular(cellKey)) {
-          graph.removeDependencies(cellKey);
-          return false; // Circular reference detected
-        }
-
-        return true;
       } catch {
-        return true; // Parse error, no deps to add
+        // Parse error, no deps to add
       }
+
+      const loop = graph.findCycle(cellKey);
+      const updates = loopUpdates(get().circularRefs, [[cellKey, loop]]);
+      if (updates.length > 0) {
+        set((draft) => applyLoopUpdates(draft, updates));
+      }
+      return loop === null;
     },
 
     recalculate: (
       changedCell: string,
       getFormula: (cellKey: string) => string | undefined,
       getCellValue: CellValueGetter,
+      resolveSpill?: SpillResolver,
     ): Map<string, FormulaValue> => {
       const state = get();
       const graph = state.dependencyGraph;
       const order = graph.getRecalculationOrder(changedCell);
       const results = new Map<string, FormulaValue>();
+      const cached = new Map<string, FormulaValue>();
+
+      if (resolveSpill) {
+        settleChangedCell(
+          state,
+          changedCell,
+          getFormula,
+          resolveSpill,
+          results,
+        );
+      }
 
-      for (const cell of order) {
+      // Later cells read values computed earlier in this pass
+      const overlay = new Map<string, FormulaValue>();
+      const read = withOverlay(getCellValue, overlay);
+      const loops: LoopUpdate[] = [];
+
+      const evaluateCell = (cell: string, formula: string): FormulaValue => {
+        resetLambdaRegistry();
+        let result: FormulaValue;
+        try {
+          result = evaluate(parseForCell(formula, cell), read);
+        } catch {
+          result = "#VALUE!";
+        }
+        cached.set(cell, result);
+        if (!Array.isArray(result)) overlay.set(cell, result);
+        return result;
+      };
+
+      const settle = (cell: string, result: FormulaValue) => {
+        const shown = resolveSpill ? resolveSpill(cell, result) : result;
+        overlay.set(cell, shown);
+        results.set(cell, shown);
+      };
+
+      // Loops come last in the order, ahead of the cells that read them
+      const formulaCells = order.flatMap((cell) => {
         const formula = getFormula(cell);
-        if (formula && formula.startsWith("=")) {
-          const expr = formula.slice(1);
-          try {
-            const ast = parseFormula(expr);
-
-            // Check for circular reference
-            if (graph.detectCircular(cell)) {
-              results.set(cell, "#REF!");
-              state.formulaCache.set(cell, "#REF!");
-              continue;
-            }
+        return formula?.startsWith("=") ? [[cell, formula] as const] : [];
+      });
+      let loopStart = formulaCells.length;
+
+      for (let i = 0; i < formulaCells.length; i++) {
+        const [cell, formula] = formulaCells[i];
+        const loop = graph.findCycle(cell);
+        loops.push([cell, loop]);
+        if (loop && state.calcSettings.iterative) {
+          loopStart = i;
+          break;
+        }
+        if (loop) {
+          cached.set(cell, "#REF!");
+          settle(cell, "#REF!");
+        } else {
+          settle(cell, evaluateCell(cell, formula));
+        }
+      }
 
-            const result = evaluate(ast, getCellValue);
-            results.set(cell, result);
-            state.formulaCache.set(cell, result);
-          } catch {
-            const errVal: FormulaValue = "#VALUE!";
-            results.set(cell, errVal);
-            state.formulaCache.set(cell, errVal);
-          }
+      // Iterate the loops and their readers, starting from their current
+      // values, until they settle or the iteration limit is reached
+      const tail = formulaCells.slice(loopStart);
+      if (tail.length > 0) {
+        for (const [cell] of tail.slice(1)) {
+          loops.push([cell, graph.findCycle(cell)]);
         }
+        const { values } = iterateCalculation(
+          new Map(),
+          () => new Map(tail.map(([cell, f]) => [cell, evaluateCell(cell, f)])),
+          state.calcSettings,
+        );
+        for (const [cell, value] of values) settle(cell, value);
+      }
+
+      const loopChanges = loopUpdates(state.circularRefs, loops);
+      if (cached.size > 0 || loopChanges.length > 0) {
+        set((draft) => {
+          for (const [cell, value] of cached)
+            draft.formulaCache.set(cell, value);
+          applyLoopUpdates(draft, loopChanges);
+        });
       }
 
       return results;
     },
 
+    scheduleRecalculation: (
+      sheetId,
+      changedCell,
+      getFormula,
+      getCellValue,
+      apply,
+      resolveSpill,
+    ): void => {
+      const state = get();
+      const generation = ++recalcGeneration;
+      // Worker results can land after a newer recalculation; keep its values
+      const applyFresh = (updates: Map<string, FormulaValue>): void => {
+        const fresh = new Map<string, FormulaValue>();
+        for (const [key, value] of updates) {
+          const id = key.includes("!") ? key : `${sheetId}!${key}`;
+          if ((appliedGeneration.get(id) ?? 0) > generation) continue;
+          appliedGeneration.set(id, generation);
+          fresh.set(key, value);
+        }
+        apply(fresh);
+      };
+
+      const fanOut = state.dependencyGraph.getAllDependents(changedCell).size;
+      if (fanOut < WORKER_RECALC_THRESHOLD || !isFormulaWorkerSupported()) {
+        applyFresh(
+          state.recalculate(
+            changedCell,
+            getFormula,
+            getCellValue,
+            resolveSpill,
+          ),
+        );
+        return;
+      }
+
+      const { row, col } = parseCellId(changedCell);
+      recalculateInWorker([{ sheetId, row, col }], state.calcSettings)
+        .then((results) => {
+          const updates = new Map<string, FormulaValue>();
+          if (resolveSpill) {
+            settleChangedCell(
+              get(),
+              changedCell,
+              getFormula,
+              resolveSpill,
+              updates,
+            );
+          }
+          for (const result of results) {
+            const sheet =
+              result.sheetId === sheetId ? undefined : result.sheetId;
+            const key = cellId(sheet, result.col, result.row);
+            updates.set(
+              key,
+              resolveSpill ? resolveSpill(key, result.value) : result.value,
+            );
+          }
+          applyFresh(updates);
+        })
+        .catch(() => {
+          // Worker unavailable — fall back to recalculating here
+          applyFresh(
+            get().recalculate(
+              changedCell,
+              getFormula,
+              getCellValue,
+              resolveSpill,
+            ),
+          );
+        });
+    },
+
+    setCalcSettings: (settings: CalcSettings): void => {
+      set((state) => {
+        state.calcSettings = { ...settings };
+      });
+    },
+
+    getCircularPath: (cellKey: string): string[] | undefined => {
+      return get().circularRefs.get(cellKey);
+    },
+
     clearCache: (): void => {
       set((state) => {
         state.formulaCache.clear();
@@ -199,134 +529,94 @@ export const useFormulaStore = create<FormulaState & FormulaActions>()(
       });
     },
 
-    getSpillValue: (cellKey: string): FormulaValue | undefined => {
+    getSpillValue: (
+      sheetId: string,
+      row: number,
+      col: number,
+    ): FormulaValue | undefined => {
       const state = get();
-      const sourceKey = state.spillTargets.get(cellKey);
+      const sourceKey = state.spillTargets.get(spillKey(sheetId, row, col));
       if (!sourceKey) return undefined;
-      return state.formulaCache.get(cellKey);
+      const spill = state.spillRanges.get(sourceKey);
+      return spill?.values[row - spill.sourceRow]?.[col - spill.sourceCol];
+    },
+
+    isSpillTarget: (sheetId: string, row: number, col: number): boolean => {
+      return get().spillTargets.has(spillKey(sheetId, row, col));
     },
 
-    isSpillTarget: (cellKey: string): boolean => {
-      return get().spillTargets.has(cellKey);
+    getSpillSource: (sheetId: string, row: number, col: number) => {
+      const state = get();
+      const sourceKey = state.spillTargets.get(spillKey(sheetId, row, col));
+      const spill = sourceKey ? state.spillRanges.get(sourceKey) : undefined;
+      return spill ? { row: spill.sourceRow, col: spill.sourceCol } : undefined;
     },
 
-    getSpillSource: (cellKey: string): string | undefined => {
-      return get().spillTargets.get(cellKey);
+    getSpillRange: (sheetId: string, row: number, col: number) => {
+      const spill = get().spillRanges.get(spillKey(sheetId, row, col));
+      return spill ? { rows: spill.rows, cols: spill.cols } : null;
     },
 
-    clearSpill: (sourceCellKey: string): void => {
+    clearSpill: (sheetId: string, row: number, col: number): void => {
+      get().dependencyGraph.clearSpillArea(cellId(undefined, col, row));
+      if (!get().spillRanges.has(spillKey(sheetId, row, col))) return;
       set((state) => {
-        const spill = state.spillRanges.get(sourceCellKey);
-        if (!spill) return;
-        for (const target of spill.targets) {
-          state.spillTargets.delete(target);
-          state.formulaCache.delete(target);
-        }
-        state.spillRanges.delete(sourceCellKey);
+        removeSpill(state, spillKey(sheetId, row, col));
       });
     },
 
     handleSpill: (
-      sourceCellKey: string,
+      sheetId: string,
       sourceRow: number,
       sourceCol: number,
       result: FormulaValue,
       hasCellContent: (row: number, col: number) => boolean,
     ): FormulaValue => {
       const state = get();
+      const sourceKey = spillKey(sheetId, sourceRow, sourceCol);
 
-      // Clear any previous spill from this source
-      const oldSpill = state.spillRanges.get(sourceCellKey);
-      if (oldSpill) {
-        for (const target of oldSpill.targets) {
-          state.spillTargets.delete(target);
-          state.formulaCache.delete(target);
-        }
-        state.spillRanges.delete(sourceCellKey);
-      }
+      // Content and other formulas' spills block; this source's own does not
+      const spill = spillResult(sourceRow, sourceCol, result, (row, col) => {
+        if (hasCellContent(row, col)) return true;
+        const owner = state.spillTargets.get(spillKey(sheetId, row, col));
+        return owner !== undefined && owner !== sourceKey;
+      });
 
-      // Check if result is a 2D array that should spill
-      if (!Array.isArray(result)) return result;
-      const arr = result as unknown as FormulaValue[][];
-      if (!Array.isArray(arr[0])) {
-        // 1D array — treat as column spill
-        const values = result as unknown as FormulaValue[];
-        if (values.length <= 1) return values[0] ?? null;
-
-        const targets: string[] = [];
-        // Check for conflicts
-        for (let r = 1; r < values.length; r++) {
-          const targetRow = sourceRow + r;
-          const targetKey = `${targetRow},${sourceCol}`;
-          if (
-            hasCellContent(targetRow, sourceCol) &&
-            !state.spillTargets.has(targetKey)
-          ) {
-            return "#SPILL!";
-          }
-          targets.push(targetKey);
-        }
+      const anchorId = cellId(undefined, sourceCol, sourceRow);
+      if (!spill.area) {
+        state.clearSpill(sheetId, sourceRow, sourceCol);
+        return spill.value;
+      }
 
-        // Write spill values
-        for (let r = 1; r < values.length; r++) {
-          const targetKey = `${sourceRow + r},${sourceCol}`;
-          state.spillTargets.set(targetKey, sourceCellKey);
-          state.formulaCache.set(targetKey, values[r]);
+      // A blocked area stays in the graph so clearing the blocker recalculates
+      const area = spill.area;
+      const covered = spillCells(area);
+      state.dependencyGraph.setSpillArea(
+        anchorId,
+        covered.map(([row, col]) => cellId(undefined, col, row)),
+      );
+
+      set((draft) => {
+        removeSpill(draft, sourceKey);
+        if (spill.blocked) return;
+        const targets = covered.map(([row, col]) =>
+          spillKey(sheetId, row, col),
+        );
+        for (const target of targets) {
+          draft.spillTargets.set(target, sourceKey);
         }
-
-        state.spillRanges.set(sourceCellKey, {
+        draft.spillRanges.set(sourceKey, {
+          sheetId,
           sourceRow,
           sourceCol,
-          rows: values.length,
-          cols: 1,
+          rows: area.rows,
+          cols: area.cols,
+          values: spill.values,
           targets,
         });
-
-        return values[0];
-      }
-
-      // 2D array spill
-      const rows = arr.length;
-      const cols = arr[0]?.length ?? 0;
-      if (rows <= 1 && cols <= 1) return arr[0]?.[0] ?? null;
-
-      const targets: string[] = [];
-      // Check for conflicts
-      for (let r = 0; r < rows; r++) {
-        for (let c = 0; c < cols; c++) {
-          if (r === 0 && c === 0) continue; // source cell
-          const targetRow = sourceRow + r;
-          const targetCol = sourceCol + c;
-          const targetKey = `${targetRow},${targetCol}`;
-          if (
-            hasCellContent(targetRow, targetCol) &&
-            !state.spillTargets.has(targetKey)
-          ) {
-            return "#SPILL!";
-          }
-          targets.push(targetKey);
-        }
-      }
-
-      // Write spill values
-      for (let r = 0; r < rows; r++) {
-        for (let c = 0; c < cols; c++) {
-          if (r === 0 && c === 0) continue;
-          const targetKey = `${sourceRow + r},${sourceCol + c}`;
-          state.spillTargets.set(targetKey, sourceCellKey);
-          state.formulaCache.set(targetKey, arr[r]?.[c] ?? null);
-        }
-      }
-
-      state.spillRanges.set(sourceCellKey, {
-        sourceRow,
-        sourceCol,
-        rows,
-        cols,
-        targets,
       });
 
-      return arr[0]?.[0] ?? null;
+      return spill.value;
     },
   })),
 );
@@ -1,9 +1,12 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import type { NamedRange, CellPosition } from "../types/grid";
+import { hasFunction, parseFormula } from "@gridspace/formula";
+import type { NamedRange, NamedFunction, CellPosition } from "../types/grid";
 
 interface NamedRangeState {
   ranges: Map<string, NamedRange>;
+  /** Named formulas keyed by upper-case name; callable from any formula */
+  functions: Map<string, NamedFunction>;
 
   addRange: (range: NamedRange) => void;
   removeRange: (name: string) => void;
@@ -19,11 +22,31 @@ interface NamedRangeState {
     start: CellPosition;
     end: CellPosition;
   } | null;
+  /**
+   * Define or replace a named function. Returns false if the name clashes
+   * with a built-in function or cell reference, or the formula does not parse.
+   */
+  addFunction: (fn: NamedFunction) => boolean;
+  removeFunction: (name: string) => void;
+  getFunction: (name: string) => NamedFunction | undefined;
+  getAllFunctions: () => NamedFunction[];
+  /** Formula a name refers to, for the formula engine's name lookup */
+  resolveFunction: (name: string) => string | undefined;
+}
+
+function isValidFunctionName(name: string): boolean {
+  return (
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) &&
+    !/^[A-Za-z]{1,3}\d+$/.test(name) &&
+    !/^(TRUE|FALSE)$/i.test(name) &&
+    !hasFunction(name)
+  );
 }
 
 export const useNamedRangeStore = create<NamedRangeState>()(
   immer((set, get) => ({
     ranges: new Map<string, NamedRange>(),
+    functions: new Map<string, NamedFunction>(),
 
     addRange: (range: NamedRange) => {
       set((state) => {
@@ -74,5 +97,43 @@ export const useNamedRangeStore = create<NamedRangeState>()(
         end: { row: range.endRow, col: range.endCol },
       };
     },
+
+    addFunction: (fn: NamedFunction) => {
+      if (!isValidFunctionName(fn.name)) return false;
+      const formula = fn.formula.startsWith("=")
+        ? fn.formula
+        : `=${fn.formula}`;
+      try {
+        parseFormula(formula.slice(1));
+      } catch {
+        return false;
+      }
+      set((state) => {
+        state.functions.set(fn.name.toUpperCase(), {
+          ...fn,
+          name: fn.name.toUpperCase(),
+          formula,
+        });
+      });
+      return true;
+    },
+
+    removeFunction: (name: string) => {
+      set((state) => {
+        state.functions.delete(name.toUpperCase());
+      });
+    },
+
+    getFunction: (name: string) => {
+      return get().functions.get(name.toUpperCase());
+    },
+
+    getAllFunctions: () => {
+      return Array.from(get().functions.values());
+    },
+
+    resolveFunction: (name: string) => {
+      return get().functions.get(name.toUpperCase())?.formula;
+    },
   })),
 );
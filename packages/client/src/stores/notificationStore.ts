@@ -1,9 +1,11 @@
 /**
- * Notification store — manages in-app notifications.
+ * Notification store — manages in-app notifications and the user's
+ * notification preferences.
  * Notifications come from: sharing events, @mentions, comment replies.
  */
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
 
 export type NotificationType =
   | "share"
@@ -30,8 +32,12 @@ export interface NotificationPreferences {
   inAppSharing: boolean;
   inAppComments: boolean;
   inAppMentions: boolean;
+  /** Batch notification emails into an hourly or daily digest */
+  emailDigest: EmailDigestMode;
 }
 
+export type EmailDigestMode = "off" | "hourly" | "daily";
+
 interface NotificationState {
   notifications: AppNotification[];
   unreadCount: number;
@@ -48,6 +54,10 @@ interface NotificationState {
   closePanel: () => void;
   togglePanel: () => void;
   setPreferences: (prefs: Partial<NotificationPreferences>) => void;
+  /** Load the user's global preferences from the server */
+  fetchPreferences: () => Promise<void>;
+  /** Save preference changes, rolling back if the server rejects them */
+  savePreferences: (prefs: Partial<NotificationPreferences>) => Promise<boolean>;
 }
 
 function countUnread(notifications: AppNotification[]): number {
@@ -55,7 +65,7 @@ function countUnread(notifications: AppNotification[]): number {
 }
 
 export const useNotificationStore = create<NotificationState>()(
-  immer((set) => ({
+  immer((set, get) => ({
     notifications: [],
     unreadCount: 0,
     isPanelOpen: false,
@@ -66,6 +76,7 @@ export const useNotificationStore = create<NotificationState>()(
       inAppSharing: true,
       inAppComments: true,
       inAppMentions: true,
+      emailDigest: "off",
     },
 
     addNotification: (notification) => {
@@ -141,5 +152,41 @@ export const useNotificationStore = create<NotificationState>()(
         Object.assign(state.preferences, prefs);
       });
     },
+
+    fetchPreferences: async () => {
+      try {
+        const prefs = await api.get<NotificationPreferences>(
+          "/notifications/preferences",
+        );
+        set((state) => {
+          state.preferences = prefs;
+        });
+      } catch {
+        // Keep the defaults
+      }
+    },
+
+    savePreferences: async (prefs) => {
+      const previous = get().preferences;
+      set((state) => {
+        Object.assign(state.preferences, prefs);
+      });
+
+      try {
+        const saved = await api.put<NotificationPreferences>(
+          "/notifications/preferences",
+          prefs,
+        );
+        set((state) => {
+          state.preferences = saved;
+        });
+        return true;
+      } catch {
+        set((state) => {
+          state.preferences = previous;
+        });
+        return false;
+      }
+    },
   })),
 );
@@ -11,6 +11,14 @@ import {
   getEditCount,
 } from "../utils/offlineQueue";
 import type { OfflineEdit } from "../utils/offlineQueue";
+import { emptyPatch } from "../utils/cellPatch";
+import type { CellPatch } from "../utils/cellPatch";
+
+export type PatchSender = (
+  spreadsheetId: string,
+  sheetId: string,
+  patch: CellPatch,
+) => Promise<void>;
 
 export type SyncStatus = "idle" | "syncing" | "error";
 
@@ -31,12 +39,47 @@ interface OfflineActions {
   addOfflineEdit: (
     edit: Omit<OfflineEdit, "id" | "timestamp">,
   ) => Promise<void>;
-  syncEdits: (sender: (edit: OfflineEdit) => Promise<void>) => Promise<void>;
+  syncEdits: (sender: PatchSender) => Promise<void>;
   refreshPendingCount: () => Promise<void>;
 }
 
 type OfflineStore = OfflineState & OfflineActions;
 
+/**
+ * Collapse queued edits into one cell patch per sheet. Edits are replayed in
+ * queue order so the last edit to a cell wins. Patches are field-level
+ * (`merge`), so a cell's format, comment and other fields the edit did not
+ * touch survive; clearing a cell nulls its value and formula.
+ */
+function groupEditsBySheet(
+  edits: OfflineEdit[],
+): Array<{ spreadsheetId: string; sheetId: string; patch: CellPatch }> {
+  const groups = new Map<
+    string,
+    { spreadsheetId: string; sheetId: string; patch: CellPatch }
+  >();
+
+  for (const edit of edits) {
+    const groupKey = `${edit.spreadsheetId}/${edit.sheetId}`;
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        spreadsheetId: edit.spreadsheetId,
+        sheetId: edit.sheetId,
+        patch: { ...emptyPatch(), merge: true },
+      };
+      groups.set(groupKey, group);
+    }
+
+    group.patch.upserts[edit.cell] = {
+      value: edit.value,
+      formula: edit.formula || null,
+    };
+  }
+
+  return Array.from(groups.values());
+}
+
 export const useOfflineStore = create<OfflineStore>()(
   immer((set, get) => ({
     isOnline: typeof navigator !== "undefined" ? navigator.onLine : true,
@@ -93,8 +136,10 @@ export const useOfflineStore = create<OfflineStore>()(
 
       try {
         const edits = await getAllEdits();
-        for (const edit of edits) {
-          await sender(edit);
+        for (const { spreadsheetId, sheetId, patch } of groupEditsBySheet(
+          edits,
+        )) {
+          await sender(spreadsheetId, sheetId, patch);
         }
         await clearAllEdits();
         set((state) => {
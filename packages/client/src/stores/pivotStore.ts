@@ -1,21 +1,38 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
+import { cellId } from "@gridspace/formula";
 import type {
   PivotConfig,
-  PivotAggregation,
   PivotFieldConfig,
   PivotValueConfig,
   PivotFilterConfig,
+  PivotCalculatedField,
   CellData,
+  SelectionRange,
 } from "../types/grid";
-import { getCellKey } from "../utils/coordinates";
+import { useCellStore } from "./cellStore";
+import { useFormulaStore } from "./formulaStore";
+import { uniqueSheetName, useSpreadsheetStore } from "./spreadsheetStore";
+import { buildPivot, pivotDrillDown } from "../utils/pivot";
+import { positionToCellRef } from "../utils/coordinates";
 
 interface PivotState {
   pivots: Map<string, PivotConfig>;
   editorOpen: boolean;
   editingPivotId: string | null;
+  /** Why a pivot's output could not be written, keyed by pivot id */
+  conflicts: Map<string, string>;
 
+  /** Add a pivot, track its source and write its output */
   createPivot: (config: PivotConfig) => void;
+  /**
+   * Start a pivot over `selection` on a new sheet and open the editor.
+   * Returns the new sheet's id.
+   */
+  createPivotFromSelection: (
+    sheetId: string,
+    selection: SelectionRange,
+  ) => string;
   removePivot: (id: string) => void;
   updatePivot: (id: string, updates: Partial<PivotConfig>) => void;
   getPivot: (id: string) => PivotConfig | undefined;
@@ -28,29 +45,113 @@ interface PivotState {
   setColFields: (pivotId: string, fields: PivotFieldConfig[]) => void;
   setValueFields: (pivotId: string, fields: PivotValueConfig[]) => void;
   setFilters: (pivotId: string, filters: PivotFilterConfig[]) => void;
+  setCalculatedFields: (
+    pivotId: string,
+    fields: PivotCalculatedField[],
+  ) => void;
 
   computePivot: (
     config: PivotConfig,
     sourceCells: Map<string, CellData>,
   ) => Map<string, CellData>;
+  /**
+   * List the source rows behind the pivot value at a cell on a new sheet.
+   * Returns the new sheet's id, or null if the cell is not a pivot value.
+   */
+  drillDown: (sheetId: string, row: number, col: number) => string | null;
+
+  /**
+   * Register a pivot with the formula dependency graph as depending on
+   * every cell of its source range.
+   */
+  trackPivot: (id: string) => void;
+  /**
+   * Recompute a pivot and write it at its target cell, replacing its last
+   * output. When it would overwrite other data, only #REF! is written and
+   * the conflict recorded. Returns false on a conflict.
+   */
+  refreshPivot: (id: string) => boolean;
+  /** Refresh the pivots whose source depends on an edited cell */
+  refreshDependents: (sheetId: string, changedCell: string) => void;
+  /**
+   * Grow pivot sources when a value is typed directly below or to the
+   * right of them. Returns true if a source grew.
+   */
+  handleCellEdit: (sheetId: string, row: number, col: number) => boolean;
+  /** The pivot whose output covers a cell */
+  getPivotAt: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => PivotConfig | undefined;
+}
+
+/** Dependency graph node standing for a pivot's output */
+export function pivotNodeId(id: string): string {
+  return `pivot:${id}`;
+}
+
+function bounds(range: SelectionRange) {
+  return {
+    startRow: Math.min(range.start.row, range.end.row),
+    endRow: Math.max(range.start.row, range.end.row),
+    startCol: Math.min(range.start.col, range.end.col),
+    endCol: Math.max(range.start.col, range.end.col),
+  };
+}
+
+/** Delete the cells a pivot last wrote */
+function clearOutput(pivot: PivotConfig): void {
+  const { outputSize, targetCell, targetSheetId } = pivot;
+  if (!outputSize || outputSize.rows === 0 || outputSize.cols === 0) return;
+  useCellStore
+    .getState()
+    .clearRange(
+      targetSheetId,
+      targetCell.row,
+      targetCell.col,
+      targetCell.row + outputSize.rows - 1,
+      targetCell.col + outputSize.cols - 1,
+    );
 }
 
-function aggregate(values: number[], agg: PivotAggregation): number {
-  if (values.length === 0) return 0;
-  switch (agg) {
-    case "SUM":
-      return values.reduce((a, b) => a + b, 0);
-    case "COUNT":
-      return values.length;
-    case "AVERAGE":
-      return values.reduce((a, b) => a + b, 0) / values.length;
-    case "MIN":
-      return Math.min(...values);
-    case "MAX":
-      return Math.max(...values);
-    default:
-      return 0;
+/**
+ * Why an output of `rows` × `cols` cannot be written at the pivot's target
+ * cell, or null when it can. Cells the pivot wrote last time are its own.
+ */
+function findConflict(
+  pivot: PivotConfig,
+  rows: number,
+  cols: number,
+): string | null {
+  const { row: top, col: left } = pivot.targetCell;
+  const previous = pivot.outputSize ?? { rows: 0, cols: 0 };
+  if (pivot.targetSheetId === pivot.sourceSheetId) {
+    const source = bounds(pivot.sourceRange);
+    if (
+      top <= source.endRow &&
+      top + rows - 1 >= source.startRow &&
+      left <= source.endCol &&
+      left + cols - 1 >= source.startCol
+    ) {
+      return "The pivot table would overlap its source data";
+    }
   }
+  const cellStore = useCellStore.getState();
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (r < previous.rows && c < previous.cols) continue;
+      if (r === 0 && c === 0) continue;
+      const cell = cellStore.getCell(pivot.targetSheetId, top + r, left + c);
+      if (cell?.formula || (cell?.value != null && cell.value !== "")) {
+        return `The pivot table would overwrite data in ${positionToCellRef({
+          row: top + r,
+          col: left + c,
+        })}`;
+      }
+    }
+  }
+  return null;
 }
 
 export const usePivotStore = create<PivotState>()(
@@ -59,15 +160,46 @@ export const usePivotStore = create<PivotState>()(
     editorOpen: false,
     editingPivotId: null,
 
+    conflicts: new Map<string, string>(),
+
     createPivot: (config: PivotConfig) => {
       set((state) => {
         state.pivots.set(config.id, config);
       });
+      get().trackPivot(config.id);
+      get().refreshPivot(config.id);
+    },
+
+    createPivotFromSelection: (sheetId: string, selection: SelectionRange) => {
+      const spreadsheet = useSpreadsheetStore.getState();
+      spreadsheet.addSheet(uniqueSheetName("Pivot Table"));
+      const sheets = useSpreadsheetStore.getState().sheets;
+      const targetSheetId = sheets[sheets.length - 1].id;
+      const id = `pivot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      get().createPivot({
+        id,
+        sourceSheetId: sheetId,
+        sourceRange: selection,
+        rowFields: [],
+        colFields: [],
+        valueFields: [],
+        filters: [],
+        targetSheetId,
+        targetCell: { row: 0, col: 0 },
+      });
+      get().openEditor(id);
+      return targetSheetId;
     },
 
     removePivot: (id: string) => {
+      const pivot = get().pivots.get(id);
+      if (pivot) clearOutput(pivot);
+      useFormulaStore
+        .getState()
+        .dependencyGraph.removeDependencies(pivotNodeId(id));
       set((state) => {
         state.pivots.delete(id);
+        state.conflicts.delete(id);
       });
     },
 
@@ -77,6 +209,8 @@ export const usePivotStore = create<PivotState>()(
         if (!existing) return;
         Object.assign(existing, updates);
       });
+      if (updates.sourceRange) get().trackPivot(id);
+      get().refreshPivot(id);
     },
 
     getPivot: (id: string) => {
@@ -106,6 +240,7 @@ export const usePivotStore = create<PivotState>()(
         const pivot = state.pivots.get(pivotId);
         if (pivot) pivot.rowFields = fields;
       });
+      get().refreshPivot(pivotId);
     },
 
     setColFields: (pivotId: string, fields: PivotFieldConfig[]) => {
@@ -113,6 +248,7 @@ export const usePivotStore = create<PivotState>()(
         const pivot = state.pivots.get(pivotId);
         if (pivot) pivot.colFields = fields;
       });
+      get().refreshPivot(pivotId);
     },
 
     setValueFields: (pivotId: string, fields: PivotValueConfig[]) => {
@@ -120,6 +256,7 @@ export const usePivotStore = create<PivotState>()(
         const pivot = state.pivots.get(pivotId);
         if (pivot) pivot.valueFields = fields;
       });
+      get().refreshPivot(pivotId);
     },
 
     setFilters: (pivotId: string, filters: PivotFilterConfig[]) => {
@@ -127,173 +264,164 @@ export const usePivotStore = create<PivotState>()(
         const pivot = state.pivots.get(pivotId);
         if (pivot) pivot.filters = filters;
       });
+      get().refreshPivot(pivotId);
+    },
+
+    setCalculatedFields: (pivotId: string, fields: PivotCalculatedField[]) => {
+      set((state) => {
+        const pivot = state.pivots.get(pivotId);
+        if (pivot) pivot.calculatedFields = fields;
+      });
+      get().refreshPivot(pivotId);
     },
 
     computePivot: (config: PivotConfig, sourceCells: Map<string, CellData>) => {
-      const result = new Map<string, CellData>();
-      const { sourceRange, rowFields, colFields, valueFields, filters } =
-        config;
-
-      const startRow = Math.min(sourceRange.start.row, sourceRange.end.row);
-      const endRow = Math.max(sourceRange.start.row, sourceRange.end.row);
-      const startCol = Math.min(sourceRange.start.col, sourceRange.end.col);
-      const endCol = Math.max(sourceRange.start.col, sourceRange.end.col);
-
-      // Extract headers from first row
-      const headers = new Map<number, string>();
-      for (let c = startCol; c <= endCol; c++) {
-        const cell = sourceCells.get(getCellKey(startRow, c));
-        headers.set(c, cell?.value != null ? String(cell.value) : `Col${c}`);
-      }
+      return buildPivot(config, sourceCells).cells;
+    },
 
-      // Build data rows (skip header row)
-      type DataRow = Map<number, string | number | boolean | null>;
-      const dataRows: DataRow[] = [];
-      for (let r = startRow + 1; r <= endRow; r++) {
-        // Apply filters
-        let passesFilter = true;
-        for (const filter of filters) {
-          const cell = sourceCells.get(getCellKey(r, filter.col));
-          const val = cell?.value != null ? String(cell.value) : "";
-          if (!filter.allowedValues.has(val)) {
-            passesFilter = false;
-            break;
-          }
+    trackPivot: (id: string) => {
+      const pivot = get().pivots.get(id);
+      if (!pivot) return;
+      const graph = useFormulaStore.getState().dependencyGraph;
+      const node = pivotNodeId(id);
+      graph.removeDependencies(node);
+      const { startRow, endRow, startCol, endCol } = bounds(pivot.sourceRange);
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          graph.addDependency(node, cellId(undefined, col, row));
         }
-        if (!passesFilter) continue;
+      }
+    },
+
+    refreshPivot: (id: string) => {
+      const pivot = get().pivots.get(id);
+      if (!pivot) return false;
+      const cellStore = useCellStore.getState();
+      const { cells } = buildPivot(
+        pivot,
+        cellStore.cells.get(pivot.sourceSheetId) ?? new Map(),
+      );
+      let rows = 0;
+      let cols = 0;
+      for (const key of cells.keys()) {
+        const [r, c] = key.split(",").map(Number);
+        rows = Math.max(rows, r + 1);
+        cols = Math.max(cols, c + 1);
+      }
 
-        const row: DataRow = new Map();
-        for (let c = startCol; c <= endCol; c++) {
-          const cell = sourceCells.get(getCellKey(r, c));
-          row.set(c, cell?.value ?? null);
+      const conflict = findConflict(pivot, rows, cols);
+      clearOutput(pivot);
+      const { row: top, col: left } = pivot.targetCell;
+      if (conflict) {
+        cellStore.setCell(pivot.targetSheetId, top, left, { value: "#REF!" });
+      } else {
+        for (const [key, data] of cells) {
+          const [r, c] = key.split(",").map(Number);
+          cellStore.setCell(pivot.targetSheetId, top + r, left + c, data);
         }
-        dataRows.push(row);
       }
+      set((state) => {
+        state.pivots.get(id)!.outputSize = conflict
+          ? { rows: 1, cols: 1 }
+          : { rows, cols };
+        if (conflict) state.conflicts.set(id, conflict);
+        else state.conflicts.delete(id);
+      });
+      return !conflict;
+    },
 
-      // Group by row fields
-      const groups = new Map<string, DataRow[]>();
-      for (const row of dataRows) {
-        const rowKey = rowFields
-          .map((f) => {
-            const v = row.get(f.col);
-            return v != null ? String(v) : "";
-          })
-          .join("|||");
-        if (!groups.has(rowKey)) {
-          groups.set(rowKey, []);
+    refreshDependents: (sheetId: string, changedCell: string) => {
+      const dependents = useFormulaStore
+        .getState()
+        .dependencyGraph.getAllDependents(changedCell);
+      for (const pivot of get().getAllPivots()) {
+        // Graph keys without a sheet are cells of the edited sheet
+        if (
+          pivot.sourceSheetId === sheetId &&
+          dependents.has(pivotNodeId(pivot.id))
+        ) {
+          get().refreshPivot(pivot.id);
         }
-        groups.get(rowKey)!.push(row);
       }
+    },
 
-      // Build output
-      let outRow = 0;
+    handleCellEdit: (sheetId: string, row: number, col: number) => {
+      const value = useCellStore.getState().getCell(sheetId, row, col)?.value;
+      if (value === null || value === undefined || value === "") return false;
+      if (get().getPivotAt(sheetId, row, col)) return false;
 
-      // Header row: row field labels + value field labels (or col field combos)
-      if (colFields.length === 0) {
-        let outCol = 0;
-        for (const rf of rowFields) {
-          result.set(getCellKey(outRow, outCol), { value: rf.label });
-          outCol++;
-        }
-        for (const vf of valueFields) {
-          result.set(getCellKey(outRow, outCol), {
-            value: `${vf.label} (${vf.aggregation})`,
-          });
-          outCol++;
-        }
-        outRow++;
-
-        // Data rows
-        for (const [key, rows] of groups) {
-          let outCol2 = 0;
-          const keyParts = key.split("|||");
-          for (const part of keyParts) {
-            result.set(getCellKey(outRow, outCol2), { value: part });
-            outCol2++;
-          }
-          for (const vf of valueFields) {
-            const values = rows
-              .map((r) => {
-                const v = r.get(vf.col);
-                return v != null ? Number(v) : NaN;
-              })
-              .filter((v) => !isNaN(v));
-            const agg = aggregate(values, vf.aggregation);
-            result.set(getCellKey(outRow, outCol2), { value: agg });
-            outCol2++;
-          }
-          outRow++;
-        }
-      } else {
-        // With column fields — build crosstab
-        const colGroups = new Map<string, DataRow[]>();
-        for (const row of dataRows) {
-          const colKey = colFields
-            .map((f) => {
-              const v = row.get(f.col);
-              return v != null ? String(v) : "";
-            })
-            .join("|||");
-          if (!colGroups.has(colKey)) {
-            colGroups.set(colKey, []);
+      let grown = false;
+      for (const pivot of get().getAllPivots()) {
+        if (pivot.sourceSheetId !== sheetId) continue;
+        const { startRow, endRow, startCol, endCol } = bounds(
+          pivot.sourceRange,
+        );
+        const below = row === endRow + 1 && col >= startCol && col <= endCol;
+        const right = col === endCol + 1 && row >= startRow && row <= endRow;
+        if (!below && !right) continue;
+
+        set((state) => {
+          state.pivots.get(pivot.id)!.sourceRange = {
+            start: { row: startRow, col: startCol },
+            end: {
+              row: below ? row : endRow,
+              col: right ? col : endCol,
+            },
+          };
+        });
+        get().trackPivot(pivot.id);
+        get().refreshPivot(pivot.id);
+        grown = true;
+      }
+      return grown;
+    },
+
+    getPivotAt: (sheetId: string, row: number, col: number) => {
+      return get()
+        .getAllPivots()
+        .find((pivot) => {
+          if (pivot.targetSheetId !== sheetId || !pivot.outputSize) {
+            return false;
           }
-          colGroups.get(colKey)!.push(row);
-        }
-        const colKeys = Array.from(colGroups.keys()).sort();
+          const { row: top, col: left } = pivot.targetCell;
+          return (
+            row >= top &&
+            row < top + pivot.outputSize.rows &&
+            col >= left &&
+            col < left + pivot.outputSize.cols
+          );
+        });
+    },
 
-        // Header
-        let outCol = 0;
-        for (const rf of rowFields) {
-          result.set(getCellKey(outRow, outCol), { value: rf.label });
-          outCol++;
-        }
-        for (const ck of colKeys) {
-          for (const vf of valueFields) {
-            result.set(getCellKey(outRow, outCol), {
-              value: `${ck} - ${vf.label}`,
+    drillDown: (sheetId: string, row: number, col: number) => {
+      const cellStore = useCellStore.getState();
+      for (const pivot of get().getAllPivots()) {
+        if (pivot.targetSheetId !== sheetId) continue;
+        const rows = pivotDrillDown(
+          pivot,
+          cellStore.cells.get(pivot.sourceSheetId) ?? new Map(),
+          row - pivot.targetCell.row,
+          col - pivot.targetCell.col,
+        );
+        if (!rows) continue;
+
+        useSpreadsheetStore.getState().addSheet(uniqueSheetName("Details"));
+        const sheets = useSpreadsheetStore.getState().sheets;
+        const detailsId = sheets[sheets.length - 1].id;
+        rows.forEach((values, r) =>
+          values.forEach((value, c) => {
+            if (value === null) return;
+            cellStore.setCell(detailsId, r, c, {
+              value,
+              format: r === 0 ? { bold: true } : undefined,
             });
-            outCol++;
-          }
-        }
-        outRow++;
-
-        // Data
-        for (const [rowKey, rowData] of groups) {
-          let outCol2 = 0;
-          const keyParts = rowKey.split("|||");
-          for (const part of keyParts) {
-            result.set(getCellKey(outRow, outCol2), { value: part });
-            outCol2++;
-          }
-          for (const ck of colKeys) {
-            for (const vf of valueFields) {
-              const matchingRows = rowData.filter((r) => {
-                const rColKey = colFields
-                  .map((f) => {
-                    const v = r.get(f.col);
-                    return v != null ? String(v) : "";
-                  })
-                  .join("|||");
-                return rColKey === ck;
-              });
-              const values = matchingRows
-                .map((r) => {
-                  const v = r.get(vf.col);
-                  return v != null ? Number(v) : NaN;
-                })
-                .filter((v) => !isNaN(v));
-              const agg = aggregate(values, vf.aggregation);
-              result.set(getCellKey(outRow, outCol2), { value: agg });
-              outCol2++;
-            }
-          }
-          outRow++;
-        }
+          }),
+        );
+        return detailsId;
       }
-
-      return result;
+      return null;
     },
   })),
 );
 
-export { aggregate };
+export { aggregate } from "../utils/pivot";
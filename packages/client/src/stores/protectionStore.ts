@@ -0,0 +1,180 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+import { useDataStore } from "./dataStore";
+import type { ProtectedRange, ProtectionEditor } from "../types/grid";
+
+/** Inclusive zero-based bounds of a protected range */
+export interface ProtectionBounds {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+/** A protection as the server returns it */
+export interface Protection {
+  id: string;
+  sheetId: string;
+  /** Null for a protected sheet */
+  range: ProtectionBounds | null;
+  description: string | null;
+  editors: ProtectionEditor[];
+  canEdit: boolean;
+}
+
+export interface ProtectionChanges {
+  /** Null protects the whole sheet */
+  range?: ProtectionBounds | null;
+  description?: string | null;
+  editorEmails?: string[];
+}
+
+/** The grid's view of a protection, used to block editing */
+export function toProtectedRange(protection: Protection): ProtectedRange {
+  const range = protection.range ?? {
+    startRow: 0,
+    startCol: 0,
+    endRow: 0,
+    endCol: 0,
+  };
+  return {
+    id: protection.id,
+    sheetId: protection.sheetId,
+    ...range,
+    description: protection.description ?? undefined,
+    wholeSheet: protection.range === null,
+    editors: protection.editors,
+    canEdit: protection.canEdit,
+  };
+}
+
+interface ProtectionState {
+  /** Spreadsheet the loaded protections belong to */
+  spreadsheetId: string | null;
+  /** Whether the user may add, change and remove protections */
+  canManage: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface ProtectionActions {
+  fetchProtections: (spreadsheetId: string) => Promise<void>;
+  createProtection: (
+    sheetId: string,
+    changes: ProtectionChanges,
+  ) => Promise<boolean>;
+  updateProtection: (
+    id: string,
+    changes: ProtectionChanges,
+  ) => Promise<boolean>;
+  removeProtection: (id: string) => Promise<boolean>;
+  clear: () => void;
+}
+
+type ProtectionStore = ProtectionState & ProtectionActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** Replace every sheet's protected ranges in the data store */
+function applyProtections(protections: Protection[]): void {
+  const bySheet = new Map<string, ProtectedRange[]>();
+  for (const protection of protections) {
+    const ranges = bySheet.get(protection.sheetId) ?? [];
+    ranges.push(toProtectedRange(protection));
+    bySheet.set(protection.sheetId, ranges);
+  }
+  useDataStore.setState((state) => {
+    state.protectedRanges = bySheet;
+  });
+}
+
+export const useProtectionStore = create<ProtectionStore>()(
+  immer((set, get) => {
+    /** Run a change, then reload the spreadsheet's protections */
+    async function mutate(
+      fallback: string,
+      request: (spreadsheetId: string) => Promise<unknown>,
+    ): Promise<boolean> {
+      const { spreadsheetId } = get();
+      if (!spreadsheetId) return false;
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        await request(spreadsheetId);
+        await get().fetchProtections(spreadsheetId);
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, fallback);
+        });
+        return false;
+      }
+    }
+
+    return {
+      spreadsheetId: null,
+      canManage: false,
+      isLoading: false,
+      error: null,
+
+      fetchProtections: async (spreadsheetId: string) => {
+        set((state) => {
+          state.spreadsheetId = spreadsheetId;
+          state.isLoading = true;
+        });
+        try {
+          const result = await api.get<{
+            canManage: boolean;
+            protections: Protection[];
+          }>(`/spreadsheets/${spreadsheetId}/protections`);
+          if (get().spreadsheetId !== spreadsheetId) return;
+          applyProtections(result.protections);
+          set((state) => {
+            state.canManage = result.canManage;
+            state.isLoading = false;
+          });
+        } catch (err) {
+          set((state) => {
+            state.isLoading = false;
+            state.error = errorMessage(err, "Failed to load protected ranges");
+          });
+        }
+      },
+
+      createProtection: (sheetId, changes) =>
+        mutate("Failed to protect the range", (spreadsheetId) =>
+          api.post(`/spreadsheets/${spreadsheetId}/protections`, {
+            sheetId,
+            ...changes,
+          }),
+        ),
+
+      updateProtection: (id, changes) =>
+        mutate("Failed to update the protection", (spreadsheetId) =>
+          api.patch(
+            `/spreadsheets/${spreadsheetId}/protections/${id}`,
+            changes,
+          ),
+        ),
+
+      removeProtection: (id) =>
+        mutate("Failed to remove the protection", (spreadsheetId) =>
+          api.delete(`/spreadsheets/${spreadsheetId}/protections/${id}`),
+        ),
+
+      clear: () => {
+        set((state) => {
+          state.spreadsheetId = null;
+          state.canManage = false;
+          state.isLoading = false;
+          state.error = null;
+        });
+        applyProtections([]);
+      },
+    };
+  }),
+);
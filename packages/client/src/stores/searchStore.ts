@@ -0,0 +1,88 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+export type SearchHitKind = "title" | "sheet" | "cell" | "comment";
+
+/** A match inside a spreadsheet the user can open */
+export interface SearchHit {
+  kind: SearchHitKind;
+  spreadsheetId: string;
+  spreadsheetTitle: string;
+  sheetId: string | null;
+  sheetName: string | null;
+  /** A1 reference, for cell and comment hits */
+  cell: string | null;
+  commentId: string | null;
+  snippet: string;
+}
+
+/** Editor URL that opens the spreadsheet at the hit's sheet and cell */
+export function searchHitPath(hit: SearchHit): string {
+  const params = new URLSearchParams();
+  if (hit.sheetId) params.set("sheet", hit.sheetId);
+  if (hit.sheetName) params.set("sheetName", hit.sheetName);
+  if (hit.cell) params.set("cell", hit.cell);
+  const query = params.toString();
+  return `/spreadsheet/${hit.spreadsheetId}${query ? `?${query}` : ""}`;
+}
+
+interface SearchState {
+  /** Query the hits belong to */
+  query: string;
+  hits: SearchHit[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface SearchActions {
+  search: (query: string) => Promise<void>;
+  clear: () => void;
+}
+
+type SearchStore = SearchState & SearchActions;
+
+export const useSearchStore = create<SearchStore>()(
+  immer((set, get) => ({
+    query: "",
+    hits: [],
+    isLoading: false,
+    error: null,
+
+    search: async (query: string) => {
+      set((state) => {
+        state.query = query;
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const hits = await api.get<SearchHit[]>(
+          `/search?q=${encodeURIComponent(query)}`,
+        );
+        // Drop responses to queries typed over since
+        if (get().query !== query) return;
+        set((state) => {
+          state.hits = hits;
+          state.isLoading = false;
+        });
+      } catch (err) {
+        if (get().query !== query) return;
+        set((state) => {
+          state.hits = [];
+          state.isLoading = false;
+          state.error = err instanceof Error ? err.message : "Search failed";
+        });
+      }
+    },
+
+    clear: () => {
+      set((state) => {
+        state.query = "";
+        state.hits = [];
+        state.isLoading = false;
+        state.error = null;
+      });
+    },
+  })),
+);
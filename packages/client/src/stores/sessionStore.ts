@@ -0,0 +1,80 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+export interface SessionInfo {
+  id: string;
+  /** Browser and OS, e.g. "Chrome on macOS" */
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  /** The session this browser is signed in with */
+  current: boolean;
+}
+
+interface SessionState {
+  sessions: SessionInfo[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface SessionActions {
+  fetchSessions: () => Promise<void>;
+  /** Sign another device out */
+  revokeSession: (id: string) => Promise<boolean>;
+}
+
+type SessionStore = SessionState & SessionActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useSessionStore = create<SessionStore>()(
+  immer((set) => ({
+    sessions: [],
+    isLoading: false,
+    error: null,
+
+    fetchSessions: async () => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const sessions = await api.get<SessionInfo[]>("/users/me/sessions");
+        set((state) => {
+          state.sessions = sessions;
+          state.isLoading = false;
+        });
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(err, "Failed to load sessions");
+        });
+      }
+    },
+
+    revokeSession: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        await api.delete(`/users/me/sessions/${id}`);
+        set((state) => {
+          state.sessions = state.sessions.filter((s) => s.id !== id);
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to sign out session");
+        });
+        return false;
+      }
+    },
+  })),
+);
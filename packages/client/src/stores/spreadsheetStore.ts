@@ -119,3 +119,14 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
     },
   })),
 );
+
+/** `name`, or `name 2`, `name 3`… — the first not used by a sheet */
+export function uniqueSheetName(name: string): string {
+  const taken = new Set(
+    useSpreadsheetStore.getState().sheets.map((s) => s.name.toLowerCase()),
+  );
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`.toLowerCase())) n++;
+  return `${name} ${n}`;
+}
@@ -0,0 +1,436 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import {
+  formatFormula,
+  formatStructuredReference,
+  hasFunction,
+  resolveStructuredReference,
+  rewriteStructuredReferences,
+} from "@gridspace/formula";
+import type { StructuredReference, TableDefinition } from "@gridspace/formula";
+import { useCellStore } from "./cellStore";
+import { useSpreadsheetStore } from "./spreadsheetStore";
+import type { SelectionRange, TableConfig } from "../types/grid";
+
+export const DEFAULT_TABLE_COLOR = "#1a73e8";
+
+interface TableState {
+  /** Tables keyed by id */
+  tables: Map<string, TableConfig>;
+
+  /**
+   * Turn a range into a table. The first row becomes the header row; empty
+   * header cells are filled with "Column1", "Column2"… Returns null if the
+   * range has no data rows or overlaps another table.
+   */
+  createTable: (
+    sheetId: string,
+    range: SelectionRange,
+    color?: string,
+  ) => TableConfig | null;
+  /**
+   * Rename a table and every formula that refers to it. Returns false if
+   * the name is not a valid identifier or is already taken.
+   */
+  renameTable: (id: string, name: string) => boolean;
+  updateTable: (
+    id: string,
+    updates: Partial<Pick<TableConfig, "showBandedRows" | "color">>,
+  ) => void;
+  /**
+   * Add or remove the totals row below the data. The totals row sums the
+   * last column. Returns false when the row below the table is not empty.
+   */
+  setTotalsRow: (id: string, show: boolean) => boolean;
+  /**
+   * Convert a table back to a plain range. Formulas that refer to it are
+   * rewritten with A1 references.
+   */
+  removeTable: (id: string) => void;
+  /**
+   * Keep tables in step with a cell edit: typing directly below or to the
+   * right of a table grows it, and editing a header renames the column.
+   * Returns true if a table changed.
+   */
+  handleCellEdit: (sheetId: string, row: number, col: number) => boolean;
+  getTable: (id: string) => TableConfig | undefined;
+  getTableByName: (name: string) => TableConfig | undefined;
+  getTableAt: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => TableConfig | undefined;
+  getTablesForSheet: (sheetId: string) => TableConfig[];
+  /** Every table as the formula engine sees it, placed by sheet name */
+  getDefinitions: () => TableDefinition[];
+}
+
+function sheetNameOf(sheetId: string): string {
+  return (
+    useSpreadsheetStore.getState().sheets.find((s) => s.id === sheetId)?.name ??
+    sheetId
+  );
+}
+
+export function toTableDefinition(
+  table: TableConfig,
+  sheetName: string,
+): TableDefinition {
+  return {
+    name: table.name,
+    sheet: sheetName,
+    startRow: table.startRow,
+    startCol: table.startCol,
+    endRow: table.endRow,
+    endCol: table.endCol,
+    columns: [...table.columns],
+    hasHeaderRow: true,
+    hasTotalsRow: table.showTotalsRow,
+  };
+}
+
+export function isValidTableName(name: string): boolean {
+  return (
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) &&
+    !/^[A-Za-z]{1,3}\d+$/.test(name) &&
+    !/^(TRUE|FALSE)$/i.test(name) &&
+    !hasFunction(name)
+  );
+}
+
+function cellText(sheetId: string, row: number, col: number): string {
+  const value = useCellStore.getState().getCell(sheetId, row, col)?.value;
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+function hasContent(sheetId: string, row: number, col: number): boolean {
+  const cell = useCellStore.getState().getCell(sheetId, row, col);
+  return !!cell?.formula || cellText(sheetId, row, col) !== "";
+}
+
+/** `name`, or `name2`, `name3`… — the first not already in `taken` */
+function uniqueName(name: string, taken: string[]): string {
+  const lower = new Set(taken.map((t) => t.toLowerCase()));
+  if (!lower.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (lower.has(`${name}${n}`.toLowerCase())) n++;
+  return `${name}${n}`;
+}
+
+function writeText(sheetId: string, row: number, col: number, text: string) {
+  const cells = useCellStore.getState();
+  const existing = cells.getCell(sheetId, row, col);
+  cells.setCell(sheetId, row, col, {
+    ...existing,
+    value: text,
+    formula: undefined,
+  });
+}
+
+/**
+ * Rewrite the structured references in every formula in the workbook.
+ * `replace` gets each reference with the position of its formula.
+ */
+function rewriteFormulas(
+  replace: (
+    ref: StructuredReference,
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => string | undefined,
+): void {
+  const cells = useCellStore.getState();
+  for (const [sheetId, sheetCells] of cells.cells) {
+    for (const [key, cell] of sheetCells) {
+      if (!cell.formula?.startsWith("=") || !cell.formula.includes("[")) {
+        continue;
+      }
+      const [row, col] = key.split(",").map(Number);
+      let formula: string;
+      try {
+        formula =
+          "=" +
+          rewriteStructuredReferences(cell.formula.slice(1), (ref) =>
+            replace(ref, sheetId, row, col),
+          );
+      } catch {
+        continue; // Unparseable formulas are left as typed
+      }
+      if (formula !== cell.formula) {
+        cells.setCell(sheetId, row, col, { ...cell, formula });
+      }
+    }
+  }
+}
+
+export const useTableStore = create<TableState>()(
+  immer((set, get) => {
+    /** Whether a reference in a formula at the given cell targets `table` */
+    const refersTo = (
+      ref: StructuredReference,
+      table: TableConfig,
+      sheetId: string,
+      row: number,
+      col: number,
+    ): boolean =>
+      ref.table
+        ? ref.table.toLowerCase() === table.name.toLowerCase()
+        : get().getTableAt(sheetId, row, col)?.id === table.id;
+
+    const renameColumn = (table: TableConfig, index: number, name: string) => {
+      const old = table.columns[index];
+      set((state) => {
+        state.tables.get(table.id)!.columns[index] = name;
+      });
+      const rename = (c: string) =>
+        c.toLowerCase() === old.toLowerCase() ? name : c;
+      rewriteFormulas((ref, sheetId, row, col) => {
+        if (!ref.columns || !refersTo(ref, table, sheetId, row, col)) {
+          return undefined;
+        }
+        const columns: [string, string] = [
+          rename(ref.columns[0]),
+          rename(ref.columns[1]),
+        ];
+        if (columns[0] === ref.columns[0] && columns[1] === ref.columns[1]) {
+          return undefined;
+        }
+        return formatStructuredReference({ ...ref, columns });
+      });
+    };
+
+    return {
+      tables: new Map<string, TableConfig>(),
+
+      createTable: (sheetId, range, color = DEFAULT_TABLE_COLOR) => {
+        const startRow = Math.min(range.start.row, range.end.row);
+        const endRow = Math.max(range.start.row, range.end.row);
+        const startCol = Math.min(range.start.col, range.end.col);
+        const endCol = Math.max(range.start.col, range.end.col);
+        if (endRow <= startRow) return null;
+
+        const overlaps = get()
+          .getTablesForSheet(sheetId)
+          .some(
+            (t) =>
+              startRow <= t.endRow &&
+              endRow >= t.startRow &&
+              startCol <= t.endCol &&
+              endCol >= t.startCol,
+          );
+        if (overlaps) return null;
+
+        const columns: string[] = [];
+        for (let col = startCol; col <= endCol; col++) {
+          const header = cellText(sheetId, startRow, col);
+          const name = uniqueName(
+            header || `Column${col - startCol + 1}`,
+            columns,
+          );
+          if (name !== header) writeText(sheetId, startRow, col, name);
+          columns.push(name);
+        }
+
+        const names = Array.from(get().tables.values(), (t) => t.name);
+        let n = 1;
+        while (names.some((t) => t.toLowerCase() === `table${n}`)) n++;
+
+        const table: TableConfig = {
+          id: `table-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+          name: `Table${n}`,
+          sheetId,
+          startRow,
+          startCol,
+          endRow,
+          endCol,
+          columns,
+          showTotalsRow: false,
+          showBandedRows: true,
+          color,
+        };
+        set((state) => {
+          state.tables.set(table.id, table);
+        });
+        return table;
+      },
+
+      renameTable: (id, name) => {
+        const table = get().tables.get(id);
+        if (!table) return false;
+        if (!isValidTableName(name)) return false;
+        const clash = get().getTableByName(name);
+        if (clash && clash.id !== id) return false;
+
+        rewriteFormulas((ref) =>
+          ref.table?.toLowerCase() === table.name.toLowerCase()
+            ? name + ref.raw.slice(ref.raw.indexOf("["))
+            : undefined,
+        );
+        set((state) => {
+          state.tables.get(id)!.name = name;
+        });
+        return true;
+      },
+
+      updateTable: (id, updates) => {
+        set((state) => {
+          const table = state.tables.get(id);
+          if (table) Object.assign(table, updates);
+        });
+      },
+
+      setTotalsRow: (id, show) => {
+        const table = get().tables.get(id);
+        if (!table || table.showTotalsRow === show) return true;
+        const cells = useCellStore.getState();
+
+        if (show) {
+          const row = table.endRow + 1;
+          for (let col = table.startCol; col <= table.endCol; col++) {
+            if (hasContent(table.sheetId, row, col)) return false;
+          }
+          if (table.endCol > table.startCol) {
+            writeText(table.sheetId, row, table.startCol, "Total");
+          }
+          const last = table.columns[table.columns.length - 1];
+          cells.setCell(table.sheetId, row, table.endCol, {
+            value: null,
+            formula: `=SUM(${formatStructuredReference({
+              type: "structured",
+              table: table.name,
+              items: [],
+              columns: [last, last],
+              raw: "",
+            })})`,
+          });
+          set((state) => {
+            const t = state.tables.get(id)!;
+            t.endRow = row;
+            t.showTotalsRow = true;
+          });
+        } else {
+          for (let col = table.startCol; col <= table.endCol; col++) {
+            cells.deleteCell(table.sheetId, table.endRow, col);
+          }
+          set((state) => {
+            const t = state.tables.get(id)!;
+            t.endRow -= 1;
+            t.showTotalsRow = false;
+          });
+        }
+        return true;
+      },
+
+      removeTable: (id) => {
+        const table = get().tables.get(id);
+        if (!table) return;
+        const definitions = get().getDefinitions();
+
+        rewriteFormulas((ref, sheetId, row, col) => {
+          if (!refersTo(ref, table, sheetId, row, col)) return undefined;
+          const bound = resolveStructuredReference(ref, definitions, {
+            sheet: sheetNameOf(sheetId),
+            row,
+            col,
+          });
+          return bound.type === "error" ? undefined : formatFormula(bound);
+        });
+        set((state) => {
+          state.tables.delete(id);
+        });
+      },
+
+      handleCellEdit: (sheetId, row, col) => {
+        for (const table of get().getTablesForSheet(sheetId)) {
+          // Header edit: rename the column, keeping names unique
+          if (
+            row === table.startRow &&
+            col >= table.startCol &&
+            col <= table.endCol
+          ) {
+            const index = col - table.startCol;
+            const others = table.columns.filter((_, i) => i !== index);
+            const name = uniqueName(
+              cellText(sheetId, row, col) || `Column${index + 1}`,
+              others,
+            );
+            if (name !== cellText(sheetId, row, col)) {
+              writeText(sheetId, row, col, name);
+            }
+            if (name === table.columns[index]) return false;
+            renameColumn(table, index, name);
+            return true;
+          }
+
+          if (!hasContent(sheetId, row, col)) continue;
+
+          // Typing in the row below grows the table by a data row
+          if (
+            !table.showTotalsRow &&
+            row === table.endRow + 1 &&
+            col >= table.startCol &&
+            col <= table.endCol
+          ) {
+            set((state) => {
+              state.tables.get(table.id)!.endRow = row;
+            });
+            return true;
+          }
+
+          // Typing in the column to the right grows it by a column
+          const lastDataRow = table.endRow - (table.showTotalsRow ? 1 : 0);
+          if (
+            col === table.endCol + 1 &&
+            row >= table.startRow &&
+            row <= lastDataRow &&
+            !get().getTableAt(sheetId, row, col)
+          ) {
+            const header =
+              row === table.startRow ? cellText(sheetId, row, col) : "";
+            const name = uniqueName(
+              header || `Column${table.columns.length + 1}`,
+              table.columns,
+            );
+            if (name !== header) writeText(sheetId, table.startRow, col, name);
+            set((state) => {
+              const t = state.tables.get(table.id)!;
+              t.endCol = col;
+              t.columns.push(name);
+            });
+            return true;
+          }
+        }
+        return false;
+      },
+
+      getTable: (id) => get().tables.get(id),
+
+      getTableByName: (name) => {
+        const lower = name.toLowerCase();
+        for (const table of get().tables.values()) {
+          if (table.name.toLowerCase() === lower) return table;
+        }
+        return undefined;
+      },
+
+      getTableAt: (sheetId, row, col) =>
+        get()
+          .getTablesForSheet(sheetId)
+          .find(
+            (t) =>
+              row >= t.startRow &&
+              row <= t.endRow &&
+              col >= t.startCol &&
+              col <= t.endCol,
+          ),
+
+      getTablesForSheet: (sheetId) =>
+        Array.from(get().tables.values()).filter((t) => t.sheetId === sheetId),
+
+      getDefinitions: () =>
+        Array.from(get().tables.values(), (t) =>
+          toTableDefinition(t, sheetNameOf(t.sheetId)),
+        ),
+    };
+  }),
+);
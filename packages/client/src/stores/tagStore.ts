@@ -0,0 +1,124 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+/** A personal label; each user only sees their own tags */
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** Colours offered for new tags */
+export const TAG_COLORS = [
+  "#5f6368",
+  "#1a73e8",
+  "#0f9d58",
+  "#f4b400",
+  "#db4437",
+  "#ab47bc",
+];
+
+interface TagState {
+  tags: Tag[];
+  error: string | null;
+}
+
+interface TagActions {
+  fetchTags: () => Promise<void>;
+  createTag: (name: string, color?: string) => Promise<Tag | null>;
+  updateTag: (
+    tagId: string,
+    data: { name?: string; color?: string },
+  ) => Promise<boolean>;
+  deleteTag: (tagId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+type TagStore = TagState & TagActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useTagStore = create<TagStore>()(
+  immer((set) => ({
+    tags: [],
+    error: null,
+
+    fetchTags: async () => {
+      try {
+        const tags = await api.get<Tag[]>("/tags");
+        set((state) => {
+          state.tags = tags;
+        });
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to load tags");
+        });
+      }
+    },
+
+    createTag: async (name, color) => {
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        const tag = await api.post<Tag>("/tags", { name, color });
+        set((state) => {
+          state.tags.push(tag);
+          state.tags.sort((a, b) => a.name.localeCompare(b.name));
+        });
+        return tag;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to create tag");
+        });
+        return null;
+      }
+    },
+
+    updateTag: async (tagId, data) => {
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        const tag = await api.patch<Tag>(`/tags/${tagId}`, data);
+        set((state) => {
+          const idx = state.tags.findIndex((t) => t.id === tagId);
+          if (idx !== -1) state.tags[idx] = tag;
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to update tag");
+        });
+        return false;
+      }
+    },
+
+    deleteTag: async (tagId) => {
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        await api.delete(`/tags/${tagId}`);
+        set((state) => {
+          state.tags = state.tags.filter((t) => t.id !== tagId);
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to delete tag");
+        });
+        return false;
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  })),
+);
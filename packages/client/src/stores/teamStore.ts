@@ -0,0 +1,234 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api } from "../services/api";
+
+export type TeamRole = "owner" | "admin" | "editor" | "viewer";
+
+interface TeamUser {
+  id: string;
+  name: string | null;
+  email: string;
+  avatarUrl: string | null;
+}
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  /** The current user's role in the team */
+  role: TeamRole;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface TeamMember {
+  userId: string;
+  role: TeamRole;
+  createdAt: string;
+  user: TeamUser;
+}
+
+export interface TeamDetail {
+  id: string;
+  name: string;
+  role: TeamRole;
+  members: TeamMember[];
+  createdAt: string;
+}
+
+interface TeamState {
+  teams: TeamSummary[];
+  /** The team open in the dashboard, with its members */
+  currentTeam: TeamDetail | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface TeamActions {
+  fetchTeams: () => Promise<void>;
+  fetchTeam: (teamId: string) => Promise<void>;
+  clearCurrentTeam: () => void;
+  createTeam: (name: string) => Promise<TeamSummary | null>;
+  renameTeam: (teamId: string, name: string) => Promise<boolean>;
+  deleteTeam: (teamId: string) => Promise<boolean>;
+  addMember: (
+    teamId: string,
+    email: string,
+    role: TeamRole,
+  ) => Promise<boolean>;
+  changeMemberRole: (
+    teamId: string,
+    userId: string,
+    role: TeamRole,
+  ) => Promise<boolean>;
+  removeMember: (teamId: string, userId: string) => Promise<boolean>;
+  /** Remove the current user (`userId`) from the team */
+  leaveTeam: (teamId: string, userId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+type TeamStore = TeamState & TeamActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useTeamStore = create<TeamStore>()(
+  immer((set, get) => {
+    /** Run a team change, then reload the open team so it stays in sync */
+    async function mutate(
+      teamId: string,
+      fallback: string,
+      request: () => Promise<unknown>,
+    ): Promise<boolean> {
+      set((state) => {
+        state.error = null;
+      });
+      try {
+        await request();
+        if (get().currentTeam?.id === teamId) {
+          await get().fetchTeam(teamId);
+        }
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, fallback);
+        });
+        return false;
+      }
+    }
+
+    return {
+      teams: [],
+      currentTeam: null,
+      isLoading: false,
+      error: null,
+
+      fetchTeams: async () => {
+        try {
+          const teams = await api.get<TeamSummary[]>("/teams");
+          set((state) => {
+            state.teams = teams;
+          });
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to load teams");
+          });
+        }
+      },
+
+      fetchTeam: async (teamId) => {
+        set((state) => {
+          state.isLoading = true;
+        });
+        try {
+          const team = await api.get<TeamDetail>(`/teams/${teamId}`);
+          set((state) => {
+            state.currentTeam = team;
+            state.isLoading = false;
+          });
+        } catch (err) {
+          set((state) => {
+            state.isLoading = false;
+            state.error = errorMessage(err, "Failed to load team");
+          });
+        }
+      },
+
+      clearCurrentTeam: () => {
+        set((state) => {
+          state.currentTeam = null;
+        });
+      },
+
+      createTeam: async (name) => {
+        set((state) => {
+          state.error = null;
+        });
+        try {
+          const team = await api.post<TeamSummary>("/teams", { name });
+          set((state) => {
+            state.teams.push(team);
+          });
+          return team;
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to create team");
+          });
+          return null;
+        }
+      },
+
+      renameTeam: async (teamId, name) => {
+        const ok = await mutate(teamId, "Failed to rename team", () =>
+          api.patch(`/teams/${teamId}`, { name }),
+        );
+        if (ok) {
+          set((state) => {
+            const team = state.teams.find((t) => t.id === teamId);
+            if (team) team.name = name;
+          });
+        }
+        return ok;
+      },
+
+      deleteTeam: async (teamId) => {
+        set((state) => {
+          state.error = null;
+        });
+        try {
+          await api.delete(`/teams/${teamId}`);
+          set((state) => {
+            state.teams = state.teams.filter((t) => t.id !== teamId);
+            if (state.currentTeam?.id === teamId) state.currentTeam = null;
+          });
+          return true;
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to delete team");
+          });
+          return false;
+        }
+      },
+
+      addMember: (teamId, email, role) =>
+        mutate(teamId, "Failed to add member", () =>
+          api.post(`/teams/${teamId}/members`, { email, role }),
+        ),
+
+      changeMemberRole: (teamId, userId, role) =>
+        mutate(teamId, "Failed to change role", () =>
+          api.put(`/teams/${teamId}/members/${userId}`, { role }),
+        ),
+
+      removeMember: (teamId, userId) =>
+        mutate(teamId, "Failed to remove member", () =>
+          api.delete(`/teams/${teamId}/members/${userId}`),
+        ),
+
+      leaveTeam: async (teamId, userId) => {
+        set((state) => {
+          state.error = null;
+        });
+        try {
+          await api.delete(`/teams/${teamId}/members/${userId}`);
+          set((state) => {
+            state.teams = state.teams.filter((t) => t.id !== teamId);
+            if (state.currentTeam?.id === teamId) state.currentTeam = null;
+          });
+          return true;
+        } catch (err) {
+          set((state) => {
+            state.error = errorMessage(err, "Failed to leave team");
+          });
+          return false;
+        }
+      },
+
+      clearError: () => {
+        set((state) => {
+          state.error = null;
+        });
+      },
+    };
+  }),
+);
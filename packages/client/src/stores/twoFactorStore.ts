@@ -0,0 +1,188 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { api, setAccessToken } from "../services/api";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  /** OAuth-only accounts confirm changes with a 2FA code instead */
+  hasPassword: boolean;
+}
+
+export interface TwoFactorSetup {
+  /** Base32 secret for manual entry */
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/** The password, or a 2FA code for accounts that sign in with OAuth only */
+export interface TwoFactorConfirmation {
+  password?: string;
+  code?: string;
+}
+
+interface TwoFactorState {
+  status: TwoFactorStatus | null;
+  /** Pending enrolment, until a code from the app confirms it */
+  setup: TwoFactorSetup | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface TwoFactorActions {
+  fetchStatus: () => Promise<void>;
+  startSetup: () => Promise<void>;
+  cancelSetup: () => void;
+  /** Confirm enrolment; returns the recovery codes, which are shown once */
+  enable: (code: string) => Promise<string[] | null>;
+  disable: (confirmation: TwoFactorConfirmation) => Promise<boolean>;
+  regenerateRecoveryCodes: (
+    confirmation: TwoFactorConfirmation,
+  ) => Promise<string[] | null>;
+}
+
+type TwoFactorStore = TwoFactorState & TwoFactorActions;
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+export const useTwoFactorStore = create<TwoFactorStore>()(
+  immer((set) => ({
+    status: null,
+    setup: null,
+    isLoading: false,
+    error: null,
+
+    fetchStatus: async () => {
+      try {
+        const status = await api.get<TwoFactorStatus>("/users/me/2fa");
+        set((state) => {
+          state.status = status;
+        });
+      } catch (err) {
+        set((state) => {
+          state.error = errorMessage(err, "Failed to load 2FA status");
+        });
+      }
+    },
+
+    startSetup: async () => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const setup = await api.post<TwoFactorSetup>("/users/me/2fa/setup");
+        set((state) => {
+          state.setup = setup;
+          state.isLoading = false;
+        });
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(err, "Failed to start 2FA setup");
+        });
+      }
+    },
+
+    cancelSetup: () => {
+      set((state) => {
+        state.setup = null;
+        state.error = null;
+      });
+    },
+
+    enable: async (code) => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const result = await api.post<{
+          recoveryCodes: string[];
+          accessToken: string;
+        }>("/users/me/2fa/enable", { code });
+        // Enabling signs out other sessions; this one gets a new token
+        setAccessToken(result.accessToken);
+        set((state) => {
+          state.setup = null;
+          if (state.status) {
+            state.status.enabled = true;
+            state.status.recoveryCodesRemaining = result.recoveryCodes.length;
+          }
+          state.isLoading = false;
+        });
+        return result.recoveryCodes;
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(err, "Failed to enable 2FA");
+        });
+        return null;
+      }
+    },
+
+    disable: async (confirmation) => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const result = await api.post<{ accessToken: string }>(
+          "/users/me/2fa/disable",
+          confirmation,
+        );
+        setAccessToken(result.accessToken);
+        set((state) => {
+          if (state.status) {
+            state.status.enabled = false;
+            state.status.recoveryCodesRemaining = 0;
+          }
+          state.isLoading = false;
+        });
+        return true;
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(err, "Failed to disable 2FA");
+        });
+        return false;
+      }
+    },
+
+    regenerateRecoveryCodes: async (confirmation) => {
+      set((state) => {
+        state.isLoading = true;
+        state.error = null;
+      });
+
+      try {
+        const result = await api.post<{ recoveryCodes: string[] }>(
+          "/users/me/2fa/recovery-codes",
+          confirmation,
+        );
+        set((state) => {
+          if (state.status) {
+            state.status.recoveryCodesRemaining = result.recoveryCodes.length;
+          }
+          state.isLoading = false;
+        });
+        return result.recoveryCodes;
+      } catch (err) {
+        set((state) => {
+          state.isLoading = false;
+          state.error = errorMessage(
+            err,
+            "Failed to regenerate recovery codes",
+          );
+        });
+        return null;
+      }
+    },
+  })),
+);
@@ -61,6 +61,13 @@ interface UIState {
   isRemoveDuplicatesDialogOpen: boolean;
   isTextToColumnsDialogOpen: boolean;
   isGoalSeekDialogOpen: boolean;
+  isSolverDialogOpen: boolean;
+  isScenarioManagerOpen: boolean;
+  isDataTableDialogOpen: boolean;
+  isCalculationSettingsOpen: boolean;
+  isFormatAsTableOpen: boolean;
+  isEvaluateFormulaOpen: boolean;
+  isDependentsPanelOpen: boolean;
   isSlicerDialogOpen: boolean;
   isMacroManagerOpen: boolean;
   isScriptEditorOpen: boolean;
@@ -91,6 +98,13 @@ interface UIState {
   setRemoveDuplicatesDialogOpen: (open: boolean) => void;
   setTextToColumnsDialogOpen: (open: boolean) => void;
   setGoalSeekDialogOpen: (open: boolean) => void;
+  setSolverDialogOpen: (open: boolean) => void;
+  setScenarioManagerOpen: (open: boolean) => void;
+  setDataTableDialogOpen: (open: boolean) => void;
+  setCalculationSettingsOpen: (open: boolean) => void;
+  setFormatAsTableOpen: (open: boolean) => void;
+  setEvaluateFormulaOpen: (open: boolean) => void;
+  setDependentsPanelOpen: (open: boolean) => void;
   setSlicerDialogOpen: (open: boolean) => void;
   setMacroManagerOpen: (open: boolean) => void;
   setScriptEditorOpen: (open: boolean) => void;
@@ -124,6 +138,13 @@ export const useUIStore = create<UIState>()(
     isRemoveDuplicatesDialogOpen: false,
     isTextToColumnsDialogOpen: false,
     isGoalSeekDialogOpen: false,
+    isSolverDialogOpen: false,
+    isScenarioManagerOpen: false,
+    isDataTableDialogOpen: false,
+    isCalculationSettingsOpen: false,
+    isFormatAsTableOpen: false,
+    isEvaluateFormulaOpen: false,
+    isDependentsPanelOpen: false,
     isSlicerDialogOpen: false,
     isMacroManagerOpen: false,
     isScriptEditorOpen: false,
@@ -291,6 +312,48 @@ export const useUIStore = create<UIState>()(
       });
     },
 
+    setSolverDialogOpen: (open: boolean) => {
+      set((state) => {
+        state.isSolverDialogOpen = open;
+      });
+    },
+
+    setScenarioManagerOpen: (open: boolean) => {
+      set((state) => {
+        state.isScenarioManagerOpen = open;
+      });
+    },
+
+    setDataTableDialogOpen: (open: boolean) => {
+      set((state) => {
+        state.isDataTableDialogOpen = open;
+      });
+    },
+
+    setCalculationSettingsOpen: (open: boolean) => {
+      set((state) => {
+        state.isCalculationSettingsOpen = open;
+      });
+    },
+
+    setFormatAsTableOpen: (open: boolean) => {
+      set((state) => {
+        state.isFormatAsTableOpen = open;
+      });
+    },
+
+    setEvaluateFormulaOpen: (open: boolean) => {
+      set((state) => {
+        state.isEvaluateFormulaOpen = open;
+      });
+    },
+
+    setDependentsPanelOpen: (open: boolean) => {
+      set((state) => {
+        state.isDependentsPanelOpen = open;
+      });
+    },
+
     setSlicerDialogOpen: (open: boolean) => {
       set((state) => {
         state.isSlicerDialogOpen = open;
@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
 import { api } from "../services/api";
+import { useCloudStore } from "./cloudStore";
 
 interface VersionUser {
   id: string;
@@ -43,10 +44,12 @@ interface VersionSheetSnapshot {
   frozenCols: number;
   filterState: unknown;
   sortState: unknown;
+  objects?: unknown;
 }
 
 interface VersionSnapshot {
   title?: string;
+  namedRanges?: unknown;
   sheets: VersionSheetSnapshot[];
 }
 
@@ -272,6 +275,14 @@ export const useVersionStore = create<VersionStore>()(
           state.previewVersion = null;
           state.diffs = [];
         });
+
+        // Reload so restored sheet objects (charts, pivots, ...) rehydrate
+        await useCloudStore
+          .getState()
+          .fetchSpreadsheet(spreadsheetId)
+          .catch(() => {
+            /* cloudStore records the load error */
+          });
       } catch (err) {
         const message =
           err instanceof Error ? err.message : "Failed to restore version";
@@ -0,0 +1,218 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { useCellStore } from "./cellStore";
+import { uniqueSheetName, useSpreadsheetStore } from "./spreadsheetStore";
+import type {
+  CellPosition,
+  DataTableConfig,
+  Scenario,
+  ScenarioCell,
+} from "../types/grid";
+import {
+  buildScenarioSummary,
+  computeDataTable,
+  writeCellValues,
+} from "../utils/whatIf";
+
+interface WhatIfState {
+  /** Scenarios keyed by id */
+  scenarios: Map<string, Scenario>;
+  /** Data tables keyed by id */
+  dataTables: Map<string, DataTableConfig>;
+
+  /**
+   * Save the current values of `cells` as a scenario. Returns null if the
+   * name is empty or already used on the sheet, or there are no cells.
+   */
+  addScenario: (
+    sheetId: string,
+    name: string,
+    cells: CellPosition[],
+    comment?: string,
+  ) => Scenario | null;
+  /** Returns false if the new name is empty or taken */
+  updateScenario: (
+    id: string,
+    updates: Partial<Pick<Scenario, "name" | "comment" | "cells">>,
+  ) => boolean;
+  removeScenario: (id: string) => void;
+  /**
+   * Put a scenario's values into its cells and recalculate. Callers push
+   * the undo step.
+   */
+  showScenario: (id: string) => void;
+  getScenariosForSheet: (sheetId: string) => Scenario[];
+  /**
+   * Add a sheet comparing the sheet's scenarios on `resultCells`. Returns
+   * the new sheet's id.
+   */
+  createScenarioSummary: (
+    sheetId: string,
+    resultCells: CellPosition[],
+  ) => string | null;
+
+  /** Add a data table and fill in its results; validate it first */
+  addDataTable: (config: Omit<DataTableConfig, "id">) => DataTableConfig;
+  /** Stop recomputing a data table; its last results stay as values */
+  removeDataTable: (id: string) => void;
+  /** Recompute every data table on a sheet */
+  refreshDataTables: (sheetId: string) => void;
+  getDataTablesForSheet: (sheetId: string) => DataTableConfig[];
+  getDataTableAt: (
+    sheetId: string,
+    row: number,
+    col: number,
+  ) => DataTableConfig | undefined;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function currentValues(sheetId: string, cells: CellPosition[]): ScenarioCell[] {
+  const cellStore = useCellStore.getState();
+  return cells.map(({ row, col }) => ({
+    row,
+    col,
+    value: cellStore.getCell(sheetId, row, col)?.value ?? null,
+  }));
+}
+
+export const useWhatIfStore = create<WhatIfState>()(
+  immer((set, get) => {
+    const nameTaken = (sheetId: string, name: string, except?: string) =>
+      get()
+        .getScenariosForSheet(sheetId)
+        .some(
+          (s) => s.id !== except && s.name.toLowerCase() === name.toLowerCase(),
+        );
+
+    return {
+      scenarios: new Map(),
+      dataTables: new Map(),
+
+      addScenario: (sheetId, name, cells, comment) => {
+        const trimmed = name.trim();
+        if (!trimmed || cells.length === 0 || nameTaken(sheetId, trimmed)) {
+          return null;
+        }
+        const scenario: Scenario = {
+          id: newId("scenario"),
+          sheetId,
+          name: trimmed,
+          comment: comment?.trim() || undefined,
+          cells: currentValues(sheetId, cells),
+        };
+        set((state) => {
+          state.scenarios.set(scenario.id, scenario);
+        });
+        return scenario;
+      },
+
+      updateScenario: (id, updates) => {
+        const scenario = get().scenarios.get(id);
+        if (!scenario) return false;
+        const name = updates.name?.trim();
+        if (
+          name !== undefined &&
+          (!name || nameTaken(scenario.sheetId, name, id))
+        ) {
+          return false;
+        }
+        set((state) => {
+          const target = state.scenarios.get(id)!;
+          if (name !== undefined) target.name = name;
+          if (updates.comment !== undefined) {
+            target.comment = updates.comment.trim() || undefined;
+          }
+          if (updates.cells) target.cells = updates.cells;
+        });
+        return true;
+      },
+
+      removeScenario: (id) => {
+        set((state) => {
+          state.scenarios.delete(id);
+        });
+      },
+
+      showScenario: (id) => {
+        const scenario = get().scenarios.get(id);
+        if (!scenario) return;
+        writeCellValues(scenario.sheetId, scenario.cells);
+        get().refreshDataTables(scenario.sheetId);
+      },
+
+      getScenariosForSheet: (sheetId) =>
+        Array.from(get().scenarios.values()).filter(
+          (s) => s.sheetId === sheetId,
+        ),
+
+      createScenarioSummary: (sheetId, resultCells) => {
+        const scenarios = get().getScenariosForSheet(sheetId);
+        if (scenarios.length === 0) return null;
+        const rows = buildScenarioSummary(sheetId, scenarios, resultCells);
+
+        const spreadsheet = useSpreadsheetStore.getState();
+        spreadsheet.addSheet(uniqueSheetName("Scenario Summary"));
+        const sheets = useSpreadsheetStore.getState().sheets;
+        const summaryId = sheets[sheets.length - 1].id;
+        const cellStore = useCellStore.getState();
+        rows.forEach((values, row) =>
+          values.forEach((value, col) => {
+            if (value === null || value === undefined) return;
+            cellStore.setCell(summaryId, row, col, {
+              value,
+              format: row <= 1 ? { bold: true } : undefined,
+            });
+          }),
+        );
+        return summaryId;
+      },
+
+      addDataTable: (config) => {
+        const table: DataTableConfig = { ...config, id: newId("datatable") };
+        set((state) => {
+          state.dataTables.set(table.id, table);
+        });
+        writeCellValues(table.sheetId, computeDataTable(table));
+        return table;
+      },
+
+      removeDataTable: (id) => {
+        set((state) => {
+          state.dataTables.delete(id);
+        });
+      },
+
+      refreshDataTables: (sheetId) => {
+        for (const table of get().getDataTablesForSheet(sheetId)) {
+          const results = computeDataTable(table);
+          // Only write what changed, so an edit elsewhere stays cheap
+          const cellStore = useCellStore.getState();
+          const changed = results.filter(
+            ({ row, col, value }) =>
+              cellStore.getCell(sheetId, row, col)?.value !== value,
+          );
+          if (changed.length > 0) writeCellValues(sheetId, changed);
+        }
+      },
+
+      getDataTablesForSheet: (sheetId) =>
+        Array.from(get().dataTables.values()).filter(
+          (t) => t.sheetId === sheetId,
+        ),
+
+      getDataTableAt: (sheetId, row, col) =>
+        get()
+          .getDataTablesForSheet(sheetId)
+          .find(
+            (t) =>
+              row >= t.startRow &&
+              row <= t.endRow &&
+              col >= t.startCol &&
+              col <= t.endCol,
+          ),
+    };
+  }),
+);
@@ -144,18 +144,59 @@ export interface NamedRange {
   endCol: number;
 }
 
+/** A spreadsheet-wide name for a formula, e.g. `=LAMBDA(x, x*2)` */
+export interface NamedFunction {
+  name: string;
+  formula: string;
+  description?: string;
+}
+
 // Pivot Tables
-export type PivotAggregation = "SUM" | "COUNT" | "AVERAGE" | "MIN" | "MAX";
+export type PivotAggregation =
+  | "SUM"
+  | "COUNT"
+  | "AVERAGE"
+  | "MIN"
+  | "MAX"
+  | "COUNTUNIQUE"
+  | "MEDIAN"
+  | "STDEV";
+
+/** Buckets a row or column field's values fall into */
+export type PivotGrouping =
+  | { type: "date"; by: "year" | "quarter" | "month" }
+  | { type: "number"; size: number; start?: number };
 
 export interface PivotFieldConfig {
   col: number;
   label: string;
+  grouping?: PivotGrouping;
 }
 
+/** How a value is shown relative to the other values of the pivot */
+export type PivotShowAs =
+  | "value"
+  | "percentOfRow"
+  | "percentOfColumn"
+  | "percentOfGrandTotal"
+  | "runningTotal";
+
 export interface PivotValueConfig {
   col: number;
   label: string;
   aggregation: PivotAggregation;
+  /** Name of a calculated field to summarise instead of `col` */
+  calculatedField?: string;
+  showAs?: PivotShowAs;
+}
+
+/**
+ * A field computed for each source row from the others, e.g.
+ * `Revenue - Cost` or `'Unit Price' * Quantity`
+ */
+export interface PivotCalculatedField {
+  name: string;
+  formula: string;
 }
 
 export interface PivotFilterConfig {
@@ -173,6 +214,13 @@ export interface PivotConfig {
   filters: PivotFilterConfig[];
   targetSheetId: string;
   targetCell: CellPosition;
+  calculatedFields?: PivotCalculatedField[];
+  /** Add a total row after each group of every row field but the last */
+  showSubtotals?: boolean;
+  /** Add a grand total row, and a total column when there are column fields */
+  showGrandTotals?: boolean;
+  /** Rows and columns of the output last written at `targetCell` */
+  outputSize?: { rows: number; cols: number };
 }
 
 // Row/Column Grouping
@@ -183,6 +231,12 @@ export interface GroupRange {
 }
 
 // Protected Ranges
+export interface ProtectionEditor {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
 export interface ProtectedRange {
   id: string;
   sheetId: string;
@@ -191,6 +245,31 @@ export interface ProtectedRange {
   endRow: number;
   endCol: number;
   description?: string;
+  /** Protects every cell of the sheet; the bounds are ignored */
+  wholeSheet?: boolean;
+  /** People besides the owner allowed to edit */
+  editors?: ProtectionEditor[];
+  /** Whether the current user may edit the protected cells */
+  canEdit?: boolean;
+}
+
+// Structured tables
+export interface TableConfig {
+  id: string;
+  /** Unique across the spreadsheet; used in formulas as `Name[Column]` */
+  name: string;
+  sheetId: string;
+  /** Whole table: header row, data rows and the totals row when shown */
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  /** Column names, kept in step with the header row */
+  columns: string[];
+  showTotalsRow: boolean;
+  showBandedRows: boolean;
+  /** Header fill; bands use a light tint of it */
+  color: string;
 }
 
 // Slicer
@@ -214,7 +293,20 @@ export type ChartType =
   | "area"
   | "pie"
   | "scatter"
-  | "combo";
+  | "combo"
+  | "histogram"
+  | "waterfall"
+  | "candlestick"
+  | "gauge"
+  | "treemap"
+  | "radar"
+  | "bubble";
+
+/** How a histogram splits its values; a bin width wins over a bin count */
+export interface HistogramBins {
+  count?: number;
+  width?: number;
+}
 
 export interface ChartConfig {
   id: string;
@@ -230,6 +322,15 @@ export interface ChartConfig {
   xAxisLabel?: string;
   yAxisLabel?: string;
   colors?: string[];
+  /** Histogram bins; by default about √n bins */
+  bins?: HistogramBins;
+  /** Waterfall: add a bar for the running total at the end */
+  showTotal?: boolean;
+  /** Candlestick: draw candles or open-high-low-close bars */
+  candleStyle?: "candlestick" | "ohlc";
+  /** Gauge: the scale the value is shown on, 0 to 100 by default */
+  gaugeMin?: number;
+  gaugeMax?: number;
 }
 
 // Comments
@@ -265,3 +366,37 @@ export interface CellImage {
   url: string;
   alt?: string;
 }
+
+// What-if analysis
+export interface ScenarioCell {
+  row: number;
+  col: number;
+  value: string | number | boolean | null;
+}
+
+/** A named set of input values for some cells of a sheet */
+export interface Scenario {
+  id: string;
+  sheetId: string;
+  name: string;
+  comment?: string;
+  cells: ScenarioCell[];
+}
+
+/**
+ * A one- or two-variable data table. The range includes the input values
+ * along its top row and/or left column. With both inputs the top-left cell
+ * holds the formula; with one, the formulas run along the other edge.
+ */
+export interface DataTableConfig {
+  id: string;
+  sheetId: string;
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  /** Cell the top row's values are substituted into */
+  rowInput: CellPosition | null;
+  /** Cell the left column's values are substituted into */
+  colInput: CellPosition | null;
+}
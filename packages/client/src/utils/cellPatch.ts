@@ -0,0 +1,90 @@
+/**
+ * Cell patches: the per-cell upserts and deletes sent to the server instead
+ * of the whole sheet's cell data, and applied back when the server reports
+ * cells changed by someone else.
+ */
+import type { CellData } from "../types/grid";
+import { useCellStore } from "../stores/cellStore";
+
+/** A batch of cell changes, keyed by "row,col" */
+export interface CellPatch {
+  upserts: Record<string, unknown>;
+  deletes: string[];
+  /**
+   * Upserts carry only the fields they set and are laid over the stored
+   * cell; a null field is removed (except `value`) and a cell left with
+   * only a null value is deleted. The server resolves these the same way.
+   */
+  merge?: boolean;
+}
+
+export function emptyPatch(): CellPatch {
+  return { upserts: {}, deletes: [] };
+}
+
+/** Diff two cell maps into the patch that turns `prev` into `next` */
+export function diffCellData(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+): CellPatch {
+  const patch = emptyPatch();
+  for (const [key, value] of Object.entries(next)) {
+    if (JSON.stringify(prev[key]) !== JSON.stringify(value)) {
+      patch.upserts[key] = value;
+    }
+  }
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) patch.deletes.push(key);
+  }
+  return patch;
+}
+
+/** Return a copy of `cellData` with the patch applied */
+export function applyPatchToCellData(
+  cellData: Record<string, unknown>,
+  patch: CellPatch,
+): Record<string, unknown> {
+  if (!patch.merge) {
+    const next = { ...cellData, ...patch.upserts };
+    for (const key of patch.deletes) delete next[key];
+    return next;
+  }
+
+  const next = { ...cellData };
+  for (const key of patch.deletes) delete next[key];
+  for (const [key, fields] of Object.entries(patch.upserts)) {
+    const cell: Record<string, unknown> = {
+      ...((next[key] as Record<string, unknown> | undefined) ?? {}),
+      ...((fields as Record<string, unknown> | null) ?? {}),
+    };
+    for (const [field, value] of Object.entries(cell)) {
+      if (value === null && field !== "value") delete cell[field];
+    }
+    cell.value ??= null;
+    if (Object.keys(cell).length === 1 && cell.value === null) {
+      delete next[key];
+    } else {
+      next[key] = cell;
+    }
+  }
+  return next;
+}
+
+/** Write a patch into the cell store; keys that are not "row,col" are skipped */
+export function applyPatchToCellStore(sheetId: string, patch: CellPatch): void {
+  const { setCell, deleteCell } = useCellStore.getState();
+  for (const [key, value] of Object.entries(patch.upserts)) {
+    const pos = parseKey(key);
+    if (pos) setCell(sheetId, pos.row, pos.col, value as CellData);
+  }
+  for (const key of patch.deletes) {
+    const pos = parseKey(key);
+    if (pos) deleteCell(sheetId, pos.row, pos.col);
+  }
+}
+
+function parseKey(key: string): { row: number; col: number } | null {
+  const match = key.match(/^(\d+),(\d+)$/);
+  if (!match) return null;
+  return { row: Number(match[1]), col: Number(match[2]) };
+}
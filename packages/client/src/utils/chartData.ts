@@ -1,8 +1,9 @@
 /**
  * Utility to extract chart data from cell ranges.
  */
-import type { SelectionRange, CellData } from "../types/grid";
+import type { SelectionRange, CellData, HistogramBins } from "../types/grid";
 import { getCellKey } from "./coordinates";
+import { formatCellValue, isDateFormat } from "./numberFormat";
 
 export interface ChartDataset {
   labels: string[];
@@ -51,19 +52,20 @@ export function extractChartData(
     }
   }
 
-  // Try to detect if first column is labels
-  const firstColValues: string[] = [];
+  const hasHeaders = firstRowAllText && numRows > 1;
+
+  // Try to detect if first column is labels; dates label the rows too
+  const dateFormat = (cell: CellData | undefined) => {
+    const fmt = cell?.format?.numberFormat;
+    return fmt && isDateFormat(fmt) ? fmt : undefined;
+  };
   let firstColAllText = true;
-  for (let r = minRow; r <= maxRow; r++) {
+  for (let r = hasHeaders ? minRow + 1 : minRow; r <= maxRow; r++) {
     const cell = getCellValue(r, minCol);
-    const val = cell?.value ?? "";
-    firstColValues.push(String(val));
-    if (typeof cell?.value === "number") {
+    if (typeof cell?.value === "number" && !dateFormat(cell)) {
       firstColAllText = false;
     }
   }
-
-  const hasHeaders = firstRowAllText && numRows > 1;
   const hasLabels = firstColAllText && numCols > 1;
 
   const dataStartRow = hasHeaders ? minRow + 1 : minRow;
@@ -74,7 +76,12 @@ export function extractChartData(
   for (let r = dataStartRow; r <= maxRow; r++) {
     if (hasLabels) {
       const cell = getCellValue(r, minCol);
-      labels.push(String(cell?.value ?? `Row ${r - dataStartRow + 1}`));
+      const fmt = dateFormat(cell);
+      labels.push(
+        fmt && typeof cell?.value === "number"
+          ? formatCellValue(cell.value, fmt)
+          : String(cell?.value ?? `Row ${r - dataStartRow + 1}`),
+      );
     } else {
       labels.push(`Row ${r - dataStartRow + 1}`);
     }
@@ -106,4 +113,264 @@ export function extractChartData(
   return { labels, datasets };
 }
 
+/** Every number in the range, row by row; text and blanks are skipped */
+export function extractValues(
+  range: SelectionRange,
+  getCellValue: (row: number, col: number) => CellData | undefined,
+): number[] {
+  const values: number[] = [];
+  for (
+    let r = Math.min(range.start.row, range.end.row);
+    r <= Math.max(range.start.row, range.end.row);
+    r++
+  ) {
+    for (
+      let c = Math.min(range.start.col, range.end.col);
+      c <= Math.max(range.start.col, range.end.col);
+      c++
+    ) {
+      const value = getCellValue(r, c)?.value;
+      if (typeof value === "number" && isFinite(value)) values.push(value);
+    }
+  }
+  return values;
+}
+
+const MAX_BINS = 200;
+
+function formatBound(n: number): string {
+  return String(Number(n.toPrecision(6)));
+}
+
+/**
+ * Count values into bins. With a bin width the bins start on a multiple of
+ * it; otherwise `count` bins (√n by default) span the values evenly.
+ */
+export function histogramBins(
+  values: number[],
+  bins: HistogramBins = {},
+): { labels: string[]; counts: number[] } {
+  if (values.length === 0) return { labels: [], counts: [] };
+  let min = values[0];
+  let max = values[0];
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+
+  let width: number;
+  let start: number;
+  let binCount: number;
+  if (bins.width && bins.width > 0) {
+    width = bins.width;
+    start = Math.floor(min / width) * width;
+    binCount = Math.floor((max - start) / width) + 1;
+  } else {
+    binCount = Math.max(
+      1,
+      Math.round(bins.count ?? Math.ceil(Math.sqrt(values.length))),
+    );
+    width = (max - min) / binCount || 1;
+    start = min;
+  }
+  if (binCount > MAX_BINS) {
+    binCount = MAX_BINS;
+    width = (max - start) / binCount;
+  }
+
+  const counts: number[] = new Array(binCount).fill(0);
+  for (const v of values) {
+    const index = Math.min(Math.floor((v - start) / width), binCount - 1);
+    counts[index]++;
+  }
+  const labels = counts.map(
+    (_, i) =>
+      `${formatBound(start + i * width)}–${formatBound(start + (i + 1) * width)}`,
+  );
+  return { labels, counts };
+}
+
+export type WaterfallKind = "increase" | "decrease" | "total";
+
+/**
+ * Floating bars for a waterfall: each value moves the running total from
+ * the bar's start to its end.
+ */
+export function waterfallSteps(
+  labels: string[],
+  values: number[],
+  showTotal = false,
+): { labels: string[]; ranges: [number, number][]; kinds: WaterfallKind[] } {
+  const ranges: [number, number][] = [];
+  const kinds: WaterfallKind[] = [];
+  let total = 0;
+  for (const value of values) {
+    ranges.push([total, total + value]);
+    kinds.push(value < 0 ? "decrease" : "increase");
+    total += value;
+  }
+  if (!showTotal)
+    return { labels: labels.slice(0, values.length), ranges, kinds };
+  return {
+    labels: [...labels.slice(0, values.length), "Total"],
+    ranges: [...ranges, [0, total]],
+    kinds: [...kinds, "total"],
+  };
+}
+
+export interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Candles from the first four series, read as open, high, low and close.
+ * Returns null when there are fewer than four.
+ */
+export function extractCandles(data: ChartDataset): Candle[] | null {
+  if (data.datasets.length < 4) return null;
+  const [open, high, low, close] = data.datasets.map((ds) => ds.data);
+  return data.labels.map((_, i) => ({
+    open: open[i],
+    high: high[i],
+    low: low[i],
+    close: close[i],
+  }));
+}
+
+/** The first value and how far along `min` to `max` it is, from 0 to 1 */
+export function gaugeReading(
+  data: ChartDataset,
+  min = 0,
+  max = 100,
+): { value: number; fraction: number } {
+  const value = data.datasets[0]?.data[0] ?? 0;
+  const fraction = max > min ? (value - min) / (max - min) : 0;
+  return { value, fraction: Math.min(1, Math.max(0, fraction)) };
+}
+
+export interface TreemapTile {
+  label: string;
+  value: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lay out the positive values as a squarified treemap filling a
+ * `width` × `height` box, largest first.
+ */
+export function treemapLayout(
+  items: { label: string; value: number }[],
+  width: number,
+  height: number,
+): TreemapTile[] {
+  const sorted = items
+    .filter((item) => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, item) => sum + item.value, 0);
+  if (total === 0 || width <= 0 || height <= 0) return [];
+  const scale = (width * height) / total;
+  const areas = sorted.map((item) => item.value * scale);
+
+  const tiles: TreemapTile[] = [];
+  const rect = { x: 0, y: 0, width, height };
+
+  // The worst aspect ratio of a row of areas laid along `side`
+  const worst = (row: number[], side: number) => {
+    const sum = row.reduce((a, b) => a + b, 0);
+    let ratio = 0;
+    for (const area of row) {
+      ratio = Math.max(
+        ratio,
+        (side * side * area) / (sum * sum),
+        (sum * sum) / (side * side * area),
+      );
+    }
+    return ratio;
+  };
+
+  const layoutRow = (start: number, end: number) => {
+    const row = areas.slice(start, end);
+    const sum = row.reduce((a, b) => a + b, 0);
+    // Fill along the shorter side, then shrink the rest of the box
+    if (rect.width >= rect.height) {
+      const rowWidth = sum / rect.height;
+      let y = rect.y;
+      row.forEach((area, i) => {
+        const h = area / rowWidth;
+        tiles.push({
+          ...sorted[start + i],
+          x: rect.x,
+          y,
+          width: rowWidth,
+          height: h,
+        });
+        y += h;
+      });
+      rect.x += rowWidth;
+      rect.width -= rowWidth;
+    } else {
+      const rowHeight = sum / rect.width;
+      let x = rect.x;
+      row.forEach((area, i) => {
+        const w = area / rowHeight;
+        tiles.push({
+          ...sorted[start + i],
+          x,
+          y: rect.y,
+          width: w,
+          height: rowHeight,
+        });
+        x += w;
+      });
+      rect.y += rowHeight;
+      rect.height -= rowHeight;
+    }
+  };
+
+  let rowStart = 0;
+  for (let i = 0; i < areas.length; i++) {
+    const side = Math.min(rect.width, rect.height);
+    const row = areas.slice(rowStart, i);
+    if (row.length > 0 && worst([...row, areas[i]], side) > worst(row, side)) {
+      layoutRow(rowStart, i);
+      rowStart = i;
+    }
+  }
+  layoutRow(rowStart, areas.length);
+  return tiles;
+}
+
+const MAX_BUBBLE_RADIUS = 24;
+const MIN_BUBBLE_RADIUS = 3;
+
+/**
+ * Bubbles from the first three series as x, y and size. Bubble areas are
+ * proportional to size, the largest drawn at 24px radius.
+ */
+export function extractBubbles(
+  data: ChartDataset,
+): { x: number; y: number; r: number; label: string }[] {
+  const [xs, ys, sizes] = data.datasets.map((ds) => ds.data);
+  if (!xs || !ys) return [];
+  const maxSize = Math.max(0, ...(sizes ?? []).map(Math.abs));
+  return data.labels.map((label, i) => ({
+    label,
+    x: xs[i],
+    y: ys[i],
+    r:
+      sizes && maxSize > 0
+        ? Math.max(
+            MIN_BUBBLE_RADIUS,
+            Math.sqrt(Math.abs(sizes[i]) / maxSize) * MAX_BUBBLE_RADIUS,
+          )
+        : MIN_BUBBLE_RADIUS * 2,
+  }));
+}
+
 export { DEFAULT_COLORS, getCellKey };
@@ -0,0 +1,203 @@
+/**
+ * Helpers for the shared Yjs document used for real-time co-editing.
+ *
+ * Layout (mirrored by the server in websocket/yjsDocs.ts):
+ *   doc.getMap("sheets"): sheetId → Y.Map {
+ *     name, index, color, isHidden,
+ *     cells: Y.Map<"row,col", Y.Map<field, value>>
+ *   }
+ * Cells are nested maps so concurrent edits to different fields of one cell
+ * both survive; edits to the same field resolve identically everywhere.
+ */
+import * as Y from "yjs";
+import type { CellData } from "../types/grid";
+import { emptyPatch } from "./cellPatch";
+import type { CellPatch } from "./cellPatch";
+
+export type SheetMap = Y.Map<unknown>;
+export type CellsMap = Y.Map<Y.Map<unknown>>;
+
+export interface SheetMeta {
+  name: string;
+  index: number;
+  color: string | null;
+  isHidden: boolean;
+}
+
+export function getSheetsMap(doc: Y.Doc): Y.Map<SheetMap> {
+  return doc.getMap<SheetMap>("sheets");
+}
+
+/** Cells map of a sheet, created on first write */
+function ensureCells(doc: Y.Doc, sheetId: string): CellsMap {
+  const sheets = getSheetsMap(doc);
+  let sheet = sheets.get(sheetId);
+  if (!sheet) {
+    sheet = new Y.Map<unknown>();
+    sheets.set(sheetId, sheet);
+  }
+  let cells = sheet.get("cells") as CellsMap | undefined;
+  if (!cells) {
+    cells = new Y.Map<Y.Map<unknown>>();
+    sheet.set("cells", cells);
+  }
+  return cells;
+}
+
+function cellToJSON(cell: Y.Map<unknown>): CellData {
+  return cell.toJSON() as CellData;
+}
+
+/** Plain cell data of a sheet, keyed by "row,col" */
+export function readSheetCells(
+  doc: Y.Doc,
+  sheetId: string,
+): Record<string, CellData> {
+  const cells = getSheetsMap(doc).get(sheetId)?.get("cells") as
+    CellsMap | undefined;
+  const result: Record<string, CellData> = {};
+  cells?.forEach((cell, key) => {
+    result[key] = cellToJSON(cell);
+  });
+  return result;
+}
+
+export function readSheetMeta(doc: Y.Doc): Record<string, SheetMeta> {
+  const result: Record<string, SheetMeta> = {};
+  getSheetsMap(doc).forEach((sheet, sheetId) => {
+    result[sheetId] = {
+      name: sheet.get("name") as string,
+      index: sheet.get("index") as number,
+      color: (sheet.get("color") as string | null) ?? null,
+      isHidden: Boolean(sheet.get("isHidden")),
+    };
+  });
+  return result;
+}
+
+/**
+ * Write a cell patch into the document in one transaction. Only fields that
+ * actually changed are set, so a concurrent edit to another field of the
+ * same cell is preserved.
+ */
+export function writeCellPatch(
+  doc: Y.Doc,
+  sheetId: string,
+  patch: CellPatch,
+  origin?: unknown,
+): void {
+  doc.transact(() => {
+    const cells = ensureCells(doc, sheetId);
+
+    for (const [key, raw] of Object.entries(patch.upserts)) {
+      const next = (raw ?? {}) as Record<string, unknown>;
+      let cell = cells.get(key);
+      if (!cell) {
+        cell = new Y.Map<unknown>();
+        cells.set(key, cell);
+      }
+      for (const [field, value] of Object.entries(next)) {
+        if (JSON.stringify(cell.get(field)) !== JSON.stringify(value)) {
+          cell.set(field, value);
+        }
+      }
+      for (const field of Array.from(cell.keys())) {
+        if (!(field in next)) cell.delete(field);
+      }
+    }
+
+    for (const key of patch.deletes) {
+      cells.delete(key);
+    }
+  }, origin);
+}
+
+export function writeSheetMeta(
+  doc: Y.Doc,
+  sheetId: string,
+  meta: Partial<SheetMeta>,
+  origin?: unknown,
+): void {
+  doc.transact(() => {
+    const sheets = getSheetsMap(doc);
+    let sheet = sheets.get(sheetId);
+    if (!sheet) {
+      sheet = new Y.Map<unknown>();
+      sheets.set(sheetId, sheet);
+    }
+    for (const [field, value] of Object.entries(meta)) {
+      sheet.set(field, value);
+    }
+  }, origin);
+}
+
+export function deleteSheet(
+  doc: Y.Doc,
+  sheetId: string,
+  origin?: unknown,
+): void {
+  doc.transact(() => {
+    getSheetsMap(doc).delete(sheetId);
+  }, origin);
+}
+
+/**
+ * Turn the events of one deep-observed transaction into per-sheet cell
+ * patches, reading the final cell state from the document.
+ * `structureChanged` is set when sheets were added, removed or renamed.
+ */
+export function patchesFromEvents(
+  doc: Y.Doc,
+  events: Array<Y.YEvent<Y.AbstractType<unknown>>>,
+): { cells: Map<string, CellPatch>; structureChanged: boolean } {
+  const touched = new Map<string, Set<string>>();
+  let structureChanged = false;
+
+  const touch = (sheetId: string, key: string) => {
+    let keys = touched.get(sheetId);
+    if (!keys) {
+      keys = new Set();
+      touched.set(sheetId, keys);
+    }
+    keys.add(key);
+  };
+
+  for (const event of events) {
+    // Path from the sheets map: [] | [sheetId] | [sheetId, "cells"] |
+    // [sheetId, "cells", cellKey]
+    const path = event.path as string[];
+    if (path.length === 0) {
+      structureChanged = true;
+      // A whole sheet was added or replaced — resend all of its cells
+      for (const sheetId of event.keys.keys()) {
+        const cells = readSheetCells(doc, sheetId);
+        for (const key of Object.keys(cells)) touch(sheetId, key);
+      }
+    } else if (path.length === 1) {
+      structureChanged = true;
+      if (event.keys.has("cells")) {
+        const cells = readSheetCells(doc, path[0]);
+        for (const key of Object.keys(cells)) touch(path[0], key);
+      }
+    } else if (path.length === 2) {
+      for (const key of event.keys.keys()) touch(path[0], key);
+    } else {
+      touch(path[0], path[2]);
+    }
+  }
+
+  const cells = new Map<string, CellPatch>();
+  for (const [sheetId, keys] of touched) {
+    const current = getSheetsMap(doc).get(sheetId)?.get("cells") as
+      CellsMap | undefined;
+    const patch = emptyPatch();
+    for (const key of keys) {
+      const cell = current?.get(key);
+      if (cell) patch.upserts[key] = cellToJSON(cell);
+      else patch.deletes.push(key);
+    }
+    cells.set(sheetId, patch);
+  }
+
+  return { cells, structureChanged };
+}
@@ -0,0 +1,165 @@
+/**
+ * Formula auditing helpers — precedents and dependents of a cell across the
+ * whole workbook, and a value getter for stepping through a formula.
+ *
+ * The formula store's dependency graph only knows formulas edited in this
+ * session, so auditing builds a graph from every formula cell in the cell
+ * store. Nodes are keyed "sheetId!A1" so cells on every sheet are distinct.
+ */
+import {
+  DependencyGraph,
+  cellId,
+  parseCellId,
+  extractReferences,
+  parseFormula,
+} from "@gridspace/formula";
+import type { CellValueGetter } from "@gridspace/formula";
+import { useCellStore } from "../stores/cellStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useNamedRangeStore } from "../stores/namedRangeStore";
+import type { CellPosition } from "../types/grid";
+
+/** A cell on a specific sheet */
+export interface AuditCell extends CellPosition {
+  sheetId: string;
+}
+
+/** A referenced cell or range on a specific sheet */
+export interface AuditRange {
+  sheetId: string;
+  start: CellPosition;
+  end: CellPosition;
+}
+
+function parseKey(key: string): CellPosition | null {
+  const match = key.match(/^(\d+),(\d+)$/);
+  return match ? { row: Number(match[1]), col: Number(match[2]) } : null;
+}
+
+/** Sheet id for a sheet name used in a formula (case-insensitive) */
+function resolveSheetId(
+  name: string | undefined,
+  current: string,
+): string | undefined {
+  if (name === undefined) return current;
+  const lower = name.toLowerCase();
+  return useSpreadsheetStore
+    .getState()
+    .sheets.find((s) => s.name.toLowerCase() === lower)?.id;
+}
+
+export function auditNodeId(cell: AuditCell): string {
+  return cellId(cell.sheetId, cell.col, cell.row);
+}
+
+export function parseAuditNodeId(id: string): AuditCell {
+  const { sheet, row, col } = parseCellId(id);
+  return { sheetId: sheet ?? "", row, col };
+}
+
+/**
+ * Cells and ranges a formula cell refers to, one entry per reference.
+ * References to unknown sheets are skipped.
+ */
+export function getPrecedentRanges(cell: AuditCell): AuditRange[] {
+  const formula = useCellStore
+    .getState()
+    .getCell(cell.sheetId, cell.row, cell.col)?.formula;
+  if (!formula?.startsWith("=")) return [];
+
+  let refs: ReturnType<typeof extractReferences>;
+  try {
+    refs = extractReferences(parseFormula(formula.slice(1)));
+  } catch {
+    return [];
+  }
+
+  const ranges: AuditRange[] = [];
+  for (const ref of refs) {
+    const start = ref.type === "cell" ? ref : ref.start;
+    const end = ref.type === "cell" ? ref : ref.end;
+    const sheetId = resolveSheetId(start.sheet, cell.sheetId);
+    if (!sheetId) continue;
+    ranges.push({
+      sheetId,
+      start: {
+        row: Math.min(start.row, end.row),
+        col: Math.min(start.col, end.col),
+      },
+      end: {
+        row: Math.max(start.row, end.row),
+        col: Math.max(start.col, end.col),
+      },
+    });
+  }
+  return ranges;
+}
+
+/** Dependency graph of every formula cell in the workbook */
+export function buildWorkbookGraph(): DependencyGraph {
+  const graph = new DependencyGraph();
+  for (const [sheetId, cells] of useCellStore.getState().cells) {
+    for (const [key, data] of cells) {
+      if (!data.formula?.startsWith("=")) continue;
+      const pos = parseKey(key);
+      if (!pos) continue;
+      const id = auditNodeId({ sheetId, ...pos });
+      for (const range of getPrecedentRanges({ sheetId, ...pos })) {
+        for (let row = range.start.row; row <= range.end.row; row++) {
+          for (let col = range.start.col; col <= range.end.col; col++) {
+            graph.addDependency(
+              id,
+              auditNodeId({ sheetId: range.sheetId, row, col }),
+            );
+          }
+        }
+      }
+    }
+  }
+  return graph;
+}
+
+/** Formula cells that refer to `cell` directly */
+export function getDirectDependents(
+  cell: AuditCell,
+  graph = buildWorkbookGraph(),
+): AuditCell[] {
+  return graph.getDirectDependents(auditNodeId(cell)).map(parseAuditNodeId);
+}
+
+/** Every formula cell whose value depends on `cell`, directly or not */
+export function getAllDependents(
+  cell: AuditCell,
+  graph = buildWorkbookGraph(),
+): AuditCell[] {
+  return [...graph.getAllDependents(auditNodeId(cell))].map(parseAuditNodeId);
+}
+
+/**
+ * Value getter over the cell store for evaluating a formula on `sheetId`,
+ * matching the grid: numeric text reads as a number, spilled cells read
+ * their spilled value and named LAMBDAs resolve.
+ */
+export function storeValueGetter(sheetId: string): CellValueGetter {
+  const getCellValue: CellValueGetter = (sheet, col, row) => {
+    const sid = resolveSheetId(sheet, sheetId);
+    if (!sid) return "#REF!";
+    const cell = useCellStore.getState().getCell(sid, row, col);
+    if (!cell) {
+      return useFormulaStore.getState().getSpillValue(sid, row, col) ?? null;
+    }
+    if (typeof cell.value === "number" || typeof cell.value === "boolean")
+      return cell.value;
+    if (cell.value === null || cell.value === "") return null;
+    const num = Number(cell.value);
+    return isNaN(num) ? cell.value : num;
+  };
+  getCellValue.spillRange = (sheet, col, row) => {
+    const sid = resolveSheetId(sheet, sheetId);
+    return sid ? useFormulaStore.getState().getSpillRange(sid, row, col) : null;
+  };
+  getCellValue.namedFormula = (name) =>
+    useNamedRangeStore.getState().resolveFunction(name);
+  return getCellValue;
+}
@@ -33,7 +33,7 @@ const MONTHS_LONG = [
 ];
 
 /** Excel serial date epoch: Dec 30, 1899 */
-function serialToDate(serial: number): Date {
+export function serialToDate(serial: number): Date {
   const epoch = new Date(1899, 11, 30);
   return new Date(epoch.getTime() + serial * 86400000);
 }
@@ -77,7 +77,7 @@ function formatDateToken(d: Date, token: string): string {
   }
 }
 
-function isDateFormat(fmt: string): boolean {
+export function isDateFormat(fmt: string): boolean {
   const lower = fmt.toLowerCase();
   return /[ymd]/.test(lower) && !/[#0]/.test(fmt);
 }
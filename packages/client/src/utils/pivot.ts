@@ -0,0 +1,597 @@
+/**
+ * Pivot table engine — group the rows of a source range by the row and
+ * column fields and summarise the value fields for every group. The source
+ * rows behind each value are kept so a value can be drilled into.
+ */
+import { evaluate, hasFunction, parseFormula } from "@gridspace/formula";
+import type {
+  ASTNode,
+  CellValueGetter,
+  FormulaValue,
+} from "@gridspace/formula";
+import type {
+  CellData,
+  CellFormat,
+  PivotAggregation,
+  PivotCalculatedField,
+  PivotConfig,
+  PivotFieldConfig,
+  PivotGrouping,
+  PivotValueConfig,
+} from "../types/grid";
+import { getCellKey } from "./coordinates";
+import { NUMBER_FORMATS, serialToDate } from "./numberFormat";
+
+type CellValue = CellData["value"];
+
+export interface PivotResult {
+  /** Output cells keyed by "row,col" from the pivot's top-left cell */
+  cells: Map<string, CellData>;
+  /** Source sheet rows summarised by each value cell, keyed like `cells` */
+  sources: Map<string, number[]>;
+}
+
+interface SourceRow {
+  /** Row on the source sheet */
+  index: number;
+  /** Values by source column; calculated fields use negative columns */
+  values: Map<number, CellValue>;
+}
+
+export function aggregate(values: number[], agg: PivotAggregation): number {
+  if (values.length === 0) return 0;
+  switch (agg) {
+    case "SUM":
+      return values.reduce((a, b) => a + b, 0);
+    case "COUNT":
+      return values.length;
+    case "AVERAGE":
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case "MIN":
+      return Math.min(...values);
+    case "MAX":
+      return Math.max(...values);
+    case "COUNTUNIQUE":
+      return new Set(values).size;
+    case "MEDIAN": {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid];
+    }
+    case "STDEV": {
+      // Sample standard deviation, like the STDEV function
+      if (values.length < 2) return 0;
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const squares = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+      return Math.sqrt(squares / (values.length - 1));
+    }
+    default:
+      return 0;
+  }
+}
+
+// ============================================================
+// Calculated fields
+// ============================================================
+
+/** How a field is named in a calculated field's formula */
+function fieldIdentifier(name: string): string {
+  return name.trim().replace(/\W/g, "_").toUpperCase();
+}
+
+/**
+ * Parse a calculated field's formula. Field names are written bare, with
+ * other characters as underscores (`Unit_Price`), or quoted (`'Unit Price'`).
+ */
+function parseFieldFormula(formula: string): ASTNode {
+  const text = formula
+    .trim()
+    .replace(/^=/, "")
+    .replace(/'([^']*)'/g, (_, name: string) => fieldIdentifier(name));
+  return parseFormula(text);
+}
+
+/** Field names read like zero-argument function calls */
+function isFieldName(node: ASTNode): node is ASTNode & { name: string } {
+  return node.type === "function" && node.args.length === 0;
+}
+
+/** Row bound field references point at; anything else is not a field */
+const FIELD_ROW = -1;
+
+/** Turn field names into references to `fields`' columns */
+function bindFields(node: ASTNode, fields: Map<string, number>): ASTNode {
+  switch (node.type) {
+    case "function":
+      if (isFieldName(node) && fields.has(node.name.toUpperCase())) {
+        return {
+          type: "cell",
+          col: fields.get(node.name.toUpperCase())!,
+          row: FIELD_ROW,
+          absCol: false,
+          absRow: false,
+          raw: node.name,
+        };
+      }
+      return {
+        ...node,
+        args: node.args.map((arg) => bindFields(arg, fields)),
+      };
+    case "binary":
+      return {
+        ...node,
+        left: bindFields(node.left, fields),
+        right: bindFields(node.right, fields),
+      };
+    case "unary":
+      return { ...node, operand: bindFields(node.operand, fields) };
+    default:
+      return node;
+  }
+}
+
+function unknownName(node: ASTNode, fields: Set<string>): string | null {
+  switch (node.type) {
+    case "function":
+      if (
+        isFieldName(node) &&
+        !fields.has(node.name.toUpperCase()) &&
+        !hasFunction(node.name.toUpperCase())
+      ) {
+        return node.name;
+      }
+      for (const arg of node.args) {
+        const name = unknownName(arg, fields);
+        if (name) return name;
+      }
+      return null;
+    case "binary":
+      return unknownName(node.left, fields) ?? unknownName(node.right, fields);
+    case "unary":
+      return unknownName(node.operand, fields);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why a calculated field cannot be added, or null when it can. `fieldNames`
+ * are the source headers; `existing` the pivot's other calculated fields.
+ */
+export function validateCalculatedField(
+  field: PivotCalculatedField,
+  fieldNames: string[],
+  existing: PivotCalculatedField[] = [],
+): string | null {
+  const name = field.name.trim();
+  if (!name) return "Enter a name for the calculated field";
+  const known = new Set(
+    [...fieldNames, ...existing.map((f) => f.name)].map(fieldIdentifier),
+  );
+  if (known.has(fieldIdentifier(name))) {
+    return `A field named ${name} already exists`;
+  }
+  if (!field.formula.trim()) return "Enter a formula";
+  let ast: ASTNode;
+  try {
+    ast = parseFieldFormula(field.formula);
+  } catch {
+    return "The formula could not be read";
+  }
+  const unknown = unknownName(ast, known);
+  return unknown ? `Unknown field ${unknown}` : null;
+}
+
+// ============================================================
+// Grouping
+// ============================================================
+
+interface GroupValue {
+  /** Identity of the group */
+  id: string;
+  /** Shown in the pivot */
+  label: string;
+  /** Sort position; values outside the grouping sort last by id */
+  order: number | null;
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** A cell value as a date: a serial number or an ISO date string */
+function toDate(value: CellValue): Date | null {
+  if (typeof value === "number") return serialToDate(value);
+  if (typeof value !== "string") return null;
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value.trim());
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function groupValue(value: CellValue, grouping?: PivotGrouping): GroupValue {
+  const id = value != null ? String(value) : "";
+  if (grouping?.type === "date") {
+    const date = toDate(value);
+    if (date && !isNaN(date.getTime())) {
+      const year = date.getFullYear();
+      const month = date.getMonth();
+      const quarter = Math.floor(month / 3) + 1;
+      switch (grouping.by) {
+        case "year":
+          return { id: `${year}`, label: `${year}`, order: year };
+        case "quarter":
+          return {
+            id: `${year}-Q${quarter}`,
+            label: `Q${quarter} ${year}`,
+            order: year * 4 + quarter,
+          };
+        case "month":
+          return {
+            id: `${year}-${month}`,
+            label: `${MONTHS[month]} ${year}`,
+            order: year * 12 + month,
+          };
+      }
+    }
+  }
+  if (grouping?.type === "number" && grouping.size > 0) {
+    const num = typeof value === "number" ? value : Number(value);
+    if (value !== null && value !== "" && !isNaN(num)) {
+      const start = grouping.start ?? 0;
+      const low = round(
+        start + Math.floor((num - start) / grouping.size) * grouping.size,
+      );
+      // Whole-number buckets read 0-9, 10-19…; others 0-2.5, 2.5-5…
+      const whole = Number.isInteger(grouping.size) && Number.isInteger(start);
+      const high = round(low + grouping.size - (whole ? 1 : 0));
+      return { id: `${low}`, label: `${low}-${high}`, order: low };
+    }
+  }
+  return { id, label: id, order: null };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e10) / 1e10;
+}
+
+function compareGroups(a: GroupValue, b: GroupValue): number {
+  if (a.order !== null && b.order !== null) return a.order - b.order;
+  if (a.order !== null) return -1;
+  if (b.order !== null) return 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/** Row-field groups; children are in first-seen order unless grouped */
+interface PivotNode {
+  group: GroupValue;
+  rows: SourceRow[];
+  children: PivotNode[];
+}
+
+function buildTree(
+  rows: SourceRow[],
+  fields: PivotFieldConfig[],
+  depth = 0,
+): PivotNode[] {
+  if (depth >= fields.length) return [];
+  const field = fields[depth];
+  const nodes = new Map<string, PivotNode>();
+  for (const row of rows) {
+    const group = groupValue(row.values.get(field.col) ?? null, field.grouping);
+    let node = nodes.get(group.id);
+    if (!node) {
+      node = { group, rows: [], children: [] };
+      nodes.set(group.id, node);
+    }
+    node.rows.push(row);
+  }
+  const children = Array.from(nodes.values());
+  if (field.grouping) children.sort((a, b) => compareGroups(a.group, b.group));
+  for (const node of children) {
+    node.children = buildTree(node.rows, fields, depth + 1);
+  }
+  return children;
+}
+
+// ============================================================
+// Computing the pivot
+// ============================================================
+
+function sourceBounds(config: PivotConfig) {
+  const { start, end } = config.sourceRange;
+  return {
+    startRow: Math.min(start.row, end.row),
+    endRow: Math.max(start.row, end.row),
+    startCol: Math.min(start.col, end.col),
+    endCol: Math.max(start.col, end.col),
+  };
+}
+
+/** The source headers the pivot's fields are named by, by column */
+export function pivotFieldNames(
+  config: PivotConfig,
+  sourceCells: Map<string, CellData>,
+): Map<number, string> {
+  const { startRow, startCol, endCol } = sourceBounds(config);
+  const headers = new Map<number, string>();
+  for (let c = startCol; c <= endCol; c++) {
+    const cell = sourceCells.get(getCellKey(startRow, c));
+    headers.set(c, cell?.value != null ? String(cell.value) : `Col${c}`);
+  }
+  return headers;
+}
+
+/** The source rows that pass the filters, with calculated fields added */
+function readSource(
+  config: PivotConfig,
+  sourceCells: Map<string, CellData>,
+): SourceRow[] {
+  const { filters } = config;
+  const { startRow, endRow, startCol, endCol } = sourceBounds(config);
+  const headers = pivotFieldNames(config, sourceCells);
+
+  // Calculated fields see the source fields and the ones before them
+  const fieldCols = new Map<string, number>();
+  for (const [col, header] of headers) {
+    fieldCols.set(fieldIdentifier(header), col);
+  }
+  const calculated = (config.calculatedFields ?? []).map((field, i) => {
+    let ast: ASTNode | null;
+    try {
+      ast = bindFields(parseFieldFormula(field.formula), fieldCols);
+    } catch {
+      ast = null;
+    }
+    const col = -(i + 1);
+    fieldCols.set(fieldIdentifier(field.name), col);
+    return { col, ast };
+  });
+
+  const rows: SourceRow[] = [];
+  for (let r = startRow + 1; r <= endRow; r++) {
+    // Apply filters
+    const passes = filters.every((filter) => {
+      const cell = sourceCells.get(getCellKey(r, filter.col));
+      return filter.allowedValues.has(
+        cell?.value != null ? String(cell.value) : "",
+      );
+    });
+    if (!passes) continue;
+
+    const values = new Map<number, CellValue>();
+    for (let c = startCol; c <= endCol; c++) {
+      values.set(c, sourceCells.get(getCellKey(r, c))?.value ?? null);
+    }
+    const read: CellValueGetter = (_sheet, col, row) =>
+      row === FIELD_ROW ? (values.get(col) ?? null) : "#REF!";
+    for (const { col, ast } of calculated) {
+      values.set(col, ast ? toCellValue(evaluate(ast, read)) : "#NAME?");
+    }
+    rows.push({ index: r, values });
+  }
+  return rows;
+}
+
+function toCellValue(value: FormulaValue): CellValue {
+  return Array.isArray(value) ? (value[0]?.[0] ?? null) : value;
+}
+
+/** The column a value field summarises; undefined for a missing field */
+function valueColumn(
+  config: PivotConfig,
+  field: PivotValueConfig,
+): number | undefined {
+  if (!field.calculatedField) return field.col;
+  const index = (config.calculatedFields ?? []).findIndex(
+    (f) => f.name === field.calculatedField,
+  );
+  return index === -1 ? undefined : -(index + 1);
+}
+
+function summarise(
+  rows: SourceRow[],
+  col: number | undefined,
+  agg: PivotAggregation,
+): number {
+  if (col === undefined) return 0;
+  const raw = rows
+    .map((r) => r.values.get(col) ?? null)
+    .filter((v) => v !== null);
+  if (agg === "COUNTUNIQUE") {
+    return new Set(raw.filter((v) => v !== "").map(String)).size;
+  }
+  return aggregate(
+    raw.map((v) => Number(v)).filter((v) => !isNaN(v)),
+    agg,
+  );
+}
+
+interface ColumnGroup {
+  groups: GroupValue[];
+  rows: Set<SourceRow>;
+  /** The grand total column */
+  total?: boolean;
+}
+
+/** Compute a pivot's output cells, keeping the source rows of each value */
+export function buildPivot(
+  config: PivotConfig,
+  sourceCells: Map<string, CellData>,
+): PivotResult {
+  const cells = new Map<string, CellData>();
+  const sources = new Map<string, number[]>();
+  const { rowFields, colFields, valueFields } = config;
+  const rows = readSource(config, sourceCells);
+  const allRows = new Set(rows);
+
+  // Column groups, sorted; a single group of every row without col fields
+  let columns: ColumnGroup[];
+  if (colFields.length === 0) {
+    columns = [{ groups: [], rows: allRows }];
+  } else {
+    const byKey = new Map<string, ColumnGroup>();
+    for (const row of rows) {
+      const groups = colFields.map((f) =>
+        groupValue(row.values.get(f.col) ?? null, f.grouping),
+      );
+      const key = groups.map((g) => g.id).join("|||");
+      if (!byKey.has(key)) byKey.set(key, { groups, rows: new Set() });
+      byKey.get(key)!.rows.add(row);
+    }
+    columns = Array.from(byKey.values()).sort((a, b) => {
+      for (let i = 0; i < a.groups.length; i++) {
+        const cmp = compareGroups(a.groups[i], b.groups[i]);
+        if (cmp !== 0) return cmp;
+      }
+      return 0;
+    });
+    if (config.showGrandTotals) {
+      columns.push({ groups: [], rows: allRows, total: true });
+    }
+  }
+
+  // Header row: row field labels + value field labels (or col field combos)
+  rowFields.forEach((rf, c) =>
+    cells.set(getCellKey(0, c), { value: rf.label }),
+  );
+  let outCol = rowFields.length;
+  for (const column of columns) {
+    for (const vf of valueFields) {
+      const value =
+        colFields.length === 0
+          ? `${vf.label} (${vf.aggregation})`
+          : column.total
+            ? `Grand Total - ${vf.label}`
+            : `${column.groups.map((g) => g.label).join(" / ")} - ${vf.label}`;
+      cells.set(getCellKey(0, outCol++), { value });
+    }
+  }
+
+  const totals = new Map<string, number>();
+  const totalFor = (key: string, compute: () => number) => {
+    if (!totals.has(key)) totals.set(key, compute());
+    return totals.get(key)!;
+  };
+  const runningTotals = new Map<number, number>();
+  let outRow = 1;
+
+  const writeValues = (groupRows: SourceRow[], isTotal: boolean) => {
+    let c = rowFields.length;
+    for (const column of columns) {
+      for (const vf of valueFields) {
+        const col = valueColumn(config, vf);
+        const matching = groupRows.filter((r) => column.rows.has(r));
+        let value: CellValue = summarise(matching, col, vf.aggregation);
+        const showAs = vf.showAs ?? "value";
+        let percent = false;
+
+        if (showAs === "runningTotal" && !isTotal) {
+          value += runningTotals.get(c) ?? 0;
+          runningTotals.set(c, value);
+        } else if (showAs !== "value" && showAs !== "runningTotal") {
+          // Percentages are of the same summary over a wider set of rows
+          const denominator =
+            showAs === "percentOfRow"
+              ? summarise(groupRows, col, vf.aggregation)
+              : totalFor(`${showAs}:${c}`, () =>
+                  summarise(
+                    showAs === "percentOfColumn"
+                      ? Array.from(column.rows)
+                      : rows,
+                    col,
+                    vf.aggregation,
+                  ),
+                );
+          value = denominator === 0 ? "#DIV/0!" : value / denominator;
+          percent = true;
+        }
+
+        const format: CellFormat = {};
+        if (isTotal) format.bold = true;
+        if (percent) format.numberFormat = NUMBER_FORMATS.Percent;
+        const key = getCellKey(outRow, c);
+        cells.set(key, isTotal || percent ? { value, format } : { value });
+        sources.set(
+          key,
+          matching.map((r) => r.index),
+        );
+        c++;
+      }
+    }
+    outRow++;
+  };
+
+  // Data rows, depth first; outer labels repeat on every row
+  const writeNode = (node: PivotNode, labels: string[]) => {
+    const path = [...labels, node.group.label];
+    if (node.children.length === 0) {
+      path.forEach((label, c) =>
+        cells.set(getCellKey(outRow, c), { value: label }),
+      );
+      writeValues(node.rows, false);
+      return;
+    }
+    for (const child of node.children) writeNode(child, path);
+    if (config.showSubtotals) {
+      cells.set(getCellKey(outRow, labels.length), {
+        value: `${node.group.label} Total`,
+        format: { bold: true },
+      });
+      writeValues(node.rows, true);
+    }
+  };
+
+  if (rowFields.length === 0) {
+    if (rows.length > 0) writeValues(rows, false);
+  } else {
+    for (const node of buildTree(rows, rowFields)) writeNode(node, []);
+  }
+
+  if (config.showGrandTotals && rowFields.length > 0) {
+    cells.set(getCellKey(outRow, 0), {
+      value: "Grand Total",
+      format: { bold: true },
+    });
+    writeValues(rows, true);
+  }
+
+  return { cells, sources };
+}
+
+/**
+ * The source rows behind a pivot value, header row first, for listing on a
+ * sheet of their own. `row` and `col` are from the pivot's top-left cell;
+ * null when that is not a value cell.
+ */
+export function pivotDrillDown(
+  config: PivotConfig,
+  sourceCells: Map<string, CellData>,
+  row: number,
+  col: number,
+): CellValue[][] | null {
+  const rows = buildPivot(config, sourceCells).sources.get(
+    getCellKey(row, col),
+  );
+  if (!rows) return null;
+  const { startRow, startCol, endCol } = sourceBounds(config);
+  return [startRow, ...rows].map((r) => {
+    const values: CellValue[] = [];
+    for (let c = startCol; c <= endCol; c++) {
+      values.push(sourceCells.get(getCellKey(r, c))?.value ?? null);
+    }
+    return values;
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * Sheet objects: everything on a sheet that is not cell data — conditional
+ * formats, merges, banding, charts, pivots, validation, tables, scenarios
+ * and data tables.
+ * Protected ranges are stored and enforced by the server separately (see
+ * protectionStore).
+ * Collects them from the stores into a JSON payload for the server and
+ * hydrates the stores back from a loaded payload.
+ */
+import { normalizeCalcSettings } from "@gridspace/formula";
+import type {
+  ChartConfig,
+  ConditionalRule,
+  MergedRegion,
+  NamedRange,
+  NamedFunction,
+  PivotConfig,
+  TableConfig,
+  Scenario,
+  DataTableConfig,
+  ValidationRule,
+} from "../types/grid";
+import { useFormatStore } from "../stores/formatStore";
+import { useChartStore } from "../stores/chartStore";
+import { usePivotStore } from "../stores/pivotStore";
+import { useValidationStore } from "../stores/validationStore";
+import { useNamedRangeStore } from "../stores/namedRangeStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useTableStore } from "../stores/tableStore";
+import { useWhatIfStore } from "../stores/whatIfStore";
+
+/** Bump when the payload shape changes; older payloads are upgraded on load */
+export const SHEET_OBJECTS_SCHEMA_VERSION = 1;
+
+/** Pivot config with its filter sets flattened to arrays for JSON */
+export interface SerializedPivotConfig extends Omit<PivotConfig, "filters"> {
+  filters: Array<{ col: number; allowedValues: string[] }>;
+}
+
+export interface SheetObjects {
+  schemaVersion: number;
+  conditionalRules: ConditionalRule[];
+  mergedRegions: MergedRegion[];
+  alternatingColors: [string, string] | null;
+  charts: ChartConfig[];
+  pivots: SerializedPivotConfig[];
+  /** Validation rules keyed by "row,col" cell key */
+  validation: Record<string, ValidationRule>;
+  tables: TableConfig[];
+  scenarios: Scenario[];
+  dataTables: DataTableConfig[];
+}
+
+/** Plain deep copy — store state is frozen by Immer */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function serializePivot(pivot: PivotConfig): SerializedPivotConfig {
+  return clone({
+    ...pivot,
+    filters: pivot.filters.map((f) => ({
+      col: f.col,
+      allowedValues: Array.from(f.allowedValues),
+    })),
+  });
+}
+
+function deserializePivot(pivot: SerializedPivotConfig): PivotConfig {
+  return {
+    ...pivot,
+    filters: (pivot.filters ?? []).map((f) => ({
+      col: f.col,
+      allowedValues: new Set(f.allowedValues),
+    })),
+  };
+}
+
+/** Gather all objects of a sheet into a JSON-safe payload */
+export function collectSheetObjects(sheetId: string): SheetObjects {
+  const format = useFormatStore.getState();
+  const validationRules = useValidationStore.getState().rules.get(sheetId);
+
+  const pivots = usePivotStore
+    .getState()
+    .getAllPivots()
+    .filter((p) => p.targetSheetId === sheetId)
+    .map(serializePivot);
+
+  return {
+    schemaVersion: SHEET_OBJECTS_SCHEMA_VERSION,
+    conditionalRules: clone(format.getConditionalRules(sheetId)),
+    mergedRegions: clone(format.getMergedRegions(sheetId)),
+    alternatingColors: clone(format.getAlternatingColors(sheetId)),
+    charts: clone(useChartStore.getState().getCharts(sheetId)),
+    pivots,
+    validation: validationRules
+      ? clone(Object.fromEntries(validationRules))
+      : {},
+    tables: clone(useTableStore.getState().getTablesForSheet(sheetId)),
+    scenarios: clone(useWhatIfStore.getState().getScenariosForSheet(sheetId)),
+    dataTables: clone(useWhatIfStore.getState().getDataTablesForSheet(sheetId)),
+  };
+}
+
+/**
+ * Upgrade a stored payload to the current schema. Missing sections (e.g.
+ * from a sheet that was never saved with objects) become empty; sections
+ * no longer kept here, like old client-side protected ranges, are dropped.
+ */
+export function normalizeSheetObjects(raw: unknown): SheetObjects {
+  const data = (
+    raw && typeof raw === "object" ? raw : {}
+  ) as Partial<SheetObjects>;
+  return {
+    schemaVersion: SHEET_OBJECTS_SCHEMA_VERSION,
+    conditionalRules: data.conditionalRules ?? [],
+    mergedRegions: data.mergedRegions ?? [],
+    alternatingColors: data.alternatingColors ?? null,
+    charts: data.charts ?? [],
+    pivots: data.pivots ?? [],
+    validation: data.validation ?? {},
+    tables: data.tables ?? [],
+    scenarios: data.scenarios ?? [],
+    dataTables: data.dataTables ?? [],
+  };
+}
+
+/**
+ * Replace the sheet's objects in every store with the given payload.
+ * Sheet ids inside the payload are rewritten to `sheetId` so objects stay
+ * attached when a sheet is copied or restored under a new id.
+ */
+export function applySheetObjects(sheetId: string, raw: unknown): void {
+  const objects = normalizeSheetObjects(raw);
+
+  useFormatStore.setState((state) => {
+    state.conditionalRules.set(sheetId, objects.conditionalRules);
+    state.mergedRegions.set(sheetId, objects.mergedRegions);
+    state.alternatingColors.set(sheetId, objects.alternatingColors);
+  });
+
+  useChartStore.setState((state) => {
+    state.charts.set(
+      sheetId,
+      objects.charts.map((c) => ({ ...c, sheetId })),
+    );
+  });
+
+  usePivotStore.setState((state) => {
+    for (const [id, pivot] of state.pivots) {
+      if (pivot.targetSheetId === sheetId) state.pivots.delete(id);
+    }
+    for (const pivot of objects.pivots) {
+      state.pivots.set(
+        pivot.id,
+        deserializePivot({ ...pivot, targetSheetId: sheetId }),
+      );
+    }
+  });
+  // Their output is saved with the cells; edits to the source refresh it
+  for (const pivot of objects.pivots) {
+    usePivotStore.getState().trackPivot(pivot.id);
+  }
+
+  useValidationStore.setState((state) => {
+    state.rules.set(sheetId, new Map(Object.entries(objects.validation)));
+  });
+
+  useTableStore.setState((state) => {
+    for (const [id, table] of state.tables) {
+      if (table.sheetId === sheetId) state.tables.delete(id);
+    }
+    for (const table of objects.tables) {
+      state.tables.set(table.id, { ...table, sheetId });
+    }
+  });
+
+  useWhatIfStore.setState((state) => {
+    for (const [id, scenario] of state.scenarios) {
+      if (scenario.sheetId === sheetId) state.scenarios.delete(id);
+    }
+    for (const scenario of objects.scenarios) {
+      state.scenarios.set(scenario.id, { ...scenario, sheetId });
+    }
+    for (const [id, table] of state.dataTables) {
+      if (table.sheetId === sheetId) state.dataTables.delete(id);
+    }
+    for (const table of objects.dataTables) {
+      state.dataTables.set(table.id, { ...table, sheetId });
+    }
+  });
+}
+
+/**
+ * Named ranges are spreadsheet-wide, so they are saved separately. Named
+ * functions are stored in the same list, told apart by their `formula`.
+ */
+export function collectNamedRanges(): Array<NamedRange | NamedFunction> {
+  const store = useNamedRangeStore.getState();
+  return clone([...store.getAllRanges(), ...store.getAllFunctions()]);
+}
+
+function isNamedFunction(
+  entry: NamedRange | NamedFunction,
+): entry is NamedFunction {
+  return typeof (entry as NamedFunction).formula === "string";
+}
+
+export function applyNamedRanges(raw: unknown): void {
+  const entries = Array.isArray(raw)
+    ? (raw as Array<NamedRange | NamedFunction>)
+    : [];
+  const ranges = entries.filter((e): e is NamedRange => !isNamedFunction(e));
+  const functions = entries.filter(isNamedFunction);
+  useNamedRangeStore.setState((state) => {
+    state.ranges = new Map(ranges.map((r) => [r.name, r]));
+    state.functions = new Map(functions.map((f) => [f.name.toUpperCase(), f]));
+  });
+}
+
+/** Hydrate every store from a spreadsheet loaded from the server */
+export function hydrateSpreadsheetObjects(spreadsheet: {
+  namedRanges?: unknown;
+  calcSettings?: unknown;
+  sheets: Array<{ id: string; objects?: unknown }>;
+}): void {
+  for (const sheet of spreadsheet.sheets) {
+    applySheetObjects(sheet.id, sheet.objects);
+  }
+  applyNamedRanges(spreadsheet.namedRanges);
+  useFormulaStore
+    .getState()
+    .setCalcSettings(normalizeCalcSettings(spreadsheet.calcSettings));
+}
@@ -0,0 +1,709 @@
+/**
+ * Solver — optimise an objective over several decision variables subject to
+ * constraints. The model is a black box: `evaluate` maps variable values to
+ * the objective and the constraint values, so the same algorithms work on
+ * plain functions and on spreadsheet formulas.
+ *
+ * - "simplex" reads the model's linear coefficients at the start point,
+ *   solves the linear program with a two-phase simplex and branches and
+ *   bounds on integer variables. A model that turns out not to be linear is
+ *   reported rather than solved.
+ * - "nelder-mead" minimises a penalised objective without derivatives, so it
+ *   copes with nonlinear models but only finds a local optimum.
+ */
+
+export type SolverGoal = "max" | "min" | "value";
+
+export type ConstraintOperator = "<=" | ">=" | "=";
+
+export type SolverMethod = "simplex" | "nelder-mead";
+
+export type SolverStatus =
+  | "solved"
+  | "infeasible"
+  | "unbounded"
+  | "not-linear"
+  | "iteration-limit"
+  | "invalid";
+
+export interface SolverProblem {
+  /** Starting values of the decision variables */
+  start: number[];
+  goal: SolverGoal;
+  /** Value the objective should reach when `goal` is "value" */
+  target?: number;
+  /**
+   * Comparison of each constraint; `evaluate` returns the constraint as
+   * `lhs - rhs`, compared against zero
+   */
+  constraints: ConstraintOperator[];
+  /** Indices of the variables restricted to whole numbers */
+  integers: number[];
+  /** Keep every variable at or above zero */
+  nonNegative: boolean;
+  method: SolverMethod;
+  /** Iteration budget (simplex pivots, or Nelder–Mead steps per round) */
+  maxIterations?: number;
+}
+
+export interface SolverEvaluation {
+  objective: number;
+  /** `lhs - rhs` of each constraint, in the problem's order */
+  constraints: number[];
+}
+
+export type SolverEvaluator = (x: number[]) => SolverEvaluation;
+
+export interface SolverResult {
+  status: SolverStatus;
+  /** Best values found; the start values when nothing was found */
+  x: number[];
+  objective: number;
+  iterations: number;
+  message: string;
+}
+
+const EPSILON = 1e-9;
+const FEASIBILITY_TOLERANCE = 1e-6;
+const LINEARITY_TOLERANCE = 1e-6;
+const MAX_BRANCH_NODES = 2000;
+const DEFAULT_MAX_ITERATIONS = 5000;
+
+// ============================================================
+// Linear programming
+// ============================================================
+
+interface LinearRow {
+  coeffs: number[];
+  op: ConstraintOperator;
+  rhs: number;
+}
+
+interface LinearProgram {
+  /** Objective coefficients, maximised */
+  objective: number[];
+  rows: LinearRow[];
+  nonNegative: boolean;
+}
+
+interface LinearSolution {
+  /** "feasible" is the best integer solution found before the limit */
+  status:
+    "optimal" | "feasible" | "infeasible" | "unbounded" | "iteration-limit";
+  x: number[];
+  value: number;
+  iterations: number;
+}
+
+interface Tableau {
+  /** Constraint rows; the last column is the right-hand side */
+  rows: number[][];
+  /** Basic column of each row */
+  basis: number[];
+}
+
+function pivot(tableau: Tableau, row: number, col: number): void {
+  const { rows } = tableau;
+  const pivotRow = rows[row];
+  const factor = pivotRow[col];
+  for (let j = 0; j < pivotRow.length; j++) pivotRow[j] /= factor;
+  for (let i = 0; i < rows.length; i++) {
+    if (i === row) continue;
+    const ratio = rows[i][col];
+    if (Math.abs(ratio) < EPSILON) continue;
+    for (let j = 0; j < pivotRow.length; j++) {
+      rows[i][j] -= ratio * pivotRow[j];
+    }
+  }
+  tableau.basis[row] = col;
+}
+
+/**
+ * Maximise `costs` over the tableau's columns, entering only columns that
+ * pass `canEnter`. Bland's rule keeps degenerate problems from cycling.
+ */
+function runSimplex(
+  tableau: Tableau,
+  costs: number[],
+  canEnter: (col: number) => boolean,
+  budget: { left: number },
+): "optimal" | "unbounded" | "iteration-limit" {
+  const { rows, basis } = tableau;
+  const width = costs.length;
+  for (;;) {
+    let entering = -1;
+    for (let j = 0; j < width && entering < 0; j++) {
+      if (!canEnter(j) || basis.includes(j)) continue;
+      let reduced = costs[j];
+      for (let i = 0; i < rows.length; i++) {
+        reduced -= costs[basis[i]] * rows[i][j];
+      }
+      if (reduced > EPSILON) entering = j;
+    }
+    if (entering < 0) return "optimal";
+    if (budget.left-- <= 0) return "iteration-limit";
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < rows.length; i++) {
+      const coeff = rows[i][entering];
+      if (coeff <= EPSILON) continue;
+      const ratio = rows[i][width] / coeff;
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])
+      ) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving < 0) return "unbounded";
+    pivot(tableau, leaving, entering);
+  }
+}
+
+/** Two-phase simplex over a linear program */
+function solveLinearProgram(
+  lp: LinearProgram,
+  maxIterations: number,
+): LinearSolution {
+  const n = lp.objective.length;
+  // Free variables are split into a positive and a negative part
+  const split = lp.nonNegative ? 1 : 2;
+  const structural = n * split;
+  const expand = (coeffs: number[]) =>
+    lp.nonNegative ? coeffs : [...coeffs, ...coeffs.map((c) => -c)];
+
+  // Right-hand sides must be non-negative, so flip rows that are not
+  const rows = lp.rows.map((row) => {
+    if (row.rhs >= 0) return { ...row, coeffs: expand(row.coeffs) };
+    const op: ConstraintOperator =
+      row.op === "<=" ? ">=" : row.op === ">=" ? "<=" : "=";
+    return {
+      coeffs: expand(row.coeffs.map((c) => -c)),
+      op,
+      rhs: -row.rhs,
+    };
+  });
+
+  const slackCount = rows.filter((r) => r.op !== "=").length;
+  const artificialCount = rows.filter((r) => r.op !== "<=").length;
+  const width = structural + slackCount + artificialCount;
+  const artificialStart = structural + slackCount;
+
+  const tableau: Tableau = { rows: [], basis: [] };
+  let slack = structural;
+  let artificial = artificialStart;
+  for (const row of rows) {
+    const line = new Array<number>(width + 1).fill(0);
+    row.coeffs.forEach((c, j) => (line[j] = c));
+    line[width] = row.rhs;
+    if (row.op === "<=") {
+      line[slack] = 1;
+      tableau.basis.push(slack++);
+    } else {
+      if (row.op === ">=") line[slack++] = -1;
+      line[artificial] = 1;
+      tableau.basis.push(artificial++);
+    }
+    tableau.rows.push(line);
+  }
+
+  const budget = { left: maxIterations };
+  const iterations = () => maxIterations - Math.max(budget.left, 0);
+  const empty = { x: lp.objective.map(() => 0), value: 0 };
+
+  // Phase 1: drive the artificial variables to zero
+  if (artificialCount > 0) {
+    const phaseOne = new Array<number>(width).fill(0);
+    for (let j = artificialStart; j < width; j++) phaseOne[j] = -1;
+    const status = runSimplex(tableau, phaseOne, () => true, budget);
+    if (status === "iteration-limit") {
+      return { status, ...empty, iterations: iterations() };
+    }
+    const infeasibility = tableau.rows.reduce(
+      (sum, line, i) =>
+        tableau.basis[i] >= artificialStart ? sum + line[width] : sum,
+      0,
+    );
+    if (infeasibility > FEASIBILITY_TOLERANCE) {
+      return { status: "infeasible", ...empty, iterations: iterations() };
+    }
+    // Pivot artificials left in the basis at zero out where possible
+    tableau.basis.forEach((col, i) => {
+      if (col < artificialStart) return;
+      const line = tableau.rows[i];
+      for (let j = 0; j < artificialStart; j++) {
+        if (Math.abs(line[j]) > EPSILON) {
+          pivot(tableau, i, j);
+          return;
+        }
+      }
+    });
+  }
+
+  // Phase 2: optimise the real objective
+  const costs = new Array<number>(width).fill(0);
+  expand(lp.objective).forEach((c, j) => (costs[j] = c));
+  const status = runSimplex(
+    tableau,
+    costs,
+    (col) => col < artificialStart,
+    budget,
+  );
+  if (status !== "optimal") {
+    return { status, ...empty, iterations: iterations() };
+  }
+
+  const values = new Array<number>(structural).fill(0);
+  tableau.basis.forEach((col, i) => {
+    if (col < structural) values[col] = tableau.rows[i][width];
+  });
+  // Round off pivoting noise around zero
+  const x = lp.objective.map((_, j) => {
+    const value = lp.nonNegative ? values[j] : values[j] - values[j + n];
+    return Math.abs(value) < EPSILON ? 0 : value;
+  });
+  return {
+    status: "optimal",
+    x,
+    value: dot(lp.objective, x),
+    iterations: iterations(),
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function isWhole(value: number): boolean {
+  return Math.abs(value - Math.round(value)) <= FEASIBILITY_TOLERANCE;
+}
+
+/** Depth-first branch and bound on the integer variables */
+function branchAndBound(
+  lp: LinearProgram,
+  integers: number[],
+  maxIterations: number,
+): LinearSolution {
+  let best: LinearSolution | null = null;
+  let iterations = 0;
+  let nodes = 0;
+  let limited = false;
+  let unbounded = false;
+
+  const explore = (rows: LinearRow[]) => {
+    if (nodes++ >= MAX_BRANCH_NODES || iterations >= maxIterations) {
+      limited = true;
+      return;
+    }
+    const relaxed = solveLinearProgram(
+      { ...lp, rows },
+      maxIterations - iterations,
+    );
+    iterations += relaxed.iterations;
+    if (relaxed.status === "unbounded") unbounded = true;
+    if (relaxed.status === "iteration-limit") limited = true;
+    if (relaxed.status !== "optimal") return;
+    // The relaxation bounds every integer solution below it
+    if (best && relaxed.value <= best.value + EPSILON) return;
+
+    const fractional = integers.find((j) => !isWhole(relaxed.x[j]));
+    if (fractional === undefined) {
+      best = {
+        ...relaxed,
+        x: relaxed.x.map((v, j) =>
+          integers.includes(j) ? Math.round(v) || 0 : v,
+        ),
+      };
+      return;
+    }
+    const value = relaxed.x[fractional];
+    const unit = lp.objective.map((_, j) => (j === fractional ? 1 : 0));
+    explore([...rows, { coeffs: unit, op: "<=", rhs: Math.floor(value) }]);
+    explore([...rows, { coeffs: unit, op: ">=", rhs: Math.ceil(value) }]);
+  };
+
+  explore(lp.rows);
+
+  const found = best as LinearSolution | null;
+  if (found) {
+    return {
+      ...found,
+      status: limited ? "feasible" : "optimal",
+      iterations,
+    };
+  }
+  return {
+    status: unbounded
+      ? "unbounded"
+      : limited
+        ? "iteration-limit"
+        : "infeasible",
+    x: lp.objective.map(() => 0),
+    value: 0,
+    iterations,
+  };
+}
+
+// ============================================================
+// Methods
+// ============================================================
+
+function isFiniteEvaluation(evaluation: SolverEvaluation): boolean {
+  return (
+    Number.isFinite(evaluation.objective) &&
+    evaluation.constraints.every(Number.isFinite)
+  );
+}
+
+function invalid(problem: SolverProblem, message: string): SolverResult {
+  return {
+    status: "invalid",
+    x: [...problem.start],
+    objective: NaN,
+    iterations: 0,
+    message,
+  };
+}
+
+const NOT_A_NUMBER =
+  "The objective or a constraint does not evaluate to a number";
+
+/** Linear coefficients of every model output, from unit steps */
+function linearize(
+  problem: SolverProblem,
+  evaluate: SolverEvaluator,
+): { at: SolverEvaluation; gradients: number[][] } | null {
+  const at = evaluate(problem.start);
+  if (!isFiniteEvaluation(at)) return null;
+  const outputs = [at.objective, ...at.constraints];
+  const gradients = outputs.map(() => new Array<number>(0));
+  for (let j = 0; j < problem.start.length; j++) {
+    const stepped = [...problem.start];
+    stepped[j] += 1;
+    const next = evaluate(stepped);
+    if (!isFiniteEvaluation(next)) return null;
+    [next.objective, ...next.constraints].forEach((value, k) =>
+      gradients[k].push(value - outputs[k]),
+    );
+  }
+  return { at, gradients };
+}
+
+function solveSimplex(
+  problem: SolverProblem,
+  evaluate: SolverEvaluator,
+): SolverResult {
+  const model = linearize(problem, evaluate);
+  if (!model) return invalid(problem, NOT_A_NUMBER);
+  const { at, gradients } = model;
+  const start = problem.start;
+  // Constant term of each output: value at the start minus its slope part
+  const constant = (k: number, value: number) =>
+    value - dot(gradients[k], start);
+
+  const objective = gradients[0];
+  const rows: LinearRow[] = problem.constraints.map((op, i) => ({
+    coeffs: gradients[i + 1],
+    op,
+    rhs: -constant(i + 1, at.constraints[i]),
+  }));
+  // Hitting a value is a feasibility problem with the objective as a row
+  if (problem.goal === "value") {
+    rows.push({
+      coeffs: objective,
+      op: "=",
+      rhs: (problem.target ?? 0) - constant(0, at.objective),
+    });
+  }
+  const sign = problem.goal === "min" ? -1 : 1;
+  const lp: LinearProgram = {
+    objective:
+      problem.goal === "value"
+        ? objective.map(() => 0)
+        : objective.map((c) => sign * c),
+    rows,
+    nonNegative: problem.nonNegative,
+  };
+
+  const maxIterations = problem.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const solution =
+    problem.integers.length > 0
+      ? branchAndBound(lp, problem.integers, maxIterations)
+      : solveLinearProgram(lp, maxIterations);
+
+  if (solution.status === "infeasible") {
+    return {
+      status: "infeasible",
+      x: [...start],
+      objective: at.objective,
+      iterations: solution.iterations,
+      message: "No values satisfy all the constraints",
+    };
+  }
+  if (solution.status === "unbounded") {
+    return {
+      status: "unbounded",
+      x: [...start],
+      objective: at.objective,
+      iterations: solution.iterations,
+      message: "The objective can grow without limit; add constraints",
+    };
+  }
+  if (solution.status === "iteration-limit") {
+    return {
+      status: "iteration-limit",
+      x: [...start],
+      objective: at.objective,
+      iterations: solution.iterations,
+      message: "Stopped before finding a solution",
+    };
+  }
+
+  // The linear model was read at one point; check it holds at the answer
+  const final = evaluate(solution.x);
+  const predicted = [at.objective, ...at.constraints].map(
+    (value, k) => constant(k, value) + dot(gradients[k], solution.x),
+  );
+  const actual = [final.objective, ...final.constraints];
+  const linear = actual.every(
+    (value, k) =>
+      Math.abs(value - predicted[k]) <=
+      LINEARITY_TOLERANCE * Math.max(1, Math.abs(predicted[k])),
+  );
+  if (!linear) {
+    return {
+      status: "not-linear",
+      x: [...start],
+      objective: at.objective,
+      iterations: solution.iterations,
+      message:
+        "The model is not linear; use the Nelder–Mead method instead of simplex",
+    };
+  }
+
+  return {
+    status: solution.status === "optimal" ? "solved" : "iteration-limit",
+    x: solution.x,
+    objective: final.objective,
+    iterations: solution.iterations,
+    message:
+      solution.status === "optimal"
+        ? "Solver found an optimal solution that satisfies all constraints"
+        : "Stopped at the iteration limit; this is the best solution so far",
+  };
+}
+
+/** Total constraint violation, squared, including non-negativity */
+function violation(
+  problem: SolverProblem,
+  x: number[],
+  evaluation: SolverEvaluation,
+): number {
+  let total = 0;
+  problem.constraints.forEach((op, i) => {
+    const g = evaluation.constraints[i];
+    const miss =
+      op === "<=" ? Math.max(0, g) : op === ">=" ? Math.max(0, -g) : g;
+    total += miss * miss;
+  });
+  if (problem.nonNegative) {
+    for (const v of x) if (v < 0) total += v * v;
+  }
+  return total;
+}
+
+function isFeasible(
+  problem: SolverProblem,
+  x: number[],
+  evaluation: SolverEvaluation,
+): boolean {
+  return (
+    Math.sqrt(violation(problem, x, evaluation)) <=
+    FEASIBILITY_TOLERANCE * Math.max(1, ...x.map(Math.abs))
+  );
+}
+
+/** Minimise `f` from `start` with the Nelder–Mead simplex */
+function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  maxIterations: number,
+): { x: number[]; value: number; iterations: number } {
+  const n = start.length;
+  const points = [start];
+  for (let j = 0; j < n; j++) {
+    const point = [...start];
+    point[j] += Math.abs(point[j]) > EPSILON ? 0.1 * Math.abs(point[j]) : 0.5;
+    points.push(point);
+  }
+  let vertices = points.map((x) => ({ x, value: f(x) }));
+  const combine = (a: number[], b: number[], t: number) =>
+    a.map((v, j) => v + t * (b[j] - v));
+
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    vertices.sort((a, b) => a.value - b.value);
+    const best = vertices[0];
+    const worst = vertices[n];
+    const size = Math.max(
+      ...vertices.map((v) =>
+        Math.max(...v.x.map((value, j) => Math.abs(value - best.x[j]))),
+      ),
+    );
+    if (size <= 1e-9 * Math.max(1, ...best.x.map(Math.abs))) break;
+
+    const centroid = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      vertices[i].x.forEach((v, j) => (centroid[j] += v / n));
+    }
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = f(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = f(expanded);
+      vertices[n] =
+        expandedValue < reflectedValue
+          ? { x: expanded, value: expandedValue }
+          : { x: reflected, value: reflectedValue };
+      continue;
+    }
+    if (reflectedValue < vertices[n - 1].value) {
+      vertices[n] = { x: reflected, value: reflectedValue };
+      continue;
+    }
+    const outside = reflectedValue < worst.value;
+    const contracted = outside
+      ? combine(centroid, reflected, 0.5)
+      : combine(centroid, worst.x, 0.5);
+    const contractedValue = f(contracted);
+    if (contractedValue < Math.min(reflectedValue, worst.value)) {
+      vertices[n] = { x: contracted, value: contractedValue };
+      continue;
+    }
+    // Shrink everything toward the best vertex
+    vertices = vertices.map((v, i) => {
+      if (i === 0) return v;
+      const x = combine(best.x, v.x, 0.5);
+      return { x, value: f(x) };
+    });
+  }
+  vertices.sort((a, b) => a.value - b.value);
+  return { x: vertices[0].x, value: vertices[0].value, iterations };
+}
+
+function solveNelderMead(
+  problem: SolverProblem,
+  evaluate: SolverEvaluator,
+): SolverResult {
+  const initial = evaluate(problem.start);
+  if (!isFiniteEvaluation(initial)) return invalid(problem, NOT_A_NUMBER);
+
+  const target = problem.target ?? 0;
+  const goalValue = (objective: number) =>
+    problem.goal === "max"
+      ? -objective
+      : problem.goal === "min"
+        ? objective
+        : (objective - target) * (objective - target);
+  const penalised = (weight: number, fixed: Map<number, number>) => {
+    return (x: number[]) => {
+      const full = withFixed(x, fixed);
+      const evaluation = evaluate(full);
+      if (!isFiniteEvaluation(evaluation)) return Infinity;
+      return (
+        goalValue(evaluation.objective) +
+        weight * violation(problem, full, evaluation)
+      );
+    };
+  };
+
+  const maxIterations =
+    problem.maxIterations ?? 500 * Math.max(problem.start.length, 1);
+  let iterations = 0;
+  let limited = false;
+
+  // Raise the penalty until the constraints hold
+  const minimise = (start: number[], fixed: Map<number, number>) => {
+    let x = start;
+    for (let weight = 10; weight <= 1e10; weight *= 100) {
+      const round = nelderMead(penalised(weight, fixed), x, maxIterations);
+      iterations += round.iterations;
+      limited = round.iterations >= maxIterations;
+      x = round.x;
+    }
+    return x;
+  };
+
+  let x = minimise([...problem.start], new Map());
+
+  // Whole-number variables are rounded, then the rest re-optimised
+  if (problem.integers.length > 0) {
+    const fixed = new Map(
+      problem.integers.map((j) => [j, Math.round(x[j]) || 0]),
+    );
+    const rest = x.filter((_, j) => !fixed.has(j));
+    x = withFixed(rest.length > 0 ? minimise(rest, fixed) : [], fixed);
+  }
+
+  const final = evaluate(x);
+  if (!isFiniteEvaluation(final)) return invalid(problem, NOT_A_NUMBER);
+  if (!isFeasible(problem, x, final)) {
+    return {
+      status: "infeasible",
+      x: [...problem.start],
+      objective: initial.objective,
+      iterations,
+      message: "Solver could not find values that satisfy all the constraints",
+    };
+  }
+  if (
+    problem.goal === "value" &&
+    Math.abs(final.objective - target) >
+      FEASIBILITY_TOLERANCE * Math.max(1, Math.abs(target))
+  ) {
+    return {
+      status: limited ? "iteration-limit" : "infeasible",
+      x,
+      objective: final.objective,
+      iterations,
+      message: "Solver could not make the objective reach the target value",
+    };
+  }
+  return {
+    status: limited ? "iteration-limit" : "solved",
+    x,
+    objective: final.objective,
+    iterations,
+    message: limited
+      ? "Stopped at the iteration limit; this is the best solution so far"
+      : "Solver converged to a solution that satisfies all constraints. It may be a local optimum",
+  };
+}
+
+/** Fill fixed variables back in around the free ones, in index order */
+function withFixed(free: number[], fixed: Map<number, number>): number[] {
+  if (fixed.size === 0) return free;
+  const full: number[] = [];
+  let next = 0;
+  for (let j = 0; j < free.length + fixed.size; j++) {
+    full.push(fixed.has(j) ? fixed.get(j)! : free[next++]);
+  }
+  return full;
+}
+
+/** Solve a problem with the method it asks for */
+export function solve(
+  problem: SolverProblem,
+  evaluate: SolverEvaluator,
+): SolverResult {
+  if (problem.start.length === 0) {
+    return invalid(problem, "Add at least one changing cell");
+  }
+  return problem.method === "simplex"
+    ? solveSimplex(problem, evaluate)
+    : solveNelderMead(problem, evaluate);
+}
@@ -0,0 +1,247 @@
+/**
+ * Solver model — binds the Solver to the sheet. Trial values for the
+ * changing cells are evaluated through the formula store's recalculation
+ * without touching the cells; a kept solution is written back as one
+ * undoable change.
+ */
+import type { FormulaValue } from "@gridspace/formula";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useHistoryStore } from "../stores/historyStore";
+import type { CellPosition } from "../types/grid";
+import { cellRefToPosition, positionToCellRef } from "./coordinates";
+import { solve } from "./solver";
+import {
+  cellKeyOf,
+  evaluateWith,
+  parseCellList,
+  settleFormulaCache,
+  writeCellValues,
+} from "./whatIf";
+import type {
+  ConstraintOperator,
+  SolverGoal,
+  SolverMethod,
+  SolverResult,
+} from "./solver";
+
+/** Most changing cells one model may have */
+export const MAX_CHANGING_CELLS = 200;
+
+export interface SolverConstraint {
+  /** Cell or range the constraint applies to */
+  cell: string;
+  /** "int" restricts changing cells to whole numbers */
+  op: ConstraintOperator | "int";
+  /** A number, a cell, or a range the size of `cell` */
+  value: string;
+}
+
+export interface SolverModel {
+  objective: string;
+  goal: SolverGoal;
+  /** Value the objective should reach when `goal` is "value" */
+  target?: number;
+  /** Cells and ranges, comma separated, e.g. "B2:B4, D2" */
+  changingCells: string;
+  constraints: SolverConstraint[];
+  nonNegative: boolean;
+  method: SolverMethod;
+}
+
+export interface SolverRun {
+  result: SolverResult;
+  /** Changing cells, in the order of `result.x` */
+  cells: CellPosition[];
+  /** Their values before solving */
+  original: number[];
+}
+
+/** A cell value as a number; text that is not numeric is NaN */
+function toNumber(value: FormulaValue | undefined): number {
+  if (value === null || value === undefined || value === "") return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (Array.isArray(value)) return NaN;
+  return Number(value);
+}
+
+interface ConstraintRow {
+  lhs: CellPosition;
+  op: ConstraintOperator;
+  /** A constant, or the cell to compare against */
+  rhs: number | CellPosition;
+}
+
+/** Check a model against the sheet and turn its constraints into rows */
+function prepare(
+  sheetId: string,
+  model: SolverModel,
+): {
+  objective: CellPosition;
+  cells: CellPosition[];
+  rows: ConstraintRow[];
+  integers: number[];
+} {
+  let objective: CellPosition;
+  try {
+    objective = cellRefToPosition(model.objective.trim().replace(/\$/g, ""));
+  } catch {
+    throw new Error("Invalid objective cell");
+  }
+  let cells: CellPosition[];
+  try {
+    cells = parseCellList(model.changingCells);
+  } catch {
+    throw new Error("Invalid changing cells");
+  }
+  // A cell listed twice is still one variable
+  const seen = new Set<string>();
+  cells = cells.filter((pos) => {
+    const key = cellKeyOf(pos);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (cells.length === 0) throw new Error("Enter the cells to change");
+  if (cells.length > MAX_CHANGING_CELLS) {
+    throw new Error(
+      `Solver supports up to ${MAX_CHANGING_CELLS} changing cells`,
+    );
+  }
+
+  const cellStore = useCellStore.getState();
+  if (!cellStore.getCell(sheetId, objective.row, objective.col)?.formula) {
+    throw new Error("The objective cell must contain a formula");
+  }
+  const keys = cells.map(cellKeyOf);
+  for (const pos of cells) {
+    if (cellStore.getCell(sheetId, pos.row, pos.col)?.formula) {
+      throw new Error(
+        `Changing cell ${positionToCellRef(pos)} contains a formula`,
+      );
+    }
+  }
+  const graph = useFormulaStore.getState().dependencyGraph;
+  const objectiveKey = cellKeyOf(objective);
+  if (!keys.some((key) => graph.getAllDependents(key).has(objectiveKey))) {
+    throw new Error("The objective cell does not depend on the changing cells");
+  }
+
+  const rows: ConstraintRow[] = [];
+  const integers = new Set<number>();
+  for (const constraint of model.constraints) {
+    let lhs: CellPosition[];
+    try {
+      lhs = parseCellList(constraint.cell);
+    } catch {
+      lhs = [];
+    }
+    if (lhs.length === 0) {
+      throw new Error(`Invalid constraint cell "${constraint.cell}"`);
+    }
+
+    if (constraint.op === "int") {
+      for (const pos of lhs) {
+        const index = keys.indexOf(cellKeyOf(pos));
+        if (index < 0) {
+          throw new Error("Integer constraints apply only to changing cells");
+        }
+        integers.add(index);
+      }
+      continue;
+    }
+
+    const op = constraint.op;
+    const value = constraint.value.trim();
+    const constant = Number(value);
+    if (value !== "" && !isNaN(constant)) {
+      for (const pos of lhs) rows.push({ lhs: pos, op, rhs: constant });
+      continue;
+    }
+    let rhs: CellPosition[];
+    try {
+      rhs = parseCellList(value);
+    } catch {
+      rhs = [];
+    }
+    if (rhs.length !== 1 && rhs.length !== lhs.length) {
+      throw new Error(
+        `Constraint on ${constraint.cell} needs a number, a cell or a range of the same size`,
+      );
+    }
+    lhs.forEach((pos, i) =>
+      rows.push({ lhs: pos, op, rhs: rhs.length === 1 ? rhs[0] : rhs[i] }),
+    );
+  }
+
+  return { objective, cells, rows, integers: [...integers] };
+}
+
+/**
+ * Solve a model on a sheet. Cells are left unchanged; throws an Error that
+ * explains what is wrong with the model.
+ */
+export function runSolver(sheetId: string, model: SolverModel): SolverRun {
+  const { objective, cells, rows, integers } = prepare(sheetId, model);
+  const keys = cells.map(cellKeyOf);
+  const cellStore = useCellStore.getState();
+  const original = cells.map((pos) => {
+    const value = toNumber(cellStore.getCell(sheetId, pos.row, pos.col)?.value);
+    return Number.isFinite(value) ? value : 0;
+  });
+
+  const evaluate = (x: number[]) => {
+    const read = evaluateWith(
+      sheetId,
+      new Map(keys.map((key, i) => [key, x[i]])),
+    );
+    const valueAt = (pos: CellPosition) =>
+      toNumber(read(undefined, pos.col, pos.row));
+    return {
+      objective: valueAt(objective),
+      constraints: rows.map(
+        (row) =>
+          valueAt(row.lhs) -
+          (typeof row.rhs === "number" ? row.rhs : valueAt(row.rhs)),
+      ),
+    };
+  };
+
+  try {
+    const result = solve(
+      {
+        start: original,
+        goal: model.goal,
+        target: model.target,
+        constraints: rows.map((row) => row.op),
+        integers,
+        nonNegative: model.nonNegative,
+        method: model.method,
+      },
+      evaluate,
+    );
+    return { result, cells, original };
+  } finally {
+    settleFormulaCache(sheetId, keys);
+  }
+}
+
+/**
+ * Write solved values into the changing cells and recalculate what depends
+ * on them, as a single undo step on the active sheet.
+ */
+export function applySolverSolution(
+  sheetId: string,
+  cells: CellPosition[],
+  values: number[],
+): void {
+  useHistoryStore.getState().pushUndo();
+  writeCellValues(
+    sheetId,
+    cells.map((pos, i) => ({
+      ...pos,
+      value: Math.round(values[i] * 1e10) / 1e10,
+    })),
+  );
+}
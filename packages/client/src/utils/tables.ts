@@ -0,0 +1,62 @@
+/**
+ * Keeps formulas that use structured table references in step with their
+ * tables. A table that grows, shrinks or gains a totals row covers different
+ * cells, so its formulas are re-linked and re-evaluated.
+ */
+import {
+  bindStructuredReferences,
+  cellId,
+  evaluate,
+  hasStructuredReferences,
+  parseFormula,
+  resetLambdaRegistry,
+} from "@gridspace/formula";
+import type { FormulaValue } from "@gridspace/formula";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import { useSpreadsheetStore } from "../stores/spreadsheetStore";
+import { useTableStore } from "../stores/tableStore";
+import { storeValueGetter } from "./formulaAudit";
+
+/**
+ * Re-evaluate every formula in the workbook that refers to a table, and
+ * re-link those on the active sheet in the dependency graph.
+ */
+export function refreshTableFormulas(): void {
+  const { sheets, activeSheetId } = useSpreadsheetStore.getState();
+  const definitions = useTableStore.getState().getDefinitions();
+  const formulas = useFormulaStore.getState();
+
+  for (const [sheetId, sheetCells] of useCellStore.getState().cells) {
+    const sheet = sheets.find((s) => s.id === sheetId)?.name ?? sheetId;
+    const getCellValue = storeValueGetter(sheetId);
+
+    for (const [key, cell] of sheetCells) {
+      if (!cell.formula?.startsWith("=") || !cell.formula.includes("[")) {
+        continue;
+      }
+      const [row, col] = key.split(",").map(Number);
+
+      let result: FormulaValue;
+      try {
+        const ast = parseFormula(cell.formula.slice(1));
+        if (!hasStructuredReferences(ast)) continue;
+        resetLambdaRegistry();
+        result = evaluate(
+          bindStructuredReferences(ast, definitions, { sheet, row, col }),
+          getCellValue,
+        );
+      } catch {
+        result = "#VALUE!";
+      }
+
+      if (sheetId === activeSheetId) {
+        formulas.updateDependencies(cellId(undefined, col, row), cell.formula);
+      }
+      const value = Array.isArray(result) ? (result[0]?.[0] ?? null) : result;
+      if (value !== cell.value) {
+        useCellStore.getState().setCell(sheetId, row, col, { ...cell, value });
+      }
+    }
+  }
+}
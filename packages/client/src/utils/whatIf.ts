@@ -0,0 +1,330 @@
+/**
+ * What-if analysis — evaluate a sheet with some cells set to other values
+ * through the formula store's recalculation, without touching the cells.
+ * The Solver, scenarios and data tables are built on this.
+ */
+import { cellId, parseCellId } from "@gridspace/formula";
+import type { CellValueGetter, FormulaValue } from "@gridspace/formula";
+import { useCellStore } from "../stores/cellStore";
+import { useFormulaStore } from "../stores/formulaStore";
+import type {
+  CellData,
+  CellPosition,
+  DataTableConfig,
+  Scenario,
+  ScenarioCell,
+} from "../types/grid";
+import { cellRefToPosition, positionToCellRef } from "./coordinates";
+import { storeValueGetter } from "./formulaAudit";
+
+type CellValue = CellData["value"];
+
+export function cellKeyOf(pos: CellPosition): string {
+  return cellId(undefined, pos.col, pos.row);
+}
+
+/** Parse "A1:B2, C3" into its cells, row by row; throws on a bad reference */
+export function parseCellList(input: string): CellPosition[] {
+  const cells: CellPosition[] = [];
+  for (const part of input.split(/[,;]/)) {
+    const ref = part.trim().replace(/\$/g, "");
+    if (!ref) continue;
+    const [first, last = first] = ref.split(":");
+    const start = cellRefToPosition(first.trim());
+    const end = cellRefToPosition(last.trim());
+    for (
+      let row = Math.min(start.row, end.row);
+      row <= Math.max(start.row, end.row);
+      row++
+    ) {
+      for (
+        let col = Math.min(start.col, end.col);
+        col <= Math.max(start.col, end.col);
+        col++
+      ) {
+        cells.push({ row, col });
+      }
+    }
+  }
+  return cells;
+}
+
+/** A formula result as a cell value; arrays show their first item */
+function toCellValue(value: FormulaValue): CellValue {
+  return Array.isArray(value) ? (value[0]?.[0] ?? null) : value;
+}
+
+/**
+ * Recalculate everything that depends on the `overrides` cells with those
+ * values in place. Returns a reader over the result and the recalculated
+ * cells; the cell store is not written.
+ */
+function recalculate(
+  sheetId: string,
+  overrides: Map<string, FormulaValue>,
+  changed: string[] = [...overrides.keys()],
+): { read: CellValueGetter; computed: Map<string, FormulaValue> } {
+  const stored = storeValueGetter(sheetId);
+  const computed = new Map<string, FormulaValue>();
+  const read: CellValueGetter = (sheet, col, row) => {
+    if (sheet === undefined) {
+      const key = cellId(undefined, col, row);
+      if (overrides.has(key)) return overrides.get(key)!;
+      if (computed.has(key)) return computed.get(key)!;
+    }
+    return stored(sheet, col, row);
+  };
+  read.spillRange = stored.spillRange;
+  read.namedFormula = stored.namedFormula;
+
+  const getFormula = (key: string) => {
+    try {
+      const parsed = parseCellId(key);
+      return useCellStore
+        .getState()
+        .getCell(parsed.sheet ?? sheetId, parsed.row, parsed.col)?.formula;
+    } catch {
+      return undefined;
+    }
+  };
+  for (const key of changed) {
+    const results = useFormulaStore
+      .getState()
+      .recalculate(key, getFormula, read);
+    for (const [cell, value] of results) computed.set(cell, value);
+  }
+  return { read, computed };
+}
+
+/** Read the sheet as if the `overrides` cells held those values */
+export function evaluateWith(
+  sheetId: string,
+  overrides: Map<string, FormulaValue>,
+): CellValueGetter {
+  return recalculate(sheetId, overrides).read;
+}
+
+/**
+ * Trial evaluations leave their values in the formula cache; recalculate
+ * from the stored values of `keys` to put it back.
+ */
+export function settleFormulaCache(sheetId: string, keys: string[]): void {
+  recalculate(sheetId, new Map(), keys);
+}
+
+/**
+ * Write values into cells and recalculate the formulas that depend on
+ * them. Callers push the undo step.
+ */
+export function writeCellValues(sheetId: string, cells: ScenarioCell[]): void {
+  const cellStore = useCellStore.getState();
+  for (const { row, col, value } of cells) {
+    const existing = cellStore.getCell(sheetId, row, col);
+    cellStore.setCell(sheetId, row, col, { ...existing, value });
+  }
+
+  const { computed } = recalculate(sheetId, new Map(), cells.map(cellKeyOf));
+  for (const [key, value] of computed) {
+    // Spilled results keep their anchor value from the grid's last pass
+    if (Array.isArray(value)) continue;
+    try {
+      const parsed = parseCellId(key);
+      const sid = parsed.sheet ?? sheetId;
+      const cell = useCellStore.getState().getCell(sid, parsed.row, parsed.col);
+      if (!cell) continue;
+      useCellStore
+        .getState()
+        .setCell(sid, parsed.row, parsed.col, { ...cell, value });
+    } catch {
+      // Skip invalid cell keys
+    }
+  }
+}
+
+// ============================================================
+// Data tables
+// ============================================================
+
+/**
+ * Why a data table cannot be built, or null when it can. `others` are the
+ * sheet's existing data tables.
+ */
+export function validateDataTable(
+  table: Omit<DataTableConfig, "id">,
+  others: DataTableConfig[] = [],
+): string | null {
+  const { sheetId, startRow, startCol, endRow, endCol, rowInput, colInput } =
+    table;
+  if (!rowInput && !colInput) {
+    return "Enter a row input cell, a column input cell or both";
+  }
+  if (endRow - startRow < 1 || endCol - startCol < 1) {
+    return "Select at least two rows and two columns";
+  }
+  if (
+    others.some(
+      (t) =>
+        t.startRow <= endRow &&
+        t.endRow >= startRow &&
+        t.startCol <= endCol &&
+        t.endCol >= startCol,
+    )
+  ) {
+    return "The range overlaps another data table";
+  }
+  const cellStore = useCellStore.getState();
+  for (const row of range(startRow + 1, endRow)) {
+    for (const col of range(startCol + 1, endCol)) {
+      if (cellStore.getCell(sheetId, row, col)?.formula) {
+        return "Clear the formulas from the result cells of the table";
+      }
+    }
+  }
+  for (const input of [rowInput, colInput]) {
+    if (!input) continue;
+    if (
+      input.row >= startRow &&
+      input.row <= endRow &&
+      input.col >= startCol &&
+      input.col <= endCol
+    ) {
+      return "Input cells must be outside the data table";
+    }
+    if (cellStore.getCell(sheetId, input.row, input.col)?.formula) {
+      return `Input cell ${positionToCellRef(input)} contains a formula`;
+    }
+  }
+  const formulas =
+    rowInput && colInput
+      ? [{ row: startRow, col: startCol }]
+      : colInput
+        ? range(startCol + 1, endCol).map((col) => ({ row: startRow, col }))
+        : range(startRow + 1, endRow).map((row) => ({ row, col: startCol }));
+  if (
+    !formulas.some(
+      (pos) => cellStore.getCell(sheetId, pos.row, pos.col)?.formula,
+    )
+  ) {
+    return rowInput && colInput
+      ? "Put the formula in the top-left cell of the table"
+      : colInput
+        ? "Put the formulas in the top row of the table"
+        : "Put the formulas in the left column of the table";
+  }
+  return null;
+}
+
+function range(from: number, to: number): number[] {
+  const values: number[] = [];
+  for (let i = from; i <= to; i++) values.push(i);
+  return values;
+}
+
+/**
+ * Recompute a data table: every result cell is its formula evaluated with
+ * the input cells set to that row's and column's values.
+ */
+export function computeDataTable(table: DataTableConfig): ScenarioCell[] {
+  const { sheetId, startRow, startCol, endRow, endCol, rowInput, colInput } =
+    table;
+  const stored = storeValueGetter(sheetId);
+  const valueAt = (row: number, col: number) => stored(undefined, col, row);
+  const inputs = [rowInput, colInput].filter(
+    (pos): pos is CellPosition => pos !== null,
+  );
+
+  const results: ScenarioCell[] = [];
+  for (const row of range(startRow + 1, endRow)) {
+    for (const col of range(startCol + 1, endCol)) {
+      const overrides = new Map<string, FormulaValue>();
+      if (rowInput) overrides.set(cellKeyOf(rowInput), valueAt(startRow, col));
+      if (colInput) overrides.set(cellKeyOf(colInput), valueAt(row, startCol));
+      // The formula is in the corner, the top row or the left column
+      const formula =
+        rowInput && colInput
+          ? { row: startRow, col: startCol }
+          : colInput
+            ? { row: startRow, col }
+            : { row, col: startCol };
+      const read = evaluateWith(sheetId, overrides);
+      results.push({
+        row,
+        col,
+        value: toCellValue(read(undefined, formula.col, formula.row)),
+      });
+    }
+  }
+  settleFormulaCache(sheetId, inputs.map(cellKeyOf));
+  return results;
+}
+
+// ============================================================
+// Scenarios
+// ============================================================
+
+/**
+ * Rows of a scenario summary: the changing cells and the result cells under
+ * the current values and under each scenario.
+ */
+export function buildScenarioSummary(
+  sheetId: string,
+  scenarios: Scenario[],
+  resultCells: CellPosition[],
+): CellValue[][] {
+  const stored = storeValueGetter(sheetId);
+  const current = (pos: CellPosition) =>
+    toCellValue(stored(undefined, pos.col, pos.row));
+
+  // Every cell any scenario changes, in first-seen order
+  const changing: CellPosition[] = [];
+  const seen = new Set<string>();
+  for (const scenario of scenarios) {
+    for (const cell of scenario.cells) {
+      const key = cellKeyOf(cell);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      changing.push({ row: cell.row, col: cell.col });
+    }
+  }
+
+  const results = scenarios.map((scenario) => {
+    const read = evaluateWith(
+      sheetId,
+      new Map(scenario.cells.map((c) => [cellKeyOf(c), c.value])),
+    );
+    return resultCells.map((pos) =>
+      toCellValue(read(undefined, pos.col, pos.row)),
+    );
+  });
+  settleFormulaCache(sheetId, changing.map(cellKeyOf));
+
+  const valueIn = (scenario: Scenario, pos: CellPosition) =>
+    scenario.cells.find((c) => c.row === pos.row && c.col === pos.col)?.value ??
+    current(pos);
+
+  const rows: CellValue[][] = [
+    ["Scenario Summary"],
+    [null, "Current Values", ...scenarios.map((s) => s.name)],
+    ["Changing Cells:"],
+    ...changing.map((pos) => [
+      positionToCellRef(pos),
+      current(pos),
+      ...scenarios.map((s) => valueIn(s, pos)),
+    ]),
+  ];
+  if (resultCells.length > 0) {
+    rows.push(["Result Cells:"]);
+    resultCells.forEach((pos, i) =>
+      rows.push([
+        positionToCellRef(pos),
+        current(pos),
+        ...results.map((values) => values[i]),
+      ]),
+    );
+  }
+  rows.push(
+    [],
+    ["Current Values shows the changing cells when the summary was created."],
+  );
+  return rows;
+}
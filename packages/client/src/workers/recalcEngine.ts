@@ -0,0 +1,409 @@
+/**
+ * Incremental recalculation engine hosted by the formula worker.
+ * Keeps a mirror of every sheet's values and formulas plus a dependency
+ * graph, and re-evaluates only the dependents of changed cells with the
+ * shared parser and evaluator. Array results spill from their anchor as
+ * on the main thread, so formulas reading spilled cells see their values.
+ * Pure module — no DOM, no stores — so it can be tested without a worker.
+ */
+import {
+  parseFormula,
+  bindStructuredReferences,
+  hasStructuredReferences,
+  evaluate,
+  extractReferences,
+  resetLambdaRegistry,
+  DependencyGraph,
+  spillResult,
+  spillCells,
+  iterateCalculation,
+  DEFAULT_CALC_SETTINGS,
+} from "@gridspace/formula";
+import type {
+  ASTNode,
+  FormulaValue,
+  CellValueGetter,
+  SpillArea,
+  CalcSettings,
+  TableDefinition,
+} from "@gridspace/formula";
+
+export interface WorkerCell {
+  value: string | number | boolean | null;
+  formula?: string;
+}
+
+export interface CellPosition {
+  sheetId: string;
+  row: number;
+  col: number;
+}
+
+/** A cell written on the main thread; `cell: null` means it was deleted */
+export interface CellChange extends CellPosition {
+  cell: WorkerCell | null;
+}
+
+/** `value` is the full array for a spill anchor, laid out by the caller */
+export interface RecalcResult extends CellPosition {
+  value: FormulaValue;
+}
+
+export interface SheetInfo {
+  id: string;
+  name: string;
+}
+
+function nodeId(sheetId: string, row: number, col: number): string {
+  return `${sheetId}!${row},${col}`;
+}
+
+function parseNodeId(id: string): CellPosition {
+  const bang = id.lastIndexOf("!");
+  const [row, col] = id
+    .slice(bang + 1)
+    .split(",")
+    .map(Number);
+  return { sheetId: id.slice(0, bang), row, col };
+}
+
+function isFormula(cell: WorkerCell | undefined): cell is WorkerCell & {
+  formula: string;
+} {
+  return typeof cell?.formula === "string" && cell.formula.startsWith("=");
+}
+
+/** Plain value of a cell as the formula engine sees it (matches Grid) */
+function toFormulaValue(value: WorkerCell["value"] | undefined): FormulaValue {
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return isNaN(num) ? value : num;
+}
+
+export class RecalcEngine {
+  /** sheetId → "row,col" → cell */
+  private cells = new Map<string, Map<string, WorkerCell>>();
+  /** Lowercased sheet name → sheetId, for cross-sheet references */
+  private sheetIds = new Map<string, string>();
+  /** sheetId → sheet name, for binding structured references */
+  private sheetNames = new Map<string, string>();
+  /** Tables, placed by sheet name, for structured references */
+  private tables: TableDefinition[] = [];
+  private graph = new DependencyGraph();
+  /** Anchor node id → unblocked spill area and its values */
+  private spills = new Map<
+    string,
+    { area: SpillArea; values: FormulaValue[][] }
+  >();
+  /** Covered node id → anchor node id */
+  private spillTargets = new Map<string, string>();
+  /** Upper-case defined name → formula, for named LAMBDAs */
+  private namedFunctions = new Map<string, string>();
+  private calcSettings: CalcSettings = { ...DEFAULT_CALC_SETTINGS };
+
+  /** Replace all mirrored state */
+  load(sheets: SheetInfo[], cells: CellChange[]): void {
+    this.cells.clear();
+    this.graph.clear();
+    this.spills.clear();
+    this.spillTargets.clear();
+    this.setSheets(sheets);
+    this.applyChanges(cells);
+
+    // Spilled values are not stored in cells, so evaluate every formula once
+    // to lay out the spills formulas may read
+    this.recalculate(
+      cells.filter((change) => isFormula(change.cell ?? undefined)),
+    );
+  }
+
+  /** Update sheet names; formulas are re-linked if a name changed */
+  setSheets(sheets: SheetInfo[]): void {
+    const next = new Map(sheets.map((s) => [s.name.toLowerCase(), s.id]));
+    const changed =
+      next.size !== this.sheetIds.size ||
+      Array.from(next).some(([name, id]) => this.sheetIds.get(name) !== id);
+    this.sheetIds = next;
+    this.sheetNames = new Map(sheets.map((s) => [s.id, s.name]));
+    if (!changed) return;
+    this.relink(() => true);
+  }
+
+  /**
+   * Replace the table layout. Formulas with structured references are
+   * re-linked, since their tables may now cover different cells.
+   */
+  setTables(tables: TableDefinition[]): void {
+    this.tables = tables;
+    this.relink((cell) => cell.formula?.includes("[") ?? false);
+  }
+
+  private relink(filter: (cell: WorkerCell) => boolean): void {
+    for (const [sheetId, sheetCells] of this.cells) {
+      for (const [key, cell] of sheetCells) {
+        if (!filter(cell)) continue;
+        const [row, col] = key.split(",").map(Number);
+        this.link(nodeId(sheetId, row, col), sheetId, cell);
+      }
+    }
+  }
+
+  /** Parse a cell's formula, binding structured references to its tables */
+  private parse(id: string, formula: string): ASTNode {
+    const ast = parseFormula(formula.slice(1));
+    if (!hasStructuredReferences(ast)) return ast;
+    const { sheetId, row, col } = parseNodeId(id);
+    return bindStructuredReferences(ast, this.tables, {
+      sheet: this.sheetNames.get(sheetId) ?? sheetId,
+      row,
+      col,
+    });
+  }
+
+  /** Replace the spreadsheet's named functions */
+  setNamedFunctions(functions: Record<string, string>): void {
+    this.namedFunctions = new Map(Object.entries(functions));
+  }
+
+  setCalcSettings(settings: CalcSettings): void {
+    this.calcSettings = { ...settings };
+  }
+
+  /** Mirror cell writes without evaluating anything */
+  applyChanges(changes: CellChange[]): void {
+    for (const { sheetId, row, col, cell } of changes) {
+      let sheetCells = this.cells.get(sheetId);
+      if (!sheetCells) {
+        sheetCells = new Map();
+        this.cells.set(sheetId, sheetCells);
+      }
+
+      const id = nodeId(sheetId, row, col);
+      const prev = sheetCells.get(`${row},${col}`);
+      if (cell) sheetCells.set(`${row},${col}`, cell);
+      else sheetCells.delete(`${row},${col}`);
+
+      if (prev?.formula !== cell?.formula) {
+        this.link(id, sheetId, cell ?? undefined);
+      }
+    }
+  }
+
+  /** Rebuild the graph edges of one cell from its formula */
+  private link(
+    id: string,
+    sheetId: string,
+    cell: WorkerCell | undefined,
+  ): void {
+    this.graph.removeDependencies(id);
+    if (!isFormula(cell)) return;
+
+    let refs: ReturnType<typeof extractReferences>;
+    try {
+      refs = extractReferences(this.parse(id, cell.formula));
+    } catch {
+      return; // Parse error — evaluates to #VALUE!, no precedents
+    }
+
+    for (const ref of refs) {
+      const start = ref.type === "cell" ? ref : ref.start;
+      const end = ref.type === "cell" ? ref : ref.end;
+      const refSheet = this.resolveSheet(start.sheet, sheetId);
+      if (!refSheet) continue;
+      for (
+        let row = Math.min(start.row, end.row);
+        row <= Math.max(start.row, end.row);
+        row++
+      ) {
+        for (
+          let col = Math.min(start.col, end.col);
+          col <= Math.max(start.col, end.col);
+          col++
+        ) {
+          this.graph.addDependency(id, nodeId(refSheet, row, col));
+        }
+      }
+    }
+  }
+
+  /** Drop an anchor's spill, keeping the graph area if `keepArea` */
+  private clearSpill(id: string, keepArea = false): void {
+    const spill = this.spills.get(id);
+    if (spill) {
+      for (const [row, col] of spillCells(spill.area)) {
+        this.spillTargets.delete(nodeId(parseNodeId(id).sheetId, row, col));
+      }
+      this.spills.delete(id);
+    }
+    if (!keepArea) this.graph.clearSpillArea(id);
+  }
+
+  /** Lay out an array result; returns the anchor's value (#SPILL! if blocked) */
+  private layOutSpill(id: string, result: FormulaValue): FormulaValue {
+    const { sheetId, row, col } = parseNodeId(id);
+    const sheetCells = this.cells.get(sheetId);
+    const spill = spillResult(row, col, result, (r, c) => {
+      const cell = sheetCells?.get(`${r},${c}`);
+      if (isFormula(cell) || toFormulaValue(cell?.value) !== null) return true;
+      const owner = this.spillTargets.get(nodeId(sheetId, r, c));
+      return owner !== undefined && owner !== id;
+    });
+
+    this.clearSpill(id, spill.area !== null);
+    if (!spill.area) return spill.value;
+
+    const covered = spillCells(spill.area).map(([r, c]) =>
+      nodeId(sheetId, r, c),
+    );
+    // A blocked area stays in the graph so clearing the blocker recalculates
+    this.graph.setSpillArea(id, covered);
+    if (!spill.blocked) {
+      this.spills.set(id, { area: spill.area, values: spill.values });
+      for (const target of covered) this.spillTargets.set(target, id);
+    }
+    return spill.value;
+  }
+
+  private resolveSheet(
+    name: string | undefined,
+    current: string,
+  ): string | undefined {
+    return name === undefined ? current : this.sheetIds.get(name.toLowerCase());
+  }
+
+  /**
+   * Re-evaluate the changed cells' formulas and everything downstream of
+   * them. Returns only cells whose computed value changed. Circular
+   * references evaluate to #REF!, matching the main-thread engine, unless
+   * iterative calculation is on: then a reference back into a cell being
+   * evaluated reads its previous value and the cells are re-evaluated until
+   * they settle.
+   */
+  recalculate(changed: CellPosition[]): RecalcResult[] {
+    const dirty = new Set<string>();
+    for (const { sheetId, row, col } of changed) {
+      const id = nodeId(sheetId, row, col);
+      if (isFormula(this.cells.get(sheetId)?.get(`${row},${col}`))) {
+        dirty.add(id);
+      }
+      for (const dep of this.graph.getAllDependents(id)) dirty.add(dep);
+    }
+
+    // Cells that no longer hold a formula stop spilling
+    for (const { sheetId, row, col } of changed) {
+      const id = nodeId(sheetId, row, col);
+      if (!dirty.has(id)) this.clearSpill(id);
+    }
+
+    const computed = new Map<string, FormulaValue>();
+    const arrays = new Map<string, FormulaValue>();
+    const inProgress = new Set<string>();
+    let depth = 0;
+    let previous = new Map<string, FormulaValue>();
+    let circular = false;
+
+    const evaluateNode = (id: string): FormulaValue => {
+      const done = computed.get(id);
+      if (done !== undefined) return done;
+
+      const { sheetId, row, col } = parseNodeId(id);
+      const cell = this.cells.get(sheetId)?.get(`${row},${col}`);
+      if (inProgress.has(id)) {
+        circular = true;
+        if (!this.calcSettings.iterative) return "#REF!";
+        return previous.get(id) ?? toFormulaValue(cell?.value);
+      }
+      if (!isFormula(cell)) return toFormulaValue(cell?.value);
+
+      inProgress.add(id);
+      // LAMBDA bindings belong to the outermost formula being evaluated
+      if (depth === 0) resetLambdaRegistry();
+      depth++;
+
+      let result: FormulaValue;
+      try {
+        result = evaluate(this.parse(id, cell.formula), getter(sheetId));
+      } catch {
+        result = "#VALUE!";
+      } finally {
+        depth--;
+        inProgress.delete(id);
+      }
+
+      // Array results are stored by their top-left value and spill
+      if (Array.isArray(result)) arrays.set(id, result);
+      result = this.layOutSpill(id, result);
+
+      computed.set(id, result);
+      return result;
+    };
+
+    const spillValue = (id: string): FormulaValue => {
+      const anchor = this.graph.getSpillAnchor(id);
+      if (anchor !== undefined && dirty.has(anchor)) evaluateNode(anchor);
+      const owner = this.spillTargets.get(id);
+      const spill = owner === undefined ? undefined : this.spills.get(owner);
+      if (!spill) return null;
+      const { row, col } = parseNodeId(id);
+      return spill.values[row - spill.area.row]?.[col - spill.area.col] ?? null;
+    };
+
+    const getter = (current: string): CellValueGetter => {
+      const getCellValue: CellValueGetter = (sheetName, col, row) => {
+        const sheetId = this.resolveSheet(sheetName, current);
+        if (!sheetId) return "#REF!";
+        const id = nodeId(sheetId, row, col);
+        if (dirty.has(id)) return evaluateNode(id);
+        const cell = this.cells.get(sheetId)?.get(`${row},${col}`);
+        return cell ? toFormulaValue(cell.value) : spillValue(id);
+      };
+      getCellValue.spillRange = (sheetName, col, row) => {
+        const sheetId = this.resolveSheet(sheetName, current);
+        if (!sheetId) return null;
+        const id = nodeId(sheetId, row, col);
+        if (dirty.has(id)) evaluateNode(id);
+        const spill = this.spills.get(id);
+        return spill ? { rows: spill.area.rows, cols: spill.area.cols } : null;
+      };
+      getCellValue.namedFormula = (name) => this.namedFunctions.get(name);
+      return getCellValue;
+    };
+
+    for (const id of dirty) evaluateNode(id);
+    if (circular && this.calcSettings.iterative) {
+      iterateCalculation(
+        new Map(computed),
+        (values) => {
+          previous = values;
+          computed.clear();
+          arrays.clear();
+          for (const id of dirty) evaluateNode(id);
+          return new Map(computed);
+        },
+        this.calcSettings,
+      );
+    }
+
+    const results: RecalcResult[] = [];
+    for (const id of dirty) {
+      const value = evaluateNode(id);
+      const pos = parseNodeId(id);
+      const cell = this.cells.get(pos.sheetId)?.get(`${pos.row},${pos.col}`);
+      if (!cell) continue;
+      const array = arrays.get(id);
+      if (array !== undefined) {
+        // Anchors always report their array so the caller can lay it out
+        results.push({ ...pos, value: array });
+      } else if (cell.value === value) {
+        continue;
+      }
+      this.cells.get(pos.sheetId)!.set(`${pos.row},${pos.col}`, {
+        ...cell,
+        value: value as WorkerCell["value"],
+      });
+      if (array === undefined) results.push({ ...pos, value });
+    }
+    return results;
+  }
+}
@@ -1,8 +1,16 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      "@gridspace/formula": fileURLToPath(
+        new URL("../formula/src", import.meta.url),
+      ),
+    },
+  },
   test: {
     name: "client",
     environment: "jsdom",
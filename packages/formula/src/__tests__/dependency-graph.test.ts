@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { DependencyGraph } from "../components/formula/dependencyGraph";
+import { DependencyGraph } from "../dependencyGraph";
 
 describe("DependencyGraph", () => {
   let graph: DependencyGraph;
@@ -84,6 +84,28 @@ describe("DependencyGraph", () => {
     });
   });
 
+  describe("findCycle", () => {
+    it("returns the loop path through a cell", () => {
+      graph.addDependency("A1", "B1");
+      graph.addDependency("B1", "C1");
+      graph.addDependency("C1", "A1");
+      expect(graph.findCycle("B1")).toEqual(["B1", "C1", "A1", "B1"]);
+    });
+
+    it("reports a self-reference as a one-step loop", () => {
+      graph.addDependency("A1", "A1");
+      expect(graph.findCycle("A1")).toEqual(["A1", "A1"]);
+    });
+
+    it("ignores loops the cell only feeds into", () => {
+      graph.addDependency("A1", "B1");
+      graph.addDependency("B1", "C1");
+      graph.addDependency("C1", "B1");
+      expect(graph.findCycle("A1")).toBeNull();
+      expect(graph.findCycle("B1")).toEqual(["B1", "C1", "B1"]);
+    });
+  });
+
   describe("getAllDependents", () => {
     it("finds transitive dependents", () => {
       // B1 references A1, C1 references B1
@@ -133,6 +155,17 @@ describe("DependencyGraph", () => {
       expect(order).toHaveLength(0);
     });
 
+    it("orders readers of a loop after the loop", () => {
+      // B1 and C1 refer to each other; D1 reads C1
+      graph.addDependency("D1", "C1");
+      graph.addDependency("B1", "A1");
+      graph.addDependency("B1", "C1");
+      graph.addDependency("C1", "B1");
+      const order = graph.getRecalculationOrder("A1");
+      expect(order).toHaveLength(3);
+      expect(order.indexOf("D1")).toBe(2);
+    });
+
     it("includes all affected cells", () => {
       graph.addDependency("B1", "A1");
       graph.addDependency("C1", "A1");
@@ -143,6 +176,34 @@ describe("DependencyGraph", () => {
     });
   });
 
+  describe("spill areas", () => {
+    beforeEach(() => {
+      graph.setSpillArea("A1", ["A2", "A3"]);
+    });
+
+    it("maps covered cells back to their anchor", () => {
+      expect(graph.getSpillAnchor("A3")).toBe("A1");
+      expect(graph.getSpillArea("A1")).toEqual(["A2", "A3"]);
+    });
+
+    it("recalculates the anchor when a covered cell changes", () => {
+      expect(graph.getAllDependents("A2")).toContain("A1");
+    });
+
+    it("orders readers of spilled cells after the anchor", () => {
+      graph.addDependency("A1", "C1");
+      graph.addDependency("B3", "A3");
+      const order = graph.getRecalculationOrder("C1");
+      expect(order).toEqual(["A1", "B3"]);
+    });
+
+    it("forgets the area when cleared", () => {
+      graph.clearSpillArea("A1");
+      expect(graph.getSpillAnchor("A2")).toBeUndefined();
+      expect(graph.getAllDependents("A2").size).toBe(0);
+    });
+  });
+
   describe("clear", () => {
     it("clears all data", () => {
       graph.addDependency("A1", "B1");
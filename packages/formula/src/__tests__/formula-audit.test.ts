@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { parseFormula } from "../parser";
+import { evaluationSteps, formatFormula } from "../audit";
+import type { CellValueGetter, FormulaValue } from "../types";
+
+const cells: Record<string, FormulaValue> = { A1: 1, A2: 2, B1: 10 };
+const getCellValue: CellValueGetter = (_sheet, col, row) =>
+  cells[`${String.fromCharCode(65 + col)}${row + 1}`] ?? null;
+
+describe("formatFormula", () => {
+  it.each([
+    "SUM(A1:A2)*2",
+    "(A1+B1)*2",
+    "A1-(B1-1)",
+    "-A1^2",
+    "(-A1)^2",
+    "10%",
+    '"say \\"hi\\""&A1',
+    "Data!A1+Data!B1:B3",
+    "IF(A1>0,TRUE,FALSE)",
+    "LET(X,A1,X+1)",
+    "LAMBDA(X,X*2)(3)",
+    "B2#",
+  ])("round-trips %s", (formula) => {
+    expect(formatFormula(parseFormula(formula))).toBe(formula);
+  });
+
+  it("writes reduced nodes as their values", () => {
+    const ast = parseFormula("SUM(A1:A2)*2");
+    const steps = evaluationSteps(ast, getCellValue);
+    const reduced = new Map([[steps[0].node, steps[0].value]]);
+    expect(formatFormula(ast, reduced)).toBe("SUM({1;2})*2");
+  });
+});
+
+describe("evaluationSteps", () => {
+  it("records each reduction in evaluation order", () => {
+    const steps = evaluationSteps(parseFormula("SUM(A1:A2)*B1"), getCellValue);
+    expect(steps.map((s) => [s.expression, s.value])).toEqual([
+      ["A1:A2", [[1], [2]]],
+      ["SUM(A1:A2)", 3],
+      ["B1", 10],
+      ["SUM(A1:A2)*B1", 30],
+    ]);
+  });
+
+  it("only walks the branch IF takes", () => {
+    const steps = evaluationSteps(
+      parseFormula("IF(A1>1,B1,A2*3)"),
+      getCellValue,
+    );
+    expect(steps.map((s) => s.expression)).toEqual([
+      "A1",
+      "A1>1",
+      "A2",
+      "A2*3",
+      "IF(A1>1,B1,A2*3)",
+    ]);
+    expect(steps.at(-1)?.value).toBe(6);
+  });
+
+  it("keeps LET and LAMBDA as a single step", () => {
+    const steps = evaluationSteps(parseFormula("LET(x,A1,x+1)"), getCellValue);
+    expect(steps).toHaveLength(1);
+    expect(steps[0].value).toBe(2);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseFormula } from "../components/formula/parser";
-import { evaluate } from "../components/formula/evaluator";
-import type { CellValueGetter, FormulaValue } from "../types/formula";
+import { parseFormula } from "../parser";
+import { evaluate } from "../evaluator";
+import type { CellValueGetter, FormulaValue } from "../types";
 
 /**
  * Helper: evaluate a formula string with a mock cell value getter.
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseFormula } from "../parser";
+import { evaluate } from "../evaluator";
+import {
+  iterateCalculation,
+  normalizeCalcSettings,
+  DEFAULT_CALC_SETTINGS,
+} from "../iteration";
+import type { CellValueGetter, FormulaValue } from "../types";
+
+/**
+ * Evaluate a loop of formulas cell by cell, each reading the latest values
+ * of this pass and the previous pass's values for cells not yet reached.
+ */
+function loopPass(
+  formulas: Record<string, string>,
+  inputs: Record<string, FormulaValue>,
+) {
+  return (previous: Map<string, FormulaValue>) => {
+    const next = new Map<string, FormulaValue>();
+    for (const [cell, formula] of Object.entries(formulas)) {
+      const getCellValue: CellValueGetter = (_sheet, col, row) => {
+        const key = `${String.fromCharCode(65 + col)}${row + 1}`;
+        return next.get(key) ?? previous.get(key) ?? inputs[key] ?? null;
+      };
+      next.set(cell, evaluate(parseFormula(formula), getCellValue));
+    }
+    return next;
+  };
+}
+
+describe("iterateCalculation", () => {
+  it("settles interest on an average balance", () => {
+    // B1 = interest on the average of opening (A1) and closing (C1) balance
+    const pass = loopPass({ B1: "(A1+C1)/2*0.1", C1: "A1+B1" }, { A1: 1000 });
+    const result = iterateCalculation(new Map(), pass, DEFAULT_CALC_SETTINGS);
+
+    expect(result.converged).toBe(true);
+    expect(result.values.get("B1")).toBeCloseTo(2000 / 19, 2);
+    expect(result.values.get("C1")).toBeCloseTo(1000 + 2000 / 19, 2);
+  });
+
+  it("stops at the iteration limit when the values keep moving", () => {
+    const pass = loopPass({ A1: "A1+1" }, {});
+    const result = iterateCalculation(new Map(), pass, {
+      iterative: true,
+      maxIterations: 10,
+      maxChange: 0.001,
+    });
+
+    expect(result).toMatchObject({ iterations: 10, converged: false });
+    expect(result.values.get("A1")).toBe(10);
+  });
+
+  it("treats a changing non-numeric value as not converged", () => {
+    let flip = false;
+    const result = iterateCalculation(
+      new Map(),
+      () => {
+        flip = !flip;
+        return new Map([["A1", flip ? "yes" : "no"]]);
+      },
+      { iterative: true, maxIterations: 5, maxChange: 1 },
+    );
+    expect(result.converged).toBe(false);
+  });
+});
+
+describe("normalizeCalcSettings", () => {
+  it("fills in defaults for missing or invalid fields", () => {
+    expect(normalizeCalcSettings(undefined)).toEqual(DEFAULT_CALC_SETTINGS);
+    expect(
+      normalizeCalcSettings({
+        iterative: true,
+        maxIterations: 0,
+        maxChange: -1,
+      }),
+    ).toEqual({ ...DEFAULT_CALC_SETTINGS, iterative: true });
+    expect(
+      normalizeCalcSettings({
+        iterative: true,
+        maxIterations: 50,
+        maxChange: 0.01,
+      }),
+    ).toEqual({ iterative: true, maxIterations: 50, maxChange: 0.01 });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { parseFormula } from "../parser";
+import { evaluate, resetLambdaRegistry } from "../evaluator";
+import type { CellValueGetter, FormulaValue } from "../types";
+
+function evalFormula(
+  formula: string,
+  cells: Record<string, FormulaValue> = {},
+  names: Record<string, string> = {},
+): FormulaValue {
+  const getCellValue: CellValueGetter = (_sheet, col, row) =>
+    cells[`${String.fromCharCode(65 + col)}${row + 1}`] ?? null;
+  getCellValue.namedFormula = (name) => names[name];
+  return evaluate(parseFormula(formula), getCellValue);
+}
+
+const grid = { A1: 1, B1: 2, A2: 3, B2: 4, A3: 5, B3: 6 };
+
+describe("Lambda helper functions", () => {
+  beforeEach(() => {
+    resetLambdaRegistry();
+  });
+
+  it("MAP applies a lambda to each element", () => {
+    expect(evalFormula("MAP(A1:B2, LAMBDA(v, v*10))", grid)).toEqual([
+      [10, 20],
+      [30, 40],
+    ]);
+  });
+
+  it("MAP walks several arrays in step", () => {
+    expect(evalFormula("MAP(A1:A3, B1:B3, LAMBDA(a, b, a+b))", grid)).toEqual([
+      [3],
+      [7],
+      [11],
+    ]);
+    expect(evalFormula("MAP(A1:A3, B1:B2, LAMBDA(a, b, a+b))", grid)).toBe(
+      "#VALUE!",
+    );
+  });
+
+  it("REDUCE folds an array into one value", () => {
+    expect(evalFormula("REDUCE(0, A1:B3, LAMBDA(acc, v, acc+v))", grid)).toBe(
+      21,
+    );
+  });
+
+  it("SCAN returns every intermediate accumulator", () => {
+    expect(evalFormula("SCAN(1, A1:A3, LAMBDA(acc, v, acc*v))", grid)).toEqual([
+      [1],
+      [3],
+      [15],
+    ]);
+  });
+
+  it("BYROW and BYCOL pass whole rows and columns", () => {
+    expect(evalFormula("BYROW(A1:B3, LAMBDA(r, SUM(r)))", grid)).toEqual([
+      [3],
+      [7],
+      [11],
+    ]);
+    expect(evalFormula("BYCOL(A1:B3, LAMBDA(c, MAX(c)))", grid)).toEqual([
+      [5, 6],
+    ]);
+  });
+
+  it("MAKEARRAY builds an array from 1-based indices", () => {
+    expect(evalFormula("MAKEARRAY(2, 3, LAMBDA(r, c, r*c))")).toEqual([
+      [1, 2, 3],
+      [2, 4, 6],
+    ]);
+  });
+
+  it("rejects a last argument that is not a lambda", () => {
+    expect(evalFormula("MAP(A1:A3, 5)", grid)).toBe("#VALUE!");
+    expect(evalFormula("BYROW(A1:B3, LAMBDA(r, r))", grid)).toEqual([
+      ["#VALUE!"],
+      ["#VALUE!"],
+      ["#VALUE!"],
+    ]);
+  });
+
+  it("calls lambdas bound with LET by name", () => {
+    expect(evalFormula("LET(f, LAMBDA(x, x+1), f(41))")).toBe(42);
+  });
+});
+
+describe("Named LAMBDA functions", () => {
+  const names = {
+    DOUBLE: "=LAMBDA(x, x*2)",
+    HYPOT: "=LAMBDA(a, b, SQRT(a^2+b^2))",
+    FACT: "=LAMBDA(n, IF(n<=1, 1, n*FACT(n-1)))",
+    LOOP: "=LAMBDA(n, LOOP(n))",
+    TAXRATE: "=0.2",
+  };
+
+  beforeEach(() => {
+    resetLambdaRegistry();
+  });
+
+  it("calls a named lambda like a built-in function", () => {
+    expect(evalFormula("DOUBLE(21)", {}, names)).toBe(42);
+    expect(evalFormula("hypot(3, 4)", {}, names)).toBe(5);
+  });
+
+  it("passes a named lambda to a helper by name", () => {
+    expect(evalFormula("MAP(A1:A2, DOUBLE)", grid, names)).toEqual([[2], [6]]);
+  });
+
+  it("evaluates names that refer to plain formulas", () => {
+    expect(evalFormula("A3*TAXRATE", grid, names)).toBe(1);
+  });
+
+  it("supports recursion and stops runaway recursion", () => {
+    expect(evalFormula("FACT(5)", {}, names)).toBe(120);
+    expect(evalFormula("LOOP(1)", {}, names)).toBe("#NUM!");
+  });
+
+  it("still reports unknown names and wrong arity", () => {
+    expect(evalFormula("TRIPLE(2)", {}, names)).toBe("#NAME?");
+    expect(evalFormula("DOUBLE(1, 2)", {}, names)).toBe("#VALUE!");
+  });
+});
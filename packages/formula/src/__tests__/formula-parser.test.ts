@@ -1,16 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { parseFormula } from "../components/formula/parser";
-import { tokenize } from "../components/formula/tokenizer";
+import { parseFormula } from "../parser";
+import { tokenize } from "../tokenizer";
 import type {
   NumberLiteral,
   StringLiteral,
   BooleanLiteral,
   CellReference,
   RangeReference,
+  SpillReference,
   BinaryOp,
   UnaryOp,
   FunctionCall,
-} from "../types/formula";
+} from "../types";
 
 describe("Tokenizer", () => {
   it("tokenizes numbers", () => {
@@ -183,6 +184,31 @@ describe("Parser — Cell References", () => {
   });
 });
 
+describe("Parser — Spill References", () => {
+  it("tokenizes # after a cell reference", () => {
+    const tokens = tokenize("A1#");
+    expect(tokens[0]).toMatchObject({ type: "CELL_REF", value: "A1" });
+    expect(tokens[1]).toMatchObject({ type: "SPILL", value: "#" });
+  });
+
+  it("parses A1# as a spill reference", () => {
+    const ast = parseFormula("SUM(B2#)") as FunctionCall;
+    const spill = ast.args[0] as SpillReference;
+    expect(spill.type).toBe("spill");
+    expect(spill.anchor).toMatchObject({ col: 1, row: 1, raw: "B2" });
+  });
+
+  it("parses cross-sheet spill references", () => {
+    const ast = parseFormula("Data!$A$1#") as SpillReference;
+    expect(ast.type).toBe("spill");
+    expect(ast.anchor).toMatchObject({ sheet: "Data", absCol: true });
+  });
+
+  it("rejects # that does not follow a cell reference", () => {
+    expect(() => parseFormula("1+#")).toThrow();
+  });
+});
+
 describe("Parser — Arithmetic", () => {
   it("parses addition 1+2", () => {
     const ast = parseFormula("1+2") as BinaryOp;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { getFunction, hasFunction } from "../components/formula/functions";
+import { getFunction, hasFunction } from "../functions";
 
 describe("Special Functions (S16-010 to S16-012)", () => {
   describe("IMPORTDATA (S16-010)", () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { parseFormula } from "../parser";
+import { evaluate, extractReferences } from "../evaluator";
+import { spillResult, toSpillGrid } from "../spill";
+import type { CellValueGetter, FormulaValue } from "../types";
+
+function evalFormula(
+  formula: string,
+  cells: Record<string, FormulaValue> = {},
+  spills: Record<string, { rows: number; cols: number }> = {},
+): FormulaValue {
+  const getCellValue: CellValueGetter = (_sheet, col, row) => {
+    const key = `${String.fromCharCode(65 + col)}${row + 1}`;
+    return cells[key] ?? null;
+  };
+  getCellValue.spillRange = (_sheet, col, row) =>
+    spills[`${String.fromCharCode(65 + col)}${row + 1}`] ?? null;
+  return evaluate(parseFormula(formula), getCellValue);
+}
+
+describe("SEQUENCE", () => {
+  it("fills rows then columns from start by step", () => {
+    expect(evalFormula("SEQUENCE(2, 3, 10, 5)")).toEqual([
+      [10, 15, 20],
+      [25, 30, 35],
+    ]);
+  });
+
+  it("defaults to a single column counting from 1", () => {
+    expect(evalFormula("SEQUENCE(3)")).toEqual([[1], [2], [3]]);
+  });
+
+  it("rejects empty sizes", () => {
+    expect(evalFormula("SEQUENCE(0)")).toBe("#VALUE!");
+  });
+});
+
+describe("Spill references (A1#)", () => {
+  const cells = { B2: 1, B3: 2, B4: 3, C2: 10, C3: 20, C4: 30 };
+
+  it("resolves to the whole spill area of the anchor", () => {
+    expect(evalFormula("SUM(B2#)", cells, { B2: { rows: 3, cols: 2 } })).toBe(
+      66,
+    );
+  });
+
+  it("is #REF! when the anchor is not spilling", () => {
+    expect(evalFormula("SUM(B2#)", cells)).toBe("#REF!");
+  });
+
+  it("passes through an anchor error such as #SPILL!", () => {
+    expect(evalFormula("B2#", { B2: "#SPILL!" })).toBe("#SPILL!");
+  });
+
+  it("depends on the anchor cell", () => {
+    const refs = extractReferences(parseFormula("COUNT(B2#)"));
+    expect(refs).toEqual([
+      expect.objectContaining({ type: "cell", raw: "B2" }),
+    ]);
+  });
+});
+
+describe("spillResult", () => {
+  const free = () => false;
+
+  it("spills a flat array down a column", () => {
+    expect(toSpillGrid([1, 2, 3] as unknown as FormulaValue)).toEqual([
+      [1],
+      [2],
+      [3],
+    ]);
+  });
+
+  it("lays out an array from its anchor", () => {
+    const grid = [
+      [1, 2],
+      [3, 4],
+    ] as unknown as FormulaValue;
+    expect(spillResult(4, 2, grid, free)).toEqual({
+      value: 1,
+      area: { row: 4, col: 2, rows: 2, cols: 2 },
+      values: [
+        [1, 2],
+        [3, 4],
+      ],
+      blocked: false,
+    });
+  });
+
+  it("returns #SPILL! but keeps the area when a cell is occupied", () => {
+    const result = spillResult(
+      0,
+      0,
+      [1, 2, 3] as unknown as FormulaValue,
+      (row, col) => row === 2 && col === 0,
+    );
+    expect(result.value).toBe("#SPILL!");
+    expect(result.blocked).toBe(true);
+    expect(result.area).toEqual({ row: 0, col: 0, rows: 3, cols: 1 });
+  });
+
+  it("passes scalar results through without an area", () => {
+    expect(spillResult(0, 0, 42, free)).toMatchObject({
+      value: 42,
+      area: null,
+    });
+  });
+});
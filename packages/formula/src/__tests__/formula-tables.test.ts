@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { parseFormula } from "../parser";
+import { evaluate, extractReferences } from "../evaluator";
+import { formatFormula } from "../audit";
+import {
+  bindStructuredReferences,
+  hasStructuredReferences,
+  rewriteStructuredReferences,
+  formatStructuredReference,
+} from "../tables";
+import type { TableDefinition } from "../tables";
+import type {
+  CellValueGetter,
+  FormulaValue,
+  StructuredReference,
+} from "../types";
+
+// Sales: header row 1 (Region, Amount), data rows 2-4, totals row 5
+const sales: TableDefinition = {
+  name: "Sales",
+  sheet: "Sheet1",
+  startRow: 0,
+  startCol: 0,
+  endRow: 4,
+  endCol: 1,
+  columns: ["Region", "Unit Price"],
+  hasHeaderRow: true,
+  hasTotalsRow: true,
+};
+
+const cells: Record<string, FormulaValue> = {
+  A1: "Region",
+  B1: "Unit Price",
+  A2: "North",
+  B2: 10,
+  A3: "South",
+  B3: 20,
+  A4: "East",
+  B4: 30,
+  A5: "Total",
+  B5: 60,
+};
+const getCellValue: CellValueGetter = (sheet, col, row) =>
+  sheet
+    ? "#REF!"
+    : (cells[`${String.fromCharCode(65 + col)}${row + 1}`] ?? null);
+
+function run(formula: string, row = 9, col = 5, sheet = "Sheet1") {
+  const ast = bindStructuredReferences(parseFormula(formula), [sales], {
+    sheet,
+    row,
+    col,
+  });
+  return evaluate(ast, getCellValue);
+}
+
+describe("structured references", () => {
+  it("parses table, item and column parts", () => {
+    expect(parseFormula("Sales[[#Totals],[Unit Price]]")).toEqual({
+      type: "structured",
+      table: "Sales",
+      items: ["#Totals"],
+      columns: ["Unit Price", "Unit Price"],
+      raw: "Sales[[#Totals],[Unit Price]]",
+    });
+    expect(parseFormula("[@Region]")).toMatchObject({
+      table: undefined,
+      items: ["#This Row"],
+      columns: ["Region", "Region"],
+    });
+    expect(parseFormula("Sales[[Region]:[Unit Price]]")).toMatchObject({
+      items: [],
+      columns: ["Region", "Unit Price"],
+    });
+  });
+
+  it("rejects unknown item specifiers", () => {
+    expect(() => parseFormula("Sales[#Subtotals]")).toThrow();
+  });
+
+  it("reads a column's data rows", () => {
+    expect(run("SUM(Sales[Unit Price])")).toBe(60);
+    expect(run("COUNTA(Sales[Region])")).toBe(3);
+    expect(run("COUNTA(Sales[#All])")).toBe(10);
+  });
+
+  it("reads header and totals rows", () => {
+    expect(run("Sales[[#Totals],[Unit Price]]")).toBe(60);
+    expect(run("Sales[[#Headers],[Region]]")).toBe("Region");
+    expect(run("Sales[#Headers]")).toBe("#VALUE!");
+  });
+
+  it("reads the formula's own row with @", () => {
+    expect(run("[@[Unit Price]]*2", 2, 1)).toBe(40);
+    expect(run("Sales[@Region]", 3, 2)).toBe("East");
+    // Outside the data rows
+    expect(run("Sales[@Region]", 9, 2)).toBe("#VALUE!");
+  });
+
+  it("is #REF! for unknown tables and columns", () => {
+    expect(run("SUM(Orders[Amount])")).toBe("#REF!");
+    expect(run("SUM(Sales[Amount])")).toBe("#REF!");
+    // Unqualified references need a table around the formula
+    expect(run("SUM([Region])")).toBe("#REF!");
+    // Left unbound, a structured reference has nothing to read
+    expect(evaluate(parseFormula("Sales[Region]"), getCellValue)).toBe("#REF!");
+  });
+
+  it("qualifies references to tables on other sheets", () => {
+    const ast = bindStructuredReferences(
+      parseFormula("SUM(Sales[Unit Price])"),
+      [sales],
+      { sheet: "Summary", row: 0, col: 0 },
+    );
+    expect(extractReferences(ast)).toMatchObject([
+      { type: "range", start: { sheet: "Sheet1", row: 1, col: 1 } },
+    ]);
+  });
+
+  it("round-trips through formatFormula", () => {
+    for (const formula of [
+      "SUM(Sales[Unit Price])",
+      "[@Region]&Sales[[#Totals],[Unit Price]]",
+    ]) {
+      expect(formatFormula(parseFormula(formula))).toBe(formula);
+    }
+    expect(hasStructuredReferences(parseFormula("SUM(A1:A3)"))).toBe(false);
+  });
+});
+
+describe("formatStructuredReference", () => {
+  it.each([
+    "Sales[Region]",
+    "Sales[Unit Price]",
+    "[@Region]",
+    "Sales[@[Unit Price]]",
+    "Sales[@]",
+    "Sales[#Totals]",
+    "Sales[[#Totals],[Unit Price]]",
+    "Sales[[Region]:[Unit Price]]",
+    "Sales[[#This Row],[Region]:[Unit Price]]",
+    "Sales[[#Headers],[#Data],[Region]]",
+    "Sales[Cost '[net']]",
+  ])("writes %s back unchanged", (text) => {
+    const ref = parseFormula(text) as StructuredReference;
+    expect(formatStructuredReference(ref)).toBe(text);
+  });
+});
+
+describe("rewriteStructuredReferences", () => {
+  it("replaces only the references the callback returns text for", () => {
+    const formula = 'SUM(Sales[Unit Price])+Other[X]&"Sales[Y]"';
+    expect(
+      rewriteStructuredReferences(formula, (ref) =>
+        ref.table === "Sales" ? "Revenue[Unit Price]" : undefined,
+      ),
+    ).toBe('SUM(Revenue[Unit Price])+Other[X]&"Sales[Y]"');
+  });
+});
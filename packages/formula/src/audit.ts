@@ -0,0 +1,216 @@
+/**
+ * Formula auditing — turns a parsed formula back into text and walks it
+ * step by step the way the evaluator does, recording each intermediate
+ * value. Pure module: the caller supplies cell values through the getter.
+ */
+import { evaluate, toBoolValue } from "./evaluator";
+import { hasFunction } from "./functions";
+import { isFormulaError } from "./types";
+import type { ASTNode, CellValueGetter, FormulaValue } from "./types";
+
+/** One reduction of the formula: `node` evaluated to `value` */
+export interface EvaluationStep {
+  node: ASTNode;
+  /** Source text of the sub-expression, before reduction */
+  expression: string;
+  value: FormulaValue;
+}
+
+/**
+ * Functions whose arguments bind names or are evaluated per element; they
+ * are shown as a single step rather than taken apart.
+ */
+const OPAQUE_FUNCTIONS = new Set([
+  "LET",
+  "LAMBDA",
+  "__CALL__",
+  "ARRAYFORMULA",
+  "MAP",
+  "REDUCE",
+  "SCAN",
+  "BYROW",
+  "BYCOL",
+  "MAKEARRAY",
+]);
+
+/** Binding strength of binary operators, loosest first */
+const PRECEDENCE: Record<string, number> = {
+  "=": 1,
+  "<>": 1,
+  "<": 1,
+  ">": 1,
+  "<=": 1,
+  ">=": 1,
+  "&": 2,
+  "+": 3,
+  "-": 3,
+  "*": 4,
+  "/": 4,
+  "^": 6,
+  "%": 7,
+};
+const UNARY_PRECEDENCE = 5;
+
+function precedenceOf(node: ASTNode): number {
+  if (node.type === "binary") return PRECEDENCE[node.op] ?? 0;
+  if (node.type === "unary") return UNARY_PRECEDENCE;
+  return 8;
+}
+
+/** Formula text for a value substituted into an expression */
+export function formatValue(value: FormulaValue): string {
+  if (Array.isArray(value)) {
+    const rows = (value as unknown[]).map((row) =>
+      Array.isArray(row)
+        ? (row as FormulaValue[]).map(formatValue).join(",")
+        : formatValue(row as FormulaValue),
+    );
+    return `{${rows.join(";")}}`;
+  }
+  if (value === null) return "0";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return String(value);
+  if (isFormulaError(value)) return value;
+  // The tokenizer reads \" and \\ escapes inside string literals
+  return `"${value.replace(/[\\"]/g, (ch) => `\\${ch}`)}"`;
+}
+
+/**
+ * Turn an AST back into formula text (without the leading "="). Nodes in
+ * `reduced` are written as their value, which is how the evaluate dialog
+ * shows the formula part-way through.
+ */
+export function formatFormula(
+  node: ASTNode,
+  reduced?: Map<ASTNode, FormulaValue>,
+): string {
+  const format = (n: ASTNode): string => {
+    if (reduced?.has(n)) return formatValue(reduced.get(n)!);
+    return formatFormula(n, reduced);
+  };
+  const wrap = (child: ASTNode, parens: boolean) =>
+    parens && !reduced?.has(child) ? `(${format(child)})` : format(child);
+
+  switch (node.type) {
+    case "number":
+    case "string":
+    case "boolean":
+    case "array":
+      return formatValue(node.value);
+    case "error":
+      return node.error;
+    case "cell":
+      return node.sheet ? `${node.sheet}!${node.raw}` : node.raw;
+    case "range": {
+      const prefix = node.start.sheet ? `${node.start.sheet}!` : "";
+      return `${prefix}${node.start.raw}:${node.end.raw}`;
+    }
+    case "spill":
+      return `${format(node.anchor)}#`;
+    case "structured":
+      return node.raw;
+    case "unary":
+      return `${node.op}${wrap(node.operand, precedenceOf(node.operand) < UNARY_PRECEDENCE)}`;
+    case "binary": {
+      const prec = precedenceOf(node);
+      const left = wrap(node.left, precedenceOf(node.left) < prec);
+      if (node.op === "%") return `${left}%`;
+      const right = wrap(node.right, precedenceOf(node.right) <= prec);
+      return `${left}${node.op}${right}`;
+    }
+    case "function": {
+      const args = node.args.map(format);
+      if (node.name === "__CALL__") {
+        const [callee, ...rest] = node.args;
+        const target =
+          callee.type === "function" ? format(callee) : `(${format(callee)})`;
+        return `${target}(${rest.map(format).join(",")})`;
+      }
+      // A bare identifier (LET/LAMBDA variable) has no parentheses
+      if (args.length === 0 && !hasFunction(node.name.toUpperCase())) {
+        return node.name;
+      }
+      return `${node.name}(${args.join(",")})`;
+    }
+  }
+}
+
+/** Values of every cell in a range, row by row */
+function rangeValues(
+  node: Extract<ASTNode, { type: "range" }>,
+  getCellValue: CellValueGetter,
+): FormulaValue {
+  const rows: FormulaValue[][] = [];
+  for (
+    let row = Math.min(node.start.row, node.end.row);
+    row <= Math.max(node.start.row, node.end.row);
+    row++
+  ) {
+    const values: FormulaValue[] = [];
+    for (
+      let col = Math.min(node.start.col, node.end.col);
+      col <= Math.max(node.start.col, node.end.col);
+      col++
+    ) {
+      values.push(getCellValue(node.start.sheet, col, row));
+    }
+    rows.push(values);
+  }
+  return rows as unknown as FormulaValue;
+}
+
+/**
+ * Walk a formula in evaluation order and record each reduction. Literals
+ * are skipped; references, operators and function calls each produce a
+ * step once their operands have. IF only walks the branch it takes.
+ */
+export function evaluationSteps(
+  ast: ASTNode,
+  getCellValue: CellValueGetter,
+): EvaluationStep[] {
+  const steps: EvaluationStep[] = [];
+
+  const record = (node: ASTNode, value: FormulaValue) => {
+    steps.push({ node, expression: formatFormula(node), value });
+    return value;
+  };
+
+  const walk = (node: ASTNode): void => {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+      case "array":
+      case "error":
+        return;
+      case "range":
+        record(node, rangeValues(node, getCellValue));
+        return;
+      case "unary":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "function": {
+        const name = node.name.toUpperCase();
+        if (!hasFunction(name) || OPAQUE_FUNCTIONS.has(name)) break;
+        if (name === "IF" && node.args.length >= 2) {
+          walk(node.args[0]);
+          const condition = evaluate(node.args[0], getCellValue);
+          if (isFormulaError(condition)) break;
+          const branch = toBoolValue(condition) ? 1 : 2;
+          if (node.args[branch]) walk(node.args[branch]);
+          break;
+        }
+        for (const arg of node.args) walk(arg);
+        break;
+      }
+    }
+    record(node, evaluate(node, getCellValue));
+  };
+
+  walk(ast);
+  return steps;
+}
@@ -0,0 +1,286 @@
+/**
+ * Dependency graph for formula recalculation.
+ * Tracks which cells depend on which other cells, supports
+ * topological sort for recalculation order and circular reference detection.
+ *
+ * Spill areas of dynamic array formulas are tracked too: a change to any
+ * cell inside an area re-evaluates its anchor (it may now be blocked or
+ * unblocked), and a change to an anchor reaches every formula that reads
+ * one of its spilled cells.
+ */
+
+export class DependencyGraph {
+  /**
+   * Maps a cell to the set of cells it depends on (references).
+   * e.g., if A1 = B1 + C1, then dependsOn.get("A1") = {"B1", "C1"}
+   */
+  private dependsOn: Map<string, Set<string>> = new Map();
+
+  /**
+   * Maps a cell to the set of cells that reference it (reverse index).
+   * e.g., if A1 = B1 + C1, then dependents.get("B1") contains "A1"
+   */
+  private dependents: Map<string, Set<string>> = new Map();
+
+  /** Maps a spill anchor to the cells its array covers (anchor excluded) */
+  private spillAreas: Map<string, Set<string>> = new Map();
+
+  /** Maps a covered cell back to its spill anchor */
+  private spillAnchors: Map<string, string> = new Map();
+
+  /**
+   * Add a dependency: `cell` depends on `dependsOnCell`.
+   */
+  addDependency(cell: string, dependsOnCell: string): void {
+    if (!this.dependsOn.has(cell)) {
+      this.dependsOn.set(cell, new Set());
+    }
+    this.dependsOn.get(cell)!.add(dependsOnCell);
+
+    if (!this.dependents.has(dependsOnCell)) {
+      this.dependents.set(dependsOnCell, new Set());
+    }
+    this.dependents.get(dependsOnCell)!.add(cell);
+  }
+
+  /**
+   * Remove all dependencies for a cell (before re-parsing its formula).
+   */
+  removeDependencies(cell: string): void {
+    const deps = this.dependsOn.get(cell);
+    if (deps) {
+      for (const dep of deps) {
+        const rev = this.dependents.get(dep);
+        if (rev) {
+          rev.delete(cell);
+          if (rev.size === 0) this.dependents.delete(dep);
+        }
+      }
+      this.dependsOn.delete(cell);
+    }
+  }
+
+  /**
+   * Get direct dependents of a cell (cells that reference it).
+   */
+  getDirectDependents(cell: string): string[] {
+    const deps = this.dependents.get(cell);
+    return deps ? [...deps] : [];
+  }
+
+  /**
+   * Record the cells covered by a spill anchor's array (anchor excluded).
+   * The area is kept while the spill is blocked so the blocker is watched.
+   */
+  setSpillArea(anchor: string, cells: string[]): void {
+    this.clearSpillArea(anchor);
+    if (cells.length === 0) return;
+    this.spillAreas.set(anchor, new Set(cells));
+    for (const cell of cells) this.spillAnchors.set(cell, anchor);
+  }
+
+  clearSpillArea(anchor: string): void {
+    const area = this.spillAreas.get(anchor);
+    if (!area) return;
+    for (const cell of area) {
+      if (this.spillAnchors.get(cell) === anchor)
+        this.spillAnchors.delete(cell);
+    }
+    this.spillAreas.delete(anchor);
+  }
+
+  /** Anchor whose spill area covers `cell`, if any */
+  getSpillAnchor(cell: string): string | undefined {
+    return this.spillAnchors.get(cell);
+  }
+
+  getSpillArea(anchor: string): string[] {
+    const area = this.spillAreas.get(anchor);
+    return area ? [...area] : [];
+  }
+
+  /**
+   * Cells that must be re-evaluated when `cell` changes: formulas that
+   * reference it, the anchor of a spill area it sits in, and readers of the
+   * cells it spills into.
+   */
+  private affectedBy(cell: string): string[] {
+    const result = this.getDirectDependents(cell);
+    const anchor = this.spillAnchors.get(cell);
+    if (anchor !== undefined) result.push(anchor);
+    for (const covered of this.spillAreas.get(cell) ?? []) {
+      result.push(...this.getDirectDependents(covered));
+    }
+    return result;
+  }
+
+  /**
+   * Get all transitive dependents of a cell.
+   */
+  getAllDependents(cell: string): Set<string> {
+    const result = new Set<string>();
+    const queue = [cell];
+
+    while (queue.length > 0) {
+      const current = queue.pop()!;
+      for (const dep of this.affectedBy(current)) {
+        if (!result.has(dep)) {
+          result.add(dep);
+          queue.push(dep);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Detect if adding/keeping current dependencies for `cell` creates a cycle.
+   */
+  detectCircular(cell: string): boolean {
+    return this.findCycle(cell) !== null;
+  }
+
+  /**
+   * Find a loop of references through `cell`. Returns the path starting and
+   * ending at `cell` (e.g. ["A1", "B1", "A1"]), or null when there is none.
+   * Uses DFS from `cell` through dependsOn, never revisiting a cell.
+   */
+  findCycle(cell: string): string[] | null {
+    const visited = new Set<string>([cell]);
+    const path = [cell];
+
+    const dfs = (current: string): boolean => {
+      for (const dep of this.dependsOn.get(current) ?? []) {
+        if (dep === cell) {
+          path.push(dep);
+          return true;
+        }
+        if (visited.has(dep)) continue;
+        visited.add(dep);
+        path.push(dep);
+        if (dfs(dep)) return true;
+        path.pop();
+      }
+      return false;
+    };
+
+    return dfs(cell) ? path : null;
+  }
+
+  /**
+   * Get the recalculation order for cells affected by a change to `changedCell`.
+   * Returns cells in topological order (dependencies first).
+   */
+  getRecalculationOrder(changedCell: string): string[] {
+    const affected = this.getAllDependents(changedCell);
+    if (affected.size === 0) return [];
+
+    // Topological sort using Kahn's algorithm within the affected set
+    const inDegree = new Map<string, number>();
+    const adjList = new Map<string, Set<string>>();
+
+    // Initialize in-degree to 0 for all affected cells
+    for (const cell of affected) {
+      inDegree.set(cell, 0);
+      adjList.set(cell, new Set());
+    }
+
+    const addEdge = (from: string, to: string) => {
+      if (from === to || adjList.get(from)!.has(to)) return;
+      adjList.get(from)!.add(to);
+      inDegree.set(to, (inDegree.get(to) ?? 0) + 1);
+    };
+
+    // Build subgraph edges: for each affected cell, look at its dependencies
+    for (const cell of affected) {
+      const deps = this.dependsOn.get(cell);
+      if (deps) {
+        for (const dep of deps) {
+          if (affected.has(dep)) {
+            addEdge(dep, cell);
+          } else {
+            // A spilled cell's value comes from its anchor
+            const anchor = this.spillAnchors.get(dep);
+            if (anchor !== undefined && affected.has(anchor)) {
+              addEdge(anchor, cell);
+            }
+          }
+        }
+      }
+      // An anchor is evaluated after any formula inside its spill area
+      for (const covered of this.spillAreas.get(cell) ?? []) {
+        if (affected.has(covered)) addEdge(covered, cell);
+      }
+    }
+
+    // Start with cells that have in-degree 0 (only depend on changedCell or non-affected)
+    const queue: string[] = [];
+    for (const [cell, degree] of inDegree) {
+      if (degree === 0) queue.push(cell);
+    }
+
+    const result: string[] = [];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      result.push(current);
+
+      const neighbors = adjList.get(current);
+      if (neighbors) {
+        for (const neighbor of neighbors) {
+          const newDeg = (inDegree.get(neighbor) ?? 1) - 1;
+          inDegree.set(neighbor, newDeg);
+          if (newDeg === 0) queue.push(neighbor);
+        }
+      }
+    }
+
+    // Cells left over sit on a loop or downstream of one. Order them
+    // depth-first by their dependencies so a loop is evaluated before the
+    // cells that read it; the first leftover cell is always on a loop.
+    if (result.length < affected.size) {
+      const placed = new Set(result);
+      const precedents = new Map<string, string[]>();
+      for (const [from, targets] of adjList) {
+        for (const to of targets) {
+          if (!precedents.has(to)) precedents.set(to, []);
+          precedents.get(to)!.push(from);
+        }
+      }
+      const visit = (cell: string) => {
+        if (placed.has(cell)) return;
+        placed.add(cell);
+        for (const dep of precedents.get(cell) ?? []) visit(dep);
+        result.push(cell);
+      };
+      for (const cell of affected) visit(cell);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get all cells that a given cell depends on.
+   */
+  getDependencies(cell: string): string[] {
+    const deps = this.dependsOn.get(cell);
+    return deps ? [...deps] : [];
+  }
+
+  /**
+   * Clear all dependency data.
+   */
+  clear(): void {
+    this.dependsOn.clear();
+    this.dependents.clear();
+    this.spillAreas.clear();
+    this.spillAnchors.clear();
+  }
+
+  /**
+   * Get the number of tracked cells (for debugging/testing).
+   */
+  get size(): number {
+    return this.dependsOn.size;
+  }
+}
@@ -9,9 +9,12 @@ import type {
   CellValueGetter,
   CellReference,
   RangeReference,
-} from "../../types/formula";
-import { isFormulaError } from "../../types/formula";
+  SpillReference,
+} from "./types";
+import { isFormulaError } from "./types";
 import { getFunction, hasFunction } from "./functions";
+import { parseFormula } from "./parser";
+import { toSpillGrid } from "./spill";
 
 export class EvaluationError extends Error {
   constructor(
@@ -39,12 +42,20 @@ export function evaluate(
       return node.value;
     case "error":
       return node.error;
+    case "array":
+      return node.value;
     case "cell":
       return getCellValue(node.sheet, node.col, node.row);
     case "range":
       // Ranges should only appear as function arguments.
       // If a bare range is evaluated, return #VALUE!
       return "#VALUE!" as FormulaError;
+    case "spill":
+      return evaluateSpill(node, getCellValue);
+    case "structured":
+      // Bound to cells by the host before evaluation; an unbound one means
+      // no table information was available
+      return "#REF!" as FormulaError;
     case "unary":
       return evaluateUnary(node.op, node.operand, getCellValue);
     case "binary":
@@ -130,6 +141,11 @@ function evaluateFunction(
   const upperName = name.toUpperCase();
 
   if (!hasFunction(upperName)) {
+    // Defined names that refer to a formula, such as named LAMBDAs
+    const named = getCellValue.namedFormula?.(upperName);
+    if (named !== undefined) {
+      return evaluateNamedFormula(named, argNodes, getCellValue);
+    }
     return "#NAME?" as FormulaError;
   }
 
@@ -169,6 +185,11 @@ function evaluateFunction(
     return evaluateCall(argNodes, getCellValue);
   }
 
+  // Special handling for MAP, REDUCE, etc. — apply a lambda across arrays
+  if (LAMBDA_HELPERS.has(upperName)) {
+    return evaluateLambdaHelper(upperName, argNodes, getCellValue);
+  }
+
   // Evaluate arguments, expanding ranges
   const evaluatedArgs = argNodes.map((arg) => evaluateArg(arg, getCellValue));
 
@@ -192,6 +213,31 @@ function evaluateArg(
   return evaluate(node, getCellValue);
 }
 
+/**
+ * Resolve `A1#` to the current spill area of the array anchored at A1.
+ * A cell that is not spilling behaves as a single-cell range.
+ */
+function evaluateSpill(
+  node: SpillReference,
+  getCellValue: CellValueGetter,
+): FormulaValue {
+  const { anchor } = node;
+  const size = getCellValue.spillRange?.(anchor.sheet, anchor.col, anchor.row);
+  if (!size) {
+    const value = getCellValue(anchor.sheet, anchor.col, anchor.row);
+    return isFormulaError(value) ? value : ("#REF!" as FormulaError);
+  }
+  const end: CellReference = {
+    ...anchor,
+    col: anchor.col + size.cols - 1,
+    row: anchor.row + size.rows - 1,
+  };
+  return expandRange(
+    { type: "range", start: anchor, end },
+    getCellValue,
+  ) as unknown as FormulaValue;
+}
+
 /**
  * Expand a range reference into a 2D array of cell values (rows × cols).
  * Aggregate functions flatten this via flattenArgs; lookup functions use 2D.
@@ -323,7 +369,7 @@ function compareValues(a: FormulaValue, b: FormulaValue): number {
   return 0;
 }
 
-function toBoolValue(val: FormulaValue): boolean {
+export function toBoolValue(val: FormulaValue): boolean {
   if (typeof val === "boolean") return val;
   if (typeof val === "number") return val !== 0;
   if (val === null) return false;
@@ -504,7 +550,8 @@ function extractIdentifierName(node: ASTNode): string | null {
 
 /**
  * Replace bare identifier references (function nodes with 0 args)
- * matching binding names with literal value nodes.
+ * matching binding names with literal value nodes. A call through a name
+ * bound to a lambda, like `f(1)`, becomes an invocation of that lambda.
  */
 function substituteBindings(
   node: ASTNode,
@@ -517,6 +564,19 @@ function substituteBindings(
     }
     return node;
   }
+  if (
+    node.type === "function" &&
+    isLambdaId(bindings.get(node.name.toUpperCase()))
+  ) {
+    return {
+      type: "function",
+      name: "__CALL__",
+      args: [
+        valueToASTNode(bindings.get(node.name.toUpperCase()) as FormulaValue),
+        ...node.args.map((a) => substituteBindings(a, bindings)),
+      ],
+    };
+  }
   if (node.type === "binary") {
     return {
       ...node,
@@ -543,6 +603,7 @@ function substituteBindings(
  * Convert a FormulaValue into a literal AST node.
  */
 function valueToASTNode(value: FormulaValue): ASTNode {
+  if (Array.isArray(value)) return { type: "array", value };
   if (typeof value === "number") return { type: "number", value };
   if (typeof value === "string") {
     if (isFormulaError(value)) return { type: "error", error: value };
@@ -563,10 +624,19 @@ const lambdaRegistry = new Map<
 >();
 let lambdaCounter = 0;
 
+/** Nested lambda invocations allowed before a recursive name gives #NUM! */
+const MAX_CALL_DEPTH = 256;
+let callDepth = 0;
+
 /** Reset lambda registry (call before each top-level evaluation). */
 export function resetLambdaRegistry(): void {
   lambdaRegistry.clear();
   lambdaCounter = 0;
+  callDepth = 0;
+}
+
+function isLambdaId(value: FormulaValue | undefined): value is string {
+  return typeof value === "string" && value.startsWith("__LAMBDA_");
 }
 
 /**
@@ -607,33 +677,177 @@ function evaluateCall(
   // Evaluate the callee to get the lambda ID
   const callee = evaluate(argNodes[0], getCellValue);
 
-  if (typeof callee !== "string" || !callee.startsWith("__LAMBDA_")) {
-    return "#VALUE!" as FormulaError;
-  }
-
-  const lambda = lambdaRegistry.get(callee);
-  if (!lambda) return "#VALUE!" as FormulaError;
-
   // Evaluate the call arguments
   const callArgs: FormulaValue[] = [];
   for (let i = 1; i < argNodes.length; i++) {
     callArgs.push(evaluateArg(argNodes[i], getCellValue));
   }
 
+  return invokeLambda(callee, callArgs);
+}
+
+/**
+ * Invoke a lambda closure by ID with already-evaluated arguments.
+ */
+function invokeLambda(
+  callee: FormulaValue,
+  args: FormulaValue[],
+): FormulaValue {
+  if (!isLambdaId(callee)) return "#VALUE!" as FormulaError;
+
+  const lambda = lambdaRegistry.get(callee);
+  if (!lambda) return "#VALUE!" as FormulaError;
+
   // Check arity
-  if (callArgs.length !== lambda.params.length) {
+  if (args.length !== lambda.params.length) {
     return "#VALUE!" as FormulaError;
   }
+  if (callDepth >= MAX_CALL_DEPTH) return "#NUM!" as FormulaError;
 
   // Bind parameters to argument values
   const bindings = new Map<string, FormulaValue>();
   for (let i = 0; i < lambda.params.length; i++) {
-    bindings.set(lambda.params[i], callArgs[i]);
+    bindings.set(lambda.params[i], args[i]);
   }
 
   // Substitute bindings into the body and evaluate
   const substitutedBody = substituteBindings(lambda.body, bindings);
-  return evaluate(substitutedBody, lambda.getCellValue);
+  callDepth++;
+  try {
+    return evaluate(substitutedBody, lambda.getCellValue);
+  } finally {
+    callDepth--;
+  }
+}
+
+/**
+ * A defined name referring to a formula. Used bare (`MAP(A1:A3, DOUBLE)`)
+ * it evaluates to the formula's value; called (`DOUBLE(2)`) the value must
+ * be a LAMBDA, which is invoked with the arguments.
+ */
+function evaluateNamedFormula(
+  formula: string,
+  argNodes: ASTNode[],
+  getCellValue: CellValueGetter,
+): FormulaValue {
+  let value: FormulaValue;
+  try {
+    const expr = formula.startsWith("=") ? formula.slice(1) : formula;
+    value = evaluate(parseFormula(expr), getCellValue);
+  } catch {
+    return "#VALUE!" as FormulaError;
+  }
+  if (argNodes.length === 0) return value;
+
+  const args = argNodes.map((arg) => evaluateArg(arg, getCellValue));
+  return invokeLambda(value, args);
+}
+
+// ---------------------------------------------------------------------------
+// MAP, REDUCE, SCAN, BYROW, BYCOL, MAKEARRAY — lambda helper functions
+// ---------------------------------------------------------------------------
+
+const LAMBDA_HELPERS = new Set([
+  "MAP",
+  "REDUCE",
+  "SCAN",
+  "BYROW",
+  "BYCOL",
+  "MAKEARRAY",
+]);
+
+/** Rows × cols view of a value; a scalar is a 1×1 array */
+function toGrid(value: FormulaValue): FormulaValue[][] {
+  return toSpillGrid(value) ?? [[value]];
+}
+
+/** Each cell of a helper's result must be a single value */
+function toElement(value: FormulaValue): FormulaValue {
+  return Array.isArray(value) ? ("#VALUE!" as FormulaError) : value;
+}
+
+function evaluateLambdaHelper(
+  name: string,
+  argNodes: ASTNode[],
+  getCellValue: CellValueGetter,
+): FormulaValue {
+  if (argNodes.length < 2) return "#VALUE!" as FormulaError;
+  const args = argNodes.map((arg) => evaluateArg(arg, getCellValue));
+  const fn = args[args.length - 1];
+  if (!isLambdaId(fn)) return "#VALUE!" as FormulaError;
+
+  switch (name) {
+    case "MAP": {
+      // MAP(array1, [array2, ...], LAMBDA(v1, [v2, ...], expr))
+      const arrays = args.slice(0, -1).map(toGrid);
+      const rows = arrays[0].length;
+      const cols = arrays[0][0].length;
+      if (arrays.some((a) => a.length !== rows || a[0].length !== cols)) {
+        return "#VALUE!" as FormulaError;
+      }
+      return arrays[0].map((row, r) =>
+        row.map((_, c) =>
+          toElement(
+            invokeLambda(
+              fn,
+              arrays.map((a) => a[r][c]),
+            ),
+          ),
+        ),
+      ) as unknown as FormulaValue;
+    }
+    case "REDUCE":
+    case "SCAN": {
+      // REDUCE(initial, array, LAMBDA(acc, value, expr)); SCAN keeps each step
+      if (args.length !== 3) return "#VALUE!" as FormulaError;
+      let acc = args[0];
+      const steps = toGrid(args[1]).map((row) =>
+        row.map((value) => {
+          acc = invokeLambda(fn, [acc, value]);
+          return toElement(acc);
+        }),
+      );
+      return name === "REDUCE" ? acc : (steps as unknown as FormulaValue);
+    }
+    case "BYROW":
+    case "BYCOL": {
+      // BYROW(array, LAMBDA(row, expr)) → column; BYCOL → row
+      if (args.length !== 2) return "#VALUE!" as FormulaError;
+      const grid = toGrid(args[0]);
+      if (name === "BYROW") {
+        return grid.map((row) => [
+          toElement(invokeLambda(fn, [[row] as unknown as FormulaValue])),
+        ]) as unknown as FormulaValue;
+      }
+      return [
+        grid[0].map((_, c) =>
+          toElement(
+            invokeLambda(fn, [
+              grid.map((row) => [row[c]]) as unknown as FormulaValue,
+            ]),
+          ),
+        ),
+      ] as unknown as FormulaValue;
+    }
+    case "MAKEARRAY": {
+      // MAKEARRAY(rows, cols, LAMBDA(r, c, expr)) with 1-based indices
+      if (args.length !== 3) return "#VALUE!" as FormulaError;
+      const rows = Math.trunc(toNumeric(args[0]) ?? 0);
+      const cols = Math.trunc(toNumeric(args[1]) ?? 0);
+      if (rows < 1 || cols < 1) return "#VALUE!" as FormulaError;
+      const result: FormulaValue[][] = [];
+      for (let r = 1; r <= rows; r++) {
+        const row: FormulaValue[] = [];
+        for (let c = 1; c <= cols; c++) {
+          row.push(toElement(invokeLambda(fn, [r, c])));
+        }
+        result.push(row);
+      }
+      return result as unknown as FormulaValue;
+    }
+    default:
+      return "#NAME?" as FormulaError;
+  }
 }
 
 /**
@@ -652,6 +866,10 @@ export function extractReferences(
       case "range":
         refs.push(n);
         break;
+      case "spill":
+        // Depends on the anchor; its spilled cells are linked by the graph
+        refs.push(n.anchor);
+        break;
       case "binary":
         walk(n.left);
         walk(n.right);
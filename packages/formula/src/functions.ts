@@ -2,8 +2,8 @@
  * Formula function registry.
  * Merges core functions with all domain-specific function modules.
  */
-import type { FormulaValue, FormulaError } from "../../types/formula";
-import { isFormulaError } from "../../types/formula";
+import type { FormulaValue, FormulaError } from "./types";
+import { isFormulaError } from "./types";
 import { mathFunctions } from "./functions/mathFunctions";
 import { textFunctions } from "./functions/textFunctions";
 import { dateFunctions } from "./functions/dateFunctions";
@@ -290,6 +290,12 @@ function fnLAMBDA(..._args: FormulaValue[]): FormulaValue {
   return "#VALUE!" as FormulaError;
 }
 
+function fnLAMBDAHelper(..._args: FormulaValue[]): FormulaValue {
+  // MAP, REDUCE, SCAN, BYROW, BYCOL and MAKEARRAY invoke lambdas, so they
+  // are implemented in evaluator.ts — this is a stub for the registry
+  return "#VALUE!" as FormulaError;
+}
+
 // --- Merged registry ---
 
 const FUNCTION_REGISTRY: Record<string, FormulaFunction> = {
@@ -318,6 +324,12 @@ const FUNCTION_REGISTRY: Record<string, FormulaFunction> = {
   LET: fnLET,
   LAMBDA: fnLAMBDA,
   __CALL__: fnLAMBDA, // stub — actual handling is in evaluator
+  MAP: fnLAMBDAHelper,
+  REDUCE: fnLAMBDAHelper,
+  SCAN: fnLAMBDAHelper,
+  BYROW: fnLAMBDAHelper,
+  BYCOL: fnLAMBDAHelper,
+  MAKEARRAY: fnLAMBDAHelper,
   // Domain modules
   ...mathFunctions,
   ...textFunctions,
@@ -1,7 +1,7 @@
 /**
- * Array functions: SORT, FILTER, UNIQUE, TRANSPOSE
+ * Array functions: SORT, FILTER, UNIQUE, TRANSPOSE, SEQUENCE
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import {
   flattenArgs,
@@ -114,9 +114,38 @@ function fnTRANSPOSE(...args: FormulaValue[]): FormulaValue {
   return args[0];
 }
 
+function fnSEQUENCE(...args: FormulaValue[]): FormulaValue {
+  if (args.length < 1 || args.length > 4) return "#VALUE!" as FormulaError;
+  const params: number[] = [];
+  for (const [i, fallback] of [0, 1, 1, 1].entries()) {
+    const arg = args[i];
+    if (arg === undefined || arg === null) {
+      params.push(fallback);
+      continue;
+    }
+    const n = requireNumber(arg);
+    if (isFormulaError(n)) return n;
+    params.push(n);
+  }
+  const [rows, cols, start, step] = params;
+  if (Math.trunc(rows) < 1 || Math.trunc(cols) < 1) {
+    return "#VALUE!" as FormulaError;
+  }
+  const result: FormulaValue[][] = [];
+  for (let r = 0; r < Math.trunc(rows); r++) {
+    const row: FormulaValue[] = [];
+    for (let c = 0; c < Math.trunc(cols); c++) {
+      row.push(start + (r * Math.trunc(cols) + c) * step);
+    }
+    result.push(row);
+  }
+  return result as unknown as FormulaValue;
+}
+
 export const arrayFunctions: Record<string, FormulaFunction> = {
   SORT: fnSORT,
   FILTER: fnFILTER,
   UNIQUE: fnUNIQUE,
   TRANSPOSE: fnTRANSPOSE,
+  SEQUENCE: fnSEQUENCE,
 };
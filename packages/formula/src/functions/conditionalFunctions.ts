@@ -2,7 +2,7 @@
  * Conditional aggregate functions: SUMIF, COUNTIF, AVERAGEIF,
  * SUMIFS, COUNTIFS, AVERAGEIFS
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import { flattenArgs, toNumber, matchesCriteria } from "./helpers";
 
@@ -3,7 +3,7 @@
  * HOUR, MINUTE, SECOND, DATEDIF, EDATE, EOMONTH,
  * WEEKDAY, WEEKNUM, WORKDAY, NETWORKDAYS
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import { requireNumber, isFormulaError } from "./helpers";
 
@@ -1,7 +1,7 @@
 /**
  * Financial functions: PMT, FV, PV, NPV, IRR, RATE, NPER
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import {
   requireNumber,
@@ -1,8 +1,8 @@
 /**
  * Shared helper functions used across all formula function domains.
  */
-import type { FormulaValue, FormulaError } from "../../../types/formula";
-import { isFormulaError } from "../../../types/formula";
+import type { FormulaValue, FormulaError } from "../types";
+import { isFormulaError } from "../types";
 
 export type FormulaFunction = (...args: FormulaValue[]) => FormulaValue;
 
@@ -1,7 +1,7 @@
 /**
  * Info functions: ISBLANK, ISERROR, ISNUMBER, ISTEXT, ISLOGICAL, TYPE
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction } from "./helpers";
 import { isFormulaError } from "./helpers";
 
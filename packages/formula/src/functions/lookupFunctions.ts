@@ -2,7 +2,7 @@
  * Lookup & reference functions: VLOOKUP, HLOOKUP, INDEX, MATCH, XLOOKUP,
  * OFFSET, INDIRECT, ROW, COLUMN, ROWS, COLUMNS, CHOOSE
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import {
   requireNumber,
@@ -2,7 +2,7 @@
  * Math functions: ROUND, ROUNDUP, ROUNDDOWN, ABS, SQRT, POWER, MOD,
  * CEILING, FLOOR, LOG, LOG10, EXP, PI, RAND, RANDBETWEEN
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import { requireNumber, isFormulaError } from "./helpers";
 
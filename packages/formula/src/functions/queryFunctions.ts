@@ -10,7 +10,7 @@
  *   LIMIT
  *   GROUP BY with aggregations (SUM, AVG, COUNT, MIN, MAX)
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import { is2DArray, flattenArgs, toNumber } from "./helpers";
 
@@ -1,7 +1,7 @@
 /**
  * Regex functions: REGEXMATCH, REGEXEXTRACT, REGEXREPLACE
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import { requireString } from "./helpers";
 
@@ -2,7 +2,7 @@
  * Statistical functions: STDEV, VAR, MEDIAN, MODE, PERCENTILE,
  * QUARTILE, RANK, LARGE, SMALL, CORREL, FORECAST
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import {
   flattenArgs,
@@ -3,7 +3,7 @@
  * UPPER, LOWER, PROPER, SUBSTITUTE, FIND, SEARCH,
  * TEXT, VALUE, REPT, EXACT, CLEAN, CHAR, CODE
  */
-import type { FormulaValue } from "../../../types/formula";
+import type { FormulaValue } from "../types";
 import type { FormulaFunction, FormulaError } from "./helpers";
 import {
   requireNumber,
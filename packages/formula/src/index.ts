@@ -0,0 +1,40 @@
+export { tokenize, TokenizerError } from "./tokenizer";
+export { parseFormula, ParseError } from "./parser";
+export {
+  evaluate,
+  extractReferences,
+  resetLambdaRegistry,
+  EvaluationError,
+} from "./evaluator";
+export { getFunction, hasFunction, getFunctionNames } from "./functions";
+export { DependencyGraph } from "./dependencyGraph";
+export { spillResult, spillCells, toSpillGrid } from "./spill";
+export { evaluationSteps, formatFormula, formatValue } from "./audit";
+export {
+  bindStructuredReferences,
+  resolveStructuredReference,
+  hasStructuredReferences,
+  findTable,
+  tableAt,
+  tableDataRows,
+  rewriteStructuredReferences,
+  formatStructuredReference,
+} from "./tables";
+export type { TableDefinition, FormulaLocation } from "./tables";
+export type { EvaluationStep } from "./audit";
+export type { SpillArea, SpillResult } from "./spill";
+export {
+  iterateCalculation,
+  normalizeCalcSettings,
+  DEFAULT_CALC_SETTINGS,
+  MAX_ITERATIONS_LIMIT,
+} from "./iteration";
+export type { CalcSettings, IterationResult } from "./iteration";
+export {
+  colLetterToIndex,
+  colIndexToLetter,
+  cellId,
+  parseCellId,
+} from "./cellUtils";
+export { isFormulaError } from "./types";
+export type * from "./types";
@@ -0,0 +1,92 @@
+/**
+ * Iterative calculation — lets formulas that refer to themselves through a
+ * loop (interest on an average balance, for example) settle on a value
+ * instead of failing with #REF!. Pure module: the caller evaluates the cells
+ * and decides how circular references read the previous iteration.
+ */
+import type { FormulaValue } from "./types";
+
+/** Spreadsheet-level calculation settings */
+export interface CalcSettings {
+  /** Resolve circular references by iterating instead of returning #REF! */
+  iterative: boolean;
+  /** Upper bound on passes over the loop */
+  maxIterations: number;
+  /** Stop once no value moves by more than this between passes */
+  maxChange: number;
+}
+
+export const DEFAULT_CALC_SETTINGS: CalcSettings = {
+  iterative: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+};
+
+export const MAX_ITERATIONS_LIMIT = 32767;
+
+/** Read stored settings, falling back to the defaults for missing fields */
+export function normalizeCalcSettings(raw: unknown): CalcSettings {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const maxIterations = Number(input.maxIterations);
+  const maxChange = Number(input.maxChange);
+  return {
+    iterative: input.iterative === true,
+    maxIterations:
+      Number.isInteger(maxIterations) &&
+      maxIterations >= 1 &&
+      maxIterations <= MAX_ITERATIONS_LIMIT
+        ? maxIterations
+        : DEFAULT_CALC_SETTINGS.maxIterations,
+    maxChange:
+      Number.isFinite(maxChange) && maxChange >= 0
+        ? maxChange
+        : DEFAULT_CALC_SETTINGS.maxChange,
+  };
+}
+
+export interface IterationResult {
+  values: Map<string, FormulaValue>;
+  iterations: number;
+  converged: boolean;
+}
+
+/** Largest change between two passes; non-numeric changes never converge */
+function largestChange(
+  before: Map<string, FormulaValue>,
+  after: Map<string, FormulaValue>,
+): number {
+  let largest = 0;
+  for (const [cell, value] of after) {
+    const prev = before.get(cell) ?? null;
+    if (prev === value) continue;
+    if (typeof prev !== "number" || typeof value !== "number") return Infinity;
+    largest = Math.max(largest, Math.abs(value - prev));
+  }
+  return largest;
+}
+
+/**
+ * Repeat `pass` until the values settle. Each pass receives the previous
+ * pass's values (starting from `initial`) for circular references to read,
+ * and returns the new value of every cell in the loop. Stops after
+ * `maxIterations` passes even if the values are still moving.
+ */
+export function iterateCalculation(
+  initial: Map<string, FormulaValue>,
+  pass: (previous: Map<string, FormulaValue>) => Map<string, FormulaValue>,
+  settings: CalcSettings,
+): IterationResult {
+  let values = initial;
+  for (let i = 1; i <= settings.maxIterations; i++) {
+    const next = pass(values);
+    const change = largestChange(values, next);
+    values = next;
+    if (change <= settings.maxChange) {
+      return { values, iterations: i, converged: true };
+    }
+  }
+  return { values, iterations: settings.maxIterations, converged: false };
+}
@@ -11,9 +11,17 @@
  *   Unary         → ("-" | "+")? Power
  *   Power         → Postfix ("^" Postfix)*
  *   Postfix       → Primary ("%")?
- *   Primary       → NUMBER | STRING | BOOLEAN | CellRef | Range | FunctionCall | "(" Expression ")"
+ *   Primary       → NUMBER | STRING | BOOLEAN | CellRef | Range | SpillRef | StructuredRef | FunctionCall | "(" Expression ")"
+ *   SpillRef      → CellRef "#"
+ *   StructuredRef → TableName? "[" Specifier "]"   (e.g. Table1[@Amount], [#Totals])
  */
-import type { Token, ASTNode, CellReference } from "../../types/formula";
+import type {
+  Token,
+  ASTNode,
+  CellReference,
+  StructuredItem,
+  StructuredReference,
+} from "./types";
 import { tokenize } from "./tokenizer";
 import { colLetterToIndex } from "./cellUtils";
 
@@ -203,6 +211,12 @@ class Parser {
       return this.functionCall();
     }
 
+    // Structured reference: Table1[Amount]
+    if (token.type === "STRUCTURED_REF") {
+      this.advance();
+      return parseStructuredReference(token.value, token.position);
+    }
+
     // Cell reference (may become range with :)
     if (token.type === "CELL_REF") {
       return this.cellRefOrRange();
@@ -240,6 +254,12 @@ class Parser {
   private cellRefOrRange(): ASTNode {
     const cellRef = this.parseCellRef();
 
+    // Spill reference: A1#
+    if (this.current().type === "SPILL") {
+      this.advance();
+      return { type: "spill", anchor: cellRef };
+    }
+
     // Check for range operator ':'
     if (this.current().type === "COLON") {
       this.advance();
@@ -291,6 +311,83 @@ class Parser {
   }
 }
 
+const STRUCTURED_ITEMS: Record<string, StructuredItem> = {
+  "#ALL": "#All",
+  "#DATA": "#Data",
+  "#HEADERS": "#Headers",
+  "#TOTALS": "#Totals",
+  "#THIS ROW": "#This Row",
+};
+
+/** Column name with ' escapes removed */
+function unescapeColumn(name: string): string {
+  return name.replace(/'(.)/g, "$1").trim();
+}
+
+/**
+ * Parse the text of a structured reference token. Accepts the simple forms
+ * `T[Col]`, `T[@Col]`, `T[@[Col]]`, `T[#Totals]` and the bracketed list form
+ * `T[[#Totals],[Col1]:[Col2]]`.
+ */
+function parseStructuredReference(
+  raw: string,
+  position: number,
+): StructuredReference {
+  const bracket = raw.indexOf("[");
+  const table = raw.slice(0, bracket) || undefined;
+  const inner = raw.slice(bracket + 1, -1).trim();
+  const items: StructuredItem[] = [];
+  const columns: string[] = [];
+
+  const addSpecifier = (text: string, isRangeEnd = false) => {
+    const item = STRUCTURED_ITEMS[text.trim().toUpperCase()];
+    if (item) {
+      items.push(item);
+    } else if (text.trim().startsWith("#")) {
+      throw new ParseError(`Unknown table item: ${text}`, position);
+    } else if (columns.length > 0 && !isRangeEnd) {
+      throw new ParseError(`Expected ':' between columns in ${raw}`, position);
+    } else {
+      columns.push(unescapeColumn(text));
+    }
+  };
+
+  if (inner.startsWith("@")) {
+    // [@Col] and [@[Col]] — this row; a bare [@] is the whole row
+    items.push("#This Row");
+    const rest = inner.slice(1).trim();
+    if (rest) addSpecifier(rest.replace(/^\[(.*)\]$/, "$1"));
+  } else if (!inner.startsWith("[")) {
+    if (inner) addSpecifier(inner);
+  } else {
+    // [[#Totals],[Col1]:[Col2]]
+    let rest = inner;
+    let rangeEnd = false;
+    while (rest) {
+      const match = rest.match(/^\[((?:'.|[^\]])*)\]\s*([,:]?)\s*/);
+      if (!match) {
+        throw new ParseError(`Invalid structured reference: ${raw}`, position);
+      }
+      addSpecifier(match[1], rangeEnd);
+      rangeEnd = match[2] === ":";
+      rest = rest.slice(match[0].length);
+    }
+  }
+
+  if (columns.length > 2) {
+    throw new ParseError(`Invalid structured reference: ${raw}`, position);
+  }
+  return {
+    type: "structured",
+    table,
+    items,
+    ...(columns.length > 0 && {
+      columns: [columns[0], columns[columns.length - 1]] as [string, string],
+    }),
+    raw,
+  };
+}
+
 /**
  * Parse a formula string into an AST.
  * The formula should NOT include the leading '=' sign.
@@ -0,0 +1,88 @@
+/**
+ * Dynamic array spilling — lays an array result out from its anchor cell.
+ * Pure module: the caller decides which cells are occupied and stores the
+ * spilled values however it likes.
+ */
+import type { FormulaValue, FormulaError } from "./types";
+
+/** Cells covered by an array result, anchor included (0-based) */
+export interface SpillArea {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+}
+
+export interface SpillResult {
+  /** Value shown in the anchor cell */
+  value: FormulaValue;
+  /** Area the array needs, or null for a scalar result */
+  area: SpillArea | null;
+  /** Row-major values for the area; empty when the spill is blocked */
+  values: FormulaValue[][];
+  blocked: boolean;
+}
+
+/**
+ * Normalize an array result to rows × cols. A flat array (FILTER or SORT over
+ * a single column) spills down a column; ragged rows are padded with blanks.
+ */
+export function toSpillGrid(result: FormulaValue): FormulaValue[][] | null {
+  if (!Array.isArray(result)) return null;
+  const items = result as unknown[];
+  if (items.length === 0) return null;
+
+  const rows = items.map((item) =>
+    Array.isArray(item) ? (item as FormulaValue[]) : [item as FormulaValue],
+  );
+  const cols = Math.max(...rows.map((row) => row.length));
+  if (cols === 0) return null;
+  return rows.map((row) =>
+    row.length === cols
+      ? row
+      : [...row, ...Array<FormulaValue>(cols - row.length).fill(null)],
+  );
+}
+
+/**
+ * Lay out a formula result from its anchor. `isOccupied` reports whether a
+ * cell other than the anchor already has content; any occupied cell blocks
+ * the spill and the anchor shows #SPILL!. The area is still returned for a
+ * blocked spill so the caller can watch the blocking cells.
+ */
+export function spillResult(
+  row: number,
+  col: number,
+  result: FormulaValue,
+  isOccupied: (row: number, col: number) => boolean,
+): SpillResult {
+  const grid = toSpillGrid(result);
+  if (!grid) {
+    return {
+      value: Array.isArray(result) ? ("#VALUE!" as FormulaError) : result,
+      area: null,
+      values: [],
+      blocked: false,
+    };
+  }
+
+  const area: SpillArea = { row, col, rows: grid.length, cols: grid[0].length };
+  for (const [r, c] of spillCells(area)) {
+    if (isOccupied(r, c)) {
+      return { value: "#SPILL!", area, values: [], blocked: true };
+    }
+  }
+  return { value: grid[0][0] ?? null, area, values: grid, blocked: false };
+}
+
+/** Cells of a spill area other than the anchor, as [row, col] pairs */
+export function spillCells(area: SpillArea): Array<[number, number]> {
+  const cells: Array<[number, number]> = [];
+  for (let r = 0; r < area.rows; r++) {
+    for (let c = 0; c < area.cols; c++) {
+      if (r === 0 && c === 0) continue;
+      cells.push([area.row + r, area.col + c]);
+    }
+  }
+  return cells;
+}
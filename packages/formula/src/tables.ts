@@ -0,0 +1,279 @@
+/**
+ * Structured table references — binds `Table1[Amount]`-style nodes to the
+ * cells they cover. Tables move and grow, so references are bound against
+ * the current table layout each time a formula is evaluated or linked.
+ * Pure module: the host supplies the table definitions.
+ */
+import type {
+  ASTNode,
+  CellReference,
+  FormulaError,
+  StructuredReference,
+} from "./types";
+import { colIndexToLetter } from "./cellUtils";
+import { tokenize } from "./tokenizer";
+import { parseFormula } from "./parser";
+
+/** A table's position and column names, as formulas see it */
+export interface TableDefinition {
+  name: string;
+  /** Name of the sheet the table is on */
+  sheet: string;
+  /** Whole table, header and totals rows included (0-based, inclusive) */
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  /** Column names, left to right */
+  columns: string[];
+  hasHeaderRow: boolean;
+  hasTotalsRow: boolean;
+}
+
+/** Where a formula is being evaluated: the sheet name and cell */
+export interface FormulaLocation {
+  sheet: string;
+  row: number;
+  col: number;
+}
+
+function refError(error: FormulaError): ASTNode {
+  return { type: "error", error };
+}
+
+/** First and last data row of a table; empty when start > end */
+export function tableDataRows(table: TableDefinition): [number, number] {
+  return [
+    table.startRow + (table.hasHeaderRow ? 1 : 0),
+    table.endRow - (table.hasTotalsRow ? 1 : 0),
+  ];
+}
+
+/** Table with the given name (case-insensitive) */
+export function findTable(
+  tables: TableDefinition[],
+  name: string,
+): TableDefinition | undefined {
+  const lower = name.toLowerCase();
+  return tables.find((t) => t.name.toLowerCase() === lower);
+}
+
+/** Table on `location`'s sheet whose area contains the cell */
+export function tableAt(
+  tables: TableDefinition[],
+  location: FormulaLocation,
+): TableDefinition | undefined {
+  const sheet = location.sheet.toLowerCase();
+  return tables.find(
+    (t) =>
+      t.sheet.toLowerCase() === sheet &&
+      location.row >= t.startRow &&
+      location.row <= t.endRow &&
+      location.col >= t.startCol &&
+      location.col <= t.endCol,
+  );
+}
+
+/**
+ * The cell or range a structured reference covers, or an error node:
+ * #REF! for an unknown table, column or missing header/totals row, and
+ * #VALUE! for `@` outside the table's data rows.
+ */
+export function resolveStructuredReference(
+  ref: StructuredReference,
+  tables: TableDefinition[],
+  location: FormulaLocation,
+): ASTNode {
+  const table = ref.table
+    ? findTable(tables, ref.table)
+    : tableAt(tables, location);
+  if (!table) return refError("#REF!");
+
+  // Columns
+  let startCol = table.startCol;
+  let endCol = table.endCol;
+  if (ref.columns) {
+    const index = (name: string) => {
+      const lower = name.toLowerCase();
+      return table.columns.findIndex((c) => c.toLowerCase() === lower);
+    };
+    const first = index(ref.columns[0]);
+    const last = index(ref.columns[1]);
+    if (first < 0 || last < 0) return refError("#REF!");
+    startCol = table.startCol + Math.min(first, last);
+    endCol = table.startCol + Math.max(first, last);
+  }
+
+  // Rows: the span covering every item, data rows when there are none
+  const [dataStart, dataEnd] = tableDataRows(table);
+  let startRow = Infinity;
+  let endRow = -Infinity;
+  const include = (from: number, to: number) => {
+    startRow = Math.min(startRow, from);
+    endRow = Math.max(endRow, to);
+  };
+  const items = ref.items.length > 0 ? ref.items : ["#Data" as const];
+  for (const item of items) {
+    switch (item) {
+      case "#All":
+        include(table.startRow, table.endRow);
+        break;
+      case "#Data":
+        include(dataStart, dataEnd);
+        break;
+      case "#Headers":
+        if (!table.hasHeaderRow) return refError("#REF!");
+        include(table.startRow, table.startRow);
+        break;
+      case "#Totals":
+        if (!table.hasTotalsRow) return refError("#REF!");
+        include(table.endRow, table.endRow);
+        break;
+      case "#This Row":
+        if (location.sheet.toLowerCase() !== table.sheet.toLowerCase()) {
+          return refError("#VALUE!");
+        }
+        if (location.row < dataStart || location.row > dataEnd) {
+          return refError("#VALUE!");
+        }
+        include(location.row, location.row);
+        break;
+    }
+  }
+  if (startRow > endRow) return refError("#REF!");
+
+  const sheet =
+    table.sheet.toLowerCase() === location.sheet.toLowerCase()
+      ? undefined
+      : table.sheet;
+  const cell = (row: number, col: number): CellReference => ({
+    type: "cell",
+    sheet,
+    col,
+    row,
+    absCol: true,
+    absRow: true,
+    raw: `$${colIndexToLetter(col)}$${row + 1}`,
+  });
+  if (startRow === endRow && startCol === endCol) {
+    return cell(startRow, startCol);
+  }
+  return {
+    type: "range",
+    start: cell(startRow, startCol),
+    end: cell(endRow, endCol),
+  };
+}
+
+/**
+ * Replace every structured reference in a formula with the cell or range it
+ * currently covers. Returns the AST unchanged when it has none.
+ */
+export function bindStructuredReferences(
+  node: ASTNode,
+  tables: TableDefinition[],
+  location: FormulaLocation,
+): ASTNode {
+  switch (node.type) {
+    case "structured":
+      return resolveStructuredReference(node, tables, location);
+    case "binary": {
+      const left = bindStructuredReferences(node.left, tables, location);
+      const right = bindStructuredReferences(node.right, tables, location);
+      return left === node.left && right === node.right
+        ? node
+        : { ...node, left, right };
+    }
+    case "unary": {
+      const operand = bindStructuredReferences(node.operand, tables, location);
+      return operand === node.operand ? node : { ...node, operand };
+    }
+    case "function": {
+      const args = node.args.map((arg) =>
+        bindStructuredReferences(arg, tables, location),
+      );
+      return args.every((arg, i) => arg === node.args[i])
+        ? node
+        : { ...node, args };
+    }
+    default:
+      return node;
+  }
+}
+
+/** Whether a formula mentions a structured reference at all */
+export function hasStructuredReferences(node: ASTNode): boolean {
+  switch (node.type) {
+    case "structured":
+      return true;
+    case "binary":
+      return (
+        hasStructuredReferences(node.left) ||
+        hasStructuredReferences(node.right)
+      );
+    case "unary":
+      return hasStructuredReferences(node.operand);
+    case "function":
+      return node.args.some(hasStructuredReferences);
+    default:
+      return false;
+  }
+}
+
+function escapeColumn(name: string): string {
+  return name.replace(/['[\]#]/g, "'$&");
+}
+
+/**
+ * Text for a structured reference in its shortest form, e.g.
+ * `Sales[Region]`, `Sales[@[Unit Price]]` or `[[#Totals],[Amount]]`.
+ */
+export function formatStructuredReference(ref: StructuredReference): string {
+  const columns = ref.columns?.map(escapeColumn);
+  const single = columns !== undefined && columns[0] === columns[1];
+  const columnPart = columns
+    ? single
+      ? `[${columns[0]}]`
+      : `[${columns[0]}]:[${columns[1]}]`
+    : undefined;
+
+  let inner: string;
+  if (ref.items.length === 0) {
+    inner = single ? columns![0] : (columnPart ?? "");
+  } else if (ref.items.length === 1 && ref.items[0] === "#This Row") {
+    if (!columns) inner = "@";
+    else if (!single) inner = `[#This Row],${columnPart}`;
+    else inner = /^\w+$/.test(columns[0]) ? `@${columns[0]}` : `@${columnPart}`;
+  } else if (!columnPart && ref.items.length === 1) {
+    inner = ref.items[0];
+  } else {
+    inner = [...ref.items.map((item) => `[${item}]`), columnPart]
+      .filter(Boolean)
+      .join(",");
+  }
+  return `${ref.table ?? ""}[${inner}]`;
+}
+
+/**
+ * Rewrite the structured references in a formula's text (without the
+ * leading "="). `replace` returns the new text for a reference, or
+ * undefined to keep it. Everything else in the formula is left as typed.
+ */
+export function rewriteStructuredReferences(
+  formula: string,
+  replace: (ref: StructuredReference) => string | undefined,
+): string {
+  let result = formula;
+  const tokens = tokenize(formula).filter((t) => t.type === "STRUCTURED_REF");
+  // Right to left so earlier positions stay valid
+  for (const token of tokens.reverse()) {
+    const ref = parseFormula(token.value) as StructuredReference;
+    const text = replace(ref);
+    if (text === undefined) continue;
+    result =
+      result.slice(0, token.position) +
+      text +
+      result.slice(token.position + token.value.length);
+  }
+  return result;
+}
@@ -2,7 +2,7 @@
  * Formula tokenizer — breaks a formula string into tokens.
  * Pure function, no side effects.
  */
-import type { Token, TokenType } from "../../types/formula";
+import type { Token, TokenType } from "./types";
 
 export class TokenizerError extends Error {
   constructor(
@@ -47,6 +47,25 @@ export function tokenize(input: string): Token[] {
     tokens.push({ type, value, position: startPos });
   }
 
+  /** Consume a bracketed structured reference body, nested brackets and all */
+  function readBrackets(): string {
+    const startPos = pos;
+    let text = "";
+    let depth = 0;
+    while (pos < input.length) {
+      const c = advance();
+      text += c;
+      // ' escapes the next character inside a column name
+      if (c === "'" && pos < input.length) {
+        text += advance();
+        continue;
+      }
+      if (c === "[") depth++;
+      else if (c === "]" && --depth === 0) return text;
+    }
+    throw new TokenizerError("Unterminated structured reference", startPos);
+  }
+
   while (pos < input.length) {
     const ch = peek();
     const startPos = pos;
@@ -139,6 +158,19 @@ export function tokenize(input: string): Token[] {
       continue;
     }
 
+    // Spill reference operator (A1#)
+    if (ch === "#" && tokens[tokens.length - 1]?.type === "CELL_REF") {
+      advance();
+      addToken("SPILL", "#", startPos);
+      continue;
+    }
+
+    // Structured reference to the table containing the formula: [@Amount]
+    if (ch === "[") {
+      addToken("STRUCTURED_REF", readBrackets(), startPos);
+      continue;
+    }
+
     // Operators: multi-char first (<>, <=, >=)
     if (ch === "<") {
       advance();
@@ -199,6 +231,12 @@ export function tokenize(input: string): Token[] {
         continue;
       }
 
+      // Structured reference: Table1[Amount] — table names keep their case
+      if (peek() === "[") {
+        addToken("STRUCTURED_REF", ident + readBrackets(), startPos);
+        continue;
+      }
+
       // Check if it's a function call (followed by open paren)
       if (peek() === "(") {
         addToken("FUNCTION_NAME", upper, startPos);
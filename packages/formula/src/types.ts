@@ -39,6 +39,8 @@ export type TokenType =
   | "COMMA"
   | "COLON"
   | "EXCLAMATION"
+  | "SPILL"
+  | "STRUCTURED_REF"
   | "EOF";
 
 export interface Token {
@@ -54,10 +56,13 @@ export type ASTNode =
   | BooleanLiteral
   | CellReference
   | RangeReference
+  | SpillReference
+  | StructuredReference
   | BinaryOp
   | UnaryOp
   | FunctionCall
-  | ErrorNode;
+  | ErrorNode
+  | ArrayLiteral;
 
 export interface NumberLiteral {
   type: "number";
@@ -90,6 +95,33 @@ export interface RangeReference {
   end: CellReference;
 }
 
+/** `A1#` — the whole spill area of the dynamic array anchored at A1 */
+export interface SpillReference {
+  type: "spill";
+  anchor: CellReference;
+}
+
+/** Special item specifier of a structured reference; `@` is "#This Row" */
+export type StructuredItem =
+  "#All" | "#Data" | "#Headers" | "#Totals" | "#This Row";
+
+/**
+ * `Table1[Amount]`, `Table1[@Amount]`, `[#Totals]` — a reference to part of
+ * a table by name. Bound to a cell or range before evaluation, since the
+ * table's position is only known to the host.
+ */
+export interface StructuredReference {
+  type: "structured";
+  /** Table name as written; omitted for the table containing the formula */
+  table?: string;
+  /** Row items; empty means the data rows */
+  items: StructuredItem[];
+  /** First and last column name; omitted for every column */
+  columns?: [string, string];
+  /** Source text, e.g. "Table1[[#Totals],[Amount]]" */
+  raw: string;
+}
+
 export interface BinaryOp {
   type: "binary";
   op: string;
@@ -114,9 +146,26 @@ export interface ErrorNode {
   error: FormulaError;
 }
 
+/** An array value bound into an expression, e.g. a row passed to a LAMBDA */
+export interface ArrayLiteral {
+  type: "array";
+  value: FormulaValue;
+}
+
 // Callback type for resolving cell values during evaluation
-export type CellValueGetter = (
+export type CellValueGetter = ((
+  sheet: string | undefined,
+  col: number,
+  row: number,
+) => FormulaValue) & {
+  /** Size of the spill area anchored at a cell, used by `A1#` references */
+  spillRange?: SpillRangeGetter;
+  /** Formula a defined name refers to (e.g. a named LAMBDA), by upper-case name */
+  namedFormula?: (name: string) => string | undefined;
+};
+
+export type SpillRangeGetter = (
   sheet: string | undefined,
   col: number,
   row: number,
-) => FormulaValue;
+) => { rows: number; cols: number } | null;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "spreadsheets" ADD COLUMN     "named_ranges" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "sheets" ADD COLUMN     "objects" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "objects_version" INTEGER NOT NULL DEFAULT 0;
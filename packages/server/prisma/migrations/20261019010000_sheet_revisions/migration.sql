@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sheets" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cell_revisions" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "yjs_documents" (
+    "spreadsheet_id" TEXT NOT NULL,
+    "state" BYTEA NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "yjs_documents_pkey" PRIMARY KEY ("spreadsheet_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "yjs_documents" ADD CONSTRAINT "yjs_documents_spreadsheet_id_fkey" FOREIGN KEY ("spreadsheet_id") REFERENCES "spreadsheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "spreadsheets" ADD COLUMN "calc_settings" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "scopes" TEXT[] DEFAULT ARRAY['spreadsheets:read', 'cells:write', 'export', 'webhooks:manage']::TEXT[],
+ADD COLUMN "spreadsheet_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
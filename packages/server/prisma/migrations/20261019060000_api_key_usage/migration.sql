@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "api_key_usage" (
+    "id" TEXT NOT NULL,
+    "api_key_id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_key_usage_api_key_id_day_key" ON "api_key_usage"("api_key_id", "day");
+
+-- AddForeignKey
+ALTER TABLE "api_key_usage" ADD CONSTRAINT "api_key_usage_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN "email_digest" TEXT NOT NULL DEFAULT 'off',
+ADD COLUMN "last_digest_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "email_digest_items" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_digest_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_digest_items_user_id_created_at_idx" ON "email_digest_items"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "email_digest_items" ADD CONSTRAINT "email_digest_items_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "totp_secret" TEXT,
+ADD COLUMN "totp_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "totp_last_step" INTEGER,
+ADD COLUMN "recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE "spreadsheets" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "folders" ALTER COLUMN "team_id" DROP NOT NULL,
+ADD COLUMN "owner_id" TEXT,
+ADD COLUMN "parent_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#5f6368',
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "spreadsheet_tags" (
+    "id" TEXT NOT NULL,
+    "spreadsheet_id" TEXT NOT NULL,
+    "tag_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "spreadsheet_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "spreadsheets_deleted_at_idx" ON "spreadsheets"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "folders_owner_id_idx" ON "folders"("owner_id");
+
+-- CreateIndex
+CREATE INDEX "folders_parent_id_idx" ON "folders"("parent_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_user_id_name_key" ON "tags"("user_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "spreadsheet_tags_spreadsheet_id_tag_id_key" ON "spreadsheet_tags"("spreadsheet_id", "tag_id");
+
+-- CreateIndex
+CREATE INDEX "spreadsheet_tags_tag_id_idx" ON "spreadsheet_tags"("tag_id");
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tags" ADD CONSTRAINT "tags_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "spreadsheet_tags" ADD CONSTRAINT "spreadsheet_tags_spreadsheet_id_fkey" FOREIGN KEY ("spreadsheet_id") REFERENCES "spreadsheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "spreadsheet_tags" ADD CONSTRAINT "spreadsheet_tags_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Plain text of every cell value in a sheet's cell_data, for the search index
+CREATE FUNCTION "cell_search_text"("cells" JSONB) RETURNS TEXT
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+  SELECT coalesce(string_agg("cell"."value" ->> 'value', ' '), '')
+  FROM jsonb_each(CASE WHEN jsonb_typeof("cells") = 'object' THEN "cells" ELSE '{}'::JSONB END) AS "cell"
+$$;
+
+-- AlterTable
+ALTER TABLE "sheets" ADD COLUMN "search_vector" TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', "cell_search_text"("cell_data"))) STORED;
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN "search_vector" TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', "text")) STORED;
+
+-- CreateIndex
+CREATE INDEX "sheets_search_vector_idx" ON "sheets" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "comments_search_vector_idx" ON "comments" USING GIN ("search_vector");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "protected_ranges" (
+    "id" TEXT NOT NULL,
+    "spreadsheet_id" TEXT NOT NULL,
+    "sheet_id" TEXT NOT NULL,
+    "start_row" INTEGER,
+    "start_col" INTEGER,
+    "end_row" INTEGER,
+    "end_col" INTEGER,
+    "description" TEXT,
+    "editor_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "protected_ranges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "protected_ranges_spreadsheet_id_idx" ON "protected_ranges"("spreadsheet_id");
+
+-- CreateIndex
+CREATE INDEX "protected_ranges_sheet_id_idx" ON "protected_ranges"("sheet_id");
+
+-- AddForeignKey
+ALTER TABLE "protected_ranges" ADD CONSTRAINT "protected_ranges_spreadsheet_id_fkey" FOREIGN KEY ("spreadsheet_id") REFERENCES "spreadsheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "protected_ranges" ADD CONSTRAINT "protected_ranges_sheet_id_fkey" FOREIGN KEY ("sheet_id") REFERENCES "sheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
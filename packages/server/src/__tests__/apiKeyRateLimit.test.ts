@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../models/prisma", () => ({
+  default: { apiKeyUsage: { upsert: vi.fn() } },
+}));
+
+vi.mock("../config/redis", () => ({
+  getRedisClient: vi.fn(),
+}));
+
+import { getRedisClient } from "../config/redis";
+import {
+  resetMemoryBuckets,
+  takeMemoryToken,
+  takeToken,
+} from "../middleware/apiKeyRateLimit";
+
+const mockGetRedisClient = getRedisClient as unknown as ReturnType<
+  typeof vi.fn
+>;
+
+describe("API key token bucket", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryBuckets();
+  });
+
+  it("allows a burst up to the limit, then refills at the per-minute rate", () => {
+    for (let i = 0; i < 60; i++) {
+      expect(takeMemoryToken("key-1", 60, 0).allowed).toBe(true);
+    }
+
+    const refused = takeMemoryToken("key-1", 60, 0);
+    expect(refused).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 1,
+      resetSeconds: 60,
+    });
+
+    // One token a second at 60/minute
+    expect(takeMemoryToken("key-1", 60, 1000).allowed).toBe(true);
+    expect(takeMemoryToken("key-1", 60, 1000).allowed).toBe(false);
+    // Other keys have their own bucket
+    expect(takeMemoryToken("key-2", 60, 1000).remaining).toBe(59);
+  });
+
+  it("never refills past the limit", () => {
+    takeMemoryToken("key-1", 10, 0);
+    expect(takeMemoryToken("key-1", 10, 3_600_000).remaining).toBe(9);
+  });
+
+  it("uses Redis when connected and falls back to memory on errors", async () => {
+    const evalMock = vi.fn().mockResolvedValue([1, "4.5"]);
+    mockGetRedisClient.mockReturnValue({ status: "ready", eval: evalMock });
+
+    expect(await takeToken("key-1", 10)).toMatchObject({
+      allowed: true,
+      remaining: 4,
+    });
+    expect(evalMock).toHaveBeenCalledWith(
+      expect.stringContaining("HMGET"),
+      1,
+      "ratelimit:apikey:key-1",
+      10,
+      10 / 60_000,
+    );
+
+    evalMock.mockRejectedValue(new Error("connection lost"));
+    expect(await takeToken("key-1", 10)).toMatchObject({
+      allowed: true,
+      remaining: 9,
+    });
+
+    mockGetRedisClient.mockReturnValue(null);
+    expect((await takeToken("key-1", 10)).remaining).toBe(8);
+  });
+});
@@ -11,6 +11,12 @@ vi.mock("../models/prisma", () => {
       update: vi.fn(),
       delete: vi.fn(),
     },
+    session: {
+      create: vi.fn().mockResolvedValue({ id: "session-1" }),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUnique: vi.fn(),
+    },
     $disconnect: vi.fn(),
   };
   return { default: mockPrisma };
@@ -26,6 +32,8 @@ vi.mock("bcryptjs", () => ({
 
 import prisma from "../models/prisma";
 import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { OutboxTransport, setEmailTransport } from "../services/email.service";
 
 const mockPrisma = prisma as unknown as {
   user: {
@@ -198,6 +206,62 @@ describe("Auth Routes", () => {
       expect(res.status).toBe(200);
       expect(res.body.success).toBe(true);
     });
+
+    it("emails a reset link that resets the password", async () => {
+      const outbox = new OutboxTransport();
+      setEmailTransport(outbox);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        name: "Test <User>",
+      });
+
+      const res = await request(app)
+        .post("/api/auth/forgot-password")
+        .send({ email: "test@example.com" });
+      setEmailTransport(null);
+
+      expect(res.status).toBe(200);
+      expect(outbox.sent).toHaveLength(1);
+      const email = outbox.sent[0];
+      expect(email.to).toBe("test@example.com");
+      expect(email.subject).toBe("Reset your GridSpace password");
+      expect(email.html).toContain("Test &lt;User&gt;");
+      expect(email.text).toContain("Test <User>");
+
+      const token = decodeURIComponent(
+        email.text.match(/reset-password\?token=(\S+)/)![1],
+      );
+      expect(jwt.decode(token)).toMatchObject({
+        userId: "user-1",
+        type: "reset",
+      });
+
+      mockPrisma.user.update.mockResolvedValue({});
+      const reset = await request(app)
+        .post("/api/auth/reset-password")
+        .send({ token, password: "newpassword123" });
+      expect(reset.status).toBe(200);
+    });
+
+    it("still succeeds when the email cannot be sent", async () => {
+      setEmailTransport({
+        name: "broken",
+        send: vi.fn().mockRejectedValue(new Error("SMTP down")),
+      });
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: "user-1",
+        email: "test@example.com",
+        name: null,
+      });
+
+      const res = await request(app)
+        .post("/api/auth/forgot-password")
+        .send({ email: "test@example.com" });
+      setEmailTransport(null);
+
+      expect(res.status).toBe(200);
+    });
   });
 
   describe("Protected routes", () => {
@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+vi.mock("../models/prisma", () => ({
+  default: {
+    user: { findUnique: vi.fn() },
+    spreadsheet: { findUnique: vi.fn() },
+    emailDigestItem: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    notificationPreference: { updateMany: vi.fn() },
+  },
+}));
+
+import prisma from "../models/prisma";
+import { OutboxTransport, setEmailTransport } from "../services/email.service";
+import {
+  digestEmail,
+  escapeHtml,
+  mentionEmail,
+  shareInviteEmail,
+} from "../services/emailTemplates";
+import {
+  deliverNotificationEmail,
+  sendDueDigests,
+} from "../services/notificationEmail.service";
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: ReturnType<typeof vi.fn> };
+  spreadsheet: { findUnique: ReturnType<typeof vi.fn> };
+  emailDigestItem: {
+    create: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+  notificationPreference: { updateMany: ReturnType<typeof vi.fn> };
+};
+
+describe("Email templates", () => {
+  it("escapes user content in HTML but not in text", () => {
+    const email = mentionEmail({
+      actorName: "Eve <script>",
+      spreadsheetTitle: 'Q1 "Budget"',
+      cellRef: "B2",
+      excerpt: "@bob see <b>this</b> & that",
+      url: "http://localhost:5173/spreadsheet/s1",
+    });
+
+    expect(email.subject).toBe('Eve <script> mentioned you in "Q1 "Budget""');
+    expect(email.html).toContain("Eve &lt;script&gt;");
+    expect(email.html).toContain("see &lt;b&gt;this&lt;/b&gt; &amp; that");
+    expect(email.html).not.toContain("<script>");
+    expect(email.text).toContain("> @bob see <b>this</b> & that");
+    expect(email.text).toContain("http://localhost:5173/spreadsheet/s1");
+  });
+
+  it("links the call to action in both bodies", () => {
+    const email = shareInviteEmail({
+      actorName: "Alice",
+      spreadsheetTitle: "Roadmap",
+      role: "editor",
+      url: "http://localhost:5173/spreadsheet/s1?a=1&b=2",
+    });
+
+    expect(email.html).toContain(
+      'href="http://localhost:5173/spreadsheet/s1?a=1&amp;b=2"',
+    );
+    expect(email.text).toContain('Alice shared "Roadmap" with you as editor.');
+  });
+
+  it("lists every digest entry", () => {
+    const email = digestEmail({
+      name: "Bob",
+      entries: [
+        { title: "Mention", message: "Alice mentioned you", url: "http://a" },
+        { title: "Reply", message: "Carol replied", url: null },
+      ],
+      settingsUrl: "http://localhost:5173/profile",
+    });
+
+    expect(email.subject).toBe("Your GridSpace digest: 2 notifications");
+    expect(email.text).toContain(
+      "- Mention\n  Alice mentioned you\n  http://a",
+    );
+    expect(email.text).toContain("- Reply\n  Carol replied");
+    expect(email.html.match(/<li /g)).toHaveLength(2);
+    expect(escapeHtml(`'"`)).toBe("&#39;&quot;");
+  });
+});
+
+describe("OutboxTransport", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "outbox-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps sent emails and writes them as .eml files", async () => {
+    const outbox = new OutboxTransport(dir);
+    await outbox.send({
+      from: "GridSpace <no-reply@gridspace.local>",
+      to: "bob@example.com",
+      subject: "Hello",
+      html: "<p>Hi</p>",
+      text: "Hi",
+    });
+
+    expect(outbox.sent).toHaveLength(1);
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    const eml = await fs.readFile(path.join(dir, files[0]), "utf8");
+    expect(eml).toContain("To: bob@example.com");
+    expect(eml).toContain("Subject: Hello");
+    expect(eml).toContain("multipart/alternative");
+  });
+});
+
+describe("Notification emails", () => {
+  let outbox: OutboxTransport;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    outbox = new OutboxTransport();
+    setEmailTransport(outbox);
+  });
+
+  afterEach(() => {
+    setEmailTransport(null);
+  });
+
+  const mention = {
+    userId: "user-2",
+    type: "mention",
+    title: "You were mentioned in a comment",
+    message: 'Alice mentioned you: "@bob look"',
+    spreadsheetId: "ss-1",
+    cellRef: "A1",
+    fromUserName: "Alice",
+    excerpt: "@bob look",
+  };
+
+  it("sends immediately when digests are off", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      email: "bob@example.com",
+      notificationPrefs: [],
+    });
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({ title: "Budget" });
+
+    await deliverNotificationEmail(mention);
+
+    expect(mockPrisma.emailDigestItem.create).not.toHaveBeenCalled();
+    expect(outbox.sent).toHaveLength(1);
+    expect(outbox.sent[0].subject).toBe('Alice mentioned you in "Budget"');
+    expect(outbox.sent[0].text).toContain("on A1");
+  });
+
+  it("queues the notification when the user wants a digest", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      email: "bob@example.com",
+      notificationPrefs: [{ emailDigest: "daily" }],
+    });
+
+    await deliverNotificationEmail(mention);
+
+    expect(outbox.sent).toHaveLength(0);
+    expect(mockPrisma.emailDigestItem.create).toHaveBeenCalledWith({
+      data: {
+        userId: "user-2",
+        type: "mention",
+        title: mention.title,
+        message: mention.message,
+        url: "http://localhost:5173/spreadsheet/ss-1",
+      },
+    });
+  });
+
+  it("batches due digest items into one email per user", async () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    mockPrisma.emailDigestItem.findMany
+      .mockResolvedValueOnce([{ userId: "user-2" }, { userId: "user-3" }])
+      .mockResolvedValueOnce([
+        {
+          id: "item-1",
+          title: "Mention",
+          message: "Alice mentioned you",
+          url: null,
+          createdAt: new Date("2026-10-19T10:00:00Z"),
+        },
+        {
+          id: "item-2",
+          title: "Reply",
+          message: "Carol replied",
+          url: null,
+          createdAt: new Date("2026-10-19T10:30:00Z"),
+        },
+      ])
+      .mockResolvedValueOnce([
+        {
+          id: "item-3",
+          title: "Share",
+          message: "Dan shared a sheet",
+          url: null,
+          createdAt: new Date("2026-10-19T11:00:00Z"),
+        },
+      ]);
+    mockPrisma.user.findUnique
+      // Hourly, last digest two hours ago — due
+      .mockResolvedValueOnce({
+        email: "bob@example.com",
+        name: "Bob",
+        notificationPrefs: [
+          {
+            emailDigest: "hourly",
+            lastDigestAt: new Date("2026-10-19T10:00:00Z"),
+          },
+        ],
+      })
+      // Daily, last digest this morning — not due yet
+      .mockResolvedValueOnce({
+        email: "carol@example.com",
+        name: "Carol",
+        notificationPrefs: [
+          {
+            emailDigest: "daily",
+            lastDigestAt: new Date("2026-10-19T06:00:00Z"),
+          },
+        ],
+      });
+
+    const sent = await sendDueDigests(now);
+
+    expect(sent).toBe(1);
+    expect(outbox.sent).toHaveLength(1);
+    expect(outbox.sent[0].to).toBe("bob@example.com");
+    expect(outbox.sent[0].subject).toBe(
+      "Your GridSpace digest: 2 notifications",
+    );
+    expect(mockPrisma.emailDigestItem.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ["item-1", "item-2"] } },
+    });
+    expect(mockPrisma.notificationPreference.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-2", spreadsheetId: null },
+      data: { lastDigestAt: now },
+    });
+  });
+
+  it("keeps digest items when sending fails", async () => {
+    setEmailTransport({
+      name: "broken",
+      send: vi.fn().mockRejectedValue(new Error("SMTP down")),
+    });
+    mockPrisma.emailDigestItem.findMany
+      .mockResolvedValueOnce([{ userId: "user-2" }])
+      .mockResolvedValueOnce([
+        {
+          id: "item-1",
+          title: "Mention",
+          message: "Alice mentioned you",
+          url: null,
+          createdAt: new Date("2026-10-18T10:00:00Z"),
+        },
+      ]);
+    mockPrisma.user.findUnique.mockResolvedValueOnce({
+      email: "bob@example.com",
+      name: "Bob",
+      notificationPrefs: [{ emailDigest: "daily", lastDigestAt: null }],
+    });
+
+    const sent = await sendDueDigests(new Date("2026-10-19T12:00:00Z"));
+
+    expect(sent).toBe(0);
+    expect(mockPrisma.emailDigestItem.deleteMany).not.toHaveBeenCalled();
+  });
+});
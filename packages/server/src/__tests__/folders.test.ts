@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import { app } from "../app";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    spreadsheet: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+    teamMember: {
+      findUnique: vi.fn(),
+    },
+    folder: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    tag: {
+      findUnique: vi.fn(),
+    },
+    spreadsheetTag: {
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("../services/auth.service", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    verifyAccessToken: vi.fn().mockReturnValue({
+      userId: "user-1",
+      email: "test@example.com",
+    }),
+  };
+});
+
+import prisma from "../models/prisma";
+import { effectiveRole } from "../services/access.service";
+import { purgeTrash } from "../services/spreadsheet.service";
+
+type Mock = ReturnType<typeof vi.fn>;
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: Mock };
+  spreadsheet: {
+    findMany: Mock;
+    findUnique: Mock;
+    update: Mock;
+    updateMany: Mock;
+    delete: Mock;
+    deleteMany: Mock;
+    count: Mock;
+  };
+  teamMember: { findUnique: Mock };
+  folder: {
+    findUnique: Mock;
+    findMany: Mock;
+    update: Mock;
+    updateMany: Mock;
+    delete: Mock;
+  };
+  tag: { findUnique: Mock };
+  spreadsheetTag: { upsert: Mock };
+  $transaction: Mock;
+};
+
+const authHeader = { Authorization: "Bearer valid-test-token" };
+
+/** Personal folders of user-1, by ID → parent ID */
+function personalFolders(tree: Record<string, string | null>) {
+  mockPrisma.folder.findUnique.mockImplementation(
+    ({ where }: { where: { id: string } }) =>
+      Promise.resolve(
+        where.id in tree
+          ? {
+              id: where.id,
+              teamId: null,
+              ownerId: "user-1",
+              parentId: tree[where.id],
+            }
+          : null,
+      ),
+  );
+  mockPrisma.folder.findMany.mockResolvedValue(
+    Object.entries(tree).map(([id, parentId]) => ({ id, parentId })),
+  );
+}
+
+describe("effectiveRole with nested folders", () => {
+  it("applies grants on any enclosing folder, and none in the trash", () => {
+    const nested = {
+      ownerId: "owner",
+      access: [],
+      folder: {
+        access: [],
+        parent: { access: [], parent: { access: [{ role: "editor" }] } },
+      },
+    };
+    expect(effectiveRole(nested, "user-1")).toBe("editor");
+    expect(
+      effectiveRole({ ...nested, deletedAt: new Date() }, "user-1"),
+    ).toBeNull();
+  });
+});
+
+describe("Folders, tags and trash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.folder.findUnique.mockReset();
+    mockPrisma.spreadsheet.findUnique.mockReset();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+    mockPrisma.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma),
+    );
+  });
+
+  it("won't move a folder into its own subfolder", async () => {
+    personalFolders({ a: null, b: "a", c: "b" });
+
+    const res = await request(app)
+      .patch("/api/folders/a")
+      .set(authHeader)
+      .send({ parentId: "c" });
+
+    expect(res.status).toBe(422);
+    expect(mockPrisma.folder.update).not.toHaveBeenCalled();
+  });
+
+  it("limits how deep folders nest", async () => {
+    personalFolders({
+      a: null,
+      b: "a",
+      c: "b",
+      d: "c",
+      e: "d",
+      x: null,
+      y: "x",
+    });
+
+    const res = await request(app)
+      .patch("/api/folders/x")
+      .set(authHeader)
+      .send({ parentId: "d" });
+
+    expect(res.status).toBe(422);
+  });
+
+  it("moves a deleted folder's contents up to its parent", async () => {
+    personalFolders({ a: null, b: "a" });
+
+    const res = await request(app).delete("/api/folders/b").set(authHeader);
+
+    expect(res.status).toBe(204);
+    expect(mockPrisma.folder.updateMany).toHaveBeenCalledWith({
+      where: { parentId: "b" },
+      data: { parentId: "a" },
+    });
+    expect(mockPrisma.spreadsheet.updateMany).toHaveBeenCalledWith({
+      where: { folderId: "b" },
+      data: { folderId: "a" },
+    });
+    expect(mockPrisma.folder.delete).toHaveBeenCalledWith({
+      where: { id: "b" },
+    });
+  });
+
+  it("hides other users' personal folders", async () => {
+    mockPrisma.folder.findUnique.mockResolvedValue({
+      id: "f-1",
+      teamId: null,
+      ownerId: "user-2",
+      parentId: null,
+    });
+
+    const res = await request(app).delete("/api/folders/f-1").set(authHeader);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("lists the trash separately from everything else", async () => {
+    mockPrisma.spreadsheet.findMany.mockResolvedValue([]);
+    mockPrisma.spreadsheet.count.mockResolvedValue(0);
+
+    await request(app).get("/api/spreadsheets?tagId=tag-1").set(authHeader);
+    const listWhere = mockPrisma.spreadsheet.findMany.mock.calls[0][0].where;
+    expect(listWhere.deletedAt).toBeNull();
+    expect(listWhere.tags).toEqual({
+      some: { tagId: "tag-1", tag: { userId: "user-1" } },
+    });
+
+    await request(app).get("/api/spreadsheets?filter=trash").set(authHeader);
+    const trashWhere = mockPrisma.spreadsheet.findMany.mock.calls[1][0].where;
+    expect(trashWhere.deletedAt).toEqual({ not: null });
+    expect(trashWhere.OR).toEqual([
+      { ownerId: "user-1" },
+      { deletedById: "user-1" },
+    ]);
+  });
+
+  it("treats trashed spreadsheets as gone until restored", async () => {
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+      ownerId: "user-1",
+      deletedAt: new Date(),
+      deletedById: "user-1",
+      access: [],
+    });
+
+    const open = await request(app)
+      .get("/api/spreadsheets/ss-1")
+      .set(authHeader);
+    expect(open.status).toBe(404);
+
+    mockPrisma.spreadsheet.update.mockResolvedValue({ id: "ss-1" });
+    const restored = await request(app)
+      .post("/api/spreadsheets/ss-1/restore")
+      .set(authHeader);
+    expect(restored.status).toBe(200);
+    expect(mockPrisma.spreadsheet.update.mock.calls[0][0].data).toEqual({
+      deletedAt: null,
+      deletedById: null,
+    });
+  });
+
+  it("only permanently deletes spreadsheets in the trash", async () => {
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+      ownerId: "user-1",
+      deletedAt: null,
+      access: [],
+    });
+
+    const res = await request(app)
+      .delete("/api/spreadsheets/ss-1/permanent")
+      .set(authHeader);
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.spreadsheet.delete).not.toHaveBeenCalled();
+  });
+
+  it("reports per-spreadsheet failures from bulk actions", async () => {
+    mockPrisma.spreadsheet.findUnique.mockImplementation(
+      ({ where }: { where: { id: string } }) =>
+        Promise.resolve({
+          ownerId: where.id === "ss-1" ? "user-1" : "user-2",
+          access: [{ role: "editor" }],
+        }),
+    );
+    mockPrisma.spreadsheet.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .post("/api/spreadsheets/bulk")
+      .set(authHeader)
+      .send({ ids: ["ss-1", "ss-2"], action: "trash" });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({
+      succeeded: ["ss-1"],
+      failed: [{ id: "ss-2", error: "Only the owner can perform this action" }],
+    });
+  });
+
+  it("only tags with the user's own tags", async () => {
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+      ownerId: "user-2",
+      access: [{ role: "viewer" }],
+    });
+    mockPrisma.tag.findUnique.mockResolvedValue({
+      id: "tag-1",
+      name: "Q3",
+      color: "#5f6368",
+      userId: "user-2",
+    });
+
+    const res = await request(app)
+      .post("/api/spreadsheets/ss-1/tags")
+      .set(authHeader)
+      .send({ tagId: "tag-1" });
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.spreadsheetTag.upsert).not.toHaveBeenCalled();
+  });
+
+  it("purges spreadsheets trashed more than 30 days ago", async () => {
+    mockPrisma.spreadsheet.deleteMany.mockResolvedValue({ count: 2 });
+
+    const count = await purgeTrash(new Date("2026-10-31T00:00:00.000Z"));
+
+    expect(count).toBe(2);
+    expect(mockPrisma.spreadsheet.deleteMany).toHaveBeenCalledWith({
+      where: { deletedAt: { lt: new Date("2026-10-01T00:00:00.000Z") } },
+    });
+  });
+});
@@ -207,6 +207,39 @@ describe("Notification Routes", () => {
 
       expect(res.status).toBe(200);
       expect(res.body.data.emailSharing).toBe(true);
+      expect(res.body.data.emailDigest).toBe("off");
+    });
+
+    it("saves the email digest mode", async () => {
+      mockPrisma.notificationPreference.upsert.mockResolvedValue({
+        emailSharing: true,
+        emailComments: true,
+        emailMentions: true,
+        inAppSharing: true,
+        inAppComments: true,
+        inAppMentions: true,
+        emailDigest: "daily",
+      });
+
+      const res = await request(app)
+        .put("/api/notifications/preferences")
+        .set(authHeader)
+        .send({ emailDigest: "daily" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.emailDigest).toBe("daily");
+      expect(
+        mockPrisma.notificationPreference.upsert.mock.calls[0][0].update,
+      ).toMatchObject({ emailDigest: "daily" });
+    });
+
+    it("rejects an unknown digest mode", async () => {
+      const res = await request(app)
+        .put("/api/notifications/preferences")
+        .set(authHeader)
+        .send({ emailDigest: "weekly" });
+
+      expect(res.status).toBe(422);
     });
   });
 });
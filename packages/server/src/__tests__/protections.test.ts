@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import { app } from "../app";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    spreadsheet: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    sheet: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    protectedRange: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("../services/auth.service", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    verifyAccessToken: vi.fn().mockReturnValue({
+      userId: "user-1",
+      email: "test@example.com",
+    }),
+  };
+});
+
+import prisma from "../models/prisma";
+import { cellWriteGuard } from "../services/protection.service";
+
+type Mock = ReturnType<typeof vi.fn>;
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: Mock; findMany: Mock };
+  spreadsheet: { findUnique: Mock; update: Mock };
+  sheet: { findFirst: Mock; findUnique: Mock; updateMany: Mock };
+  protectedRange: { findMany: Mock; create: Mock };
+  $transaction: Mock;
+};
+
+const authHeader = { Authorization: "Bearer valid-test-token" };
+
+/** B2:C3 on sheet-1, "Totals" */
+const totals = {
+  id: "prot-1",
+  sheetId: "sheet-1",
+  startRow: 1,
+  startCol: 1,
+  endRow: 2,
+  endCol: 2,
+  description: "Totals",
+  editorIds: [] as string[],
+};
+
+const wholeSheet = {
+  ...totals,
+  id: "prot-2",
+  startRow: null,
+  startCol: null,
+  endRow: null,
+  endCol: null,
+  description: null,
+};
+
+function asEditor() {
+  mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+    ownerId: "owner-1",
+    access: [{ role: "editor" }],
+  });
+}
+
+function asOwner() {
+  mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+    ownerId: "user-1",
+    access: [],
+  });
+}
+
+describe("cellWriteGuard", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("checks row,col and A1 keys against the range", async () => {
+    mockPrisma.protectedRange.findMany.mockResolvedValue([totals]);
+
+    const check = await cellWriteGuard("ss-1", "sheet-1", "user-1", "editor");
+
+    expect(() => check(["0,0", "D4", "a1"])).not.toThrow();
+    expect(() => check(["2,2"])).toThrow(
+      "Cell C3 is in protected range B2:C3 (Totals). Ask the owner for edit access",
+    );
+    expect(() => check(["b2"])).toThrow("B2:C3");
+  });
+
+  it("lets listed editors and owners through", async () => {
+    mockPrisma.protectedRange.findMany.mockResolvedValue([
+      { ...totals, editorIds: ["user-1"] },
+    ]);
+    const listed = await cellWriteGuard("ss-1", "sheet-1", "user-1", "editor");
+    expect(() => listed(["B2"])).not.toThrow();
+
+    mockPrisma.protectedRange.findMany.mockClear();
+    const owner = await cellWriteGuard("ss-1", "sheet-1", "user-1", "owner");
+    expect(() => owner(["B2"])).not.toThrow();
+    expect(mockPrisma.protectedRange.findMany).not.toHaveBeenCalled();
+  });
+
+  it("protects every cell of a protected sheet", async () => {
+    mockPrisma.protectedRange.findMany.mockResolvedValue([wholeSheet]);
+
+    const check = await cellWriteGuard("ss-1", "sheet-1", "user-1", "editor");
+
+    expect(() => check(["999,40"])).toThrow("is on a protected sheet");
+  });
+});
+
+describe("Protection routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(mockPrisma),
+    );
+  });
+
+  it("lists protections with whether the caller can edit them", async () => {
+    asEditor();
+    mockPrisma.protectedRange.findMany.mockResolvedValue([
+      totals,
+      { ...wholeSheet, editorIds: ["user-1"] },
+    ]);
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: "user-1", name: "Test User", email: "test@example.com" },
+    ]);
+
+    const res = await request(app)
+      .get("/api/spreadsheets/ss-1/protections")
+      .set(authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.canManage).toBe(false);
+    expect(res.body.data.protections[0]).toMatchObject({
+      range: { startRow: 1, startCol: 1, endRow: 2, endCol: 2 },
+      canEdit: false,
+      editors: [],
+    });
+    expect(res.body.data.protections[1]).toMatchObject({
+      range: null,
+      canEdit: true,
+      editors: [{ id: "user-1" }],
+    });
+  });
+
+  it("only lets the owner add protections", async () => {
+    asEditor();
+
+    const res = await request(app)
+      .post("/api/spreadsheets/ss-1/protections")
+      .set(authHeader)
+      .send({ sheetId: "sheet-1" });
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.protectedRange.create).not.toHaveBeenCalled();
+  });
+
+  it("protects a range for the listed editors", async () => {
+    asOwner();
+    mockPrisma.sheet.findFirst.mockResolvedValue({ id: "sheet-1" });
+    mockPrisma.user.findMany
+      .mockResolvedValueOnce([{ id: "user-2", email: "bob@example.com" }])
+      .mockResolvedValueOnce([
+        { id: "user-2", name: "Bob", email: "bob@example.com" },
+      ]);
+    mockPrisma.protectedRange.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => ({
+        id: "prot-3",
+        ...data,
+      }),
+    );
+
+    const res = await request(app)
+      .post("/api/spreadsheets/ss-1/protections")
+      .set(authHeader)
+      .send({
+        sheetId: "sheet-1",
+        range: { startRow: 4, startCol: 2, endRow: 0, endCol: 0 },
+        description: "  Rates ",
+        editorEmails: ["Bob@example.com"],
+      });
+
+    expect(res.status).toBe(201);
+    const data = mockPrisma.protectedRange.create.mock.calls[0][0].data;
+    expect(data).toMatchObject({
+      startRow: 0,
+      startCol: 0,
+      endRow: 4,
+      endCol: 2,
+      description: "Rates",
+      editorIds: ["user-2"],
+    });
+    expect(res.body.data.editors).toEqual([
+      { id: "user-2", name: "Bob", email: "bob@example.com" },
+    ]);
+  });
+
+  it("rejects unknown editor emails", async () => {
+    asOwner();
+    mockPrisma.sheet.findFirst.mockResolvedValue({ id: "sheet-1" });
+    mockPrisma.user.findMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post("/api/spreadsheets/ss-1/protections")
+      .set(authHeader)
+      .send({ sheetId: "sheet-1", editorEmails: ["nobody@example.com"] });
+
+    expect(res.status).toBe(404);
+    expect(res.body.error.message).toContain("nobody@example.com");
+  });
+
+  describe("auto-save", () => {
+    beforeEach(() => {
+      mockPrisma.sheet.findFirst.mockResolvedValue({
+        cellData: { "1,1": { value: 10 } },
+        cellRevisions: { "1,1": 1 },
+        revision: 1,
+      });
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.sheet.findUnique.mockResolvedValue({
+        updatedAt: new Date(),
+        objectsVersion: 0,
+      });
+      mockPrisma.spreadsheet.update.mockResolvedValue({});
+      mockPrisma.protectedRange.findMany.mockResolvedValue([totals]);
+    });
+
+    it("rejects an editor's write to a protected cell", async () => {
+      asEditor();
+
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ upserts: { "0,0": { value: 1 }, "1,1": { value: 11 } } });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error.message).toContain("protected range B2:C3");
+      expect(mockPrisma.sheet.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("checks the cells a full save actually changes", async () => {
+      asEditor();
+
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ cellData: { "1,1": { value: 10 }, "5,5": { value: 1 } } });
+
+      expect(res.status).toBe(200);
+    });
+
+    it("lets the owner write protected cells", async () => {
+      asOwner();
+
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ deletes: ["1,1"] });
+
+      expect(res.status).toBe(200);
+    });
+  });
+});
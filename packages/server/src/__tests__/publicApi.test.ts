@@ -17,7 +17,9 @@ vi.mock("../models/prisma", () => {
     sheet: {
       findMany: vi.fn(),
       findFirst: vi.fn(),
+      findUnique: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
     },
     apiKey: {
       findMany: vi.fn(),
@@ -33,6 +35,19 @@ vi.mock("../models/prisma", () => {
       update: vi.fn(),
       delete: vi.fn(),
     },
+    webhookDelivery: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    apiKeyUsage: {
+      upsert: vi.fn(),
+      findMany: vi.fn(),
+    },
+    yjsDocument: { deleteMany: vi.fn() },
     $transaction: vi.fn(),
     $disconnect: vi.fn(),
   };
@@ -62,6 +77,7 @@ vi.mock("bcryptjs", () => ({
 }));
 
 import prisma from "../models/prisma";
+import { resetMemoryBuckets } from "../middleware/apiKeyRateLimit";
 
 const mockPrisma = prisma as unknown as {
   user: { findUnique: ReturnType<typeof vi.fn> };
@@ -76,7 +92,9 @@ const mockPrisma = prisma as unknown as {
   sheet: {
     findMany: ReturnType<typeof vi.fn>;
     findFirst: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
   };
   apiKey: {
     findMany: ReturnType<typeof vi.fn>;
@@ -92,6 +110,20 @@ const mockPrisma = prisma as unknown as {
     update: ReturnType<typeof vi.fn>;
     delete: ReturnType<typeof vi.fn>;
   };
+  webhookDelivery: {
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+  };
+  apiKeyUsage: {
+    upsert: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+  };
+  yjsDocument: { deleteMany: ReturnType<typeof vi.fn> };
+  $transaction: ReturnType<typeof vi.fn>;
 };
 
 const apiKeyHeader = {
@@ -117,9 +149,29 @@ describe("Public API (S16-001 to S16-005)", () => {
         userId: "user-1",
         keyHash: "hashed-key",
         expiresAt: null,
+        scopes: [
+          "spreadsheets:read",
+          "cells:write",
+          "export",
+          "webhooks:manage",
+        ],
+        spreadsheetIds: [],
+        rateLimit: 60,
       },
     ]);
     mockPrisma.apiKey.update.mockResolvedValue({});
+    mockPrisma.apiKeyUsage.upsert.mockResolvedValue({});
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(mockPrisma),
+    );
+    mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.sheet.findUnique.mockResolvedValue({
+      objectsVersion: 1,
+      updatedAt: new Date(),
+    });
+    mockPrisma.spreadsheet.update.mockResolvedValue({});
+    mockPrisma.yjsDocument.deleteMany.mockResolvedValue({ count: 0 });
+    resetMemoryBuckets();
   });
 
   describe("GET /api/v1/spreadsheets/:id (S16-001)", () => {
@@ -267,10 +319,10 @@ describe("Public API (S16-001 to S16-005)", () => {
 
       mockPrisma.sheet.findFirst.mockResolvedValue({
         cellData: { A1: { value: "old" } },
+        cellRevisions: {},
+        revision: 3,
       });
-
-      mockPrisma.sheet.update.mockResolvedValue({});
-      mockPrisma.spreadsheet.update.mockResolvedValue({});
+      mockPrisma.sheet.findMany.mockResolvedValue([]);
       mockPrisma.webhook.findMany.mockResolvedValue([]);
 
       const res = await request(app)
@@ -286,6 +338,70 @@ describe("Public API (S16-001 to S16-005)", () => {
       expect(res.status).toBe(200);
       expect(res.body.success).toBe(true);
       expect(res.body.data.updatedCells).toBe(2);
+      // Written as a revisioned commit, so concurrent saves are not lost
+      expect(mockPrisma.sheet.updateMany).toHaveBeenCalledWith({
+        where: { id: "sh-1", revision: 3 },
+        data: {
+          cellData: { A1: { value: "new" }, B1: { value: 100 } },
+          cellRevisions: { A1: 4, B1: 4 },
+          revision: 4,
+        },
+      });
+      // Nobody has it open, so the next session reseeds from the new cells
+      expect(mockPrisma.yjsDocument.deleteMany).toHaveBeenCalledWith({
+        where: { spreadsheetId: "ss-1" },
+      });
+    });
+
+    it("stores formulas and returns their recalculated values", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "user-1",
+        access: [],
+      });
+      mockPrisma.webhook.findMany.mockResolvedValue([]);
+
+      // Each read sees what the last commit stored
+      const stored = () => {
+        const writes = mockPrisma.sheet.updateMany.mock.calls;
+        if (writes.length === 0) {
+          return { cellData: { "0,0": { value: 2 } }, revision: 1 };
+        }
+        const { data } = writes[writes.length - 1][0];
+        return { cellData: data.cellData, revision: data.revision };
+      };
+      mockPrisma.sheet.findFirst.mockImplementation(async () => ({
+        ...structuredClone(stored()),
+        cellRevisions: {},
+      }));
+      mockPrisma.sheet.findMany.mockImplementation(async () => [
+        { id: "sh-1", name: "Sheet1", ...structuredClone(stored()) },
+      ]);
+
+      const res = await request(app)
+        .put("/api/v1/spreadsheets/ss-1/sheets/sh-1/cells")
+        .set(apiKeyHeader)
+        .send({
+          cells: [
+            { cell: "A1", value: 5 },
+            { cell: "B1", value: "=A1*3" },
+          ],
+        });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.recalculated).toEqual([
+        { sheetId: "sh-1", cell: "B1", value: 15 },
+      ]);
+      // A1 lands on the existing row,col key; the recalc fills in B1
+      const writes = mockPrisma.sheet.updateMany.mock.calls;
+      expect(writes[0][0].data.cellData).toEqual({
+        "0,0": { value: 5 },
+        B1: { value: null, formula: "=A1*3" },
+      });
+      expect(writes[1][0].where.revision).toBe(2);
+      expect(writes[1][0].data.cellData).toEqual({
+        "0,0": { value: 5 },
+        B1: { value: 15, formula: "=A1*3" },
+      });
     });
 
     it("validates request body", async () => {
@@ -378,6 +494,215 @@ describe("Public API (S16-001 to S16-005)", () => {
   });
 });
 
+describe("API key scopes", () => {
+  function useKey(scopes: string[], spreadsheetIds: string[] = []) {
+    mockPrisma.apiKey.findMany.mockResolvedValue([
+      {
+        id: "key-1",
+        userId: "user-1",
+        keyHash: "hashed-key",
+        expiresAt: null,
+        scopes,
+        spreadsheetIds,
+        rateLimit: 60,
+      },
+    ]);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+    mockPrisma.apiKey.update.mockResolvedValue({});
+    mockPrisma.apiKeyUsage.upsert.mockResolvedValue({});
+    resetMemoryBuckets();
+    // Drop lookups queued by earlier tests that stopped before using them
+    mockPrisma.spreadsheet.findUnique.mockReset();
+  });
+
+  it("rejects a write with a read-only key", async () => {
+    useKey(["spreadsheets:read"]);
+
+    const res = await request(app)
+      .put("/api/v1/spreadsheets/ss-1/sheets/sh-1/cells")
+      .set(apiKeyHeader)
+      .send({ cells: [{ cell: "A1", value: 1 }] });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.message).toContain("cells:write");
+    expect(mockPrisma.sheet.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects exports without the export scope", async () => {
+    useKey(["spreadsheets:read", "cells:write"]);
+
+    const res = await request(app)
+      .get("/api/v1/spreadsheets/ss-1/export/csv")
+      .set(apiKeyHeader);
+
+    expect(res.status).toBe(403);
+  });
+
+  it("keeps a pinned key to its spreadsheets", async () => {
+    useKey(["spreadsheets:read"], ["ss-2"]);
+
+    const res = await request(app)
+      .get("/api/v1/spreadsheets/ss-1/sheets")
+      .set(apiKeyHeader);
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.sheet.findMany).not.toHaveBeenCalled();
+  });
+
+  it("lists only webhooks of pinned spreadsheets", async () => {
+    useKey(["webhooks:manage"], ["ss-1"]);
+    mockPrisma.webhook.findMany.mockResolvedValue([
+      { id: "wh-1", spreadsheetId: "ss-1" },
+      { id: "wh-2", spreadsheetId: "ss-2" },
+    ]);
+
+    const res = await request(app).get("/api/v1/webhooks").set(apiKeyHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((w: { id: string }) => w.id)).toEqual(["wh-1"]);
+  });
+
+  it("manages webhooks only with the webhooks:manage scope", async () => {
+    useKey(["spreadsheets:read"]);
+    const body = {
+      spreadsheetId: "ss-1",
+      url: "https://example.com/webhook",
+      events: ["cell.updated"],
+    };
+
+    const denied = await request(app)
+      .post("/api/v1/webhooks")
+      .set(apiKeyHeader)
+      .send(body);
+    expect(denied.status).toBe(403);
+
+    useKey(["webhooks:manage"]);
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+      ownerId: "user-1",
+      access: [],
+    });
+    mockPrisma.webhook.create.mockResolvedValue({ id: "wh-1", ...body });
+
+    const created = await request(app)
+      .post("/api/v1/webhooks")
+      .set(apiKeyHeader)
+      .send(body);
+    expect(created.status).toBe(201);
+    expect(created.body.data.id).toBe("wh-1");
+  });
+
+  it("refuses to delete a webhook outside the key's pins", async () => {
+    useKey(["webhooks:manage"], ["ss-1"]);
+    mockPrisma.webhook.findUnique.mockResolvedValue({ spreadsheetId: "ss-2" });
+
+    const res = await request(app)
+      .delete("/api/v1/webhooks/wh-2")
+      .set(apiKeyHeader);
+
+    expect(res.status).toBe(403);
+    expect(mockPrisma.webhook.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe("Per-key rate limits and usage", () => {
+  function useKey(rateLimit: number) {
+    mockPrisma.apiKey.findMany.mockResolvedValue([
+      {
+        id: "key-1",
+        userId: "user-1",
+        keyHash: "hashed-key",
+        expiresAt: null,
+        scopes: ["webhooks:manage"],
+        spreadsheetIds: [],
+        rateLimit,
+      },
+    ]);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+    mockPrisma.apiKey.update.mockResolvedValue({});
+    mockPrisma.apiKeyUsage.upsert.mockResolvedValue({});
+    mockPrisma.webhook.findMany.mockResolvedValue([]);
+    resetMemoryBuckets();
+  });
+
+  it("sends rate limit headers and refuses requests over the key's limit", async () => {
+    useKey(2);
+
+    const first = await request(app).get("/api/v1/webhooks").set(apiKeyHeader);
+    expect(first.status).toBe(200);
+    expect(first.headers["x-ratelimit-limit"]).toBe("2");
+    expect(first.headers["x-ratelimit-remaining"]).toBe("1");
+
+    await request(app).get("/api/v1/webhooks").set(apiKeyHeader);
+    const limited = await request(app)
+      .get("/api/v1/webhooks")
+      .set(apiKeyHeader);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers["x-ratelimit-remaining"]).toBe("0");
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+    expect(limited.body.error.message).toContain("2 requests/minute");
+  });
+
+  it("records each request and failure against the key", async () => {
+    useKey(60);
+
+    await request(app).get("/api/v1/webhooks").set(apiKeyHeader);
+    await request(app)
+      .get("/api/v1/spreadsheets/ss-1/sheets")
+      .set(apiKeyHeader);
+
+    const increments = mockPrisma.apiKeyUsage.upsert.mock.calls.map(
+      ([args]) => args.update.errors.increment,
+    );
+    expect(increments).toEqual([0, 1]);
+    expect(
+      mockPrisma.apiKeyUsage.upsert.mock.calls[0][0].where.apiKeyId_day
+        .apiKeyId,
+    ).toBe("key-1");
+  });
+
+  it("returns a key's daily usage to its owner", async () => {
+    mockPrisma.apiKey.findUnique.mockResolvedValue({
+      userId: "user-1",
+      rateLimit: 60,
+    });
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    mockPrisma.apiKeyUsage.findMany.mockResolvedValue([
+      { day: today, requests: 12, errors: 2 },
+    ]);
+
+    const res = await request(app)
+      .get("/api/users/me/api-keys/key-1/usage?days=7")
+      .set(authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.daily).toHaveLength(7);
+    expect(res.body.data.daily[6]).toEqual({
+      date: today.toISOString().slice(0, 10),
+      requests: 12,
+      errors: 2,
+    });
+    expect(res.body.data.totals).toEqual({ requests: 12, errors: 2 });
+  });
+});
+
 describe("API Key Management (S16-006 to S16-008)", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -447,6 +772,47 @@ describe("API Key Management (S16-006 to S16-008)", () => {
     });
   });
 
+  describe("PATCH /api/users/me/api-keys/:keyId", () => {
+    it("changes a key's scopes and pinned spreadsheets", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue({ userId: "user-1" });
+      mockPrisma.apiKey.update.mockImplementation(async ({ data }) => ({
+        id: "key-1",
+        ...data,
+      }));
+
+      const res = await request(app)
+        .patch("/api/users/me/api-keys/key-1")
+        .set(authHeader)
+        .send({ scopes: ["spreadsheets:read"], spreadsheetIds: ["ss-1"] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({
+        scopes: ["spreadsheets:read"],
+        spreadsheetIds: ["ss-1"],
+      });
+    });
+
+    it("rejects unknown scopes", async () => {
+      const res = await request(app)
+        .patch("/api/users/me/api-keys/key-1")
+        .set(authHeader)
+        .send({ scopes: ["admin"] });
+
+      expect(res.status).toBe(422);
+    });
+
+    it("refuses to update another user's key", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue({ userId: "user-2" });
+
+      const res = await request(app)
+        .patch("/api/users/me/api-keys/key-1")
+        .set(authHeader)
+        .send({ name: "Mine now" });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
   describe("DELETE /api/users/me/api-keys/:keyId (S16-006)", () => {
     it("revokes an API key", async () => {
       mockPrisma.apiKey.findUnique.mockResolvedValue({
@@ -571,4 +937,96 @@ describe("Webhook Management (S16-009)", () => {
       expect(res.status).toBe(204);
     });
   });
+
+  describe("GET /api/webhooks/:webhookId/deliveries", () => {
+    it("lists deliveries newest first with pagination", async () => {
+      mockPrisma.webhook.findUnique.mockResolvedValue({ userId: "user-1" });
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+        {
+          id: "dl-2",
+          webhookId: "wh-1",
+          event: "cell.updated",
+          status: "pending",
+          attempts: 2,
+          responseStatus: 500,
+          latencyMs: 120,
+        },
+      ]);
+      mockPrisma.webhookDelivery.count.mockResolvedValue(3);
+
+      const res = await request(app)
+        .get("/api/webhooks/wh-1/deliveries?page=2&limit=1")
+        .set(authHeader);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data[0].id).toBe("dl-2");
+      expect(res.body.pagination).toMatchObject({ page: 2, total: 3 });
+      expect(mockPrisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { webhookId: "wh-1" },
+          orderBy: { createdAt: "desc" },
+          skip: 1,
+          take: 1,
+        }),
+      );
+    });
+
+    it("hides other users' deliveries", async () => {
+      mockPrisma.webhook.findUnique.mockResolvedValue({ userId: "user-2" });
+
+      const res = await request(app)
+        .get("/api/webhooks/wh-1/deliveries")
+        .set(authHeader);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("POST /api/webhooks/:webhookId/deliveries/:deliveryId/redeliver", () => {
+    it("queues the payload again as a new delivery", async () => {
+      mockPrisma.webhook.findUnique.mockResolvedValue({ userId: "user-1" });
+      mockPrisma.webhookDelivery.findUnique.mockResolvedValueOnce({
+        webhookId: "wh-1",
+        event: "cell.updated",
+        payload: '{"event":"cell.updated"}',
+      });
+      mockPrisma.webhookDelivery.create.mockResolvedValue({
+        id: "dl-9",
+        webhookId: "wh-1",
+        status: "pending",
+      });
+      // Leave the send to the worker
+      mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      const res = await request(app)
+        .post("/api/webhooks/wh-1/deliveries/dl-1/redeliver")
+        .set(authHeader);
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.id).toBe("dl-9");
+      expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            webhookId: "wh-1",
+            payload: '{"event":"cell.updated"}',
+          }),
+        }),
+      );
+    });
+
+    it("returns 404 for a delivery of another webhook", async () => {
+      mockPrisma.webhook.findUnique.mockResolvedValue({ userId: "user-1" });
+      mockPrisma.webhookDelivery.findUnique.mockResolvedValueOnce({
+        webhookId: "wh-2",
+        event: "cell.updated",
+        payload: "{}",
+      });
+
+      const res = await request(app)
+        .post("/api/webhooks/wh-1/deliveries/dl-1/redeliver")
+        .set(authHeader);
+
+      expect(res.status).toBe(404);
+    });
+  });
 });
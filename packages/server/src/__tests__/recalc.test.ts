@@ -0,0 +1,345 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock Prisma
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    sheet: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    spreadsheet: { update: vi.fn() },
+    yjsDocument: { deleteMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+import prisma from "../models/prisma";
+import {
+  recalculateSheets,
+  recalculateSpreadsheet,
+  resolveCellKey,
+  toA1,
+} from "../services/recalc.service";
+
+const mockPrisma = prisma as unknown as {
+  sheet: {
+    findMany: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+  spreadsheet: { update: ReturnType<typeof vi.fn> };
+  yjsDocument: { deleteMany: ReturnType<typeof vi.fn> };
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+describe("Server recalculation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(mockPrisma),
+    );
+    // By default the commit sees the sheets as the recalculation read them
+    mockPrisma.sheet.findFirst.mockImplementation(
+      async ({ where }: { where: { id: string } }) => {
+        const sheets = await mockPrisma.sheet.findMany();
+        const sheet = sheets.find((s: { id: string }) => s.id === where.id);
+        return (
+          sheet && {
+            cellData: structuredClone(sheet.cellData),
+            cellRevisions: {},
+            revision: 1,
+          }
+        );
+      },
+    );
+    mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.sheet.findUnique.mockResolvedValue({
+      objectsVersion: 1,
+      updatedAt: new Date(),
+    });
+    mockPrisma.spreadsheet.update.mockResolvedValue({});
+    mockPrisma.yjsDocument.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it("evaluates formulas over A1 and row,col keyed cells", () => {
+    const changes = recalculateSheets([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 2 },
+          "1,0": { value: "3" },
+          A3: { value: null, formula: "=SUM(A1:A2)" },
+        },
+      },
+    ]);
+
+    expect(changes).toEqual([{ sheetId: "sh-1", cell: "A3", value: 5 }]);
+  });
+
+  it("follows chains and cross-sheet references by sheet name", () => {
+    const changes = recalculateSheets([
+      {
+        id: "sh-1",
+        name: "Inputs",
+        cellData: { A1: { value: 10 } },
+      },
+      {
+        id: "sh-2",
+        name: "Report",
+        cellData: {
+          "0,1": { value: 0, formula: "=A1*2" },
+          A1: { value: 0, formula: "=Inputs!A1+1" },
+        },
+      },
+    ]);
+
+    expect(changes).toContainEqual({ sheetId: "sh-2", cell: "A1", value: 11 });
+    expect(changes).toContainEqual({
+      sheetId: "sh-2",
+      cell: "0,1",
+      value: 22,
+    });
+  });
+
+  it("skips formulas whose stored value is already current", () => {
+    const changes = recalculateSheets([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 4 },
+          B1: { value: 8, formula: "=A1*2" },
+        },
+      },
+    ]);
+
+    expect(changes).toEqual([]);
+  });
+
+  it("returns #REF! for circular references and unknown sheets", () => {
+    const changes = recalculateSheets([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 0, formula: "=B1" },
+          B1: { value: 0, formula: "=A1" },
+          C1: { value: 0, formula: "=Missing!A1" },
+        },
+      },
+    ]);
+
+    const values = Object.fromEntries(changes.map((c) => [c.cell, c.value]));
+    expect(values.C1).toBe("#REF!");
+    expect([values.A1, values.B1]).toContain("#REF!");
+  });
+
+  it("stores changed values and leaves unchanged sheets alone", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: { A1: { value: 1 }, A2: { value: 0, formula: "=A1+1" } },
+      },
+      { id: "sh-2", name: "Sheet2", cellData: { A1: { value: "x" } } },
+    ]);
+
+    const changes = await recalculateSpreadsheet("ss-1");
+
+    expect(changes).toEqual([{ sheetId: "sh-1", cell: "A2", value: 2 }]);
+    expect(mockPrisma.sheet.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.sheet.updateMany).toHaveBeenCalledWith({
+      where: { id: "sh-1", revision: 1 },
+      data: {
+        cellData: {
+          A1: { value: 1 },
+          A2: { value: 2, formula: "=A1+1" },
+        },
+        cellRevisions: { A2: 2 },
+        revision: 2,
+      },
+    });
+  });
+
+  it("keeps cells saved while it was recalculating", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 1 },
+          A2: { value: 0, formula: "=A1+1" },
+          A3: { value: 0, formula: "=A1*10" },
+        },
+      },
+    ]);
+    // A save landed between the recalculation's read and its commit
+    mockPrisma.sheet.findFirst.mockResolvedValue({
+      cellData: {
+        A1: { value: 1 },
+        A2: { value: 0, formula: "=A1+1" },
+        A3: { value: 0, formula: "=A1*100" },
+        B5: { value: "typed meanwhile" },
+      },
+      cellRevisions: { A3: 4, B5: 4 },
+      revision: 4,
+    });
+
+    await recalculateSpreadsheet("ss-1");
+
+    const { where, data } = mockPrisma.sheet.updateMany.mock.calls[0][0];
+    expect(where).toEqual({ id: "sh-1", revision: 4 });
+    expect(data.revision).toBe(5);
+    expect(data.cellData).toEqual({
+      A1: { value: 1 },
+      A2: { value: 2, formula: "=A1+1" },
+      // Its formula changed since it was evaluated, so its value is left
+      A3: { value: 0, formula: "=A1*100" },
+      B5: { value: "typed meanwhile" },
+    });
+    expect(data.cellRevisions).toEqual({ A2: 5, A3: 4, B5: 4 });
+  });
+
+  it("retries when another save commits at the same moment", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: { A1: { value: 1 }, A2: { value: 0, formula: "=A1+1" } },
+      },
+    ]);
+    mockPrisma.sheet.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    await recalculateSpreadsheet("ss-1");
+
+    expect(mockPrisma.sheet.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("stores the top-left value of array results, or #SPILL! when blocked", () => {
+    const changes = recalculateSheets([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: null, formula: "=SEQUENCE(3)" },
+          C1: { value: null, formula: "=SEQUENCE(2,1,5)" },
+          C2: { value: "taken" },
+        },
+      },
+    ]);
+
+    expect(changes).toEqual([
+      { sheetId: "sh-1", cell: "A1", value: 1 },
+      { sheetId: "sh-1", cell: "C1", value: "#SPILL!" },
+    ]);
+  });
+
+  it("calls named LAMBDA functions stored with the spreadsheet", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 3 },
+          B1: { value: 0, formula: "=DOUBLE(A1)" },
+        },
+        spreadsheet: {
+          namedRanges: [
+            { name: "Data", sheetId: "sh-1", startRow: 0, startCol: 0 },
+            { name: "double", formula: "=LAMBDA(x, x*2)" },
+          ],
+        },
+      },
+    ]);
+
+    const changes = await recalculateSpreadsheet("ss-1");
+
+    expect(changes).toEqual([{ sheetId: "sh-1", cell: "B1", value: 6 }]);
+  });
+
+  it("resolves structured references to tables stored with the sheets", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sales",
+        cellData: {
+          "0,0": { value: "Region" },
+          "0,1": { value: "Amount" },
+          "1,1": { value: 10 },
+          "2,1": { value: 15 },
+          "1,2": { value: null, formula: "=[@Amount]*2" },
+        },
+        objects: {
+          tables: [
+            {
+              id: "table-1",
+              name: "Orders",
+              startRow: 0,
+              startCol: 0,
+              endRow: 2,
+              endCol: 2,
+              columns: ["Region", "Amount", "Double"],
+              showTotalsRow: false,
+            },
+          ],
+        },
+        spreadsheet: {},
+      },
+      {
+        id: "sh-2",
+        name: "Summary",
+        cellData: { A1: { value: null, formula: "=SUM(Orders[Amount])" } },
+        objects: {},
+        spreadsheet: {},
+      },
+    ]);
+
+    const changes = await recalculateSpreadsheet("ss-1");
+
+    expect(changes).toEqual([
+      { sheetId: "sh-1", cell: "1,2", value: 20 },
+      { sheetId: "sh-2", cell: "A1", value: 25 },
+    ]);
+  });
+
+  it("iterates circular references when the spreadsheet allows it", async () => {
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sh-1",
+        name: "Sheet1",
+        cellData: {
+          A1: { value: 1000 },
+          B1: { value: 0, formula: "=(A1+C1)/2*0.1" },
+          C1: { value: 0, formula: "=A1+B1" },
+        },
+        spreadsheet: {
+          namedRanges: [],
+          calcSettings: {
+            iterative: true,
+            maxIterations: 100,
+            maxChange: 0.0001,
+          },
+        },
+      },
+    ]);
+
+    const changes = await recalculateSpreadsheet("ss-1");
+
+    const values = Object.fromEntries(changes.map((c) => [c.cell, c.value]));
+    expect(values.B1).toBeCloseTo(2000 / 19, 3);
+    expect(values.C1).toBeCloseTo(1000 + 2000 / 19, 3);
+  });
+
+  it("maps A1 references onto existing row,col keys", () => {
+    expect(resolveCellKey({ "2,1": { value: 1 } }, "b3")).toBe("2,1");
+    expect(resolveCellKey({}, "b3")).toBe("B3");
+    expect(toA1("2,1")).toBe("B3");
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import { app } from "../app";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    spreadsheet: {
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("../services/auth.service", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    verifyAccessToken: vi.fn().mockReturnValue({
+      userId: "user-1",
+      email: "test@example.com",
+    }),
+  };
+});
+
+import prisma from "../models/prisma";
+import { searchTerms, toTsQuery, snippet } from "../services/search.service";
+
+type Mock = ReturnType<typeof vi.fn>;
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: Mock };
+  spreadsheet: { findMany: Mock };
+  $queryRaw: Mock;
+};
+
+const authHeader = { Authorization: "Bearer valid-test-token" };
+
+/** Queue results for the sheet-name, cell and comment queries, in order */
+function rawResults(sheets: unknown[], cells: unknown[], comments: unknown[]) {
+  mockPrisma.$queryRaw
+    .mockResolvedValueOnce(sheets)
+    .mockResolvedValueOnce(cells)
+    .mockResolvedValueOnce(comments);
+}
+
+describe("search helpers", () => {
+  it("splits queries into prefix terms", () => {
+    expect(searchTerms("Invoice #4471, Q3!")).toEqual([
+      "invoice",
+      "4471",
+      "q3",
+    ]);
+    expect(toTsQuery(["invoice", "4471"])).toBe("invoice:* & 4471:*");
+    expect(searchTerms("  -- ")).toEqual([]);
+  });
+
+  it("trims snippets around the first match", () => {
+    const text = `${"x".repeat(80)} invoice 4471 ${"y".repeat(80)}`;
+    const s = snippet(text, ["4471"]);
+    expect(s.startsWith("…")).toBe(true);
+    expect(s.endsWith("…")).toBe(true);
+    expect(s).toContain("invoice 4471");
+    expect(snippet("Invoice 4471", ["4471"])).toBe("Invoice 4471");
+  });
+});
+
+describe("GET /api/search", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$queryRaw.mockReset();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  it("requires a query", async () => {
+    const res = await request(app).get("/api/search?q=").set(authHeader);
+
+    expect(res.status).toBe(422);
+  });
+
+  it("only searches spreadsheets the user can open", async () => {
+    mockPrisma.spreadsheet.findMany.mockResolvedValue([
+      { id: "ss-1", title: "Accounts" },
+      { id: "ss-2", title: "Budget" },
+    ]);
+    rawResults([], [], []);
+
+    await request(app).get("/api/search?q=invoice").set(authHeader);
+
+    const where = mockPrisma.spreadsheet.findMany.mock.calls[0][0].where;
+    expect(where.deletedAt).toBeNull();
+    expect(where.OR).toContainEqual({ access: { some: { userId: "user-1" } } });
+    for (const [, ...values] of mockPrisma.$queryRaw.mock.calls) {
+      expect(values).toContainEqual(["ss-1", "ss-2"]);
+      expect(values).toContain("invoice:*");
+    }
+  });
+
+  it("skips the index when nothing is visible", async () => {
+    mockPrisma.spreadsheet.findMany.mockResolvedValue([]);
+
+    const res = await request(app).get("/api/search?q=invoice").set(authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([]);
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("returns titles and sheets first, then cells and comments by rank", async () => {
+    mockPrisma.spreadsheet.findMany.mockResolvedValue([
+      { id: "ss-1", title: "Invoices 2026" },
+      { id: "ss-2", title: "Budget" },
+    ]);
+    rawResults(
+      [{ spreadsheetId: "ss-2", sheetId: "sh-3", sheetName: "Invoices" }],
+      [
+        {
+          spreadsheetId: "ss-2",
+          sheetId: "sh-2",
+          sheetName: "March",
+          cellKey: "3,1",
+          text: "Invoice 4471",
+          rank: 0.06,
+        },
+      ],
+      [
+        {
+          commentId: "c-1",
+          spreadsheetId: "ss-1",
+          sheetId: "sh-1",
+          sheetName: "Sheet1",
+          cellKey: "C2",
+          text: "Check this invoice",
+          rank: 0.09,
+        },
+      ],
+    );
+
+    const res = await request(app).get("/api/search?q=invoice").set(authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((h: { kind: string }) => h.kind)).toEqual([
+      "title",
+      "sheet",
+      "comment",
+      "cell",
+    ]);
+    expect(res.body.data[3]).toEqual({
+      kind: "cell",
+      spreadsheetId: "ss-2",
+      spreadsheetTitle: "Budget",
+      sheetId: "sh-2",
+      sheetName: "March",
+      cell: "B4",
+      commentId: null,
+      snippet: "Invoice 4471",
+    });
+    expect(res.body.data[2]).toMatchObject({ commentId: "c-1", cell: "C2" });
+  });
+});
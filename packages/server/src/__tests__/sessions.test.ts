@@ -0,0 +1,361 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { app } from "../app";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    session: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("bcryptjs", () => ({
+  default: {
+    hash: vi.fn(),
+    compare: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+import prisma from "../models/prisma";
+import { generateTokens } from "../services/auth.service";
+import { describeUserAgent } from "../services/session.service";
+
+const mockPrisma = prisma as unknown as {
+  user: {
+    findUnique: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+  session: {
+    create: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const CHROME_MAC =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36";
+
+const user = {
+  id: "user-1",
+  email: "test@example.com",
+  name: "Test",
+  avatarUrl: null,
+  emailVerified: true,
+  passwordHash: "hash",
+  tokenVersion: 0,
+  totpEnabled: false,
+  createdAt: new Date("2026-01-01"),
+};
+
+const session = { id: "session-1", refreshTokenId: "rt-1" };
+
+function refreshCookie(tokenId = "rt-1"): string {
+  const { refreshToken } = generateTokens(user.id, user.email, 0, {
+    id: session.id,
+    refreshTokenId: tokenId,
+  });
+  return `refreshToken=${refreshToken}`;
+}
+
+function bearer(sessionId = session.id): string {
+  const { accessToken } = generateTokens(user.id, user.email, 0, {
+    id: sessionId,
+    refreshTokenId: "rt-1",
+  });
+  return `Bearer ${accessToken}`;
+}
+
+/** Session row as seen by rotateSession */
+function storedSession(overrides: Record<string, unknown> = {}) {
+  return {
+    userId: user.id,
+    refreshTokenId: "rt-1",
+    previousTokenId: null,
+    lastSeenAt: new Date(Date.now() - 60 * 60 * 1000),
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    ...overrides,
+  };
+}
+
+describe("describeUserAgent", () => {
+  it("names the browser and platform", () => {
+    expect(describeUserAgent(CHROME_MAC)).toBe("Chrome on macOS");
+    expect(
+      describeUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0",
+      ),
+    ).toBe("Edge on Windows");
+    expect(
+      describeUserAgent(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+      ),
+    ).toBe("Safari on iOS");
+    expect(describeUserAgent("curl/8.4.0")).toBe("curl");
+    expect(describeUserAgent(null)).toBe("Unknown device");
+  });
+});
+
+describe("Sessions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.session.findUnique.mockReset();
+    mockPrisma.session.updateMany.mockReset();
+    mockPrisma.user.findUnique.mockResolvedValue(user);
+  });
+
+  it("records a session for each sign-in and binds the tokens to it", async () => {
+    mockPrisma.session.create.mockResolvedValue({ id: "session-9" });
+
+    const res = await request(app)
+      .post("/api/auth/login")
+      .set("User-Agent", CHROME_MAC)
+      .send({ email: user.email, password: "password123" });
+
+    expect(res.status).toBe(200);
+    const data = mockPrisma.session.create.mock.calls[0][0].data;
+    expect(data).toMatchObject({ userId: "user-1", userAgent: CHROME_MAC });
+    expect(data.ip).toBeTruthy();
+
+    const cookie = res.headers["set-cookie"][0].split(";")[0].split("=")[1];
+    expect(jwt.decode(cookie)).toMatchObject({
+      sid: "session-9",
+      jti: data.refreshTokenId,
+    });
+    expect(jwt.decode(res.body.data.accessToken)).toMatchObject({
+      sid: "session-9",
+    });
+  });
+
+  it("rotates the refresh token ID on every refresh", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(storedSession());
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshCookie());
+
+    expect(res.status).toBe(200);
+    const update = mockPrisma.session.updateMany.mock.calls[0][0];
+    expect(update.where).toEqual({
+      id: "session-1",
+      refreshTokenId: "rt-1",
+      revokedAt: null,
+    });
+    expect(update.data.previousTokenId).toBe("rt-1");
+
+    const cookie = res.headers["set-cookie"][0].split(";")[0].split("=")[1];
+    const decoded = jwt.decode(cookie) as { sid: string; jti: string };
+    expect(decoded.sid).toBe("session-1");
+    expect(decoded.jti).toBe(update.data.refreshTokenId);
+    expect(decoded.jti).not.toBe("rt-1");
+    // The cookie moved to /api/auth; the one at its old path is dropped
+    expect(res.headers["set-cookie"][1]).toMatch(
+      /^refreshToken=;.*Path=\/api\/auth\/refresh;.*Expires=Thu, 01 Jan 1970/,
+    );
+  });
+
+  it("revokes the session when an exchanged refresh token is replayed", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(
+      storedSession({ refreshTokenId: "rt-3", previousTokenId: "rt-2" }),
+    );
+    mockPrisma.session.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshCookie("rt-1"));
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe("Session revoked");
+    expect(mockPrisma.session.updateMany.mock.calls[1][0]).toMatchObject({
+      where: { id: "session-1", revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it("lets concurrent refreshes with the just-rotated token through", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(
+      storedSession({
+        refreshTokenId: "rt-2",
+        previousTokenId: "rt-1",
+        lastSeenAt: new Date(Date.now() - 5_000),
+      }),
+    );
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshCookie("rt-1"));
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    const cookie = res.headers["set-cookie"][0].split(";")[0].split("=")[1];
+    expect(jwt.decode(cookie)).toMatchObject({ jti: "rt-2" });
+  });
+
+  it("refuses refresh for a revoked session", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(
+      storedSession({ revokedAt: new Date() }),
+    );
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", refreshCookie());
+
+    expect(res.status).toBe(401);
+  });
+
+  it("exchanges a token from before sessions once, then revokes it", async () => {
+    const { refreshToken } = generateTokens(user.id, user.email, 0);
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.session.create.mockResolvedValue({ id: "session-2" });
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", `refreshToken=${refreshToken}`);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: "user-1", tokenVersion: 0 },
+      data: { tokenVersion: { increment: 1 } },
+    });
+    const cookie = res.headers["set-cookie"][0].split(";")[0].split("=")[1];
+    expect(jwt.decode(cookie)).toMatchObject({
+      sid: "session-2",
+      tokenVersion: 1,
+    });
+
+    // The old token now predates the user's tokenVersion
+    mockPrisma.user.findUnique.mockResolvedValue({ ...user, tokenVersion: 1 });
+    const replay = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", `refreshToken=${refreshToken}`);
+
+    expect(replay.status).toBe(401);
+    expect(mockPrisma.session.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets only one concurrent exchange of a token from before sessions through", async () => {
+    const { refreshToken } = generateTokens(user.id, user.email, 0);
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    const res = await request(app)
+      .post("/api/auth/refresh")
+      .set("Cookie", `refreshToken=${refreshToken}`);
+
+    expect(res.status).toBe(401);
+    expect(mockPrisma.session.create).not.toHaveBeenCalled();
+  });
+
+  it("lists active sessions and flags the current one", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(storedSession());
+    mockPrisma.session.findMany.mockResolvedValue([
+      {
+        id: "session-1",
+        userAgent: CHROME_MAC,
+        ip: "203.0.113.5",
+        createdAt: new Date("2026-10-01"),
+        lastSeenAt: new Date("2026-10-19"),
+      },
+      {
+        id: "session-2",
+        userAgent: null,
+        ip: null,
+        createdAt: new Date("2026-09-01"),
+        lastSeenAt: new Date("2026-09-02"),
+      },
+    ]);
+
+    const res = await request(app)
+      .get("/api/users/me/sessions")
+      .set("Authorization", bearer());
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual([
+      expect.objectContaining({
+        id: "session-1",
+        device: "Chrome on macOS",
+        current: true,
+      }),
+      expect.objectContaining({
+        id: "session-2",
+        device: "Unknown device",
+        current: false,
+      }),
+    ]);
+    expect(mockPrisma.session.findMany.mock.calls[0][0].where).toMatchObject({
+      userId: "user-1",
+      revokedAt: null,
+    });
+  });
+
+  it("revokes one of the user's sessions", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(storedSession());
+    mockPrisma.session.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const res = await request(app)
+      .delete("/api/users/me/sessions/session-2")
+      .set("Authorization", bearer());
+
+    expect(res.status).toBe(204);
+    expect(mockPrisma.session.updateMany.mock.calls[0][0].where).toEqual({
+      id: "session-2",
+      userId: "user-1",
+      revokedAt: null,
+    });
+
+    const missing = await request(app)
+      .delete("/api/users/me/sessions/someone-elses")
+      .set("Authorization", bearer());
+    expect(missing.status).toBe(404);
+  });
+
+  it("rejects access tokens of a revoked session", async () => {
+    mockPrisma.session.findUnique.mockResolvedValue(
+      storedSession({ revokedAt: new Date() }),
+    );
+
+    const res = await request(app)
+      .get("/api/users/me/sessions")
+      .set("Authorization", bearer());
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toBe("Session revoked");
+  });
+
+  it("ends the session on logout", async () => {
+    mockPrisma.session.create.mockResolvedValue({ id: "session-1" });
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+    // The agent only sends cookies to the paths they were set for
+    const agent = request.agent(app);
+    const login = await agent
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "password123" });
+    expect(login.status).toBe(200);
+
+    const res = await agent.post("/api/auth/logout");
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: "session-1", revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+});
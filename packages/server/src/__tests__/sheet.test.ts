@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import { app } from "../app";
+
+// Mock Prisma
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    spreadsheet: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    sheet: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+// Mock auth service for token verification
+vi.mock("../services/auth.service", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    verifyAccessToken: vi.fn().mockReturnValue({
+      userId: "user-1",
+      email: "test@example.com",
+    }),
+  };
+});
+
+import prisma from "../models/prisma";
+
+const mockPrisma = prisma as unknown as {
+  $transaction: ReturnType<typeof vi.fn>;
+  user: { findUnique: ReturnType<typeof vi.fn> };
+  spreadsheet: {
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  sheet: {
+    findFirst: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const authHeader = { Authorization: "Bearer valid-test-token" };
+
+const objects = {
+  schemaVersion: 1,
+  conditionalRules: [],
+  mergedRegions: [{ startRow: 0, startCol: 0, endRow: 1, endCol: 1 }],
+  charts: [],
+};
+
+describe("Sheet Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+    mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(mockPrisma),
+    );
+  });
+
+  describe("PUT /api/spreadsheets/:id/sheets/:sheetId/save", () => {
+    beforeEach(() => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "user-1",
+        access: [],
+      });
+      mockPrisma.sheet.findFirst.mockResolvedValue({
+        cellData: { "0,0": { value: 1 }, "1,0": { value: 2 } },
+        cellRevisions: { "0,0": 1, "1,0": 2 },
+        revision: 2,
+      });
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.sheet.findUnique.mockResolvedValue({
+        updatedAt: new Date(),
+        objectsVersion: 4,
+      });
+      mockPrisma.spreadsheet.update.mockResolvedValue({});
+    });
+
+    it("saves cell data and sheet objects together", async () => {
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ cellData: { "0,0": { value: 1 } }, objects });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.objectsVersion).toBe(4);
+      const data = mockPrisma.sheet.updateMany.mock.calls[0][0].data;
+      expect(data.objects).toEqual(objects);
+      expect(data.objectsVersion).toEqual({ increment: 1 });
+    });
+
+    it("bumps the revision of cells that changed", async () => {
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ cellData: { "0,0": { value: 1 } } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.revision).toBe(3);
+      const data = mockPrisma.sheet.updateMany.mock.calls[0][0].data;
+      expect(data.cellData).toEqual({ "0,0": { value: 1 } });
+      expect(data.cellRevisions).toEqual({ "0,0": 1, "1,0": 3 });
+      expect(data.objects).toBeUndefined();
+    });
+
+    it("rejects objects without a schema version", async () => {
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ cellData: {}, objects: { charts: [] } });
+
+      expect(res.status).toBe(422);
+    });
+  });
+
+  describe("PATCH /api/spreadsheets/:id/sheets/:sheetId/save", () => {
+    beforeEach(() => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "user-1",
+        access: [],
+      });
+      mockPrisma.sheet.findFirst.mockResolvedValue({
+        cellData: { "0,0": { value: 1 }, "0,1": { value: "b" } },
+        cellRevisions: { "0,0": 4, "0,1": 6 },
+        revision: 6,
+      });
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.sheet.findUnique.mockResolvedValue({
+        updatedAt: new Date(),
+        objectsVersion: 0,
+      });
+      mockPrisma.spreadsheet.update.mockResolvedValue({});
+    });
+
+    it("applies upserts and deletes at the current revision", async () => {
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({
+          baseRevision: 6,
+          upserts: { "2,2": { value: 9 } },
+          deletes: ["0,0"],
+        });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.revision).toBe(7);
+      expect(res.body.data.remote).toEqual({ upserts: {}, deletes: [] });
+
+      const call = mockPrisma.sheet.updateMany.mock.calls[0][0];
+      expect(call.where).toEqual({ id: "sheet-1", revision: 6 });
+      expect(call.data.cellData).toEqual({
+        "0,1": { value: "b" },
+        "2,2": { value: 9 },
+      });
+      expect(call.data.cellRevisions).toEqual({
+        "0,0": 7,
+        "0,1": 6,
+        "2,2": 7,
+      });
+    });
+
+    it("merges field-level upserts into the stored cells", async () => {
+      mockPrisma.sheet.findFirst.mockResolvedValue({
+        cellData: {
+          "0,0": { value: 1, formula: "=1", format: { bold: true } },
+          "0,1": { value: "b", comment: "keep" },
+          "0,2": { value: "c" },
+        },
+        cellRevisions: {},
+        revision: 6,
+      });
+
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({
+          merge: true,
+          upserts: {
+            "0,0": { value: 2, formula: null },
+            "0,1": { value: null, formula: null },
+            "0,2": { value: null, formula: null },
+            "3,3": { value: 5, formula: null },
+          },
+        });
+
+      expect(res.status).toBe(200);
+      expect(
+        mockPrisma.sheet.updateMany.mock.calls[0][0].data.cellData,
+      ).toEqual({
+        "0,0": { value: 2, format: { bold: true } },
+        "0,1": { value: null, comment: "keep" },
+        "3,3": { value: 5 },
+      });
+    });
+
+    it("rebases a stale write and returns the cells changed since", async () => {
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ baseRevision: 5, upserts: { "0,0": { value: 2 } } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.remote.upserts).toEqual({ "0,1": { value: "b" } });
+    });
+
+    it("returns 409 when a stale write overlaps someone else's change", async () => {
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ baseRevision: 5, upserts: { "0,1": { value: "c" } } });
+
+      expect(res.status).toBe(409);
+      expect(mockPrisma.sheet.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when another save lands first", async () => {
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 0 });
+
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ baseRevision: 6, upserts: { "3,3": { value: 1 } } });
+
+      expect(res.status).toBe(409);
+    });
+
+    it("returns 403 for viewers", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "other-user",
+        access: [{ role: "viewer" }],
+      });
+
+      const res = await request(app)
+        .patch("/api/spreadsheets/ss-1/sheets/sheet-1/save")
+        .set(authHeader)
+        .send({ upserts: { "0,0": { value: 1 } } });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("GET /api/spreadsheets/:id/sheets/:sheetId/objects", () => {
+    it("returns objects and revision for a viewer", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "other-user",
+        access: [{ role: "viewer" }],
+      });
+      mockPrisma.sheet.findFirst.mockResolvedValue({
+        objects,
+        objectsVersion: 7,
+      });
+
+      const res = await request(app)
+        .get("/api/spreadsheets/ss-1/sheets/sheet-1/objects")
+        .set(authHeader);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.objectsVersion).toBe(7);
+      expect(res.body.data.objects.mergedRegions).toHaveLength(1);
+    });
+
+    it("returns 403 without access", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "other-user",
+        access: [],
+      });
+
+      const res = await request(app)
+        .get("/api/spreadsheets/ss-1/sheets/sheet-1/objects")
+        .set(authHeader);
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("PUT /api/spreadsheets/:id/sheets/:sheetId/objects", () => {
+    beforeEach(() => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "user-1",
+        access: [],
+      });
+      mockPrisma.sheet.findFirst.mockResolvedValue({ id: "sheet-1" });
+      mockPrisma.spreadsheet.update.mockResolvedValue({});
+    });
+
+    it("saves objects and bumps the revision", async () => {
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.sheet.findUnique.mockResolvedValue({
+        objectsVersion: 3,
+        updatedAt: new Date(),
+      });
+
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/objects")
+        .set(authHeader)
+        .send({ objects, baseVersion: 2 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.objectsVersion).toBe(3);
+      expect(mockPrisma.sheet.updateMany.mock.calls[0][0].where).toEqual({
+        id: "sheet-1",
+        objectsVersion: 2,
+      });
+    });
+
+    it("returns 409 when the base revision is stale", async () => {
+      mockPrisma.sheet.updateMany.mockResolvedValue({ count: 0 });
+
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/objects")
+        .set(authHeader)
+        .send({ objects, baseVersion: 1 });
+
+      expect(res.status).toBe(409);
+    });
+
+    it("returns 403 for viewers", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "other-user",
+        access: [{ role: "viewer" }],
+      });
+
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/sheets/sheet-1/objects")
+        .set(authHeader)
+        .send({ objects });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("PUT /api/spreadsheets/:id/named-ranges", () => {
+    it("replaces named ranges", async () => {
+      mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+        ownerId: "user-1",
+        access: [],
+      });
+      const namedRanges = [
+        {
+          name: "Revenue",
+          sheetId: "sheet-1",
+          startRow: 0,
+          startCol: 0,
+          endRow: 9,
+          endCol: 0,
+        },
+      ];
+      mockPrisma.spreadsheet.update.mockResolvedValue({ namedRanges });
+
+      const res = await request(app)
+        .put("/api/spreadsheets/ss-1/named-ranges")
+        .set(authHeader)
+        .send({ namedRanges });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.namedRanges).toHaveLength(1);
+    });
+  });
+});
@@ -317,20 +317,25 @@ describe("Spreadsheet Routes", () => {
   });
 
   describe("DELETE /api/spreadsheets/:id", () => {
-    it("deletes spreadsheet (owner)", async () => {
+    it("moves the spreadsheet to the trash (owner)", async () => {
       // checkAccess
       mockPrisma.spreadsheet.findUnique.mockResolvedValue({
         ownerId: "user-1",
         access: [],
       });
 
-      mockPrisma.spreadsheet.delete.mockResolvedValue({});
+      mockPrisma.spreadsheet.update.mockResolvedValue({});
 
       const res = await request(app)
         .delete("/api/spreadsheets/ss-1")
         .set(authHeader);
 
       expect(res.status).toBe(204);
+      expect(mockPrisma.spreadsheet.delete).not.toHaveBeenCalled();
+      expect(mockPrisma.spreadsheet.update.mock.calls[0][0].data).toEqual({
+        deletedAt: expect.any(Date),
+        deletedById: "user-1",
+      });
     });
 
     it("returns 403 for non-owner", async () => {
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import { app } from "../app";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    spreadsheet: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    team: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      delete: vi.fn(),
+    },
+    teamMember: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+    },
+    folder: {
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("../services/auth.service", async (importOriginal) => {
+  const actual = (await importOriginal()) as Record<string, unknown>;
+  return {
+    ...actual,
+    verifyAccessToken: vi.fn().mockReturnValue({
+      userId: "user-1",
+      email: "test@example.com",
+    }),
+  };
+});
+
+import prisma from "../models/prisma";
+import { effectiveRole } from "../services/access.service";
+
+type Mock = ReturnType<typeof vi.fn>;
+
+const mockPrisma = prisma as unknown as {
+  user: { findUnique: Mock };
+  spreadsheet: {
+    findMany: Mock;
+    findUnique: Mock;
+    update: Mock;
+    count: Mock;
+  };
+  team: { create: Mock; findUnique: Mock; delete: Mock };
+  teamMember: {
+    findUnique: Mock;
+    findMany: Mock;
+    create: Mock;
+    update: Mock;
+    delete: Mock;
+    count: Mock;
+  };
+  folder: { findUnique: Mock };
+  $transaction: Mock;
+};
+
+const authHeader = { Authorization: "Bearer valid-test-token" };
+
+/** Membership lookups by user ID */
+function members(roles: Record<string, string>) {
+  mockPrisma.teamMember.findUnique.mockImplementation(
+    ({ where }: { where: { teamId_userId: { userId: string } } }) => {
+      const role = roles[where.teamId_userId.userId];
+      return Promise.resolve(
+        role ? { id: `m-${where.teamId_userId.userId}`, role } : null,
+      );
+    },
+  );
+}
+
+describe("effectiveRole", () => {
+  it("takes the strongest of ownership, shares, team role and folder grant", () => {
+    const base = { ownerId: "owner", access: [] };
+    expect(effectiveRole({ ...base, ownerId: "user-1" }, "user-1")).toBe(
+      "owner",
+    );
+    expect(effectiveRole(base, "user-1")).toBeNull();
+    expect(
+      effectiveRole(
+        {
+          ...base,
+          access: [{ role: "viewer" }],
+          team: { members: [{ role: "editor" }] },
+        },
+        "user-1",
+      ),
+    ).toBe("editor");
+    expect(
+      effectiveRole(
+        { ...base, team: { members: [{ role: "admin" }] } },
+        "user-1",
+      ),
+    ).toBe("owner");
+    expect(
+      effectiveRole(
+        {
+          ...base,
+          team: { members: [{ role: "viewer" }] },
+          folder: { access: [{ role: "commenter" }] },
+        },
+        "user-1",
+      ),
+    ).toBe("commenter");
+  });
+});
+
+describe("Team Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.teamMember.findUnique.mockReset();
+    mockPrisma.user.findUnique.mockReset();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  it("creates a team with the creator as owner", async () => {
+    mockPrisma.team.create.mockResolvedValue({
+      id: "team-1",
+      name: "Finance",
+      createdAt: new Date(),
+    });
+
+    const res = await request(app)
+      .post("/api/teams")
+      .set(authHeader)
+      .send({ name: "Finance" });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ id: "team-1", role: "owner" });
+    expect(mockPrisma.team.create.mock.calls[0][0].data).toEqual({
+      name: "Finance",
+      members: { create: { userId: "user-1", role: "owner" } },
+    });
+  });
+
+  it("hides teams the user is not a member of", async () => {
+    members({});
+
+    const res = await request(app).get("/api/teams/team-1").set(authHeader);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("only lets admins add members, and only owners add owners", async () => {
+    members({ "user-1": "editor" });
+    const asEditor = await request(app)
+      .post("/api/teams/team-1/members")
+      .set(authHeader)
+      .send({ email: "new@example.com", role: "viewer" });
+    expect(asEditor.status).toBe(403);
+
+    members({ "user-1": "admin" });
+    const ownerByAdmin = await request(app)
+      .post("/api/teams/team-1/members")
+      .set(authHeader)
+      .send({ email: "new@example.com", role: "owner" });
+    expect(ownerByAdmin.status).toBe(403);
+
+    mockPrisma.user.findUnique.mockImplementation(
+      ({ where }: { where: { id?: string; email?: string } }) =>
+        Promise.resolve(
+          where.email === "new@example.com"
+            ? { id: "user-2" }
+            : { id: "user-1", email: "test@example.com", name: "Test User" },
+        ),
+    );
+    mockPrisma.teamMember.create.mockResolvedValue({
+      userId: "user-2",
+      role: "viewer",
+    });
+    const added = await request(app)
+      .post("/api/teams/team-1/members")
+      .set(authHeader)
+      .send({ email: "new@example.com", role: "viewer" });
+    expect(added.status).toBe(201);
+    expect(mockPrisma.teamMember.create.mock.calls[0][0].data).toEqual({
+      teamId: "team-1",
+      userId: "user-2",
+      role: "viewer",
+    });
+  });
+
+  it("keeps at least one owner", async () => {
+    members({ "user-1": "owner" });
+    mockPrisma.teamMember.count.mockResolvedValue(1);
+
+    const demote = await request(app)
+      .put("/api/teams/team-1/members/user-1")
+      .set(authHeader)
+      .send({ role: "editor" });
+    expect(demote.status).toBe(422);
+
+    const leave = await request(app)
+      .delete("/api/teams/team-1/members/user-1")
+      .set(authHeader);
+    expect(leave.status).toBe(422);
+    expect(mockPrisma.teamMember.delete).not.toHaveBeenCalled();
+  });
+
+  it("lets any member leave", async () => {
+    members({ "user-1": "viewer" });
+
+    const res = await request(app)
+      .delete("/api/teams/team-1/members/user-1")
+      .set(authHeader);
+
+    expect(res.status).toBe(204);
+    expect(mockPrisma.teamMember.delete).toHaveBeenCalledWith({
+      where: { id: "m-user-1" },
+    });
+  });
+
+  it("lists team spreadsheets with roles inherited from the team", async () => {
+    mockPrisma.spreadsheet.findMany.mockResolvedValue([
+      {
+        id: "ss-1",
+        title: "Budget",
+        isStarred: false,
+        isTemplate: false,
+        teamId: "team-1",
+        folderId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        owner: { id: "user-2", name: "Other", avatarUrl: null },
+        access: [],
+        team: { members: [{ role: "editor" }] },
+        folder: null,
+      },
+    ]);
+    mockPrisma.spreadsheet.count.mockResolvedValue(1);
+
+    const res = await request(app)
+      .get("/api/spreadsheets?filter=team&teamId=team-1")
+      .set(authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data[0]).toMatchObject({
+      teamId: "team-1",
+      role: "editor",
+    });
+    const where = mockPrisma.spreadsheet.findMany.mock.calls[0][0].where;
+    expect(where.teamId).toBe("team-1");
+    expect(where.OR).toContainEqual({
+      team: { members: { some: { userId: "user-1" } } },
+    });
+  });
+
+  it("lets team editors open team spreadsheets they were not shared", async () => {
+    mockPrisma.spreadsheet.findUnique
+      .mockResolvedValueOnce({
+        ownerId: "user-2",
+        access: [],
+        team: { members: [{ role: "viewer" }] },
+        folder: null,
+      })
+      .mockResolvedValueOnce({ id: "ss-1", title: "Budget", sheets: [] });
+
+    const res = await request(app)
+      .get("/api/spreadsheets/ss-1")
+      .set(authHeader);
+
+    expect(res.status).toBe(200);
+  });
+
+  it("requires team edit rights to move a spreadsheet into a team", async () => {
+    mockPrisma.spreadsheet.findUnique.mockResolvedValue({
+      ownerId: "user-1",
+      access: [],
+    });
+    members({ "user-1": "viewer" });
+
+    const denied = await request(app)
+      .put("/api/spreadsheets/ss-1/location")
+      .set(authHeader)
+      .send({ teamId: "team-1" });
+    expect(denied.status).toBe(403);
+
+    members({ "user-1": "editor" });
+    mockPrisma.folder.findUnique.mockResolvedValue({ teamId: "team-1" });
+    mockPrisma.spreadsheet.update.mockResolvedValue({
+      id: "ss-1",
+      teamId: "team-1",
+      folderId: "folder-1",
+    });
+    const moved = await request(app)
+      .put("/api/spreadsheets/ss-1/location")
+      .set(authHeader)
+      .send({ teamId: "team-1", folderId: "folder-1" });
+    expect(moved.status).toBe(200);
+    expect(mockPrisma.spreadsheet.update.mock.calls[0][0].data).toEqual({
+      teamId: "team-1",
+      folderId: "folder-1",
+    });
+  });
+});
@@ -0,0 +1,399 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { app } from "../app";
+import { env } from "../config/env";
+
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    session: {
+      create: vi.fn().mockResolvedValue({ id: "session-1" }),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUnique: vi.fn(),
+    },
+    $disconnect: vi.fn(),
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("bcryptjs", () => ({
+  default: {
+    hash: vi.fn().mockResolvedValue("$2b$12$hashedpassword"),
+    compare: vi.fn(),
+  },
+}));
+
+import prisma from "../models/prisma";
+import bcrypt from "bcryptjs";
+import { generateTokens } from "../services/auth.service";
+import { hashRecoveryCode } from "../services/twoFactor.service";
+import {
+  base32Decode,
+  base32Encode,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from "../utils/totp";
+
+const mockPrisma = prisma as unknown as {
+  user: {
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const mockBcrypt = bcrypt as unknown as {
+  compare: ReturnType<typeof vi.fn>;
+};
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP", () => {
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(totpCode(RFC_SECRET, totpStep(59_000), 8)).toBe("94287082");
+    expect(totpCode(RFC_SECRET, totpStep(1_111_111_109_000), 8)).toBe(
+      "07081804",
+    );
+    expect(totpCode(RFC_SECRET, totpStep(59_000))).toBe("287082");
+  });
+
+  it("round-trips base32", () => {
+    const bytes = Buffer.from("12345678901234567890");
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET.toLowerCase())).toEqual(bytes);
+  });
+
+  it("accepts one step of clock drift either way", () => {
+    const now = 1_111_111_109_000;
+    const step = totpStep(now);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(
+      step - 1,
+    );
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(
+      step + 1,
+    );
+    expect(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now),
+    ).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", now)).toBeNull();
+  });
+});
+
+describe("Two-factor authentication", () => {
+  const profile = {
+    id: "user-1",
+    email: "test@example.com",
+    name: "Test",
+    avatarUrl: null,
+    emailVerified: true,
+    createdAt: new Date("2026-01-01"),
+  };
+
+  /** Enrol through the API and return the plain and stored secrets */
+  async function enrol(): Promise<{ secret: string; stored: string }> {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      ...profile,
+      passwordHash: "hash",
+      tokenVersion: 0,
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastStep: null,
+      recoveryCodes: [],
+    });
+    mockPrisma.user.update.mockResolvedValue({});
+
+    const res = await request(app)
+      .post("/api/users/me/2fa/setup")
+      .set(
+        "Authorization",
+        `Bearer ${generateTokens("user-1", profile.email).accessToken}`,
+      );
+
+    expect(res.status).toBe(200);
+    return {
+      secret: res.body.data.secret,
+      stored: mockPrisma.user.update.mock.calls[0][0].data.totpSecret,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.user.findUnique.mockReset();
+  });
+
+  it("provisions a secret with an otpauth URI and QR code, stored encrypted", async () => {
+    const { secret, stored } = await enrol();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(stored).not.toContain(secret);
+
+    const res = await request(app)
+      .post("/api/users/me/2fa/setup")
+      .set(
+        "Authorization",
+        `Bearer ${generateTokens("user-1", profile.email).accessToken}`,
+      );
+    expect(res.body.data.otpauthUrl).toBe(
+      `otpauth://totp/GridSpace%3Atest%40example.com?secret=${res.body.data.secret}&issuer=GridSpace&algorithm=SHA1&digits=6&period=30`,
+    );
+    expect(res.body.data.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it("enables 2FA with a valid code, issues recovery codes and revokes other sessions", async () => {
+    const { secret, stored } = await enrol();
+    mockPrisma.user.findUnique.mockResolvedValue({
+      ...profile,
+      passwordHash: "hash",
+      tokenVersion: 0,
+      totpSecret: stored,
+      totpEnabled: false,
+      totpLastStep: null,
+      recoveryCodes: [],
+    });
+    mockPrisma.user.update.mockResolvedValue({
+      email: profile.email,
+      tokenVersion: 1,
+    });
+
+    const code = totpCode(secret, totpStep(Date.now()));
+    const auth = `Bearer ${generateTokens("user-1", profile.email).accessToken}`;
+
+    const wrong = await request(app)
+      .post("/api/users/me/2fa/enable")
+      .set("Authorization", auth)
+      .send({ code: code === "000000" ? "111111" : "000000" });
+    expect(wrong.status).toBe(400);
+
+    const res = await request(app)
+      .post("/api/users/me/2fa/enable")
+      .set("Authorization", auth)
+      .send({ code });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.recoveryCodes).toHaveLength(10);
+    const data = mockPrisma.user.update.mock.calls.at(-1)![0].data;
+    expect(data).toMatchObject({
+      totpEnabled: true,
+      tokenVersion: { increment: 1 },
+    });
+    expect(data.recoveryCodes).toEqual(
+      res.body.data.recoveryCodes.map(hashRecoveryCode),
+    );
+    // The current session continues on the new token version
+    expect(jwt.decode(res.body.data.accessToken)).toMatchObject({
+      tokenVersion: 1,
+    });
+    expect(res.headers["set-cookie"]?.[0]).toMatch(/^refreshToken=/);
+  });
+
+  it("rejects access tokens issued before a tokenVersion bump", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: "user-1",
+      email: profile.email,
+      name: "Test",
+      tokenVersion: 1,
+    });
+
+    const stale = await request(app)
+      .get("/api/users/me/2fa")
+      .set(
+        "Authorization",
+        `Bearer ${generateTokens("user-1", profile.email, 0).accessToken}`,
+      );
+    expect(stale.status).toBe(401);
+    expect(stale.body.error.message).toBe("Session revoked");
+  });
+
+  describe("sign-in", () => {
+    async function enabledUser(overrides: Record<string, unknown> = {}) {
+      const { secret, stored } = await enrol();
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...profile,
+        passwordHash: "hash",
+        tokenVersion: 3,
+        totpSecret: stored,
+        totpEnabled: true,
+        totpLastStep: null,
+        recoveryCodes: [hashRecoveryCode("abcde-12345")],
+        ...overrides,
+      });
+      return secret;
+    }
+
+    async function challenge(): Promise<string> {
+      mockBcrypt.compare.mockResolvedValue(true);
+      const res = await request(app)
+        .post("/api/auth/login")
+        .send({ email: profile.email, password: "password123" });
+      expect(res.status).toBe(200);
+      expect(res.body.data.twoFactorRequired).toBe(true);
+      expect(res.body.data.accessToken).toBeUndefined();
+      expect(res.headers["set-cookie"]).toBeUndefined();
+      return res.body.data.challengeToken;
+    }
+
+    it("asks for a code after the password, then signs in with a TOTP code", async () => {
+      const secret = await enabledUser();
+      const challengeToken = await challenge();
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const res = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: totpCode(secret, totpStep(Date.now())) });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.user.email).toBe(profile.email);
+      expect(jwt.decode(res.body.data.accessToken)).toMatchObject({
+        tokenVersion: 3,
+      });
+    });
+
+    it("refuses a TOTP code that was already used", async () => {
+      const secret = await enabledUser({
+        totpLastStep: totpStep(Date.now()) + 1,
+      });
+      const challengeToken = await challenge();
+
+      const res = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: totpCode(secret, totpStep(Date.now())) });
+
+      expect(res.status).toBe(401);
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("accepts a recovery code once and removes it", async () => {
+      await enabledUser();
+      const challengeToken = await challenge();
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const res = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: "ABCDE-12345" });
+
+      expect(res.status).toBe(200);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "user-1",
+          recoveryCodes: { has: hashRecoveryCode("abcde-12345") },
+        },
+        data: { recoveryCodes: [] },
+      });
+
+      const reused = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: "zzzzz-99999" });
+      expect(reused.status).toBe(401);
+    });
+
+    it("does not accept a challenge as an access token", async () => {
+      await enabledUser();
+      const challengeToken = await challenge();
+
+      const res = await request(app)
+        .get("/api/users/me/2fa")
+        .set("Authorization", `Bearer ${challengeToken}`);
+      expect(res.status).toBe(401);
+
+      // Nor a challenge-shaped token signed with the access token secret
+      const forged = jwt.sign(
+        { userId: "user-1", type: "2fa-challenge", tokenVersion: 3 },
+        env.JWT_SECRET,
+      );
+      const forgedRes = await request(app)
+        .get("/api/users/me/2fa")
+        .set("Authorization", `Bearer ${forged}`);
+      expect(forgedRes.status).toBe(401);
+    });
+
+    it("stops taking codes for a challenge after repeated failures", async () => {
+      const secret = await enabledUser();
+      const challengeToken = await challenge();
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      for (let i = 0; i < 5; i++) {
+        const res = await request(app)
+          .post("/api/auth/login/2fa")
+          .send({ challengeToken, code: "zzzzz-99999" });
+        expect(res.status).toBe(401);
+      }
+
+      const res = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: totpCode(secret, totpStep(Date.now())) });
+      expect(res.status).toBe(429);
+      expect(res.body.error.message).toBe(
+        "Too many attempts, please sign in again",
+      );
+    });
+
+    it("rejects a challenge issued before 2FA settings changed", async () => {
+      await enabledUser();
+      const challengeToken = await challenge();
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...profile,
+        tokenVersion: 4,
+      });
+
+      const res = await request(app)
+        .post("/api/auth/login/2fa")
+        .send({ challengeToken, code: "123456" });
+
+      expect(res.status).toBe(401);
+      expect(res.body.error.message).toBe(
+        "Sign-in expired, please start again",
+      );
+    });
+  });
+
+  it("disables 2FA only with the right password", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({
+      ...profile,
+      passwordHash: "hash",
+      tokenVersion: 0,
+      totpSecret: "x",
+      totpEnabled: true,
+      totpLastStep: null,
+      recoveryCodes: [],
+    });
+    mockPrisma.user.update.mockResolvedValue({
+      email: profile.email,
+      tokenVersion: 1,
+    });
+    const auth = `Bearer ${generateTokens("user-1", profile.email).accessToken}`;
+
+    mockBcrypt.compare.mockResolvedValueOnce(false);
+    const wrong = await request(app)
+      .post("/api/users/me/2fa/disable")
+      .set("Authorization", auth)
+      .send({ password: "wrong" });
+    expect(wrong.status).toBe(401);
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+
+    mockBcrypt.compare.mockResolvedValueOnce(true);
+    const res = await request(app)
+      .post("/api/users/me/2fa/disable")
+      .set("Authorization", auth)
+      .send({ password: "password123" });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastStep: null,
+      recoveryCodes: [],
+      tokenVersion: { increment: 1 },
+    });
+    expect(jwt.decode(res.body.data.accessToken)).toMatchObject({
+      tokenVersion: 1,
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock Prisma
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    webhook: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  return { default: mockPrisma };
+});
+
+import prisma from "../models/prisma";
+import {
+  attemptDelivery,
+  processDueDeliveries,
+  retryDelay,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  DISABLE_AFTER_FAILURES,
+  MAX_DELIVERY_ATTEMPTS,
+} from "../services/webhookDelivery.service";
+import { dispatchWebhooks } from "../services/webhook.service";
+
+const mockPrisma = prisma as unknown as {
+  webhook: {
+    findMany: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  webhookDelivery: {
+    create: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const fetchMock = vi.fn();
+
+function pendingDelivery(attempts = 0) {
+  return {
+    id: "dl-1",
+    payload: '{"event":"cell.updated"}',
+    attempts,
+    webhook: { id: "wh-1", url: "https://example.com/hook", secret: "s3cret" },
+  };
+}
+
+describe("Webhook signatures", () => {
+  it("verifies a fresh signature and rejects tampering and replays", () => {
+    const body = '{"event":"cell.updated"}';
+    const header = signWebhookPayload(body, "s3cret", 1_700_000_000);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, "s3cret", 1_700_000_060)).toBe(
+      true,
+    );
+    expect(verifyWebhookSignature(body, header, "other", 1_700_000_060)).toBe(
+      false,
+    );
+    expect(
+      verifyWebhookSignature(`${body} `, header, "s3cret", 1_700_000_060),
+    ).toBe(false);
+    // Captured and replayed ten minutes later
+    expect(verifyWebhookSignature(body, header, "s3cret", 1_700_000_600)).toBe(
+      false,
+    );
+    expect(verifyWebhookSignature(body, "garbage", "s3cret")).toBe(false);
+  });
+});
+
+describe("Webhook delivery queue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", fetchMock);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.webhookDelivery.update.mockImplementation(async ({ data }) => ({
+      id: "dl-1",
+      ...data,
+    }));
+    mockPrisma.webhook.update.mockResolvedValue({
+      consecutiveFailures: 1,
+      isActive: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("backs off exponentially up to a cap", () => {
+    expect(retryDelay(1)).toBe(30_000);
+    expect(retryDelay(2)).toBe(60_000);
+    expect(retryDelay(4)).toBe(240_000);
+    expect(retryDelay(30)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it("records a successful attempt with a signed request", async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery());
+    fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
+
+    const result = await attemptDelivery("dl-1");
+
+    expect(result).toMatchObject({
+      status: "succeeded",
+      attempts: 1,
+      responseStatus: 200,
+      responseBody: "ok",
+      error: null,
+      nextAttemptAt: null,
+    });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers["X-Webhook-Id"]).toBe("dl-1");
+    expect(
+      verifyWebhookSignature(
+        init.body,
+        init.headers["X-Webhook-Signature"],
+        "s3cret",
+      ),
+    ).toBe(true);
+    expect(mockPrisma.webhook.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ consecutiveFailures: 0 }),
+      }),
+    );
+  });
+
+  it("schedules a retry after a failed attempt", async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery(2));
+    fetchMock.mockResolvedValue(new Response("down", { status: 503 }));
+
+    const before = Date.now();
+    const result = await attemptDelivery("dl-1");
+
+    expect(result).toMatchObject({
+      status: "pending",
+      attempts: 3,
+      responseStatus: 503,
+      error: "Receiver responded with 503",
+    });
+    const next = (result!.nextAttemptAt as Date).getTime();
+    expect(next).toBeGreaterThanOrEqual(before + retryDelay(3));
+  });
+
+  it("gives up after the last attempt", async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(
+      pendingDelivery(MAX_DELIVERY_ATTEMPTS - 1),
+    );
+    fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const result = await attemptDelivery("dl-1");
+
+    expect(result).toMatchObject({
+      status: "failed",
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      responseStatus: null,
+      error: "ECONNREFUSED",
+      nextAttemptAt: null,
+    });
+  });
+
+  it("disables a webhook after repeated failures", async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery());
+    fetchMock.mockRejectedValue(new Error("timeout"));
+    mockPrisma.webhook.update.mockResolvedValueOnce({
+      consecutiveFailures: DISABLE_AFTER_FAILURES,
+      isActive: true,
+    });
+
+    await attemptDelivery("dl-1");
+
+    expect(mockPrisma.webhook.update).toHaveBeenLastCalledWith({
+      where: { id: "wh-1" },
+      data: { isActive: false, disabledAt: expect.any(Date) },
+    });
+  });
+
+  it("skips deliveries another attempt holds", async () => {
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await attemptDelivery("dl-1")).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("attempts due deliveries of active webhooks", async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([{ id: "dl-1" }]);
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery());
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    expect(await processDueDeliveries()).toBe(1);
+    expect(mockPrisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: "pending",
+          webhook: { isActive: true },
+        }),
+      }),
+    );
+  });
+
+  it("queues a delivery per subscribed webhook when dispatching", async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([
+      { id: "wh-1" },
+      { id: "wh-2" },
+    ]);
+    mockPrisma.webhookDelivery.create.mockImplementation(async ({ data }) => ({
+      id: `dl-${data.webhookId}`,
+    }));
+    // The immediate attempts lose the claim; the worker will send them
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await dispatchWebhooks("ss-1", "cell.updated", { sheetId: "sh-1" });
+
+    expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledTimes(2);
+    const { data } = mockPrisma.webhookDelivery.create.mock.calls[0][0];
+    expect(data).toMatchObject({ webhookId: "wh-1", event: "cell.updated" });
+    expect(JSON.parse(data.payload).data).toEqual({ sheetId: "sh-1" });
+  });
+});
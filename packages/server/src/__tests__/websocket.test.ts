@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import * as presence from "../websocket/presence";
 import * as cellLocks from "../websocket/cellLocks";
+import * as awareness from "../websocket/awareness";
 import {
   checkRateLimit,
   removeClient,
@@ -194,3 +195,39 @@ describe("Rate Limiter", () => {
     expect(checkRateLimit("socket-1")).toBe(true);
   });
 });
+
+describe("Awareness", () => {
+  beforeEach(() => {
+    awareness.clearAll();
+  });
+
+  it("returns the active states of a room", () => {
+    awareness.setState("sp1", "socket-1", {
+      clientId: 1,
+      userId: "u1",
+      state: { sheetId: "sheet-1", cell: "A1" },
+    });
+    awareness.setState("sp1", "socket-2", {
+      clientId: 2,
+      userId: "u2",
+      state: null,
+    });
+
+    const states = awareness.getStates("sp1");
+    expect(states).toHaveLength(1);
+    expect(states[0].clientId).toBe(1);
+  });
+
+  it("removes a socket's state and returns it", () => {
+    awareness.setState("sp1", "socket-1", {
+      clientId: 1,
+      userId: "u1",
+      state: { cell: "B2" },
+    });
+
+    const removed = awareness.removeState("sp1", "socket-1");
+    expect(removed?.clientId).toBe(1);
+    expect(awareness.getStates("sp1")).toEqual([]);
+    expect(awareness.removeState("sp1", "socket-1")).toBeUndefined();
+  });
+});
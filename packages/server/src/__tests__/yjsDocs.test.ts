@@ -0,0 +1,366 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Server, Socket } from "socket.io";
+import * as Y from "yjs";
+
+// Mock Prisma
+vi.mock("../models/prisma", () => {
+  const mockPrisma = {
+    sheet: {
+      findMany: vi.fn(),
+    },
+    yjsDocument: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  };
+  return { default: mockPrisma };
+});
+
+vi.mock("../services/protection.service", async (importOriginal) => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  cellWriteGuard: vi.fn(),
+}));
+
+import prisma from "../models/prisma";
+import * as yjsDocs from "../websocket/yjsDocs";
+import { registerHandlers } from "../websocket/handlers";
+import { WS_EVENTS } from "../websocket/types";
+import { clearAll as clearRateLimit } from "../websocket/rateLimit";
+import { cellWriteGuard } from "../services/protection.service";
+import { ForbiddenError } from "../utils/AppError";
+
+const mockPrisma = prisma as unknown as {
+  sheet: { findMany: ReturnType<typeof vi.fn> };
+  yjsDocument: {
+    findUnique: ReturnType<typeof vi.fn>;
+    upsert: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+function cellsOf(doc: Y.Doc, sheetId: string): Y.Map<Y.Map<unknown>> {
+  const sheet = doc.getMap<Y.Map<unknown>>("sheets").get(sheetId)!;
+  return sheet.get("cells") as Y.Map<Y.Map<unknown>>;
+}
+
+describe("Yjs documents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    yjsDocs.clearAll();
+    mockPrisma.yjsDocument.upsert.mockResolvedValue({});
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sheet-1",
+        name: "Sheet 1",
+        index: 0,
+        color: null,
+        isHidden: false,
+        cellData: { "0,0": { value: 42, format: { bold: true } } },
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("seeds a new document from the stored sheets", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+
+    const doc = await yjsDocs.openDoc("sp1", "socket-1");
+
+    const sheet = doc.getMap<Y.Map<unknown>>("sheets").get("sheet-1")!;
+    expect(sheet.get("name")).toBe("Sheet 1");
+    expect(cellsOf(doc, "sheet-1").get("0,0")?.get("value")).toBe(42);
+  });
+
+  it("loads persisted state instead of reseeding", async () => {
+    const stored = new Y.Doc();
+    stored.getMap("sheets").set("sheet-9", new Y.Map());
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue({
+      state: Buffer.from(Y.encodeStateAsUpdate(stored)),
+    });
+
+    const doc = await yjsDocs.openDoc("sp1", "socket-1");
+
+    expect(doc.getMap("sheets").has("sheet-9")).toBe(true);
+    expect(mockPrisma.sheet.findMany).not.toHaveBeenCalled();
+  });
+
+  it("shares one document between clients of a spreadsheet", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+
+    const [a, b] = await Promise.all([
+      yjsDocs.openDoc("sp1", "socket-1"),
+      yjsDocs.openDoc("sp1", "socket-2"),
+    ]);
+
+    expect(a).toBe(b);
+    expect(mockPrisma.yjsDocument.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it("merges concurrent client edits deterministically", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+    const server = await yjsDocs.openDoc("sp1", "socket-1");
+    const { update } = yjsDocs.encodeSync(server);
+
+    const alice = new Y.Doc();
+    const bob = new Y.Doc();
+    Y.applyUpdate(alice, update);
+    Y.applyUpdate(bob, update);
+
+    // Same cell, different fields: both edits survive
+    cellsOf(alice, "sheet-1").get("0,0")!.set("value", 7);
+    cellsOf(bob, "sheet-1").get("0,0")!.set("format", { italic: true });
+
+    Y.applyUpdate(server, Y.encodeStateAsUpdate(alice));
+    Y.applyUpdate(server, Y.encodeStateAsUpdate(bob));
+
+    const cell = cellsOf(server, "sheet-1").get("0,0")!;
+    expect(cell.get("value")).toBe(7);
+    expect(cell.get("format")).toEqual({ italic: true });
+  });
+
+  it("persists after changes and flushes when the last client leaves", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue({
+      state: Buffer.from(Y.encodeStateAsUpdate(new Y.Doc())),
+    });
+    const doc = await yjsDocs.openDoc("sp1", "socket-1");
+
+    doc.getMap("sheets").set("sheet-2", new Y.Map());
+    expect(mockPrisma.yjsDocument.upsert).not.toHaveBeenCalled();
+
+    await yjsDocs.closeDoc("sp1", "socket-1");
+
+    expect(mockPrisma.yjsDocument.upsert).toHaveBeenCalledTimes(1);
+    expect(yjsDocs.getDoc("sp1")).toBeUndefined();
+  });
+
+  it("persists on a timer while clients stay connected", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue({
+      state: Buffer.from(Y.encodeStateAsUpdate(new Y.Doc())),
+    });
+    const doc = await yjsDocs.openDoc("sp1", "socket-1");
+
+    doc.getMap("sheets").set("sheet-2", new Y.Map());
+    await vi.runAllTimersAsync();
+
+    expect(mockPrisma.yjsDocument.upsert).toHaveBeenCalledTimes(1);
+    const { state } = mockPrisma.yjsDocument.upsert.mock.calls[0][0].update;
+    const restored = new Y.Doc();
+    Y.applyUpdate(restored, new Uint8Array(state));
+    expect(restored.getMap("sheets").has("sheet-2")).toBe(true);
+  });
+
+  it("reseeds from cells written while nobody had it open", async () => {
+    // Stored document state, as upsert/deleteMany leave it
+    let stored: { state: Buffer } | null = null;
+    mockPrisma.yjsDocument.findUnique.mockImplementation(async () => stored);
+    mockPrisma.yjsDocument.upsert.mockImplementation(
+      async ({ update }: { update: { state: Buffer } }) => (stored = update),
+    );
+    mockPrisma.yjsDocument.deleteMany.mockImplementation(async () => {
+      stored = null;
+      return { count: 1 };
+    });
+
+    // First session edits and leaves; its state is stored
+    const first = await yjsDocs.openDoc("sp1", "socket-1");
+    cellsOf(first, "sheet-1").get("0,0")!.set("value", 43);
+    await yjsDocs.closeDoc("sp1", "socket-1");
+    expect(stored).not.toBeNull();
+
+    // The public API writes the cell before the next session opens
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sheet-1",
+        name: "Sheet 1",
+        index: 0,
+        color: null,
+        isHidden: false,
+        cellData: { "0,0": { value: 99 } },
+      },
+    ]);
+    const relay = await yjsDocs.applyCellWrite("sp1", "sheet-1", {
+      upserts: { "0,0": { value: 99 } },
+      deletes: [],
+    });
+    expect(relay).toBeNull();
+
+    const second = await yjsDocs.openDoc("sp1", "socket-2");
+    expect(cellsOf(second, "sheet-1").get("0,0")!.toJSON()).toEqual({
+      value: 99,
+    });
+  });
+
+  it("applies server cell writes to an open document for its clients", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+    const server = await yjsDocs.openDoc("sp1", "socket-1");
+    const client = new Y.Doc();
+    Y.applyUpdate(client, yjsDocs.encodeSync(server).update);
+
+    const update = await yjsDocs.applyCellWrite("sp1", "sheet-1", {
+      upserts: {
+        "0,0": { value: 7, format: { bold: true } },
+        "1,0": { value: 1 },
+      },
+      deletes: [],
+    });
+    Y.applyUpdate(client, update!);
+
+    expect(mockPrisma.yjsDocument.deleteMany).not.toHaveBeenCalled();
+    expect(cellsOf(client, "sheet-1").get("0,0")!.toJSON()).toEqual({
+      value: 7,
+      format: { bold: true },
+    });
+    expect(cellsOf(client, "sheet-1").get("1,0")!.get("value")).toBe(1);
+  });
+
+  it("discards persisted and in-memory state", async () => {
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+    await yjsDocs.openDoc("sp1", "socket-1");
+
+    await yjsDocs.discardDoc("sp1");
+
+    expect(yjsDocs.getDoc("sp1")).toBeUndefined();
+    expect(mockPrisma.yjsDocument.deleteMany).toHaveBeenCalledWith({
+      where: { spreadsheetId: "sp1" },
+    });
+  });
+});
+
+describe("Yjs updates from clients", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    yjsDocs.clearAll();
+    clearRateLimit();
+    mockPrisma.yjsDocument.findUnique.mockResolvedValue(null);
+    mockPrisma.sheet.findMany.mockResolvedValue([
+      {
+        id: "sheet-1",
+        name: "Sheet 1",
+        index: 0,
+        color: null,
+        isHidden: false,
+        cellData: {
+          "0,0": { value: "locked" },
+          "5,5": { value: "old" },
+        },
+      },
+    ]);
+    await yjsDocs.openDoc("sp1", "socket-1");
+  });
+
+  afterEach(() => {
+    yjsDocs.clearAll();
+  });
+
+  /** A client's edit to the server document, as an update */
+  function clientUpdate(edit: (client: Y.Doc) => void): Uint8Array {
+    const server = yjsDocs.getDoc("sp1")!;
+    const client = new Y.Doc();
+    Y.applyUpdate(client, Y.encodeStateAsUpdate(server));
+    edit(client);
+    return Y.encodeStateAsUpdate(client, Y.encodeStateVector(server));
+  }
+
+  /** Register the handlers on a fake socket that has joined sp1 */
+  function connect() {
+    const handlers = new Map<string, (payload: unknown) => void>();
+    const relayed = vi.fn();
+    const socket = {
+      id: "socket-1",
+      data: {
+        user: {
+          id: "user-2",
+          email: "b@example.com",
+          name: "B",
+          avatarUrl: null,
+        },
+        tabId: "tab-1",
+        spreadsheetId: "sp1",
+        canEdit: true,
+        role: "editor",
+      },
+      on: (event: string, handler: (payload: unknown) => void) =>
+        handlers.set(event, handler),
+      emit: vi.fn(),
+      to: () => ({ emit: relayed }),
+    };
+    registerHandlers({} as Server, socket as unknown as Socket);
+    const send = (update: Uint8Array) =>
+      handlers.get(WS_EVENTS.YJS_UPDATE)!(update);
+    return { socket, relayed, send };
+  }
+
+  it("lists the cells an update touches without applying it", () => {
+    const server = yjsDocs.getDoc("sp1")!;
+    const update = clientUpdate((client) => {
+      const cells = cellsOf(client, "sheet-1");
+      cells.get("0,0")!.set("value", "changed");
+      cells.delete("5,5");
+      cells.set("1,1", new Y.Map());
+      const sheet = new Y.Map<unknown>();
+      const newCells = new Y.Map<Y.Map<unknown>>();
+      newCells.set("2,2", new Y.Map());
+      sheet.set("cells", newCells);
+      client.getMap("sheets").set("sheet-2", sheet);
+    });
+
+    const touched = yjsDocs.touchedCells(server, update);
+
+    expect(touched.get("sheet-1")).toEqual(new Set(["0,0", "5,5", "1,1"]));
+    expect(touched.get("sheet-2")).toEqual(new Set(["2,2"]));
+    expect(cellsOf(server, "sheet-1").get("0,0")!.get("value")).toBe("locked");
+  });
+
+  it("refuses an update that writes a protected cell", async () => {
+    vi.mocked(cellWriteGuard).mockResolvedValue((cellKeys) => {
+      if (cellKeys.includes("0,0")) {
+        throw new ForbiddenError("A1 is protected");
+      }
+    });
+    const { socket, relayed, send } = connect();
+
+    send(
+      clientUpdate((client) => {
+        cellsOf(client, "sheet-1").get("0,0")!.set("value", "overwritten");
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(socket.emit).toHaveBeenCalledWith(WS_EVENTS.CELL_UPDATE_REJECTED, {
+        sheetId: "sheet-1",
+        cell: "0,0",
+        reason: "A1 is protected",
+      }),
+    );
+    expect(cellWriteGuard).toHaveBeenCalledWith(
+      "sp1",
+      "sheet-1",
+      "user-2",
+      "editor",
+    );
+    const server = yjsDocs.getDoc("sp1")!;
+    expect(cellsOf(server, "sheet-1").get("0,0")!.get("value")).toBe("locked");
+    expect(relayed).not.toHaveBeenCalled();
+  });
+
+  it("applies and relays an update to unprotected cells", async () => {
+    vi.mocked(cellWriteGuard).mockResolvedValue(() => {});
+    const { relayed, send } = connect();
+    const update = clientUpdate((client) => {
+      cellsOf(client, "sheet-1").get("5,5")!.set("value", "new");
+    });
+
+    send(update);
+
+    await vi.waitFor(() =>
+      expect(relayed).toHaveBeenCalledWith(WS_EVENTS.YJS_UPDATE, update),
+    );
+    const server = yjsDocs.getDoc("sp1")!;
+    expect(cellsOf(server, "sheet-1").get("5,5")!.get("value")).toBe("new");
+  });
+});
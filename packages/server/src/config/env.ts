@@ -19,6 +19,16 @@ const envSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string().default(""),
   GITHUB_CLIENT_ID: z.string().default(""),
   GITHUB_CLIENT_SECRET: z.string().default(""),
+  // Email: "smtp" sends through SMTP_*, "outbox" writes .eml files to
+  // EMAIL_OUTBOX_DIR for local development
+  EMAIL_TRANSPORT: z.enum(["smtp", "outbox"]).default("outbox"),
+  EMAIL_FROM: z.string().default("GridSpace <no-reply@gridspace.local>"),
+  EMAIL_OUTBOX_DIR: z.string().default(".outbox"),
+  SMTP_HOST: z.string().default(""),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"),
+  SMTP_USER: z.string().default(""),
+  SMTP_PASS: z.string().default(""),
 });
 
 type Env = z.infer<typeof envSchema>;
@@ -1,8 +1,10 @@
 import passport from "passport";
+import type { Request } from "express";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as GitHubStrategy } from "passport-github2";
 import { env } from "./env";
 import { findOrCreateOAuthUser } from "../services/auth.service";
+import { sessionClient } from "../services/session.service";
 
 export function initializePassport(): void {
   // Google Strategy
@@ -13,8 +15,9 @@ export function initializePassport(): void {
           clientID: env.GOOGLE_CLIENT_ID,
           clientSecret: env.GOOGLE_CLIENT_SECRET,
           callbackURL: `${env.CLIENT_URL}/api/auth/oauth/google/callback`,
+          passReqToCallback: true,
         },
-        async (_accessToken, _refreshToken, profile, done) => {
+        async (req, _accessToken, _refreshToken, profile, done) => {
           try {
             const email = profile.emails?.[0]?.value;
             if (!email) {
@@ -25,6 +28,7 @@ export function initializePassport(): void {
               profile.displayName || null,
               profile.photos?.[0]?.value || null,
               "google",
+              sessionClient(req),
             );
             // Pass result through to authenticate callback (typed as Express.User)
             done(null, result as unknown as Express.User);
@@ -45,8 +49,10 @@ export function initializePassport(): void {
           clientSecret: env.GITHUB_CLIENT_SECRET,
           callbackURL: `${env.CLIENT_URL}/api/auth/oauth/github/callback`,
           scope: ["user:email"],
+          passReqToCallback: true,
         },
         async (
+          req: Request,
           _accessToken: string,
           _refreshToken: string,
           profile: {
@@ -66,6 +72,7 @@ export function initializePassport(): void {
               profile.displayName || null,
               profile.photos?.[0]?.value || null,
               "github",
+              sessionClient(req),
             );
             done(null, result);
           } catch (err) {
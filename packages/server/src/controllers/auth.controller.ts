@@ -2,17 +2,27 @@ import type { Request, Response, NextFunction } from "express";
 import passport from "passport";
 import type { AuthRequest } from "../types/index";
 import * as authService from "../services/auth.service";
+import { sessionClient } from "../services/session.service";
 import { apiSuccess, apiError } from "../utils/apiResponse";
 import { env } from "../config/env";
 
-const REFRESH_COOKIE_OPTIONS = {
+// Scoped to /api/auth so logout receives it too, not just refresh
+export const REFRESH_COOKIE_OPTIONS = {
   httpOnly: true,
   secure: process.env.NODE_ENV === "production",
   sameSite: "lax" as const,
-  path: "/api/auth/refresh",
+  path: "/api/auth",
   maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
 };
 
+/** Where the refresh cookie used to live; cleared as clients come by */
+const LEGACY_REFRESH_COOKIE_PATH = "/api/auth/refresh";
+
+function clearRefreshCookie(res: Response): void {
+  res.clearCookie("refreshToken", { path: REFRESH_COOKIE_OPTIONS.path });
+  res.clearCookie("refreshToken", { path: LEGACY_REFRESH_COOKIE_PATH });
+}
+
 export async function register(
   req: Request,
   res: Response,
@@ -20,7 +30,12 @@ export async function register(
 ): Promise<void> {
   try {
     const { email, password, name } = req.body;
-    const result = await authService.register(email, password, name);
+    const result = await authService.register(
+      email,
+      password,
+      name,
+      sessionClient(req),
+    );
 
     res.cookie(
       "refreshToken",
@@ -46,7 +61,43 @@ export async function login(
 ): Promise<void> {
   try {
     const { email, password } = req.body;
-    const result = await authService.login(email, password);
+    const result = await authService.login(email, password, sessionClient(req));
+
+    // 2FA on — the client redeems the challenge with a code
+    if ("twoFactorRequired" in result) {
+      res.json(apiSuccess(result));
+      return;
+    }
+
+    res.cookie(
+      "refreshToken",
+      result.tokens.refreshToken,
+      REFRESH_COOKIE_OPTIONS,
+    );
+
+    res.json(
+      apiSuccess({
+        user: result.user,
+        accessToken: result.tokens.accessToken,
+      }),
+    );
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function loginTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { challengeToken, code } = req.body;
+    const result = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      sessionClient(req),
+    );
 
     res.cookie(
       "refreshToken",
@@ -77,13 +128,14 @@ export async function refresh(
       return;
     }
 
-    const result = await authService.refreshTokens(token);
+    const result = await authService.refreshTokens(token, sessionClient(req));
 
     res.cookie(
       "refreshToken",
       result.tokens.refreshToken,
       REFRESH_COOKIE_OPTIONS,
     );
+    res.clearCookie("refreshToken", { path: LEGACY_REFRESH_COOKIE_PATH });
 
     res.json(
       apiSuccess({
@@ -96,9 +148,18 @@ export async function refresh(
   }
 }
 
-export async function logout(_req: Request, res: Response): Promise<void> {
-  res.clearCookie("refreshToken", { path: "/api/auth/refresh" });
-  res.json(apiSuccess({ message: "Logged out" }));
+export async function logout(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    await authService.logout(req.cookies?.refreshToken);
+    clearRefreshCookie(res);
+    res.json(apiSuccess({ message: "Logged out" }));
+  } catch (err) {
+    next(err);
+  }
 }
 
 export async function forgotPassword(
@@ -177,12 +238,34 @@ export async function changePassword(
   next: NextFunction,
 ): Promise<void> {
   try {
-    await authService.changePassword(
+    const tokens = await authService.changePassword(
       req.user!.id,
       req.body.currentPassword,
       req.body.newPassword,
+      req.user!.sessionId,
+      sessionClient(req),
+    );
+    // Other sessions are signed out; this one continues with new tokens
+    res.cookie("refreshToken", tokens.refreshToken, REFRESH_COOKIE_OPTIONS);
+    res.json(
+      apiSuccess({
+        message: "Password changed",
+        accessToken: tokens.accessToken,
+      }),
     );
-    res.json(apiSuccess({ message: "Password changed" }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function resendVerificationEmail(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    await authService.sendVerificationEmail(req.user!.id);
+    res.json(apiSuccess({ message: "Verification email sent" }));
   } catch (err) {
     next(err);
   }
@@ -195,17 +278,19 @@ export async function deleteAccount(
 ): Promise<void> {
   try {
     await authService.deleteAccount(req.user!.id);
-    res.clearCookie("refreshToken", { path: "/api/auth/refresh" });
+    clearRefreshCookie(res);
     res.json(apiSuccess({ message: "Account deleted" }));
   } catch (err) {
     next(err);
   }
 }
 
-interface OAuthResult {
-  user: { id: string };
-  tokens: { accessToken: string; refreshToken: string };
-}
+type OAuthResult =
+  | {
+      user: { id: string };
+      tokens: { accessToken: string; refreshToken: string };
+    }
+  | { twoFactorRequired: true; challengeToken: string };
 
 export function oauthGoogleRedirect(
   req: Request,
@@ -234,13 +319,16 @@ export function oauthGoogleCallback(
       if (err || !result) {
         return res.redirect(`${env.CLIENT_URL}/login?error=oauth_failed`);
       }
-      res.cookie("refreshToken", result.tokens.refreshToken, {
-        httpOnly: true,
-        secure: env.NODE_ENV === "production",
-        sameSite: "lax" as const,
-        path: "/api/auth/refresh",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      });
+      if ("twoFactorRequired" in result) {
+        return res.redirect(
+          `${env.CLIENT_URL}/login?challenge=${encodeURIComponent(result.challengeToken)}`,
+        );
+      }
+      res.cookie(
+        "refreshToken",
+        result.tokens.refreshToken,
+        REFRESH_COOKIE_OPTIONS,
+      );
       res.redirect(
         `${env.CLIENT_URL}/auth/callback?token=${result.tokens.accessToken}`,
       );
@@ -275,13 +363,16 @@ export function oauthGithubCallback(
       if (err || !result) {
         return res.redirect(`${env.CLIENT_URL}/login?error=oauth_failed`);
       }
-      res.cookie("refreshToken", result.tokens.refreshToken, {
-        httpOnly: true,
-        secure: env.NODE_ENV === "production",
-        sameSite: "lax" as const,
-        path: "/api/auth/refresh",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      });
+      if ("twoFactorRequired" in result) {
+        return res.redirect(
+          `${env.CLIENT_URL}/login?challenge=${encodeURIComponent(result.challengeToken)}`,
+        );
+      }
+      res.cookie(
+        "refreshToken",
+        result.tokens.refreshToken,
+        REFRESH_COOKIE_OPTIONS,
+      );
       res.redirect(
         `${env.CLIENT_URL}/auth/callback?token=${result.tokens.accessToken}`,
       );
@@ -1,21 +1,50 @@
 /**
  * Public API controllers — handles /api/v1/ endpoints.
- * Uses API key auth, standard envelope responses.
+ * Uses API key auth, standard envelope responses. Every handler checks the
+ * key's scope and spreadsheet pins before touching data.
  */
 import type { Response, NextFunction } from "express";
 import type { AuthRequest } from "../types/index";
 import { apiSuccess } from "../utils/apiResponse";
-import { AppError, NotFoundError } from "../utils/AppError";
-import type { Prisma } from "@prisma/client";
+import { AppError, ForbiddenError, NotFoundError } from "../utils/AppError";
 import prisma from "../models/prisma";
 import * as spreadsheetService from "../services/spreadsheet.service";
 import * as webhookService from "../services/webhook.service";
+import * as recalcService from "../services/recalc.service";
+import * as protectionService from "../services/protection.service";
+import * as sheetService from "../services/sheet.service";
+import { allowsSpreadsheet, hasScope } from "../services/apiKey.service";
+import type { ApiKeyScope } from "../services/apiKey.service";
+import {
+  effectiveRole,
+  roleAtLeast,
+  spreadsheetAccessSelect,
+} from "../services/access.service";
+import type { SpreadsheetRole } from "../services/access.service";
 
 function paramStr(val: string | string[] | undefined): string {
   if (Array.isArray(val)) return val[0];
   return val ?? "";
 }
 
+/**
+ * Throw unless the request's API key grants `scope` and, when given, is
+ * allowed to touch `spreadsheetId`
+ */
+function requireKeyAccess(
+  req: AuthRequest,
+  scope: ApiKeyScope,
+  spreadsheetId?: string,
+): void {
+  if (!req.apiKey) throw new AppError(401, "API key required");
+  if (!hasScope(req.apiKey, scope)) {
+    throw new ForbiddenError(`This API key lacks the ${scope} scope`);
+  }
+  if (spreadsheetId && !allowsSpreadsheet(req.apiKey, spreadsheetId)) {
+    throw new ForbiddenError("This API key cannot access this spreadsheet");
+  }
+}
+
 /** GET /api/v1/spreadsheets/:id — read spreadsheet */
 export async function getSpreadsheet(
   req: AuthRequest,
@@ -25,6 +54,7 @@ export async function getSpreadsheet(
   try {
     if (!req.user) throw new AppError(401, "Authentication required");
     const id = paramStr(req.params.id);
+    requireKeyAccess(req, "spreadsheets:read", id);
     const data = await spreadsheetService.getSpreadsheet(id, req.user.id);
     res.json(apiSuccess(data));
   } catch (err) {
@@ -41,6 +71,7 @@ export async function listSheets(
   try {
     if (!req.user) throw new AppError(401, "Authentication required");
     const id = paramStr(req.params.id);
+    requireKeyAccess(req, "spreadsheets:read", id);
 
     // Verify access
     await spreadsheetService.getSpreadsheet(id, req.user.id);
@@ -73,6 +104,7 @@ export async function getCells(
     if (!req.user) throw new AppError(401, "Authentication required");
     const id = paramStr(req.params.id);
     const sheetId = paramStr(req.params.sheetId);
+    requireKeyAccess(req, "spreadsheets:read", id);
 
     // Verify access
     await spreadsheetService.getSpreadsheet(id, req.user.id);
@@ -109,35 +141,61 @@ export async function updateCells(
     const id = paramStr(req.params.id);
     const sheetId = paramStr(req.params.sheetId);
     const updates: Array<{ cell: string; value: unknown }> = req.body.cells;
+    requireKeyAccess(req, "cells:write", id);
 
     // Verify editor access
-    await checkEditorAccess(id, req.user.id);
+    const role = await checkEditorAccess(id, req.user.id);
 
-    const sheet = await prisma.sheet.findFirst({
-      where: { id: sheetId, spreadsheetId: id },
-      select: { cellData: true },
-    });
-
-    if (!sheet) throw new NotFoundError("Sheet not found");
-
-    const cellData = (sheet.cellData ?? {}) as Record<string, unknown>;
-
-    for (const update of updates) {
-      const cellKey = update.cell.toUpperCase();
-      const existing = (cellData[cellKey] ?? {}) as Record<string, unknown>;
-      cellData[cellKey] = { ...existing, value: update.value };
-    }
+    const checkCells = await protectionService.cellWriteGuard(
+      id,
+      sheetId,
+      req.user.id,
+      role,
+    );
 
-    await prisma.sheet.update({
-      where: { id: sheetId },
-      data: { cellData: cellData as Prisma.InputJsonValue },
-    });
+    // Built against the sheet at commit time, so concurrent saves are kept
+    await sheetService.writeCells(
+      id,
+      sheetId,
+      (current) => {
+        const patch: sheetService.CellPatch = { upserts: {}, deletes: [] };
+        for (const update of updates) {
+          const cellKey = recalcService.resolveCellKey(current, update.cell);
+          const existing = (patch.upserts[cellKey] ??
+            current[cellKey] ??
+            {}) as Record<string, unknown>;
+          // "=..." strings are formulas; their value is filled in by the recalc
+          if (
+            typeof update.value === "string" &&
+            update.value.startsWith("=")
+          ) {
+            patch.upserts[cellKey] = {
+              ...existing,
+              formula: update.value,
+              value: null,
+            };
+          } else {
+            const cell: Record<string, unknown> = {
+              ...existing,
+              value: update.value,
+            };
+            delete cell.formula;
+            patch.upserts[cellKey] = cell;
+          }
+        }
+        return patch;
+      },
+      checkCells,
+    );
 
-    // Touch spreadsheet updatedAt
-    await prisma.spreadsheet.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    });
+    // Recompute formulas so readers and webhooks see computed values
+    const recalculated = (await recalcService.recalculateSpreadsheet(id)).map(
+      (change) => ({
+        sheetId: change.sheetId,
+        cell: recalcService.toA1(change.cell),
+        value: change.value,
+      }),
+    );
 
     // Dispatch webhooks (fire-and-forget)
     webhookService
@@ -145,13 +203,16 @@ export async function updateCells(
         spreadsheetId: id,
         sheetId,
         changes: updates,
+        recalculated,
         userId: req.user.id,
       })
       .catch(() => {
         /* non-blocking */
       });
 
-    res.json(apiSuccess({ sheetId, updatedCells: updates.length }));
+    res.json(
+      apiSuccess({ sheetId, updatedCells: updates.length, recalculated }),
+    );
   } catch (err) {
     next(err);
   }
@@ -167,6 +228,7 @@ export async function exportSpreadsheet(
     if (!req.user) throw new AppError(401, "Authentication required");
     const id = paramStr(req.params.id);
     const format = paramStr(req.params.format);
+    requireKeyAccess(req, "export", id);
 
     if (!["csv", "xlsx", "pdf"].includes(format)) {
       throw new AppError(400, "Unsupported format. Use csv, xlsx, or pdf");
@@ -208,27 +270,92 @@ export async function exportSpreadsheet(
   }
 }
 
+/** GET /api/v1/webhooks — list the key owner's webhooks */
+export async function listWebhooks(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    requireKeyAccess(req, "webhooks:manage");
+    const grant = req.apiKey!;
+
+    const webhooks = await webhookService.listWebhooks(req.user.id);
+    res.json(
+      apiSuccess(
+        webhooks.filter((w) => allowsSpreadsheet(grant, w.spreadsheetId)),
+      ),
+    );
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** POST /api/v1/webhooks — create a webhook */
+export async function createWebhook(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const { spreadsheetId, url, events } = req.body;
+    requireKeyAccess(req, "webhooks:manage", spreadsheetId);
+
+    const webhook = await webhookService.createWebhook(req.user.id, {
+      spreadsheetId,
+      url,
+      events,
+    });
+    res.status(201).json(apiSuccess(webhook));
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** DELETE /api/v1/webhooks/:webhookId — delete a webhook */
+export async function deleteWebhook(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const webhookId = paramStr(req.params.webhookId);
+    requireKeyAccess(req, "webhooks:manage");
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+      select: { spreadsheetId: true },
+    });
+    if (!webhook) throw new NotFoundError("Webhook not found");
+    requireKeyAccess(req, "webhooks:manage", webhook.spreadsheetId);
+
+    await webhookService.deleteWebhook(webhookId, req.user.id);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
+
 // --- Helpers ---
 
 async function checkEditorAccess(
   spreadsheetId: string,
   userId: string,
-): Promise<void> {
+): Promise<SpreadsheetRole> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
   if (!spreadsheet) throw new NotFoundError("Spreadsheet not found");
-  if (spreadsheet.ownerId === userId) return;
-
-  const access = spreadsheet.access[0];
-  if (!access || (access.role !== "editor" && access.role !== "owner")) {
+  const role = effectiveRole(spreadsheet, userId);
+  if (!role || !roleAtLeast(role, "editor")) {
     throw new AppError(403, "You need editor access to write cells");
   }
+  return role;
 }
 
 function filterCellsByRange(
@@ -114,7 +114,7 @@ export async function saveSheetData(
       throw new AppError(400, "Spreadsheet ID and Sheet ID are required");
     }
 
-    const { cellData, columnMeta, rowMeta } = req.body;
+    const { cellData, columnMeta, rowMeta, objects } = req.body;
 
     const result = await sheetService.saveCellData(
       id,
@@ -123,6 +123,107 @@ export async function saveSheetData(
       cellData,
       columnMeta,
       rowMeta,
+      objects,
+    );
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Auto-save endpoint: apply a batch of cell changes against a revision */
+export async function patchSheetData(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    const sheetId = paramStr(req.params.sheetId);
+    if (!id || !sheetId) {
+      throw new AppError(400, "Spreadsheet ID and Sheet ID are required");
+    }
+
+    const {
+      upserts,
+      deletes,
+      merge,
+      baseRevision,
+      columnMeta,
+      rowMeta,
+      objects,
+    } = req.body;
+
+    const result = await sheetService.patchCellData(
+      id,
+      sheetId,
+      req.user.id,
+      { upserts, deletes, merge },
+      baseRevision,
+      { columnMeta, rowMeta, objects },
+    );
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Load sheet objects (conditional formats, charts, pivots, ...) */
+export async function getSheetObjects(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    const sheetId = paramStr(req.params.sheetId);
+    if (!id || !sheetId) {
+      throw new AppError(400, "Spreadsheet ID and Sheet ID are required");
+    }
+
+    const result = await sheetService.getSheetObjects(id, sheetId, req.user.id);
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Save sheet objects with optional optimistic concurrency check */
+export async function saveSheetObjects(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    const sheetId = paramStr(req.params.sheetId);
+    if (!id || !sheetId) {
+      throw new AppError(400, "Spreadsheet ID and Sheet ID are required");
+    }
+
+    const { objects, baseVersion } = req.body;
+
+    const result = await sheetService.saveSheetObjects(
+      id,
+      sheetId,
+      req.user.id,
+      objects,
+      baseVersion,
     );
 
     res.json(apiSuccess(result));
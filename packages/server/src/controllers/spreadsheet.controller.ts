@@ -28,11 +28,17 @@ export async function listSpreadsheets(
     const search = (req.query.search as string) || undefined;
     const sortBy = (req.query.sortBy as string) || "updatedAt";
     const sortDir = (req.query.sortDir as string) || "desc";
+    const teamId = (req.query.teamId as string) || undefined;
+    const folderId = (req.query.folderId as string) || undefined;
+    const tagId = (req.query.tagId as string) || undefined;
 
     const { spreadsheets, total } = await spreadsheetService.listSpreadsheets(
       req.user.id,
       {
-        filter: filter as "all" | "owned" | "shared" | "starred",
+        filter: filter as spreadsheetService.ListOptions["filter"],
+        teamId,
+        folderId,
+        tagId,
         search,
         sortBy: sortBy as "title" | "updatedAt" | "createdAt",
         sortDir: sortDir as "asc" | "desc",
@@ -84,11 +90,12 @@ export async function createSpreadsheet(
       throw new AppError(401, "Authentication required");
     }
 
-    const { title } = req.body;
+    const { title, teamId, folderId } = req.body;
 
     const spreadsheet = await spreadsheetService.createSpreadsheet(
       req.user.id,
       title,
+      { teamId, folderId },
     );
 
     res.status(201).json(apiSuccess(spreadsheet));
@@ -112,12 +119,12 @@ export async function updateSpreadsheet(
       throw new AppError(400, "Spreadsheet ID is required");
     }
 
-    const { title, isStarred } = req.body;
+    const { title, isStarred, calcSettings } = req.body;
 
     const spreadsheet = await spreadsheetService.updateSpreadsheet(
       id,
       req.user.id,
-      { title, isStarred },
+      { title, isStarred, calcSettings },
     );
 
     res.json(apiSuccess(spreadsheet));
@@ -126,6 +133,34 @@ export async function updateSpreadsheet(
   }
 }
 
+export async function moveSpreadsheet(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    const { teamId, folderId } = req.body;
+
+    const location = await spreadsheetService.moveSpreadsheet(id, req.user.id, {
+      teamId,
+      folderId,
+    });
+
+    res.json(apiSuccess(location));
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function deleteSpreadsheet(
   req: AuthRequest,
   res: Response,
@@ -141,7 +176,7 @@ export async function deleteSpreadsheet(
       throw new AppError(400, "Spreadsheet ID is required");
     }
 
-    await spreadsheetService.deleteSpreadsheet(id, req.user.id);
+    await spreadsheetService.trashSpreadsheet(id, req.user.id);
 
     res.status(204).send();
   } catch (err) {
@@ -149,6 +184,90 @@ export async function deleteSpreadsheet(
   }
 }
 
+export async function restoreSpreadsheet(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    const result = await spreadsheetService.restoreSpreadsheet(id, req.user.id);
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteSpreadsheetForever(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    await spreadsheetService.deleteSpreadsheetForever(id, req.user.id);
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function emptyTrash(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const deleted = await spreadsheetService.emptyTrash(req.user.id);
+
+    res.json(apiSuccess({ deleted }));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function bulkUpdate(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const { ids, ...op } = req.body;
+
+    const result = await spreadsheetService.bulkUpdate(req.user.id, ids, op);
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function duplicateSpreadsheet(
   req: AuthRequest,
   res: Response,
@@ -194,3 +313,84 @@ export async function toggleStar(
     next(err);
   }
 }
+
+export async function saveNamedRanges(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    const result = await spreadsheetService.saveNamedRanges(
+      id,
+      req.user.id,
+      req.body.namedRanges,
+    );
+
+    res.json(apiSuccess(result));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function tagSpreadsheet(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    const tag = await spreadsheetService.tagSpreadsheet(
+      id,
+      req.user.id,
+      req.body.tagId,
+    );
+
+    res.json(apiSuccess(tag));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function untagSpreadsheet(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new AppError(401, "Authentication required");
+    }
+
+    const id = paramStr(req.params.id);
+    if (!id) {
+      throw new AppError(400, "Spreadsheet ID is required");
+    }
+
+    await spreadsheetService.untagSpreadsheet(
+      id,
+      req.user.id,
+      paramStr(req.params.tagId),
+    );
+
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * API key authentication middleware.
- * Reads X-API-Key header, validates the key, and attaches user to request.
+ * Reads X-API-Key header, validates the key, and attaches the user and the
+ * key's scopes to the request.
  */
 import type { Response, NextFunction } from "express";
 import type { AuthRequest } from "../types/index";
@@ -36,6 +37,12 @@ export async function apiKeyAuth(
     }
 
     req.user = user;
+    req.apiKey = {
+      keyId: result.keyId,
+      scopes: result.scopes,
+      spreadsheetIds: result.spreadsheetIds,
+      rateLimit: result.rateLimit,
+    };
     next();
   } catch (err) {
     next(err);
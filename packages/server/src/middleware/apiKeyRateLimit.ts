@@ -0,0 +1,169 @@
+/**
+ * Per-key rate limiting for the public API.
+ * Each API key gets a token bucket holding `rateLimit` tokens that refills
+ * at `rateLimit` tokens per minute, so a key can burst up to its limit and
+ * then sustain its per-minute rate. Buckets live in Redis so every server
+ * shares them, with an in-memory fallback when Redis is unavailable.
+ * Also records each request against the key's daily usage.
+ */
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { getRedisClient } from "../config/redis";
+import { recordApiKeyUsage } from "../services/apiKeyUsage.service";
+import { apiError } from "../utils/apiResponse";
+import logger from "../utils/logger";
+
+const WINDOW_MS = 60_000;
+const KEY_PREFIX = "ratelimit:apikey:";
+
+export interface BucketResult {
+  allowed: boolean;
+  /** Tokens left after this request */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next token, when the request was refused */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const memoryBuckets = new Map<string, Bucket>();
+
+/**
+ * Refill the bucket for the time since it was last touched, then take a
+ * token. Runs atomically in Redis; time comes from the Redis clock so
+ * servers with drifting clocks agree.
+ */
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity / rate))
+return { allowed, tostring(tokens) }
+`;
+
+function bucketResult(
+  allowed: boolean,
+  tokens: number,
+  capacity: number,
+): BucketResult {
+  const perSecond = (capacity / WINDOW_MS) * 1000;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    resetSeconds: Math.ceil((capacity - tokens) / perSecond),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+  };
+}
+
+/** Take a token from the in-memory bucket for `keyId` */
+export function takeMemoryToken(
+  keyId: string,
+  capacity: number,
+  now: number = Date.now(),
+): BucketResult {
+  const rate = capacity / WINDOW_MS;
+  const bucket = memoryBuckets.get(keyId) ?? {
+    tokens: capacity,
+    updatedAt: now,
+  };
+  let tokens = Math.min(
+    capacity,
+    bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate,
+  );
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+  memoryBuckets.set(keyId, { tokens, updatedAt: now });
+  return bucketResult(allowed, tokens, capacity);
+}
+
+/** Take a token for `keyId`, through Redis when it is connected */
+export async function takeToken(
+  keyId: string,
+  capacity: number,
+): Promise<BucketResult> {
+  const redis = getRedisClient();
+  if (redis?.status === "ready") {
+    try {
+      const [allowed, tokens] = (await redis.eval(
+        TAKE_TOKEN_SCRIPT,
+        1,
+        `${KEY_PREFIX}${keyId}`,
+        capacity,
+        capacity / WINDOW_MS,
+      )) as [number, string];
+      return bucketResult(allowed === 1, Number(tokens), capacity);
+    } catch (err) {
+      logger.warn(
+        { err: (err as Error).message },
+        "Redis rate limit failed — using in-memory bucket",
+      );
+    }
+  }
+  return takeMemoryToken(keyId, capacity);
+}
+
+/** Clear in-memory buckets — useful for testing */
+export function resetMemoryBuckets(): void {
+  memoryBuckets.clear();
+}
+
+/**
+ * Enforce the authenticated key's rate limit and set X-RateLimit-* headers.
+ * Must run after apiKeyAuth.
+ */
+export async function apiKeyRateLimit(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const apiKey = req.apiKey;
+    if (!apiKey) {
+      next();
+      return;
+    }
+
+    res.on("finish", () => {
+      recordApiKeyUsage(apiKey.keyId, res.statusCode >= 400).catch((err) =>
+        logger.warn({ err, keyId: apiKey.keyId }, "API key usage not recorded"),
+      );
+    });
+
+    const result = await takeToken(apiKey.keyId, apiKey.rateLimit);
+    res.setHeader("X-RateLimit-Limit", String(apiKey.rateLimit));
+    res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+    res.setHeader("X-RateLimit-Reset", String(result.resetSeconds));
+
+    if (!result.allowed) {
+      res.setHeader("Retry-After", String(result.retryAfterSeconds));
+      res
+        .status(429)
+        .json(
+          apiError(
+            429,
+            `API rate limit exceeded (${apiKey.rateLimit} requests/minute)`,
+          ),
+        );
+      return;
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
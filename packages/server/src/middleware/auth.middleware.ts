@@ -1,6 +1,7 @@
 import type { Response, NextFunction } from "express";
 import type { AuthRequest } from "../types/index";
-import { verifyAccessToken } from "../services/auth.service";
+import { isTokenRevoked, verifyAccessToken } from "../services/auth.service";
+import { isSessionActive } from "../services/session.service";
 import { AppError } from "../utils/AppError";
 import prisma from "../models/prisma";
 
@@ -20,14 +21,26 @@ export async function authenticate(
 
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, email: true, name: true },
+      select: { id: true, email: true, name: true, tokenVersion: true },
     });
 
     if (!user) {
       throw new AppError(401, "User not found");
     }
 
-    req.user = user;
+    if (
+      isTokenRevoked(decoded, user) ||
+      (decoded.sid && !(await isSessionActive(decoded.sid)))
+    ) {
+      throw new AppError(401, "Session revoked");
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      sessionId: decoded.sid,
+    };
     next();
   } catch (err) {
     next(err);
@@ -52,11 +65,20 @@ export async function optionalAuth(
 
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, email: true, name: true },
+      select: { id: true, email: true, name: true, tokenVersion: true },
     });
 
-    if (user) {
-      req.user = user;
+    if (
+      user &&
+      !isTokenRevoked(decoded, user) &&
+      (!decoded.sid || (await isSessionActive(decoded.sid)))
+    ) {
+      req.user = {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        sessionId: decoded.sid,
+      };
     }
 
     next();
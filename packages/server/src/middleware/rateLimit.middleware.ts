@@ -2,10 +2,14 @@ import rateLimit from "express-rate-limit";
 
 const isTest = process.env.NODE_ENV === "test";
 
-/** Global rate limit: 100 requests per minute (disabled in test) */
+/**
+ * Global rate limit: 100 requests per minute (disabled in test). The public
+ * API is left to the per-key limiter.
+ */
 export const globalLimiter = rateLimit({
   windowMs: 60 * 1000,
   limit: isTest ? 10000 : 100,
+  skip: (req) => req.path.startsWith("/api/v1/"),
   standardHeaders: "draft-7",
   legacyHeaders: false,
   message: {
@@ -11,16 +11,30 @@ import { writeLimiter } from "../middleware/rateLimit.middleware";
 import { apiSuccess } from "../utils/apiResponse";
 import { AppError } from "../utils/AppError";
 import * as apiKeyService from "../services/apiKey.service";
+import * as usageService from "../services/apiKeyUsage.service";
 
 const router = Router();
 
 // All routes require JWT auth
 router.use(authenticate);
 
+const scopesSchema = z.array(z.enum(apiKeyService.API_KEY_SCOPES)).min(1);
+const spreadsheetIdsSchema = z.array(z.string().min(1)).max(100);
+
 const createKeySchema = {
   body: z.object({
     name: z.string().min(1).max(100),
     expiresAt: z.string().datetime().optional(),
+    scopes: scopesSchema.optional(),
+    spreadsheetIds: spreadsheetIdsSchema.optional(),
+  }),
+};
+
+const updateKeySchema = {
+  body: z.object({
+    name: z.string().min(1).max(100).optional(),
+    scopes: scopesSchema.optional(),
+    spreadsheetIds: spreadsheetIdsSchema.optional(),
   }),
 };
 
@@ -44,11 +58,12 @@ router.post(
     try {
       if (!req.user) throw new AppError(401, "Authentication required");
 
-      const { name, expiresAt } = req.body;
+      const { name, expiresAt, scopes, spreadsheetIds } = req.body;
       const result = await apiKeyService.createApiKey(
         req.user.id,
         name,
         expiresAt ? new Date(expiresAt) : undefined,
+        { scopes, spreadsheetIds },
       );
 
       res.status(201).json(apiSuccess(result));
@@ -58,6 +73,47 @@ router.post(
   },
 );
 
+// GET /api/users/me/api-keys/:keyId/usage — daily requests and errors
+router.get(
+  "/:keyId/usage",
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const keyId = req.params.keyId as string;
+      const days = parseInt((req.query.days as string) ?? "30", 10);
+      const usage = await usageService.getApiKeyUsage(
+        keyId,
+        req.user.id,
+        Number.isNaN(days) ? 30 : days,
+      );
+      res.json(apiSuccess(usage));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/users/me/api-keys/:keyId — rename or re-scope API key
+router.patch(
+  "/:keyId",
+  writeLimiter,
+  validate(updateKeySchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const keyId = req.params.keyId as string;
+      const apiKey = await apiKeyService.updateApiKey(
+        keyId,
+        req.user.id,
+        req.body,
+      );
+      res.json(apiSuccess(apiKey));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // DELETE /api/users/me/api-keys/:keyId — revoke API key
 router.delete(
   "/:keyId",
@@ -3,6 +3,7 @@ import { z } from "zod/v4";
 import {
   register,
   login,
+  loginTwoFactor,
   refresh,
   logout,
   forgotPassword,
@@ -42,6 +43,14 @@ const forgotPasswordSchema = {
   }),
 };
 
+const loginTwoFactorSchema = {
+  body: z.object({
+    challengeToken: z.string().min(1),
+    // 6-digit TOTP code or a recovery code
+    code: z.string().min(6).max(20),
+  }),
+};
+
 const resetPasswordSchema = {
   body: z.object({
     token: z.string().min(1),
@@ -55,6 +64,9 @@ router.post("/register", validate(registerSchema), register);
 // POST /api/auth/login
 router.post("/login", validate(loginSchema), login);
 
+// POST /api/auth/login/2fa — second step when two-factor auth is on
+router.post("/login/2fa", validate(loginTwoFactorSchema), loginTwoFactor);
+
 // POST /api/auth/refresh
 router.post("/refresh", refresh);
 
@@ -68,7 +68,7 @@ const apiDocs: RouteDoc[] = [
   {
     method: "DELETE",
     path: "/api/spreadsheets/:id",
-    description: "Delete a spreadsheet",
+    description: "Move a spreadsheet to the trash",
     auth: true,
     sprint: "S11",
   },
@@ -155,6 +155,90 @@ const apiDocs: RouteDoc[] = [
     auth: true,
     sprint: "S10",
   },
+  {
+    method: "POST",
+    path: "/api/auth/login/2fa",
+    description: "Finish sign-in with a TOTP or recovery code",
+    auth: false,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/users/me/2fa",
+    description: "Two-factor status and recovery codes remaining",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/users/me/2fa/setup",
+    description: "Start TOTP enrolment (QR code and otpauth URI)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/users/me/2fa/enable",
+    description: "Confirm a TOTP code and get recovery codes",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/users/me/2fa/disable",
+    description: "Turn off two-factor auth (requires password)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/users/me/2fa/recovery-codes",
+    description: "Replace all recovery codes",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/users/me/sessions",
+    description: "List signed-in sessions with device, IP and last use",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/users/me/sessions/:sessionId",
+    description: "Revoke a session (signs that device out)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/auth/forgot-password",
+    description: "Email a password reset link",
+    auth: false,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/auth/reset-password",
+    description: "Set a new password with a reset token",
+    auth: false,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/auth/verify-email/:token",
+    description: "Confirm an email address",
+    auth: false,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/users/me/verify-email",
+    description: "Resend the email verification link",
+    auth: true,
+    sprint: "S10",
+  },
 
   // Sharing (Sprint 12)
   {
@@ -185,35 +269,56 @@ const apiDocs: RouteDoc[] = [
   {
     method: "GET",
     path: "/api/v1/spreadsheets/:id",
-    description: "Public API: Read spreadsheet (API key auth)",
+    description: "Public API: Read spreadsheet (API key, spreadsheets:read)",
     auth: true,
     sprint: "S16",
   },
   {
     method: "GET",
     path: "/api/v1/spreadsheets/:id/sheets",
-    description: "Public API: List sheets (API key auth)",
+    description: "Public API: List sheets (API key, spreadsheets:read)",
     auth: true,
     sprint: "S16",
   },
   {
     method: "GET",
     path: "/api/v1/spreadsheets/:id/sheets/:sheetId/cells",
-    description: "Public API: Read cells (API key auth)",
+    description: "Public API: Read cells (API key, spreadsheets:read)",
     auth: true,
     sprint: "S16",
   },
   {
     method: "PUT",
     path: "/api/v1/spreadsheets/:id/sheets/:sheetId/cells",
-    description: "Public API: Write cells (API key auth)",
+    description: "Public API: Write cells (API key, cells:write)",
     auth: true,
     sprint: "S16",
   },
   {
     method: "GET",
     path: "/api/v1/spreadsheets/:id/export/:format",
-    description: "Public API: Export (csv/xlsx/pdf) (API key auth)",
+    description: "Public API: Export (csv/xlsx/pdf) (API key, export)",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "GET",
+    path: "/api/v1/webhooks",
+    description: "Public API: List webhooks (API key, webhooks:manage)",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "POST",
+    path: "/api/v1/webhooks",
+    description: "Public API: Create webhook (API key, webhooks:manage)",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "DELETE",
+    path: "/api/v1/webhooks/:webhookId",
+    description: "Public API: Delete webhook (API key, webhooks:manage)",
     auth: true,
     sprint: "S16",
   },
@@ -229,7 +334,21 @@ const apiDocs: RouteDoc[] = [
   {
     method: "POST",
     path: "/api/users/me/api-keys",
-    description: "Create API key",
+    description: "Create API key with optional scopes and spreadsheet pins",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "GET",
+    path: "/api/users/me/api-keys/:keyId/usage",
+    description: "Daily request and error counts for an API key",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "PATCH",
+    path: "/api/users/me/api-keys/:keyId",
+    description: "Rename API key or change its scopes and spreadsheet pins",
     auth: true,
     sprint: "S16",
   },
@@ -270,6 +389,238 @@ const apiDocs: RouteDoc[] = [
     auth: true,
     sprint: "S16",
   },
+  {
+    method: "GET",
+    path: "/api/webhooks/:webhookId/deliveries",
+    description: "List webhook deliveries",
+    auth: true,
+    sprint: "S16",
+  },
+  {
+    method: "POST",
+    path: "/api/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+    description: "Redeliver a webhook delivery",
+    auth: true,
+    sprint: "S16",
+  },
+
+  // Teams
+  {
+    method: "PUT",
+    path: "/api/spreadsheets/:id/location",
+    description:
+      "Move a spreadsheet into a team or folder, or back to personal files",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/teams",
+    description: "List the user's teams with their role",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/teams",
+    description: "Create a team",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/teams/:teamId",
+    description: "Get a team with its members",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PATCH",
+    path: "/api/teams/:teamId",
+    description: "Rename a team (admin)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/teams/:teamId",
+    description: "Delete a team (owner)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/teams/:teamId/members",
+    description: "Add a member by email (admin)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PUT",
+    path: "/api/teams/:teamId/members/:userId",
+    description: "Change a member's role (admin)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/teams/:teamId/members/:userId",
+    description: "Remove a member, or leave the team",
+    auth: true,
+    sprint: "S10",
+  },
+  // Folders, tags and trash
+  {
+    method: "GET",
+    path: "/api/folders",
+    description: "List personal folders, or a team's with ?teamId=",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/folders",
+    description: "Create a personal or team folder, optionally nested",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PATCH",
+    path: "/api/folders/:folderId",
+    description: "Rename a folder or move it under another",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/folders/:folderId",
+    description: "Delete a folder, moving its contents up a level",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PUT",
+    path: "/api/folders/:folderId/access",
+    description: "Grant a user a role on everything in a folder",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/folders/:folderId/access/:userId",
+    description: "Revoke a folder grant",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "GET",
+    path: "/api/tags",
+    description: "List the user's tags",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/tags",
+    description: "Create a tag",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PATCH",
+    path: "/api/tags/:tagId",
+    description: "Rename or recolour a tag",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/tags/:tagId",
+    description: "Delete a tag",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/spreadsheets/:id/tags",
+    description: "Add one of the user's tags to a spreadsheet",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/spreadsheets/:id/tags/:tagId",
+    description: "Remove a tag from a spreadsheet",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/spreadsheets/:id/restore",
+    description: "Restore a spreadsheet from the trash",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/spreadsheets/:id/permanent",
+    description: "Permanently delete a trashed spreadsheet",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/spreadsheets/trash",
+    description: "Permanently delete everything in the trash",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/spreadsheets/bulk",
+    description: "Move, trash, restore, delete or tag many spreadsheets",
+    auth: true,
+    sprint: "S10",
+  },
+
+  // Search
+  {
+    method: "GET",
+    path: "/api/search",
+    description: "Search titles, sheet names, cells and comments with ?q=",
+    auth: true,
+    sprint: "S10",
+  },
+
+  // Protected ranges
+  {
+    method: "GET",
+    path: "/api/spreadsheets/:id/protections",
+    description: "List protected ranges and sheets, with edit rights",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "POST",
+    path: "/api/spreadsheets/:id/protections",
+    description: "Protect a range or a whole sheet (owner only)",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "PATCH",
+    path: "/api/spreadsheets/:id/protections/:protectionId",
+    description: "Change a protection's range, description or editors",
+    auth: true,
+    sprint: "S10",
+  },
+  {
+    method: "DELETE",
+    path: "/api/spreadsheets/:id/protections/:protectionId",
+    description: "Remove a protection",
+    auth: true,
+    sprint: "S10",
+  },
 ];
 
 router.get("/", (_req: Request, res: Response) => {
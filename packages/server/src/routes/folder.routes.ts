@@ -0,0 +1,147 @@
+/**
+ * Folder routes — /api/folders
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as folderService from "../services/folder.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+const folderName = z.string().trim().min(1).max(100);
+
+const createSchema = {
+  body: z.object({
+    name: folderName,
+    teamId: z.string().min(1).nullable().optional(),
+    parentId: z.string().min(1).nullable().optional(),
+  }),
+};
+
+const updateSchema = {
+  body: z.object({
+    name: folderName.optional(),
+    parentId: z.string().min(1).nullable().optional(),
+  }),
+};
+
+const accessSchema = {
+  body: z.object({
+    email: z.email(),
+    role: z.enum(["viewer", "commenter", "editor"]),
+  }),
+};
+
+// GET /api/folders — personal folders, or a team's with ?teamId=
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const teamId = (req.query.teamId as string) || undefined;
+    const folders = await folderService.listFolders(req.user.id, teamId);
+    res.json(apiSuccess(folders));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/folders — create a folder (team editor for team folders)
+router.post(
+  "/",
+  writeLimiter,
+  validate(createSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const folder = await folderService.createFolder(req.user.id, req.body);
+      res.status(201).json(apiSuccess(folder));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/folders/:folderId — rename and/or move under another folder
+router.patch(
+  "/:folderId",
+  writeLimiter,
+  validate(updateSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const folderId = req.params.folderId as string;
+      const folder = await folderService.updateFolder(
+        folderId,
+        req.user.id,
+        req.body,
+      );
+      res.json(apiSuccess(folder));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/folders/:folderId — delete, moving its contents up a level
+router.delete(
+  "/:folderId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const folderId = req.params.folderId as string;
+      await folderService.deleteFolder(folderId, req.user.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PUT /api/folders/:folderId/access — grant a role on everything in it
+router.put(
+  "/:folderId/access",
+  writeLimiter,
+  validate(accessSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const folderId = req.params.folderId as string;
+      const folder = await folderService.grantFolderAccess(
+        folderId,
+        req.user.id,
+        req.body.email,
+        req.body.role,
+      );
+      res.json(apiSuccess(folder));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/folders/:folderId/access/:userId — revoke a folder grant
+router.delete(
+  "/:folderId/access/:userId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const folderId = req.params.folderId as string;
+      const userId = req.params.userId as string;
+      await folderService.revokeFolderAccess(folderId, req.user.id, userId);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -18,7 +18,14 @@ import commentRoutes from "./comment.routes";
 import notificationRoutes from "./notification.routes";
 import templateRoutes, { saveAsTemplateRouter } from "./template.routes";
 import apiKeyRoutes from "./apiKey.routes";
+import twoFactorRoutes from "./twoFactor.routes";
+import sessionRoutes from "./session.routes";
 import webhookRoutes from "./webhook.routes";
+import teamRoutes from "./team.routes";
+import folderRoutes from "./folder.routes";
+import tagRoutes from "./tag.routes";
+import searchRoutes from "./search.routes";
+import protectionRoutes from "./protection.routes";
 
 const router = Router();
 
@@ -64,6 +71,9 @@ router.use("/published", publicPublishedRouter);
 // Version history
 router.use("/spreadsheets/:id/versions", versionRoutes);
 
+// Protected ranges and sheets
+router.use("/spreadsheets/:id/protections", protectionRoutes);
+
 // Comments (nested under spreadsheets)
 router.use("/spreadsheets/:id/comments", commentRoutes);
 
@@ -79,7 +89,25 @@ router.use("/templates", templateRoutes);
 // API Key management
 router.use("/users/me/api-keys", apiKeyRoutes);
 
+// Two-factor authentication
+router.use("/users/me/2fa", twoFactorRoutes);
+
+// Sign-in sessions (devices)
+router.use("/users/me/sessions", sessionRoutes);
+
 // Webhook management
 router.use("/webhooks", webhookRoutes);
 
+// Teams and team members
+router.use("/teams", teamRoutes);
+
+// Personal and team folders
+router.use("/folders", folderRoutes);
+
+// Personal spreadsheet tags
+router.use("/tags", tagRoutes);
+
+// Full-text search across spreadsheet contents
+router.use("/search", searchRoutes);
+
 export default router;
@@ -18,6 +18,7 @@ const preferencesSchema = {
     inAppSharing: z.boolean().optional(),
     inAppComments: z.boolean().optional(),
     inAppMentions: z.boolean().optional(),
+    emailDigest: z.enum(["off", "hourly", "daily"]).optional(),
   }),
 };
 
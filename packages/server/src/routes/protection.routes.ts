@@ -0,0 +1,125 @@
+/**
+ * Protected range routes — /api/spreadsheets/:id/protections
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as protectionService from "../services/protection.service";
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticate);
+
+const cellIndex = z.number().int().min(0);
+
+const range = z
+  .object({
+    startRow: cellIndex,
+    startCol: cellIndex,
+    endRow: cellIndex,
+    endCol: cellIndex,
+  })
+  .nullable();
+
+const description = z.string().max(200).nullable();
+
+const editorEmails = z.array(z.email()).max(100);
+
+const createSchema = {
+  body: z.object({
+    sheetId: z.string().min(1),
+    range: range.optional(),
+    description: description.optional(),
+    editorEmails: editorEmails.optional(),
+  }),
+};
+
+const updateSchema = {
+  body: z.object({
+    range: range.optional(),
+    description: description.optional(),
+    editorEmails: editorEmails.optional(),
+  }),
+};
+
+// GET /api/spreadsheets/:id/protections — every sheet's protections
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const protections = await protectionService.listProtections(
+      req.params.id as string,
+      req.user.id,
+    );
+    res.json(apiSuccess(protections));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/spreadsheets/:id/protections — protect a range or a sheet
+router.post(
+  "/",
+  writeLimiter,
+  validate(createSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const protection = await protectionService.createProtection(
+        req.params.id as string,
+        req.user.id,
+        req.body,
+      );
+      res.status(201).json(apiSuccess(protection));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/spreadsheets/:id/protections/:protectionId
+router.patch(
+  "/:protectionId",
+  writeLimiter,
+  validate(updateSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const protection = await protectionService.updateProtection(
+        req.params.id as string,
+        req.params.protectionId as string,
+        req.user.id,
+        req.body,
+      );
+      res.json(apiSuccess(protection));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/spreadsheets/:id/protections/:protectionId
+router.delete(
+  "/:protectionId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      await protectionService.deleteProtection(
+        req.params.id as string,
+        req.params.protectionId as string,
+        req.user.id,
+      );
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -1,36 +1,20 @@
 /**
  * Public API routes — /api/v1/ endpoints with API key auth.
- * Rate limited to 60 requests/minute per key.
+ * Rate limited per key to the key's own requests/minute.
  */
 import { Router } from "express";
 import { z } from "zod/v4";
-import rateLimit from "express-rate-limit";
 import { apiKeyAuth } from "../middleware/apiKeyAuth";
+import { apiKeyRateLimit } from "../middleware/apiKeyRateLimit";
 import { validate } from "../middleware/validate.middleware";
 import * as publicApi from "../controllers/publicApi.controller";
+import * as webhookService from "../services/webhook.service";
 
 const router = Router();
 
-const isTest = process.env.NODE_ENV === "test";
-
-/** API key rate limit: 60 requests per minute */
-const apiKeyLimiter = rateLimit({
-  windowMs: 60 * 1000,
-  limit: isTest ? 10000 : 60,
-  standardHeaders: "draft-7",
-  legacyHeaders: false,
-  message: {
-    success: false,
-    error: {
-      code: 429,
-      message: "API rate limit exceeded (60 requests/minute)",
-    },
-  },
-});
-
-// All routes require API key auth + rate limiting
+// All routes require API key auth + per-key rate limiting
 router.use(apiKeyAuth);
-router.use(apiKeyLimiter);
+router.use(apiKeyRateLimit);
 
 // GET /api/v1/spreadsheets/:id — read spreadsheet
 router.get("/spreadsheets/:id", publicApi.getSpreadsheet);
@@ -62,4 +46,30 @@ router.put(
 // GET /api/v1/spreadsheets/:id/export/:format — export
 router.get("/spreadsheets/:id/export/:format", publicApi.exportSpreadsheet);
 
+// GET /api/v1/webhooks — list webhooks
+router.get("/webhooks", publicApi.listWebhooks);
+
+// POST /api/v1/webhooks — create webhook
+const createWebhookSchema = {
+  body: z.object({
+    spreadsheetId: z.string().min(1),
+    url: z.url(),
+    events: z
+      .array(z.string().min(1))
+      .min(1)
+      .refine((events) => events.every((e) => webhookService.isValidEvent(e)), {
+        message: `Invalid event. Valid events: ${webhookService.getValidEvents().join(", ")}`,
+      }),
+  }),
+};
+
+router.post(
+  "/webhooks",
+  validate(createWebhookSchema),
+  publicApi.createWebhook,
+);
+
+// DELETE /api/v1/webhooks/:webhookId — delete webhook
+router.delete("/webhooks/:webhookId", publicApi.deleteWebhook);
+
 export default router;
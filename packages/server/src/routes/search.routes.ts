@@ -0,0 +1,49 @@
+/**
+ * Search routes — /api/search
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as searchService from "../services/search.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+const searchSchema = {
+  query: z.object({
+    q: z.string().trim().min(1).max(200),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(searchService.MAX_SEARCH_RESULTS)
+      .optional(),
+  }),
+};
+
+// GET /api/search?q= — titles, sheet names, cells and comments
+router.get(
+  "/",
+  validate(searchSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const hits = await searchService.search(
+        req.user.id,
+        String(req.query.q),
+        req.query.limit ? Number(req.query.limit) : undefined,
+      );
+      res.json(apiSuccess(hits));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
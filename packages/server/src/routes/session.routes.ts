@@ -0,0 +1,47 @@
+/**
+ * Sign-in session routes — /api/users/me/sessions
+ */
+import { Router } from "express";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as sessionService from "../services/session.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+// GET /api/users/me/sessions — active sessions, most recently used first
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const sessions = await sessionService.listSessions(
+      req.user.id,
+      req.user.sessionId,
+    );
+    res.json(apiSuccess(sessions));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/users/me/sessions/:sessionId — sign a device out
+router.delete(
+  "/:sessionId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const sessionId = req.params.sessionId as string;
+      await sessionService.revokeSession(req.user.id, sessionId);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { z } from "zod/v4";
 import {
   listSheets,
   getSheet,
@@ -6,8 +7,12 @@ import {
   updateSheet,
   deleteSheet,
   saveSheetData,
+  patchSheetData,
+  getSheetObjects,
+  saveSheetObjects,
 } from "../controllers/sheet.controller";
 import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
 import { writeLimiter } from "../middleware/rateLimit.middleware";
 
 const router = Router({ mergeParams: true });
@@ -15,6 +20,38 @@ const router = Router({ mergeParams: true });
 // All sheet routes require authentication
 router.use(authenticate);
 
+const sheetObjectsSchema = z.looseObject({
+  schemaVersion: z.number().int().min(1),
+});
+
+const saveSchema = {
+  body: z.object({
+    cellData: z.record(z.string(), z.unknown()),
+    columnMeta: z.record(z.string(), z.unknown()).optional(),
+    rowMeta: z.record(z.string(), z.unknown()).optional(),
+    objects: sheetObjectsSchema.optional(),
+  }),
+};
+
+const patchSchema = {
+  body: z.object({
+    upserts: z.record(z.string(), z.unknown()).default({}),
+    deletes: z.array(z.string()).max(100000).default([]),
+    merge: z.boolean().optional(),
+    baseRevision: z.number().int().min(0).optional(),
+    columnMeta: z.record(z.string(), z.unknown()).optional(),
+    rowMeta: z.record(z.string(), z.unknown()).optional(),
+    objects: sheetObjectsSchema.optional(),
+  }),
+};
+
+const saveObjectsSchema = {
+  body: z.object({
+    objects: sheetObjectsSchema,
+    baseVersion: z.number().int().min(0).optional(),
+  }),
+};
+
 // GET /api/spreadsheets/:id/sheets — list sheets in a spreadsheet
 router.get("/", listSheets);
 
@@ -28,7 +65,26 @@ router.post("/", writeLimiter, createSheet);
 router.put("/:sheetId", writeLimiter, updateSheet);
 
 // PUT /api/spreadsheets/:id/sheets/:sheetId/save — auto-save sheet data
-router.put("/:sheetId/save", writeLimiter, saveSheetData);
+router.put("/:sheetId/save", writeLimiter, validate(saveSchema), saveSheetData);
+
+// PATCH /api/spreadsheets/:id/sheets/:sheetId/save — auto-save a batch of cell changes
+router.patch(
+  "/:sheetId/save",
+  writeLimiter,
+  validate(patchSchema),
+  patchSheetData,
+);
+
+// GET /api/spreadsheets/:id/sheets/:sheetId/objects — load sheet objects
+router.get("/:sheetId/objects", getSheetObjects);
+
+// PUT /api/spreadsheets/:id/sheets/:sheetId/objects — save sheet objects
+router.put(
+  "/:sheetId/objects",
+  writeLimiter,
+  validate(saveObjectsSchema),
+  saveSheetObjects,
+);
 
 // DELETE /api/spreadsheets/:id/sheets/:sheetId — delete sheet
 router.delete("/:sheetId", writeLimiter, deleteSheet);
@@ -1,13 +1,22 @@
 import { Router } from "express";
 import { z } from "zod/v4";
+import { MAX_ITERATIONS_LIMIT } from "@gridspace/formula";
 import {
   listSpreadsheets,
   getSpreadsheet,
   createSpreadsheet,
   updateSpreadsheet,
+  moveSpreadsheet,
   deleteSpreadsheet,
+  restoreSpreadsheet,
+  deleteSpreadsheetForever,
+  emptyTrash,
+  bulkUpdate,
   duplicateSpreadsheet,
   toggleStar,
+  saveNamedRanges,
+  tagSpreadsheet,
+  untagSpreadsheet,
 } from "../controllers/spreadsheet.controller";
 import { authenticate } from "../middleware/auth.middleware";
 import { validate } from "../middleware/validate.middleware";
@@ -21,6 +30,39 @@ router.use(authenticate);
 const createSchema = {
   body: z.object({
     title: z.string().min(1).max(200).optional(),
+    teamId: z.string().min(1).optional(),
+    folderId: z.string().min(1).optional(),
+  }),
+};
+
+const locationSchema = {
+  body: z.object({
+    teamId: z.string().min(1).nullable(),
+    folderId: z.string().min(1).nullable().optional(),
+  }),
+};
+
+const bulkSchema = {
+  body: z.intersection(
+    z.object({ ids: z.array(z.string().min(1)).min(1).max(100) }),
+    z.discriminatedUnion("action", [
+      z.object({
+        action: z.literal("move"),
+        teamId: z.string().min(1).nullable().optional(),
+        folderId: z.string().min(1).nullable().optional(),
+      }),
+      z.object({ action: z.literal("trash") }),
+      z.object({ action: z.literal("restore") }),
+      z.object({ action: z.literal("delete") }),
+      z.object({ action: z.literal("tag"), tagId: z.string().min(1) }),
+      z.object({ action: z.literal("untag"), tagId: z.string().min(1) }),
+    ]),
+  ),
+};
+
+const tagSchema = {
+  body: z.object({
+    tagId: z.string().min(1),
   }),
 };
 
@@ -28,12 +70,44 @@ const updateSchema = {
   body: z.object({
     title: z.string().min(1).max(200).optional(),
     isStarred: z.boolean().optional(),
+    calcSettings: z
+      .object({
+        iterative: z.boolean(),
+        maxIterations: z.number().int().min(1).max(MAX_ITERATIONS_LIMIT),
+        maxChange: z.number().min(0),
+      })
+      .optional(),
+  }),
+};
+
+const namedRangesSchema = {
+  body: z.object({
+    namedRanges: z
+      .array(
+        z
+          .looseObject({
+            name: z.string().min(1).max(255),
+            sheetId: z.string().optional(),
+            // Named LAMBDA functions carry a formula instead of a range
+            formula: z.string().max(8192).optional(),
+          })
+          .refine((entry) => entry.sheetId !== undefined || !!entry.formula, {
+            message: "Named ranges need a sheetId or a formula",
+          }),
+      )
+      .max(1000),
   }),
 };
 
 // GET /api/spreadsheets — list user's spreadsheets
 router.get("/", listSpreadsheets);
 
+// POST /api/spreadsheets/bulk — move, trash, restore, delete or tag many
+router.post("/bulk", writeLimiter, validate(bulkSchema), bulkUpdate);
+
+// DELETE /api/spreadsheets/trash — permanently delete everything in the trash
+router.delete("/trash", writeLimiter, emptyTrash);
+
 // GET /api/spreadsheets/:id — get single spreadsheet with sheets
 router.get("/:id", getSpreadsheet);
 
@@ -43,13 +117,41 @@ router.post("/", writeLimiter, validate(createSchema), createSpreadsheet);
 // PUT /api/spreadsheets/:id — update spreadsheet metadata
 router.put("/:id", writeLimiter, validate(updateSchema), updateSpreadsheet);
 
-// DELETE /api/spreadsheets/:id — delete spreadsheet
+// PUT /api/spreadsheets/:id/location — move into a team/folder or back out
+router.put(
+  "/:id/location",
+  writeLimiter,
+  validate(locationSchema),
+  moveSpreadsheet,
+);
+
+// DELETE /api/spreadsheets/:id — move spreadsheet to the trash
 router.delete("/:id", writeLimiter, deleteSpreadsheet);
 
+// POST /api/spreadsheets/:id/restore — restore from the trash
+router.post("/:id/restore", writeLimiter, restoreSpreadsheet);
+
+// DELETE /api/spreadsheets/:id/permanent — delete a trashed spreadsheet for good
+router.delete("/:id/permanent", writeLimiter, deleteSpreadsheetForever);
+
 // POST /api/spreadsheets/:id/duplicate — duplicate spreadsheet
 router.post("/:id/duplicate", writeLimiter, duplicateSpreadsheet);
 
 // POST /api/spreadsheets/:id/star — toggle star
 router.post("/:id/star", writeLimiter, toggleStar);
 
+// PUT /api/spreadsheets/:id/named-ranges — replace named ranges
+router.put(
+  "/:id/named-ranges",
+  writeLimiter,
+  validate(namedRangesSchema),
+  saveNamedRanges,
+);
+
+// POST /api/spreadsheets/:id/tags — add one of the user's tags
+router.post("/:id/tags", writeLimiter, validate(tagSchema), tagSpreadsheet);
+
+// DELETE /api/spreadsheets/:id/tags/:tagId — remove a tag
+router.delete("/:id/tags/:tagId", writeLimiter, untagSpreadsheet);
+
 export default router;
@@ -0,0 +1,100 @@
+/**
+ * Tag routes — /api/tags
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as tagService from "../services/tag.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+const tagName = z.string().trim().min(1).max(50);
+const tagColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const createSchema = {
+  body: z.object({
+    name: tagName,
+    color: tagColor.optional(),
+  }),
+};
+
+const updateSchema = {
+  body: z.object({
+    name: tagName.optional(),
+    color: tagColor.optional(),
+  }),
+};
+
+// GET /api/tags — the user's tags
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const tags = await tagService.listTags(req.user.id);
+    res.json(apiSuccess(tags));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/tags — create a tag
+router.post(
+  "/",
+  writeLimiter,
+  validate(createSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const tag = await tagService.createTag(
+        req.user.id,
+        req.body.name,
+        req.body.color,
+      );
+      res.status(201).json(apiSuccess(tag));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/tags/:tagId — rename or recolour
+router.patch(
+  "/:tagId",
+  writeLimiter,
+  validate(updateSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const tagId = req.params.tagId as string;
+      const tag = await tagService.updateTag(tagId, req.user.id, req.body);
+      res.json(apiSuccess(tag));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/tags/:tagId — delete, removing it from every spreadsheet
+router.delete(
+  "/:tagId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const tagId = req.params.tagId as string;
+      await tagService.deleteTag(tagId, req.user.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
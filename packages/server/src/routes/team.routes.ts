@@ -0,0 +1,181 @@
+/**
+ * Team routes — /api/teams
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import * as teamService from "../services/team.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+const teamRole = z.enum(["owner", "admin", "editor", "viewer"]);
+
+const nameSchema = {
+  body: z.object({
+    name: z.string().trim().min(1).max(100),
+  }),
+};
+
+const addMemberSchema = {
+  body: z.object({
+    email: z.email(),
+    role: teamRole.default("editor"),
+  }),
+};
+
+const memberRoleSchema = {
+  body: z.object({
+    role: teamRole,
+  }),
+};
+
+// GET /api/teams — teams the user belongs to
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const teams = await teamService.listTeams(req.user.id);
+    res.json(apiSuccess(teams));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/teams — create a team, with the creator as owner
+router.post(
+  "/",
+  writeLimiter,
+  validate(nameSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const team = await teamService.createTeam(req.user.id, req.body.name);
+      res.status(201).json(apiSuccess(team));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// GET /api/teams/:teamId — team with its members
+router.get(
+  "/:teamId",
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      const team = await teamService.getTeam(teamId, req.user.id);
+      res.json(apiSuccess(team));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PATCH /api/teams/:teamId — rename (admin)
+router.patch(
+  "/:teamId",
+  writeLimiter,
+  validate(nameSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      const team = await teamService.renameTeam(
+        teamId,
+        req.user.id,
+        req.body.name,
+      );
+      res.json(apiSuccess(team));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/teams/:teamId — delete the team (owner)
+router.delete(
+  "/:teamId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      await teamService.deleteTeam(teamId, req.user.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/teams/:teamId/members — add a member by email (admin)
+router.post(
+  "/:teamId/members",
+  writeLimiter,
+  validate(addMemberSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      const member = await teamService.addMember(
+        teamId,
+        req.user.id,
+        req.body.email,
+        req.body.role,
+      );
+      res.status(201).json(apiSuccess(member));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// PUT /api/teams/:teamId/members/:userId — change a member's role (admin)
+router.put(
+  "/:teamId/members/:userId",
+  writeLimiter,
+  validate(memberRoleSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      const userId = req.params.userId as string;
+      const member = await teamService.changeMemberRole(
+        teamId,
+        req.user.id,
+        userId,
+        req.body.role,
+      );
+      res.json(apiSuccess(member));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/teams/:teamId/members/:userId — remove a member, or leave
+router.delete(
+  "/:teamId/members/:userId",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const teamId = req.params.teamId as string;
+      const userId = req.params.userId as string;
+      await teamService.removeMember(teamId, req.user.id, userId);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
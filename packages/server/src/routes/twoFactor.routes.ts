@@ -0,0 +1,136 @@
+/**
+ * Two-factor authentication routes — /api/users/me/2fa
+ */
+import { Router } from "express";
+import { z } from "zod/v4";
+import type { Response, NextFunction } from "express";
+import type { AuthRequest } from "../types/index";
+import { authenticate } from "../middleware/auth.middleware";
+import { validate } from "../middleware/validate.middleware";
+import { authLimiter, writeLimiter } from "../middleware/rateLimit.middleware";
+import { apiSuccess } from "../utils/apiResponse";
+import { AppError } from "../utils/AppError";
+import { REFRESH_COOKIE_OPTIONS } from "../controllers/auth.controller";
+import { signOutOtherSessions } from "../services/auth.service";
+import { sessionClient } from "../services/session.service";
+import * as twoFactorService from "../services/twoFactor.service";
+
+const router = Router();
+
+router.use(authenticate);
+
+const enableSchema = {
+  body: z.object({
+    code: z.string().min(6).max(10),
+  }),
+};
+
+// Password for password accounts, a 2FA code for OAuth-only ones
+const confirmSchema = {
+  body: z.object({
+    password: z.string().min(1).optional(),
+    code: z.string().min(6).max(20).optional(),
+  }),
+};
+
+/**
+ * Enrolment changes bump tokenVersion, signing out every session — sign
+ * this one back in and return its new access token
+ */
+async function reissueSession(
+  req: AuthRequest,
+  res: Response,
+  user: { email: string; tokenVersion: number },
+): Promise<string> {
+  const tokens = await signOutOtherSessions(
+    { id: req.user!.id, ...user },
+    req.user!.sessionId,
+    sessionClient(req),
+  );
+  res.cookie("refreshToken", tokens.refreshToken, REFRESH_COOKIE_OPTIONS);
+  return tokens.accessToken;
+}
+
+// GET /api/users/me/2fa — whether 2FA is on and recovery codes left
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) throw new AppError(401, "Authentication required");
+    const status = await twoFactorService.getTwoFactorStatus(req.user.id);
+    res.json(apiSuccess(status));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/users/me/2fa/setup — new secret with QR code and otpauth URI
+router.post(
+  "/setup",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const setup = await twoFactorService.startTotpSetup(req.user.id);
+      res.json(apiSuccess(setup));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/users/me/2fa/enable — confirm a code; returns recovery codes once
+router.post(
+  "/enable",
+  authLimiter,
+  validate(enableSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const { recoveryCodes, ...user } = await twoFactorService.enableTotp(
+        req.user.id,
+        req.body.code,
+      );
+      const accessToken = await reissueSession(req, res, user);
+      res.json(apiSuccess({ recoveryCodes, accessToken }));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/users/me/2fa/disable
+router.post(
+  "/disable",
+  authLimiter,
+  validate(confirmSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const user = await twoFactorService.disableTotp(req.user.id, req.body);
+      const accessToken = await reissueSession(req, res, user);
+      res.json(apiSuccess({ accessToken }));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/users/me/2fa/recovery-codes — replace all recovery codes
+router.post(
+  "/recovery-codes",
+  authLimiter,
+  validate(confirmSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+        req.user.id,
+        req.body,
+      );
+      res.json(apiSuccess({ recoveryCodes }));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
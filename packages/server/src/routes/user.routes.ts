@@ -4,6 +4,7 @@ import {
   getProfile,
   updateProfile,
   changePassword,
+  resendVerificationEmail,
   deleteAccount,
 } from "../controllers/auth.controller";
 import { authenticate } from "../middleware/auth.middleware";
@@ -43,6 +44,9 @@ router.put(
   changePassword,
 );
 
+// POST /api/users/me/verify-email
+router.post("/me/verify-email", writeLimiter, resendVerificationEmail);
+
 // DELETE /api/users/me
 router.delete("/me", writeLimiter, deleteAccount);
 
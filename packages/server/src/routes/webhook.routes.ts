@@ -8,8 +8,9 @@ import type { AuthRequest } from "../types/index";
 import { authenticate } from "../middleware/auth.middleware";
 import { validate } from "../middleware/validate.middleware";
 import { writeLimiter } from "../middleware/rateLimit.middleware";
-import { apiSuccess } from "../utils/apiResponse";
+import { apiSuccess, apiPaginated } from "../utils/apiResponse";
 import { AppError } from "../utils/AppError";
+import { getPaginationParams } from "../utils/pagination";
 import * as webhookService from "../services/webhook.service";
 
 const router = Router();
@@ -116,6 +117,51 @@ router.delete(
   },
 );
 
+// GET /api/webhooks/:webhookId/deliveries — delivery log (paginated)
+router.get(
+  "/:webhookId/deliveries",
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const webhookId = req.params.webhookId as string;
+      const { page, limit, skip } = getPaginationParams(
+        req.query as { page?: string; limit?: string },
+      );
+      const { deliveries, total } = await webhookService.listDeliveries(
+        webhookId,
+        req.user.id,
+        { page, limit, skip },
+      );
+
+      res.json(apiPaginated(deliveries, page, limit, total));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/webhooks/:webhookId/deliveries/:deliveryId/redeliver — resend
+router.post(
+  "/:webhookId/deliveries/:deliveryId/redeliver",
+  writeLimiter,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) throw new AppError(401, "Authentication required");
+      const webhookId = req.params.webhookId as string;
+      const deliveryId = req.params.deliveryId as string;
+      const delivery = await webhookService.redeliver(
+        webhookId,
+        deliveryId,
+        req.user.id,
+      );
+
+      res.status(201).json(apiSuccess(delivery));
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 // GET /api/webhooks/events — list valid event types
 router.get("/events", (_req: AuthRequest, res: Response) => {
   res.json(apiSuccess({ events: webhookService.getValidEvents() }));
@@ -11,6 +11,19 @@ import logger from "./utils/logger";
 import { connectRedis, disconnectRedis } from "./config/redis";
 import prisma from "./models/prisma";
 import { createSocketServer } from "./websocket/socketServer";
+import { flushAll as flushYjsDocs } from "./websocket/yjsDocs";
+import {
+  startDeliveryWorker,
+  stopDeliveryWorker,
+} from "./services/webhookDelivery.service";
+import {
+  startDigestWorker,
+  stopDigestWorker,
+} from "./services/notificationEmail.service";
+import {
+  startTrashPurgeWorker,
+  stopTrashPurgeWorker,
+} from "./services/spreadsheet.service";
 
 async function start(): Promise<void> {
   // Connect to Redis (optional — continues without it)
@@ -21,6 +34,15 @@ async function start(): Promise<void> {
   // Initialize WebSocket server (Socket.io)
   createSocketServer(server);
 
+  // Retry webhook deliveries that failed or were cut off by a restart
+  startDeliveryWorker();
+
+  // Send hourly and daily notification email digests
+  startDigestWorker();
+
+  // Permanently delete spreadsheets that have been in the trash 30 days
+  startTrashPurgeWorker();
+
   server.listen(env.PORT, () => {
     logger.info(
       { port: env.PORT, env: env.NODE_ENV },
@@ -31,9 +53,13 @@ async function start(): Promise<void> {
   // Graceful shutdown
   const shutdown = async (): Promise<void> => {
     logger.info("Shutting down gracefully...");
+    stopDeliveryWorker();
+    stopDigestWorker();
+    stopTrashPurgeWorker();
 
     server.close(async () => {
       logger.info("HTTP server closed");
+      await flushYjsDocs();
       await disconnectRedis();
       await prisma.$disconnect();
       logger.info("All connections closed");
@@ -0,0 +1,128 @@
+/**
+ * Effective spreadsheet roles. A user's role on a spreadsheet is the
+ * strongest of: owning it, a direct share, their role in the team that owns
+ * it, and a grant on the folder it is filed in or any folder above that.
+ * Trashed spreadsheets grant no role until they are restored.
+ */
+import type { Prisma } from "@prisma/client";
+
+export type SpreadsheetRole = "viewer" | "commenter" | "editor" | "owner";
+
+export type TeamRole = "owner" | "admin" | "editor" | "viewer";
+
+const ROLE_RANK: Record<string, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+/** What each team role allows on the team's spreadsheets */
+const TEAM_ROLE_GRANTS: Record<string, SpreadsheetRole> = {
+  owner: "owner",
+  admin: "owner",
+  editor: "editor",
+  viewer: "viewer",
+};
+
+/** Folders nest at most this many levels deep */
+export const MAX_FOLDER_DEPTH = 5;
+
+/** A folder's grants for one user, with its parent's up the tree */
+export interface FolderGrantRows {
+  access: Array<{ role: string }>;
+  parent?: FolderGrantRows | null;
+}
+
+/** The access rows selected by `spreadsheetAccessSelect` */
+export interface SpreadsheetAccessRows {
+  ownerId: string;
+  deletedAt?: Date | null;
+  access: Array<{ role: string }>;
+  team?: { members: Array<{ role: string }> } | null;
+  folder?: FolderGrantRows | null;
+}
+
+/** Select a folder's grants for the user, and its ancestors' in turn */
+function folderGrantSelect(userId: string, depth: number): object {
+  return {
+    access: { where: { userId }, select: { role: true } },
+    ...(depth > 1
+      ? { parent: { select: folderGrantSelect(userId, depth - 1) } }
+      : {}),
+  };
+}
+
+/** Prisma select for everything `effectiveRole` needs about one user */
+export function spreadsheetAccessSelect(userId: string) {
+  return {
+    ownerId: true,
+    deletedAt: true,
+    access: { where: { userId }, select: { role: true } },
+    team: {
+      select: { members: { where: { userId }, select: { role: true } } },
+    },
+    folder: { select: folderGrantSelect(userId, MAX_FOLDER_DEPTH) },
+  } as const;
+}
+
+export function roleAtLeast(
+  role: string | null | undefined,
+  minRole: SpreadsheetRole,
+): boolean {
+  return !!role && (ROLE_RANK[role] ?? 0) >= ROLE_RANK[minRole];
+}
+
+/** The user's strongest role on the spreadsheet, or null without access */
+export function effectiveRole(
+  spreadsheet: SpreadsheetAccessRows,
+  userId: string,
+): SpreadsheetRole | null {
+  if (spreadsheet.deletedAt) return null;
+  if (spreadsheet.ownerId === userId) return "owner";
+
+  const teamRole = spreadsheet.team?.members[0]?.role;
+  const candidates = [
+    spreadsheet.access[0]?.role,
+    teamRole ? TEAM_ROLE_GRANTS[teamRole] : undefined,
+  ];
+  for (
+    let folder = spreadsheet.folder;
+    folder;
+    folder = folder.parent ?? null
+  ) {
+    candidates.push(folder.access[0]?.role);
+  }
+
+  let best: SpreadsheetRole | null = null;
+  for (const role of candidates) {
+    if (role && (ROLE_RANK[role] ?? 0) > (best ? ROLE_RANK[best] : 0)) {
+      best = role as SpreadsheetRole;
+    }
+  }
+  return best;
+}
+
+/** Matches folders the user was granted, directly or through an ancestor */
+function folderGrantedTo(
+  userId: string,
+  depth: number,
+): Prisma.FolderWhereInput {
+  const granted: Prisma.FolderWhereInput = { access: { some: { userId } } };
+  return depth > 1
+    ? { OR: [granted, { parent: folderGrantedTo(userId, depth - 1) }] }
+    : granted;
+}
+
+/**
+ * Where-clause alternatives matching every spreadsheet the user can open.
+ * Callers still exclude the trash with `deletedAt: null`.
+ */
+export function visibleToUser(userId: string): Prisma.SpreadsheetWhereInput[] {
+  return [
+    { ownerId: userId },
+    { access: { some: { userId } } },
+    { team: { members: { some: { userId } } } },
+    { folder: folderGrantedTo(userId, MAX_FOLDER_DEPTH) },
+  ];
+}
@@ -1,6 +1,7 @@
 /**
- * API Key service — create, validate, list, revoke API keys.
- * Keys are prefixed with gs_ and stored as bcrypt hashes.
+ * API Key service — create, validate, list, update, revoke API keys.
+ * Keys are prefixed with gs_ and stored as bcrypt hashes. Each key carries
+ * the scopes it grants and, optionally, the spreadsheets it is pinned to.
  */
 import crypto from "crypto";
 import bcrypt from "bcryptjs";
@@ -12,6 +13,16 @@ const KEY_PREFIX = "gs_";
 const KEY_BYTES = 32;
 const BCRYPT_ROUNDS = 10;
 
+/** Permissions an API key can be granted */
+export const API_KEY_SCOPES = [
+  "spreadsheets:read",
+  "cells:write",
+  "export",
+  "webhooks:manage",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
 interface ApiKeyInfo {
   id: string;
   name: string;
@@ -19,9 +30,38 @@ interface ApiKeyInfo {
   lastUsedAt: Date | null;
   expiresAt: Date | null;
   rateLimit: number;
+  scopes: string[];
+  /** Spreadsheets the key is pinned to; empty means all of the owner's */
+  spreadsheetIds: string[];
   createdAt: Date;
 }
 
+/** What a key may do, attached to requests authenticated with it */
+export interface ApiKeyGrant {
+  keyId: string;
+  scopes: string[];
+  spreadsheetIds: string[];
+  /** Requests per minute */
+  rateLimit: number;
+}
+
+interface ApiKeyAccess {
+  scopes?: ApiKeyScope[];
+  spreadsheetIds?: string[];
+}
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  rateLimit: true,
+  scopes: true,
+  spreadsheetIds: true,
+  createdAt: true,
+} as const;
+
 interface CreateKeyResult {
   key: string;
   apiKey: ApiKeyInfo;
@@ -33,11 +73,31 @@ function generateKey(): string {
   return `${KEY_PREFIX}${random}`;
 }
 
-/** Create a new API key for a user — returns the raw key (shown only once) */
+/** Check whether a key grants `scope` */
+export function hasScope(grant: ApiKeyGrant, scope: ApiKeyScope): boolean {
+  return grant.scopes.includes(scope);
+}
+
+/** Check whether a key may touch a spreadsheet */
+export function allowsSpreadsheet(
+  grant: ApiKeyGrant,
+  spreadsheetId: string,
+): boolean {
+  return (
+    grant.spreadsheetIds.length === 0 ||
+    grant.spreadsheetIds.includes(spreadsheetId)
+  );
+}
+
+/**
+ * Create a new API key for a user — returns the raw key (shown only once).
+ * Without explicit scopes the key gets all of them.
+ */
 export async function createApiKey(
   userId: string,
   name: string,
   expiresAt?: Date,
+  access: ApiKeyAccess = {},
 ): Promise<CreateKeyResult> {
   const rawKey = generateKey();
   const keyHash = await bcrypt.hash(rawKey, BCRYPT_ROUNDS);
@@ -50,16 +110,10 @@ export async function createApiKey(
       keyHash,
       prefix,
       expiresAt: expiresAt ?? null,
+      scopes: access.scopes ?? [...API_KEY_SCOPES],
+      spreadsheetIds: access.spreadsheetIds ?? [],
     },
-    select: {
-      id: true,
-      name: true,
-      prefix: true,
-      lastUsedAt: true,
-      expiresAt: true,
-      rateLimit: true,
-      createdAt: true,
-    },
+    select: apiKeySelect,
   });
 
   logger.info({ userId, keyId: apiKey.id }, "API key created");
@@ -71,19 +125,41 @@ export async function createApiKey(
 export async function listApiKeys(userId: string): Promise<ApiKeyInfo[]> {
   return prisma.apiKey.findMany({
     where: { userId },
-    select: {
-      id: true,
-      name: true,
-      prefix: true,
-      lastUsedAt: true,
-      expiresAt: true,
-      rateLimit: true,
-      createdAt: true,
-    },
+    select: apiKeySelect,
     orderBy: { createdAt: "desc" },
   });
 }
 
+/** Rename a key or change its scopes and pinned spreadsheets */
+export async function updateApiKey(
+  keyId: string,
+  userId: string,
+  data: ApiKeyAccess & { name?: string },
+): Promise<ApiKeyInfo> {
+  const key = await prisma.apiKey.findUnique({
+    where: { id: keyId },
+    select: { userId: true },
+  });
+
+  if (!key) {
+    throw new NotFoundError("API key not found");
+  }
+
+  if (key.userId !== userId) {
+    throw new ForbiddenError("You can only update your own API keys");
+  }
+
+  const updated = await prisma.apiKey.update({
+    where: { id: keyId },
+    data,
+    select: apiKeySelect,
+  });
+
+  logger.info({ userId, keyId }, "API key updated");
+
+  return updated;
+}
+
 /** Revoke (delete) an API key */
 export async function revokeApiKey(
   keyId: string,
@@ -107,10 +183,13 @@ export async function revokeApiKey(
   logger.info({ userId, keyId }, "API key revoked");
 }
 
-/** Validate an API key — returns the userId if valid, null if not */
+/**
+ * Validate an API key — returns the owner and what the key grants if valid,
+ * null if not
+ */
 export async function validateApiKey(
   rawKey: string,
-): Promise<{ userId: string; keyId: string } | null> {
+): Promise<(ApiKeyGrant & { userId: string }) | null> {
   if (!rawKey.startsWith(KEY_PREFIX)) {
     return null;
   }
@@ -125,6 +204,9 @@ export async function validateApiKey(
       userId: true,
       keyHash: true,
       expiresAt: true,
+      rateLimit: true,
+      scopes: true,
+      spreadsheetIds: true,
     },
   });
 
@@ -146,7 +228,13 @@ export async function validateApiKey(
           // Ignore update errors — non-critical
         });
 
-      return { userId: candidate.userId, keyId: candidate.id };
+      return {
+        userId: candidate.userId,
+        keyId: candidate.id,
+        scopes: candidate.scopes,
+        spreadsheetIds: candidate.spreadsheetIds,
+        rateLimit: candidate.rateLimit,
+      };
     }
   }
 
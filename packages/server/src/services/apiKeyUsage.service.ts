@@ -0,0 +1,109 @@
+/**
+ * API key usage — daily request and error counts per key, recorded by the
+ * public API rate limiter and charted on the profile page.
+ */
+import prisma from "../models/prisma";
+import { NotFoundError, ForbiddenError } from "../utils/AppError";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Longest history the usage endpoint returns */
+export const MAX_USAGE_DAYS = 90;
+
+export interface DailyUsage {
+  /** UTC day as YYYY-MM-DD */
+  date: string;
+  requests: number;
+  errors: number;
+}
+
+interface ApiKeyUsage {
+  keyId: string;
+  rateLimit: number;
+  totals: { requests: number; errors: number };
+  daily: DailyUsage[];
+}
+
+/** Midnight UTC of the day containing `date` */
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+/** Count one request, and an error if the response failed */
+export async function recordApiKeyUsage(
+  apiKeyId: string,
+  isError: boolean,
+  at: Date = new Date(),
+): Promise<void> {
+  const day = startOfUtcDay(at);
+  await prisma.apiKeyUsage.upsert({
+    where: { apiKeyId_day: { apiKeyId, day } },
+    create: { apiKeyId, day, requests: 1, errors: isError ? 1 : 0 },
+    update: {
+      requests: { increment: 1 },
+      errors: { increment: isError ? 1 : 0 },
+    },
+  });
+}
+
+/**
+ * Usage of a key over the last `days` days, oldest first. Days without
+ * requests are included with zero counts.
+ */
+export async function getApiKeyUsage(
+  keyId: string,
+  userId: string,
+  days = 30,
+  now: Date = new Date(),
+): Promise<ApiKeyUsage> {
+  const key = await prisma.apiKey.findUnique({
+    where: { id: keyId },
+    select: { userId: true, rateLimit: true },
+  });
+
+  if (!key) {
+    throw new NotFoundError("API key not found");
+  }
+
+  if (key.userId !== userId) {
+    throw new ForbiddenError("You can only view usage of your own API keys");
+  }
+
+  const span = Math.min(Math.max(1, Math.floor(days)), MAX_USAGE_DAYS);
+  const today = startOfUtcDay(now);
+  const from = new Date(today.getTime() - (span - 1) * DAY_MS);
+
+  const rows: Array<{ day: Date; requests: number; errors: number }> =
+    await prisma.apiKeyUsage.findMany({
+      where: { apiKeyId: keyId, day: { gte: from } },
+      select: { day: true, requests: true, errors: true },
+      orderBy: { day: "asc" },
+    });
+  const byDate = new Map(
+    rows.map((row) => [row.day.toISOString().slice(0, 10), row]),
+  );
+
+  const daily: DailyUsage[] = [];
+  for (let i = 0; i < span; i++) {
+    const date = new Date(from.getTime() + i * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    const row = byDate.get(date);
+    daily.push({
+      date,
+      requests: row?.requests ?? 0,
+      errors: row?.errors ?? 0,
+    });
+  }
+
+  return {
+    keyId,
+    rateLimit: key.rateLimit,
+    totals: {
+      requests: daily.reduce((sum, d) => sum + d.requests, 0),
+      errors: daily.reduce((sum, d) => sum + d.errors, 0),
+    },
+    daily,
+  };
+}
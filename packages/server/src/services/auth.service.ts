@@ -1,18 +1,41 @@
+import crypto from "crypto";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { env } from "../config/env";
+import { getRedisClient } from "../config/redis";
 import prisma from "../models/prisma";
 import { AppError } from "../utils/AppError";
 import logger from "../utils/logger";
+import { sendEmail } from "./email.service";
+import { passwordResetEmail, verifyEmailEmail } from "./emailTemplates";
+import {
+  createSession,
+  endSession,
+  renewSession,
+  revokeOtherSessions,
+  rotateSession,
+  REFRESH_TOKEN_EXPIRY,
+} from "./session.service";
+import type { SessionClient, SessionToken } from "./session.service";
+import { verifySecondFactor } from "./twoFactor.service";
 
 const SALT_ROUNDS = 12;
 const ACCESS_TOKEN_EXPIRY = 900; // 15 minutes in seconds
-const REFRESH_TOKEN_EXPIRY = 604800; // 7 days in seconds
 const RESET_TOKEN_EXPIRY = 3600; // 1 hour in seconds
+const VERIFY_TOKEN_EXPIRY = 86400; // 24 hours in seconds
+const TWO_FACTOR_CHALLENGE_EXPIRY = 300; // 5 minutes in seconds
+const MAX_TWO_FACTOR_ATTEMPTS = 5; // codes tried per challenge
+const CHALLENGE_ATTEMPTS_PREFIX = "2fa:attempts:";
 
 interface JwtPayload {
   userId: string;
   email: string;
+  /** User's tokenVersion when issued; tokens from older versions are revoked */
+  tokenVersion?: number;
+  /** Session the token belongs to; absent on tokens from before sessions */
+  sid?: string;
+  /** Refresh tokens only: the session's refresh token ID when issued */
+  jti?: string;
 }
 
 interface TokenPair {
@@ -29,34 +52,178 @@ interface UserProfile {
   createdAt: Date;
 }
 
-function signAccessToken(userId: string, email: string): string {
-  return jwt.sign({ userId, email }, env.JWT_SECRET, {
-    expiresIn: ACCESS_TOKEN_EXPIRY,
-  });
+/** Sign-in result: tokens, or a challenge when 2FA is on */
+export type LoginResult =
+  | { user: UserProfile; tokens: TokenPair }
+  | { twoFactorRequired: true; challengeToken: string };
+
+function signAccessToken(
+  userId: string,
+  email: string,
+  tokenVersion: number,
+  sessionId?: string,
+): string {
+  return jwt.sign(
+    { userId, email, tokenVersion, sid: sessionId },
+    env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRY },
+  );
 }
 
-function signRefreshToken(userId: string, email: string): string {
-  return jwt.sign({ userId, email }, env.JWT_REFRESH_SECRET, {
-    expiresIn: REFRESH_TOKEN_EXPIRY,
-  });
+function signRefreshToken(
+  userId: string,
+  email: string,
+  tokenVersion: number,
+  session?: SessionToken,
+): string {
+  return jwt.sign(
+    {
+      userId,
+      email,
+      tokenVersion,
+      sid: session?.id,
+      jti: session?.refreshTokenId,
+    },
+    env.JWT_REFRESH_SECRET,
+    { expiresIn: REFRESH_TOKEN_EXPIRY },
+  );
 }
 
-function generateTokens(userId: string, email: string): TokenPair {
+export function generateTokens(
+  userId: string,
+  email: string,
+  tokenVersion = 0,
+  session?: SessionToken,
+): TokenPair {
   return {
-    accessToken: signAccessToken(userId, email),
-    refreshToken: signRefreshToken(userId, email),
+    accessToken: signAccessToken(userId, email, tokenVersion, session?.id),
+    refreshToken: signRefreshToken(userId, email, tokenVersion, session),
+  };
+}
+
+interface TokenUser {
+  id: string;
+  email: string;
+  tokenVersion: number;
+}
+
+/** Record a sign-in as a new session and issue its tokens */
+async function startSession(
+  user: TokenUser,
+  client: SessionClient,
+): Promise<TokenPair> {
+  const session = await createSession(user.id, client);
+  return generateTokens(user.id, user.email, user.tokenVersion, session);
+}
+
+/**
+ * After a tokenVersion bump: revoke every other session and issue fresh
+ * tokens for the current one (a new session if it has none).
+ */
+export async function signOutOtherSessions(
+  user: TokenUser,
+  currentSessionId: string | undefined,
+  client: SessionClient,
+): Promise<TokenPair> {
+  await revokeOtherSessions(user.id, currentSessionId);
+
+  const refreshTokenId = currentSessionId
+    ? await renewSession(currentSessionId, user.id)
+    : null;
+  if (!currentSessionId || !refreshTokenId) {
+    return startSession(user, client);
+  }
+
+  return generateTokens(user.id, user.email, user.tokenVersion, {
+    id: currentSessionId,
+    refreshTokenId,
+  });
+}
+
+/** Whether a token was issued before the user's last tokenVersion bump */
+export function isTokenRevoked(
+  decoded: { tokenVersion?: number },
+  user: { tokenVersion?: number | null },
+): boolean {
+  return (decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0);
+}
+
+/** Challenges get their own key so they can never pass as access tokens */
+function challengeSecret(): string {
+  return crypto
+    .createHash("sha256")
+    .update(`2fa-challenge:${env.JWT_SECRET}`)
+    .digest("hex");
+}
+
+/** Short-lived token proving the password step passed, redeemed with a code */
+function signTwoFactorChallenge(userId: string, tokenVersion: number): string {
+  return jwt.sign(
+    { userId, type: "2fa-challenge", tokenVersion },
+    challengeSecret(),
+    { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY, jwtid: crypto.randomUUID() },
+  );
+}
+
+const challengeAttempts = new Map<
+  string,
+  { count: number; expiresAt: number }
+>();
+
+/**
+ * Count a code attempt against a challenge; false once it has used up its
+ * attempts. Counted in Redis so every server shares them, with an
+ * in-memory fallback when Redis is unavailable.
+ */
+async function takeChallengeAttempt(challengeId: string): Promise<boolean> {
+  const redis = getRedisClient();
+  if (redis?.status === "ready") {
+    try {
+      const key = `${CHALLENGE_ATTEMPTS_PREFIX}${challengeId}`;
+      const count = await redis.incr(key);
+      if (count === 1) await redis.expire(key, TWO_FACTOR_CHALLENGE_EXPIRY);
+      return count <= MAX_TWO_FACTOR_ATTEMPTS;
+    } catch (err) {
+      logger.warn(
+        { err: (err as Error).message },
+        "Redis 2FA attempt count failed — counting in memory",
+      );
+    }
+  }
+
+  const now = Date.now();
+  for (const [id, entry] of challengeAttempts) {
+    if (entry.expiresAt <= now) challengeAttempts.delete(id);
+  }
+  const entry = challengeAttempts.get(challengeId) ?? {
+    count: 0,
+    expiresAt: now + TWO_FACTOR_CHALLENGE_EXPIRY * 1000,
   };
+  entry.count++;
+  challengeAttempts.set(challengeId, entry);
+  return entry.count <= MAX_TWO_FACTOR_ATTEMPTS;
 }
 
 export function verifyAccessToken(token: string): JwtPayload {
+  let decoded: JwtPayload & { type?: unknown };
   try {
-    return jwt.verify(token, env.JWT_SECRET) as JwtPayload;
+    decoded = jwt.verify(token, env.JWT_SECRET) as typeof decoded;
   } catch (err) {
     if (err instanceof jwt.TokenExpiredError) {
       throw new AppError(401, "Token expired");
     }
     throw new AppError(401, "Invalid token");
   }
+
+  // Reset and verification tokens share the secret but carry a type
+  if (
+    decoded.type !== undefined ||
+    typeof decoded.userId !== "string" ||
+    typeof decoded.email !== "string"
+  ) {
+    throw new AppError(401, "Invalid token");
+  }
+  return decoded;
 }
 
 export function verifyRefreshToken(token: string): JwtPayload {
@@ -93,7 +260,8 @@ export async function findOrCreateOAuthUser(
   name: string | null,
   avatarUrl: string | null,
   provider: string,
-): Promise<{ user: UserProfile; tokens: TokenPair }> {
+  client: SessionClient,
+): Promise<LoginResult> {
   let user = await prisma.user.findUnique({
     where: { email },
     select: {
@@ -102,6 +270,8 @@ export async function findOrCreateOAuthUser(
       name: true,
       avatarUrl: true,
       emailVerified: true,
+      tokenVersion: true,
+      totpEnabled: true,
       createdAt: true,
     },
   });
@@ -121,6 +291,8 @@ export async function findOrCreateOAuthUser(
         name: true,
         avatarUrl: true,
         emailVerified: true,
+        tokenVersion: true,
+        totpEnabled: true,
         createdAt: true,
       },
     });
@@ -137,6 +309,8 @@ export async function findOrCreateOAuthUser(
           name: true,
           avatarUrl: true,
           emailVerified: true,
+          tokenVersion: true,
+          totpEnabled: true,
           createdAt: true,
         },
       });
@@ -144,14 +318,22 @@ export async function findOrCreateOAuthUser(
     logger.info({ userId: user.id, provider }, "OAuth user logged in");
   }
 
-  const tokens = generateTokens(user.id, user.email);
+  if (user.totpEnabled) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(user.id, user.tokenVersion),
+    };
+  }
+
+  const tokens = await startSession(user, client);
   return { user: sanitizeUser(user), tokens };
 }
 
 export async function register(
   email: string,
   password: string,
-  name?: string,
+  name: string | undefined,
+  client: SessionClient,
 ): Promise<{ user: UserProfile; tokens: TokenPair }> {
   const existing = await prisma.user.findUnique({ where: { email } });
   if (existing) {
@@ -172,21 +354,27 @@ export async function register(
       name: true,
       avatarUrl: true,
       emailVerified: true,
+      tokenVersion: true,
       createdAt: true,
     },
   });
 
-  const tokens = generateTokens(user.id, user.email);
+  const tokens = await startSession(user, client);
 
   logger.info({ userId: user.id }, "User registered");
 
+  sendVerificationEmail(user.id).catch((err) =>
+    logger.error({ err, userId: user.id }, "Failed to send verification email"),
+  );
+
   return { user: sanitizeUser(user), tokens };
 }
 
 export async function login(
   email: string,
   password: string,
-): Promise<{ user: UserProfile; tokens: TokenPair }> {
+  client: SessionClient,
+): Promise<LoginResult> {
   const user = await prisma.user.findUnique({
     where: { email },
     select: {
@@ -197,6 +385,7 @@ export async function login(
       emailVerified: true,
       passwordHash: true,
       tokenVersion: true,
+      totpEnabled: true,
       createdAt: true,
     },
   });
@@ -210,15 +399,78 @@ export async function login(
     throw new AppError(401, "Invalid email or password");
   }
 
-  const tokens = generateTokens(user.id, user.email);
+  if (user.totpEnabled) {
+    logger.info({ userId: user.id }, "Password accepted, awaiting 2FA code");
+    return {
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(user.id, user.tokenVersion),
+    };
+  }
+
+  const tokens = await startSession(user, client);
 
   logger.info({ userId: user.id }, "User logged in");
 
   return { user: sanitizeUser(user), tokens };
 }
 
+/** Finish a 2FA sign-in with a TOTP or recovery code */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  client: SessionClient,
+): Promise<{ user: UserProfile; tokens: TokenPair }> {
+  let decoded: {
+    userId: string;
+    type: string;
+    tokenVersion: number;
+    jti?: string;
+  };
+  try {
+    decoded = jwt.verify(challengeToken, challengeSecret()) as typeof decoded;
+  } catch {
+    throw new AppError(401, "Sign-in expired, please start again");
+  }
+
+  if (decoded.type !== "2fa-challenge" || !decoded.jti) {
+    throw new AppError(400, "Invalid token type");
+  }
+
+  if (!(await takeChallengeAttempt(decoded.jti))) {
+    throw new AppError(429, "Too many attempts, please sign in again");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      avatarUrl: true,
+      emailVerified: true,
+      tokenVersion: true,
+      createdAt: true,
+    },
+  });
+
+  if (!user || isTokenRevoked(decoded, user)) {
+    throw new AppError(401, "Sign-in expired, please start again");
+  }
+
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new AppError(401, "Invalid verification code");
+  }
+
+  const tokens = await startSession(user, client);
+
+  logger.info({ userId: user.id }, "User logged in with 2FA");
+
+  return { user: sanitizeUser(user), tokens };
+}
+
 export async function refreshTokens(
   refreshToken: string,
+  client: SessionClient,
 ): Promise<{ user: UserProfile; tokens: TokenPair }> {
   const decoded = verifyRefreshToken(refreshToken);
 
@@ -230,6 +482,7 @@ export async function refreshTokens(
       name: true,
       avatarUrl: true,
       emailVerified: true,
+      tokenVersion: true,
       createdAt: true,
     },
   });
@@ -238,12 +491,58 @@ export async function refreshTokens(
     throw new AppError(401, "User not found");
   }
 
-  // Rotate tokens
-  const tokens = generateTokens(user.id, user.email);
+  if (isTokenRevoked(decoded, user)) {
+    throw new AppError(401, "Session revoked");
+  }
+
+  // Tokens from before sessions existed are exchanged once for a session.
+  // Bumping the tokenVersion revokes the old token and every copy of it,
+  // so it can't be replayed for new sessions; only one exchange wins.
+  if (!decoded.sid || !decoded.jti) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, tokenVersion: user.tokenVersion },
+      data: { tokenVersion: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new AppError(401, "Session revoked");
+    }
+
+    const tokens = await signOutOtherSessions(
+      { ...user, tokenVersion: user.tokenVersion + 1 },
+      undefined,
+      client,
+    );
+    logger.info({ userId: user.id }, "Legacy refresh token exchanged");
+    return { user: sanitizeUser(user), tokens };
+  }
+
+  // Rotate tokens; replaying an exchanged refresh token revokes the session
+  const refreshTokenId = await rotateSession(
+    decoded.sid,
+    user.id,
+    decoded.jti,
+    client,
+  );
+  const tokens = generateTokens(user.id, user.email, user.tokenVersion, {
+    id: decoded.sid,
+    refreshTokenId,
+  });
 
   return { user: sanitizeUser(user), tokens };
 }
 
+/** End the session a refresh token belongs to; invalid tokens are ignored */
+export async function logout(refreshToken: string | undefined): Promise<void> {
+  if (!refreshToken) return;
+  let decoded: JwtPayload;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch {
+    return;
+  }
+  if (decoded.sid) await endSession(decoded.sid);
+}
+
 export async function getProfile(userId: string): Promise<UserProfile> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -288,10 +587,12 @@ export async function changePassword(
   userId: string,
   currentPassword: string,
   newPassword: string,
-): Promise<void> {
+  currentSessionId: string | undefined,
+  client: SessionClient,
+): Promise<TokenPair> {
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { id: true, passwordHash: true, tokenVersion: true },
+    select: { id: true, email: true, passwordHash: true, tokenVersion: true },
   });
 
   if (!user || !user.passwordHash) {
@@ -305,16 +606,24 @@ export async function changePassword(
 
   const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
 
-  // Increment token version to invalidate all existing tokens
+  // Increment token version to invalidate all existing tokens, then sign
+  // the current session back in
+  const tokenVersion = user.tokenVersion + 1;
   await prisma.user.update({
     where: { id: userId },
     data: {
       passwordHash,
-      tokenVersion: user.tokenVersion + 1,
+      tokenVersion,
     },
   });
 
   logger.info({ userId }, "Password changed");
+
+  return signOutOtherSessions(
+    { id: user.id, email: user.email, tokenVersion },
+    currentSessionId,
+    client,
+  );
 }
 
 export async function deleteAccount(userId: string): Promise<void> {
@@ -325,7 +634,7 @@ export async function deleteAccount(userId: string): Promise<void> {
 export async function forgotPassword(email: string): Promise<void> {
   const user = await prisma.user.findUnique({
     where: { email },
-    select: { id: true },
+    select: { id: true, email: true, name: true },
   });
 
   // Always return success to prevent email enumeration
@@ -334,18 +643,26 @@ export async function forgotPassword(email: string): Promise<void> {
     return;
   }
 
-  // Generate reset token (short-lived) and log it for dev
-  // TODO: Send reset email via Resend/SendGrid with this token
   const resetToken = jwt.sign(
     { userId: user.id, type: "reset" },
     env.JWT_SECRET,
     { expiresIn: RESET_TOKEN_EXPIRY },
   );
 
-  logger.info(
-    { userId: user.id, resetTokenPreview: resetToken.slice(0, 20) },
-    "Password reset requested (email stubbed)",
-  );
+  // A failed send is logged, not surfaced — the response must not differ
+  // between known and unknown addresses
+  try {
+    await sendEmail({
+      to: user.email,
+      ...passwordResetEmail({
+        name: user.name ?? user.email,
+        resetUrl: `${env.CLIENT_URL}/reset-password?token=${encodeURIComponent(resetToken)}`,
+      }),
+    });
+    logger.info({ userId: user.id }, "Password reset requested");
+  } catch (err) {
+    logger.error({ err, userId: user.id }, "Failed to send password reset");
+  }
 }
 
 export async function resetPassword(
@@ -375,10 +692,41 @@ export async function resetPassword(
       tokenVersion: { increment: 1 },
     },
   });
+  await revokeOtherSessions(decoded.userId);
 
   logger.info({ userId: decoded.userId }, "Password reset completed");
 }
 
+/** Email a link that confirms the user's address; no-op once verified */
+export async function sendVerificationEmail(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, emailVerified: true },
+  });
+
+  if (!user) {
+    throw new AppError(404, "User not found");
+  }
+
+  if (user.emailVerified) return;
+
+  const verifyToken = jwt.sign(
+    { userId: user.id, type: "verify-email" },
+    env.JWT_SECRET,
+    { expiresIn: VERIFY_TOKEN_EXPIRY },
+  );
+
+  await sendEmail({
+    to: user.email,
+    ...verifyEmailEmail({
+      name: user.name ?? user.email,
+      verifyUrl: `${env.CLIENT_URL}/verify-email/${verifyToken}`,
+    }),
+  });
+
+  logger.info({ userId }, "Verification email sent");
+}
+
 export async function verifyEmail(token: string): Promise<void> {
   let decoded: { userId: string; type: string };
   try {
@@ -1,6 +1,8 @@
 import prisma from "../models/prisma";
 import { NotFoundError, ForbiddenError } from "../utils/AppError";
 import logger from "../utils/logger";
+import { effectiveRole, spreadsheetAccessSelect } from "./access.service";
+import { notifyMentionedUsers, notifyReply } from "./notification.service";
 
 interface CommentWithReplies {
   id: string;
@@ -59,6 +61,59 @@ const COMMENT_SELECT = {
   },
 };
 
+/**
+ * Notify users mentioned in a comment or reply and, for replies, the rest
+ * of the thread. Runs in the background so a failed notification never
+ * fails the comment.
+ */
+function notifyCommentActivity(
+  comment: CommentWithReplies,
+  actor: CommentWithReplies["author"],
+  text: string,
+  mentions: string[],
+  isReply: boolean,
+): void {
+  const actorName = actor.name ?? actor.email;
+  const notify = async () => {
+    await notifyMentionedUsers(
+      mentions,
+      actor.id,
+      actorName,
+      actor.email,
+      comment.spreadsheetId,
+      comment.cellKey,
+      text,
+    );
+    if (!isReply) return;
+
+    // Mentioned participants already got a mention notification
+    const participants = [
+      comment.author,
+      ...comment.replies.map((r) => r.author),
+    ];
+    const mentionedIds = participants
+      .filter((p) => mentions.includes(p.email))
+      .map((p) => p.id);
+    await notifyReply(
+      comment.id,
+      actor.id,
+      actorName,
+      actor.email,
+      comment.spreadsheetId,
+      comment.cellKey,
+      text,
+      mentionedIds,
+    );
+  };
+
+  notify().catch((err) =>
+    logger.error(
+      { err, commentId: comment.id },
+      "Failed to send comment notifications",
+    ),
+  );
+}
+
 /** Check if user has at least viewer access to the spreadsheet */
 async function checkAccess(
   spreadsheetId: string,
@@ -66,15 +121,11 @@ async function checkAccess(
 ): Promise<string> {
   const ss = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
   if (!ss) throw new NotFoundError("Spreadsheet not found");
-  if (ss.ownerId === userId) return "owner";
-  const role = ss.access[0]?.role;
+  const role = effectiveRole(ss, userId);
   if (!role) throw new ForbiddenError("Access denied");
   return role;
 }
@@ -139,6 +190,8 @@ export async function addComment(
     "Comment added",
   );
 
+  notifyCommentActivity(comment, comment.author, text, mentions, false);
+
   return comment;
 }
 
@@ -290,5 +343,12 @@ export async function addReply(
 
   logger.info({ userId, spreadsheetId, commentId }, "Reply added to comment");
 
+  const reply = [...comment!.replies]
+    .reverse()
+    .find((r) => r.author.id === userId);
+  if (reply) {
+    notifyCommentActivity(comment!, reply.author, text, mentions, true);
+  }
+
   return comment!;
 }
@@ -0,0 +1,121 @@
+/**
+ * Email service — sends rendered emails through a pluggable transport.
+ * SMTP in production; the outbox transport keeps every message in memory
+ * and, outside tests, writes it as an .eml file for local development.
+ */
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { env } from "../config/env";
+import logger from "../utils/logger";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface OutgoingEmail extends EmailMessage {
+  from: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+/** Sends through an SMTP server */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.pass ?? "" }
+        : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail(email);
+  }
+}
+
+/**
+ * Keeps sent emails in `sent` and, when given a directory, writes each one
+ * there as an .eml file that mail clients can open
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = "outbox";
+  readonly sent: OutgoingEmail[] = [];
+  private serializer = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  constructor(private dir: string | null = null) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    this.sent.push(email);
+    if (!this.dir) return;
+
+    const info = await this.serializer.sendMail(email);
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(
+      this.dir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${this.sent.length}.eml`,
+    );
+    await fs.writeFile(file, info.message as Buffer);
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+function createTransport(): EmailTransport {
+  if (env.EMAIL_TRANSPORT === "smtp") {
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE === "true",
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS,
+    });
+  }
+  return new OutboxTransport(
+    env.NODE_ENV === "test" ? null : env.EMAIL_OUTBOX_DIR,
+  );
+}
+
+/** The configured transport, created on first use */
+export function getEmailTransport(): EmailTransport {
+  transport ??= createTransport();
+  return transport;
+}
+
+/** Replace the transport — pass null to go back to the configured one */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next;
+}
+
+/** Send an email from EMAIL_FROM */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const active = getEmailTransport();
+  await active.send({ ...message, from: env.EMAIL_FROM });
+  logger.info(
+    { to: message.to, subject: message.subject, transport: active.name },
+    "Email sent",
+  );
+}
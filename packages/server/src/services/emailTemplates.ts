@@ -0,0 +1,165 @@
+/**
+ * Email templates — each returns a subject with matching HTML and plain
+ * text bodies. User-supplied values are escaped in the HTML version.
+ */
+import type { EmailMessage } from "./email.service";
+
+export type RenderedEmail = Omit<EmailMessage, "to">;
+
+export interface DigestEntry {
+  title: string;
+  message: string;
+  url?: string | null;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Wrap already-escaped HTML content in the shared layout */
+function layout(content: string, action?: { label: string; url: string }) {
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#1a73e8;color:#ffffff;padding:10px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(action.label)}</a></p>`
+    : "";
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px">
+      <h1 style="font-size:18px;margin:0 0 16px;color:#1a73e8">GridSpace</h1>
+      ${content}${button}
+    </div>
+  </body>
+</html>`;
+}
+
+function paragraph(text: string): string {
+  return `<p style="font-size:14px;line-height:1.5">${escapeHtml(text)}</p>`;
+}
+
+function quote(text: string): string {
+  return `<blockquote style="margin:16px 0;padding:8px 12px;border-left:3px solid #e5e7eb;color:#374151;font-size:14px">${escapeHtml(text)}</blockquote>`;
+}
+
+export function passwordResetEmail(params: {
+  name: string;
+  resetUrl: string;
+}): RenderedEmail {
+  const intro = `Hi ${params.name}, we received a request to reset your GridSpace password.`;
+  const expiry =
+    "The link expires in one hour. If you didn't ask for a reset, you can ignore this email.";
+  return {
+    subject: "Reset your GridSpace password",
+    html: layout(paragraph(intro) + paragraph(expiry), {
+      label: "Reset password",
+      url: params.resetUrl,
+    }),
+    text: `${intro}\n\nReset your password: ${params.resetUrl}\n\n${expiry}\n`,
+  };
+}
+
+export function verifyEmailEmail(params: {
+  name: string;
+  verifyUrl: string;
+}): RenderedEmail {
+  const intro = `Hi ${params.name}, please confirm this is your email address.`;
+  const expiry = "The link expires in 24 hours.";
+  return {
+    subject: "Verify your GridSpace email",
+    html: layout(paragraph(intro) + paragraph(expiry), {
+      label: "Verify email",
+      url: params.verifyUrl,
+    }),
+    text: `${intro}\n\nVerify your email: ${params.verifyUrl}\n\n${expiry}\n`,
+  };
+}
+
+export function shareInviteEmail(params: {
+  actorName: string;
+  spreadsheetTitle: string;
+  role: string;
+  url: string;
+}): RenderedEmail {
+  const intro = `${params.actorName} shared "${params.spreadsheetTitle}" with you as ${params.role}.`;
+  return {
+    subject: `${params.actorName} shared "${params.spreadsheetTitle}" with you`,
+    html: layout(paragraph(intro), {
+      label: "Open spreadsheet",
+      url: params.url,
+    }),
+    text: `${intro}\n\nOpen it: ${params.url}\n`,
+  };
+}
+
+export function mentionEmail(params: {
+  actorName: string;
+  spreadsheetTitle: string;
+  cellRef: string;
+  excerpt: string;
+  url: string;
+}): RenderedEmail {
+  const intro = `${params.actorName} mentioned you in a comment on ${params.cellRef} in "${params.spreadsheetTitle}":`;
+  return {
+    subject: `${params.actorName} mentioned you in "${params.spreadsheetTitle}"`,
+    html: layout(paragraph(intro) + quote(params.excerpt), {
+      label: "View comment",
+      url: params.url,
+    }),
+    text: `${intro}\n\n> ${params.excerpt}\n\nView comment: ${params.url}\n`,
+  };
+}
+
+export function replyEmail(params: {
+  actorName: string;
+  spreadsheetTitle: string;
+  cellRef: string;
+  excerpt: string;
+  url: string;
+}): RenderedEmail {
+  const intro = `${params.actorName} replied to a comment thread on ${params.cellRef} in "${params.spreadsheetTitle}":`;
+  return {
+    subject: `${params.actorName} replied in "${params.spreadsheetTitle}"`,
+    html: layout(paragraph(intro) + quote(params.excerpt), {
+      label: "View reply",
+      url: params.url,
+    }),
+    text: `${intro}\n\n> ${params.excerpt}\n\nView reply: ${params.url}\n`,
+  };
+}
+
+export function digestEmail(params: {
+  name: string;
+  entries: DigestEntry[];
+  settingsUrl: string;
+}): RenderedEmail {
+  const count = params.entries.length;
+  const intro = `Hi ${params.name}, here's what happened since your last digest.`;
+  const items = params.entries
+    .map((entry) => {
+      const title = entry.url
+        ? `<a href="${escapeHtml(entry.url)}" style="color:#1a73e8">${escapeHtml(entry.title)}</a>`
+        : escapeHtml(entry.title);
+      return `<li style="margin-bottom:12px;font-size:14px"><strong>${title}</strong><br>${escapeHtml(entry.message)}</li>`;
+    })
+    .join("");
+  const textItems = params.entries
+    .map(
+      (entry) =>
+        `- ${entry.title}\n  ${entry.message}${entry.url ? `\n  ${entry.url}` : ""}`,
+    )
+    .join("\n");
+  const footer = "Change how often you get these in your profile settings.";
+
+  return {
+    subject: `Your GridSpace digest: ${count} ${count === 1 ? "notification" : "notifications"}`,
+    html: layout(
+      `${paragraph(intro)}<ul style="padding-left:20px">${items}</ul>${paragraph(footer)}`,
+      { label: "Notification settings", url: params.settingsUrl },
+    ),
+    text: `${intro}\n\n${textItems}\n\n${footer} ${params.settingsUrl}\n`,
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Folders — nested folders for filing spreadsheets. A folder is either
+ * personal (owned by one user) or belongs to a team, and subfolders stay
+ * in their parent's team or personal files. Grants on a folder give users
+ * a role on every spreadsheet below it (see access.service).
+ */
+import prisma from "../models/prisma";
+import { NotFoundError, ValidationError } from "../utils/AppError";
+import logger from "../utils/logger";
+import { MAX_FOLDER_DEPTH } from "./access.service";
+import type { TeamRole } from "./access.service";
+import { requireTeamRole } from "./team.service";
+
+const USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+} as const;
+
+export interface FolderInfo {
+  id: string;
+  name: string;
+  teamId: string | null;
+  ownerId: string | null;
+  parentId: string | null;
+  createdAt: Date;
+  access: Array<{
+    userId: string;
+    role: string;
+    user: {
+      id: string;
+      name: string | null;
+      email: string;
+      avatarUrl: string | null;
+    };
+  }>;
+}
+
+const FOLDER_SELECT = {
+  id: true,
+  name: true,
+  teamId: true,
+  ownerId: true,
+  parentId: true,
+  createdAt: true,
+  access: {
+    orderBy: { createdAt: "asc" as const },
+    select: { userId: true, role: true, user: { select: USER_SELECT } },
+  },
+} as const;
+
+interface FolderRow {
+  id: string;
+  teamId: string | null;
+  ownerId: string | null;
+  parentId: string | null;
+}
+
+/**
+ * What the user wants to do with a folder: see it, file into, rename or
+ * move it, or delete and share it. Personal folders allow all of these to
+ * their owner only; team folders need the matching team role.
+ */
+export type FolderAction = "view" | "edit" | "manage";
+
+const TEAM_ROLE_FOR: Record<FolderAction, TeamRole> = {
+  view: "viewer",
+  edit: "editor",
+  manage: "admin",
+};
+
+/** Load a folder, checking the user may perform `action` on it */
+export async function requireFolder(
+  folderId: string,
+  userId: string,
+  action: FolderAction = "view",
+): Promise<FolderRow> {
+  const folder = await prisma.folder.findUnique({
+    where: { id: folderId },
+    select: { id: true, teamId: true, ownerId: true, parentId: true },
+  });
+
+  if (!folder) {
+    throw new NotFoundError("Folder not found");
+  }
+
+  if (folder.teamId) {
+    await requireTeamRole(folder.teamId, userId, TEAM_ROLE_FOR[action]);
+  } else if (folder.ownerId !== userId) {
+    throw new NotFoundError("Folder not found");
+  }
+
+  return folder;
+}
+
+/** Parent links for every folder in the same team or personal files */
+async function loadTree(
+  scope: Pick<FolderRow, "teamId" | "ownerId">,
+): Promise<Map<string, string | null>> {
+  const rows: Array<{ id: string; parentId: string | null }> =
+    await prisma.folder.findMany({
+      where: scope.teamId
+        ? { teamId: scope.teamId }
+        : { ownerId: scope.ownerId },
+      select: { id: true, parentId: true },
+    });
+  return new Map(rows.map((r) => [r.id, r.parentId]));
+}
+
+/** The folder and its ancestors, innermost first */
+function ancestry(
+  tree: Map<string, string | null>,
+  folderId: string,
+): string[] {
+  const chain: string[] = [];
+  for (
+    let id: string | null | undefined = folderId;
+    id && !chain.includes(id);
+    id = tree.get(id)
+  ) {
+    chain.push(id);
+  }
+  return chain;
+}
+
+/** Levels in the folder's subtree, counting the folder itself */
+function subtreeHeight(
+  tree: Map<string, string | null>,
+  folderId: string,
+): number {
+  let height = 1;
+  for (const [id, parentId] of tree) {
+    if (parentId === folderId) {
+      height = Math.max(height, 1 + subtreeHeight(tree, id));
+    }
+  }
+  return height;
+}
+
+/** Folders in the user's personal files, or in a team they belong to */
+export async function listFolders(
+  userId: string,
+  teamId?: string,
+): Promise<FolderInfo[]> {
+  if (teamId) {
+    await requireTeamRole(teamId, userId);
+  }
+
+  return prisma.folder.findMany({
+    where: teamId ? { teamId } : { ownerId: userId },
+    orderBy: { name: "asc" },
+    select: FOLDER_SELECT,
+  });
+}
+
+export async function createFolder(
+  userId: string,
+  data: { name: string; teamId?: string | null; parentId?: string | null },
+): Promise<FolderInfo> {
+  let teamId = data.teamId ?? null;
+  const parentId = data.parentId ?? null;
+
+  if (parentId) {
+    const parent = await requireFolder(parentId, userId, "edit");
+    if (teamId && parent.teamId !== teamId) {
+      throw new ValidationError("The parent folder belongs to another team");
+    }
+    teamId = parent.teamId;
+
+    const tree = await loadTree(parent);
+    if (ancestry(tree, parentId).length >= MAX_FOLDER_DEPTH) {
+      throw new ValidationError(
+        `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+      );
+    }
+  } else if (teamId) {
+    await requireTeamRole(teamId, userId, "editor");
+  }
+
+  const folder = await prisma.folder.create({
+    data: {
+      name: data.name,
+      teamId,
+      ownerId: teamId ? null : userId,
+      parentId,
+    },
+    select: FOLDER_SELECT,
+  });
+
+  logger.info({ userId, folderId: folder.id, teamId }, "Folder created");
+
+  return folder;
+}
+
+/** Rename a folder and/or move it under another folder (null: top level) */
+export async function updateFolder(
+  folderId: string,
+  userId: string,
+  data: { name?: string; parentId?: string | null },
+): Promise<FolderInfo> {
+  const folder = await requireFolder(folderId, userId, "edit");
+
+  const parentId = data.parentId;
+  const moving = parentId !== undefined && parentId !== folder.parentId;
+
+  if (moving && parentId) {
+    const parent = await requireFolder(parentId, userId, "edit");
+    if (parent.teamId !== folder.teamId || parent.ownerId !== folder.ownerId) {
+      throw new ValidationError(
+        "Folders can only be moved within the same team or personal files",
+      );
+    }
+
+    const tree = await loadTree(folder);
+    const chain = ancestry(tree, parentId);
+    if (chain.includes(folderId)) {
+      throw new ValidationError(
+        "A folder can't be moved into itself or one of its subfolders",
+      );
+    }
+    if (chain.length + subtreeHeight(tree, folderId) > MAX_FOLDER_DEPTH) {
+      throw new ValidationError(
+        `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+      );
+    }
+  }
+
+  const updated = await prisma.folder.update({
+    where: { id: folderId },
+    data: { name: data.name, parentId },
+    select: FOLDER_SELECT,
+  });
+
+  if (moving) {
+    logger.info({ userId, folderId, parentId }, "Folder moved");
+  }
+
+  return updated;
+}
+
+/**
+ * Delete a folder. Its subfolders and spreadsheets move up into its parent
+ * (or to the top level), so nothing filed in it is lost.
+ */
+export async function deleteFolder(
+  folderId: string,
+  userId: string,
+): Promise<void> {
+  const folder = await requireFolder(folderId, userId, "manage");
+
+  await prisma.$transaction(async (tx) => {
+    await tx.folder.updateMany({
+      where: { parentId: folderId },
+      data: { parentId: folder.parentId },
+    });
+    await tx.spreadsheet.updateMany({
+      where: { folderId },
+      data: { folderId: folder.parentId },
+    });
+    await tx.folder.delete({ where: { id: folderId } });
+  });
+
+  logger.info({ userId, folderId }, "Folder deleted");
+}
+
+/** Grant (or change) a user's role on everything in the folder */
+export async function grantFolderAccess(
+  folderId: string,
+  actorId: string,
+  email: string,
+  role: "viewer" | "commenter" | "editor",
+): Promise<FolderInfo> {
+  await requireFolder(folderId, actorId, "manage");
+
+  const target = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+  if (!target) {
+    throw new NotFoundError("User not found with that email");
+  }
+
+  await prisma.folderAccess.upsert({
+    where: { folderId_userId: { folderId, userId: target.id } },
+    create: { folderId, userId: target.id, role },
+    update: { role },
+  });
+
+  logger.info(
+    { actorId, folderId, targetUserId: target.id, role },
+    "Folder access granted",
+  );
+
+  return prisma.folder.findUnique({
+    where: { id: folderId },
+    select: FOLDER_SELECT,
+  });
+}
+
+export async function revokeFolderAccess(
+  folderId: string,
+  actorId: string,
+  targetUserId: string,
+): Promise<void> {
+  await requireFolder(folderId, actorId, "manage");
+
+  const result = await prisma.folderAccess.deleteMany({
+    where: { folderId, userId: targetUserId },
+  });
+  if (result.count === 0) {
+    throw new NotFoundError("User does not have access to this folder");
+  }
+
+  logger.info({ actorId, folderId, targetUserId }, "Folder access revoked");
+}
@@ -2,6 +2,10 @@ import prisma from "../models/prisma";
 import { NotFoundError } from "../utils/AppError";
 import logger from "../utils/logger";
 import { getPaginationParams } from "../utils/pagination";
+import {
+  deliverNotificationEmail,
+  type EmailDigestMode,
+} from "./notificationEmail.service";
 
 interface NotificationItem {
   id: string;
@@ -24,6 +28,41 @@ interface PreferenceData {
   inAppSharing?: boolean;
   inAppComments?: boolean;
   inAppMentions?: boolean;
+  emailDigest?: EmailDigestMode;
+}
+
+type Preferences = Required<Omit<PreferenceData, "emailDigest">> & {
+  emailDigest: EmailDigestMode;
+};
+
+/** Preference flags that control each notification type */
+const CHANNELS_BY_TYPE: Record<
+  string,
+  { inApp: keyof Preferences; email: keyof Preferences }
+> = {
+  share: { inApp: "inAppSharing", email: "emailSharing" },
+  mention: { inApp: "inAppMentions", email: "emailMentions" },
+  comment_reply: { inApp: "inAppComments", email: "emailComments" },
+};
+
+function toPreferences(row: {
+  emailSharing: boolean;
+  emailComments: boolean;
+  emailMentions: boolean;
+  inAppSharing: boolean;
+  inAppComments: boolean;
+  inAppMentions: boolean;
+  emailDigest?: string;
+}): Preferences {
+  return {
+    emailSharing: row.emailSharing,
+    emailComments: row.emailComments,
+    emailMentions: row.emailMentions,
+    inAppSharing: row.inAppSharing,
+    inAppComments: row.inAppComments,
+    inAppMentions: row.inAppMentions,
+    emailDigest: (row.emailDigest as EmailDigestMode | undefined) ?? "off",
+  };
 }
 
 /** List notifications for a user (paginated) */
@@ -120,7 +159,11 @@ export async function deleteNotification(
   await prisma.notification.delete({ where: { id: notificationId } });
 }
 
-/** Create a notification (internal — called by other services) */
+/**
+ * Create a notification (internal — called by other services). Emails it
+ * too when the user has email enabled for its type; in-app and email
+ * preferences are independent.
+ */
 export async function createNotification(
   userId: string,
   type: string,
@@ -132,16 +175,33 @@ export async function createNotification(
     fromUserId?: string;
     fromUserName?: string;
     fromUserEmail?: string;
+    /** Comment or reply text quoted in the email */
+    excerpt?: string;
+    /** Role granted, for share notifications */
+    role?: string;
   },
 ): Promise<NotificationItem> {
   // Check user preferences before creating
   const prefs = await getPreferences(userId, opts?.spreadsheetId ?? null);
+  const channels = CHANNELS_BY_TYPE[type];
 
-  if (type === "share" && !prefs.inAppSharing)
-    return null as unknown as NotificationItem;
-  if (type === "mention" && !prefs.inAppMentions)
-    return null as unknown as NotificationItem;
-  if (type === "comment_reply" && !prefs.inAppComments)
+  if (channels && prefs[channels.email]) {
+    deliverNotificationEmail({
+      userId,
+      type,
+      title,
+      message,
+      spreadsheetId: opts?.spreadsheetId,
+      cellRef: opts?.cellRef,
+      fromUserName: opts?.fromUserName,
+      excerpt: opts?.excerpt,
+      role: opts?.role,
+    }).catch((err) =>
+      logger.error({ err, userId, type }, "Failed to email notification"),
+    );
+  }
+
+  if (channels && !prefs[channels.inApp])
     return null as unknown as NotificationItem;
 
   const notif = await prisma.notification.create({
@@ -170,30 +230,14 @@ export async function createNotification(
 export async function getPreferences(
   userId: string,
   spreadsheetId: string | null,
-): Promise<
-  PreferenceData & {
-    emailSharing: boolean;
-    emailComments: boolean;
-    emailMentions: boolean;
-    inAppSharing: boolean;
-    inAppComments: boolean;
-    inAppMentions: boolean;
-  }
-> {
+): Promise<Preferences> {
   // Try spreadsheet-specific prefs first
   if (spreadsheetId) {
     const specific = await prisma.notificationPreference.findUnique({
       where: { userId_spreadsheetId: { userId, spreadsheetId } },
     });
     if (specific) {
-      return {
-        emailSharing: specific.emailSharing,
-        emailComments: specific.emailComments,
-        emailMentions: specific.emailMentions,
-        inAppSharing: specific.inAppSharing,
-        inAppComments: specific.inAppComments,
-        inAppMentions: specific.inAppMentions,
-      };
+      return toPreferences(specific);
     }
   }
 
@@ -203,14 +247,7 @@ export async function getPreferences(
   });
 
   if (global) {
-    return {
-      emailSharing: global.emailSharing,
-      emailComments: global.emailComments,
-      emailMentions: global.emailMentions,
-      inAppSharing: global.inAppSharing,
-      inAppComments: global.inAppComments,
-      inAppMentions: global.inAppMentions,
-    };
+    return toPreferences(global);
   }
 
   // Default prefs
@@ -221,6 +258,7 @@ export async function getPreferences(
     inAppSharing: true,
     inAppComments: true,
     inAppMentions: true,
+    emailDigest: "off",
   };
 }
 
@@ -229,7 +267,7 @@ export async function updatePreferences(
   userId: string,
   spreadsheetId: string | null,
   prefs: PreferenceData,
-): Promise<PreferenceData> {
+): Promise<Preferences> {
   const result = await prisma.notificationPreference.upsert({
     where: {
       userId_spreadsheetId: {
@@ -248,18 +286,12 @@ export async function updatePreferences(
         inAppSharing: prefs.inAppSharing ?? true,
         inAppComments: prefs.inAppComments ?? true,
         inAppMentions: prefs.inAppMentions ?? true,
+        emailDigest: prefs.emailDigest ?? "off",
       },
     },
   });
 
-  return {
-    emailSharing: result.emailSharing,
-    emailComments: result.emailComments,
-    emailMentions: result.emailMentions,
-    inAppSharing: result.inAppSharing,
-    inAppComments: result.inAppComments,
-    inAppMentions: result.inAppMentions,
-  };
+  return toPreferences(result);
 }
 
 /** Notify mentioned users in a comment */
@@ -290,13 +322,17 @@ export async function notifyMentionedUsers(
           fromUserId: actorId,
           fromUserName: actorName,
           fromUserEmail: actorEmail,
+          excerpt: commentText,
         },
       );
     }
   }
 }
 
-/** Notify comment thread participants about a reply */
+/**
+ * Notify comment thread participants about a reply. `excludeUserIds` skips
+ * participants already notified another way, e.g. mentioned in the reply.
+ */
 export async function notifyReply(
   commentId: string,
   actorId: string,
@@ -305,6 +341,7 @@ export async function notifyReply(
   spreadsheetId: string,
   cellRef: string,
   replyText: string,
+  excludeUserIds: string[] = [],
 ): Promise<void> {
   const comment = await prisma.comment.findUnique({
     where: { id: commentId },
@@ -325,6 +362,9 @@ export async function notifyReply(
 
   // Don't notify the actor themselves
   participantIds.delete(actorId);
+  for (const id of excludeUserIds) {
+    participantIds.delete(id);
+  }
 
   for (const userId of participantIds) {
     await createNotification(
@@ -338,7 +378,44 @@ export async function notifyReply(
         fromUserId: actorId,
         fromUserName: actorName,
         fromUserEmail: actorEmail,
+        excerpt: replyText,
       },
     );
   }
 }
+
+/** Notify a user that a spreadsheet was shared with them */
+export async function notifyShared(
+  userId: string,
+  actorId: string,
+  spreadsheetId: string,
+  role: string,
+): Promise<void> {
+  const [actor, spreadsheet] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: actorId },
+      select: { name: true, email: true },
+    }),
+    prisma.spreadsheet.findUnique({
+      where: { id: spreadsheetId },
+      select: { title: true },
+    }),
+  ]);
+
+  if (!actor || !spreadsheet) return;
+
+  const actorName = actor.name ?? actor.email;
+  await createNotification(
+    userId,
+    "share",
+    "A spreadsheet was shared with you",
+    `${actorName} shared "${spreadsheet.title}" with you as ${role}`,
+    {
+      spreadsheetId,
+      fromUserId: actorId,
+      fromUserName: actorName,
+      fromUserEmail: actor.email,
+      role,
+    },
+  );
+}
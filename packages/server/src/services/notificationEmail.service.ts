@@ -0,0 +1,229 @@
+/**
+ * Notification emails — sends share, mention and reply notifications by
+ * email, or holds them for a per-user hourly/daily digest.
+ */
+import prisma from "../models/prisma";
+import { env } from "../config/env";
+import logger from "../utils/logger";
+import { sendEmail } from "./email.service";
+import {
+  digestEmail,
+  mentionEmail,
+  replyEmail,
+  shareInviteEmail,
+  type RenderedEmail,
+} from "./emailTemplates";
+
+export const EMAIL_DIGEST_MODES = ["off", "hourly", "daily"] as const;
+export type EmailDigestMode = (typeof EMAIL_DIGEST_MODES)[number];
+
+const DIGEST_INTERVAL_MS: Record<EmailDigestMode, number> = {
+  off: 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+export interface NotificationEmail {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  spreadsheetId?: string;
+  cellRef?: string;
+  fromUserName?: string;
+  /** Comment or reply text quoted in mention and reply emails */
+  excerpt?: string;
+  /** Role granted, for share emails */
+  role?: string;
+}
+
+function spreadsheetUrl(spreadsheetId?: string): string {
+  return spreadsheetId
+    ? `${env.CLIENT_URL}/spreadsheet/${spreadsheetId}`
+    : `${env.CLIENT_URL}/dashboard`;
+}
+
+function asDigestMode(value: string | undefined): EmailDigestMode {
+  return EMAIL_DIGEST_MODES.includes(value as EmailDigestMode)
+    ? (value as EmailDigestMode)
+    : "off";
+}
+
+function renderNotification(
+  notification: NotificationEmail,
+  spreadsheetTitle: string,
+  url: string,
+): RenderedEmail | null {
+  const actorName = notification.fromUserName ?? "Someone";
+  const cellRef = notification.cellRef ?? "a cell";
+  const excerpt = notification.excerpt ?? notification.message;
+
+  switch (notification.type) {
+    case "share":
+      return shareInviteEmail({
+        actorName,
+        spreadsheetTitle,
+        role: notification.role ?? "a collaborator",
+        url,
+      });
+    case "mention":
+      return mentionEmail({
+        actorName,
+        spreadsheetTitle,
+        cellRef,
+        excerpt,
+        url,
+      });
+    case "comment_reply":
+      return replyEmail({ actorName, spreadsheetTitle, cellRef, excerpt, url });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Email a notification now, or queue it for the user's next digest when
+ * their global preferences ask for one
+ */
+export async function deliverNotificationEmail(
+  notification: NotificationEmail,
+): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: notification.userId },
+    select: {
+      email: true,
+      notificationPrefs: {
+        where: { spreadsheetId: null },
+        select: { emailDigest: true },
+      },
+    },
+  });
+  if (!user) return;
+
+  const url = spreadsheetUrl(notification.spreadsheetId);
+  const digest = asDigestMode(user.notificationPrefs?.[0]?.emailDigest);
+
+  if (digest !== "off") {
+    await prisma.emailDigestItem.create({
+      data: {
+        userId: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        url,
+      },
+    });
+    return;
+  }
+
+  const spreadsheet = notification.spreadsheetId
+    ? await prisma.spreadsheet.findUnique({
+        where: { id: notification.spreadsheetId },
+        select: { title: true },
+      })
+    : null;
+
+  const rendered = renderNotification(
+    notification,
+    spreadsheet?.title ?? "a spreadsheet",
+    url,
+  );
+  if (!rendered) return;
+
+  await sendEmail({ to: user.email, ...rendered });
+}
+
+/**
+ * Send a digest to every user whose pending items are due. Users who have
+ * since turned digests off get theirs on the next run.
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<number> {
+  const pending: Array<{ userId: string }> =
+    await prisma.emailDigestItem.findMany({
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+
+  let sent = 0;
+  for (const { userId } of pending) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        name: true,
+        notificationPrefs: {
+          where: { spreadsheetId: null },
+          select: { emailDigest: true, lastDigestAt: true },
+        },
+      },
+    });
+    if (!user) continue;
+
+    const items: Array<{
+      id: string;
+      title: string;
+      message: string;
+      url: string | null;
+      createdAt: Date;
+    }> = await prisma.emailDigestItem.findMany({
+      where: { userId, createdAt: { lte: now } },
+      orderBy: { createdAt: "asc" },
+    });
+    if (items.length === 0) continue;
+
+    // The first digest goes out one interval after its oldest item
+    const prefs = user.notificationPrefs?.[0];
+    const interval = DIGEST_INTERVAL_MS[asDigestMode(prefs?.emailDigest)];
+    const since: Date = prefs?.lastDigestAt ?? items[0].createdAt;
+    if (now.getTime() - since.getTime() < interval) continue;
+
+    try {
+      await sendEmail({
+        to: user.email,
+        ...digestEmail({
+          name: user.name,
+          entries: items,
+          settingsUrl: `${env.CLIENT_URL}/profile`,
+        }),
+      });
+    } catch (err) {
+      // Keep the items so the next run retries
+      logger.error({ err, userId }, "Failed to send email digest");
+      continue;
+    }
+
+    await prisma.emailDigestItem.deleteMany({
+      where: { id: { in: items.map((item) => item.id) } },
+    });
+    await prisma.notificationPreference.updateMany({
+      where: { userId, spreadsheetId: null },
+      data: { lastDigestAt: now },
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+let digestTimer: ReturnType<typeof setInterval> | null = null;
+let digestRunning = false;
+
+/** Check for due digests every `intervalMs` until stopDigestWorker */
+export function startDigestWorker(intervalMs = 5 * 60 * 1000): void {
+  if (digestTimer) return;
+  digestTimer = setInterval(() => {
+    if (digestRunning) return;
+    digestRunning = true;
+    sendDueDigests()
+      .catch((err) => logger.error({ err }, "Email digest worker failed"))
+      .finally(() => {
+        digestRunning = false;
+      });
+  }, intervalMs);
+  digestTimer.unref();
+}
+
+export function stopDigestWorker(): void {
+  if (digestTimer) clearInterval(digestTimer);
+  digestTimer = null;
+}
@@ -0,0 +1,368 @@
+/**
+ * Protection service — protected ranges and protected sheets.
+ *
+ * The spreadsheet's owners (its owner, and team owners and admins) manage
+ * protections and can always edit. Anyone else needs to be on a
+ * protection's editor list to change its cells; otherwise every cell write
+ * path (auto-save, the public API and websocket cell updates) rejects the
+ * write with a 403 naming the protected area.
+ */
+import prisma from "../models/prisma";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+} from "../utils/AppError";
+import logger from "../utils/logger";
+import { effectiveRole, spreadsheetAccessSelect } from "./access.service";
+import type { SpreadsheetRole } from "./access.service";
+import { cellKeyPosition, toA1 } from "./recalc.service";
+
+/** Inclusive zero-based cell bounds of a protected range */
+export interface ProtectionBounds {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+export interface ProtectionEditor {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface ProtectionInfo {
+  id: string;
+  sheetId: string;
+  /** Null for a protected sheet */
+  range: ProtectionBounds | null;
+  description: string | null;
+  editors: ProtectionEditor[];
+  /** Whether the requesting user may edit the protected cells */
+  canEdit: boolean;
+}
+
+export interface ProtectionList {
+  /** Whether the user may add, change and remove protections */
+  canManage: boolean;
+  protections: ProtectionInfo[];
+}
+
+export interface ProtectionInput {
+  sheetId: string;
+  /** Null or omitted protects the whole sheet */
+  range?: ProtectionBounds | null;
+  description?: string | null;
+  /** People allowed to edit besides the owners */
+  editorEmails?: string[];
+}
+
+/** The columns of a protection the write checks need */
+interface ProtectionRow {
+  id: string;
+  sheetId: string;
+  startRow: number | null;
+  startCol: number | null;
+  endRow: number | null;
+  endCol: number | null;
+  description: string | null;
+  editorIds: string[];
+}
+
+const protectionSelect = {
+  id: true,
+  sheetId: true,
+  startRow: true,
+  startCol: true,
+  endRow: true,
+  endCol: true,
+  description: true,
+  editorIds: true,
+};
+
+/** The user's role on the spreadsheet; 404 when it does not exist */
+async function getRole(
+  spreadsheetId: string,
+  userId: string,
+): Promise<SpreadsheetRole | null> {
+  const spreadsheet = await prisma.spreadsheet.findUnique({
+    where: { id: spreadsheetId },
+    select: spreadsheetAccessSelect(userId),
+  });
+  if (!spreadsheet) throw new NotFoundError("Spreadsheet not found");
+  return effectiveRole(spreadsheet, userId);
+}
+
+async function requireOwner(
+  spreadsheetId: string,
+  userId: string,
+): Promise<void> {
+  if ((await getRole(spreadsheetId, userId)) !== "owner") {
+    throw new ForbiddenError("Only the owner can manage protected ranges");
+  }
+}
+
+function boundsOf(row: ProtectionRow): ProtectionBounds | null {
+  if (
+    row.startRow === null ||
+    row.startCol === null ||
+    row.endRow === null ||
+    row.endCol === null
+  ) {
+    return null;
+  }
+  return {
+    startRow: row.startRow,
+    startCol: row.startCol,
+    endRow: row.endRow,
+    endCol: row.endCol,
+  };
+}
+
+/** Whether a protection covers a cell key; protected sheets cover every key */
+function covers(row: ProtectionRow, key: string): boolean {
+  const bounds = boundsOf(row);
+  if (!bounds) return true;
+  const pos = cellKeyPosition(key.toUpperCase());
+  if (!pos) return false;
+  return (
+    pos.row >= bounds.startRow &&
+    pos.row <= bounds.endRow &&
+    pos.col >= bounds.startCol &&
+    pos.col <= bounds.endCol
+  );
+}
+
+/** "B2:D9" for a range, "B2" for a single cell */
+function rangeLabel(bounds: ProtectionBounds): string {
+  const start = toA1(`${bounds.startRow},${bounds.startCol}`);
+  const end = toA1(`${bounds.endRow},${bounds.endCol}`);
+  return start === end ? start : `${start}:${end}`;
+}
+
+/** The message an editor sees when a write hits a protection */
+function rejectionMessage(row: ProtectionRow, key: string): string {
+  const bounds = boundsOf(row);
+  const what = bounds
+    ? `Cell ${toA1(key)} is in protected range ${rangeLabel(bounds)}`
+    : `Cell ${toA1(key)} is on a protected sheet`;
+  const why = row.description ? ` (${row.description})` : "";
+  return `${what}${why}. Ask the owner for edit access`;
+}
+
+/** Sort bounds and check they are on the grid */
+function normalizeBounds(bounds: ProtectionBounds): ProtectionBounds {
+  const normalized = {
+    startRow: Math.min(bounds.startRow, bounds.endRow),
+    startCol: Math.min(bounds.startCol, bounds.endCol),
+    endRow: Math.max(bounds.startRow, bounds.endRow),
+    endCol: Math.max(bounds.startCol, bounds.endCol),
+  };
+  if (normalized.startRow < 0 || normalized.startCol < 0) {
+    throw new ValidationError("Protected range is outside the sheet");
+  }
+  return normalized;
+}
+
+/** Resolve editor emails to user ids; every email must belong to a user */
+async function resolveEditors(emails: string[]): Promise<string[]> {
+  const unique = [...new Set(emails.map((e) => e.trim().toLowerCase()))];
+  if (unique.length === 0) return [];
+
+  const users: Array<{ id: string; email: string }> =
+    await prisma.user.findMany({
+      where: { email: { in: unique } },
+      select: { id: true, email: true },
+    });
+
+  const found = new Set(users.map((u) => u.email.toLowerCase()));
+  const missing = unique.filter((e) => !found.has(e));
+  if (missing.length > 0) {
+    throw new NotFoundError(`No user with email ${missing.join(", ")}`);
+  }
+  return users.map((u) => u.id);
+}
+
+async function toInfo(
+  rows: ProtectionRow[],
+  userId: string,
+  role: SpreadsheetRole | null,
+): Promise<ProtectionInfo[]> {
+  const editorIds = [...new Set(rows.flatMap((r) => r.editorIds))];
+  const users: ProtectionEditor[] =
+    editorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: editorIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+  const byId = new Map(users.map((u) => [u.id, u]));
+
+  return rows.map((row) => ({
+    id: row.id,
+    sheetId: row.sheetId,
+    range: boundsOf(row),
+    description: row.description,
+    editors: row.editorIds
+      .map((id) => byId.get(id))
+      .filter((u): u is ProtectionEditor => !!u),
+    canEdit: role === "owner" || row.editorIds.includes(userId),
+  }));
+}
+
+/** Protections of every sheet, with whether the user may edit each */
+export async function listProtections(
+  spreadsheetId: string,
+  userId: string,
+): Promise<ProtectionList> {
+  const role = await getRole(spreadsheetId, userId);
+  if (!role) {
+    throw new ForbiddenError("You do not have access to this spreadsheet");
+  }
+
+  const rows: ProtectionRow[] = await prisma.protectedRange.findMany({
+    where: { spreadsheetId },
+    select: protectionSelect,
+    orderBy: { createdAt: "asc" },
+  });
+
+  return {
+    canManage: role === "owner",
+    protections: await toInfo(rows, userId, role),
+  };
+}
+
+export async function createProtection(
+  spreadsheetId: string,
+  userId: string,
+  input: ProtectionInput,
+): Promise<ProtectionInfo> {
+  await requireOwner(spreadsheetId, userId);
+
+  const sheet = await prisma.sheet.findFirst({
+    where: { id: input.sheetId, spreadsheetId },
+    select: { id: true },
+  });
+  if (!sheet) throw new NotFoundError("Sheet not found");
+
+  const bounds = input.range ? normalizeBounds(input.range) : null;
+  const editorIds = await resolveEditors(input.editorEmails ?? []);
+
+  const row: ProtectionRow = await prisma.protectedRange.create({
+    data: {
+      spreadsheetId,
+      sheetId: input.sheetId,
+      startRow: bounds?.startRow ?? null,
+      startCol: bounds?.startCol ?? null,
+      endRow: bounds?.endRow ?? null,
+      endCol: bounds?.endCol ?? null,
+      description: input.description?.trim() || null,
+      editorIds,
+    },
+    select: protectionSelect,
+  });
+
+  logger.info(
+    { userId, spreadsheetId, sheetId: input.sheetId, protectionId: row.id },
+    "Protection created",
+  );
+
+  const [info] = await toInfo([row], userId, "owner");
+  return info;
+}
+
+export async function updateProtection(
+  spreadsheetId: string,
+  protectionId: string,
+  userId: string,
+  input: Omit<ProtectionInput, "sheetId">,
+): Promise<ProtectionInfo> {
+  await requireOwner(spreadsheetId, userId);
+
+  const existing = await prisma.protectedRange.findFirst({
+    where: { id: protectionId, spreadsheetId },
+    select: { id: true },
+  });
+  if (!existing) throw new NotFoundError("Protected range not found");
+
+  const data: Record<string, unknown> = {};
+  if (input.range !== undefined) {
+    const bounds = input.range ? normalizeBounds(input.range) : null;
+    data.startRow = bounds?.startRow ?? null;
+    data.startCol = bounds?.startCol ?? null;
+    data.endRow = bounds?.endRow ?? null;
+    data.endCol = bounds?.endCol ?? null;
+  }
+  if (input.description !== undefined) {
+    data.description = input.description?.trim() || null;
+  }
+  if (input.editorEmails !== undefined) {
+    data.editorIds = await resolveEditors(input.editorEmails);
+  }
+
+  const row: ProtectionRow = await prisma.protectedRange.update({
+    where: { id: protectionId },
+    data,
+    select: protectionSelect,
+  });
+
+  const [info] = await toInfo([row], userId, "owner");
+  return info;
+}
+
+export async function deleteProtection(
+  spreadsheetId: string,
+  protectionId: string,
+  userId: string,
+): Promise<void> {
+  await requireOwner(spreadsheetId, userId);
+
+  const { count } = await prisma.protectedRange.deleteMany({
+    where: { id: protectionId, spreadsheetId },
+  });
+  if (count === 0) throw new NotFoundError("Protected range not found");
+
+  logger.info({ userId, spreadsheetId, protectionId }, "Protection removed");
+}
+
+/**
+ * Load the sheet's protections once and return a check for cell keys
+ * ("row,col" or A1) that throws on the first one the user may not edit.
+ * Owners get a no-op check without a query.
+ */
+export async function cellWriteGuard(
+  spreadsheetId: string,
+  sheetId: string,
+  userId: string,
+  role: SpreadsheetRole | null,
+): Promise<(cellKeys: string[]) => void> {
+  if (role === "owner") return () => {};
+
+  const rows: ProtectionRow[] = await prisma.protectedRange.findMany({
+    where: { spreadsheetId, sheetId },
+    select: protectionSelect,
+  });
+  const blocking = rows.filter((r) => !r.editorIds.includes(userId));
+
+  return (cellKeys) => {
+    if (blocking.length === 0) return;
+    for (const key of cellKeys) {
+      const hit = blocking.find((r) => covers(r, key));
+      if (hit) throw new ForbiddenError(rejectionMessage(hit, key));
+    }
+  };
+}
+
+/** Throw if any of the cells is protected against the user */
+export async function assertCellsEditable(
+  spreadsheetId: string,
+  sheetId: string,
+  userId: string,
+  role: SpreadsheetRole | null,
+  cellKeys: string[],
+): Promise<void> {
+  if (cellKeys.length === 0) return;
+  const check = await cellWriteGuard(spreadsheetId, sheetId, userId, role);
+  check(cellKeys);
+}
@@ -0,0 +1,376 @@
+/**
+ * Recalc service — evaluates formula cells with the shared formula engine
+ * so cells written outside the client (public API) carry computed values
+ * for every reader: cell reads, exports and webhook payloads.
+ *
+ * Cell data may be keyed by "row,col" (written by the client, 0-based) or
+ * by A1 reference (written by the public API); both resolve to the same
+ * grid position. Formula references to other sheets use the sheet name.
+ */
+import {
+  parseFormula,
+  bindStructuredReferences,
+  hasStructuredReferences,
+  evaluate,
+  resetLambdaRegistry,
+  colIndexToLetter,
+  parseCellId,
+  spillResult,
+  iterateCalculation,
+  normalizeCalcSettings,
+  DEFAULT_CALC_SETTINGS,
+} from "@gridspace/formula";
+import type {
+  FormulaValue,
+  CellValueGetter,
+  CalcSettings,
+  TableDefinition,
+} from "@gridspace/formula";
+import prisma from "../models/prisma";
+import { AppError } from "../utils/AppError";
+import logger from "../utils/logger";
+import { writeCells } from "./sheet.service";
+import type { CellPatch } from "./sheet.service";
+
+export interface StoredCell {
+  value?: unknown;
+  formula?: string;
+  [field: string]: unknown;
+}
+
+export interface RecalcSheet {
+  id: string;
+  name: string;
+  cellData: Record<string, StoredCell>;
+}
+
+export interface RecalcChange {
+  sheetId: string;
+  /** Key of the cell inside the sheet's cellData */
+  cell: string;
+  value: FormulaValue;
+}
+
+/** Grid position of a cellData key, or null for unrecognised keys */
+export function cellKeyPosition(
+  key: string,
+): { row: number; col: number } | null {
+  const rowCol = key.match(/^(\d+),(\d+)$/);
+  if (rowCol) return { row: Number(rowCol[1]), col: Number(rowCol[2]) };
+  if (!/^[A-Z]+\d+$/.test(key)) return null;
+  const { row, col } = parseCellId(key);
+  return row >= 0 ? { row, col } : null;
+}
+
+/** A1 reference for a cellData key, for API responses and webhooks */
+export function toA1(key: string): string {
+  const pos = cellKeyPosition(key);
+  return pos ? `${colIndexToLetter(pos.col)}${pos.row + 1}` : key;
+}
+
+/**
+ * Key an A1 reference should be written under: an existing key for the same
+ * position wins so API writes land on cells the client already created.
+ */
+export function resolveCellKey(
+  cellData: Record<string, unknown>,
+  ref: string,
+): string {
+  const a1 = ref.toUpperCase();
+  if (a1 in cellData) return a1;
+  const pos = cellKeyPosition(a1);
+  if (pos && `${pos.row},${pos.col}` in cellData) {
+    return `${pos.row},${pos.col}`;
+  }
+  return a1;
+}
+
+/** Plain value of a cell as the formula engine sees it */
+function toFormulaValue(value: unknown): FormulaValue {
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (value === null || value === undefined || value === "") return null;
+  const str = String(value);
+  const num = Number(str);
+  return isNaN(num) ? str : num;
+}
+
+function isFormula(cell: StoredCell | undefined): cell is StoredCell & {
+  formula: string;
+} {
+  return typeof cell?.formula === "string" && cell.formula.startsWith("=");
+}
+
+/**
+ * Collect named LAMBDA functions from a spreadsheet's stored named ranges.
+ * Entries that carry a `formula` instead of a `sheetId` are functions.
+ */
+export function namedFunctionsFrom(
+  namedRanges: unknown,
+): Record<string, string> {
+  const functions: Record<string, string> = {};
+  if (!Array.isArray(namedRanges)) return functions;
+  for (const entry of namedRanges) {
+    if (typeof entry?.name === "string" && typeof entry.formula === "string") {
+      functions[entry.name.toUpperCase()] = entry.formula;
+    }
+  }
+  return functions;
+}
+
+/**
+ * Collect table definitions for structured references from each sheet's
+ * stored objects. Tables are placed by sheet name, as formulas see them.
+ */
+export function tableDefinitionsFrom(
+  sheets: Array<{ name: string; objects?: unknown }>,
+): TableDefinition[] {
+  const tables: TableDefinition[] = [];
+  for (const sheet of sheets) {
+    const stored = (sheet.objects as { tables?: unknown } | null)?.tables;
+    if (!Array.isArray(stored)) continue;
+    for (const table of stored) {
+      if (typeof table?.name !== "string" || !Array.isArray(table.columns)) {
+        continue;
+      }
+      tables.push({
+        name: table.name,
+        sheet: sheet.name,
+        startRow: Number(table.startRow),
+        startCol: Number(table.startCol),
+        endRow: Number(table.endRow),
+        endCol: Number(table.endCol),
+        columns: table.columns.map(String),
+        hasHeaderRow: true,
+        hasTotalsRow: !!table.showTotalsRow,
+      });
+    }
+  }
+  return tables;
+}
+
+/**
+ * Evaluate every formula cell across the given sheets and return the cells
+ * whose computed value differs from the stored one. Circular references
+ * evaluate to #REF!, matching the client, unless `settings` turns on
+ * iterative calculation. `namedFunctions` maps upper-case names to their
+ * formulas so named LAMBDAs can be called; `tables` resolves structured
+ * references such as `Table1[Amount]`.
+ */
+export function recalculateSheets(
+  sheets: RecalcSheet[],
+  namedFunctions: Record<string, string> = {},
+  settings: CalcSettings = DEFAULT_CALC_SETTINGS,
+  tables: TableDefinition[] = [],
+): RecalcChange[] {
+  const byName = new Map<string, RecalcSheet>();
+  const grids = new Map<string, Map<string, string>>();
+  for (const sheet of sheets) {
+    byName.set(sheet.name.toLowerCase(), sheet);
+    const grid = new Map<string, string>();
+    for (const key of Object.keys(sheet.cellData)) {
+      const pos = cellKeyPosition(key);
+      if (pos) grid.set(`${pos.row},${pos.col}`, key);
+    }
+    grids.set(sheet.id, grid);
+  }
+
+  const computed = new Map<string, FormulaValue>();
+  const inProgress = new Set<string>();
+  let depth = 0;
+  // With iterative calculation, a reference back into a cell being
+  // evaluated reads its value from the previous pass
+  let previous = new Map<string, FormulaValue>();
+  let circular = false;
+
+  const evaluateCell = (sheet: RecalcSheet, key: string): FormulaValue => {
+    const id = `${sheet.id}\u0000${key}`;
+    const cached = computed.get(id);
+    if (cached !== undefined) return cached;
+    if (inProgress.has(id)) {
+      circular = true;
+      if (!settings.iterative) return "#REF!";
+      return previous.get(id) ?? toFormulaValue(sheet.cellData[key].value);
+    }
+
+    const formula = sheet.cellData[key].formula as string;
+    inProgress.add(id);
+    // LAMBDA bindings belong to the outermost formula being evaluated
+    if (depth === 0) resetLambdaRegistry();
+    depth++;
+
+    let result: FormulaValue;
+    try {
+      let ast = parseFormula(formula.slice(1));
+      const pos = cellKeyPosition(key);
+      if (pos && hasStructuredReferences(ast)) {
+        ast = bindStructuredReferences(ast, tables, {
+          sheet: sheet.name,
+          ...pos,
+        });
+      }
+      result = evaluate(ast, getterFor(sheet));
+    } catch {
+      result = "#VALUE!";
+    } finally {
+      depth--;
+      inProgress.delete(id);
+    }
+
+    // Array results are stored by their top-left value, or #SPILL! when
+    // the area they would spill into is occupied (matching the client)
+    const pos = cellKeyPosition(key);
+    if (Array.isArray(result) && pos) {
+      const grid = grids.get(sheet.id);
+      result = spillResult(pos.row, pos.col, result, (row, col) => {
+        const other = grid?.get(`${row},${col}`);
+        const cell = other === undefined ? undefined : sheet.cellData[other];
+        return isFormula(cell) || toFormulaValue(cell?.value) !== null;
+      }).value;
+    }
+
+    computed.set(id, result);
+    return result;
+  };
+
+  const getterFor = (current: RecalcSheet): CellValueGetter => {
+    const getter: CellValueGetter = (sheetName, col, row) => {
+      const sheet =
+        sheetName === undefined ? current : byName.get(sheetName.toLowerCase());
+      if (!sheet) return "#REF!";
+      const key = grids.get(sheet.id)?.get(`${row},${col}`);
+      if (key === undefined) return null;
+      const cell = sheet.cellData[key];
+      return isFormula(cell)
+        ? evaluateCell(sheet, key)
+        : toFormulaValue(cell?.value);
+    };
+    getter.namedFormula = (name) => namedFunctions[name];
+    return getter;
+  };
+
+  const evaluateAll = () => {
+    for (const sheet of sheets) {
+      for (const [key, cell] of Object.entries(sheet.cellData)) {
+        if (isFormula(cell)) evaluateCell(sheet, key);
+      }
+    }
+  };
+
+  evaluateAll();
+  if (circular && settings.iterative) {
+    iterateCalculation(
+      new Map(computed),
+      (values) => {
+        previous = values;
+        computed.clear();
+        evaluateAll();
+        return new Map(computed);
+      },
+      settings,
+    );
+  }
+
+  const changes: RecalcChange[] = [];
+  for (const sheet of sheets) {
+    for (const [key, cell] of Object.entries(sheet.cellData)) {
+      if (!isFormula(cell)) continue;
+      const value = evaluateCell(sheet, key);
+      if (value !== cell.value) {
+        changes.push({ sheetId: sheet.id, cell: key, value });
+      }
+    }
+  }
+  return changes;
+}
+
+/** Attempts at storing values before giving up on concurrent saves */
+const MAX_STORE_ATTEMPTS = 3;
+
+/**
+ * Store recalculated values through the revisioned cell commit. The patch is
+ * built against the sheet as it is at commit time, so saves made since the
+ * recalculation read it are kept; cells whose formula changed meanwhile are
+ * left for the next recalculation.
+ */
+async function storeRecalculatedValues(
+  spreadsheetId: string,
+  sheetId: string,
+  changes: RecalcChange[],
+  evaluated: Record<string, StoredCell>,
+): Promise<void> {
+  const buildPatch = (current: Record<string, unknown>): CellPatch => {
+    const patch: CellPatch = { upserts: {}, deletes: [] };
+    for (const change of changes) {
+      const cell = current[change.cell] as StoredCell | undefined;
+      if (!cell || cell.formula !== evaluated[change.cell]?.formula) continue;
+      patch.upserts[change.cell] = { ...cell, value: change.value };
+    }
+    return patch;
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await writeCells(spreadsheetId, sheetId, buildPatch);
+      return;
+    } catch (err) {
+      // AppError pins its own prototype, so subclasses are told apart by status
+      const conflict = err instanceof AppError && err.statusCode === 409;
+      if (!conflict || attempt >= MAX_STORE_ATTEMPTS) {
+        throw err;
+      }
+    }
+  }
+}
+
+/**
+ * Recalculate a spreadsheet and store the changed values. Returns the cells
+ * whose values changed.
+ */
+export async function recalculateSpreadsheet(
+  spreadsheetId: string,
+): Promise<RecalcChange[]> {
+  const sheets = await prisma.sheet.findMany({
+    where: { spreadsheetId },
+    select: {
+      id: true,
+      name: true,
+      cellData: true,
+      objects: true,
+      spreadsheet: { select: { namedRanges: true, calcSettings: true } },
+    },
+  });
+
+  const recalcSheets: RecalcSheet[] = sheets.map((sheet) => ({
+    id: sheet.id,
+    name: sheet.name,
+    cellData: (sheet.cellData ?? {}) as Record<string, StoredCell>,
+  }));
+
+  const spreadsheet = sheets[0]?.spreadsheet;
+  const changes = recalculateSheets(
+    recalcSheets,
+    namedFunctionsFrom(spreadsheet?.namedRanges),
+    normalizeCalcSettings(spreadsheet?.calcSettings),
+    tableDefinitionsFrom(sheets),
+  );
+  if (changes.length === 0) return changes;
+
+  const changedSheets = new Set(changes.map((change) => change.sheetId));
+  await Promise.all(
+    [...changedSheets].map((sheetId) =>
+      storeRecalculatedValues(
+        spreadsheetId,
+        sheetId,
+        changes.filter((change) => change.sheetId === sheetId),
+        recalcSheets.find((sheet) => sheet.id === sheetId)!.cellData,
+      ),
+    ),
+  );
+
+  logger.info(
+    { spreadsheetId, sheets: changedSheets.size, cells: changes.length },
+    "Spreadsheet recalculated",
+  );
+
+  return changes;
+}
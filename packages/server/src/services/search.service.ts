@@ -0,0 +1,207 @@
+/**
+ * Search service — full-text search over everything the user can open:
+ * spreadsheet titles, sheet names, cell values and comments.
+ *
+ * Cell values and comment text are indexed by generated `search_vector`
+ * columns (Postgres full-text, 'simple' configuration so numbers and
+ * codes like "INV-4471" match as typed). Every query term matches as a
+ * prefix, and a hit needs all terms in the same cell, comment or name.
+ */
+import prisma from "../models/prisma";
+import { visibleToUser } from "./access.service";
+import { toA1 } from "./recalc.service";
+
+export const MAX_SEARCH_RESULTS = 50;
+
+/** Query terms beyond this are ignored */
+const MAX_TERMS = 8;
+
+/** Characters of context kept either side of the first match */
+const SNIPPET_CONTEXT = 50;
+
+export type SearchHitKind = "title" | "sheet" | "cell" | "comment";
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  spreadsheetId: string;
+  spreadsheetTitle: string;
+  /** Null for title hits */
+  sheetId: string | null;
+  sheetName: string | null;
+  /** A1 reference of the cell, for cell and comment hits */
+  cell: string | null;
+  commentId: string | null;
+  /** The matching text, trimmed to the neighbourhood of the match */
+  snippet: string;
+}
+
+interface CellRow {
+  spreadsheetId: string;
+  sheetId: string;
+  sheetName: string;
+  cellKey: string;
+  text: string;
+  rank: number;
+}
+
+interface SheetRow {
+  spreadsheetId: string;
+  sheetId: string;
+  sheetName: string;
+}
+
+interface CommentRow {
+  commentId: string;
+  spreadsheetId: string;
+  sheetId: string;
+  sheetName: string | null;
+  cellKey: string;
+  text: string;
+  rank: number;
+}
+
+/** Lower-cased words and numbers of the query */
+export function searchTerms(query: string): string[] {
+  return (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(
+    0,
+    MAX_TERMS,
+  );
+}
+
+/** tsquery text requiring every term, each as a prefix */
+export function toTsQuery(terms: string[]): string {
+  return terms.map((t) => `${t}:*`).join(" & ");
+}
+
+/** Text around the first term found, with ellipses where it was cut */
+export function snippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const at = Math.min(
+    ...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0),
+  );
+  if (!isFinite(at)) return text.slice(0, SNIPPET_CONTEXT * 2);
+
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, at + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${
+    end < text.length ? "…" : ""
+  }`;
+}
+
+/**
+ * Search the spreadsheets the user can open. Title and sheet-name hits come
+ * first, then cells and comments by relevance.
+ */
+export async function search(
+  userId: string,
+  query: string,
+  limit = 20,
+): Promise<SearchHit[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+  limit = Math.min(Math.max(1, limit), MAX_SEARCH_RESULTS);
+
+  const visible: Array<{ id: string; title: string }> =
+    await prisma.spreadsheet.findMany({
+      where: { deletedAt: null, OR: visibleToUser(userId) },
+      select: { id: true, title: true },
+    });
+  if (visible.length === 0) return [];
+
+  const titles = new Map(visible.map((s) => [s.id, s.title]));
+  const ids = [...titles.keys()];
+  const tsQuery = toTsQuery(terms);
+
+  const [sheets, cells, comments] = await Promise.all([
+    prisma.$queryRaw<SheetRow[]>`
+      SELECT "spreadsheet_id" AS "spreadsheetId", "id" AS "sheetId",
+             "name" AS "sheetName"
+      FROM "sheets"
+      WHERE "spreadsheet_id" = ANY(${ids})
+        AND to_tsvector('simple', "name") @@ to_tsquery('simple', ${tsQuery})
+      ORDER BY "name"
+      LIMIT ${limit}`,
+    prisma.$queryRaw<CellRow[]>`
+      SELECT s."spreadsheet_id" AS "spreadsheetId", s."id" AS "sheetId",
+             s."name" AS "sheetName", c."key" AS "cellKey",
+             c."value" ->> 'value' AS "text",
+             ts_rank(to_tsvector('simple', c."value" ->> 'value'), q."query") AS "rank"
+      FROM "sheets" s
+      CROSS JOIN to_tsquery('simple', ${tsQuery}) AS q("query")
+      CROSS JOIN LATERAL jsonb_each(s."cell_data") AS c
+      WHERE s."spreadsheet_id" = ANY(${ids})
+        AND s."search_vector" @@ q."query"
+        AND to_tsvector('simple', c."value" ->> 'value') @@ q."query"
+      ORDER BY "rank" DESC
+      LIMIT ${limit}`,
+    prisma.$queryRaw<CommentRow[]>`
+      SELECT c."id" AS "commentId", c."spreadsheet_id" AS "spreadsheetId",
+             c."sheet_id" AS "sheetId", s."name" AS "sheetName",
+             c."cell_key" AS "cellKey", c."text",
+             ts_rank(c."search_vector", q."query") AS "rank"
+      FROM "comments" c
+      CROSS JOIN to_tsquery('simple', ${tsQuery}) AS q("query")
+      LEFT JOIN "sheets" s ON s."id" = c."sheet_id"
+      WHERE c."spreadsheet_id" = ANY(${ids})
+        AND c."search_vector" @@ q."query"
+      ORDER BY "rank" DESC
+      LIMIT ${limit}`,
+  ]);
+
+  const hits: SearchHit[] = visible
+    .filter((s) => terms.every((t) => s.title.toLowerCase().includes(t)))
+    .map((s) => ({
+      kind: "title" as const,
+      spreadsheetId: s.id,
+      spreadsheetTitle: s.title,
+      sheetId: null,
+      sheetName: null,
+      cell: null,
+      commentId: null,
+      snippet: s.title,
+    }));
+
+  for (const row of sheets) {
+    hits.push({
+      kind: "sheet",
+      spreadsheetId: row.spreadsheetId,
+      spreadsheetTitle: titles.get(row.spreadsheetId) ?? "",
+      sheetId: row.sheetId,
+      sheetName: row.sheetName,
+      cell: null,
+      commentId: null,
+      snippet: row.sheetName,
+    });
+  }
+
+  const ranked = [
+    ...cells.map((row) => ({
+      rank: Number(row.rank),
+      hit: {
+        kind: "cell" as const,
+        spreadsheetId: row.spreadsheetId,
+        spreadsheetTitle: titles.get(row.spreadsheetId) ?? "",
+        sheetId: row.sheetId,
+        sheetName: row.sheetName,
+        cell: toA1(row.cellKey),
+        commentId: null,
+        snippet: snippet(row.text, terms),
+      },
+    })),
+    ...comments.map((row) => ({
+      rank: Number(row.rank),
+      hit: {
+        kind: "comment" as const,
+        spreadsheetId: row.spreadsheetId,
+        spreadsheetTitle: titles.get(row.spreadsheetId) ?? "",
+        sheetId: row.sheetId,
+        sheetName: row.sheetName,
+        cell: toA1(row.cellKey),
+        commentId: row.commentId,
+        snippet: snippet(row.text, terms),
+      },
+    })),
+  ].sort((a, b) => b.rank - a.rank);
+
+  return [...hits, ...ranked.map((r) => r.hit)].slice(0, limit);
+}
@@ -0,0 +1,272 @@
+/**
+ * Sign-in sessions — one per login on a device, listed and revocable from
+ * the profile. Refresh tokens carry the session ID and the session's
+ * current refresh token ID, which changes on every refresh. A refresh with
+ * an older token ID means the token was copied and replayed, so the whole
+ * session is revoked.
+ */
+import crypto from "crypto";
+import type { Request } from "express";
+import prisma from "../models/prisma";
+import { AppError, NotFoundError } from "../utils/AppError";
+import logger from "../utils/logger";
+
+export const REFRESH_TOKEN_EXPIRY = 604800; // 7 days in seconds
+
+// Tabs sharing a cookie can refresh at the same moment; the token they
+// all sent stays usable this long after it was rotated
+const ROTATION_GRACE_MS = 30_000;
+
+/** Where a sign-in came from */
+export interface SessionClient {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/** Session ID and refresh token ID to embed in a refresh token */
+export interface SessionToken {
+  id: string;
+  refreshTokenId: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  /** Browser and OS parsed from the user agent, e.g. "Chrome on macOS" */
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+export function sessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 512) ?? null,
+    ip: req.ip ?? null,
+  };
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent.split(/[\s/]/)[0];
+}
+
+function expiresAt(now: Date): Date {
+  return new Date(now.getTime() + REFRESH_TOKEN_EXPIRY * 1000);
+}
+
+/** Record a new sign-in; also drops the user's expired and revoked sessions */
+export async function createSession(
+  userId: string,
+  client: SessionClient,
+): Promise<SessionToken> {
+  const now = new Date();
+
+  await prisma.session.deleteMany({
+    where: {
+      userId,
+      OR: [{ expiresAt: { lt: now } }, { revokedAt: { not: null } }],
+    },
+  });
+
+  const refreshTokenId = crypto.randomUUID();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenId,
+      userAgent: client.userAgent,
+      ip: client.ip,
+      expiresAt: expiresAt(now),
+    },
+    select: { id: true },
+  });
+
+  return { id: session.id, refreshTokenId };
+}
+
+/**
+ * Exchange the session's current refresh token ID for a new one. Throws 401
+ * for revoked or expired sessions, and revokes the session when an already
+ * exchanged token ID comes back.
+ */
+export async function rotateSession(
+  sessionId: string,
+  userId: string,
+  presentedTokenId: string,
+  client: SessionClient,
+): Promise<string> {
+  const now = new Date();
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      refreshTokenId: true,
+      previousTokenId: true,
+      lastSeenAt: true,
+      revokedAt: true,
+      expiresAt: true,
+    },
+  });
+
+  if (
+    !session ||
+    session.userId !== userId ||
+    session.revokedAt ||
+    session.expiresAt <= now
+  ) {
+    throw new AppError(401, "Session revoked");
+  }
+
+  if (
+    presentedTokenId === session.previousTokenId &&
+    now.getTime() - session.lastSeenAt.getTime() < ROTATION_GRACE_MS
+  ) {
+    return session.refreshTokenId;
+  }
+
+  const refreshTokenId = crypto.randomUUID();
+  // Conditional on the presented ID so two refreshes can't both rotate
+  const result = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      refreshTokenId: presentedTokenId,
+      revokedAt: null,
+    },
+    data: {
+      refreshTokenId,
+      previousTokenId: presentedTokenId,
+      lastSeenAt: now,
+      expiresAt: expiresAt(now),
+      userAgent: client.userAgent,
+      ip: client.ip,
+    },
+  });
+
+  if (result.count === 0) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+    logger.warn(
+      { userId, sessionId },
+      "Refresh token reuse detected, session revoked",
+    );
+    throw new AppError(401, "Session revoked");
+  }
+
+  return refreshTokenId;
+}
+
+/**
+ * New refresh token ID for a session the caller already holds an access
+ * token for. Returns null if the session is gone.
+ */
+export async function renewSession(
+  sessionId: string,
+  userId: string,
+): Promise<string | null> {
+  const now = new Date();
+  const refreshTokenId = crypto.randomUUID();
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: {
+      refreshTokenId,
+      previousTokenId: null,
+      lastSeenAt: now,
+      expiresAt: expiresAt(now),
+    },
+  });
+  return result.count === 1 ? refreshTokenId : null;
+}
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+export async function listSessions(
+  userId: string,
+  currentSessionId?: string,
+): Promise<SessionInfo[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+    select: {
+      id: true,
+      userAgent: true,
+      ip: true,
+      createdAt: true,
+      lastSeenAt: true,
+    },
+  });
+
+  return sessions.map(
+    (session: Omit<SessionInfo, "device" | "current">): SessionInfo => ({
+      ...session,
+      device: describeUserAgent(session.userAgent),
+      current: session.id === currentSessionId,
+    }),
+  );
+}
+
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+): Promise<void> {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count === 0) {
+    throw new NotFoundError("Session not found");
+  }
+  logger.info({ userId, sessionId }, "Session revoked");
+}
+
+/** Revoke every session of the user except `keepSessionId` */
+export async function revokeOtherSessions(
+  userId: string,
+  keepSessionId?: string,
+): Promise<void> {
+  await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(keepSessionId ? { id: { not: keepSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/** Sign-out: end the session without reporting whether it existed */
+export async function endSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
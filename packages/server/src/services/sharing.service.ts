@@ -2,8 +2,15 @@ import crypto from "crypto";
 import prisma from "../models/prisma";
 import { NotFoundError, ForbiddenError, AppError } from "../utils/AppError";
 import logger from "../utils/logger";
+import { notifyShared } from "./notification.service";
+import {
+  effectiveRole,
+  roleAtLeast,
+  spreadsheetAccessSelect,
+} from "./access.service";
+import type { SpreadsheetRole } from "./access.service";
 
-type Role = "viewer" | "commenter" | "editor" | "owner";
+type Role = SpreadsheetRole;
 
 interface Collaborator {
   id: string;
@@ -40,15 +47,10 @@ async function requireEditor(
 ): Promise<void> {
   const ss = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
   if (!ss) throw new NotFoundError("Spreadsheet not found");
-  if (ss.ownerId === userId) return;
-  const role = ss.access[0]?.role;
-  if (role !== "editor" && role !== "owner") {
+  if (!roleAtLeast(effectiveRole(ss, userId), "editor")) {
     throw new ForbiddenError("You need editor access to manage sharing");
   }
 }
@@ -60,14 +62,10 @@ export async function checkUserRole(
 ): Promise<Role | null> {
   const ss = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
   if (!ss) return null;
-  if (ss.ownerId === userId) return "owner";
-  return (ss.access[0]?.role as Role) ?? null;
+  return effectiveRole(ss, userId);
 }
 
 /** List collaborators for a spreadsheet */
@@ -139,6 +137,10 @@ export async function addCollaborator(
     "Collaborator added",
   );
 
+  notifyShared(targetUser.id, actorId, spreadsheetId, role).catch((err) =>
+    logger.error({ err, spreadsheetId }, "Failed to send share notification"),
+  );
+
   return access;
 }
 
@@ -276,7 +278,7 @@ export async function accessViaShareLink(shareToken: string): Promise<{
   role: string;
 }> {
   const ss = await prisma.spreadsheet.findFirst({
-    where: { shareLink: shareToken },
+    where: { shareLink: shareToken, deletedAt: null },
     select: { id: true, shareLinkRole: true },
   });
 
@@ -384,7 +386,7 @@ export async function accessPublished(publishToken: string): Promise<{
   sheets: unknown[];
 }> {
   const ss = await prisma.spreadsheet.findFirst({
-    where: { publishedUrl: publishToken, isPublished: true },
+    where: { publishedUrl: publishToken, isPublished: true, deletedAt: null },
     select: {
       id: true,
       title: true,
@@ -1,41 +1,379 @@
+import type { Prisma } from "@prisma/client";
 import prisma from "../models/prisma";
-import { NotFoundError, ForbiddenError } from "../utils/AppError";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+} from "../utils/AppError";
 import logger from "../utils/logger";
+import { applyCellWrite } from "../websocket/yjsDocs";
+import { getIO } from "../websocket/socketServer";
+import { roomName } from "../websocket/handlers";
+import { WS_EVENTS } from "../websocket/types";
+import {
+  effectiveRole,
+  roleAtLeast,
+  spreadsheetAccessSelect,
+} from "./access.service";
+import type { SpreadsheetRole } from "./access.service";
+import { cellWriteGuard } from "./protection.service";
 
-/** Check user has at least editor access to the spreadsheet */
-async function checkEditorAccess(
+/**
+ * Sheet objects payload — everything on a sheet that is not cell data:
+ * conditional formats, merges, banding, charts, pivots, validation rules
+ * and tables. Protected ranges live in their own table (protection.service). `schemaVersion` lets the client migrate old payloads.
+ */
+export interface SheetObjects {
+  schemaVersion: number;
+  [key: string]: unknown;
+}
+
+/** Check user has at least viewer access to the spreadsheet */
+async function checkReadAccess(
   spreadsheetId: string,
   userId: string,
 ): Promise<void> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
   if (!spreadsheet) {
     throw new NotFoundError("Spreadsheet not found");
   }
 
-  if (spreadsheet.ownerId === userId) return;
+  if (!effectiveRole(spreadsheet, userId)) {
+    throw new ForbiddenError("You do not have access to this spreadsheet");
+  }
+}
+
+/** Check user has at least editor access to the spreadsheet; returns the role */
+async function checkEditorAccess(
+  spreadsheetId: string,
+  userId: string,
+): Promise<SpreadsheetRole> {
+  const spreadsheet = await prisma.spreadsheet.findUnique({
+    where: { id: spreadsheetId },
+    select: spreadsheetAccessSelect(userId),
+  });
+
+  if (!spreadsheet) {
+    throw new NotFoundError("Spreadsheet not found");
+  }
 
-  const access = spreadsheet.access[0];
-  if (!access || (access.role !== "editor" && access.role !== "owner")) {
+  const role = effectiveRole(spreadsheet, userId);
+  if (!role || !roleAtLeast(role, "editor")) {
     throw new ForbiddenError("You need editor access to modify sheets");
   }
+  return role;
+}
+
+/** A batch of cell changes, keyed by "row,col" */
+export interface CellPatch {
+  upserts: Record<string, unknown>;
+  deletes: string[];
+  /** Upserts carry only the fields they set; see mergeCellPatch */
+  merge?: boolean;
+}
+
+/** Sheet-level data that may be saved alongside a cell patch */
+export interface SheetExtras {
+  columnMeta?: unknown;
+  rowMeta?: unknown;
+  objects?: SheetObjects;
+}
+
+export interface CellSaveResult {
+  revision: number;
+  objectsVersion: number;
+  updatedAt: Date;
+  /** Cells written by others after the caller's base revision */
+  remote: CellPatch;
+}
+
+/** Diff two cell maps into the patch that turns `prev` into `next` */
+function diffCells(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+): CellPatch {
+  const patch: CellPatch = { upserts: {}, deletes: [] };
+  for (const [key, value] of Object.entries(next)) {
+    if (JSON.stringify(prev[key]) !== JSON.stringify(value)) {
+      patch.upserts[key] = value;
+    }
+  }
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) patch.deletes.push(key);
+  }
+  return patch;
+}
+
+/**
+ * Resolve a field-level patch against the stored cells. Each upsert's
+ * fields are laid over the stored cell and the rest (format, comment, ...)
+ * kept; a null field is removed, except `value`, and a cell left with only
+ * a null value is deleted.
+ */
+function mergeCellPatch(
+  current: Record<string, unknown>,
+  patch: CellPatch,
+): CellPatch {
+  const merged: CellPatch = { upserts: {}, deletes: [...patch.deletes] };
+  for (const [key, fields] of Object.entries(patch.upserts)) {
+    const cell: Record<string, unknown> = {
+      ...((current[key] as Record<string, unknown> | undefined) ?? {}),
+      ...((fields as Record<string, unknown> | null) ?? {}),
+    };
+    for (const [field, value] of Object.entries(cell)) {
+      if (value === null && field !== "value") delete cell[field];
+    }
+    cell.value ??= null;
+
+    if (Object.keys(cell).length === 1 && cell.value === null) {
+      if (key in current) merged.deletes.push(key);
+    } else {
+      merged.upserts[key] = cell;
+    }
+  }
+  return merged;
 }
 
-/** Auto-save: update sheet cell data */
+/**
+ * Apply a cell patch atomically and bump the sheet revision.
+ *
+ * With a `baseRevision` older than the current one the write is rebased:
+ * it goes through as long as none of its cells were touched since, and the
+ * cells others changed in the meantime are returned as `remote`. Writes that
+ * overlap someone else's changes are rejected with a 409. `checkCells` sees
+ * every touched key and throws to reject writes to protected cells.
+ */
+async function commitCells(
+  spreadsheetId: string,
+  sheetId: string,
+  buildPatch: (current: Record<string, unknown>) => CellPatch,
+  baseRevision: number | undefined,
+  extras: SheetExtras,
+  checkCells: (cellKeys: string[]) => void,
+): Promise<CellSaveResult> {
+  return prisma.$transaction(async (tx) => {
+    const sheet = await tx.sheet.findFirst({
+      where: { id: sheetId, spreadsheetId },
+      select: { cellData: true, cellRevisions: true, revision: true },
+    });
+
+    if (!sheet) {
+      throw new NotFoundError("Sheet not found");
+    }
+
+    if (baseRevision !== undefined && baseRevision > sheet.revision) {
+      throw new ConflictError(
+        "Sheet revision is newer than the server's. Reload and try again",
+      );
+    }
+
+    const cellData = { ...(sheet.cellData as Record<string, unknown>) };
+    const cellRevisions = {
+      ...(sheet.cellRevisions as Record<string, number>),
+    };
+    const patch = buildPatch(cellData);
+    const touched = [...Object.keys(patch.upserts), ...patch.deletes];
+    checkCells(touched);
+
+    const remote: CellPatch = { upserts: {}, deletes: [] };
+    if (baseRevision !== undefined && baseRevision < sheet.revision) {
+      const conflicts = touched.filter(
+        (key) => (cellRevisions[key] ?? 0) > baseRevision,
+      );
+      if (conflicts.length > 0) {
+        throw new ConflictError(
+          `${conflicts.length} cell(s) were changed by someone else. Reload and try again`,
+        );
+      }
+
+      for (const [key, rev] of Object.entries(cellRevisions)) {
+        if (rev <= baseRevision) continue;
+        if (key in cellData) remote.upserts[key] = cellData[key];
+        else remote.deletes.push(key);
+      }
+    }
+
+    const revision = sheet.revision + 1;
+    for (const [key, value] of Object.entries(patch.upserts)) {
+      cellData[key] = value;
+      cellRevisions[key] = revision;
+    }
+    for (const key of patch.deletes) {
+      if (!(key in cellData)) continue;
+      delete cellData[key];
+      cellRevisions[key] = revision;
+    }
+
+    const data: Record<string, unknown> = {
+      cellData,
+      cellRevisions,
+      revision,
+    };
+    if (extras.columnMeta !== undefined) data.columnMeta = extras.columnMeta;
+    if (extras.rowMeta !== undefined) data.rowMeta = extras.rowMeta;
+    if (extras.objects !== undefined) {
+      data.objects = extras.objects;
+      data.objectsVersion = { increment: 1 };
+    }
+
+    // Compare-and-swap on the revision read above
+    const { count } = await tx.sheet.updateMany({
+      where: { id: sheetId, revision: sheet.revision },
+      data,
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        "Sheet was saved by someone else at the same time. Try again",
+      );
+    }
+
+    const updated = await tx.sheet.findUnique({
+      where: { id: sheetId },
+      select: { objectsVersion: true, updatedAt: true },
+    });
+
+    if (!updated) {
+      throw new NotFoundError("Sheet not found");
+    }
+
+    // Also touch spreadsheet updatedAt
+    await tx.spreadsheet.update({
+      where: { id: spreadsheetId },
+      data: { updatedAt: new Date() },
+    });
+
+    return { revision, remote, ...updated };
+  });
+}
+
+/**
+ * Write cells worked out from the sheet's current data, for server-side
+ * writers such as the public API and recalculation. Goes through the same
+ * revisioned commit as auto-save, so clients get the cells back as
+ * `remote`, and reaches the co-editing document too. Access is the
+ * caller's to check; `checkCells` may reject cells.
+ */
+export async function writeCells(
+  spreadsheetId: string,
+  sheetId: string,
+  buildPatch: (current: Record<string, unknown>) => CellPatch,
+  checkCells: (cellKeys: string[]) => void = () => {},
+): Promise<CellSaveResult> {
+  let written: CellPatch = { upserts: {}, deletes: [] };
+  const result = await commitCells(
+    spreadsheetId,
+    sheetId,
+    (current) => (written = buildPatch(current)),
+    undefined,
+    {},
+    checkCells,
+  );
+
+  const update = await applyCellWrite(spreadsheetId, sheetId, written);
+  if (update) {
+    getIO()?.to(roomName(spreadsheetId)).emit(WS_EVENTS.YJS_UPDATE, update);
+  }
+  return result;
+}
+
+/** Auto-save: replace the sheet's cell data wholesale */
 export async function saveCellData(
   spreadsheetId: string,
   sheetId: string,
   userId: string,
-  cellData: unknown,
+  cellData: Record<string, unknown>,
   columnMeta?: unknown,
   rowMeta?: unknown,
-): Promise<{ updatedAt: Date }> {
+  objects?: SheetObjects,
+): Promise<CellSaveResult> {
+  const role = await checkEditorAccess(spreadsheetId, userId);
+  const checkCells = await cellWriteGuard(spreadsheetId, sheetId, userId, role);
+
+  const result = await commitCells(
+    spreadsheetId,
+    sheetId,
+    (current) => diffCells(current, cellData),
+    undefined,
+    { columnMeta, rowMeta, objects },
+    checkCells,
+  );
+
+  logger.info({ userId, spreadsheetId, sheetId }, "Sheet data saved");
+
+  return result;
+}
+
+/** Auto-save: apply a batch of cell upserts and deletes */
+export async function patchCellData(
+  spreadsheetId: string,
+  sheetId: string,
+  userId: string,
+  patch: CellPatch,
+  baseRevision?: number,
+  extras: SheetExtras = {},
+): Promise<CellSaveResult> {
+  const role = await checkEditorAccess(spreadsheetId, userId);
+  const checkCells = await cellWriteGuard(spreadsheetId, sheetId, userId, role);
+
+  const result = await commitCells(
+    spreadsheetId,
+    sheetId,
+    (current) => (patch.merge ? mergeCellPatch(current, patch) : patch),
+    baseRevision,
+    extras,
+    checkCells,
+  );
+
+  logger.info(
+    {
+      userId,
+      spreadsheetId,
+      sheetId,
+      revision: result.revision,
+      cells: Object.keys(patch.upserts).length + patch.deletes.length,
+    },
+    "Sheet cells patched",
+  );
+
+  return result;
+}
+
+/** Load the sheet objects payload and its revision */
+export async function getSheetObjects(
+  spreadsheetId: string,
+  sheetId: string,
+  userId: string,
+): Promise<{ objects: unknown; objectsVersion: number }> {
+  await checkReadAccess(spreadsheetId, userId);
+
+  const sheet = await prisma.sheet.findFirst({
+    where: { id: sheetId, spreadsheetId },
+    select: { objects: true, objectsVersion: true },
+  });
+
+  if (!sheet) {
+    throw new NotFoundError("Sheet not found");
+  }
+
+  return { objects: sheet.objects, objectsVersion: sheet.objectsVersion };
+}
+
+/**
+ * Replace the sheet objects payload. When `baseVersion` is given the write
+ * only succeeds if nobody else saved objects since that revision.
+ */
+export async function saveSheetObjects(
+  spreadsheetId: string,
+  sheetId: string,
+  userId: string,
+  objects: SheetObjects,
+  baseVersion?: number,
+): Promise<{ objectsVersion: number; updatedAt: Date }> {
   await checkEditorAccess(spreadsheetId, userId);
 
   const sheet = await prisma.sheet.findFirst({
@@ -47,23 +385,42 @@ export async function saveCellData(
     throw new NotFoundError("Sheet not found");
   }
 
-  const updateData: Record<string, unknown> = { cellData };
-  if (columnMeta !== undefined) updateData.columnMeta = columnMeta;
-  if (rowMeta !== undefined) updateData.rowMeta = rowMeta;
+  // Compare-and-swap on the revision so two concurrent saves cannot both win
+  const { count } = await prisma.sheet.updateMany({
+    where:
+      baseVersion === undefined
+        ? { id: sheetId }
+        : { id: sheetId, objectsVersion: baseVersion },
+    data: {
+      objects: objects as Prisma.InputJsonValue,
+      objectsVersion: { increment: 1 },
+    },
+  });
 
-  const updated = await prisma.sheet.update({
+  if (count === 0) {
+    throw new ConflictError(
+      "Sheet objects were changed by someone else. Reload and try again",
+    );
+  }
+
+  const updated = await prisma.sheet.findUnique({
     where: { id: sheetId },
-    data: updateData,
-    select: { updatedAt: true },
+    select: { objectsVersion: true, updatedAt: true },
   });
 
-  // Also touch spreadsheet updatedAt
+  if (!updated) {
+    throw new NotFoundError("Sheet not found");
+  }
+
   await prisma.spreadsheet.update({
     where: { id: spreadsheetId },
     data: { updatedAt: new Date() },
   });
 
-  logger.info({ userId, spreadsheetId, sheetId }, "Sheet data saved");
+  logger.info(
+    { userId, spreadsheetId, sheetId, objectsVersion: updated.objectsVersion },
+    "Sheet objects saved",
+  );
 
-  return { updatedAt: updated.updatedAt };
+  return updated;
 }
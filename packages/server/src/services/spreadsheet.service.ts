@@ -1,13 +1,32 @@
 import type { Prisma } from "@prisma/client";
 import prisma from "../models/prisma";
-import { NotFoundError, ForbiddenError } from "../utils/AppError";
+import { AppError, NotFoundError, ForbiddenError } from "../utils/AppError";
 import logger from "../utils/logger";
+import {
+  effectiveRole,
+  roleAtLeast,
+  spreadsheetAccessSelect,
+  visibleToUser,
+} from "./access.service";
+import { requireTeamRole } from "./team.service";
+import { requireFolder } from "./folder.service";
+import { requireTag, TAG_SELECT } from "./tag.service";
+import type { TagInfo } from "./tag.service";
+
+/** Days a trashed spreadsheet is kept before it is purged */
+export const TRASH_RETENTION_DAYS = 30;
 
 interface SpreadsheetSummary {
   id: string;
   title: string;
   isStarred: boolean;
   isTemplate: boolean;
+  teamId: string | null;
+  folderId: string | null;
+  /** The requesting user's own tags */
+  tags: TagInfo[];
+  /** Set while the spreadsheet is in the trash */
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   owner: { id: string; name: string | null; avatarUrl: string | null };
@@ -27,6 +46,9 @@ interface SheetDetail {
   frozenCols: number;
   filterState: unknown;
   sortState: unknown;
+  objects: unknown;
+  objectsVersion: number;
+  revision: number;
 }
 
 interface SpreadsheetDetail {
@@ -41,11 +63,20 @@ interface SpreadsheetDetail {
     email: string;
     avatarUrl: string | null;
   };
+  namedRanges: unknown;
+  calcSettings: unknown;
   sheets: SheetDetail[];
 }
 
 export interface ListOptions {
-  filter?: "all" | "owned" | "shared" | "starred";
+  /** "trash" lists the user's trashed spreadsheets; the rest exclude them */
+  filter?: "all" | "owned" | "shared" | "starred" | "team" | "trash";
+  /** Only spreadsheets owned by this team */
+  teamId?: string;
+  /** Only spreadsheets filed in this folder */
+  folderId?: string;
+  /** Only spreadsheets the user gave this tag */
+  tagId?: string;
   search?: string;
   sortBy?: "title" | "updatedAt" | "createdAt";
   sortDir?: "asc" | "desc";
@@ -67,6 +98,9 @@ const SHEET_SELECT = {
   frozenCols: true,
   filterState: true,
   sortState: true,
+  objects: true,
+  objectsVersion: true,
+  revision: true,
 } as const;
 
 const DETAIL_SELECT = {
@@ -78,6 +112,8 @@ const DETAIL_SELECT = {
   owner: {
     select: { id: true, name: true, email: true, avatarUrl: true },
   },
+  namedRanges: true,
+  calcSettings: true,
   sheets: { orderBy: { index: "asc" as const }, select: SHEET_SELECT },
 } as const;
 
@@ -89,32 +125,23 @@ async function checkAccess(
 ): Promise<string> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
-  if (!spreadsheet) {
+  if (!spreadsheet || spreadsheet.deletedAt) {
     throw new NotFoundError("Spreadsheet not found");
   }
 
-  if (spreadsheet.ownerId === userId) {
-    return "owner";
-  }
-
-  const access = spreadsheet.access[0];
-  if (!access) {
+  const role = effectiveRole(spreadsheet, userId);
+  if (!role) {
     throw new ForbiddenError("You do not have access to this spreadsheet");
   }
 
-  const role = access.role;
-
   if (minRole === "owner" && role !== "owner") {
     throw new ForbiddenError("Only the owner can perform this action");
   }
 
-  if (minRole === "editor" && role !== "editor" && role !== "owner") {
+  if (minRole === "editor" && !roleAtLeast(role, "editor")) {
     throw new ForbiddenError("You need editor access to perform this action");
   }
 
@@ -135,7 +162,7 @@ export async function listSpreadsheets(
     limit,
   } = options;
 
-  const where: Prisma.SpreadsheetWhereInput = {};
+  const where: Prisma.SpreadsheetWhereInput = { deletedAt: null };
 
   switch (filter) {
     case "owned":
@@ -146,16 +173,35 @@ export async function listSpreadsheets(
       where.NOT = { ownerId: userId };
       break;
     case "starred":
-      where.OR = [
-        { ownerId: userId, isStarred: true },
-        { access: { some: { userId } }, isStarred: true },
-      ];
+      where.isStarred = true;
+      where.OR = visibleToUser(userId);
+      break;
+    case "team":
+      where.teamId = { not: null };
+      where.OR = visibleToUser(userId);
+      break;
+    case "trash":
+      // Spreadsheets the user owns or trashed themselves (as a team admin)
+      where.deletedAt = { not: null };
+      where.OR = [{ ownerId: userId }, { deletedById: userId }];
       break;
     default:
-      where.OR = [{ ownerId: userId }, { access: { some: { userId } } }];
+      where.OR = visibleToUser(userId);
       break;
   }
 
+  if (options.teamId) {
+    where.teamId = options.teamId;
+  }
+
+  if (options.folderId) {
+    where.folderId = options.folderId;
+  }
+
+  if (options.tagId) {
+    where.tags = { some: { tagId: options.tagId, tag: { userId } } };
+  }
+
   if (search) {
     where.title = { contains: search, mode: "insensitive" };
   }
@@ -170,10 +216,17 @@ export async function listSpreadsheets(
         title: true,
         isStarred: true,
         isTemplate: true,
+        teamId: true,
+        folderId: true,
         createdAt: true,
         updatedAt: true,
         owner: { select: { id: true, name: true, avatarUrl: true } },
-        access: { where: { userId }, select: { role: true } },
+        tags: {
+          where: { tag: { userId } },
+          orderBy: { createdAt: "asc" },
+          select: { tag: { select: TAG_SELECT } },
+        },
+        ...spreadsheetAccessSelect(userId),
       },
       orderBy,
       skip,
@@ -187,10 +240,17 @@ export async function listSpreadsheets(
     title: s.title,
     isStarred: s.isStarred,
     isTemplate: s.isTemplate,
+    teamId: s.teamId ?? null,
+    folderId: s.folderId ?? null,
+    tags: (s.tags ?? []).map((t: { tag: TagInfo }) => t.tag),
+    deletedAt: s.deletedAt ?? null,
     createdAt: s.createdAt,
     updatedAt: s.updatedAt,
     owner: s.owner,
-    role: s.owner.id === userId ? "owner" : (s.access[0]?.role ?? "viewer"),
+    // Roles in the trash are what the user will have once it is restored
+    role:
+      effectiveRole({ ...s, ownerId: s.owner.id, deletedAt: null }, userId) ??
+      "viewer",
   }));
 
   return { spreadsheets: mapped, total };
@@ -215,16 +275,51 @@ export async function getSpreadsheet(
   return spreadsheet;
 }
 
+/**
+ * Where a spreadsheet is filed: a team or the owner's personal files, and
+ * optionally a folder there. A folder implies its own team.
+ */
+export interface SpreadsheetLocation {
+  teamId?: string | null;
+  folderId?: string | null;
+}
+
+/** Resolve a location, checking the user may add spreadsheets to it */
+async function resolveLocation(
+  userId: string,
+  location: SpreadsheetLocation,
+): Promise<{ teamId: string | null; folderId: string | null }> {
+  const folderId = location.folderId ?? null;
+  let teamId = location.teamId ?? null;
+
+  if (folderId) {
+    const folder = await requireFolder(folderId, userId, "edit");
+    if (location.teamId && folder.teamId !== location.teamId) {
+      throw new NotFoundError("Folder not found");
+    }
+    teamId = folder.teamId ?? null;
+  } else if (teamId) {
+    await requireTeamRole(teamId, userId, "editor");
+  }
+
+  return { teamId, folderId };
+}
+
 /** Create a new spreadsheet with a default sheet */
 export async function createSpreadsheet(
   userId: string,
   title?: string,
+  location: SpreadsheetLocation = {},
 ): Promise<SpreadsheetDetail> {
+  const { teamId, folderId } = await resolveLocation(userId, location);
+
   const spreadsheet = await prisma.$transaction(async (tx) => {
     return tx.spreadsheet.create({
       data: {
         title: title ?? "Untitled Spreadsheet",
         ownerId: userId,
+        teamId,
+        folderId,
         sheets: {
           create: {
             name: "Sheet 1",
@@ -251,7 +346,7 @@ export async function createSpreadsheet(
 export async function updateSpreadsheet(
   spreadsheetId: string,
   userId: string,
-  data: { title?: string; isStarred?: boolean },
+  data: { title?: string; isStarred?: boolean; calcSettings?: object },
 ): Promise<SpreadsheetDetail> {
   await checkAccess(spreadsheetId, userId, "editor");
 
@@ -264,18 +359,252 @@ export async function updateSpreadsheet(
   return spreadsheet;
 }
 
-/** Delete a spreadsheet (owner only) */
-export async function deleteSpreadsheet(
+/**
+ * Move a spreadsheet into a team or folder, or back to the top of its
+ * owner's personal files with both null. Changes who can open it, so
+ * owner only.
+ */
+export async function moveSpreadsheet(
+  spreadsheetId: string,
+  userId: string,
+  location: SpreadsheetLocation,
+): Promise<{ id: string; teamId: string | null; folderId: string | null }> {
+  await checkAccess(spreadsheetId, userId, "owner");
+  const { teamId, folderId } = await resolveLocation(userId, location);
+
+  const updated = await prisma.spreadsheet.update({
+    where: { id: spreadsheetId },
+    data: { teamId, folderId },
+    select: { id: true, teamId: true, folderId: true },
+  });
+
+  logger.info({ userId, spreadsheetId, teamId, folderId }, "Spreadsheet moved");
+
+  return updated;
+}
+
+/** Move a spreadsheet to the trash (owner only) */
+export async function trashSpreadsheet(
   spreadsheetId: string,
   userId: string,
 ): Promise<void> {
   await checkAccess(spreadsheetId, userId, "owner");
 
+  await prisma.spreadsheet.update({
+    where: { id: spreadsheetId },
+    data: { deletedAt: new Date(), deletedById: userId },
+  });
+
+  logger.info({ userId, spreadsheetId }, "Spreadsheet moved to trash");
+}
+
+/**
+ * Find a trashed spreadsheet the user may restore or delete for good: its
+ * owner (or a team admin) once restored, or whoever trashed it.
+ */
+async function checkTrashAccess(
+  spreadsheetId: string,
+  userId: string,
+): Promise<void> {
+  const spreadsheet = await prisma.spreadsheet.findUnique({
+    where: { id: spreadsheetId },
+    select: { ...spreadsheetAccessSelect(userId), deletedById: true },
+  });
+
+  if (!spreadsheet || !spreadsheet.deletedAt) {
+    throw new NotFoundError("Spreadsheet not found in trash");
+  }
+
+  if (
+    spreadsheet.deletedById !== userId &&
+    effectiveRole({ ...spreadsheet, deletedAt: null }, userId) !== "owner"
+  ) {
+    throw new ForbiddenError("Only the owner can perform this action");
+  }
+}
+
+export async function restoreSpreadsheet(
+  spreadsheetId: string,
+  userId: string,
+): Promise<{ id: string }> {
+  await checkTrashAccess(spreadsheetId, userId);
+
+  const restored = await prisma.spreadsheet.update({
+    where: { id: spreadsheetId },
+    data: { deletedAt: null, deletedById: null },
+    select: { id: true },
+  });
+
+  logger.info({ userId, spreadsheetId }, "Spreadsheet restored from trash");
+
+  return restored;
+}
+
+/** Permanently delete a trashed spreadsheet */
+export async function deleteSpreadsheetForever(
+  spreadsheetId: string,
+  userId: string,
+): Promise<void> {
+  await checkTrashAccess(spreadsheetId, userId);
+
   await prisma.spreadsheet.delete({ where: { id: spreadsheetId } });
 
   logger.info({ userId, spreadsheetId }, "Spreadsheet deleted");
 }
 
+/** Permanently delete everything in the user's trash */
+export async function emptyTrash(userId: string): Promise<number> {
+  const { count } = await prisma.spreadsheet.deleteMany({
+    where: {
+      deletedAt: { not: null },
+      OR: [{ ownerId: userId }, { deletedById: userId }],
+    },
+  });
+
+  logger.info({ userId, count }, "Trash emptied");
+
+  return count;
+}
+
+/** Permanently delete spreadsheets trashed over TRASH_RETENTION_DAYS ago */
+export async function purgeTrash(now = new Date()): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const { count } = await prisma.spreadsheet.deleteMany({
+    where: { deletedAt: { lt: cutoff } },
+  });
+
+  if (count > 0) {
+    logger.info({ count }, "Purged expired spreadsheets from trash");
+  }
+
+  return count;
+}
+
+let purgeTimer: ReturnType<typeof setInterval> | null = null;
+let purgeRunning = false;
+
+/** Purge expired trash every `intervalMs` until stopTrashPurgeWorker */
+export function startTrashPurgeWorker(intervalMs = 60 * 60 * 1000): void {
+  if (purgeTimer) return;
+  purgeTimer = setInterval(() => {
+    if (purgeRunning) return;
+    purgeRunning = true;
+    purgeTrash()
+      .catch((err) => logger.error({ err }, "Trash purge worker failed"))
+      .finally(() => {
+        purgeRunning = false;
+      });
+  }, intervalMs);
+  purgeTimer.unref();
+}
+
+export function stopTrashPurgeWorker(): void {
+  if (purgeTimer) clearInterval(purgeTimer);
+  purgeTimer = null;
+}
+
+/** Add one of the user's tags to a spreadsheet they can open */
+export async function tagSpreadsheet(
+  spreadsheetId: string,
+  userId: string,
+  tagId: string,
+): Promise<TagInfo> {
+  await checkAccess(spreadsheetId, userId);
+  const tag = await requireTag(tagId, userId);
+
+  await prisma.spreadsheetTag.upsert({
+    where: { spreadsheetId_tagId: { spreadsheetId, tagId } },
+    create: { spreadsheetId, tagId },
+    update: {},
+  });
+
+  return tag;
+}
+
+export async function untagSpreadsheet(
+  spreadsheetId: string,
+  userId: string,
+  tagId: string,
+): Promise<void> {
+  await requireTag(tagId, userId);
+
+  const result = await prisma.spreadsheetTag.deleteMany({
+    where: { spreadsheetId, tagId },
+  });
+  if (result.count === 0) {
+    throw new NotFoundError("Spreadsheet does not have that tag");
+  }
+}
+
+export type BulkAction =
+  | { action: "move"; teamId?: string | null; folderId?: string | null }
+  | { action: "trash" }
+  | { action: "restore" }
+  | { action: "delete" }
+  | { action: "tag"; tagId: string }
+  | { action: "untag"; tagId: string };
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Apply one action to many spreadsheets. Each is checked on its own, so a
+ * selection the user can only partly change reports the rest as failed.
+ */
+export async function bulkUpdate(
+  userId: string,
+  ids: string[],
+  op: BulkAction,
+): Promise<BulkResult> {
+  const result: BulkResult = { succeeded: [], failed: [] };
+
+  for (const id of ids) {
+    try {
+      switch (op.action) {
+        case "move":
+          await moveSpreadsheet(id, userId, op);
+          break;
+        case "trash":
+          await trashSpreadsheet(id, userId);
+          break;
+        case "restore":
+          await restoreSpreadsheet(id, userId);
+          break;
+        case "delete":
+          await deleteSpreadsheetForever(id, userId);
+          break;
+        case "tag":
+          await tagSpreadsheet(id, userId, op.tagId);
+          break;
+        case "untag":
+          await untagSpreadsheet(id, userId, op.tagId);
+          break;
+      }
+      result.succeeded.push(id);
+    } catch (err) {
+      if (!(err instanceof AppError)) throw err;
+      result.failed.push({ id, error: err.message });
+    }
+  }
+
+  logger.info(
+    {
+      userId,
+      action: op.action,
+      succeeded: result.succeeded.length,
+      failed: result.failed.length,
+    },
+    "Bulk spreadsheet update",
+  );
+
+  return result;
+}
+
 /** Duplicate a spreadsheet */
 export async function duplicateSpreadsheet(
   spreadsheetId: string,
@@ -287,9 +616,12 @@ export async function duplicateSpreadsheet(
     where: { id: spreadsheetId },
     select: {
       title: true,
+      namedRanges: true,
+      calcSettings: true,
       sheets: {
         orderBy: { index: "asc" },
         select: {
+          id: true,
           name: true,
           index: true,
           color: true,
@@ -298,6 +630,7 @@ export async function duplicateSpreadsheet(
           rowMeta: true,
           frozenRows: true,
           frozenCols: true,
+          objects: true,
         },
       },
     },
@@ -308,10 +641,11 @@ export async function duplicateSpreadsheet(
   }
 
   const copy = await prisma.$transaction(async (tx) => {
-    return tx.spreadsheet.create({
+    const created = await tx.spreadsheet.create({
       data: {
         title: `${original.title} (Copy)`,
         ownerId: userId,
+        calcSettings: original.calcSettings ?? {},
         sheets: {
           create: original.sheets.map((s) => ({
             name: s.name,
@@ -322,6 +656,7 @@ export async function duplicateSpreadsheet(
             rowMeta: s.rowMeta ?? {},
             frozenRows: s.frozenRows,
             frozenCols: s.frozenCols,
+            objects: s.objects ?? {},
           })),
         },
         access: {
@@ -330,6 +665,26 @@ export async function duplicateSpreadsheet(
       },
       select: DETAIL_SELECT,
     });
+
+    const namedRanges = Array.isArray(original.namedRanges)
+      ? (original.namedRanges as Array<{ sheetId?: string }>)
+      : [];
+    if (namedRanges.length === 0) return created;
+
+    // Named ranges point at sheet ids — re-point them at the copied sheets
+    const sheetIdMap = new Map(
+      original.sheets.map((s, i) => [s.id, created.sheets[i]?.id]),
+    );
+    return tx.spreadsheet.update({
+      where: { id: created.id },
+      data: {
+        namedRanges: namedRanges.map((r) => ({
+          ...r,
+          sheetId: (r.sheetId && sheetIdMap.get(r.sheetId)) ?? r.sheetId,
+        })),
+      },
+      select: DETAIL_SELECT,
+    });
   });
 
   logger.info(
@@ -340,6 +695,28 @@ export async function duplicateSpreadsheet(
   return copy;
 }
 
+/** Replace the spreadsheet-wide named ranges (editor only) */
+export async function saveNamedRanges(
+  spreadsheetId: string,
+  userId: string,
+  namedRanges: unknown[],
+): Promise<{ namedRanges: unknown }> {
+  await checkAccess(spreadsheetId, userId, "editor");
+
+  const updated = await prisma.spreadsheet.update({
+    where: { id: spreadsheetId },
+    data: { namedRanges: namedRanges as Prisma.InputJsonValue },
+    select: { namedRanges: true },
+  });
+
+  logger.info(
+    { userId, spreadsheetId, count: namedRanges.length },
+    "Named ranges saved",
+  );
+
+  return updated;
+}
+
 /** Toggle star/favorite */
 export async function toggleStar(
   spreadsheetId: string,
@@ -0,0 +1,90 @@
+/**
+ * Tags — personal labels for organising the dashboard. Each user has their
+ * own set, and only sees their own tags on a spreadsheet.
+ */
+import prisma from "../models/prisma";
+import { NotFoundError, ConflictError } from "../utils/AppError";
+
+export interface TagInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const TAG_SELECT = { id: true, name: true, color: true } as const;
+
+/** Load one of the user's tags; other users' tags are not found */
+export async function requireTag(
+  tagId: string,
+  userId: string,
+): Promise<TagInfo> {
+  const tag = await prisma.tag.findUnique({
+    where: { id: tagId },
+    select: { ...TAG_SELECT, userId: true },
+  });
+
+  if (!tag || tag.userId !== userId) {
+    throw new NotFoundError("Tag not found");
+  }
+
+  return { id: tag.id, name: tag.name, color: tag.color };
+}
+
+async function assertNameFree(
+  userId: string,
+  name: string,
+  exceptId?: string,
+): Promise<void> {
+  const existing = await prisma.tag.findUnique({
+    where: { userId_name: { userId, name } },
+    select: { id: true },
+  });
+  if (existing && existing.id !== exceptId) {
+    throw new ConflictError("You already have a tag with that name");
+  }
+}
+
+export async function listTags(userId: string): Promise<TagInfo[]> {
+  return prisma.tag.findMany({
+    where: { userId },
+    orderBy: { name: "asc" },
+    select: TAG_SELECT,
+  });
+}
+
+export async function createTag(
+  userId: string,
+  name: string,
+  color?: string,
+): Promise<TagInfo> {
+  await assertNameFree(userId, name);
+
+  return prisma.tag.create({
+    data: { userId, name, color },
+    select: TAG_SELECT,
+  });
+}
+
+export async function updateTag(
+  tagId: string,
+  userId: string,
+  data: { name?: string; color?: string },
+): Promise<TagInfo> {
+  await requireTag(tagId, userId);
+  if (data.name) {
+    await assertNameFree(userId, data.name, tagId);
+  }
+
+  return prisma.tag.update({
+    where: { id: tagId },
+    data,
+    select: TAG_SELECT,
+  });
+}
+
+/** Delete a tag; it comes off every spreadsheet it was on */
+export async function deleteTag(tagId: string, userId: string): Promise<void> {
+  await requireTag(tagId, userId);
+
+  await prisma.tag.delete({ where: { id: tagId } });
+}
@@ -0,0 +1,323 @@
+/**
+ * Teams — shared workspaces with member roles. Team members get their team
+ * role on every spreadsheet the team owns; team folders (folder.service)
+ * can grant extra users access to the spreadsheets filed in them.
+ */
+import prisma from "../models/prisma";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from "../utils/AppError";
+import logger from "../utils/logger";
+import type { TeamRole } from "./access.service";
+
+const TEAM_ROLE_RANK: Record<string, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+};
+
+const USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+} as const;
+
+interface TeamUser {
+  id: string;
+  name: string | null;
+  email: string;
+  avatarUrl: string | null;
+}
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  /** The requesting user's role in the team */
+  role: string;
+  memberCount: number;
+  createdAt: Date;
+}
+
+export interface TeamMemberInfo {
+  userId: string;
+  role: string;
+  createdAt: Date;
+  user: TeamUser;
+}
+
+export interface TeamDetail {
+  id: string;
+  name: string;
+  role: string;
+  members: TeamMemberInfo[];
+  createdAt: Date;
+}
+
+/** The user's role in the team; throws unless it is at least `minRole` */
+export async function requireTeamRole(
+  teamId: string,
+  userId: string,
+  minRole: TeamRole = "viewer",
+): Promise<TeamRole> {
+  const membership = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    select: { role: true },
+  });
+
+  if (!membership) {
+    throw new NotFoundError("Team not found");
+  }
+
+  if (TEAM_ROLE_RANK[membership.role] < TEAM_ROLE_RANK[minRole]) {
+    throw new ForbiddenError(
+      minRole === "owner"
+        ? "Only team owners can perform this action"
+        : `You need to be a team ${minRole} to perform this action`,
+    );
+  }
+
+  return membership.role as TeamRole;
+}
+
+export async function listTeams(userId: string): Promise<TeamSummary[]> {
+  const memberships = await prisma.teamMember.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      role: true,
+      team: {
+        select: {
+          id: true,
+          name: true,
+          createdAt: true,
+          _count: { select: { members: true } },
+        },
+      },
+    },
+  });
+
+  return memberships.map(
+    (m: {
+      role: string;
+      team: {
+        id: string;
+        name: string;
+        createdAt: Date;
+        _count: { members: number };
+      };
+    }) => ({
+      id: m.team.id,
+      name: m.team.name,
+      role: m.role,
+      memberCount: m.team._count.members,
+      createdAt: m.team.createdAt,
+    }),
+  );
+}
+
+export async function createTeam(
+  userId: string,
+  name: string,
+): Promise<TeamSummary> {
+  const team = await prisma.team.create({
+    data: { name, members: { create: { userId, role: "owner" } } },
+    select: { id: true, name: true, createdAt: true },
+  });
+
+  logger.info({ userId, teamId: team.id }, "Team created");
+
+  return { ...team, role: "owner", memberCount: 1 };
+}
+
+export async function getTeam(
+  teamId: string,
+  userId: string,
+): Promise<TeamDetail> {
+  const role = await requireTeamRole(teamId, userId);
+
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      members: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          userId: true,
+          role: true,
+          createdAt: true,
+          user: { select: USER_SELECT },
+        },
+      },
+    },
+  });
+
+  if (!team) {
+    throw new NotFoundError("Team not found");
+  }
+
+  return { ...team, role };
+}
+
+export async function renameTeam(
+  teamId: string,
+  userId: string,
+  name: string,
+): Promise<{ id: string; name: string }> {
+  await requireTeamRole(teamId, userId, "admin");
+
+  return prisma.team.update({
+    where: { id: teamId },
+    data: { name },
+    select: { id: true, name: true },
+  });
+}
+
+/** Delete a team; its spreadsheets fall back to their owners */
+export async function deleteTeam(
+  teamId: string,
+  userId: string,
+): Promise<void> {
+  await requireTeamRole(teamId, userId, "owner");
+
+  await prisma.team.delete({ where: { id: teamId } });
+
+  logger.info({ userId, teamId }, "Team deleted");
+}
+
+async function countOwners(teamId: string): Promise<number> {
+  return prisma.teamMember.count({ where: { teamId, role: "owner" } });
+}
+
+export async function addMember(
+  teamId: string,
+  actorId: string,
+  email: string,
+  role: TeamRole,
+): Promise<TeamMemberInfo> {
+  const actorRole = await requireTeamRole(teamId, actorId, "admin");
+  if (role === "owner" && actorRole !== "owner") {
+    throw new ForbiddenError("Only team owners can add owners");
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+  if (!target) {
+    throw new NotFoundError("User not found with that email");
+  }
+
+  const existing = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId: target.id } },
+  });
+  if (existing) {
+    throw new ConflictError("User is already a member of this team");
+  }
+
+  const member = await prisma.teamMember.create({
+    data: { teamId, userId: target.id, role },
+    select: {
+      userId: true,
+      role: true,
+      createdAt: true,
+      user: { select: USER_SELECT },
+    },
+  });
+
+  logger.info(
+    { actorId, teamId, targetUserId: target.id, role },
+    "Team member added",
+  );
+
+  return member;
+}
+
+export async function changeMemberRole(
+  teamId: string,
+  actorId: string,
+  targetUserId: string,
+  role: TeamRole,
+): Promise<TeamMemberInfo> {
+  const actorRole = await requireTeamRole(teamId, actorId, "admin");
+
+  const member = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId: targetUserId } },
+    select: { id: true, role: true },
+  });
+  if (!member) {
+    throw new NotFoundError("Team member not found");
+  }
+
+  if ((role === "owner" || member.role === "owner") && actorRole !== "owner") {
+    throw new ForbiddenError("Only team owners can change owners");
+  }
+
+  if (
+    member.role === "owner" &&
+    role !== "owner" &&
+    (await countOwners(teamId)) <= 1
+  ) {
+    throw new ValidationError("A team needs at least one owner");
+  }
+
+  const updated = await prisma.teamMember.update({
+    where: { id: member.id },
+    data: { role },
+    select: {
+      userId: true,
+      role: true,
+      createdAt: true,
+      user: { select: USER_SELECT },
+    },
+  });
+
+  logger.info(
+    { actorId, teamId, targetUserId, role },
+    "Team member role changed",
+  );
+
+  return updated;
+}
+
+/** Remove a member; members may always remove themselves (leave) */
+export async function removeMember(
+  teamId: string,
+  actorId: string,
+  targetUserId: string,
+): Promise<void> {
+  const actorRole = await requireTeamRole(teamId, actorId);
+
+  const member = await prisma.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId: targetUserId } },
+    select: { id: true, role: true },
+  });
+  if (!member) {
+    throw new NotFoundError("Team member not found");
+  }
+
+  if (targetUserId !== actorId) {
+    if (TEAM_ROLE_RANK[actorRole] < TEAM_ROLE_RANK.admin) {
+      throw new ForbiddenError(
+        "You need to be a team admin to perform this action",
+      );
+    }
+    if (member.role === "owner" && actorRole !== "owner") {
+      throw new ForbiddenError("Only team owners can remove owners");
+    }
+  }
+
+  if (member.role === "owner" && (await countOwners(teamId)) <= 1) {
+    throw new ValidationError("A team needs at least one owner");
+  }
+
+  await prisma.teamMember.delete({ where: { id: member.id } });
+
+  logger.info({ actorId, teamId, targetUserId }, "Team member removed");
+}
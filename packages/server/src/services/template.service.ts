@@ -226,7 +226,7 @@ export async function listTemplates(
   _userId: string,
 ): Promise<TemplateSummary[]> {
   const userTemplates = await prisma.spreadsheet.findMany({
-    where: { isTemplate: true },
+    where: { isTemplate: true, deletedAt: null },
     select: SUMMARY_SELECT,
     orderBy: { createdAt: "desc" },
   });
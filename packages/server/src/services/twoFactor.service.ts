@@ -0,0 +1,315 @@
+/**
+ * Two-factor authentication — TOTP enrolment and one-time recovery codes.
+ * Secrets are stored encrypted and recovery codes as SHA-256 hashes.
+ * Enabling or disabling 2FA bumps the user's tokenVersion, which signs out
+ * every other session; callers issue fresh tokens for the current one.
+ */
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import QRCode from "qrcode";
+import { env } from "../config/env";
+import prisma from "../models/prisma";
+import { AppError, NotFoundError } from "../utils/AppError";
+import logger from "../utils/logger";
+import {
+  generateTotpSecret,
+  totpProvisioningUri,
+  verifyTotp,
+} from "../utils/totp";
+
+const ISSUER = "GridSpace";
+export const RECOVERY_CODE_COUNT = 10;
+
+interface TwoFactorUser {
+  id: string;
+  email: string;
+  passwordHash: string | null;
+  totpSecret: string | null;
+  totpEnabled: boolean;
+  totpLastStep: number | null;
+  recoveryCodes: string[];
+}
+
+const TWO_FACTOR_SELECT = {
+  id: true,
+  email: true,
+  passwordHash: true,
+  totpSecret: true,
+  totpEnabled: true,
+  totpLastStep: true,
+  recoveryCodes: true,
+};
+
+/** Proof of identity for changing 2FA: the password, or a code for OAuth-only accounts */
+export interface TwoFactorConfirmation {
+  password?: string;
+  code?: string;
+}
+
+// ─── Secret encryption ──────────────────────────────────────
+
+function encryptionKey(): Buffer {
+  return crypto.createHash("sha256").update(`totp:${env.JWT_SECRET}`).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(secret, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8",
+  );
+}
+
+// ─── Recovery codes ─────────────────────────────────────────
+
+/** Codes are compared case-insensitively and without the dash */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+async function loadUser(userId: string): Promise<TwoFactorUser> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: TWO_FACTOR_SELECT,
+  });
+  if (!user) throw new NotFoundError("User not found");
+  return user;
+}
+
+/** Accept a TOTP code once per time step; returns false on replay */
+async function useTotpCode(
+  user: TwoFactorUser,
+  code: string,
+): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(decryptSecret(user.totpSecret), code);
+  if (step === null) return false;
+  if (user.totpLastStep !== null && step <= user.totpLastStep) return false;
+
+  // Conditional update so two requests can't both spend the same step
+  const result = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+    },
+    data: { totpLastStep: step },
+  });
+  return result.count === 1;
+}
+
+/** Spend a recovery code; each one works once */
+async function useRecoveryCode(
+  user: TwoFactorUser,
+  code: string,
+): Promise<boolean> {
+  const hash = hashRecoveryCode(code);
+  if (!user.recoveryCodes.includes(hash)) return false;
+
+  const result = await prisma.user.updateMany({
+    where: { id: user.id, recoveryCodes: { has: hash } },
+    data: { recoveryCodes: user.recoveryCodes.filter((h) => h !== hash) },
+  });
+
+  if (result.count === 1) {
+    logger.info(
+      {
+        userId: user.id,
+        recoveryCodesRemaining: user.recoveryCodes.length - 1,
+      },
+      "Recovery code used",
+    );
+  }
+  return result.count === 1;
+}
+
+async function useSecondFactor(
+  user: TwoFactorUser,
+  code: string,
+): Promise<boolean> {
+  if (!user.totpEnabled) return false;
+  const trimmed = code.trim();
+  return /^\d{6}$/.test(trimmed.replace(/\s/g, ""))
+    ? useTotpCode(user, trimmed)
+    : useRecoveryCode(user, trimmed);
+}
+
+async function confirmIdentity(
+  user: TwoFactorUser,
+  confirmation: TwoFactorConfirmation,
+): Promise<void> {
+  if (user.passwordHash) {
+    const valid =
+      !!confirmation.password &&
+      (await bcrypt.compare(confirmation.password, user.passwordHash));
+    if (!valid) throw new AppError(401, "Password is incorrect");
+    return;
+  }
+
+  if (!confirmation.code || !(await useSecondFactor(user, confirmation.code))) {
+    throw new AppError(401, "Invalid verification code");
+  }
+}
+
+// ─── Public API ─────────────────────────────────────────────
+
+/** `hasPassword` tells the client which confirmation to ask for */
+export async function getTwoFactorStatus(userId: string): Promise<{
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  hasPassword: boolean;
+}> {
+  const user = await loadUser(userId);
+  return {
+    enabled: user.totpEnabled,
+    recoveryCodesRemaining: user.totpEnabled ? user.recoveryCodes.length : 0,
+    hasPassword: !!user.passwordHash,
+  };
+}
+
+/**
+ * Start enrolment with a new secret. Nothing changes for sign-in until
+ * enableTotp confirms a code from the authenticator app.
+ */
+export async function startTotpSetup(userId: string): Promise<{
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}> {
+  const user = await loadUser(userId);
+  if (user.totpEnabled) {
+    throw new AppError(409, "Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: encryptSecret(secret), totpLastStep: null },
+  });
+
+  const otpauthUrl = totpProvisioningUri(secret, user.email, ISSUER);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+/** Confirm enrolment with a code and issue recovery codes (shown once) */
+export async function enableTotp(
+  userId: string,
+  code: string,
+): Promise<{ recoveryCodes: string[]; email: string; tokenVersion: number }> {
+  const user = await loadUser(userId);
+  if (user.totpEnabled) {
+    throw new AppError(409, "Two-factor authentication is already enabled");
+  }
+  if (!user.totpSecret) {
+    throw new AppError(400, "Start two-factor setup first");
+  }
+
+  const step = verifyTotp(decryptSecret(user.totpSecret), code);
+  if (step === null) {
+    throw new AppError(400, "Invalid verification code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpEnabled: true,
+      totpLastStep: step,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      tokenVersion: { increment: 1 },
+    },
+    select: { email: true, tokenVersion: true },
+  });
+
+  logger.info({ userId }, "Two-factor authentication enabled");
+
+  return { recoveryCodes, ...updated };
+}
+
+/** Turn 2FA off after confirming the password */
+export async function disableTotp(
+  userId: string,
+  confirmation: TwoFactorConfirmation,
+): Promise<{ email: string; tokenVersion: number }> {
+  const user = await loadUser(userId);
+  if (!user.totpEnabled) {
+    throw new AppError(400, "Two-factor authentication is not enabled");
+  }
+
+  await confirmIdentity(user, confirmation);
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastStep: null,
+      recoveryCodes: [],
+      tokenVersion: { increment: 1 },
+    },
+    select: { email: true, tokenVersion: true },
+  });
+
+  logger.info({ userId }, "Two-factor authentication disabled");
+
+  return updated;
+}
+
+/** Replace all recovery codes; the old ones stop working */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  confirmation: TwoFactorConfirmation,
+): Promise<string[]> {
+  const user = await loadUser(userId);
+  if (!user.totpEnabled) {
+    throw new AppError(400, "Two-factor authentication is not enabled");
+  }
+
+  await confirmIdentity(user, confirmation);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  });
+
+  logger.info({ userId }, "Recovery codes regenerated");
+
+  return recoveryCodes;
+}
+
+/** Check the second step of sign-in: a TOTP code or an unused recovery code */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+): Promise<boolean> {
+  const user = await loadUser(userId);
+  return useSecondFactor(user, code);
+}
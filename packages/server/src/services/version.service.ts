@@ -1,6 +1,15 @@
 import prisma from "../models/prisma";
 import { NotFoundError, ForbiddenError } from "../utils/AppError";
 import logger from "../utils/logger";
+import {
+  effectiveRole,
+  roleAtLeast,
+  spreadsheetAccessSelect,
+} from "./access.service";
+import { discardDoc } from "../websocket/yjsDocs";
+import { getIO } from "../websocket/socketServer";
+import { roomName } from "../websocket/handlers";
+import { WS_EVENTS } from "../websocket/types";
 
 const MAX_VERSIONS = 200;
 
@@ -45,32 +54,23 @@ async function checkAccess(
 ): Promise<string> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
   if (!spreadsheet) {
     throw new NotFoundError("Spreadsheet not found");
   }
 
-  if (spreadsheet.ownerId === userId) {
-    return "owner";
-  }
-
-  const access = spreadsheet.access[0];
-  if (!access) {
+  const role = effectiveRole(spreadsheet, userId);
+  if (!role) {
     throw new ForbiddenError("You do not have access to this spreadsheet");
   }
 
-  const role = access.role;
-
   if (minRole === "owner" && role !== "owner") {
     throw new ForbiddenError("Only the owner can perform this action");
   }
 
-  if (minRole === "editor" && role !== "editor" && role !== "owner") {
+  if (minRole === "editor" && !roleAtLeast(role, "editor")) {
     throw new ForbiddenError("You need editor access to perform this action");
   }
 
@@ -170,6 +170,7 @@ export async function createVersion(
     where: { id: spreadsheetId },
     select: {
       title: true,
+      namedRanges: true,
       sheets: {
         orderBy: { index: "asc" },
         select: {
@@ -185,6 +186,7 @@ export async function createVersion(
           frozenCols: true,
           filterState: true,
           sortState: true,
+          objects: true,
         },
       },
     },
@@ -196,7 +198,11 @@ export async function createVersion(
 
   // Deep clone to ensure clean JSON
   const snapshotObj = JSON.parse(
-    JSON.stringify({ title: spreadsheet.title, sheets: spreadsheet.sheets }),
+    JSON.stringify({
+      title: spreadsheet.title,
+      namedRanges: spreadsheet.namedRanges,
+      sheets: spreadsheet.sheets,
+    }),
   );
 
   // Get previous version to compute delta
@@ -324,6 +330,7 @@ export async function restoreVersion(
 
   const snapshot = version.snapshot as {
     title?: string;
+    namedRanges?: object[];
     sheets: Array<{
       id: string;
       name: string;
@@ -337,15 +344,28 @@ export async function restoreVersion(
       frozenCols: number;
       filterState: object | null;
       sortState: object | null;
+      objects?: object;
     }>;
   };
 
   await prisma.$transaction(async (tx) => {
     await tx.sheet.deleteMany({ where: { spreadsheetId } });
 
+    // Snapshots taken before sheet objects existed carry no named ranges;
+    // leave the current ones alone rather than wiping them.
+    if (snapshot.namedRanges) {
+      await tx.spreadsheet.update({
+        where: { id: spreadsheetId },
+        data: { namedRanges: snapshot.namedRanges },
+      });
+    }
+
     for (const sheet of snapshot.sheets) {
       await tx.sheet.create({
         data: {
+          // Keep the original id so objects that reference sheets
+          // (named ranges, pivot sources) still resolve after restore
+          id: sheet.id,
           spreadsheetId,
           name: sheet.name,
           index: sheet.index,
@@ -358,11 +378,17 @@ export async function restoreVersion(
           frozenCols: sheet.frozenCols ?? 0,
           filterState: sheet.filterState ?? undefined,
           sortState: sheet.sortState ?? undefined,
+          objects: sheet.objects ?? {},
         },
       });
     }
   });
 
+  // Co-editors still hold the pre-restore document; reseed it from the
+  // restored sheets and tell them to resync
+  await discardDoc(spreadsheetId);
+  getIO()?.to(roomName(spreadsheetId)).emit(WS_EVENTS.YJS_RESET);
+
   await createVersion(spreadsheetId, userId);
 
   logger.info({ userId, spreadsheetId, versionId }, "Version restored");
@@ -523,6 +549,7 @@ export async function copyVersionAsSpreadsheet(
       rowMeta: object;
       frozenRows: number;
       frozenCols: number;
+      objects?: object;
     }>;
   };
 
@@ -543,6 +570,7 @@ export async function copyVersionAsSpreadsheet(
             rowMeta: s.rowMeta ?? {},
             frozenRows: s.frozenRows ?? 0,
             frozenCols: s.frozenCols ?? 0,
+            objects: s.objects ?? {},
           })),
         },
         access: {
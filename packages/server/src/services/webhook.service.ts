@@ -1,10 +1,19 @@
 /**
- * Webhook service — CRUD, HMAC-signed dispatch.
+ * Webhook service — CRUD, dispatch through the delivery queue, delivery log
+ * and manual redelivery.
  */
 import crypto from "crypto";
 import prisma from "../models/prisma";
 import { NotFoundError, ForbiddenError } from "../utils/AppError";
 import logger from "../utils/logger";
+import type { PaginationParams } from "../utils/pagination";
+import { effectiveRole, spreadsheetAccessSelect } from "./access.service";
+import {
+  attemptDelivery,
+  deliverySelect,
+  enqueueDelivery,
+} from "./webhookDelivery.service";
+import type { DeliveryInfo } from "./webhookDelivery.service";
 
 const VALID_EVENTS = [
   "spreadsheet.created",
@@ -24,20 +33,30 @@ interface WebhookInfo {
   events: string[];
   isActive: boolean;
   lastTriggeredAt: Date | null;
+  consecutiveFailures: number;
+  /** Set when the webhook was disabled after repeated delivery failures */
+  disabledAt: Date | null;
   createdAt: Date;
 }
 
+const webhookSelect = {
+  id: true,
+  spreadsheetId: true,
+  url: true,
+  events: true,
+  isActive: true,
+  lastTriggeredAt: true,
+  consecutiveFailures: true,
+  disabledAt: true,
+  createdAt: true,
+} as const;
+
 interface CreateWebhookInput {
   spreadsheetId: string;
   url: string;
   events: string[];
 }
 
-/** Generate HMAC-SHA256 signature for webhook payload */
-function signPayload(payload: string, secret: string): string {
-  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
-}
-
 /** Generate a random secret for webhook signing */
 function generateSecret(): string {
   return crypto.randomBytes(32).toString("hex");
@@ -60,20 +79,14 @@ async function checkSpreadsheetAccess(
 ): Promise<void> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
   if (!spreadsheet) {
     throw new NotFoundError("Spreadsheet not found");
   }
 
-  const isOwner = spreadsheet.ownerId === userId;
-  const hasAccess = spreadsheet.access.length > 0;
-
-  if (!isOwner && !hasAccess) {
+  if (!effectiveRole(spreadsheet, userId)) {
     throw new ForbiddenError("You do not have access to this spreadsheet");
   }
 }
@@ -95,15 +108,7 @@ export async function createWebhook(
       secret,
       events: input.events,
     },
-    select: {
-      id: true,
-      spreadsheetId: true,
-      url: true,
-      events: true,
-      isActive: true,
-      lastTriggeredAt: true,
-      createdAt: true,
-    },
+    select: webhookSelect,
   });
 
   logger.info(
@@ -118,15 +123,7 @@ export async function createWebhook(
 export async function listWebhooks(userId: string): Promise<WebhookInfo[]> {
   return prisma.webhook.findMany({
     where: { userId },
-    select: {
-      id: true,
-      spreadsheetId: true,
-      url: true,
-      events: true,
-      isActive: true,
-      lastTriggeredAt: true,
-      createdAt: true,
-    },
+    select: webhookSelect,
     orderBy: { createdAt: "desc" },
   });
 }
@@ -175,20 +172,19 @@ export async function updateWebhook(
 
   return prisma.webhook.update({
     where: { id: webhookId },
-    data,
-    select: {
-      id: true,
-      spreadsheetId: true,
-      url: true,
-      events: true,
-      isActive: true,
-      lastTriggeredAt: true,
-      createdAt: true,
-    },
+    // Re-enabling starts the failure count afresh
+    data: data.isActive
+      ? { ...data, consecutiveFailures: 0, disabledAt: null }
+      : data,
+    select: webhookSelect,
   });
 }
 
-/** Dispatch webhook for an event — fire-and-forget, non-blocking */
+/**
+ * Queue an event for every active webhook subscribed to it and make the
+ * first attempt straight away. Failed attempts are retried by the delivery
+ * worker, so this never blocks on the receiver.
+ */
 export async function dispatchWebhooks(
   spreadsheetId: string,
   event: string,
@@ -200,43 +196,92 @@ export async function dispatchWebhooks(
       isActive: true,
       events: { has: event },
     },
-    select: {
-      id: true,
-      url: true,
-      secret: true,
-    },
+    select: { id: true },
+  });
+
+  const body = JSON.stringify({
+    event,
+    timestamp: new Date().toISOString(),
+    data: payload,
   });
 
   for (const webhook of webhooks) {
-    const body = JSON.stringify({
-      event,
-      timestamp: new Date().toISOString(),
-      data: payload,
+    const delivery = await enqueueDelivery(webhook.id, event, body);
+    attemptDelivery(delivery.id).catch((err: Error) => {
+      logger.warn(
+        { webhookId: webhook.id, deliveryId: delivery.id, error: err.message },
+        "Webhook delivery attempt failed",
+      );
     });
+  }
+}
 
-    const signature = signPayload(body, webhook.secret);
-
-    // Fire-and-forget — don't block the response
-    fetch(webhook.url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Webhook-Signature": signature,
-      },
-      body,
-      signal: AbortSignal.timeout(10000),
-    })
-      .then(async () => {
-        await prisma.webhook.update({
-          where: { id: webhook.id },
-          data: { lastTriggeredAt: new Date() },
-        });
-      })
-      .catch((err: Error) => {
-        logger.warn(
-          { webhookId: webhook.id, error: err.message },
-          "Webhook delivery failed",
-        );
-      });
+/** Check a webhook exists and belongs to the user */
+async function checkWebhookOwner(
+  webhookId: string,
+  userId: string,
+): Promise<void> {
+  const webhook = await prisma.webhook.findUnique({
+    where: { id: webhookId },
+    select: { userId: true },
+  });
+
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  if (webhook.userId !== userId) {
+    throw new ForbiddenError("You can only view your own webhooks");
+  }
+}
+
+/** Delivery log of a webhook, newest first */
+export async function listDeliveries(
+  webhookId: string,
+  userId: string,
+  pagination: PaginationParams,
+): Promise<{ deliveries: DeliveryInfo[]; total: number }> {
+  await checkWebhookOwner(webhookId, userId);
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where: { webhookId },
+      select: deliverySelect,
+      orderBy: { createdAt: "desc" },
+      skip: pagination.skip,
+      take: pagination.limit,
+    }),
+    prisma.webhookDelivery.count({ where: { webhookId } }),
+  ]);
+
+  return { deliveries, total };
+}
+
+/**
+ * Send a past delivery's payload again as a new delivery, attempted
+ * immediately. It is signed afresh, so receivers see a current timestamp.
+ */
+export async function redeliver(
+  webhookId: string,
+  deliveryId: string,
+  userId: string,
+): Promise<DeliveryInfo> {
+  await checkWebhookOwner(webhookId, userId);
+
+  const original = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { webhookId: true, event: true, payload: true },
+  });
+  if (!original || original.webhookId !== webhookId) {
+    throw new NotFoundError("Delivery not found");
   }
+
+  const delivery = await enqueueDelivery(
+    webhookId,
+    original.event,
+    original.payload,
+  );
+  logger.info({ userId, webhookId, deliveryId }, "Webhook redelivery queued");
+
+  return (await attemptDelivery(delivery.id)) ?? delivery;
 }
@@ -0,0 +1,293 @@
+/**
+ * Webhook delivery queue — every event sent to a webhook is stored as a
+ * delivery row and retried with exponential backoff until the receiver
+ * accepts it. A background worker picks up due retries; a webhook that keeps
+ * failing is disabled. Requests carry a timestamped HMAC signature so
+ * receivers can reject replays.
+ */
+import crypto from "crypto";
+import prisma from "../models/prisma";
+import logger from "../utils/logger";
+
+/** Attempts before a delivery is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+/** Consecutive failed attempts before a webhook is disabled */
+export const DISABLE_AFTER_FAILURES = 20;
+/** Delay before the first retry; doubles with every attempt */
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+/** How long an attempt in flight holds its delivery before it can be retaken */
+const ATTEMPT_LEASE_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** Receiver response bodies are kept up to this many characters */
+const MAX_RESPONSE_BODY = 2048;
+/** Signatures older than this are rejected by verifyWebhookSignature */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface DeliveryInfo {
+  id: string;
+  webhookId: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  latencyMs: number | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export const deliverySelect = {
+  id: true,
+  webhookId: true,
+  event: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  responseBody: true,
+  latencyMs: true,
+  error: true,
+  nextAttemptAt: true,
+  deliveredAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Signature header value for a body sent at `timestamp` (Unix seconds):
+ * `t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number,
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the body it came with. Fails for a
+ * wrong secret, a tampered body or a timestamp outside the tolerance.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS,
+): boolean {
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const eq = part.indexOf("=");
+      return [part.slice(0, eq).trim(), part.slice(eq + 1).trim()];
+    }),
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(body, secret, timestamp).split("v1=")[1];
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+/** Delay before retrying after `attempts` failed attempts */
+export function retryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/** Queue an event for a webhook; the delivery is due immediately */
+export async function enqueueDelivery(
+  webhookId: string,
+  event: string,
+  payload: string,
+): Promise<DeliveryInfo> {
+  return prisma.webhookDelivery.create({
+    data: { webhookId, event, payload, nextAttemptAt: new Date() },
+    select: deliverySelect,
+  });
+}
+
+/**
+ * Take the lease on a due delivery. Only one caller wins, so the immediate
+ * attempt and the worker never send the same delivery twice.
+ */
+async function claimDelivery(id: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id, status: "pending", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) },
+  });
+  return count === 1;
+}
+
+/**
+ * Send a pending delivery if it is due, then record the outcome: success,
+ * a retry with backoff, or failure once attempts run out. Returns the
+ * updated delivery, or null if it was not due or is held by another attempt.
+ */
+export async function attemptDelivery(
+  deliveryId: string,
+): Promise<DeliveryInfo | null> {
+  const now = new Date();
+  if (!(await claimDelivery(deliveryId, now))) return null;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: {
+      id: true,
+      payload: true,
+      attempts: true,
+      webhook: { select: { id: true, url: true, secret: true } },
+    },
+  });
+  if (!delivery) return null;
+  const { webhook } = delivery;
+
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const start = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(
+          delivery.payload,
+          webhook.secret,
+          timestamp,
+        ),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    if (!response.ok) error = `Receiver responded with ${response.status}`;
+  } catch (err) {
+    error = (err as Error).message;
+  }
+  const latencyMs = Date.now() - start;
+  const attempts = delivery.attempts + 1;
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  const updated = await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: succeeded ? "succeeded" : exhausted ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      responseBody,
+      latencyMs,
+      error,
+      nextAttemptAt:
+        succeeded || exhausted
+          ? null
+          : new Date(Date.now() + retryDelay(attempts)),
+      deliveredAt: succeeded ? new Date() : null,
+    },
+    select: deliverySelect,
+  });
+
+  if (succeeded) {
+    await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { lastTriggeredAt: new Date(), consecutiveFailures: 0 },
+    });
+  } else {
+    await recordFailure(webhook.id);
+    logger.warn(
+      { webhookId: webhook.id, deliveryId: delivery.id, attempts, error },
+      exhausted ? "Webhook delivery failed" : "Webhook delivery will retry",
+    );
+  }
+  return updated;
+}
+
+/** Count a failed attempt and disable the webhook once it hits the limit */
+async function recordFailure(webhookId: string): Promise<void> {
+  const { consecutiveFailures, isActive } = await prisma.webhook.update({
+    where: { id: webhookId },
+    data: { consecutiveFailures: { increment: 1 } },
+    select: { consecutiveFailures: true, isActive: true },
+  });
+  if (isActive && consecutiveFailures >= DISABLE_AFTER_FAILURES) {
+    await prisma.webhook.update({
+      where: { id: webhookId },
+      data: { isActive: false, disabledAt: new Date() },
+    });
+    logger.warn(
+      { webhookId, consecutiveFailures },
+      "Webhook disabled after repeated delivery failures",
+    );
+  }
+}
+
+/**
+ * Attempt every delivery whose retry is due, oldest first. Deliveries of
+ * disabled webhooks wait until the webhook is re-enabled. Returns the
+ * number of deliveries attempted.
+ */
+export async function processDueDeliveries(limit = 50): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: "pending",
+      nextAttemptAt: { lte: new Date() },
+      webhook: { isActive: true },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  let attempted = 0;
+  for (const { id } of due) {
+    try {
+      if (await attemptDelivery(id)) attempted++;
+    } catch (err) {
+      logger.error({ err, deliveryId: id }, "Webhook delivery attempt crashed");
+    }
+  }
+  return attempted;
+}
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let workerRunning = false;
+
+/** Poll for due retries every `intervalMs` until stopDeliveryWorker */
+export function startDeliveryWorker(intervalMs = 15_000): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    // Skip a tick rather than overlap a slow batch
+    if (workerRunning) return;
+    workerRunning = true;
+    processDueDeliveries()
+      .catch((err) => logger.error({ err }, "Webhook delivery worker failed"))
+      .finally(() => {
+        workerRunning = false;
+      });
+  }, intervalMs);
+  workerTimer.unref();
+}
+
+export function stopDeliveryWorker(): void {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
@@ -24,6 +24,15 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     name: string | null;
+    /** Sign-in session of the access token, if it has one */
+    sessionId?: string;
+  };
+  /** Set by apiKeyAuth: what the key grants and its per-minute limit */
+  apiKey?: {
+    keyId: string;
+    scopes: string[];
+    spreadsheetIds: string[];
+    rateLimit: number;
   };
 }
 
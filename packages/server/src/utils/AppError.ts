@@ -38,3 +38,10 @@ export class ValidationError extends AppError {
     this.name = "ValidationError";
   }
 }
+
+export class ConflictError extends AppError {
+  constructor(message = "Conflict") {
+    super(409, message);
+    this.name = "ConflictError";
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * In-memory Yjs awareness tracker (cursors and selections of co-editors).
+ * Maps spreadsheetId → Map<socketId, awareness entry>
+ * so joining clients get the current states and leaving clients are cleared.
+ */
+
+export interface AwarenessEntry {
+  /** Yjs client ID of the sender's document */
+  clientId: number;
+  userId: string;
+  state: Record<string, unknown> | null;
+}
+
+const states = new Map<string, Map<string, AwarenessEntry>>();
+
+export function setState(
+  spreadsheetId: string,
+  socketId: string,
+  entry: AwarenessEntry,
+): void {
+  let room = states.get(spreadsheetId);
+  if (!room) {
+    room = new Map();
+    states.set(spreadsheetId, room);
+  }
+  room.set(socketId, entry);
+}
+
+/** Remove a socket's state and return it so the leave can be broadcast */
+export function removeState(
+  spreadsheetId: string,
+  socketId: string,
+): AwarenessEntry | undefined {
+  const room = states.get(spreadsheetId);
+  if (!room) return undefined;
+
+  const entry = room.get(socketId);
+  room.delete(socketId);
+  if (room.size === 0) states.delete(spreadsheetId);
+  return entry;
+}
+
+export function getStates(spreadsheetId: string): AwarenessEntry[] {
+  const room = states.get(spreadsheetId);
+  if (!room) return [];
+  return Array.from(room.values()).filter((e) => e.state !== null);
+}
+
+/** Clear all states (for testing) */
+export function clearAll(): void {
+  states.clear();
+}
@@ -1,4 +1,5 @@
 import type { Server, Socket } from "socket.io";
+import * as Y from "yjs";
 import { WS_EVENTS } from "./types";
 import type {
   JoinPayload,
@@ -6,6 +7,7 @@ import type {
   CellEditStartPayload,
   CellEditEndPayload,
   CellUpdatePayload,
+  CellUpdateRejectedPayload,
   SheetSwitchPayload,
   SheetAddPayload,
   SheetDeletePayload,
@@ -14,35 +16,55 @@ import type {
   FormatUpdatePayload,
   ChartUpdatePayload,
   TypingPayload,
+  YjsAwarenessPayload,
   SocketData,
 } from "./types";
 import * as presence from "./presence";
 import * as cellLocks from "./cellLocks";
+import * as yjsDocs from "./yjsDocs";
+import * as awareness from "./awareness";
 import { checkRateLimit, removeClient } from "./rateLimit";
 import logger from "../utils/logger";
 import prisma from "../models/prisma";
-
-function roomName(spreadsheetId: string): string {
+import {
+  effectiveRole,
+  spreadsheetAccessSelect,
+} from "../services/access.service";
+import type { SpreadsheetRole } from "../services/access.service";
+import {
+  assertCellsEditable,
+  cellWriteGuard,
+} from "../services/protection.service";
+import { AppError } from "../utils/AppError";
+
+export function roomName(spreadsheetId: string): string {
   return `spreadsheet:${spreadsheetId}`;
 }
 
-async function verifySpreadsheetAccess(
+/** Resolve the user's role on a spreadsheet, or null without access */
+async function getSpreadsheetRole(
   userId: string,
   spreadsheetId: string,
-): Promise<boolean> {
+): Promise<SpreadsheetRole | null> {
   const spreadsheet = await prisma.spreadsheet.findUnique({
     where: { id: spreadsheetId },
-    select: {
-      ownerId: true,
-      access: { where: { userId }, select: { role: true } },
-      shareLinkRole: true,
-    },
+    select: spreadsheetAccessSelect(userId),
   });
 
-  if (!spreadsheet) return false;
-  if (spreadsheet.ownerId === userId) return true;
-  if (spreadsheet.access.length > 0) return true;
-  return false;
+  if (!spreadsheet) return null;
+  return effectiveRole(spreadsheet, userId);
+}
+
+/** Protection refusals; AppError pins its own prototype, so match on status */
+function isForbidden(err: unknown): err is AppError {
+  return err instanceof AppError && err.statusCode === 403;
+}
+
+/** Socket.io delivers binary payloads as Buffer/ArrayBuffer; normalize them */
+function toUint8Array(payload: unknown): Uint8Array | null {
+  if (payload instanceof Uint8Array) return payload;
+  if (payload instanceof ArrayBuffer) return new Uint8Array(payload);
+  return null;
 }
 
 export function registerHandlers(io: Server, socket: Socket): void {
@@ -66,8 +88,8 @@ export function registerHandlers(io: Server, socket: Socket): void {
     withRateLimit(async (payload: unknown) => {
       const { spreadsheetId, sheetId, tabId } = payload as JoinPayload;
 
-      const hasAccess = await verifySpreadsheetAccess(userId, spreadsheetId);
-      if (!hasAccess) {
+      const role = await getSpreadsheetRole(userId, spreadsheetId);
+      if (!role) {
         socket.emit(WS_EVENTS.CONNECTION_ERROR, "Access denied");
         return;
       }
@@ -79,6 +101,8 @@ export function registerHandlers(io: Server, socket: Socket): void {
 
       data.spreadsheetId = spreadsheetId;
       data.tabId = tabId;
+      data.canEdit = role === "owner" || role === "editor";
+      data.role = role;
       const room = roomName(spreadsheetId);
       await socket.join(room);
 
@@ -99,6 +123,11 @@ export function registerHandlers(io: Server, socket: Socket): void {
       const lockedCells = cellLocks.getLockedCells(spreadsheetId);
       socket.emit("locked-cells", lockedCells);
 
+      // Initial Yjs state sync and current co-editor cursors
+      const doc = await yjsDocs.openDoc(spreadsheetId, socket.id);
+      socket.emit(WS_EVENTS.YJS_SYNC, yjsDocs.encodeSync(doc));
+      socket.emit(WS_EVENTS.YJS_AWARENESS, awareness.getStates(spreadsheetId));
+
       // Broadcast join to others
       socket.to(room).emit(WS_EVENTS.USER_JOINED, user);
 
@@ -171,11 +200,41 @@ export function registerHandlers(io: Server, socket: Socket): void {
 
   socket.on(
     WS_EVENTS.CELL_UPDATE,
-    withRateLimit((payload: unknown) => {
+    withRateLimit(async (payload: unknown) => {
       const { spreadsheetId, sheetId, cell, value, formula } =
         payload as CellUpdatePayload;
       if (!data.spreadsheetId || data.spreadsheetId !== spreadsheetId) return;
 
+      // Refused updates go back to the sender only
+      const reject = (reason: string) => {
+        const rejected: CellUpdateRejectedPayload = { sheetId, cell, reason };
+        socket.emit(WS_EVENTS.CELL_UPDATE_REJECTED, rejected);
+      };
+
+      if (!data.canEdit) {
+        reject("You have view-only access to this spreadsheet");
+        return;
+      }
+
+      try {
+        await assertCellsEditable(spreadsheetId, sheetId, userId, data.role, [
+          cell,
+        ]);
+      } catch (err) {
+        if (!isForbidden(err)) {
+          logger.error(
+            { err, spreadsheetId, sheetId },
+            "Protection check failed",
+          );
+        }
+        reject(
+          isForbidden(err)
+            ? err.message
+            : "Could not save the change. Try again",
+        );
+        return;
+      }
+
       socket.to(roomName(spreadsheetId)).emit(WS_EVENTS.CELL_REMOTE_UPDATE, {
         userId,
         sheetId,
@@ -359,15 +418,87 @@ export function registerHandlers(io: Server, socket: Socket): void {
   );
 
   // ─── Yjs SYNC ──────────────────────────────────────────
-  socket.on(WS_EVENTS.YJS_SYNC, (data_: unknown) => {
-    if (!data.spreadsheetId) return;
-    socket.to(roomName(data.spreadsheetId)).emit(WS_EVENTS.YJS_SYNC, data_);
-  });
+  // Updates are merged into the server document, so concurrent edits
+  // converge the same way on every client and survive reconnects.
+  socket.on(
+    WS_EVENTS.YJS_UPDATE,
+    withRateLimit(async (payload: unknown) => {
+      const spreadsheetId = data.spreadsheetId;
+      if (!spreadsheetId) return;
 
-  socket.on(WS_EVENTS.YJS_UPDATE, (update: unknown) => {
-    if (!data.spreadsheetId) return;
-    socket.to(roomName(data.spreadsheetId)).emit(WS_EVENTS.YJS_UPDATE, update);
-  });
+      if (!data.canEdit) {
+        socket.emit(WS_EVENTS.CONNECTION_ERROR, "Read-only access");
+        return;
+      }
+
+      const doc = yjsDocs.getDoc(spreadsheetId);
+      const update = toUint8Array(payload);
+      if (!doc || !update) return;
+
+      let touched: Map<string, Set<string>>;
+      try {
+        touched = yjsDocs.touchedCells(doc, update);
+      } catch (err) {
+        logger.warn({ err, userId, spreadsheetId }, "Rejected Yjs update");
+        socket.emit(WS_EVENTS.CONNECTION_ERROR, "Invalid document update");
+        return;
+      }
+
+      // Protected cells refuse the whole update, reported to the sender only
+      for (const [sheetId, cells] of touched) {
+        let check: (cellKeys: string[]) => void;
+        try {
+          check = await cellWriteGuard(
+            spreadsheetId,
+            sheetId,
+            userId,
+            data.role,
+          );
+        } catch (err) {
+          logger.error(
+            { err, spreadsheetId, sheetId },
+            "Protection check failed",
+          );
+          socket.emit(
+            WS_EVENTS.CONNECTION_ERROR,
+            "Could not save the change. Try again",
+          );
+          return;
+        }
+
+        for (const cell of cells) {
+          try {
+            check([cell]);
+          } catch (err) {
+            const rejected: CellUpdateRejectedPayload = {
+              sheetId,
+              cell,
+              reason: (err as Error).message,
+            };
+            socket.emit(WS_EVENTS.CELL_UPDATE_REJECTED, rejected);
+            return;
+          }
+        }
+      }
+
+      Y.applyUpdate(doc, update, socket.id);
+      socket.to(roomName(spreadsheetId)).emit(WS_EVENTS.YJS_UPDATE, update);
+    }),
+  );
+
+  socket.on(
+    WS_EVENTS.YJS_AWARENESS,
+    withRateLimit((payload: unknown) => {
+      const spreadsheetId = data.spreadsheetId;
+      if (!spreadsheetId) return;
+
+      const { clientId, state } = payload as YjsAwarenessPayload;
+      const entry = { clientId, userId, state };
+      awareness.setState(spreadsheetId, socket.id, entry);
+
+      socket.to(roomName(spreadsheetId)).emit(WS_EVENTS.YJS_AWARENESS, [entry]);
+    }),
+  );
 
   // ─── DISCONNECT ─────────────────────────────────────────
   socket.on("disconnect", async () => {
@@ -399,6 +530,15 @@ async function handleLeave(socket: Socket, io: Server): Promise<void> {
     io.to(room).emit(WS_EVENTS.CELL_UNLOCKED, { sheetId, cell });
   }
 
+  // Clear this client's cursor and release its hold on the Yjs document
+  const entry = awareness.removeState(spreadsheetId, socket.id);
+  if (entry) {
+    socket.to(room).emit(WS_EVENTS.YJS_AWARENESS, [{ ...entry, state: null }]);
+  }
+  await yjsDocs.closeDoc(spreadsheetId, socket.id).catch((err) => {
+    logger.error({ err, spreadsheetId }, "Failed to persist Yjs document");
+  });
+
   // Broadcast leave
   if (removedUser) {
     socket.to(room).emit(WS_EVENTS.USER_LEFT, {
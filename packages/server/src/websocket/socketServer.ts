@@ -1,7 +1,8 @@
 import { Server as HttpServer } from "http";
 import { Server } from "socket.io";
 import { env } from "../config/env";
-import { verifyAccessToken } from "../services/auth.service";
+import { isTokenRevoked, verifyAccessToken } from "../services/auth.service";
+import { isSessionActive } from "../services/session.service";
 import prisma from "../models/prisma";
 import { registerHandlers } from "./handlers";
 import logger from "../utils/logger";
@@ -31,17 +32,37 @@ export function createSocketServer(httpServer: HttpServer): Server {
       const decoded = verifyAccessToken(token);
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
-        select: { id: true, email: true, name: true, avatarUrl: true },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          avatarUrl: true,
+          tokenVersion: true,
+        },
       });
 
       if (!user) {
         return next(new Error("User not found"));
       }
 
+      if (
+        isTokenRevoked(decoded, user) ||
+        (decoded.sid && !(await isSessionActive(decoded.sid)))
+      ) {
+        return next(new Error("Session revoked"));
+      }
+
       const socketData: SocketData = {
-        user,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          avatarUrl: user.avatarUrl,
+        },
         tabId: (socket.handshake.auth.tabId as string) || socket.id,
         spreadsheetId: null,
+        canEdit: false,
+        role: null,
       };
       socket.data = socketData;
       next();
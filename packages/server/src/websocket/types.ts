@@ -1,5 +1,7 @@
 /** WebSocket event types and payload interfaces for real-time collaboration */
 
+import type { SpreadsheetRole } from "../services/access.service";
+
 export const WS_EVENTS = {
   // Connection
   JOIN_SPREADSHEET: "join-spreadsheet",
@@ -21,6 +23,7 @@ export const WS_EVENTS = {
   CELL_UNLOCKED: "cell-unlocked",
   CELL_UPDATE: "cell-update",
   CELL_REMOTE_UPDATE: "cell-remote-update",
+  CELL_UPDATE_REJECTED: "cell-update-rejected",
 
   // Sheet sync
   SHEET_SWITCH: "sheet-switch",
@@ -46,6 +49,8 @@ export const WS_EVENTS = {
   // Yjs sync
   YJS_SYNC: "yjs-sync",
   YJS_UPDATE: "yjs-update",
+  YJS_AWARENESS: "yjs-awareness",
+  YJS_RESET: "yjs-reset",
 
   // Connection status
   CONNECTION_ERROR: "connection-error",
@@ -94,6 +99,13 @@ export interface CellUpdatePayload {
   formula?: string;
 }
 
+/** Server → sender when a cell update is refused; it is not broadcast */
+export interface CellUpdateRejectedPayload {
+  sheetId: string;
+  cell: string;
+  reason: string;
+}
+
 export interface SheetSwitchPayload {
   spreadsheetId: string;
   sheetId: string;
@@ -150,6 +162,18 @@ export interface JoinPayload {
   tabId: string;
 }
 
+/** Server → client on join: full document state and the server's vector */
+export interface YjsSyncPayload {
+  update: Uint8Array;
+  stateVector: Uint8Array;
+}
+
+/** Awareness (cursor/selection) state of one co-editor; null clears it */
+export interface YjsAwarenessPayload {
+  clientId: number;
+  state: Record<string, unknown> | null;
+}
+
 /** Socket data augmented by auth middleware */
 export interface SocketData {
   user: {
@@ -160,4 +184,8 @@ export interface SocketData {
   };
   tabId: string;
   spreadsheetId: string | null;
+  /** Whether the user may write to the joined spreadsheet's Yjs document */
+  canEdit: boolean;
+  /** The user's role on the joined spreadsheet */
+  role: SpreadsheetRole | null;
 }
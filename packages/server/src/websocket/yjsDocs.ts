@@ -0,0 +1,326 @@
+/**
+ * Server-side Yjs documents for real-time co-editing, one per spreadsheet.
+ *
+ * Document layout (mirrored by the client binding):
+ *   doc.getMap("sheets"): sheetId → Y.Map {
+ *     name, index, color, isHidden,
+ *     cells: Y.Map<"row,col", Y.Map<field, value>>
+ *   }
+ * Each cell is its own Y.Map so concurrent edits to different fields of a
+ * cell (value vs format) both survive, and edits to the same field resolve
+ * the same way on every replica.
+ *
+ * Documents are loaded on first join, seeded from the sheets table when no
+ * state has been persisted yet, written back to Postgres shortly after
+ * changes, and unloaded once the last client leaves.
+ */
+import * as Y from "yjs";
+import prisma from "../models/prisma";
+import logger from "../utils/logger";
+import type { CellPatch } from "../services/sheet.service";
+
+/** Delay before persisting a changed document */
+const PERSIST_DELAY_MS = 2000;
+
+interface LoadedDoc {
+  doc: Y.Doc;
+  clients: Set<string>;
+  persistTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const docs = new Map<string, LoadedDoc>();
+const loading = new Map<string, Promise<LoadedDoc>>();
+
+/** Build the initial document from the sheets stored for a spreadsheet */
+async function seedDoc(spreadsheetId: string, doc: Y.Doc): Promise<void> {
+  const sheets = await prisma.sheet.findMany({
+    where: { spreadsheetId },
+    select: {
+      id: true,
+      name: true,
+      index: true,
+      color: true,
+      isHidden: true,
+      cellData: true,
+    },
+  });
+
+  const sheetsMap = doc.getMap<Y.Map<unknown>>("sheets");
+  doc.transact(() => {
+    for (const sheet of sheets) {
+      const sheetMap = new Y.Map<unknown>();
+      sheetMap.set("name", sheet.name);
+      sheetMap.set("index", sheet.index);
+      sheetMap.set("color", sheet.color);
+      sheetMap.set("isHidden", sheet.isHidden);
+
+      const cells = new Y.Map<Y.Map<unknown>>();
+      const cellData = (sheet.cellData ?? {}) as Record<
+        string,
+        Record<string, unknown>
+      >;
+      for (const [key, cell] of Object.entries(cellData)) {
+        const cellMap = new Y.Map<unknown>();
+        for (const [field, value] of Object.entries(cell ?? {})) {
+          cellMap.set(field, value);
+        }
+        cells.set(key, cellMap);
+      }
+      sheetMap.set("cells", cells);
+
+      sheetsMap.set(sheet.id, sheetMap);
+    }
+  });
+}
+
+async function loadDoc(spreadsheetId: string): Promise<LoadedDoc> {
+  const doc = new Y.Doc();
+  const stored = await prisma.yjsDocument.findUnique({
+    where: { spreadsheetId },
+    select: { state: true },
+  });
+
+  if (stored) {
+    Y.applyUpdate(doc, new Uint8Array(stored.state));
+  } else {
+    await seedDoc(spreadsheetId, doc);
+  }
+
+  const loaded: LoadedDoc = { doc, clients: new Set(), persistTimer: null };
+  doc.on("update", () => schedulePersist(spreadsheetId, loaded));
+  if (!stored) schedulePersist(spreadsheetId, loaded);
+
+  logger.debug({ spreadsheetId, seeded: !stored }, "Yjs document loaded");
+  return loaded;
+}
+
+function schedulePersist(spreadsheetId: string, loaded: LoadedDoc): void {
+  if (loaded.persistTimer) return;
+  loaded.persistTimer = setTimeout(() => {
+    loaded.persistTimer = null;
+    persist(spreadsheetId, loaded.doc).catch((err) => {
+      logger.error({ err, spreadsheetId }, "Failed to persist Yjs document");
+    });
+  }, PERSIST_DELAY_MS);
+}
+
+async function persist(spreadsheetId: string, doc: Y.Doc): Promise<void> {
+  const state = Buffer.from(Y.encodeStateAsUpdate(doc));
+  await prisma.yjsDocument.upsert({
+    where: { spreadsheetId },
+    create: { spreadsheetId, state },
+    update: { state },
+  });
+}
+
+/** Load (or reuse) the document and register a client on it */
+export async function openDoc(
+  spreadsheetId: string,
+  clientId: string,
+): Promise<Y.Doc> {
+  let loaded = docs.get(spreadsheetId);
+  if (!loaded) {
+    let pending = loading.get(spreadsheetId);
+    if (!pending) {
+      pending = loadDoc(spreadsheetId).finally(() =>
+        loading.delete(spreadsheetId),
+      );
+      loading.set(spreadsheetId, pending);
+    }
+    loaded = await pending;
+    docs.set(spreadsheetId, loaded);
+  }
+
+  loaded.clients.add(clientId);
+  return loaded.doc;
+}
+
+/** Unregister a client; the last one out flushes and unloads the document */
+export async function closeDoc(
+  spreadsheetId: string,
+  clientId: string,
+): Promise<void> {
+  const loaded = docs.get(spreadsheetId);
+  if (!loaded) return;
+
+  loaded.clients.delete(clientId);
+  if (loaded.clients.size > 0) return;
+
+  docs.delete(spreadsheetId);
+  if (loaded.persistTimer) {
+    clearTimeout(loaded.persistTimer);
+    loaded.persistTimer = null;
+    await persist(spreadsheetId, loaded.doc);
+  }
+  loaded.doc.destroy();
+}
+
+export function getDoc(spreadsheetId: string): Y.Doc | undefined {
+  return docs.get(spreadsheetId)?.doc;
+}
+
+/** Cell keys of a sheet in the document */
+function sheetCellKeys(sheet: unknown): string[] {
+  const cells = sheet instanceof Y.Map ? sheet.get("cells") : undefined;
+  return cells instanceof Y.Map ? Array.from(cells.keys()) : [];
+}
+
+/**
+ * Cells a client update would add, change or remove, by sheet ID. The
+ * update is applied to a scratch copy, so `doc` is left untouched and the
+ * caller can refuse it. Adding, replacing or removing a whole sheet or its
+ * cells map touches every cell in it. Throws on a malformed update.
+ */
+export function touchedCells(
+  doc: Y.Doc,
+  update: Uint8Array,
+): Map<string, Set<string>> {
+  const sheets = doc.getMap<Y.Map<unknown>>("sheets");
+  const scratch = new Y.Doc();
+  Y.applyUpdate(scratch, Y.encodeStateAsUpdate(doc));
+  const scratchSheets = scratch.getMap<Y.Map<unknown>>("sheets");
+
+  const touched = new Map<string, Set<string>>();
+  const touch = (sheetId: string, keys: Iterable<string>) => {
+    const set = touched.get(sheetId) ?? new Set<string>();
+    for (const key of keys) set.add(key);
+    touched.set(sheetId, set);
+  };
+  // Removed content is gone from the scratch copy, so old keys come from `doc`
+  const touchWholeSheet = (sheetId: string) => {
+    touch(sheetId, sheetCellKeys(sheets.get(sheetId)));
+    touch(sheetId, sheetCellKeys(scratchSheets.get(sheetId)));
+  };
+
+  scratchSheets.observeDeep((events) => {
+    for (const event of events) {
+      const [sheetId, field, cellKey] = event.path as string[];
+      if (sheetId === undefined) {
+        for (const id of event.changes.keys.keys()) touchWholeSheet(id);
+      } else if (field === undefined) {
+        if (event.changes.keys.has("cells")) touchWholeSheet(sheetId);
+      } else if (field === "cells") {
+        touch(
+          sheetId,
+          cellKey === undefined ? event.changes.keys.keys() : [cellKey],
+        );
+      }
+    }
+  });
+
+  try {
+    Y.applyUpdate(scratch, update);
+  } finally {
+    scratch.destroy();
+  }
+  return touched;
+}
+
+/** Full state for a joining client, plus the server's state vector */
+export function encodeSync(doc: Y.Doc): {
+  update: Uint8Array;
+  stateVector: Uint8Array;
+} {
+  return {
+    update: Y.encodeStateAsUpdate(doc),
+    stateVector: Y.encodeStateVector(doc),
+  };
+}
+
+/**
+ * Drop the persisted and in-memory state so the next load reseeds from the
+ * sheets table (e.g. after a version restore rewrote every sheet).
+ */
+export async function discardDoc(spreadsheetId: string): Promise<void> {
+  const loaded = docs.get(spreadsheetId);
+  if (loaded) {
+    if (loaded.persistTimer) clearTimeout(loaded.persistTimer);
+    docs.delete(spreadsheetId);
+    loaded.doc.destroy();
+  }
+  await prisma.yjsDocument.deleteMany({ where: { spreadsheetId } });
+}
+
+/** Write a cell patch into the document's copy of a sheet */
+function writeCellPatch(doc: Y.Doc, sheetId: string, patch: CellPatch): void {
+  const sheet = doc.getMap<Y.Map<unknown>>("sheets").get(sheetId);
+  if (!sheet) return;
+  let cells = sheet.get("cells") as Y.Map<Y.Map<unknown>> | undefined;
+  if (!cells) {
+    cells = new Y.Map<Y.Map<unknown>>();
+    sheet.set("cells", cells);
+  }
+
+  for (const [key, raw] of Object.entries(patch.upserts)) {
+    const next = (raw ?? {}) as Record<string, unknown>;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = new Y.Map<unknown>();
+      cells.set(key, cell);
+    }
+    // Only changed fields, so co-editors' edits to other fields survive
+    for (const [field, value] of Object.entries(next)) {
+      if (JSON.stringify(cell.get(field)) !== JSON.stringify(value)) {
+        cell.set(field, value);
+      }
+    }
+    for (const field of Array.from(cell.keys())) {
+      if (!(field in next)) cell.delete(field);
+    }
+  }
+
+  for (const key of patch.deletes) {
+    cells.delete(key);
+  }
+}
+
+/**
+ * Bring the document in line with cells written outside it (public API,
+ * server recalculation), which would otherwise be replayed over on the next
+ * sync. A loaded document takes the patch and returns the update to relay
+ * to its clients; with none loaded the stored state is dropped, so the
+ * next load reseeds from the sheets table.
+ */
+export async function applyCellWrite(
+  spreadsheetId: string,
+  sheetId: string,
+  patch: CellPatch,
+): Promise<Uint8Array | null> {
+  if (Object.keys(patch.upserts).length === 0 && patch.deletes.length === 0) {
+    return null;
+  }
+
+  let loaded = docs.get(spreadsheetId) ?? (await loading.get(spreadsheetId));
+  if (!loaded) {
+    await prisma.yjsDocument.deleteMany({ where: { spreadsheetId } });
+    // A load that started meanwhile may have read the old state
+    loaded = docs.get(spreadsheetId) ?? (await loading.get(spreadsheetId));
+    if (!loaded) return null;
+  }
+
+  const before = Y.encodeStateVector(loaded.doc);
+  loaded.doc.transact(() => writeCellPatch(loaded.doc, sheetId, patch));
+  return Y.encodeStateAsUpdate(loaded.doc, before);
+}
+
+/** Persist every loaded document (graceful shutdown) */
+export async function flushAll(): Promise<void> {
+  await Promise.all(
+    Array.from(docs.entries()).map(async ([spreadsheetId, loaded]) => {
+      if (!loaded.persistTimer) return;
+      clearTimeout(loaded.persistTimer);
+      loaded.persistTimer = null;
+      await persist(spreadsheetId, loaded.doc);
+    }),
+  );
+}
+
+/** Unload everything without persisting (for testing) */
+export function clearAll(): void {
+  for (const loaded of docs.values()) {
+    if (loaded.persistTimer) clearTimeout(loaded.persistTimer);
+    loaded.doc.destroy();
+  }
+  docs.clear();
+  loading.clear();
+}
@@ -1,6 +1,15 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  resolve: {
+    // Test against the formula sources rather than a prior build
+    alias: {
+      "@gridspace/formula": fileURLToPath(
+        new URL("../formula/src", import.meta.url),
+      ),
+    },
+  },
   test: {
     name: "server",
     environment: "node",
@@ -2,6 +2,6 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
-    projects: ["packages/client", "packages/server"],
+    projects: ["packages/formula", "packages/client", "packages/server"],
   },
 });